@@ -0,0 +1,63 @@
+import { createHashEmbeddingProvider } from './providers/hashEmbeddingProvider.js';
+import { createOllamaEmbeddingProvider } from './providers/ollamaEmbeddingProvider.js';
+
+const DEFAULT_PROVIDERS = {
+  hash: () => createHashEmbeddingProvider(),
+  ollama: () => createOllamaEmbeddingProvider(),
+};
+
+const MAX_TEXTS = 128;
+const MAX_TEXT_LENGTH = 8000;
+
+function invalidRequest(message) {
+  const error = new Error(message);
+  error.code = 'INVALID_REQUEST';
+  return error;
+}
+
+function assertValidTexts(texts) {
+  if (!Array.isArray(texts) || texts.length === 0) {
+    throw invalidRequest('Invalid request: texts array is required');
+  }
+  if (texts.length > MAX_TEXTS) {
+    throw invalidRequest(`Invalid request: at most ${MAX_TEXTS} texts per request`);
+  }
+  for (const [index, text] of texts.entries()) {
+    if (typeof text !== 'string') {
+      throw invalidRequest(`Invalid text at index ${index}: must be a string`);
+    }
+  }
+}
+
+/**
+ * Text embeddings for semantic card search. The provider is picked with
+ * NABOKOV_EMBEDDINGS_PROVIDER (`hash` by default, or `ollama`); each entry of
+ * `providers` is a factory returning `{ name, model, embed(texts) }`.
+ */
+export function createEmbeddingService({
+  providers = DEFAULT_PROVIDERS,
+  providerKey = process.env.NABOKOV_EMBEDDINGS_PROVIDER?.toLowerCase() || 'hash',
+} = {}) {
+  const createProvider = providers[providerKey];
+  if (!createProvider) {
+    throw new Error(`Unsupported embedding provider: ${providerKey}`);
+  }
+  const provider = createProvider();
+
+  return {
+    async embed(texts) {
+      assertValidTexts(texts);
+      const vectors = await provider.embed(texts.map(text => text.slice(0, MAX_TEXT_LENGTH)));
+      return {
+        provider: provider.name,
+        model: provider.model,
+        dimensions: vectors[0]?.length ?? 0,
+        vectors,
+      };
+    },
+
+    getProviderName() {
+      return provider.name;
+    },
+  };
+}
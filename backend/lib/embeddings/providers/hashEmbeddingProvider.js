@@ -0,0 +1,46 @@
+import { createHash } from 'node:crypto';
+
+const DEFAULT_DIMENSIONS = 256;
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+function tokenize(text) {
+  return text.toLowerCase().match(TOKEN_PATTERN) ?? [];
+}
+
+function bucketFor(token, dimensions) {
+  const digest = createHash('sha1').update(token).digest();
+  return {
+    index: digest.readUInt32BE(0) % dimensions,
+    sign: digest[4] & 1 ? 1 : -1,
+  };
+}
+
+/**
+ * Deterministic bag-of-words embeddings (feature hashing of words and word
+ * pairs). Needs no model, so it is the default and what the tests use; it
+ * only captures shared vocabulary, not meaning.
+ */
+export function createHashEmbeddingProvider({ dimensions = DEFAULT_DIMENSIONS } = {}) {
+  const embedOne = text => {
+    const vector = new Array(dimensions).fill(0);
+    const tokens = tokenize(text);
+    const features = [...tokens, ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`)];
+
+    for (const feature of features) {
+      const { index, sign } = bucketFor(feature, dimensions);
+      vector[index] += sign;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  };
+
+  return {
+    name: 'hash',
+    model: `hash-${dimensions}`,
+
+    async embed(texts) {
+      return texts.map(embedOne);
+    },
+  };
+}
@@ -0,0 +1,37 @@
+const DEFAULT_BASE_URL = 'http://localhost:11434';
+const DEFAULT_MODEL = 'nomic-embed-text';
+
+/**
+ * Embeddings from a local Ollama server (`ollama pull nomic-embed-text`).
+ */
+export function createOllamaEmbeddingProvider({
+  baseUrl = process.env.OLLAMA_URL || DEFAULT_BASE_URL,
+  model = process.env.NABOKOV_EMBEDDINGS_MODEL || DEFAULT_MODEL,
+  fetchImpl = globalThis.fetch,
+} = {}) {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/api/embed`;
+
+  return {
+    name: 'ollama',
+    model,
+
+    async embed(texts) {
+      const response = await fetchImpl(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model, input: texts }),
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new Error(`Ollama embedding request failed (${response.status}): ${detail || response.statusText}`);
+      }
+
+      const { embeddings } = await response.json();
+      if (!Array.isArray(embeddings) || embeddings.length !== texts.length) {
+        throw new Error('Ollama returned an unexpected embedding response');
+      }
+      return embeddings;
+    },
+  };
+}
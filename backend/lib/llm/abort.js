@@ -0,0 +1,41 @@
+/**
+ * The error for work stopped through an AbortSignal. Aborts raised by the
+ * backend itself (timeouts) carry their own coded error as the reason;
+ * anything else means the client went away.
+ * @param {AbortSignal | undefined} signal
+ */
+export function abortError(signal) {
+  const reason = signal?.reason;
+  // DOMException AbortErrors carry a numeric legacy code
+  if (reason instanceof Error && typeof reason.code === 'string') {
+    return reason;
+  }
+
+  const error = new Error('Request cancelled');
+  error.code = 'REQUEST_CANCELLED';
+  return error;
+}
+
+/**
+ * Settles with `promise`, or rejects as soon as `signal` aborts, for
+ * providers that may not stop promptly on their own.
+ * @template T
+ * @param {Promise<T>} promise
+ * @param {AbortSignal | undefined} signal
+ * @returns {Promise<T>}
+ */
+export function raceAbort(promise, signal) {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(abortError(signal));
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
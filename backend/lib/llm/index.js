@@ -1,19 +1,31 @@
-import { assertValidMessages, hasMultimodalContent, buildPrompt } from './promptUtils.js';
-import { claudeProvider } from './providers/claudeProvider.js';
-import { codexProvider } from './providers/codexProvider.js';
+import { assertValidMessages, hasMultimodalContent, buildPrompt, extractImages } from './promptUtils.js';
+import { DEFAULT_PROVIDERS, createProviderRegistry } from './registry.js';
+import { createRouter, loadRoutingConfig } from './routing.js';
+import { createScheduler } from './scheduler.js';
+import { abortError, raceAbort } from './abort.js';
 
-const DEFAULT_PROVIDERS = {
-  codex: codexProvider,
-  claude: claudeProvider,
-};
+export { DEFAULT_PROVIDERS, createProviderRegistry, loadProviderModules } from './registry.js';
+export { createRouter, loadRoutingConfig } from './routing.js';
+export { createScheduler, parseConcurrencyLimits } from './scheduler.js';
+export { STREAM_EVENT_TYPES, formatStreamEvent, normalizeUsage } from './streamEvents.js';
 
 const DEFAULT_MODELS = {
   codex: process.env.CODEX_MODEL || 'gpt5-codex',
   claude: process.env.CLAUDE_MODEL || 'sonnet',
 };
 
+const DEFAULT_REQUEST_TIMEOUT_MS = 5 * 60 * 1000;
+
 const CODEX_MODEL_PATTERN = /(codex|gpt)/i;
 
+/**
+ * What a provider can take besides text. Providers declare it as
+ * `capabilities`; anything undeclared is unsupported.
+ */
+const DEFAULT_CAPABILITIES = {
+  images: false,
+};
+
 function normalizeClaudeModelName(model, defaultModel) {
   if (!model || typeof model !== 'string') {
     return defaultModel;
@@ -36,9 +48,9 @@ function normalizeClaudeModelName(model, defaultModel) {
   return defaultModel;
 }
 
-function resolveProviderKey(providers) {
+function resolveProviderKey() {
   const envProvider = process.env.LLM_PROVIDER?.toLowerCase();
-  if (envProvider && providers[envProvider]) {
+  if (envProvider) {
     return envProvider;
   }
 
@@ -50,146 +62,390 @@ function resolveProviderKey(providers) {
   return 'codex';
 }
 
-export function createLLMService({ providers = DEFAULT_PROVIDERS } = {}) {
-  const providerKey = resolveProviderKey(providers);
-  const provider = providers[providerKey];
+function normalizeOptionsForProvider(providerKey, provider, options) {
+  const defaultModel = DEFAULT_MODELS[providerKey];
 
-  if (!provider) {
-    throw new Error(`Unsupported LLM provider: ${providerKey}`);
-  }
+  if (providerKey === 'codex') {
+    const {
+      model,
+      providerOptions = {},
+      ...rest
+    } = options ?? {};
 
-  const validate = messages => {
-    assertValidMessages(messages);
-    if (hasMultimodalContent(messages)) {
-      const error = new Error('Multimodal messages not supported by current provider');
-      error.code = 'UNSUPPORTED_MULTIMODAL';
-      throw error;
+    const userRequestedModel = model || providerOptions.model;
+    const normalizedProviderOptions = { ...providerOptions };
+
+    if (userRequestedModel) {
+      normalizedProviderOptions.model = userRequestedModel;
+    } else {
+      delete normalizedProviderOptions.model;
     }
-  };
 
-  const normalizeOptionsForProvider = options => {
-    const defaultModel = DEFAULT_MODELS[providerKey];
+    if (!Object.keys(normalizedProviderOptions).length) {
+      delete normalizedProviderOptions.model;
+    }
 
-    if (providerKey === 'codex') {
-      const {
-        model,
-        providerOptions = {},
-        ...rest
-      } = options ?? {};
+    const normalizedOptions = {
+      ...rest,
+      ...(Object.keys(normalizedProviderOptions).length
+        ? { providerOptions: normalizedProviderOptions }
+        : {}),
+    };
 
-      const userRequestedModel = model || providerOptions.model;
-      const normalizedProviderOptions = { ...providerOptions };
+    return {
+      normalized: normalizedOptions,
+      requestedModel: userRequestedModel,
+      resolvedModel: userRequestedModel || defaultModel,
+    };
+  }
 
-      if (userRequestedModel) {
-        normalizedProviderOptions.model = userRequestedModel;
-      } else {
-        delete normalizedProviderOptions.model;
-      }
+  if (providerKey === 'claude') {
+    const { model, ...rest } = options ?? {};
+    const requestedModel = model || defaultModel;
+    const resolvedModel = normalizeClaudeModelName(requestedModel, defaultModel);
+    return {
+      normalized: {
+        ...rest,
+        model: resolvedModel,
+      },
+      requestedModel,
+      resolvedModel,
+    };
+  }
 
-      if (!Object.keys(normalizedProviderOptions).length) {
-        delete normalizedProviderOptions.model;
-      }
+  // Other providers run their own model; the extension asks for Claude models
+  const { model, ...rest } = options ?? {};
+  return { normalized: rest, requestedModel: model, resolvedModel: provider.model };
+}
 
-      const normalizedOptions = {
-        ...rest,
-        ...(Object.keys(normalizedProviderOptions).length
-          ? { providerOptions: normalizedProviderOptions }
-          : {}),
-      };
-
-      return {
-        normalized: normalizedOptions,
-        requestedModel: userRequestedModel,
-        resolvedModel: userRequestedModel || defaultModel,
-      };
-    }
+function capabilitiesOf(provider) {
+  return { ...DEFAULT_CAPABILITIES, ...(provider.capabilities ?? {}) };
+}
 
-    if (providerKey === 'claude') {
-      const { model, ...rest } = options ?? {};
-      const requestedModel = model || defaultModel;
-      const resolvedModel = normalizeClaudeModelName(requestedModel, defaultModel);
-      return {
-        normalized: {
-          ...rest,
-          model: resolvedModel,
-        },
-        requestedModel,
-        resolvedModel,
-      };
+function createTimeoutError(providerKey, timeoutMs) {
+  const error = new Error(`Provider ${providerKey} did not respond within ${timeoutMs}ms`);
+  error.code = 'PROVIDER_TIMEOUT';
+  return error;
+}
+
+function createRequestTimeoutError(timeoutMs) {
+  const error = new Error(`Request did not complete within ${timeoutMs}ms`);
+  error.code = 'REQUEST_TIMEOUT';
+  return error;
+}
+
+/**
+ * Whether a failed attempt moves on to the next provider in the chain.
+ * Invalid requests fail everywhere; unsupported models are retried by the
+ * server without the model instead; cancelled requests are over.
+ */
+const FINAL_ERROR_CODES = new Set(['INVALID_REQUEST', 'UNSUPPORTED_MODEL', 'REQUEST_CANCELLED', 'REQUEST_TIMEOUT']);
+
+function shouldFallBack(error) {
+  return !FINAL_ERROR_CODES.has(error?.code);
+}
+
+function describeFailure(providerKey, error) {
+  return {
+    providerKey,
+    error: error?.message || 'Unknown error',
+    ...(error?.code ? { code: error.code } : {}),
+  };
+}
+
+/**
+ * Requests are routed per call: `options.route` (a task such as `beautify`,
+ * or a provider key) picks a fallback chain from the routing table in
+ * NABOKOV_LLM_ROUTES. Without a table every request goes to the provider
+ * picked with LLM_PROVIDER (any key in the registry) or USE_CLAUDE=1, which
+ * defaults to `codex`.
+ *
+ * Each attempt waits for a slot under the provider's concurrency cap, and
+ * the whole request is bounded by NABOKOV_LLM_REQUEST_TIMEOUT_MS (or a
+ * shorter `options.timeoutMs`). Aborting the caller's `signal` cancels the
+ * request wherever it is: queued, or running in a provider.
+ * @param {{
+ *   providers?: Record<string, import('./registry.js').ProviderEntry>,
+ *   registry?: ReturnType<typeof createProviderRegistry>,
+ *   routing?: import('./routing.js').RoutingConfig,
+ *   timeoutMs?: number,
+ *   scheduler?: ReturnType<typeof createScheduler>,
+ *   requestTimeoutMs?: number,
+ * }} config
+ */
+export function createLLMService({
+  providers = DEFAULT_PROVIDERS,
+  registry = createProviderRegistry(providers),
+  routing = loadRoutingConfig(process.env.NABOKOV_LLM_ROUTES),
+  timeoutMs,
+  scheduler = createScheduler(),
+  requestTimeoutMs = Number(process.env.NABOKOV_LLM_REQUEST_TIMEOUT_MS) || DEFAULT_REQUEST_TIMEOUT_MS,
+} = {}) {
+  const defaultProviderKey = resolveProviderKey();
+  const router = createRouter({
+    config: routing,
+    defaultProviderKey,
+    providerKeys: registry.keys(),
+    timeoutMs,
+  });
+
+  const primaryKey = router.resolve().steps[0].providerKey;
+  const primary = registry.get(primaryKey);
+
+  /**
+   * The chain for a request, minus providers that can't take its content.
+   */
+  const plan = (messages, options = {}) => {
+    assertValidMessages(messages);
+    const { route, steps } = router.resolve(options.route);
+    const candidates = steps.map(step => ({ ...step, provider: registry.get(step.providerKey) }));
+
+    if (!hasMultimodalContent(messages)) {
+      return { route, candidates };
     }
 
-    return { normalized: options, requestedModel: undefined, resolvedModel: undefined };
+    const capable = candidates.filter(candidate => capabilitiesOf(candidate.provider).images);
+    if (capable.length === 0) {
+      const names = candidates.map(candidate => candidate.provider.name).join(', ');
+      const error = new Error(`Images are not supported by the ${names} provider${candidates.length > 1 ? 's' : ''}`);
+      error.code = 'UNSUPPORTED_MULTIMODAL';
+      throw error;
+    }
+    return { route, candidates: capable };
   };
 
-  const prepare = (messages, options = {}) => {
-    const { system, ...otherOptions } = options;
-    const { normalized, requestedModel, resolvedModel } = normalizeOptionsForProvider(otherOptions);
+  const prepare = (providerKey, provider, messages, options = {}) => {
+    const { system, route: _route, timeoutMs: _timeoutMs, ...otherOptions } = options;
+    const { normalized, requestedModel, resolvedModel } = normalizeOptionsForProvider(providerKey, provider, otherOptions);
     const prompt = buildPrompt(messages, system);
-    return { prompt, providerOptions: normalized ?? {}, requestedModel, resolvedModel };
+    const images = extractImages(messages);
+    return {
+      prompt,
+      images,
+      providerOptions: {
+        ...(normalized ?? {}),
+        requestedModel,
+        resolvedModel,
+      },
+      requestedModel,
+      resolvedModel,
+    };
   };
 
-  const wrapMetadata = metadata => ({
-    ...metadata,
+  const routingMetadata = (providerKey, provider, route, fallbacks) => ({
     provider: provider.name,
     providerKey,
     source: provider.name,
-    timestamp: metadata?.timestamp ?? Date.now(),
+    route,
+    ...(fallbacks.length ? { fallbacks } : {}),
   });
 
+  const exhausted = (error, fallbacks) => {
+    if (fallbacks.length > 1) {
+      error.fallbacks = fallbacks;
+    }
+    return error;
+  };
+
+  /**
+   * A signal that aborts with the caller's or when the request deadline
+   * passes. `done` clears the deadline.
+   */
+  const startRequest = (signal, options = {}) => {
+    const requested = Number(options.timeoutMs);
+    const limitMs = requested > 0 ? Math.min(requested, requestTimeoutMs) : requestTimeoutMs;
+    const deadline = new AbortController();
+    const timer = setTimeout(() => deadline.abort(createRequestTimeoutError(limitMs)), limitMs);
+    return {
+      signal: signal ? AbortSignal.any([signal, deadline.signal]) : deadline.signal,
+      done: () => clearTimeout(timer),
+    };
+  };
+
+  /**
+   * Runs one attempt in a concurrency slot with its own abort signal, which
+   * also aborts when the step times out.
+   */
+  const runAttempt = async ({ providerKey, timeoutMs: stepTimeoutMs }, requestSignal, onQueued, run) => {
+    const release = await scheduler.acquire(providerKey, {
+      signal: requestSignal,
+      onQueued: position => onQueued?.({ providerKey, position }),
+    });
+    const attempt = new AbortController();
+    const attemptSignal = AbortSignal.any([requestSignal, attempt.signal]);
+    const timer = stepTimeoutMs
+      ? setTimeout(() => attempt.abort(createTimeoutError(providerKey, stepTimeoutMs)), stepTimeoutMs)
+      : undefined;
+
+    try {
+      return await run(attemptSignal, () => clearTimeout(timer));
+    } finally {
+      clearTimeout(timer);
+      release();
+    }
+  };
+
   return {
-    providerName: provider.name,
-
-    async sendMessage({ messages, options }) {
-      validate(messages);
-      const { prompt, providerOptions, requestedModel, resolvedModel } = prepare(messages, options);
-      const response = await provider.send({
-        prompt,
-        options: {
-          ...providerOptions,
-          requestedModel,
-          resolvedModel,
+    providerName: primary.name,
+
+    async sendMessage({ messages, options, signal, onQueued }) {
+      const { route, candidates } = plan(messages, options);
+      const request = startRequest(signal, options);
+      const fallbacks = [];
+
+      try {
+        for (const [index, candidate] of candidates.entries()) {
+          const { providerKey, provider } = candidate;
+          const { prompt, images, providerOptions, requestedModel, resolvedModel } = prepare(providerKey, provider, messages, options);
+          try {
+            const response = await runAttempt(candidate, request.signal, onQueued, attemptSignal => raceAbort(
+              provider.send({ prompt, images, options: providerOptions, signal: attemptSignal }),
+              attemptSignal
+            ));
+
+            return {
+              content: response.content,
+              metadata: {
+                ...(response.metadata || {}),
+                requestedModel,
+                resolvedModel,
+                ...routingMetadata(providerKey, provider, route, fallbacks),
+                timestamp: response.metadata?.timestamp ?? Date.now(),
+              },
+            };
+          } catch (caught) {
+            const error = request.signal.aborted ? abortError(request.signal) : caught;
+            fallbacks.push(describeFailure(providerKey, error));
+            if (!shouldFallBack(error) || index === candidates.length - 1) {
+              throw exhausted(error, fallbacks);
+            }
+          }
         }
-      });
-      return {
-        content: response.content,
-        metadata: wrapMetadata({
-          ...(response.metadata || {}),
-          requestedModel,
-          resolvedModel,
-        }),
-      };
+      } finally {
+        request.done();
+      }
     },
 
-    async streamMessage({ messages, options, onToken, onDone, onError }) {
-      validate(messages);
-      const { prompt, providerOptions, requestedModel, resolvedModel } = prepare(messages, options);
-      return provider.stream({
-        prompt,
-        options: {
-          ...providerOptions,
-          requestedModel,
-          resolvedModel,
-        },
-        onToken,
-        onDone: metadata => {
-          if (typeof onDone === 'function') {
-            onDone({
-              ...(metadata || {}),
-              requestedModel,
-              resolvedModel,
-            });
+    /**
+     * Falls back only while nothing has been streamed: once a provider has
+     * emitted a token, its errors go to onError. `onStart` reports the
+     * provider serving the request before its first token; `onQueued` its
+     * place in line while waiting for a slot. Reasoning and tool calls arrive
+     * through `onThinking` and `onToolUse`, token usage as `usage` in onDone's
+     * metadata.
+     */
+    async streamMessage({ messages, options, signal, onQueued, onStart, onThinking, onToolUse, onToken, onDone, onError }) {
+      const { route, candidates } = plan(messages, options);
+      const request = startRequest(signal, options);
+      const fallbacks = [];
+
+      try {
+        for (const [index, candidate] of candidates.entries()) {
+          const { providerKey, provider } = candidate;
+          const { prompt, images, providerOptions, requestedModel, resolvedModel } = prepare(providerKey, provider, messages, options);
+          const serving = routingMetadata(providerKey, provider, route, [...fallbacks]);
+          let started = false;
+
+          const start = () => {
+            if (!started) {
+              started = true;
+              if (typeof onStart === 'function') {
+                onStart({ ...serving, requestedModel, resolvedModel });
+              }
+            }
+          };
+
+          const outcome = await runAttempt(candidate, request.signal, onQueued, (attemptSignal, firstTokenArrived) =>
+            new Promise(resolve => {
+              let settled = false;
+              const settle = result => {
+                if (settled) return;
+                settled = true;
+                attemptSignal.removeEventListener('abort', onAbort);
+                resolve(result);
+              };
+              const onAbort = () => settle({ error: abortError(attemptSignal) });
+              if (attemptSignal.aborted) {
+                onAbort();
+                return;
+              }
+              attemptSignal.addEventListener('abort', onAbort, { once: true });
+
+              // Any output, reasoning included, commits the request to this provider
+              const emit = handler => value => {
+                if (settled) return;
+                firstTokenArrived();
+                start();
+                if (typeof handler === 'function') {
+                  handler(value);
+                }
+              };
+
+              Promise.resolve(provider.stream({
+                prompt,
+                images,
+                options: providerOptions,
+                signal: attemptSignal,
+                onThinking: emit(onThinking),
+                onToolUse: emit(onToolUse),
+                onToken: emit(onToken),
+                onDone: metadata => settle({ metadata }),
+                onError: error => settle({ error }),
+              })).catch(error => settle({ error }));
+            })
+          ).catch(error => ({ error }));
+
+          if (!outcome.error) {
+            start();
+            if (typeof onDone === 'function') {
+              onDone({
+                ...(outcome.metadata || {}),
+                ...serving,
+                requestedModel,
+                resolvedModel,
+              });
+            }
+            return;
           }
-        },
-        onError,
-      });
+
+          const error = request.signal.aborted ? abortError(request.signal) : outcome.error;
+          fallbacks.push(describeFailure(providerKey, error));
+          if (started || !shouldFallBack(error) || index === candidates.length - 1) {
+            onError(exhausted(error, fallbacks));
+            return;
+          }
+        }
+      } finally {
+        request.done();
+      }
     },
 
     getProviderKey() {
-      return providerKey;
+      return primaryKey;
     },
 
     getProviderName() {
-      return provider.name;
+      return primary.name;
+    },
+
+    /** What the default route can take: images if any of its providers can */
+    getCapabilities() {
+      return router.resolve().steps.reduce((merged, step) => {
+        const capabilities = capabilitiesOf(registry.get(step.providerKey));
+        return { images: merged.images || capabilities.images };
+      }, { ...DEFAULT_CAPABILITIES });
+    },
+
+    getAvailableProviders() {
+      return registry.keys();
+    },
+
+    getRoutes() {
+      return router.describe();
+    },
+
+    getQueueStats() {
+      return scheduler.stats();
     }
   };
 }
@@ -3,9 +3,14 @@
  */
 
 /**
- * @typedef {{ role: 'user'|'assistant'|'system', content: string | Array<unknown> }} ChatMessage
+ * @typedef {{ type: 'text', text: string }} TextBlock
+ * @typedef {{ type: 'image', source: { type: 'base64', media_type: string, data: string } }} ImageBlock
+ * @typedef {{ role: 'user'|'assistant'|'system', content: string | Array<TextBlock | ImageBlock> }} ChatMessage
+ * @typedef {{ mediaType: string, data: string }} ImageAttachment
  */
 
+export const SUPPORTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
 function invalidRequest(message) {
   const error = new Error(message);
   error.code = 'INVALID_REQUEST';
@@ -34,27 +39,84 @@ export function assertValidMessages(messages) {
     if (typeof message.content !== 'string' && !Array.isArray(message.content)) {
       throw invalidRequest(`Invalid message at index ${index}: content must be string or array`);
     }
+
+    if (Array.isArray(message.content)) {
+      message.content.forEach((block, blockIndex) => assertValidBlock(block, `${index}.${blockIndex}`));
+    }
+  }
+}
+
+/**
+ * Content blocks may be text or base64 images (Anthropic Messages API shape).
+ * @param {unknown} block
+ * @param {string} position
+ */
+function assertValidBlock(block, position) {
+  if (block?.type === 'text' && typeof block.text === 'string') {
+    return;
+  }
+
+  if (block?.type === 'image') {
+    const source = block.source;
+    if (source?.type !== 'base64' || typeof source.data !== 'string' || !source.data) {
+      throw invalidRequest(`Invalid image block at ${position}: source must be base64 data`);
+    }
+    if (!SUPPORTED_IMAGE_TYPES.includes(source.media_type)) {
+      throw invalidRequest(`Invalid image block at ${position}: unsupported media type ${source.media_type}`);
+    }
+    return;
   }
+
+  throw invalidRequest(`Invalid content block at ${position}: expected text or image`);
 }
 
 /**
- * Detect whether any message contains non-text content (array-based multimodal payloads).
+ * Detect whether any message contains image blocks.
  * @param {ChatMessage[]} messages
  */
 export function hasMultimodalContent(messages) {
-  return messages.some(message => Array.isArray(message.content));
+  return messages.some(message =>
+    Array.isArray(message.content) && message.content.some(block => block.type === 'image')
+  );
+}
+
+/**
+ * Collect image blocks in conversation order. buildPrompt refers to them as
+ * [Image 1], [Image 2], ... in the same order.
+ * @param {ChatMessage[]} messages
+ * @returns {ImageAttachment[]}
+ */
+export function extractImages(messages) {
+  return messages.flatMap(message =>
+    Array.isArray(message.content)
+      ? message.content
+        .filter(block => block.type === 'image')
+        .map(block => ({ mediaType: block.source.media_type, data: block.source.data }))
+      : []
+  );
 }
 
 /**
  * Convert a list of messages and an optional system prompt into a single prompt string.
+ * Image blocks become [Image N] placeholders; providers attach the images separately.
  * @param {ChatMessage[]} messages
  * @param {string | undefined} systemPrompt
  */
 export function buildPrompt(messages, systemPrompt) {
+  let imageCount = 0;
+  const contentText = content => {
+    if (typeof content === 'string') {
+      return content;
+    }
+    return content
+      .map(block => (block.type === 'image' ? `[Image ${++imageCount}]` : block.text))
+      .join('\n');
+  };
+
   const conversationText = messages
     .map(message => {
       const roleLabel = message.role === 'assistant' ? 'Assistant' : 'User';
-      return `${roleLabel}: ${message.content}`;
+      return `${roleLabel}: ${contentText(message.content)}`;
     })
     .join('\n\n');
 
@@ -1,5 +1,6 @@
 import { query } from '@anthropic-ai/claude-agent-sdk';
 import { extractTextBlocks } from '../promptUtils.js';
+import { abortError } from '../abort.js';
 
 const DEFAULT_AGENT_OPTIONS = {
   permissionMode: 'bypassPermissions',
@@ -8,99 +9,169 @@ const DEFAULT_AGENT_OPTIONS = {
 };
 
 /**
- * Claude Agent SDK provider implementation.
+ * Agent SDK prompt: a plain string, or, with images, a single user message
+ * in streaming input mode carrying the images ahead of the prompt text.
+ * @param {string} prompt
+ * @param {Array<{ mediaType: string, data: string }>} images
  */
-export const claudeProvider = {
-  name: 'claude-agent-sdk',
-
-  /**
-   * Execute a non-streaming query and collect the full response text.
-   * @param {{ prompt: string, options?: Record<string, unknown> }} params
-   */
-  async send({ prompt, options = {} }) {
-    const agentQuery = query({
-      prompt,
-      options: {
-        ...DEFAULT_AGENT_OPTIONS,
-        ...options,
-      }
-    });
+function buildAgentPrompt(prompt, images = []) {
+  if (!images.length) {
+    return prompt;
+  }
 
-    let responseText = '';
-    let isComplete = false;
+  return (async function* userMessage() {
+    yield {
+      type: 'user',
+      message: {
+        role: 'user',
+        content: [
+          ...images.map(image => ({
+            type: 'image',
+            source: { type: 'base64', media_type: image.mediaType, data: image.data },
+          })),
+          { type: 'text', text: prompt },
+        ],
+      },
+      parent_tool_use_id: null,
+      session_id: '',
+    };
+  })();
+}
 
-    for await (const message of agentQuery) {
-      if (message.type === 'assistant') {
-        responseText += extractTextBlocks(message.message?.content);
-      }
+/**
+ * The SDK stops a query through its own AbortController.
+ * @param {AbortSignal | undefined} signal
+ */
+function createAbortController(signal) {
+  const abortController = new AbortController();
+  if (signal?.aborted) {
+    abortController.abort(signal.reason);
+  } else {
+    signal?.addEventListener('abort', () => abortController.abort(signal.reason), { once: true });
+  }
+  return abortController;
+}
 
-      if (message.type === 'result') {
-        isComplete = true;
-        if (message.subtype === 'success') {
-          responseText = typeof message.result === 'string'
-            ? message.result
-            : responseText;
-        } else if (message.subtype === 'error') {
-          const error = new Error(message.error || 'Agent SDK returned an error');
-          error.cause = message;
-          throw error;
-        }
-        break;
-      }
-    }
+/**
+ * Claude Agent SDK provider implementation.
+ * @param {typeof query} queryImpl
+ */
+export function createClaudeProvider(queryImpl = query) {
+  const providerName = 'claude-agent-sdk';
 
-    if (!isComplete) {
-      throw new Error('Agent SDK query did not complete');
-    }
+  return {
+    name: providerName,
 
-    return {
-      content: responseText,
-      metadata: {
-        provider: this.name,
-        timestamp: Date.now(),
-      }
-    };
-  },
-
-  /**
-   * Execute a streaming query. Emits chunks through handler callbacks.
-   * @param {{
-   *   prompt: string,
-   *   options?: Record<string, unknown>,
-   *   onToken: (token: string) => void,
-   *   onDone: () => void,
-   *   onError: (error: Error) => void,
-   * }} params
-   */
-  async stream({ prompt, options = {}, onToken, onDone, onError }) {
-    try {
-      const agentQuery = query({
-        prompt,
+    capabilities: {
+      images: true,
+    },
+
+    /**
+     * Execute a non-streaming query and collect the full response text.
+     * @param {{ prompt: string, images?: Array<{ mediaType: string, data: string }>, options?: Record<string, unknown>, signal?: AbortSignal }} params
+     */
+    async send({ prompt, images, options = {}, signal }) {
+      const agentQuery = queryImpl({
+        prompt: buildAgentPrompt(prompt, images),
         options: {
           ...DEFAULT_AGENT_OPTIONS,
           ...options,
+          abortController: createAbortController(signal),
         }
       });
 
+      let responseText = '';
+      let isComplete = false;
+
       for await (const message of agentQuery) {
         if (message.type === 'assistant') {
-          const text = extractTextBlocks(message.message?.content);
-          if (text) {
-            onToken(text);
-          }
+          responseText += extractTextBlocks(message.message?.content);
         }
 
         if (message.type === 'result') {
+          isComplete = true;
           if (message.subtype === 'success') {
-            onDone();
+            responseText = typeof message.result === 'string'
+              ? message.result
+              : responseText;
           } else if (message.subtype === 'error') {
-            throw new Error(message.error || 'Agent SDK returned an error');
+            const error = new Error(message.error || 'Agent SDK returned an error');
+            error.cause = message;
+            throw error;
           }
           break;
         }
       }
-    } catch (error) {
-      onError(error);
+
+      if (!isComplete) {
+        throw new Error('Agent SDK query did not complete');
+      }
+
+      return {
+        content: responseText,
+        metadata: {
+          provider: providerName,
+          timestamp: Date.now(),
+        }
+      };
+    },
+
+    /**
+     * Execute a streaming query. Emits chunks through handler callbacks.
+     * @param {{
+     *   prompt: string,
+     *   images?: Array<{ mediaType: string, data: string }>,
+     *   options?: Record<string, unknown>,
+     *   signal?: AbortSignal,
+     *   onToken: (token: string) => void,
+     *   onThinking?: (text: string) => void,
+     *   onToolUse?: (tool: { name: string, input?: unknown }) => void,
+     *   onDone: (metadata?: { usage?: Record<string, number> }) => void,
+     *   onError: (error: Error) => void,
+     * }} params
+     */
+    async stream({ prompt, images, options = {}, signal, onToken, onThinking = () => {}, onToolUse = () => {}, onDone, onError }) {
+      try {
+        const agentQuery = queryImpl({
+          prompt: buildAgentPrompt(prompt, images),
+          options: {
+            ...DEFAULT_AGENT_OPTIONS,
+            ...options,
+            abortController: createAbortController(signal),
+          }
+        });
+
+        for await (const message of agentQuery) {
+          if (message.type === 'assistant') {
+            const content = message.message?.content ?? [];
+            for (const block of content) {
+              if (block.type === 'thinking' && block.thinking) {
+                onThinking(block.thinking);
+              } else if (block.type === 'tool_use') {
+                onToolUse({ name: block.name, input: block.input });
+              }
+            }
+
+            const text = extractTextBlocks(content);
+            if (text) {
+              onToken(text);
+            }
+          }
+
+          if (message.type === 'result') {
+            if (message.subtype === 'success') {
+              onDone(message.usage ? { usage: message.usage } : undefined);
+            } else if (message.subtype === 'error') {
+              throw new Error(message.error || 'Agent SDK returned an error');
+            }
+            break;
+          }
+        }
+      } catch (error) {
+        onError(signal?.aborted ? abortError(signal) : error);
+      }
     }
-  }
-};
+  };
+}
+
+export const claudeProvider = createClaudeProvider();
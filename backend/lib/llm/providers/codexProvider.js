@@ -1,11 +1,26 @@
 import { spawn as nodeSpawn } from 'node:child_process';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
 import readline from 'node:readline';
+import { abortError } from '../abort.js';
 
 const DEFAULT_ARGS = ['exec', '--json', '-'];
 
-function buildArgs(options = {}) {
+const IMAGE_EXTENSIONS = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+function buildArgs(options = {}, imagePaths = []) {
   const args = [...DEFAULT_ARGS];
 
+  if (imagePaths.length) {
+    args.splice(1, 0, '--image', imagePaths.join(','));
+  }
+
   if (options.model) {
     args.splice(1, 0, '--model', String(options.model));
   }
@@ -78,8 +93,24 @@ function decorateCodexError(errorLike, requestedModel) {
   return error;
 }
 
+/**
+ * Codex items the agent ran rather than wrote, as `{ name, input }`.
+ */
+function describeCodexTool(item) {
+  switch (item?.type) {
+    case 'command_execution':
+      return { name: 'command', input: item.command };
+    case 'mcp_tool_call':
+      return { name: [item.server, item.tool].filter(Boolean).join('.') || 'mcp_tool_call', input: item.arguments };
+    case 'web_search':
+      return { name: 'web_search', input: item.query };
+    default:
+      return null;
+  }
+}
+
 function handleCodexEvent(event, handlers) {
-  const { onToken, onDone, onError, requestedModel } = handlers;
+  const { onToken, onThinking = () => {}, onToolUse = () => {}, onDone, onError, requestedModel } = handlers;
 
   if (event.type === 'parse_error') {
     onError(decorateCodexError(new Error(`Failed to parse Codex event: ${event.raw}`), requestedModel));
@@ -94,16 +125,29 @@ function handleCodexEvent(event, handlers) {
     return;
   }
 
+  if (event.type === 'item.started') {
+    const tool = describeCodexTool(event.item);
+    if (tool) {
+      onToolUse(tool);
+    }
+    return;
+  }
+
   if (event.type === 'item.completed') {
     const text = event.item?.text;
-    if (typeof text === 'string' && text.length > 0) {
+    if (typeof text !== 'string' || text.length === 0 || describeCodexTool(event.item)) {
+      return;
+    }
+    if (event.item.type === 'reasoning') {
+      onThinking(text);
+    } else {
       onToken(text);
     }
     return;
   }
 
   if (event.type === 'turn.completed' || event.type === 'thread.completed') {
-    onDone();
+    onDone(event.usage ? { usage: event.usage } : undefined);
     return;
   }
 
@@ -112,18 +156,51 @@ function handleCodexEvent(event, handlers) {
   }
 }
 
-function spawnCodexProcess(spawnImpl, prompt, options, handlers) {
+/**
+ * The Codex CLI only takes images as files: write them to a temporary
+ * directory for the duration of the run.
+ * @param {Array<{ mediaType: string, data: string }>} images
+ * @param {(paths: string[]) => Promise<void>} run
+ */
+async function withImageFiles(images = [], run) {
+  if (!images.length) {
+    return run([]);
+  }
+
+  const dir = await mkdtemp(path.join(tmpdir(), 'nabokov-codex-'));
+  try {
+    const paths = await Promise.all(images.map(async (image, index) => {
+      const file = path.join(dir, `image-${index + 1}.${IMAGE_EXTENSIONS[image.mediaType] ?? 'png'}`);
+      await writeFile(file, Buffer.from(image.data, 'base64'));
+      return file;
+    }));
+    return await run(paths);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+function spawnCodexProcess(spawnImpl, prompt, options, handlers, imagePaths = [], signal) {
   return new Promise((resolve, reject) => {
-    const args = buildArgs(parseCodexOptions(options));
+    if (signal?.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+
+    const args = buildArgs(parseCodexOptions(options), imagePaths);
     const child = spawnImpl('codex', args, { stdio: ['pipe', 'pipe', 'pipe'] });
 
     let settled = false;
     const stderrChunks = [];
     const requestedModel = options.requestedModel;
 
+    // Killing the child is how a cancelled or timed-out request stops Codex
+    const onAbort = () => safeReject(abortError(signal));
+
     const safeReject = error => {
       if (settled) return;
       settled = true;
+      signal?.removeEventListener('abort', onAbort);
       try {
         child.kill('SIGKILL');
       } catch {
@@ -132,16 +209,21 @@ function spawnCodexProcess(spawnImpl, prompt, options, handlers) {
       reject(decorateCodexError(error, requestedModel));
     };
 
-    const safeResolve = () => {
+    const safeResolve = result => {
       if (settled) return;
       settled = true;
-      resolve();
+      signal?.removeEventListener('abort', onAbort);
+      resolve(result);
     };
 
+    signal?.addEventListener('abort', onAbort, { once: true });
+
     const rl = createJsonLineIterator(child.stdout, event => {
       handleCodexEvent(event, {
         onToken: handlers.onToken,
-        onDone: () => safeResolve(),
+        onThinking: handlers.onThinking,
+        onToolUse: handlers.onToolUse,
+        onDone: result => safeResolve(result),
         onError: error => safeReject(error),
         requestedModel,
       });
@@ -180,14 +262,18 @@ export function createCodexProvider(spawnImpl = nodeSpawn) {
   return {
     name: providerName,
 
-    async send({ prompt, options = {} }) {
+    capabilities: {
+      images: true,
+    },
+
+    async send({ prompt, images, options = {}, signal }) {
       let buffer = '';
 
-      await spawnCodexProcess(spawnImpl, prompt, options, {
+      await withImageFiles(images, imagePaths => spawnCodexProcess(spawnImpl, prompt, options, {
         onToken: token => {
           buffer += token;
         },
-      });
+      }, imagePaths, signal));
 
       return {
         content: buffer,
@@ -198,10 +284,12 @@ export function createCodexProvider(spawnImpl = nodeSpawn) {
       };
     },
 
-    async stream({ prompt, options = {}, onToken, onDone, onError }) {
+    async stream({ prompt, images, options = {}, signal, onToken, onThinking, onToolUse, onDone, onError }) {
       try {
-        await spawnCodexProcess(spawnImpl, prompt, options, { onToken });
-        onDone();
+        const result = await withImageFiles(images, imagePaths =>
+          spawnCodexProcess(spawnImpl, prompt, options, { onToken, onThinking, onToolUse }, imagePaths, signal)
+        );
+        onDone(result);
       } catch (error) {
         onError(error);
       }
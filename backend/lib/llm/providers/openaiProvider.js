@@ -0,0 +1,145 @@
+import { abortError } from '../abort.js';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_MODEL = 'llama3.1';
+
+/**
+ * Chat completions from any OpenAI-compatible server: Ollama
+ * (`http://localhost:11434/v1`), the llama.cpp server
+ * (`http://localhost:8080/v1`), vLLM, LM Studio, or OpenAI itself.
+ */
+export function createOpenAIProvider({
+  baseUrl = process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL,
+  apiKey = process.env.OPENAI_API_KEY,
+  model = process.env.OPENAI_MODEL || DEFAULT_MODEL,
+  images = process.env.OPENAI_SUPPORTS_IMAGES === '1' || process.env.OPENAI_SUPPORTS_IMAGES === 'true',
+  fetchImpl = globalThis.fetch,
+} = {}) {
+  const providerName = 'openai-compatible';
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const buildBody = ({ prompt, images: attachedImages = [], options = {} }, stream) => {
+    const content = attachedImages.length
+      ? [
+          ...attachedImages.map(image => ({
+            type: 'image_url',
+            image_url: { url: `data:${image.mediaType};base64,${image.data}` },
+          })),
+          { type: 'text', text: prompt },
+        ]
+      : prompt;
+
+    return {
+      model: options.resolvedModel || model,
+      messages: [{ role: 'user', content }],
+      stream,
+      // Servers that know the option send token counts in a final chunk
+      ...(stream ? { stream_options: { include_usage: true } } : {}),
+      ...(typeof options.maxTokens === 'number' ? { max_tokens: options.maxTokens } : {}),
+      ...(typeof options.temperature === 'number' ? { temperature: options.temperature } : {}),
+    };
+  };
+
+  const request = async (params, stream) => {
+    const response = await fetchImpl(endpoint, {
+      method: 'POST',
+      signal: params.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify(buildBody(params, stream)),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`OpenAI-compatible request failed (${response.status}): ${detail || response.statusText}`);
+    }
+
+    return response;
+  };
+
+  return {
+    name: providerName,
+    model,
+
+    capabilities: {
+      images,
+    },
+
+    async send(params) {
+      let data;
+      try {
+        const response = await request(params, false);
+        data = await response.json();
+      } catch (error) {
+        throw params.signal?.aborted ? abortError(params.signal) : error;
+      }
+      const content = data.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw new Error('OpenAI-compatible server returned an unexpected response');
+      }
+
+      return {
+        content,
+        metadata: {
+          provider: providerName,
+          model: data.model || model,
+          ...(data.usage ? { usage: data.usage } : {}),
+          timestamp: Date.now(),
+        }
+      };
+    },
+
+    async stream({ onToken, onThinking = () => {}, onDone, onError, ...params }) {
+      try {
+        const response = await request(params, true);
+        const decoder = new TextDecoder();
+        let buffered = '';
+        let usage;
+        const finish = () => onDone(usage ? { usage } : undefined);
+
+        // Server-sent events: one `data: {chunk}` line per delta, then `data: [DONE]`
+        for await (const chunk of response.body) {
+          buffered += decoder.decode(chunk, { stream: true });
+          const lines = buffered.split('\n');
+          buffered = lines.pop();
+
+          for (const line of lines) {
+            const trimmed = line.trim();
+            if (!trimmed.startsWith('data:')) continue;
+
+            const data = trimmed.slice(5).trim();
+            if (data === '[DONE]') {
+              finish();
+              return;
+            }
+
+            const event = JSON.parse(data);
+            if (event.error) {
+              throw new Error(event.error.message || 'OpenAI-compatible server reported an error');
+            }
+            if (event.usage) {
+              usage = event.usage;
+            }
+
+            const delta = event.choices?.[0]?.delta;
+            // Reasoning models: `reasoning_content` from llama.cpp, vLLM and DeepSeek, `reasoning` from Ollama
+            const reasoning = delta?.reasoning_content ?? delta?.reasoning;
+            if (typeof reasoning === 'string' && reasoning.length > 0) {
+              onThinking(reasoning);
+            }
+            const text = delta?.content;
+            if (typeof text === 'string' && text.length > 0) {
+              onToken(text);
+            }
+          }
+        }
+
+        finish();
+      } catch (error) {
+        onError(params.signal?.aborted ? abortError(params.signal) : error);
+      }
+    }
+  };
+}
@@ -0,0 +1,116 @@
+import { readFileSync } from 'node:fs';
+import { abortError } from '../abort.js';
+
+/**
+ * @typedef {object} ScriptedResponse
+ * @property {string} [match] Regular expression tested against the prompt; omitted matches anything
+ * @property {string | ((prompt: string) => string)} response
+ * @property {string} [thinking] Streamed as reasoning ahead of the response
+ */
+
+const words = text => text.match(/\s*\S+\s*/g) ?? [];
+
+const wait = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+function loadResponses(filePath) {
+  if (!filePath) {
+    return [];
+  }
+
+  const responses = JSON.parse(readFileSync(filePath, 'utf8'));
+  if (!Array.isArray(responses)) {
+    throw new Error(`Scripted responses in ${filePath} must be a JSON array`);
+  }
+  return responses;
+}
+
+/**
+ * Offline provider answering from a fixed script: the first entry whose
+ * `match` fits the prompt wins. NABOKOV_SCRIPTED_RESPONSES points at a JSON
+ * file like `[{ "match": "beautify", "response": "<p>Tidy</p>" }, { "response": "OK" }]`.
+ * Streaming splits the response, after any `thinking`, into words,
+ * NABOKOV_SCRIPTED_DELAY_MS apart.
+ * @param {{ responses?: ScriptedResponse[], delayMs?: number, name?: string }} config
+ */
+export function createScriptedProvider({
+  responses = loadResponses(process.env.NABOKOV_SCRIPTED_RESPONSES),
+  delayMs = Number(process.env.NABOKOV_SCRIPTED_DELAY_MS) || 0,
+  name = 'scripted',
+} = {}) {
+  const rules = responses.map(entry => ({
+    pattern: entry.match ? new RegExp(entry.match, 'i') : null,
+    response: entry.response,
+    thinking: entry.thinking,
+  }));
+
+  const findRule = prompt => {
+    const rule = rules.find(candidate => !candidate.pattern || candidate.pattern.test(prompt));
+    if (!rule) {
+      throw new Error(rules.length
+        ? 'No scripted response matches the prompt'
+        : 'Scripted provider has no responses; set NABOKOV_SCRIPTED_RESPONSES');
+    }
+    return rule;
+  };
+
+  const respond = (rule, prompt) =>
+    typeof rule.response === 'function' ? rule.response(prompt) : String(rule.response);
+
+  return {
+    name,
+    model: name,
+
+    capabilities: {
+      images: true,
+    },
+
+    async send({ prompt }) {
+      return {
+        content: respond(findRule(prompt), prompt),
+        metadata: {
+          provider: name,
+          timestamp: Date.now(),
+        }
+      };
+    },
+
+    async stream({ prompt, signal, onToken, onThinking = () => {}, onDone, onError }) {
+      try {
+        const rule = findRule(prompt);
+        const parts = [
+          ...words(rule.thinking ?? '').map(text => ({ text, emit: onThinking })),
+          ...words(respond(rule, prompt)).map(text => ({ text, emit: onToken })),
+        ];
+
+        for (const { text, emit } of parts) {
+          if (delayMs) {
+            await wait(delayMs);
+          }
+          if (signal?.aborted) {
+            throw abortError(signal);
+          }
+          emit(text);
+        }
+        onDone();
+      } catch (error) {
+        onError(error);
+      }
+    }
+  };
+}
+
+/**
+ * Replies with the latest user turn, for exercising the UI without a model.
+ */
+export function createEchoProvider({ delayMs } = {}) {
+  return createScriptedProvider({
+    name: 'echo',
+    delayMs,
+    responses: [{
+      response: prompt => {
+        const lastTurn = prompt.lastIndexOf('User: ');
+        return lastTurn === -1 ? prompt : prompt.slice(lastTurn + 'User: '.length);
+      },
+    }],
+  });
+}
@@ -0,0 +1,119 @@
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { claudeProvider } from './providers/claudeProvider.js';
+import { codexProvider } from './providers/codexProvider.js';
+import { createOpenAIProvider } from './providers/openaiProvider.js';
+import { createEchoProvider, createScriptedProvider } from './providers/scriptedProvider.js';
+
+/**
+ * The interface every LLM provider implements. The service flattens the
+ * conversation into `prompt` (see buildPrompt) before calling the provider,
+ * and aborts `signal` when the request is cancelled or times out.
+ *
+ * @typedef {object} LLMProvider
+ * @property {string} name Reported as `provider` in response metadata
+ * @property {string} [model] Model used when the request names none the provider understands
+ * @property {{ images?: boolean }} [capabilities] Undeclared capabilities are unsupported
+ * @property {(params: {
+ *   prompt: string,
+ *   images?: Array<{ mediaType: string, data: string }>,
+ *   options?: Record<string, unknown>,
+ *   signal?: AbortSignal,
+ * }) => Promise<{ content: string, metadata?: Record<string, unknown> }>} send
+ * @property {(params: {
+ *   prompt: string,
+ *   images?: Array<{ mediaType: string, data: string }>,
+ *   options?: Record<string, unknown>,
+ *   signal?: AbortSignal,
+ *   onToken: (token: string) => void,
+ *   onThinking?: (text: string) => void,
+ *   onToolUse?: (tool: { name: string, input?: unknown }) => void,
+ *   onDone: (metadata?: { usage?: Record<string, number> } & Record<string, unknown>) => void,
+ *   onError: (error: Error) => void,
+ * }) => Promise<void>} stream Reports failures through onError rather than
+ *   rejecting. Answer text goes to onToken and reasoning to onThinking; token
+ *   counts, in whatever shape the model reports them, as `usage` in onDone.
+ */
+
+/**
+ * @typedef {LLMProvider | (() => LLMProvider)} ProviderEntry
+ */
+
+/** @type {Record<string, ProviderEntry>} */
+export const DEFAULT_PROVIDERS = {
+  codex: () => codexProvider,
+  claude: () => claudeProvider,
+  openai: () => createOpenAIProvider(),
+  echo: () => createEchoProvider(),
+  scripted: () => createScriptedProvider(),
+};
+
+/**
+ * Providers by key. Entries are providers or factories returning one; a
+ * factory runs on first use, so unused providers never read their config.
+ * @param {Record<string, ProviderEntry>} entries
+ */
+export function createProviderRegistry(entries = DEFAULT_PROVIDERS) {
+  // Keys are case-insensitive, like LLM_PROVIDER
+  const registered = new Map(Object.entries(entries).map(([key, entry]) => [key.toLowerCase(), entry]));
+  const instances = new Map();
+
+  return {
+    /**
+     * @param {string} key
+     * @param {ProviderEntry} entry
+     */
+    register(key, entry) {
+      const normalizedKey = key.toLowerCase();
+      registered.set(normalizedKey, entry);
+      instances.delete(normalizedKey);
+    },
+
+    has(key) {
+      return registered.has(key.toLowerCase());
+    },
+
+    keys() {
+      return [...registered.keys()];
+    },
+
+    /**
+     * @param {string} rawKey
+     * @returns {LLMProvider}
+     */
+    get(rawKey) {
+      const key = rawKey.toLowerCase();
+      if (!instances.has(key)) {
+        const entry = registered.get(key);
+        if (!entry) {
+          throw new Error(`Unsupported LLM provider: ${key} (available: ${[...registered.keys()].join(', ')})`);
+        }
+        const provider = typeof entry === 'function' ? entry() : entry;
+        if (typeof provider?.send !== 'function' || typeof provider?.stream !== 'function') {
+          throw new Error(`LLM provider "${key}" must implement send() and stream()`);
+        }
+        instances.set(key, provider);
+      }
+      return instances.get(key);
+    },
+  };
+}
+
+/**
+ * Registers providers from ES modules outside the repo. Each module's
+ * default export maps provider keys to providers or factories, e.g.
+ * `export default { mistral: () => ({ name, send, stream }) }`.
+ * @param {ReturnType<typeof createProviderRegistry>} registry
+ * @param {string[]} modulePaths Relative paths resolve against the working directory
+ */
+export async function loadProviderModules(registry, modulePaths) {
+  for (const modulePath of modulePaths) {
+    const { default: entries } = await import(pathToFileURL(path.resolve(modulePath)).href);
+    if (!entries || typeof entries !== 'object') {
+      throw new Error(`Provider module ${modulePath} must default-export an object of providers`);
+    }
+    for (const [key, entry] of Object.entries(entries)) {
+      registry.register(key, entry);
+    }
+  }
+}
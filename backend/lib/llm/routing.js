@@ -0,0 +1,105 @@
+import { readFileSync } from 'node:fs';
+
+/**
+ * One provider in a fallback chain. `timeoutMs` bounds a whole `send` and
+ * the wait for the first token of a `stream`; 0 waits indefinitely.
+ * @typedef {{ providerKey: string, timeoutMs: number }} RouteStep
+ */
+
+/**
+ * Routing table as written in NABOKOV_LLM_ROUTES, e.g.
+ * `{ "timeoutMs": 60000, "routes": { "default": ["codex", "claude"],
+ * "beautify": [{ "provider": "openai", "timeoutMs": 20000 }, "codex"] } }`.
+ * @typedef {{ timeoutMs?: number, routes?: Record<string, Array<string | { provider: string, timeoutMs?: number }>> }} RoutingConfig
+ */
+
+/**
+ * @param {string | undefined} filePath
+ * @returns {RoutingConfig}
+ */
+export function loadRoutingConfig(filePath) {
+  if (!filePath) {
+    return {};
+  }
+
+  const config = JSON.parse(readFileSync(filePath, 'utf8'));
+  if (!config || typeof config !== 'object' || (config.routes && typeof config.routes !== 'object')) {
+    throw new Error(`Routing table in ${filePath} must be an object with a "routes" object`);
+  }
+  return config;
+}
+
+/**
+ * Maps the extension's per-request hint to an ordered chain of providers.
+ * A hint names a route in the table or a provider key; anything else (or no
+ * hint) uses the `default` route, which falls back to `defaultProviderKey`.
+ * @param {{
+ *   config?: RoutingConfig,
+ *   defaultProviderKey: string,
+ *   providerKeys: string[],
+ *   timeoutMs?: number,
+ * }} params
+ */
+export function createRouter({
+  config = {},
+  defaultProviderKey,
+  providerKeys,
+  timeoutMs = Number(process.env.NABOKOV_LLM_TIMEOUT_MS) || 0,
+}) {
+  const baseTimeoutMs = config.timeoutMs ?? timeoutMs;
+  const available = `available: ${providerKeys.join(', ')}`;
+  const hasProvider = key => providerKeys.includes(key);
+
+  const toSteps = (name, entries) => {
+    if (!Array.isArray(entries) || entries.length === 0) {
+      throw new Error(`Route "${name}" must list at least one provider`);
+    }
+    return entries.map(entry => {
+      const step = typeof entry === 'string' ? { provider: entry } : entry ?? {};
+      const providerKey = String(step.provider ?? '').toLowerCase();
+      if (!hasProvider(providerKey)) {
+        throw new Error(`Route "${name}" uses unknown provider: ${step.provider} (${available})`);
+      }
+      return { providerKey, timeoutMs: step.timeoutMs ?? baseTimeoutMs };
+    });
+  };
+
+  const routes = new Map(
+    Object.entries(config.routes ?? {}).map(([name, entries]) => [name.toLowerCase(), toSteps(name, entries)])
+  );
+  if (!routes.has('default')) {
+    if (!hasProvider(defaultProviderKey)) {
+      throw new Error(`Unsupported LLM provider: ${defaultProviderKey} (${available})`);
+    }
+    routes.set('default', [{ providerKey: defaultProviderKey, timeoutMs: baseTimeoutMs }]);
+  }
+  const defaultSteps = routes.get('default');
+
+  return {
+    /**
+     * @param {unknown} hint
+     * @returns {{ route: string, steps: RouteStep[] }}
+     */
+    resolve(hint) {
+      const key = typeof hint === 'string' ? hint.trim().toLowerCase() : '';
+      if (key && routes.has(key)) {
+        return { route: key, steps: routes.get(key) };
+      }
+      if (key && hasProvider(key)) {
+        return {
+          route: key,
+          steps: [
+            { providerKey: key, timeoutMs: baseTimeoutMs },
+            ...defaultSteps.filter(step => step.providerKey !== key),
+          ],
+        };
+      }
+      return { route: 'default', steps: defaultSteps };
+    },
+
+    /** Provider keys per route, for /health */
+    describe() {
+      return Object.fromEntries([...routes].map(([name, steps]) => [name, steps.map(step => step.providerKey)]));
+    },
+  };
+}
@@ -0,0 +1,119 @@
+import { abortError } from './abort.js';
+
+const DEFAULT_LIMIT = 2;
+
+/**
+ * Parses NABOKOV_LLM_CONCURRENCY, e.g. `codex=1,openai=4,default=2`.
+ * @param {string | undefined} value
+ * @returns {Record<string, number>}
+ */
+export function parseConcurrencyLimits(value) {
+  const limits = {};
+  for (const entry of (value || '').split(',')) {
+    const [key, rawLimit] = entry.split('=').map(part => part?.trim());
+    const limit = Number(rawLimit);
+    if (!key || !Number.isInteger(limit) || limit < 1) {
+      if (entry.trim()) {
+        throw new Error(`Invalid NABOKOV_LLM_CONCURRENCY entry: ${entry.trim()}`);
+      }
+      continue;
+    }
+    limits[key.toLowerCase()] = limit;
+  }
+  return limits;
+}
+
+/**
+ * Caps concurrent requests per provider. Requests over the cap wait in a
+ * FIFO queue and hear their position through `onQueued` whenever it changes.
+ * @param {{ limits?: Record<string, number> }} config `default` applies to unlisted providers
+ */
+export function createScheduler({
+  limits = parseConcurrencyLimits(process.env.NABOKOV_LLM_CONCURRENCY),
+} = {}) {
+  const pools = new Map();
+
+  const limitFor = key => limits[key] ?? limits.default ?? DEFAULT_LIMIT;
+
+  const poolFor = key => {
+    if (!pools.has(key)) {
+      pools.set(key, { active: 0, queue: [] });
+    }
+    return pools.get(key);
+  };
+
+  const announcePositions = pool => {
+    pool.queue.forEach((waiter, index) => waiter.onQueued?.(index + 1));
+  };
+
+  const drain = key => {
+    const pool = poolFor(key);
+    let granted = false;
+    while (pool.active < limitFor(key) && pool.queue.length > 0) {
+      pool.active += 1;
+      pool.queue.shift().grant();
+      granted = true;
+    }
+    if (granted) {
+      announcePositions(pool);
+    }
+  };
+
+  const createRelease = key => {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      poolFor(key).active -= 1;
+      drain(key);
+    };
+  };
+
+  return {
+    /**
+     * Waits for a slot with `providerKey`; resolves to the function that
+     * frees it. Rejects if `signal` aborts while queued.
+     * @param {string} providerKey
+     * @param {{ signal?: AbortSignal, onQueued?: (position: number) => void }} params
+     * @returns {Promise<() => void>}
+     */
+    acquire(providerKey, { signal, onQueued } = {}) {
+      if (signal?.aborted) {
+        return Promise.reject(abortError(signal));
+      }
+
+      const pool = poolFor(providerKey);
+      if (pool.active < limitFor(providerKey) && pool.queue.length === 0) {
+        pool.active += 1;
+        return Promise.resolve(createRelease(providerKey));
+      }
+
+      return new Promise((resolve, reject) => {
+        const onAbort = () => {
+          pool.queue.splice(pool.queue.indexOf(waiter), 1);
+          announcePositions(pool);
+          reject(abortError(signal));
+        };
+        const waiter = {
+          onQueued,
+          grant: () => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve(createRelease(providerKey));
+          },
+        };
+
+        pool.queue.push(waiter);
+        signal?.addEventListener('abort', onAbort, { once: true });
+        onQueued?.(pool.queue.length);
+      });
+    },
+
+    /** Active and queued requests per provider, for /health */
+    stats() {
+      return Object.fromEntries([...pools].map(([key, pool]) => [
+        key,
+        { active: pool.active, queued: pool.queue.length, limit: limitFor(key) },
+      ]));
+    },
+  };
+}
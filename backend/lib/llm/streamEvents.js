@@ -0,0 +1,58 @@
+/**
+ * Events of the /api/stream protocol. Each SSE `data:` line carries one JSON
+ * object whose `type` is one of these:
+ *
+ * - `queued`          `{ providerKey, position }` while waiting for a provider slot
+ * - `message_start`   `{ provider, providerKey, route, model?, fallbacks? }` before any output
+ * - `thinking_delta`  `{ text }` reasoning, kept apart from the answer
+ * - `text_delta`      `{ text }` answer text, exactly as the provider produced it
+ * - `tool_use`        `{ name, input? }` a tool or command the provider ran
+ * - `usage`           `{ inputTokens?, outputTokens? }` token counts, when reported
+ * - `error`           `{ error, code?, requestedModel?, fallbacks? }` ends the stream
+ * - `message_stop`    `{}` ends a successful stream
+ */
+export const STREAM_EVENT_TYPES = [
+  'queued',
+  'message_start',
+  'thinking_delta',
+  'text_delta',
+  'tool_use',
+  'usage',
+  'error',
+  'message_stop',
+];
+
+/**
+ * @param {string} type One of STREAM_EVENT_TYPES
+ * @param {Record<string, unknown>} [payload]
+ */
+export function formatStreamEvent(type, payload = {}) {
+  return `data: ${JSON.stringify({ type, ...payload })}\n\n`;
+}
+
+const firstNumber = (...values) => values.find(value => typeof value === 'number');
+
+/**
+ * Token counts in one shape, whichever provider reported them: Anthropic and
+ * Codex use `input_tokens`/`output_tokens`, OpenAI-compatible servers
+ * `prompt_tokens`/`completion_tokens`.
+ * @param {Record<string, unknown> | undefined} usage
+ * @returns {{ inputTokens?: number, outputTokens?: number } | undefined}
+ */
+export function normalizeUsage(usage) {
+  if (!usage || typeof usage !== 'object') {
+    return undefined;
+  }
+
+  const inputTokens = firstNumber(usage.inputTokens, usage.input_tokens, usage.prompt_tokens);
+  const outputTokens = firstNumber(usage.outputTokens, usage.output_tokens, usage.completion_tokens);
+
+  if (inputTokens === undefined && outputTokens === undefined) {
+    return undefined;
+  }
+
+  return {
+    ...(inputTokens !== undefined ? { inputTokens } : {}),
+    ...(outputTokens !== undefined ? { outputTokens } : {}),
+  };
+}
@@ -0,0 +1,153 @@
+import { promises as fsPromises } from 'node:fs';
+import path from 'node:path';
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+
+const scryptAsync = promisify(scrypt);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_EXPIRY_DAYS = 365;
+const ID_PATTERN = /^[a-f0-9]{16}$/;
+
+function shareError(code, message) {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+}
+
+async function hashPassword(password, salt) {
+  const key = await scryptAsync(password, salt, 32);
+  return key.toString('hex');
+}
+
+function isValidSnapshot(snapshot) {
+  return (
+    snapshot &&
+    typeof snapshot === 'object' &&
+    Array.isArray(snapshot.cards) &&
+    Array.isArray(snapshot.connections)
+  );
+}
+
+/**
+ * Read-only canvas snapshots, one JSON file per share.
+ *
+ * Passwords are stored as salted scrypt hashes. Expired shares are treated
+ * as gone and removed the next time they are requested.
+ */
+export function createShareStore({ dirPath, fs = fsPromises, now = () => Date.now() } = {}) {
+  if (!dirPath) {
+    throw new Error('Share store requires a dirPath');
+  }
+
+  function filePath(id) {
+    return path.join(dirPath, `${id}.json`);
+  }
+
+  async function readRecord(id) {
+    if (typeof id !== 'string' || !ID_PATTERN.test(id)) {
+      throw shareError('NOT_FOUND', 'Share not found');
+    }
+
+    let raw;
+    try {
+      raw = await fs.readFile(filePath(id), 'utf8');
+    } catch (error) {
+      if (error?.code === 'ENOENT') {
+        throw shareError('NOT_FOUND', 'Share not found');
+      }
+      throw error;
+    }
+
+    const record = JSON.parse(raw);
+    if (record.expiresAt !== null && record.expiresAt <= now()) {
+      await fs.rm(filePath(id), { force: true });
+      throw shareError('EXPIRED', 'This share link has expired');
+    }
+    return record;
+  }
+
+  return {
+    /**
+     * Store a snapshot. Resolves to the share id, its expiry and the owner
+     * token needed to remove it again.
+     */
+    async create({ snapshot, password, expiresInDays } = {}) {
+      if (!isValidSnapshot(snapshot)) {
+        throw shareError('INVALID_REQUEST', 'snapshot must include cards and connections arrays');
+      }
+      if (password !== undefined && (typeof password !== 'string' || !password)) {
+        throw shareError('INVALID_REQUEST', 'password must be a non-empty string');
+      }
+
+      let expiresAt = null;
+      if (expiresInDays !== undefined && expiresInDays !== null) {
+        const days = Number(expiresInDays);
+        if (!Number.isFinite(days) || days <= 0 || days > MAX_EXPIRY_DAYS) {
+          throw shareError('INVALID_REQUEST', `expiresInDays must be between 0 and ${MAX_EXPIRY_DAYS}`);
+        }
+        expiresAt = now() + days * DAY_MS;
+      }
+
+      const id = randomBytes(8).toString('hex');
+      const ownerToken = randomBytes(16).toString('hex');
+      const salt = password ? randomBytes(16).toString('hex') : null;
+
+      const record = {
+        id,
+        createdAt: now(),
+        expiresAt,
+        ownerToken,
+        password: password ? { salt, hash: await hashPassword(password, salt) } : null,
+        snapshot,
+      };
+
+      await fs.mkdir(dirPath, { recursive: true });
+      await fs.writeFile(filePath(id), JSON.stringify(record), 'utf8');
+      return { id, expiresAt, ownerToken };
+    },
+
+    /**
+     * Share metadata without the snapshot, for deciding whether to prompt
+     * for a password
+     */
+    async describe(id) {
+      const record = await readRecord(id);
+      return {
+        id: record.id,
+        title: record.snapshot.title ?? '',
+        createdAt: record.createdAt,
+        expiresAt: record.expiresAt,
+        passwordRequired: record.password !== null,
+      };
+    },
+
+    /**
+     * The snapshot, checking the password when one was set
+     */
+    async get(id, password) {
+      const record = await readRecord(id);
+
+      if (record.password) {
+        if (typeof password !== 'string' || !password) {
+          throw shareError('PASSWORD_REQUIRED', 'This share is password protected');
+        }
+        const attempt = Buffer.from(await hashPassword(password, record.password.salt), 'hex');
+        const expected = Buffer.from(record.password.hash, 'hex');
+        if (!timingSafeEqual(attempt, expected)) {
+          throw shareError('INVALID_PASSWORD', 'Incorrect password');
+        }
+      }
+
+      return { snapshot: record.snapshot, expiresAt: record.expiresAt };
+    },
+
+    async remove(id, ownerToken) {
+      const record = await readRecord(id);
+      if (record.ownerToken !== ownerToken) {
+        throw shareError('FORBIDDEN', 'Invalid owner token');
+      }
+      await fs.rm(filePath(id), { force: true });
+    },
+  };
+}
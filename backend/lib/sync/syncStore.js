@@ -0,0 +1,165 @@
+import { promises as fsPromises } from 'node:fs';
+import path from 'node:path';
+
+const DEFAULT_PULL_LIMIT = 500;
+const MAX_PULL_LIMIT = 5000;
+
+function isValidOperation(op) {
+  return (
+    op &&
+    typeof op === 'object' &&
+    typeof op.id === 'string' &&
+    typeof op.clientId === 'string' &&
+    typeof op.hlc === 'string' &&
+    typeof op.entity === 'string' &&
+    typeof op.entityId === 'string' &&
+    op.fields &&
+    typeof op.fields === 'object'
+  );
+}
+
+/**
+ * Append-only operation log persisted as JSON lines.
+ *
+ * The server is a dumb relay: it assigns each accepted operation a
+ * monotonically increasing sequence number and hands out everything after a
+ * client's cursor. Conflict resolution happens on the clients, which all see
+ * the same log.
+ */
+export function createSyncStore({ filePath, fs = fsPromises } = {}) {
+  if (!filePath) {
+    throw new Error('Sync store requires a filePath');
+  }
+
+  let ops = [];
+  let ids = new Set();
+  let loaded = null;
+  let endsMidLine = false;
+  let queue = Promise.resolve();
+
+  function enqueue(task) {
+    const result = queue.then(task);
+    queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Read the log once. Lines that do not parse (e.g. torn by a crash during
+   * an append) are skipped rather than failing every request, and a failed
+   * read is retried on the next call instead of being cached.
+   */
+  async function load() {
+    if (!loaded) {
+      loaded = (async () => {
+        let raw = '';
+        try {
+          raw = await fs.readFile(filePath, 'utf8');
+        } catch (error) {
+          if (error?.code !== 'ENOENT') {
+            throw error;
+          }
+        }
+
+        const parsed = [];
+        for (const line of raw.split('\n')) {
+          if (!line.trim()) continue;
+          try {
+            const op = JSON.parse(line);
+            if (isValidOperation(op) && typeof op.seq === 'number') {
+              parsed.push(op);
+              continue;
+            }
+          } catch {
+            // Reported below
+          }
+          console.warn(`[syncStore] Skipping unreadable line in ${filePath}`);
+        }
+
+        ops = parsed;
+        ids = new Set(ops.map(op => op.id));
+        endsMidLine = raw.length > 0 && !raw.endsWith('\n');
+      })();
+      loaded.catch(() => {
+        loaded = null;
+      });
+    }
+    return loaded;
+  }
+
+  function cursor() {
+    return ops.length > 0 ? ops[ops.length - 1].seq : 0;
+  }
+
+  return {
+    /**
+     * Append operations, skipping any already in the log (retried pushes).
+     * Resolves to the number accepted and the new cursor.
+     */
+    push(clientId, incoming) {
+      return enqueue(async () => {
+        await load();
+
+        if (typeof clientId !== 'string' || !clientId) {
+          const error = new Error('clientId is required');
+          error.code = 'INVALID_REQUEST';
+          throw error;
+        }
+
+        if (!Array.isArray(incoming) || !incoming.every(isValidOperation)) {
+          const error = new Error('ops must be an array of sync operations');
+          error.code = 'INVALID_REQUEST';
+          throw error;
+        }
+
+        // Ids are remembered only once the append succeeded, so a push whose
+        // write failed can be retried
+        const fresh = [];
+        const batchIds = new Set();
+        let seq = cursor();
+        for (const op of incoming) {
+          if (ids.has(op.id) || batchIds.has(op.id)) {
+            continue;
+          }
+          batchIds.add(op.id);
+          fresh.push({ ...op, clientId, seq: ++seq, receivedAt: Date.now() });
+        }
+
+        if (fresh.length > 0) {
+          const lines = fresh.map(op => `${JSON.stringify(op)}\n`).join('');
+          await fs.mkdir(path.dirname(filePath), { recursive: true });
+          await fs.appendFile(filePath, endsMidLine ? `\n${lines}` : lines, 'utf8');
+          endsMidLine = false;
+          ops.push(...fresh);
+          fresh.forEach(op => ids.add(op.id));
+        }
+
+        return { accepted: fresh.length, cursor: cursor() };
+      });
+    },
+
+    /**
+     * Operations after `since`, oldest first. `hasMore` is set when the page
+     * was truncated at `limit`.
+     */
+    async pull(since = 0, { limit = DEFAULT_PULL_LIMIT } = {}) {
+      await queue;
+      await load();
+
+      const boundedLimit = Math.min(Math.max(1, Number(limit) || DEFAULT_PULL_LIMIT), MAX_PULL_LIMIT);
+      const after = ops.filter(op => op.seq > (Number(since) || 0));
+      const page = after.slice(0, boundedLimit);
+
+      return {
+        ops: page,
+        cursor: page.length > 0 ? page[page.length - 1].seq : Math.max(Number(since) || 0, 0),
+        hasMore: after.length > page.length,
+      };
+    },
+
+    async status() {
+      await queue;
+      await load();
+      return { cursor: cursor(), opCount: ops.length };
+    },
+  };
+}
@@ -11,8 +11,19 @@
 import express from 'express';
 import cors from 'cors';
 import { randomBytes } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
 import { createColors } from 'colorette';
-import { createLLMService } from './lib/llm/index.js';
+import {
+  createLLMService,
+  createProviderRegistry,
+  formatStreamEvent,
+  loadProviderModules,
+  normalizeUsage,
+} from './lib/llm/index.js';
+import { createSyncStore } from './lib/sync/syncStore.js';
+import { createShareStore } from './lib/share/shareStore.js';
+import { createEmbeddingService } from './lib/embeddings/index.js';
 
 const argv = process.argv.slice(2);
 const DEBUG_MODE = argv.includes('--debug') || argv.includes('-d') || process.env.NABOKOV_BACKEND_DEBUG === '1' || process.env.NABOKOV_BACKEND_DEBUG === 'true';
@@ -43,7 +54,13 @@ const HOST = process.env.HOST || '0.0.0.0';
 
 let llmService;
 try {
-  llmService = createLLMService();
+  const providerRegistry = createProviderRegistry();
+  const providerModules = (process.env.NABOKOV_LLM_PROVIDER_MODULES || '')
+    .split(',')
+    .map(modulePath => modulePath.trim())
+    .filter(Boolean);
+  await loadProviderModules(providerRegistry, providerModules);
+  llmService = createLLMService({ registry: providerRegistry });
   console.log(`[Backend] Using LLM provider: ${llmService.getProviderName()}`);
 } catch (error) {
   console.error('[Backend] Failed to initialize LLM provider:', error);
@@ -54,17 +71,68 @@ if (DEBUG_MODE) {
   console.log('[Backend] Debug logging enabled');
 }
 
+const SYNC_FILE = process.env.NABOKOV_SYNC_FILE
+  || fileURLToPath(new URL('./data/sync-oplog.jsonl', import.meta.url));
+const SYNC_TOKEN = process.env.NABOKOV_SYNC_TOKEN || '';
+const syncStore = createSyncStore({ filePath: SYNC_FILE });
+
+const SHARE_DIR = process.env.NABOKOV_SHARE_DIR
+  || fileURLToPath(new URL('./data/shares', import.meta.url));
+const SHARE_VIEWER_DIR = fileURLToPath(new URL('./public/share', import.meta.url));
+const PUBLIC_URL = (process.env.NABOKOV_PUBLIC_URL || '').replace(/\/+$/, '');
+const SHARE_TOKEN = process.env.NABOKOV_SHARE_TOKEN || SYNC_TOKEN;
+const SHARE_BODY_LIMIT = process.env.NABOKOV_SHARE_BODY_LIMIT || '10mb';
+const shareStore = createShareStore({ dirPath: SHARE_DIR });
+
+let embeddingService;
+try {
+  embeddingService = createEmbeddingService();
+  console.log(`[Backend] Using embedding provider: ${embeddingService.getProviderName()}`);
+} catch (error) {
+  console.error('[Backend] Failed to initialize embedding provider:', error);
+  process.exit(1);
+}
+
+const SHARE_ERROR_STATUS = {
+  INVALID_REQUEST: 400,
+  PASSWORD_REQUIRED: 401,
+  INVALID_PASSWORD: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  EXPIRED: 410,
+};
+
 // Middleware
 app.use(cors());
+// Registered first so the share routes never get the larger global limit
+app.use('/api/share', express.json({ limit: SHARE_BODY_LIMIT }));
 app.use(express.json({ limit: '50mb' }));
 
-function handleMultimodalFallback(res) {
+/**
+ * The provider can't take images: tell the extension to use the direct API
+ */
+function handleMultimodalFallback(res, error) {
   res.status(501).json({
-    error: 'Multimodal messages not supported by current provider',
+    error: error?.message || 'Images are not supported by the current provider',
+    provider: llmService.getProviderName(),
     fallbackToDirect: true,
   });
 }
 
+/**
+ * Aborts when the client disconnects before the response is complete, which
+ * cancels the request's provider work (queued or running).
+ */
+function abortOnDisconnect(res) {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      controller.abort();
+    }
+  });
+  return controller.signal;
+}
+
 function ensureSSEHeaders(res) {
   if (res.headersSent) {
     return;
@@ -164,6 +232,10 @@ function summarizeOptions(options) {
     summary.maxTokens = options.maxTokens;
   }
 
+  if (typeof options.route === 'string') {
+    summary.route = options.route;
+  }
+
   if (Array.isArray(options.tools)) {
     summary.tools = options.tools.length;
   }
@@ -388,6 +460,8 @@ function createRequestLogger(req, { stream = false } = {}) {
       { label: 'status', value: status },
       { label: 'durationMs', value: durationMs },
       { label: 'provider', value: extras.provider },
+      { label: 'route', value: extras.route },
+      { label: 'fallbacks', value: extras.fallbacks?.length ? extras.fallbacks : undefined },
       { label: 'requestedModel', value: extras.requestedModel },
       { label: 'resolvedModel', value: extras.resolvedModel },
       { label: 'responseChars', value: extras.responseChars },
@@ -402,6 +476,7 @@ function createRequestLogger(req, { stream = false } = {}) {
       { label: 'durationMs', value: durationMs },
       { label: 'message', value: error?.message || 'Unknown error' },
       { label: 'code', value: error?.code },
+      { label: 'fallbacks', value: error?.fallbacks },
       { label: 'requestedModel', value: extras.requestedModel || error?.requestedModel },
       { label: 'resolvedModel', value: extras.resolvedModel },
       { label: 'metadata', value: extras.metadata && Object.keys(extras.metadata).length ? extras.metadata : undefined },
@@ -443,6 +518,16 @@ function createRequestLogger(req, { stream = false } = {}) {
 }
 
 function handleRequestError(res, error, requestLogger) {
+  if (error?.code === 'REQUEST_CANCELLED') {
+    requestLogger?.logCompletion(499, { notes: 'client disconnected, request cancelled' });
+    return;
+  }
+
+  if (error?.code === 'REQUEST_TIMEOUT') {
+    requestLogger?.logError(error);
+    return res.status(504).json({ error: error.message, code: error.code });
+  }
+
   if (error?.code === 'INVALID_REQUEST') {
     requestLogger?.logError(error);
     return res.status(400).json({ error: error.message });
@@ -450,7 +535,7 @@ function handleRequestError(res, error, requestLogger) {
 
   if (error?.code === 'UNSUPPORTED_MULTIMODAL') {
     requestLogger?.logError(error);
-    return handleMultimodalFallback(res);
+    return handleMultimodalFallback(res, error);
   }
 
   if (error?.code === 'UNSUPPORTED_MODEL') {
@@ -470,6 +555,7 @@ function handleRequestError(res, error, requestLogger) {
 
   return res.status(500).json({
     error: error?.message || 'Internal server error',
+    ...(error?.fallbacks ? { fallbacks: error.fallbacks } : {}),
     details: error?.stack,
   });
 }
@@ -483,15 +569,156 @@ app.get('/health', (req, res) => {
     timestamp: Date.now(),
     message: 'Nabokov backend server is running',
     provider: llmService.getProviderName(),
+    providerKey: llmService.getProviderKey(),
+    availableProviders: llmService.getAvailableProviders(),
+    routes: llmService.getRoutes(),
+    queues: llmService.getQueueStats(),
+    capabilities: llmService.getCapabilities(),
   });
 });
 
+/**
+ * Sync endpoints (operation log relay). When NABOKOV_SYNC_TOKEN is set,
+ * requests must send it as a bearer token.
+ */
+function requireSyncToken(req, res, next) {
+  if (SYNC_TOKEN && req.get('authorization') !== `Bearer ${SYNC_TOKEN}`) {
+    res.status(401).json({ error: 'Invalid sync token' });
+    return;
+  }
+  next();
+}
+
+app.get('/api/sync/status', requireSyncToken, async (req, res) => {
+  try {
+    res.json(await syncStore.status());
+  } catch (error) {
+    console.error('[Backend] Sync status failed:', error);
+    res.status(500).json({ error: error?.message || 'Internal server error' });
+  }
+});
+
+app.post('/api/sync/push', requireSyncToken, async (req, res) => {
+  const { clientId, ops } = req.body ?? {};
+  try {
+    const result = await syncStore.push(clientId, ops);
+    if (DEBUG_MODE) {
+      console.log(`[Backend] Sync push from ${clientId}: ${result.accepted}/${ops.length} accepted`);
+    }
+    res.json(result);
+  } catch (error) {
+    if (error?.code === 'INVALID_REQUEST') {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('[Backend] Sync push failed:', error);
+    res.status(500).json({ error: error?.message || 'Internal server error' });
+  }
+});
+
+app.get('/api/sync/pull', requireSyncToken, async (req, res) => {
+  try {
+    res.json(await syncStore.pull(Number(req.query.since) || 0, { limit: req.query.limit }));
+  } catch (error) {
+    console.error('[Backend] Sync pull failed:', error);
+    res.status(500).json({ error: error?.message || 'Internal server error' });
+  }
+});
+
+/**
+ * Read-only canvas shares. The extension publishes a snapshot; anyone with
+ * the link (and the password, if set) can view it at /share/:id. Publishing
+ * needs NABOKOV_SHARE_TOKEN (or NABOKOV_SYNC_TOKEN) as a bearer token when set.
+ */
+function requireShareToken(req, res, next) {
+  if (SHARE_TOKEN && req.get('authorization') !== `Bearer ${SHARE_TOKEN}`) {
+    res.status(401).json({ error: 'Invalid share token' });
+    return;
+  }
+  next();
+}
+
+function sendShareError(res, error, action) {
+  const status = SHARE_ERROR_STATUS[error?.code];
+  if (status) {
+    res.status(status).json({ error: error.message, code: error.code });
+    return;
+  }
+  console.error(`[Backend] Share ${action} failed:`, error);
+  res.status(500).json({ error: error?.message || 'Internal server error' });
+}
+
+app.post('/api/share', requireShareToken, async (req, res) => {
+  const { snapshot, password, expiresInDays } = req.body ?? {};
+  try {
+    const share = await shareStore.create({ snapshot, password, expiresInDays });
+    const baseUrl = PUBLIC_URL || `${req.protocol}://${req.get('host')}`;
+    res.status(201).json({ ...share, url: `${baseUrl}/share/${share.id}` });
+  } catch (error) {
+    sendShareError(res, error, 'publish');
+  }
+});
+
+app.get('/api/share/:id/info', async (req, res) => {
+  try {
+    res.json(await shareStore.describe(req.params.id));
+  } catch (error) {
+    sendShareError(res, error, 'lookup');
+  }
+});
+
+app.get('/api/share/:id', async (req, res) => {
+  try {
+    res.json(await shareStore.get(req.params.id, req.get('x-share-password')));
+  } catch (error) {
+    sendShareError(res, error, 'read');
+  }
+});
+
+app.delete('/api/share/:id', async (req, res) => {
+  try {
+    await shareStore.remove(req.params.id, req.get('x-share-owner-token'));
+    res.status(204).end();
+  } catch (error) {
+    sendShareError(res, error, 'delete');
+  }
+});
+
+// Viewer bundle (built with `npm run build:share`)
+app.use('/share', express.static(SHARE_VIEWER_DIR, { index: false }));
+
+app.get('/share/:id', (req, res) => {
+  const viewer = `${SHARE_VIEWER_DIR}/index.html`;
+  if (!existsSync(viewer)) {
+    res.status(503).type('text').send('Share viewer is not built. Run `npm run build:share` in the project root.');
+    return;
+  }
+  res.sendFile(viewer);
+});
+
+/**
+ * Embeddings for semantic card search
+ */
+app.post('/api/embeddings', async (req, res) => {
+  try {
+    res.json(await embeddingService.embed(req.body?.texts));
+  } catch (error) {
+    if (error?.code === 'INVALID_REQUEST') {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('[Backend] Embedding failed:', error);
+    res.status(502).json({ error: error?.message || 'Embedding provider failed' });
+  }
+});
+
 /**
  * Text-based message endpoint
  */
 app.post('/api/message', async (req, res) => {
   const requestLogger = createRequestLogger(req);
   const { messages, options = {} } = req.body ?? {};
+  const signal = abortOnDisconnect(res);
 
   let attemptOptions = options;
   let fallbackUsed = false;
@@ -499,7 +726,7 @@ app.post('/api/message', async (req, res) => {
 
   while (true) {
     try {
-      const response = await llmService.sendMessage({ messages, options: attemptOptions });
+      const response = await llmService.sendMessage({ messages, options: attemptOptions, signal });
       const responseText = typeof response?.content === 'string' ? response.content : '';
       const requestedModel = response?.metadata?.requestedModel;
       const resolvedModel = response?.metadata?.resolvedModel;
@@ -514,14 +741,17 @@ app.post('/api/message', async (req, res) => {
       if (fallbackUsed) {
         notesList.push('default model fallback applied');
       }
-      const metadataForLog = { ...(response?.metadata ?? {}) };
-      delete metadataForLog.requestedModel;
-      delete metadataForLog.resolvedModel;
+      const { requestedModel: _requested, resolvedModel: _resolved, route, fallbacks, ...metadataForLog } = response?.metadata ?? {};
+      if (fallbacks?.length) {
+        notesList.push(`served by fallback provider ${response.metadata.providerKey}`);
+      }
       if (fallbackUsed && fallbackInfo?.requestedModel) {
         metadataForLog.fallbackRequestedModel = fallbackInfo.requestedModel;
       }
       requestLogger.logCompletion(200, {
         provider: response?.metadata?.provider || llmService.getProviderName(),
+        route,
+        fallbacks,
         requestedModel,
         resolvedModel,
         responseChars: responseText.length,
@@ -553,11 +783,16 @@ app.post('/api/message', async (req, res) => {
 app.post('/api/stream', async (req, res) => {
   const requestLogger = createRequestLogger(req, { stream: true });
   const { messages, options = {} } = req.body ?? {};
+  const signal = abortOnDisconnect(res);
   let emittedChars = 0;
   let eventCount = 0;
   let streamMetadata;
 
   const sendErrorEvent = error => {
+    if (res.writableEnded || res.destroyed) {
+      return;
+    }
+
     const payload = {
       error: error?.message || 'Stream error',
     };
@@ -570,8 +805,12 @@ app.post('/api/stream', async (req, res) => {
       payload.requestedModel = error.requestedModel;
     }
 
+    if (error?.fallbacks) {
+      payload.fallbacks = error.fallbacks;
+    }
+
     ensureSSEHeaders(res);
-    res.write(`data: ${JSON.stringify(payload)}\n\n`);
+    res.write(formatStreamEvent('error', payload));
     res.end();
   };
 
@@ -583,36 +822,59 @@ app.post('/api/stream', async (req, res) => {
     eventCount = 0;
     streamMetadata = undefined;
     let debugTokens = DEBUG_MODE ? [] : null;
-    let lastChar = '\n';
+
+    // Typed events, see lib/llm/streamEvents.js
+    const writeEvent = (type, payload) => {
+      ensureSSEHeaders(res);
+      res.write(formatStreamEvent(type, payload));
+    };
 
     await llmService.streamMessage({
       messages,
       options: currentOptions,
+      signal,
+      onQueued: ({ providerKey, position }) => {
+        // Waiting for a free slot with a provider at its concurrency cap
+        writeEvent('queued', { providerKey, position });
+      },
+      onStart: serving => {
+        // Which provider answers, before its first token
+        writeEvent('message_start', {
+          provider: serving.provider,
+          providerKey: serving.providerKey,
+          route: serving.route,
+          ...(serving.resolvedModel ? { model: serving.resolvedModel } : {}),
+          ...(serving.fallbacks ? { fallbacks: serving.fallbacks } : {}),
+        });
+      },
+      onThinking: text => {
+        if (text) {
+          writeEvent('thinking_delta', { text: String(text) });
+          eventCount += 1;
+        }
+      },
+      onToolUse: ({ name, input }) => {
+        writeEvent('tool_use', { name, ...(input !== undefined ? { input } : {}) });
+        eventCount += 1;
+      },
       onToken: token => {
-        ensureSSEHeaders(res);
-        let text = typeof token === 'string' ? token : token != null ? String(token) : '';
+        const text = typeof token === 'string' ? token : token != null ? String(token) : '';
         if (!text) {
           return;
         }
-        const startsWithWhitespace = /^\s/.test(text);
-        const lastCharIsWhitespace = /\s/.test(lastChar);
-        if (!lastCharIsWhitespace && !startsWithWhitespace) {
-          text = `\n${text}`;
-        }
-        const trailingChar = text[text.length - 1];
-        if (trailingChar) {
-          lastChar = trailingChar;
-        }
-        res.write(`data: ${JSON.stringify({ delta: { text } })}\n\n`);
-        emittedChars += text?.length || 0;
+        writeEvent('text_delta', { text });
+        emittedChars += text.length;
         eventCount += 1;
-        if (Array.isArray(debugTokens) && typeof text === 'string') {
+        if (Array.isArray(debugTokens)) {
           debugTokens.push(text);
         }
       },
       onDone: metadata => {
-        ensureSSEHeaders(res);
-        res.write('data: [DONE]\n\n');
+        const usage = normalizeUsage(metadata?.usage);
+        if (usage) {
+          writeEvent('usage', usage);
+        }
+        writeEvent('message_stop');
         res.end();
         streamMetadata = metadata || streamMetadata || {};
         if (Array.isArray(debugTokens)) {
@@ -634,7 +896,17 @@ app.post('/api/stream', async (req, res) => {
         if (fallbackUsed || isFallback) {
           notesList.push('default model fallback applied');
         }
-        const { requestedModel: _req, resolvedModel: _res, ...restMetadata } = streamMetadata || {};
+        const {
+          requestedModel: _req,
+          resolvedModel: _res,
+          provider,
+          route,
+          fallbacks,
+          ...restMetadata
+        } = streamMetadata || {};
+        if (fallbacks?.length) {
+          notesList.push(`served by fallback provider ${restMetadata.providerKey}`);
+        }
         const metadataForLog = {
           events: eventCount,
           ...restMetadata,
@@ -643,7 +915,9 @@ app.post('/api/stream', async (req, res) => {
           metadataForLog.fallbackRequestedModel = fallbackInfo.requestedModel;
         }
         requestLogger.logCompletion(200, {
-          provider: llmService.getProviderName(),
+          provider: provider || llmService.getProviderName(),
+          route,
+          fallbacks,
           responseChars: emittedChars,
           requestedModel,
           resolvedModel,
@@ -671,10 +945,7 @@ app.post('/api/stream', async (req, res) => {
             } else if (fallbackError?.code === 'INVALID_REQUEST') {
               res.status(400).json({ error: fallbackError.message });
             } else if (fallbackError?.code === 'UNSUPPORTED_MULTIMODAL') {
-              res.status(501).json({
-                error: 'Multimodal messages not supported by current provider',
-                fallbackToDirect: true,
-              });
+              handleMultimodalFallback(res, fallbackError);
             } else {
               res.status(500).json({ error: fallbackError?.message || 'Internal server error' });
             }
@@ -682,6 +953,11 @@ app.post('/api/stream', async (req, res) => {
           return;
         }
 
+        if (error?.code === 'REQUEST_CANCELLED') {
+          requestLogger.logCompletion(499, { responseChars: emittedChars, notes: 'client disconnected, stream cancelled' });
+          return;
+        }
+
         const { requestedModel: reqModel, resolvedModel: resModel, ...restMetadata } = streamMetadata || {};
         requestLogger.logError(error, {
           requestedModel: reqModel,
@@ -718,10 +994,7 @@ app.post('/api/stream', async (req, res) => {
     }
 
     if (error?.code === 'UNSUPPORTED_MULTIMODAL') {
-      res.status(501).json({
-        error: 'Multimodal messages not supported by current provider',
-        fallbackToDirect: true,
-      });
+      handleMultimodalFallback(res, error);
       return;
     }
 
@@ -771,13 +1044,24 @@ if (process.env.NABOKOV_BACKEND_NO_LISTEN === '1') {
     console.log('  Endpoints:');
     console.log(`    POST http://localhost:${PORT}/api/message`);
     console.log(`    POST http://localhost:${PORT}/api/stream`);
+    console.log(`    GET  http://localhost:${PORT}/api/sync/pull`);
+    console.log(`    POST http://localhost:${PORT}/api/sync/push`);
+    console.log(`    POST http://localhost:${PORT}/api/share`);
+    console.log(`    POST http://localhost:${PORT}/api/embeddings`);
+    console.log(`    GET  http://localhost:${PORT}/share/:id`);
     console.log('');
     console.log('  Provider:');
     console.log(`    Active: ${llmService.getProviderName()} (${llmService.getProviderKey()})`);
     console.log('');
+    console.log(`    Available: ${llmService.getAvailableProviders().join(', ')} (set LLM_PROVIDER)`);
+    for (const [route, chain] of Object.entries(llmService.getRoutes())) {
+      console.log(`    Route ${route}: ${chain.join(' → ')}`);
+    }
+    console.log('');
     console.log('  Authentication / Execution:');
     console.log('    - Claude Agent SDK (if provider = claude)');
     console.log('    - Codex CLI (if provider = codex, default)');
+    console.log('    - OpenAI-compatible server at OPENAI_BASE_URL (if provider = openai)');
     console.log('');
     console.log('═══════════════════════════════════════════════════════');
     console.log('');
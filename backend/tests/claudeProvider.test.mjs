@@ -0,0 +1,96 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createClaudeProvider } from '../lib/llm/providers/claudeProvider.js';
+
+function createFakeQuery(text = 'Hello') {
+  return mock.fn(() => (async function* messages() {
+    yield { type: 'assistant', message: { content: [{ type: 'text', text }] } };
+    yield { type: 'result', subtype: 'success', result: text };
+  })());
+}
+
+async function collect(iterable) {
+  const items = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe('claudeProvider', () => {
+  it('streams thinking and tool blocks apart from the answer and reports usage', async () => {
+    const queryMock = mock.fn(() => (async function* messages() {
+      yield {
+        type: 'assistant',
+        message: {
+          content: [
+            { type: 'thinking', thinking: 'The user greets me.' },
+            { type: 'tool_use', name: 'WebFetch', input: { url: 'https://example.com' } },
+            { type: 'text', text: 'Hello' },
+          ],
+        },
+      };
+      yield { type: 'result', subtype: 'success', result: 'Hello', usage: { input_tokens: 12, output_tokens: 3 } };
+    })());
+    const provider = createClaudeProvider(queryMock);
+    const events = [];
+
+    await provider.stream({
+      prompt: 'User: hi',
+      onThinking: text => events.push(['thinking', text]),
+      onToolUse: tool => events.push(['tool', tool]),
+      onToken: token => events.push(['token', token]),
+      onDone: metadata => events.push(['done', metadata]),
+      onError: error => {
+        throw error;
+      },
+    });
+
+    assert.deepEqual(events, [
+      ['thinking', 'The user greets me.'],
+      ['tool', { name: 'WebFetch', input: { url: 'https://example.com' } }],
+      ['token', 'Hello'],
+      ['done', { usage: { input_tokens: 12, output_tokens: 3 } }],
+    ]);
+  });
+
+  it('sends text-only prompts as a string', async () => {
+    const queryMock = createFakeQuery();
+    const provider = createClaudeProvider(queryMock);
+
+    const result = await provider.send({ prompt: 'User: hi', options: { model: 'sonnet' } });
+
+    assert.equal(result.content, 'Hello');
+    const { prompt, options } = queryMock.mock.calls[0].arguments[0];
+    assert.equal(prompt, 'User: hi');
+    assert.equal(options.model, 'sonnet');
+  });
+
+  it('attaches images to a streaming input user message', async () => {
+    const queryMock = createFakeQuery('A cat');
+    const provider = createClaudeProvider(queryMock);
+    const tokens = [];
+
+    await provider.stream({
+      prompt: 'User: [Image 1] What is this?',
+      images: [{ mediaType: 'image/png', data: 'AAAA' }],
+      onToken: token => tokens.push(token),
+      onDone: () => tokens.push('DONE'),
+      onError: error => {
+        throw error;
+      },
+    });
+
+    assert.deepEqual(tokens, ['A cat', 'DONE']);
+    const [userMessage] = await collect(queryMock.mock.calls[0].arguments[0].prompt);
+    assert.equal(userMessage.type, 'user');
+    assert.deepEqual(userMessage.message.content, [
+      { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'AAAA' } },
+      { type: 'text', text: 'User: [Image 1] What is this?' },
+    ]);
+  });
+
+  it('declares image support', () => {
+    assert.equal(createClaudeProvider(createFakeQuery()).capabilities.images, true);
+  });
+});
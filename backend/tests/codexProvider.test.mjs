@@ -2,6 +2,7 @@ import { describe, it, mock } from 'node:test';
 import assert from 'node:assert/strict';
 import { PassThrough } from 'node:stream';
 import { EventEmitter } from 'node:events';
+import { existsSync, readFileSync } from 'node:fs';
 import { createCodexProvider } from '../lib/llm/providers/codexProvider.js';
 
 function createFakeSpawn(events, { exitCode = 0, stderr = '' } = {}) {
@@ -75,6 +76,44 @@ describe('codexProvider', () => {
     assert.equal(done, true);
   });
 
+  it('separates reasoning and commands from the answer and reports usage', async () => {
+    const spawnMock = createFakeSpawn([
+      { type: 'item.completed', item: { id: 'item_0', type: 'reasoning', text: '**Planning**' } },
+      { type: 'item.started', item: { id: 'item_1', type: 'command_execution', command: 'ls', status: 'in_progress' } },
+      { type: 'item.completed', item: { id: 'item_1', type: 'command_execution', command: 'ls', status: 'completed' } },
+      { type: 'item.completed', item: { id: 'item_2', type: 'agent_message', text: 'Two files.' } },
+      { type: 'turn.completed', usage: { input_tokens: 20, cached_input_tokens: 0, output_tokens: 5 } },
+    ]);
+
+    const provider = createCodexProvider(spawnMock);
+    const events = [];
+
+    await provider.stream({
+      prompt: 'List files',
+      onThinking: text => events.push(['thinking', text]),
+      onToolUse: tool => events.push(['tool', tool]),
+      onToken: token => events.push(['token', token]),
+      onDone: metadata => events.push(['done', metadata]),
+      onError: error => {
+        throw error;
+      }
+    });
+
+    assert.deepEqual(events, [
+      ['thinking', '**Planning**'],
+      ['tool', { name: 'command', input: 'ls' }],
+      ['token', 'Two files.'],
+      ['done', { usage: { input_tokens: 20, cached_input_tokens: 0, output_tokens: 5 } }],
+    ]);
+
+    const sent = await createCodexProvider(createFakeSpawn([
+      { type: 'item.completed', item: { type: 'reasoning', text: '**Planning**' } },
+      { type: 'item.completed', item: { type: 'agent_message', text: 'Two files.' } },
+      { type: 'turn.completed' },
+    ])).send({ prompt: 'List files' });
+    assert.equal(sent.content, 'Two files.');
+  });
+
   it('rejects when the Codex process exits with an error', async () => {
     const spawnMock = createFakeSpawn([], { exitCode: 1, stderr: 'boom' });
     const provider = createCodexProvider(spawnMock);
@@ -110,4 +149,65 @@ describe('codexProvider', () => {
     const call = spawnMock.mock.calls[0];
     assert.ok(call.arguments[1].includes('--model'));
   });
+
+  it('passes images as temporary files and removes them afterwards', async () => {
+    let imagePaths = [];
+    let contents = [];
+    const fakeSpawn = createFakeSpawn([
+      { type: 'item.delta', delta: { text: 'A cat' } },
+      { type: 'turn.completed' },
+    ]);
+    const spawnMock = mock.fn((command, args, options) => {
+      imagePaths = args[args.indexOf('--image') + 1].split(',');
+      contents = imagePaths.map(file => readFileSync(file, 'utf8'));
+      return fakeSpawn(command, args, options);
+    });
+
+    const provider = createCodexProvider(spawnMock);
+    const result = await provider.send({
+      prompt: 'User: [Image 1] [Image 2] What is this?',
+      images: [
+        { mediaType: 'image/png', data: Buffer.from('png-bytes').toString('base64') },
+        { mediaType: 'image/jpeg', data: Buffer.from('jpeg-bytes').toString('base64') },
+      ],
+    });
+
+    assert.equal(result.content, 'A cat');
+    assert.deepEqual(spawnMock.mock.calls[0].arguments[1].slice(0, 2), ['exec', '--image']);
+    assert.match(imagePaths[0], /image-1\.png$/);
+    assert.match(imagePaths[1], /image-2\.jpg$/);
+    assert.deepEqual(contents, ['png-bytes', 'jpeg-bytes']);
+    assert.ok(imagePaths.every(file => !existsSync(file)));
+  });
+
+  it('kills the Codex process when the request is aborted', async () => {
+    const child = new EventEmitter();
+    child.stdout = new PassThrough();
+    child.stderr = new PassThrough();
+    child.stdin = new PassThrough();
+    child.kill = mock.fn(() => child.emit('close', null));
+    const provider = createCodexProvider(mock.fn(() => child));
+    const controller = new AbortController();
+    const events = [];
+
+    const streaming = provider.stream({
+      prompt: 'Write a novel',
+      signal: controller.signal,
+      onToken: token => {
+        events.push(token);
+        controller.abort();
+      },
+      onDone: () => events.push('DONE'),
+      onError: error => events.push(error.code),
+    });
+    child.stdout.write(`${JSON.stringify({ type: 'item.delta', delta: { text: 'Chapter 1' } })}\n`);
+    await streaming;
+
+    assert.deepEqual(events, ['Chapter 1', 'REQUEST_CANCELLED']);
+    assert.deepEqual(child.kill.mock.calls[0].arguments, ['SIGKILL']);
+  });
+
+  it('declares image support', () => {
+    assert.equal(createCodexProvider(createFakeSpawn([])).capabilities.images, true);
+  });
 });
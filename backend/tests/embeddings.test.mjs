@@ -0,0 +1,111 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createEmbeddingService } from '../lib/embeddings/index.js';
+import { createHashEmbeddingProvider } from '../lib/embeddings/providers/hashEmbeddingProvider.js';
+import { createOllamaEmbeddingProvider } from '../lib/embeddings/providers/ollamaEmbeddingProvider.js';
+
+function dot(a, b) {
+  return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
+
+describe('embeddingService', () => {
+  it('embeds texts with the hash provider by default', async () => {
+    const service = createEmbeddingService({ providerKey: 'hash' });
+
+    const result = await service.embed(['machine learning', 'cooking pasta']);
+
+    assert.equal(result.provider, 'hash');
+    assert.equal(result.model, 'hash-256');
+    assert.equal(result.dimensions, 256);
+    assert.equal(result.vectors.length, 2);
+  });
+
+  it('rejects invalid input', async () => {
+    const service = createEmbeddingService({ providerKey: 'hash' });
+
+    await assert.rejects(service.embed([]), { code: 'INVALID_REQUEST' });
+    await assert.rejects(service.embed('text'), { code: 'INVALID_REQUEST' });
+    await assert.rejects(service.embed(['ok', 42]), { code: 'INVALID_REQUEST' });
+  });
+
+  it('throws for an unknown provider', () => {
+    assert.throws(() => createEmbeddingService({ providerKey: 'nope' }), /Unsupported embedding provider/);
+  });
+
+  it('uses injected providers', async () => {
+    const embed = mock.fn(async texts => texts.map(() => [1, 0]));
+    const service = createEmbeddingService({
+      providers: { stub: () => ({ name: 'stub', model: 'stub-1', embed }) },
+      providerKey: 'stub',
+    });
+
+    const result = await service.embed(['a']);
+
+    assert.deepEqual(result, { provider: 'stub', model: 'stub-1', dimensions: 2, vectors: [[1, 0]] });
+  });
+});
+
+describe('hashEmbeddingProvider', () => {
+  it('is deterministic and normalized', async () => {
+    const provider = createHashEmbeddingProvider({ dimensions: 64 });
+
+    const [first] = await provider.embed(['Neural networks learn features']);
+    const [second] = await provider.embed(['Neural networks learn features']);
+
+    assert.deepEqual(first, second);
+    assert.ok(Math.abs(dot(first, first) - 1) < 1e-9);
+  });
+
+  it('scores shared vocabulary higher', async () => {
+    const provider = createHashEmbeddingProvider();
+
+    const [query, related, unrelated] = await provider.embed([
+      'neural network training',
+      'training a neural network on images',
+      'slow roasted tomato soup',
+    ]);
+
+    assert.ok(dot(query, related) > dot(query, unrelated));
+  });
+
+  it('returns a zero vector for text without words', async () => {
+    const provider = createHashEmbeddingProvider({ dimensions: 8 });
+
+    const [vector] = await provider.embed(['  ...  ']);
+
+    assert.deepEqual(vector, new Array(8).fill(0));
+  });
+});
+
+describe('ollamaEmbeddingProvider', () => {
+  it('posts texts to the embed endpoint', async () => {
+    const fetchImpl = mock.fn(async () => ({
+      ok: true,
+      json: async () => ({ embeddings: [[0.1, 0.2]] }),
+    }));
+    const provider = createOllamaEmbeddingProvider({
+      baseUrl: 'http://ollama:11434/',
+      model: 'nomic-embed-text',
+      fetchImpl,
+    });
+
+    const vectors = await provider.embed(['hello']);
+
+    assert.deepEqual(vectors, [[0.1, 0.2]]);
+    const [url, init] = fetchImpl.mock.calls[0].arguments;
+    assert.equal(url, 'http://ollama:11434/api/embed');
+    assert.deepEqual(JSON.parse(init.body), { model: 'nomic-embed-text', input: ['hello'] });
+  });
+
+  it('surfaces server errors', async () => {
+    const fetchImpl = async () => ({
+      ok: false,
+      status: 404,
+      statusText: 'Not Found',
+      text: async () => 'model not found',
+    });
+    const provider = createOllamaEmbeddingProvider({ fetchImpl });
+
+    await assert.rejects(provider.embed(['hello']), /404.*model not found/);
+  });
+});
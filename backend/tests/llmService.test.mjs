@@ -1,5 +1,8 @@
 import { describe, it, beforeEach, afterEach, mock } from 'node:test';
 import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
 
 let importCounter = 0;
 
@@ -7,6 +10,10 @@ function createServiceModule() {
   return import(`../lib/llm/index.js?test=${++importCounter}`);
 }
 
+function createImageBlock(mediaType = 'image/png', data = 'iVBORw0KGgo=') {
+  return { type: 'image', source: { type: 'base64', media_type: mediaType, data } };
+}
+
 function createMessages() {
   return [
     { role: 'system', content: 'Assist the user.' },
@@ -166,6 +173,64 @@ describe('createLLMService', () => {
     assert.equal(response.metadata.provider, 'claude-agent');
   });
 
+  it('selects any registered provider with LLM_PROVIDER', async () => {
+    process.env.LLM_PROVIDER = 'echo';
+    const { createLLMService } = await createServiceModule();
+    const service = createLLMService();
+
+    const response = await service.sendMessage({
+      messages: [{ role: 'user', content: 'Ping' }],
+      options: { model: 'claude-sonnet-4-5' },
+    });
+
+    assert.equal(service.getProviderKey(), 'echo');
+    assert.deepEqual(service.getAvailableProviders(), ['codex', 'claude', 'openai', 'echo', 'scripted']);
+    assert.equal(response.content, 'Ping');
+    assert.equal(response.metadata.requestedModel, 'claude-sonnet-4-5');
+    assert.equal(response.metadata.resolvedModel, 'echo');
+  });
+
+  it('throws for an unknown LLM_PROVIDER', async () => {
+    process.env.LLM_PROVIDER = 'nope';
+    const { createLLMService } = await createServiceModule();
+
+    assert.throws(() => createLLMService(), /Unsupported LLM provider: nope \(available: codex, claude/);
+  });
+
+  it('registers providers from external modules', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'nabokov-providers-'));
+    try {
+      const modulePath = path.join(dir, 'providers.mjs');
+      await writeFile(modulePath, `export default {
+        Custom: () => ({
+          name: 'custom',
+          send: async ({ prompt }) => ({ content: prompt.toUpperCase() }),
+          stream: async ({ onDone }) => onDone(),
+        }),
+      };`);
+
+      process.env.LLM_PROVIDER = 'custom';
+      const { createLLMService, createProviderRegistry, loadProviderModules } = await createServiceModule();
+      const registry = createProviderRegistry();
+      await loadProviderModules(registry, [modulePath]);
+      const service = createLLMService({ registry });
+
+      const response = await service.sendMessage({ messages: [{ role: 'user', content: 'hi' }], options: {} });
+
+      assert.equal(response.content, 'USER: HI');
+      assert.equal(response.metadata.provider, 'custom');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects registered entries that do not implement the provider interface', async () => {
+    const { createProviderRegistry } = await createServiceModule();
+    const registry = createProviderRegistry({ broken: () => ({ name: 'broken', send: async () => ({}) }) });
+
+    assert.throws(() => registry.get('broken'), /must implement send\(\) and stream\(\)/);
+  });
+
   it('throws INVALID_REQUEST when messages are missing', async () => {
     const { createLLMService } = await createServiceModule();
     const codexStub = {
@@ -181,7 +246,7 @@ describe('createLLMService', () => {
     );
   });
 
-  it('throws UNSUPPORTED_MULTIMODAL when messages contain arrays', async () => {
+  it('throws UNSUPPORTED_MULTIMODAL for images when the provider lacks image support', async () => {
     const { createLLMService } = await createServiceModule();
     const codexStub = {
       name: 'codex',
@@ -190,13 +255,78 @@ describe('createLLMService', () => {
     };
     const service = createLLMService({ providers: { codex: codexStub, claude: codexStub } });
 
+    assert.deepEqual(service.getCapabilities(), { images: false });
     await assert.rejects(
       () => service.sendMessage({
-        messages: [{ role: 'user', content: [{ type: 'image', source: 'data' }] }],
+        messages: [{ role: 'user', content: [createImageBlock()] }],
         options: {}
       }),
-      error => error.code === 'UNSUPPORTED_MULTIMODAL'
+      error => error.code === 'UNSUPPORTED_MULTIMODAL' && /codex provider/.test(error.message)
     );
+    assert.equal(codexStub.send.mock.calls.length, 0);
+  });
+
+  it('passes images to providers that declare image support', async () => {
+    const visionStub = {
+      name: 'vision-stub',
+      capabilities: { images: true },
+      send: mock.fn(async () => ({ content: 'A cat', metadata: {} })),
+      stream: mock.fn(async ({ onDone }) => onDone()),
+    };
+
+    const { createLLMService } = await createServiceModule();
+    const service = createLLMService({ providers: { codex: visionStub } });
+    const messages = [
+      { role: 'user', content: [createImageBlock('image/jpeg', 'AAAA'), { type: 'text', text: 'What is this?' }] },
+      { role: 'assistant', content: 'A cat.' },
+      { role: 'user', content: [{ type: 'text', text: 'And this?' }, createImageBlock('image/png', 'BBBB')] },
+    ];
+
+    const response = await service.sendMessage({ messages, options: {} });
+    await service.streamMessage({ messages, options: {}, onToken: () => {}, onDone: () => {}, onError: () => {} });
+
+    assert.equal(response.content, 'A cat');
+    const { prompt, images } = visionStub.send.mock.calls[0].arguments[0];
+    assert.equal(prompt, 'User: [Image 1]\nWhat is this?\n\nAssistant: A cat.\n\nUser: And this?\n[Image 2]');
+    assert.deepEqual(images, [
+      { mediaType: 'image/jpeg', data: 'AAAA' },
+      { mediaType: 'image/png', data: 'BBBB' },
+    ]);
+    assert.deepEqual(visionStub.stream.mock.calls[0].arguments[0].images, images);
+  });
+
+  it('accepts text-only block arrays from providers without image support', async () => {
+    const codexStub = {
+      name: 'codex',
+      send: mock.fn(async ({ prompt }) => ({ content: prompt, metadata: {} })),
+      stream: mock.fn(),
+    };
+
+    const { createLLMService } = await createServiceModule();
+    const service = createLLMService({ providers: { codex: codexStub } });
+    const response = await service.sendMessage({
+      messages: [{ role: 'user', content: [{ type: 'text', text: 'Hello' }, { type: 'text', text: 'there' }] }],
+      options: {},
+    });
+
+    assert.equal(response.content, 'User: Hello\nthere');
+  });
+
+  it('rejects malformed content blocks with INVALID_REQUEST', async () => {
+    const { createLLMService } = await createServiceModule();
+    const visionStub = { name: 'vision-stub', capabilities: { images: true }, send: mock.fn(), stream: mock.fn() };
+    const service = createLLMService({ providers: { codex: visionStub } });
+
+    for (const block of [
+      { type: 'image', source: 'data' },
+      createImageBlock('image/tiff'),
+      { type: 'document', text: 'x' },
+    ]) {
+      await assert.rejects(
+        () => service.sendMessage({ messages: [{ role: 'user', content: [block] }], options: {} }),
+        error => error.code === 'INVALID_REQUEST'
+      );
+    }
   });
 
   it('invokes stream handler callbacks in order', async () => {
@@ -227,4 +357,375 @@ describe('createLLMService', () => {
 
     assert.deepEqual(tokens, ['A', 'B', 'DONE']);
   });
+
+  it('forwards reasoning, tool calls and usage from the provider', async () => {
+    const events = [];
+
+    const codexStub = {
+      name: 'codex',
+      send: mock.fn(),
+      stream: mock.fn(async ({ onThinking, onToolUse, onToken, onDone }) => {
+        onThinking('Considering');
+        onToolUse({ name: 'command', input: 'ls' });
+        onToken('Answer');
+        onDone({ usage: { input_tokens: 10, output_tokens: 2 } });
+      }),
+    };
+
+    const { createLLMService } = await createServiceModule();
+    const service = createLLMService({ providers: { codex: codexStub, claude: codexStub } });
+
+    await service.streamMessage({
+      messages: [{ role: 'user', content: 'Stream please' }],
+      options: {},
+      onStart: () => events.push('start'),
+      onThinking: text => events.push(['thinking', text]),
+      onToolUse: tool => events.push(['tool', tool.name]),
+      onToken: token => events.push(['token', token]),
+      onDone: metadata => events.push(['done', metadata.usage]),
+      onError: error => {
+        throw error;
+      }
+    });
+
+    assert.deepEqual(events, [
+      'start',
+      ['thinking', 'Considering'],
+      ['tool', 'command'],
+      ['token', 'Answer'],
+      ['done', { input_tokens: 10, output_tokens: 2 }],
+    ]);
+  });
+});
+
+describe('createLLMService routing', () => {
+  beforeEach(() => {
+    delete process.env.LLM_PROVIDER;
+    delete process.env.USE_CLAUDE;
+  });
+
+  function createStub(name, overrides = {}) {
+    return {
+      name,
+      send: mock.fn(async () => ({ content: `from ${name}`, metadata: {} })),
+      stream: mock.fn(async ({ onToken, onDone }) => {
+        onToken(`from ${name}`);
+        onDone();
+      }),
+      ...overrides,
+    };
+  }
+
+  function failing(message, code) {
+    return async () => {
+      const error = new Error(message);
+      error.code = code;
+      throw error;
+    };
+  }
+
+  async function createRoutedService(providers, routes, timeoutMs = 0) {
+    const { createLLMService } = await createServiceModule();
+    return createLLMService({ providers, routing: { routes }, timeoutMs });
+  }
+
+  it('routes requests by hint and falls back on errors', async () => {
+    const cheap = createStub('cheap', { send: mock.fn(failing('connection refused')) });
+    const strong = createStub('strong');
+    const service = await createRoutedService(
+      { codex: createStub('codex-cli'), cheap, strong },
+      { default: ['codex'], beautify: ['cheap', 'strong'] }
+    );
+
+    const response = await service.sendMessage({
+      messages: [{ role: 'user', content: 'tidy this' }],
+      options: { route: 'beautify' },
+    });
+
+    assert.equal(response.content, 'from strong');
+    assert.equal(response.metadata.provider, 'strong');
+    assert.equal(response.metadata.providerKey, 'strong');
+    assert.equal(response.metadata.route, 'beautify');
+    assert.deepEqual(response.metadata.fallbacks, [{ providerKey: 'cheap', error: 'connection refused' }]);
+    assert.equal(cheap.send.mock.calls[0].arguments[0].options.route, undefined);
+    assert.deepEqual(service.getRoutes(), { default: ['codex'], beautify: ['cheap', 'strong'] });
+
+    const plain = await service.sendMessage({ messages: [{ role: 'user', content: 'hi' }], options: {} });
+    assert.equal(plain.metadata.providerKey, 'codex');
+    assert.equal(plain.metadata.route, 'default');
+    assert.equal(plain.metadata.fallbacks, undefined);
+  });
+
+  it('falls back when a provider times out', async () => {
+    const slow = createStub('slow', { send: mock.fn(() => new Promise(() => {})) });
+    const service = await createRoutedService(
+      { slow, codex: createStub('codex-cli') },
+      { default: [{ provider: 'slow', timeoutMs: 20 }, 'codex'] }
+    );
+
+    const response = await service.sendMessage({ messages: [{ role: 'user', content: 'hi' }], options: {} });
+
+    assert.equal(response.metadata.providerKey, 'codex');
+    assert.equal(response.metadata.fallbacks[0].code, 'PROVIDER_TIMEOUT');
+  });
+
+  it('does not fall back on unsupported models and reports every failure when the chain is exhausted', async () => {
+    const second = createStub('second');
+    const service = await createRoutedService(
+      {
+        first: createStub('first', { send: mock.fn(failing('unsupported model', 'UNSUPPORTED_MODEL')) }),
+        second,
+        third: createStub('third', { send: mock.fn(failing('boom')) }),
+      },
+      { default: ['first', 'second'], flaky: ['third', 'first'] }
+    );
+
+    await assert.rejects(
+      () => service.sendMessage({ messages: [{ role: 'user', content: 'hi' }], options: {} }),
+      error => error.code === 'UNSUPPORTED_MODEL' && error.fallbacks === undefined
+    );
+    assert.equal(second.send.mock.calls.length, 0);
+
+    await assert.rejects(
+      () => service.sendMessage({ messages: [{ role: 'user', content: 'hi' }], options: { route: 'flaky' } }),
+      error => error.fallbacks.map(failure => failure.providerKey).join() === 'third,first'
+    );
+  });
+
+  it('skips providers that cannot take images', async () => {
+    const textOnly = createStub('text-only');
+    const vision = createStub('vision', { capabilities: { images: true } });
+    const service = await createRoutedService({ textOnly, vision }, { default: ['textonly', 'vision'] });
+
+    const response = await service.sendMessage({
+      messages: [{ role: 'user', content: [createImageBlock(), { type: 'text', text: 'What is this?' }] }],
+      options: {},
+    });
+
+    assert.equal(response.metadata.providerKey, 'vision');
+    assert.equal(textOnly.send.mock.calls.length, 0);
+    assert.deepEqual(service.getCapabilities(), { images: true });
+  });
+
+  it('streams from the first provider that starts and reports it before the first token', async () => {
+    const broken = createStub('broken', {
+      stream: mock.fn(async ({ onError }) => onError(new Error('spawn failed'))),
+    });
+    const events = [];
+    const service = await createRoutedService(
+      { broken, codex: createStub('codex-cli') },
+      { default: ['broken', 'codex'] }
+    );
+
+    await service.streamMessage({
+      messages: [{ role: 'user', content: 'hi' }],
+      options: {},
+      onStart: serving => events.push(['start', serving.providerKey, serving.fallbacks]),
+      onToken: token => events.push(['token', token]),
+      onDone: metadata => events.push(['done', metadata.providerKey]),
+      onError: error => events.push(['error', error.message]),
+    });
+
+    assert.deepEqual(events, [
+      ['start', 'codex', [{ providerKey: 'broken', error: 'spawn failed' }]],
+      ['token', 'from codex-cli'],
+      ['done', 'codex'],
+    ]);
+  });
+
+  it('does not switch providers once tokens have been streamed', async () => {
+    const partial = createStub('partial', {
+      stream: mock.fn(async ({ onToken, onError }) => {
+        onToken('half an ');
+        onError(new Error('connection reset'));
+      }),
+    });
+    const codex = createStub('codex-cli');
+    const events = [];
+    const service = await createRoutedService({ partial, codex }, { default: ['partial', 'codex'] });
+
+    await service.streamMessage({
+      messages: [{ role: 'user', content: 'hi' }],
+      options: {},
+      onToken: token => events.push(token),
+      onDone: () => events.push('DONE'),
+      onError: error => events.push(error.message),
+    });
+
+    assert.deepEqual(events, ['half an ', 'connection reset']);
+    assert.equal(codex.stream.mock.calls.length, 0);
+  });
+
+  it('does not switch providers once reasoning has been streamed', async () => {
+    const partial = createStub('partial', {
+      stream: mock.fn(async ({ onThinking, onError }) => {
+        onThinking('Let me think');
+        onError(new Error('connection reset'));
+      }),
+    });
+    const codex = createStub('codex-cli');
+    const events = [];
+    const service = await createRoutedService({ partial, codex }, { default: ['partial', 'codex'] });
+
+    await service.streamMessage({
+      messages: [{ role: 'user', content: 'hi' }],
+      options: {},
+      onThinking: text => events.push(text),
+      onToken: token => events.push(token),
+      onDone: () => events.push('DONE'),
+      onError: error => events.push(error.message),
+    });
+
+    assert.deepEqual(events, ['Let me think', 'connection reset']);
+    assert.equal(codex.stream.mock.calls.length, 0);
+  });
+
+  it('ignores tokens from a stream abandoned after its timeout', async () => {
+    let lateToken;
+    const slow = createStub('slow', {
+      stream: mock.fn(async ({ onToken }) => {
+        lateToken = onToken;
+      }),
+    });
+    const events = [];
+    const service = await createRoutedService(
+      { slow, codex: createStub('codex-cli') },
+      { default: [{ provider: 'slow', timeoutMs: 20 }, 'codex'] }
+    );
+
+    await service.streamMessage({
+      messages: [{ role: 'user', content: 'hi' }],
+      options: {},
+      onToken: token => events.push(token),
+      onDone: metadata => events.push(metadata.fallbacks[0].code),
+      onError: error => events.push(error.message),
+    });
+    lateToken('too late');
+
+    assert.deepEqual(events, ['from codex-cli', 'PROVIDER_TIMEOUT']);
+  });
+});
+
+describe('createLLMService scheduling and cancellation', () => {
+  beforeEach(() => {
+    delete process.env.LLM_PROVIDER;
+    delete process.env.USE_CLAUDE;
+  });
+
+  /** Streams one token, then waits for release() or an abort */
+  function createHeldStub(name = 'codex-cli') {
+    const held = [];
+    return {
+      held,
+      provider: {
+        name,
+        send: mock.fn(({ signal }) => new Promise((resolve, reject) => {
+          signal.addEventListener('abort', () => reject(new Error('aborted')));
+          held.push(() => resolve({ content: 'done', metadata: {} }));
+        })),
+        stream: mock.fn(({ signal, onToken, onDone, onError }) => {
+          onToken('first ');
+          signal.addEventListener('abort', () => onError(new Error('aborted')));
+          held.push(() => onDone());
+        }),
+      },
+    };
+  }
+
+  async function createScheduledService(providers, { limits = {}, requestTimeoutMs, routes } = {}) {
+    const { createLLMService, createScheduler } = await createServiceModule();
+    return createLLMService({
+      providers,
+      routing: routes ? { routes } : {},
+      scheduler: createScheduler({ limits }),
+      requestTimeoutMs,
+    });
+  }
+
+  it('queues streams over the concurrency cap and reports their position', async () => {
+    const { held, provider } = createHeldStub();
+    const service = await createScheduledService({ codex: provider }, { limits: { codex: 1 } });
+    const events = [];
+    const stream = label => service.streamMessage({
+      messages: [{ role: 'user', content: label }],
+      options: {},
+      onQueued: ({ providerKey, position }) => events.push(`${label} queued ${providerKey} #${position}`),
+      onToken: () => events.push(`${label} token`),
+      onDone: () => events.push(`${label} done`),
+      onError: error => events.push(`${label} ${error.message}`),
+    });
+
+    const first = stream('a');
+    const second = stream('b');
+    await new Promise(resolve => setImmediate(resolve));
+    assert.deepEqual(service.getQueueStats(), { codex: { active: 1, queued: 1, limit: 1 } });
+
+    held.shift()();
+    await first;
+    await new Promise(resolve => setImmediate(resolve));
+    held.shift()();
+    await second;
+
+    assert.deepEqual(events, ['b queued codex #1', 'a token', 'b token', 'a done', 'b done']);
+  });
+
+  it('cancels a running request when the caller aborts, without falling back', async () => {
+    const { provider } = createHeldStub();
+    const backup = { name: 'backup', send: mock.fn(), stream: mock.fn() };
+    const service = await createScheduledService(
+      { codex: provider, backup },
+      { routes: { default: ['codex', 'backup'] } }
+    );
+    const controller = new AbortController();
+    const events = [];
+
+    const streaming = service.streamMessage({
+      messages: [{ role: 'user', content: 'hi' }],
+      options: {},
+      signal: controller.signal,
+      onToken: token => {
+        events.push(token);
+        controller.abort();
+      },
+      onDone: () => events.push('DONE'),
+      onError: error => events.push(error.code),
+    });
+    await streaming;
+
+    const sending = service.sendMessage({ messages: [{ role: 'user', content: 'hi' }], options: {}, signal: controller.signal });
+    await assert.rejects(sending, { code: 'REQUEST_CANCELLED' });
+
+    assert.deepEqual(events, ['first ', 'REQUEST_CANCELLED']);
+    assert.ok(provider.stream.mock.calls[0].arguments[0].signal.aborted);
+    assert.equal(backup.send.mock.calls.length + backup.stream.mock.calls.length, 0);
+    assert.deepEqual(service.getQueueStats().codex, { active: 0, queued: 0, limit: 2 });
+  });
+
+  it('aborts requests that exceed the request timeout', async () => {
+    const { provider } = createHeldStub();
+    const service = await createScheduledService({ codex: provider }, { requestTimeoutMs: 1000 });
+
+    const started = Date.now();
+    await assert.rejects(
+      () => service.sendMessage({ messages: [{ role: 'user', content: 'hi' }], options: { timeoutMs: 20 } }),
+      { code: 'REQUEST_TIMEOUT', message: 'Request did not complete within 20ms' }
+    );
+    assert.ok(Date.now() - started < 1000);
+    assert.ok(provider.send.mock.calls[0].arguments[0].signal.aborted);
+    assert.equal(provider.send.mock.calls[0].arguments[0].options.timeoutMs, undefined);
+  });
+
+  it('aborts the attempt that hit a step timeout before falling back', async () => {
+    const { provider: slow } = createHeldStub('slow');
+    const service = await createScheduledService(
+      { slow, codex: { name: 'codex-cli', send: async () => ({ content: 'fast' }), stream: mock.fn() } },
+      { routes: { default: [{ provider: 'slow', timeoutMs: 20 }, 'codex'] } }
+    );
+
+    const response = await service.sendMessage({ messages: [{ role: 'user', content: 'hi' }], options: {} });
+
+    assert.equal(response.content, 'fast');
+    assert.ok(slow.send.mock.calls[0].arguments[0].signal.aborted);
+    assert.deepEqual(service.getQueueStats().slow, { active: 0, queued: 0, limit: 2 });
+  });
 });
@@ -0,0 +1,135 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createOpenAIProvider } from '../lib/llm/providers/openaiProvider.js';
+
+function createSSEBody(lines) {
+  const encoder = new TextEncoder();
+  const text = lines.map(line => `${line}\n\n`).join('');
+  // Split mid-line to exercise buffering across chunks
+  return (async function* chunks() {
+    yield encoder.encode(text.slice(0, 25));
+    yield encoder.encode(text.slice(25));
+  })();
+}
+
+describe('openaiProvider', () => {
+  it('posts a chat completion and returns the message', async () => {
+    const fetchMock = mock.fn(async () => ({
+      ok: true,
+      json: async () => ({
+        model: 'llama3.1:8b',
+        choices: [{ message: { role: 'assistant', content: 'Hi there' } }],
+        usage: { prompt_tokens: 5, completion_tokens: 2 },
+      }),
+    }));
+    const provider = createOpenAIProvider({
+      baseUrl: 'http://localhost:8080/v1/',
+      apiKey: 'secret',
+      model: 'llama3.1',
+      fetchImpl: fetchMock,
+    });
+
+    const result = await provider.send({ prompt: 'User: hi', options: { maxTokens: 64 } });
+
+    assert.equal(result.content, 'Hi there');
+    assert.equal(result.metadata.model, 'llama3.1:8b');
+    assert.deepEqual(result.metadata.usage, { prompt_tokens: 5, completion_tokens: 2 });
+
+    const [url, init] = fetchMock.mock.calls[0].arguments;
+    assert.equal(url, 'http://localhost:8080/v1/chat/completions');
+    assert.equal(init.headers.Authorization, 'Bearer secret');
+    assert.deepEqual(JSON.parse(init.body), {
+      model: 'llama3.1',
+      messages: [{ role: 'user', content: 'User: hi' }],
+      stream: false,
+      max_tokens: 64,
+    });
+  });
+
+  it('sends images as data URLs', async () => {
+    const fetchMock = mock.fn(async () => ({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: 'A cat' } }] }),
+    }));
+    const provider = createOpenAIProvider({ images: true, fetchImpl: fetchMock });
+
+    await provider.send({ prompt: 'User: [Image 1]', images: [{ mediaType: 'image/png', data: 'AAAA' }] });
+
+    assert.equal(provider.capabilities.images, true);
+    const { messages } = JSON.parse(fetchMock.mock.calls[0].arguments[1].body);
+    assert.deepEqual(messages[0].content, [
+      { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+      { type: 'text', text: 'User: [Image 1]' },
+    ]);
+  });
+
+  it('streams deltas until [DONE]', async () => {
+    const fetchMock = mock.fn(async () => ({
+      ok: true,
+      body: createSSEBody([
+        'data: {"choices":[{"delta":{"role":"assistant"}}]}',
+        'data: {"choices":[{"delta":{"content":"Hel"}}]}',
+        'data: {"choices":[{"delta":{"content":"lo"}}]}',
+        'data: [DONE]',
+      ]),
+    }));
+    const provider = createOpenAIProvider({ fetchImpl: fetchMock });
+    const events = [];
+
+    await provider.stream({
+      prompt: 'User: hi',
+      onToken: token => events.push(token),
+      onDone: () => events.push('DONE'),
+      onError: error => events.push(error),
+    });
+
+    assert.deepEqual(events, ['Hel', 'lo', 'DONE']);
+    assert.equal(JSON.parse(fetchMock.mock.calls[0].arguments[1].body).stream, true);
+  });
+
+  it('streams reasoning separately and reports usage from the final chunk', async () => {
+    const fetchMock = mock.fn(async () => ({
+      ok: true,
+      body: createSSEBody([
+        'data: {"choices":[{"delta":{"reasoning_content":"Hmm"}}]}',
+        'data: {"choices":[{"delta":{"reasoning":", a greeting"}}]}',
+        'data: {"choices":[{"delta":{"content":"Hi"}}]}',
+        'data: {"choices":[],"usage":{"prompt_tokens":7,"completion_tokens":4}}',
+        'data: [DONE]',
+      ]),
+    }));
+    const provider = createOpenAIProvider({ fetchImpl: fetchMock });
+    const events = [];
+
+    await provider.stream({
+      prompt: 'User: hi',
+      onThinking: text => events.push(['thinking', text]),
+      onToken: token => events.push(['token', token]),
+      onDone: metadata => events.push(['done', metadata]),
+      onError: error => events.push(error),
+    });
+
+    assert.deepEqual(events, [
+      ['thinking', 'Hmm'],
+      ['thinking', ', a greeting'],
+      ['token', 'Hi'],
+      ['done', { usage: { prompt_tokens: 7, completion_tokens: 4 } }],
+    ]);
+    assert.deepEqual(JSON.parse(fetchMock.mock.calls[0].arguments[1].body).stream_options, { include_usage: true });
+  });
+
+  it('reports HTTP failures', async () => {
+    const fetchMock = mock.fn(async () => ({
+      ok: false,
+      status: 404,
+      statusText: 'Not Found',
+      text: async () => 'model "llama9" not found',
+    }));
+    const provider = createOpenAIProvider({ fetchImpl: fetchMock });
+    const onError = mock.fn();
+
+    await assert.rejects(provider.send({ prompt: 'User: hi' }), /\(404\): model "llama9" not found/);
+    await provider.stream({ prompt: 'User: hi', onToken: () => {}, onDone: () => {}, onError });
+    assert.match(onError.mock.calls[0].arguments[0].message, /\(404\)/);
+  });
+});
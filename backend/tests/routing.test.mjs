@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRouter } from '../lib/llm/routing.js';
+
+const providerKeys = ['codex', 'claude', 'openai', 'echo'];
+
+describe('createRouter', () => {
+  it('falls back to the default provider without a routing table', () => {
+    const router = createRouter({ defaultProviderKey: 'codex', providerKeys, timeoutMs: 0 });
+
+    assert.deepEqual(router.resolve('beautify'), { route: 'default', steps: [{ providerKey: 'codex', timeoutMs: 0 }] });
+    assert.deepEqual(router.describe(), { default: ['codex'] });
+  });
+
+  it('resolves routes with per-step timeouts', () => {
+    const router = createRouter({
+      config: {
+        timeoutMs: 30000,
+        routes: {
+          default: ['codex', 'claude'],
+          Beautify: [{ provider: 'openai', timeoutMs: 5000 }, 'codex'],
+        },
+      },
+      defaultProviderKey: 'codex',
+      providerKeys,
+    });
+
+    assert.deepEqual(router.resolve('beautify'), {
+      route: 'beautify',
+      steps: [{ providerKey: 'openai', timeoutMs: 5000 }, { providerKey: 'codex', timeoutMs: 30000 }],
+    });
+    assert.equal(router.resolve('unknown-task').route, 'default');
+    assert.equal(router.resolve().route, 'default');
+  });
+
+  it('puts a hinted provider ahead of the default chain', () => {
+    const router = createRouter({
+      config: { routes: { default: ['codex', 'claude'] } },
+      defaultProviderKey: 'codex',
+      providerKeys,
+      timeoutMs: 0,
+    });
+
+    assert.deepEqual(router.resolve('claude').steps.map(step => step.providerKey), ['claude', 'codex']);
+    assert.deepEqual(router.resolve('echo').steps.map(step => step.providerKey), ['echo', 'codex', 'claude']);
+  });
+
+  it('rejects routes naming unknown providers', () => {
+    assert.throws(
+      () => createRouter({ config: { routes: { fast: ['gemini'] } }, defaultProviderKey: 'codex', providerKeys }),
+      /Route "fast" uses unknown provider: gemini \(available: codex, claude, openai, echo\)/
+    );
+    assert.throws(
+      () => createRouter({ config: { routes: { fast: [] } }, defaultProviderKey: 'codex', providerKeys }),
+      /must list at least one provider/
+    );
+  });
+});
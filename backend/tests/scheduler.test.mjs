@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createScheduler, parseConcurrencyLimits } from '../lib/llm/scheduler.js';
+
+describe('createScheduler', () => {
+  it('caps concurrent requests per provider and serves the queue in order', async () => {
+    const scheduler = createScheduler({ limits: { codex: 1 } });
+    const order = [];
+    const positions = { second: [], third: [] };
+
+    const releaseFirst = await scheduler.acquire('codex');
+    const second = scheduler.acquire('codex', { onQueued: position => positions.second.push(position) })
+      .then(release => {
+        order.push('second');
+        return release;
+      });
+    const third = scheduler.acquire('codex', { onQueued: position => positions.third.push(position) })
+      .then(release => {
+        order.push('third');
+        return release;
+      });
+    // Other providers have their own slots
+    const releaseOther = await scheduler.acquire('claude');
+
+    assert.deepEqual(scheduler.stats().codex, { active: 1, queued: 2, limit: 1 });
+
+    releaseFirst();
+    releaseFirst();
+    const releaseSecond = await second;
+    assert.deepEqual(order, ['second']);
+    assert.deepEqual(positions, { second: [1], third: [2, 1] });
+
+    releaseSecond();
+    (await third)();
+    releaseOther();
+
+    assert.deepEqual(order, ['second', 'third']);
+    assert.deepEqual(scheduler.stats(), {
+      codex: { active: 0, queued: 0, limit: 1 },
+      claude: { active: 0, queued: 0, limit: 2 },
+    });
+  });
+
+  it('drops queued requests whose signal aborts', async () => {
+    const scheduler = createScheduler({ limits: { default: 1 } });
+    const controller = new AbortController();
+    const positions = [];
+
+    const release = await scheduler.acquire('openai');
+    const cancelled = scheduler.acquire('openai', { signal: controller.signal });
+    const waiting = scheduler.acquire('openai', { onQueued: position => positions.push(position) });
+
+    controller.abort();
+    await assert.rejects(cancelled, { code: 'REQUEST_CANCELLED' });
+    assert.deepEqual(positions, [2, 1]);
+
+    release();
+    (await waiting)();
+    await assert.rejects(scheduler.acquire('openai', { signal: controller.signal }), { code: 'REQUEST_CANCELLED' });
+  });
+});
+
+describe('parseConcurrencyLimits', () => {
+  it('parses provider limits', () => {
+    assert.deepEqual(parseConcurrencyLimits(' Codex=1, openai=4,default=3 '), { codex: 1, openai: 4, default: 3 });
+    assert.deepEqual(parseConcurrencyLimits(undefined), {});
+    assert.throws(() => parseConcurrencyLimits('codex=0'), /Invalid NABOKOV_LLM_CONCURRENCY entry: codex=0/);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createEchoProvider, createScriptedProvider } from '../lib/llm/providers/scriptedProvider.js';
+
+async function collectStream(provider, prompt) {
+  const events = [];
+  await provider.stream({
+    prompt,
+    onToken: token => events.push(token),
+    onDone: () => events.push('DONE'),
+    onError: error => events.push(error.message),
+  });
+  return events;
+}
+
+describe('scriptedProvider', () => {
+  it('answers with the first matching rule', async () => {
+    const provider = createScriptedProvider({
+      responses: [
+        { match: 'beautify', response: '<p>Tidy</p>' },
+        { response: 'Fallback answer' },
+      ],
+    });
+
+    assert.equal((await provider.send({ prompt: 'User: Beautify this card' })).content, '<p>Tidy</p>');
+    assert.equal((await provider.send({ prompt: 'User: hello' })).content, 'Fallback answer');
+  });
+
+  it('streams the response word by word', async () => {
+    const provider = createScriptedProvider({ responses: [{ response: 'One two  three' }] });
+
+    const events = await collectStream(provider, 'User: hi');
+
+    assert.deepEqual(events, ['One ', 'two  ', 'three', 'DONE']);
+  });
+
+  it('streams scripted thinking ahead of the response', async () => {
+    const provider = createScriptedProvider({ responses: [{ thinking: 'Short one', response: 'Done' }] });
+    const events = [];
+
+    await provider.stream({
+      prompt: 'User: hi',
+      onThinking: text => events.push(['thinking', text]),
+      onToken: token => events.push(token),
+      onDone: () => events.push('DONE'),
+      onError: error => events.push(error.message),
+    });
+
+    assert.deepEqual(events, [['thinking', 'Short '], ['thinking', 'one'], 'Done', 'DONE']);
+    assert.equal((await provider.send({ prompt: 'User: hi' })).content, 'Done');
+  });
+
+  it('reports prompts no rule matches', async () => {
+    const provider = createScriptedProvider({ responses: [{ match: '^never$', response: 'x' }] });
+
+    await assert.rejects(provider.send({ prompt: 'User: hi' }), /No scripted response matches/);
+    assert.deepEqual(await collectStream(provider, 'User: hi'), ['No scripted response matches the prompt']);
+    await assert.rejects(createScriptedProvider({ responses: [] }).send({ prompt: 'hi' }), /NABOKOV_SCRIPTED_RESPONSES/);
+  });
+});
+
+describe('echoProvider', () => {
+  it('replies with the latest user turn', async () => {
+    const provider = createEchoProvider();
+
+    const result = await provider.send({ prompt: 'Be brief.\n\nUser: first\n\nAssistant: ok\n\nUser: second\nline' });
+
+    assert.equal(result.content, 'second\nline');
+    assert.equal(result.metadata.provider, 'echo');
+  });
+});
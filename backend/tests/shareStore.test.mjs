@@ -0,0 +1,77 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { createShareStore } from '../lib/share/shareStore.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const snapshot = {
+  version: 1,
+  title: 'Reading list',
+  createdAt: 1,
+  cards: [{ id: 'card-1', content: '<p>Hello</p>' }],
+  connections: [],
+};
+
+describe('shareStore', () => {
+  let dirPath;
+
+  beforeEach(async () => {
+    dirPath = await mkdtemp(path.join(tmpdir(), 'nabokov-share-'));
+  });
+
+  afterEach(async () => {
+    await rm(dirPath, { recursive: true, force: true });
+  });
+
+  it('stores and returns a snapshot', async () => {
+    const store = createShareStore({ dirPath });
+
+    const { id, expiresAt } = await store.create({ snapshot });
+
+    assert.equal(expiresAt, null);
+    assert.deepEqual((await store.get(id)).snapshot, snapshot);
+    assert.equal((await store.describe(id)).passwordRequired, false);
+  });
+
+  it('requires the password when one was set', async () => {
+    const store = createShareStore({ dirPath });
+    const { id } = await store.create({ snapshot, password: 'hunter2' });
+
+    assert.equal((await store.describe(id)).passwordRequired, true);
+    await assert.rejects(store.get(id), { code: 'PASSWORD_REQUIRED' });
+    await assert.rejects(store.get(id, 'wrong'), { code: 'INVALID_PASSWORD' });
+    assert.deepEqual((await store.get(id, 'hunter2')).snapshot, snapshot);
+  });
+
+  it('expires shares and removes them', async () => {
+    let now = 1_000;
+    const store = createShareStore({ dirPath, now: () => now });
+    const { id, expiresAt } = await store.create({ snapshot, expiresInDays: 1 });
+    assert.equal(expiresAt, 1_000 + DAY_MS);
+
+    now += DAY_MS;
+
+    await assert.rejects(store.get(id), { code: 'EXPIRED' });
+    await assert.rejects(store.get(id), { code: 'NOT_FOUND' });
+  });
+
+  it('only lets the owner remove a share', async () => {
+    const store = createShareStore({ dirPath });
+    const { id, ownerToken } = await store.create({ snapshot });
+
+    await assert.rejects(store.remove(id, 'not-the-owner'), { code: 'FORBIDDEN' });
+    await store.remove(id, ownerToken);
+    await assert.rejects(store.get(id), { code: 'NOT_FOUND' });
+  });
+
+  it('rejects malformed input and unknown ids', async () => {
+    const store = createShareStore({ dirPath });
+
+    await assert.rejects(store.create({ snapshot: { cards: [] } }), { code: 'INVALID_REQUEST' });
+    await assert.rejects(store.create({ snapshot, expiresInDays: -1 }), { code: 'INVALID_REQUEST' });
+    await assert.rejects(store.get('../../etc/passwd'), { code: 'NOT_FOUND' });
+  });
+});
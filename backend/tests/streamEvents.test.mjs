@@ -0,0 +1,27 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatStreamEvent, normalizeUsage } from '../lib/llm/streamEvents.js';
+
+describe('streamEvents', () => {
+  it('formats one typed event per SSE data line', () => {
+    assert.equal(
+      formatStreamEvent('text_delta', { text: 'Hi\nthere' }),
+      'data: {"type":"text_delta","text":"Hi\\nthere"}\n\n'
+    );
+    assert.equal(formatStreamEvent('message_stop'), 'data: {"type":"message_stop"}\n\n');
+  });
+
+  it('normalizes usage reported by each provider family', () => {
+    assert.deepEqual(normalizeUsage({ input_tokens: 12, output_tokens: 3, cache_read_input_tokens: 0 }), {
+      inputTokens: 12,
+      outputTokens: 3,
+    });
+    assert.deepEqual(normalizeUsage({ prompt_tokens: 7, completion_tokens: 4, total_tokens: 11 }), {
+      inputTokens: 7,
+      outputTokens: 4,
+    });
+    assert.deepEqual(normalizeUsage({ output_tokens: 5 }), { outputTokens: 5 });
+    assert.equal(normalizeUsage({ total_tokens: 11 }), undefined);
+    assert.equal(normalizeUsage(undefined), undefined);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fsPromises from 'node:fs/promises';
+import { mkdtemp, rm, readFile, writeFile, mkdir } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { createSyncStore } from '../lib/sync/syncStore.js';
+
+function createOp(id, overrides = {}) {
+  return {
+    id,
+    clientId: 'client-a',
+    hlc: `000000000000001:00000:client-a`,
+    entity: 'card',
+    entityId: 'card-1',
+    fields: { content: id },
+    ...overrides,
+  };
+}
+
+describe('syncStore', () => {
+  let dir;
+  let filePath;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'nabokov-sync-'));
+    filePath = path.join(dir, 'nested', 'oplog.jsonl');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('assigns sequence numbers and pages pulls by cursor', async () => {
+    const store = createSyncStore({ filePath });
+
+    const pushed = await store.push('client-a', [createOp('op-1'), createOp('op-2'), createOp('op-3')]);
+    assert.deepEqual(pushed, { accepted: 3, cursor: 3 });
+
+    const first = await store.pull(0, { limit: 2 });
+    assert.deepEqual(first.ops.map(op => op.seq), [1, 2]);
+    assert.equal(first.cursor, 2);
+    assert.equal(first.hasMore, true);
+
+    const rest = await store.pull(first.cursor);
+    assert.deepEqual(rest.ops.map(op => op.id), ['op-3']);
+    assert.equal(rest.hasMore, false);
+
+    const empty = await store.pull(rest.cursor);
+    assert.deepEqual(empty, { ops: [], cursor: 3, hasMore: false });
+  });
+
+  it('ignores operations it has already accepted', async () => {
+    const store = createSyncStore({ filePath });
+    await store.push('client-a', [createOp('op-1')]);
+
+    const retried = await store.push('client-a', [createOp('op-1'), createOp('op-2')]);
+
+    assert.deepEqual(retried, { accepted: 1, cursor: 2 });
+  });
+
+  it('persists the log across restarts', async () => {
+    await createSyncStore({ filePath }).push('client-a', [createOp('op-1')]);
+
+    const reopened = createSyncStore({ filePath });
+    assert.deepEqual(await reopened.status(), { cursor: 1, opCount: 1 });
+
+    const lines = (await readFile(filePath, 'utf8')).trim().split('\n');
+    assert.equal(lines.length, 1);
+    assert.equal(JSON.parse(lines[0]).id, 'op-1');
+  });
+
+  it('rejects malformed pushes', async () => {
+    const store = createSyncStore({ filePath });
+
+    await assert.rejects(store.push('', [createOp('op-1')]), { code: 'INVALID_REQUEST' });
+    await assert.rejects(store.push('client-a', [{ id: 'bad' }]), { code: 'INVALID_REQUEST' });
+    assert.deepEqual(await store.status(), { cursor: 0, opCount: 0 });
+  });
+
+  it('accepts a retried push after the append failed', async () => {
+    let failAppend = true;
+    const fs = {
+      ...fsPromises,
+      appendFile: async (...args) => {
+        if (failAppend) throw Object.assign(new Error('disk full'), { code: 'ENOSPC' });
+        return fsPromises.appendFile(...args);
+      },
+    };
+    const store = createSyncStore({ filePath, fs });
+
+    await assert.rejects(store.push('client-a', [createOp('op-1')]), { code: 'ENOSPC' });
+    assert.deepEqual(await store.status(), { cursor: 0, opCount: 0 });
+
+    failAppend = false;
+    assert.deepEqual(await store.push('client-a', [createOp('op-1')]), { accepted: 1, cursor: 1 });
+  });
+
+  it('retries loading after a failed read', async () => {
+    let failRead = true;
+    const fs = {
+      ...fsPromises,
+      readFile: async (...args) => {
+        if (failRead) throw Object.assign(new Error('busy'), { code: 'EBUSY' });
+        return fsPromises.readFile(...args);
+      },
+    };
+    const store = createSyncStore({ filePath, fs });
+
+    await assert.rejects(store.status(), { code: 'EBUSY' });
+
+    failRead = false;
+    assert.deepEqual(await store.status(), { cursor: 0, opCount: 0 });
+  });
+
+  it('skips unreadable lines and keeps appending after a torn write', async () => {
+    const first = { ...createOp('op-1'), seq: 1, receivedAt: 1 };
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, `${JSON.stringify(first)}\nnot json\n{"id":"op-2","cli`, 'utf8');
+
+    const store = createSyncStore({ filePath });
+    assert.deepEqual(await store.status(), { cursor: 1, opCount: 1 });
+    assert.deepEqual(await store.push('client-a', [createOp('op-2')]), { accepted: 1, cursor: 2 });
+
+    const reopened = createSyncStore({ filePath });
+    assert.deepEqual((await reopened.pull(0)).ops.map(op => op.id), ['op-1', 'op-2']);
+  });
+});
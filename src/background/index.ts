@@ -1,8 +1,31 @@
 // Background service worker for Nabokov Web Clipper
 
-chrome.runtime.onInstalled.addListener(() => {
+import {
+  CARD_REPOSITORY_MESSAGE,
+  handleCardRepositoryRequest,
+  type CardRepositoryRequest,
+} from '@/utils/cardRepository';
+import { runStorageMigrations } from '@/utils/storageMigrations';
+import { TRASH_PURGE_ALARM, purgeExpiredTrash, scheduleTrashPurge } from '@/shared/services/trashService';
+import { SYNC_ALARM, SYNC_NOW_MESSAGE, scheduleSync, syncNow } from '@/shared/services/syncService';
+
+chrome.runtime.onInstalled.addListener((details) => {
   console.log('Nabokov Web Clipper installed');
 
+  // Bring stored data up to the current schema (also moves legacy cards into IndexedDB)
+  if (details.reason === 'install' || details.reason === 'update') {
+    runStorageMigrations()
+      .then(result => {
+        console.log('[background] Storage schema at version', result.toVersion);
+      })
+      .catch(err => {
+        console.error('[background] Storage migration failed:', err);
+      });
+  }
+
+  scheduleTrashPurge();
+  scheduleSync().catch(err => console.error('[background] Failed to schedule sync:', err));
+
   // Create context menus
   chrome.contextMenus.create({
     id: 'clip-to-canvas',
@@ -23,6 +46,30 @@ chrome.runtime.onInstalled.addListener(() => {
   });
 });
 
+chrome.runtime.onStartup.addListener(() => {
+  scheduleTrashPurge();
+  scheduleSync().catch(err => console.error('[background] Failed to schedule sync:', err));
+});
+
+// Periodic sync, and purging trashed cards past the retention period
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === SYNC_ALARM) {
+    syncNow().catch(err => {
+      console.error('[background] Background sync failed:', err);
+    });
+    return;
+  }
+  if (alarm.name !== TRASH_PURGE_ALARM) return;
+
+  purgeExpiredTrash()
+    .then(count => {
+      if (count > 0) console.log('[background] Purged expired trash:', count);
+    })
+    .catch(err => {
+      console.error('[background] Trash purge failed:', err);
+    });
+});
+
 // Handle keyboard commands
 chrome.commands.onCommand.addListener((command) => {
   console.log('[background] Command received:', command);
@@ -141,6 +188,37 @@ chrome.action.onClicked.addListener((tab) => {
 chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
   console.log('[background] Received message:', message.type);
 
+  if (message.type === CARD_REPOSITORY_MESSAGE) {
+    // Content scripts can't reach the extension's IndexedDB, so they proxy through here
+    const request = message.request as CardRepositoryRequest;
+    handleCardRepositoryRequest(request)
+      .then(result => {
+        sendResponse({ success: true, result });
+
+        if (request.op === 'put' || request.op === 'delete') {
+          const cardIds = request.op === 'put' ? request.cards.map(c => c.id) : request.cardIds;
+          cardIds.forEach(cardId => {
+            chrome.runtime.sendMessage({ type: 'CARD_UPDATED', cardId }).catch(() => {});
+          });
+        }
+      })
+      .catch(err => {
+        console.error('[background] Card repository request failed:', err);
+        sendResponse({ success: false, error: err instanceof Error ? err.message : String(err) });
+      });
+    return true;
+  }
+
+  if (message.type === SYNC_NOW_MESSAGE) {
+    // Manual sync joins the alarm's round instead of racing it from the page
+    syncNow()
+      .then(result => sendResponse({ success: true, result }))
+      .catch(err => {
+        sendResponse({ success: false, error: err instanceof Error ? err.message : String(err) });
+      });
+    return true;
+  }
+
   if (message.type === 'OPEN_CANVAS') {
     chrome.tabs.create({
       url: chrome.runtime.getURL('src/canvas/index.html')
@@ -0,0 +1,304 @@
+/**
+ * Board Switcher
+ *
+ * Toolbar dropdown listing the boards. Switching goes through the canvas
+ * state (so pending saves land on the board being left); creating, renaming
+ * and deleting boards call the board service directly.
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import type { Board } from '@/types/board';
+import {
+  DEFAULT_BOARD_ID,
+  createBoard,
+  deleteBoard,
+  renameBoard,
+} from '@/shared/services/boardService';
+
+interface BoardSwitcherProps {
+  boards: Board[];
+  activeBoardId: string;
+  onSwitchBoard: (boardId: string) => Promise<void>;
+}
+
+type EditMode = { kind: 'create' } | { kind: 'rename'; boardId: string } | null;
+
+export function BoardSwitcher({ boards, activeBoardId, onSwitchBoard }: BoardSwitcherProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editMode, setEditMode] = useState<EditMode>(null);
+  const [nameInput, setNameInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const activeBoard = boards.find(board => board.id === activeBoardId);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        close();
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const close = () => {
+    setIsOpen(false);
+    setEditMode(null);
+    setError(null);
+  };
+
+  const startEdit = (mode: EditMode, initialName = '') => {
+    setEditMode(mode);
+    setNameInput(initialName);
+    setError(null);
+  };
+
+  const handleSwitch = async (boardId: string) => {
+    close();
+    try {
+      await onSwitchBoard(boardId);
+    } catch (err) {
+      console.error('[BoardSwitcher] Failed to switch board:', err);
+    }
+  };
+
+  const handleSubmitName = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editMode) return;
+
+    try {
+      if (editMode.kind === 'create') {
+        const board = await createBoard(nameInput);
+        close();
+        await onSwitchBoard(board.id);
+      } else {
+        await renameBoard(editMode.boardId, nameInput);
+        setEditMode(null);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save board');
+    }
+  };
+
+  const handleDelete = async (board: Board) => {
+    let confirmed = true;
+    try {
+      confirmed = window.confirm(
+        `Delete board "${board.name}"? Its cards stay on their other boards or return to the main board.`
+      );
+    } catch (err) {
+      console.warn('[BoardSwitcher] Confirm dialog blocked, defaulting to accept', err);
+    }
+    if (!confirmed) return;
+
+    try {
+      await deleteBoard(board.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete board');
+    }
+  };
+
+  return (
+    <div ref={containerRef} style={styles.container}>
+      <button
+        style={styles.trigger}
+        onClick={() => (isOpen ? close() : setIsOpen(true))}
+        title="Switch board"
+        data-testid="board-switcher"
+      >
+        <svg width="16" height="16" viewBox="0 0 16 16" fill="none">
+          <rect x="1.5" y="1.5" width="5" height="5" rx="1" stroke="currentColor" strokeWidth="1.5" />
+          <rect x="9.5" y="1.5" width="5" height="5" rx="1" stroke="currentColor" strokeWidth="1.5" />
+          <rect x="1.5" y="9.5" width="5" height="5" rx="1" stroke="currentColor" strokeWidth="1.5" />
+          <rect x="9.5" y="9.5" width="5" height="5" rx="1" stroke="currentColor" strokeWidth="1.5" />
+        </svg>
+        <span style={styles.triggerLabel}>{activeBoard?.name ?? 'Main board'}</span>
+        <span style={styles.caret}>▾</span>
+      </button>
+
+      {isOpen && (
+        <div style={styles.menu} data-testid="board-menu">
+          {boards.map(board => {
+            const isActive = board.id === activeBoardId;
+
+            if (editMode?.kind === 'rename' && editMode.boardId === board.id) {
+              return (
+                <form key={board.id} style={styles.editRow} onSubmit={handleSubmitName}>
+                  <input
+                    style={styles.input}
+                    value={nameInput}
+                    onChange={(e) => setNameInput(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Escape' && setEditMode(null)}
+                    autoFocus
+                  />
+                  <button type="submit" style={styles.smallButton}>Save</button>
+                </form>
+              );
+            }
+
+            return (
+              <div key={board.id} style={{ ...styles.row, ...(isActive ? styles.rowActive : {}) }}>
+                <button style={styles.boardButton} onClick={() => handleSwitch(board.id)}>
+                  {isActive ? '● ' : ''}
+                  {board.name}
+                </button>
+                <button
+                  style={styles.iconButton}
+                  title="Rename board"
+                  onClick={() => startEdit({ kind: 'rename', boardId: board.id }, board.name)}
+                >
+                  ✎
+                </button>
+                {board.id !== DEFAULT_BOARD_ID && (
+                  <button style={styles.iconButton} title="Delete board" onClick={() => handleDelete(board)}>
+                    ✕
+                  </button>
+                )}
+              </div>
+            );
+          })}
+
+          <div style={styles.divider} />
+
+          {editMode?.kind === 'create' ? (
+            <form style={styles.editRow} onSubmit={handleSubmitName}>
+              <input
+                style={styles.input}
+                value={nameInput}
+                onChange={(e) => setNameInput(e.target.value)}
+                onKeyDown={(e) => e.key === 'Escape' && setEditMode(null)}
+                placeholder="Board name"
+                autoFocus
+              />
+              <button type="submit" style={styles.smallButton}>Create</button>
+            </form>
+          ) : (
+            <button style={styles.newBoardButton} onClick={() => startEdit({ kind: 'create' })}>
+              + New board
+            </button>
+          )}
+
+          {error && <div style={styles.error}>{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    position: 'relative',
+  },
+  trigger: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    padding: '8px 10px',
+    background: 'rgba(255, 255, 255, 0.7)',
+    border: '1px solid rgba(184, 156, 130, 0.3)',
+    borderRadius: '8px',
+    color: '#5C4D42',
+    fontSize: '14px',
+    fontWeight: 600,
+    cursor: 'pointer',
+    maxWidth: '180px',
+  },
+  triggerLabel: {
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  caret: {
+    fontSize: '10px',
+    color: '#8B7355',
+  },
+  menu: {
+    position: 'absolute',
+    top: 'calc(100% + 8px)',
+    left: 0,
+    minWidth: '240px',
+    padding: '6px 0',
+    background: 'white',
+    border: '1px solid rgba(184, 156, 130, 0.3)',
+    borderRadius: '8px',
+    boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)',
+    zIndex: 1001,
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    padding: '0 6px',
+  },
+  rowActive: {
+    background: 'rgba(212, 175, 55, 0.12)',
+  },
+  boardButton: {
+    flex: 1,
+    padding: '8px',
+    border: 'none',
+    background: 'transparent',
+    textAlign: 'left',
+    fontSize: '13px',
+    color: '#3E3226',
+    cursor: 'pointer',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  iconButton: {
+    padding: '4px 6px',
+    border: 'none',
+    background: 'transparent',
+    color: '#8B7355',
+    fontSize: '12px',
+    cursor: 'pointer',
+  },
+  divider: {
+    height: '1px',
+    background: 'rgba(184, 156, 130, 0.2)',
+    margin: '4px 0',
+  },
+  newBoardButton: {
+    width: '100%',
+    padding: '8px 14px',
+    border: 'none',
+    background: 'transparent',
+    textAlign: 'left',
+    fontSize: '13px',
+    color: '#8B7355',
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+  editRow: {
+    display: 'flex',
+    gap: '6px',
+    padding: '4px 8px',
+  },
+  input: {
+    flex: 1,
+    minWidth: 0,
+    padding: '6px 8px',
+    border: '1px solid rgba(184, 156, 130, 0.4)',
+    borderRadius: '4px',
+    fontSize: '13px',
+  },
+  smallButton: {
+    padding: '4px 10px',
+    background: 'linear-gradient(135deg, #D4AF37 0%, #B8941F 100%)',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '12px',
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+  error: {
+    padding: '4px 14px',
+    fontSize: '12px',
+    color: '#C0392B',
+  },
+};
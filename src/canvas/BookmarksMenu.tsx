@@ -0,0 +1,271 @@
+/**
+ * Bookmarks Menu
+ *
+ * Toolbar dropdown of named viewport locations on the active board. Jumping
+ * to a bookmark animates the viewport there.
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { useReactFlow } from '@xyflow/react';
+import type { ViewportBookmark } from '@/types/card';
+import {
+  addViewportBookmark,
+  deleteViewportBookmark,
+  getViewportBookmarks,
+  renameViewportBookmark,
+} from '@/shared/services/canvasNavigationService';
+
+interface BookmarksMenuProps {
+  boardId: string;
+}
+
+export function BookmarksMenu({ boardId }: BookmarksMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [bookmarks, setBookmarks] = useState<ViewportBookmark[]>([]);
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [nameInput, setNameInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { getViewport, setViewport } = useReactFlow();
+
+  useEffect(() => {
+    const load = () => {
+      getViewportBookmarks(boardId)
+        .then(setBookmarks)
+        .catch(err => console.error('[BookmarksMenu] Failed to load bookmarks:', err));
+    };
+    load();
+    window.addEventListener('nabokov:bookmarks-updated', load);
+    return () => window.removeEventListener('nabokov:bookmarks-updated', load);
+  }, [boardId]);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        close();
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const close = () => {
+    setIsOpen(false);
+    setEditingId(null);
+    setError(null);
+  };
+
+  const startEdit = (id: string | 'new', initialName = '') => {
+    setEditingId(id);
+    setNameInput(initialName);
+    setError(null);
+  };
+
+  const handleGoTo = (bookmark: ViewportBookmark) => {
+    close();
+    setViewport(bookmark.viewport, { duration: 400 });
+  };
+
+  const handleSubmitName = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      if (editingId === 'new') {
+        await addViewportBookmark(nameInput, boardId, getViewport());
+      } else if (editingId) {
+        await renameViewportBookmark(editingId, nameInput);
+      }
+      setEditingId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save bookmark');
+    }
+  };
+
+  const handleDelete = async (bookmarkId: string) => {
+    try {
+      await deleteViewportBookmark(bookmarkId);
+    } catch (err) {
+      console.error('[BookmarksMenu] Failed to delete bookmark:', err);
+    }
+  };
+
+  const nameForm = (placeholder?: string) => (
+    <form style={styles.editRow} onSubmit={handleSubmitName}>
+      <input
+        style={styles.input}
+        value={nameInput}
+        onChange={(e) => setNameInput(e.target.value)}
+        onKeyDown={(e) => {
+          e.stopPropagation();
+          if (e.key === 'Escape') setEditingId(null);
+        }}
+        placeholder={placeholder}
+        autoFocus
+      />
+      <button type="submit" style={styles.smallButton}>Save</button>
+    </form>
+  );
+
+  return (
+    <div ref={containerRef} style={styles.container}>
+      <button
+        style={styles.trigger}
+        onClick={() => (isOpen ? close() : setIsOpen(true))}
+        title="Viewport bookmarks"
+        data-testid="bookmarks-menu-trigger"
+      >
+        <svg width="16" height="16" viewBox="0 0 16 16" fill="none">
+          <path d="M4 2H12V14L8 11L4 14V2Z" stroke="currentColor" strokeWidth="1.5" strokeLinejoin="round" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div style={styles.menu} data-testid="bookmarks-menu">
+          {bookmarks.map(bookmark =>
+            editingId === bookmark.id ? (
+              <React.Fragment key={bookmark.id}>{nameForm()}</React.Fragment>
+            ) : (
+              <div key={bookmark.id} style={styles.row}>
+                <button style={styles.bookmarkButton} onClick={() => handleGoTo(bookmark)}>
+                  {bookmark.name}
+                </button>
+                <button
+                  style={styles.iconButton}
+                  title="Rename bookmark"
+                  onClick={() => startEdit(bookmark.id, bookmark.name)}
+                >
+                  ✎
+                </button>
+                <button style={styles.iconButton} title="Delete bookmark" onClick={() => handleDelete(bookmark.id)}>
+                  ✕
+                </button>
+              </div>
+            )
+          )}
+          {bookmarks.length === 0 && <div style={styles.empty}>No bookmarks on this board</div>}
+
+          <div style={styles.divider} />
+
+          {editingId === 'new' ? (
+            nameForm('Bookmark name')
+          ) : (
+            <button style={styles.addButton} onClick={() => startEdit('new')}>
+              + Bookmark this view
+            </button>
+          )}
+
+          {error && <div style={styles.error}>{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    position: 'relative',
+  },
+  trigger: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    width: '36px',
+    height: '36px',
+    padding: 0,
+    background: 'rgba(255, 255, 255, 0.7)',
+    border: '1px solid rgba(184, 156, 130, 0.3)',
+    borderRadius: '8px',
+    color: '#5C4D42',
+    cursor: 'pointer',
+  },
+  menu: {
+    position: 'absolute',
+    top: 'calc(100% + 8px)',
+    left: '50%',
+    transform: 'translateX(-50%)',
+    minWidth: '240px',
+    padding: '6px 0',
+    background: 'white',
+    border: '1px solid rgba(184, 156, 130, 0.3)',
+    borderRadius: '8px',
+    boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)',
+    zIndex: 1001,
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    padding: '0 6px',
+  },
+  bookmarkButton: {
+    flex: 1,
+    padding: '8px',
+    border: 'none',
+    background: 'transparent',
+    textAlign: 'left',
+    fontSize: '13px',
+    color: '#3E3226',
+    cursor: 'pointer',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  iconButton: {
+    padding: '4px 6px',
+    border: 'none',
+    background: 'transparent',
+    color: '#8B7355',
+    fontSize: '12px',
+    cursor: 'pointer',
+  },
+  empty: {
+    padding: '8px 14px',
+    fontSize: '13px',
+    color: '#8B7355',
+  },
+  divider: {
+    height: '1px',
+    background: 'rgba(184, 156, 130, 0.2)',
+    margin: '4px 0',
+  },
+  addButton: {
+    width: '100%',
+    padding: '8px 14px',
+    border: 'none',
+    background: 'transparent',
+    textAlign: 'left',
+    fontSize: '13px',
+    color: '#8B7355',
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+  editRow: {
+    display: 'flex',
+    gap: '6px',
+    padding: '4px 8px',
+  },
+  input: {
+    flex: 1,
+    minWidth: 0,
+    padding: '6px 8px',
+    border: '1px solid rgba(184, 156, 130, 0.4)',
+    borderRadius: '4px',
+    fontSize: '13px',
+  },
+  smallButton: {
+    padding: '4px 10px',
+    background: 'linear-gradient(135deg, #D4AF37 0%, #B8941F 100%)',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '12px',
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+  error: {
+    padding: '4px 14px',
+    fontSize: '12px',
+    color: '#C0392B',
+  },
+};
@@ -4,6 +4,7 @@ import {
   Background,
   Controls,
   MiniMap,
+  Panel,
   ReactFlowProvider,
   BackgroundVariant,
   useReactFlow,
@@ -11,10 +12,16 @@ import {
 import '@xyflow/react/dist/style.css';
 import './keyboardShortcuts.css';
 import { CardNode } from './CardNode';
+import { GroupNode } from './GroupNode';
+import { GoToCardModal } from './GoToCardModal';
+import { SimilarCardsPanel } from './SimilarCardsPanel';
+import { findSimilarCards, type SimilarityResult } from '@/shared/services/semanticSearchService';
+import { miniMapNodeColor } from './minimapColors';
 import { Toolbar } from './Toolbar';
 import { useCanvasState } from './useCanvasState';
 import { KeyboardHelp } from '@/components/KeyboardHelp';
 import { SettingsPanel } from './SettingsPanel';
+import { PublishCanvasModal } from './PublishCanvasModal';
 import { APISettings } from '@/components/APISettings';
 import { FloatingWindow } from '@/components/FloatingWindow';
 import { EdgeEditModal } from '@/components/EdgeEditModal';
@@ -27,15 +34,39 @@ import {
   mergeShortcutsConfig,
 } from '@/utils/keyboardShortcuts';
 import type { WindowState } from '@/types/window';
-import type { Card } from '@/types/card';
+import type { Card, MiniMapSettings } from '@/types/card';
 import { saveCard, generateId } from '@/utils/storage';
-import { deleteCardPermanently } from '@/shared/services/cardService';
+import { trashCards } from '@/shared/services/cardService';
+import { groupCards, ungroupGroups } from '@/shared/services/groupService';
+import { getActiveBoardId } from '@/shared/services/boardService';
+import { LAYOUT_ALGORITHMS, type LayoutAlgorithm } from '@/shared/services/layoutService';
+import {
+  DEFAULT_MINIMAP_SETTINGS,
+  getMiniMapSettings,
+  saveMiniMapSettings,
+} from '@/shared/services/canvasNavigationService';
 import { createImageCards } from '@/utils/imageUpload';
 import { FilePickerButton } from '@/shared/components/ImageUpload';
 
+const FLASH_DURATION = 2000;
+
+/**
+ * Briefly highlight a node, like expandable links flash in their card
+ */
+function flashNode(nodeId: string): void {
+  const element = document.querySelector(`.react-flow__node[data-id="${CSS.escape(nodeId)}"]`);
+  if (!element) return;
+
+  element.classList.add('nabokov-card-flash');
+  setTimeout(() => {
+    element.classList.remove('nabokov-card-flash');
+  }, FLASH_DURATION);
+}
+
 // Register custom node types
 const nodeTypes = {
   cardNode: CardNode,
+  groupNode: GroupNode,
 };
 
 function CanvasInner() {
@@ -50,23 +81,33 @@ function CanvasInner() {
     stats,
     filters,
     setFilters,
+    semanticResults,
+    semanticError,
     availableDomains,
     availableTags,
+    facetCounts,
     refreshStats,
     connections,
     addConnection,
     removeConnection,
+    undo,
+    redo,
     viewport,
     onViewportChange,
     shouldFitView,
+    boards,
+    activeBoardId,
+    switchBoard,
+    runLayout,
   } = useCanvasState();
 
-  const { fitView, zoomIn, zoomOut, getNodes } = useReactFlow();
+  const { fitView, zoomIn, zoomOut, getNodes, getNode, getViewport, setViewport, setCenter, getZoom } = useReactFlow();
   const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad|iPod/.test(navigator.platform);
   const multiSelectionKeyCode = isMac ? 'Meta' : 'Control';
   const [showKeyboardHelp, setShowKeyboardHelp] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [showAPISettings, setShowAPISettings] = useState(false);
+  const [showPublish, setShowPublish] = useState(false);
   const [shortcuts, setShortcuts] = useState<KeyboardShortcut[]>([]);
   const toolbarRef = useRef<{ focusSearch: () => void; toggleFilters: () => void }>(null);
   const [feedbackMessage, setFeedbackMessage] = useState<string | null>(null);
@@ -77,26 +118,17 @@ function CanvasInner() {
   const [isDraggingOver, setIsDraggingOver] = useState(false);
   const [showEdgeModal, setShowEdgeModal] = useState(false);
   const [pendingConnection, setPendingConnection] = useState<{ source: string; target: string } | null>(null);
-  const [showMiniMap, setShowMiniMap] = useState(() =>
-    typeof window !== 'undefined' ? window.innerWidth >= 640 : true
+  const [isCompact, setIsCompact] = useState(() =>
+    typeof window !== 'undefined' ? window.innerWidth < 640 : false
   );
-
-  useEffect(() => {
-    const styleId = 'canvas-minimap-pointer-events';
-    if (document.getElementById(styleId)) {
-      return;
-    }
-
-    const styleEl = document.createElement('style');
-    styleEl.id = styleId;
-    styleEl.textContent = `
-      .react-flow__minimap,
-      .react-flow__minimap * {
-        pointer-events: none !important;
-      }
-    `;
-    document.head.appendChild(styleEl);
-  }, []);
+  const [miniMapSettings, setMiniMapSettings] = useState<MiniMapSettings>(DEFAULT_MINIMAP_SETTINGS);
+  const miniMapSettingsLoadedRef = useRef(false);
+  const [showGoToCard, setShowGoToCard] = useState(false);
+  const [similarSearch, setSimilarSearch] = useState<{
+    card: Card;
+    results: SimilarityResult[] | null;
+    error: string | null;
+  } | null>(null);
 
   useEffect(() => {
     if (typeof window === 'undefined') {
@@ -104,7 +136,7 @@ function CanvasInner() {
     }
 
     const handleResize = () => {
-      setShowMiniMap(window.innerWidth >= 640);
+      setIsCompact(window.innerWidth < 640);
     };
 
     handleResize();
@@ -112,6 +144,26 @@ function CanvasInner() {
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
+  // Minimap visibility and coloring persist with the canvas state
+  useEffect(() => {
+    getMiniMapSettings()
+      .then(settings => {
+        setMiniMapSettings(settings);
+        miniMapSettingsLoadedRef.current = true;
+      })
+      .catch(err => console.error('[Canvas] Failed to load minimap settings:', err));
+  }, []);
+
+  useEffect(() => {
+    if (!miniMapSettingsLoadedRef.current) return;
+    saveMiniMapSettings(miniMapSettings).catch(err =>
+      console.error('[Canvas] Failed to save minimap settings:', err)
+    );
+  }, [miniMapSettings]);
+
+  // The minimap stays hidden on compact viewports to avoid overlapping card controls
+  const showMiniMap = miniMapSettings.visible && !isCompact;
+
   useEffect(() => {
     return () => {
       if (feedbackTimeoutRef.current) {
@@ -151,6 +203,20 @@ function CanvasInner() {
     }
   }, [shouldFitView, isLoading, fitView]);
 
+  // defaultViewport only applies on mount, so move to the saved viewport after a board switch
+  const shownBoardIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (isLoading) return;
+    if (shownBoardIdRef.current !== null && shownBoardIdRef.current !== activeBoardId) {
+      if (shouldFitView) {
+        fitView({ padding: 0.2, duration: 400 });
+      } else {
+        setViewport(viewport, { duration: 300 });
+      }
+    }
+    shownBoardIdRef.current = activeBoardId;
+  }, [activeBoardId, isLoading]);
+
   const initializeShortcuts = async () => {
     try {
       const userConfig = await loadShortcutsConfig();
@@ -190,6 +256,8 @@ function CanvasInner() {
           setShowKeyboardHelp(false);
         } else if (showSettings) {
           setShowSettings(false);
+        } else if (showPublish) {
+          setShowPublish(false);
         } else if (filters.searchQuery) {
           setFilters({ ...filters, searchQuery: '' });
           showFeedback('Search cleared');
@@ -233,12 +301,30 @@ function CanvasInner() {
       toggleConnectionMode: () => {
         handleToggleConnectionMode();
       },
+      goToCard: () => {
+        setShowGoToCard(true);
+      },
+      toggleMiniMap: () => {
+        setMiniMapSettings(settings => ({ ...settings, visible: !settings.visible }));
+      },
       deleteSelection: () => {
         void deleteSelectedCards();
       },
       deleteSelectionAlt: () => {
         void deleteSelectedCards();
       },
+      groupSelection: () => {
+        void groupSelection();
+      },
+      ungroupSelection: () => {
+        void ungroupSelection();
+      },
+      undo: () => {
+        void handleUndo();
+      },
+      redo: () => {
+        void handleRedo();
+      },
     };
 
     return handlers[id] || (() => console.log(`Unhandled shortcut: ${id}`));
@@ -272,20 +358,28 @@ function CanvasInner() {
   }, []);
 
   const deleteSelectedCards = useCallback(async () => {
-    const selectedNodes = getNodes().filter(node => node.selected);
-    if (selectedNodes.length === 0) {
+    const selectedNodes = getNodes().filter(node => node.selected && node.type === 'cardNode');
+    const selectedGroups = getNodes().filter(node => node.selected && node.type === 'groupNode');
+    if (selectedNodes.length === 0 && selectedGroups.length === 0) {
       return;
     }
 
     try {
-      for (const node of selectedNodes) {
-        await deleteCardPermanently(node.id);
+      // Deleting a frame ungroups it; its cards are only trashed when selected too
+      if (selectedGroups.length > 0) {
+        await ungroupGroups(selectedGroups.map(node => node.id));
       }
+      if (selectedNodes.length === 0) {
+        showFeedback(selectedGroups.length === 1 ? 'Group removed' : `${selectedGroups.length} groups removed`);
+        return;
+      }
+
+      await trashCards(selectedNodes.map(node => node.id));
       window.dispatchEvent(new CustomEvent('nabokov:cards-updated'));
       showFeedback(
         selectedNodes.length === 1
-          ? 'Card deleted'
-          : `${selectedNodes.length} cards deleted`
+          ? 'Card moved to trash'
+          : `${selectedNodes.length} cards moved to trash`
       );
     } catch (error) {
       console.error('[Canvas] Failed to delete cards:', error);
@@ -293,6 +387,153 @@ function CanvasInner() {
     }
   }, [getNodes, showFeedback]);
 
+  const groupSelection = useCallback(async () => {
+    const selectedNodes = getNodes().filter(node => node.selected && node.type === 'cardNode');
+    if (selectedNodes.length === 0) {
+      showFeedback('Select cards to group');
+      return;
+    }
+
+    try {
+      await groupCards(
+        selectedNodes.map(node => ({
+          cardId: node.id,
+          rect: {
+            x: node.position.x,
+            y: node.position.y,
+            width: node.measured?.width ?? Number(node.style?.width ?? 320),
+            height: node.measured?.height ?? Number(node.style?.height ?? 240),
+          },
+        })),
+        // Read from storage: shortcut handlers keep the first render's state
+        { boardId: await getActiveBoardId() }
+      );
+      showFeedback(selectedNodes.length === 1 ? 'Grouped 1 card' : `Grouped ${selectedNodes.length} cards`);
+    } catch (error) {
+      console.error('[Canvas] Failed to group cards:', error);
+      showFeedback('Failed to group cards');
+    }
+  }, [getNodes, showFeedback]);
+
+  /**
+   * Remove the selected frames, or the frames of the selected cards
+   */
+  const ungroupSelection = useCallback(async () => {
+    const selectedNodes = getNodes().filter(node => node.selected);
+    const groupIds = new Set<string>();
+    selectedNodes.forEach(node => {
+      if (node.type === 'groupNode') {
+        groupIds.add(node.id);
+      } else {
+        const groupId = (node.data.card as Card | undefined)?.groupId;
+        if (groupId) groupIds.add(groupId);
+      }
+    });
+    if (groupIds.size === 0) {
+      showFeedback('No group selected');
+      return;
+    }
+
+    try {
+      await ungroupGroups([...groupIds]);
+      showFeedback(groupIds.size === 1 ? 'Ungrouped' : `Removed ${groupIds.size} groups`);
+    } catch (error) {
+      console.error('[Canvas] Failed to ungroup:', error);
+      showFeedback('Failed to ungroup');
+    }
+  }, [getNodes, showFeedback]);
+
+  /**
+   * Lay out the selected cards when two or more are selected, otherwise
+   * every visible card. Radial layouts center on the first selected card.
+   */
+  const handleRunLayout = useCallback(async (algorithm: LayoutAlgorithm) => {
+    const selectedIds = getNodes()
+      .filter(node => node.selected && node.type === 'cardNode')
+      .map(node => node.id);
+    if (algorithm === 'radial' && selectedIds.length === 0) {
+      showFeedback('Select a card to center the radial layout on');
+      return;
+    }
+
+    try {
+      const count = await runLayout(algorithm, {
+        cardIds: selectedIds.length > 1 ? selectedIds : undefined,
+        rootId: selectedIds[0],
+      });
+      showFeedback(`${LAYOUT_ALGORITHMS[algorithm].label} layout: ${count} card${count === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('[Canvas] Failed to run layout:', error);
+      showFeedback('Failed to arrange cards');
+    }
+  }, [getNodes, runLayout, showFeedback]);
+
+  /**
+   * Pan and zoom to a card and flash it. Cards hidden in a collapsed frame
+   * are shown through the frame.
+   */
+  const goToCard = useCallback((cardId: string) => {
+    const node = getNode(cardId);
+    if (!node) {
+      showFeedback('Card is not on this board');
+      return;
+    }
+
+    const groupId = (node.data.card as Card | undefined)?.groupId;
+    const target = (node.hidden && groupId && getNode(groupId)) || node;
+    const width = target.measured?.width ?? Number(target.style?.width ?? 320);
+    const height = target.measured?.height ?? Number(target.style?.height ?? 240);
+
+    setCenter(target.position.x + width / 2, target.position.y + height / 2, {
+      zoom: Math.max(getZoom(), 1),
+      duration: 500,
+    });
+    setTimeout(() => flashNode(target.id), 500);
+  }, [getNode, getZoom, setCenter, showFeedback]);
+
+  // "Find Similar Cards" from a card's menu
+  useEffect(() => {
+    const handleFindSimilar = (event: Event) => {
+      const { cardId } = (event as CustomEvent<{ cardId: string }>).detail;
+      const card = cards.find(c => c.id === cardId);
+      if (!card) return;
+
+      setSimilarSearch({ card, results: null, error: null });
+      findSimilarCards(card, cards)
+        .then(results => {
+          setSimilarSearch(current => (current?.card.id === cardId ? { ...current, results } : current));
+        })
+        .catch(err => {
+          console.error('[Canvas] Failed to find similar cards:', err);
+          const message = err instanceof Error ? err.message : 'Failed to find similar cards';
+          setSimilarSearch(current => (current?.card.id === cardId ? { ...current, error: message } : current));
+        });
+    };
+
+    window.addEventListener('nabokov:find-similar', handleFindSimilar);
+    return () => window.removeEventListener('nabokov:find-similar', handleFindSimilar);
+  }, [cards]);
+
+  const handleUndo = useCallback(async () => {
+    try {
+      const entry = await undo();
+      showFeedback(entry ? `Undid: ${entry.label}` : 'Nothing to undo');
+    } catch (error) {
+      console.error('[Canvas] Failed to undo:', error);
+      showFeedback('Failed to undo');
+    }
+  }, [undo, showFeedback]);
+
+  const handleRedo = useCallback(async () => {
+    try {
+      const entry = await redo();
+      showFeedback(entry ? `Redid: ${entry.label}` : 'Nothing to redo');
+    } catch (error) {
+      console.error('[Canvas] Failed to redo:', error);
+      showFeedback('Failed to redo');
+    }
+  }, [redo, showFeedback]);
+
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
       const selectedNodes = getNodes().filter(node => node.selected);
@@ -401,7 +642,7 @@ function CanvasInner() {
   };
 
   const handleNodeClick = async (_event: React.MouseEvent, node: any) => {
-    if (!connectionMode) return;
+    if (!connectionMode || node.type !== 'cardNode') return;
 
     if (!selectedSource) {
       // First click - select source
@@ -581,13 +822,26 @@ function CanvasInner() {
         availableTags={availableTags}
         resultCount={filteredCards.length}
         totalCount={cards.length}
+        cards={cards}
+        connections={connections}
+        facetCounts={facetCounts}
+        semanticError={semanticError}
         onSettingsClick={handleOpenSettings}
+        onPublishClick={() => setShowPublish(true)}
         onAPISettingsClick={handleOpenAPISettings}
         onCreateNote={handleCreateNote}
         onToggleConnectionMode={handleToggleConnectionMode}
+        onGroupSelection={() => void groupSelection()}
+        onRunLayout={(algorithm) => void handleRunLayout(algorithm)}
+        showMiniMap={showMiniMap}
+        onToggleMiniMap={() => setMiniMapSettings(settings => ({ ...settings, visible: !settings.visible }))}
+        onGoToCard={() => setShowGoToCard(true)}
         onOpenSidePanel={handleOpenSidePanel}
         onUploadImages={handleFilesSelected}
         connectionMode={connectionMode}
+        boards={boards}
+        activeBoardId={activeBoardId}
+        onSwitchBoard={switchBoard}
       />
 
       {/* Keyboard shortcuts feedback */}
@@ -597,6 +851,34 @@ function CanvasInner() {
         </div>
       )}
 
+      {/* Cmd+P go to card */}
+      <GoToCardModal
+        isOpen={showGoToCard}
+        cards={filteredCards}
+        onSelect={goToCard}
+        onClose={() => setShowGoToCard(false)}
+      />
+
+      {/* Ranked semantic matches */}
+      {similarSearch ? (
+        <SimilarCardsPanel
+          title={`Similar to "${similarSearch.card.metadata.title}"`}
+          results={similarSearch.results}
+          error={similarSearch.error}
+          onSelect={goToCard}
+          onClose={() => setSimilarSearch(null)}
+        />
+      ) : (
+        filters.semantic && filters.searchQuery.trim() && (
+          <SimilarCardsPanel
+            title={`Matches for "${filters.searchQuery.trim()}"`}
+            results={semanticResults}
+            error={semanticError}
+            onSelect={goToCard}
+          />
+        )
+      )}
+
       {/* Keyboard help overlay */}
       <KeyboardHelp
         shortcuts={shortcuts}
@@ -610,6 +892,20 @@ function CanvasInner() {
         onClose={() => setShowSettings(false)}
         stats={stats}
         onRefreshStats={refreshStats}
+        cards={cards}
+        filteredCards={filteredCards}
+        connections={connections}
+        nodes={nodes}
+      />
+
+      {/* Publish read-only share link */}
+      <PublishCanvasModal
+        isOpen={showPublish}
+        onClose={() => setShowPublish(false)}
+        cards={filteredCards}
+        connections={connections}
+        nodes={nodes}
+        viewport={showPublish ? getViewport() : viewport}
       />
 
       {/* API Settings */}
@@ -625,6 +921,7 @@ function CanvasInner() {
         defaultViewport={viewport}
         multiSelectionKeyCode={multiSelectionKeyCode}
         onNodeDoubleClick={(event, node) => {
+          if (node.type !== 'cardNode') return;
           event.preventDefault();
           event.stopPropagation();
           window.dispatchEvent(new CustomEvent('nabokov:card-edit-request', { detail: { cardId: node.id } }));
@@ -652,24 +949,40 @@ function CanvasInner() {
           }}
         />
 
-        {/* MiniMap stays hidden on compact viewports to avoid overlapping card controls */}
+        {/* Minimap colored by domain or first tag; drag or scroll it to navigate */}
         {showMiniMap && (
-          <MiniMap
-            nodeStrokeColor={() => '#8B7355'}
-            nodeColor={() => '#F2EBE1'}
-            nodeBorderRadius={8}
-            position="top-left"
-            pannable={false}
-            zoomable={false}
-            style={{
-              width: 140,
-              height: 100,
-              background: 'rgba(250, 247, 242, 0.9)',
-              border: '1px solid rgba(184, 156, 130, 0.3)',
-              borderRadius: '8px',
-              pointerEvents: 'none',
-            }}
-          />
+          <>
+            <MiniMap
+              nodeStrokeColor={() => '#8B7355'}
+              nodeColor={(node) => miniMapNodeColor(node, miniMapSettings.colorBy)}
+              nodeBorderRadius={8}
+              position="top-left"
+              pannable
+              zoomable
+              style={{
+                width: 200,
+                height: 140,
+                background: 'rgba(250, 247, 242, 0.9)',
+                border: '1px solid rgba(184, 156, 130, 0.3)',
+                borderRadius: '8px',
+              }}
+              data-testid="canvas-minimap"
+            />
+            <Panel position="top-left" style={styles.miniMapLegend}>
+              <button
+                style={styles.miniMapColorButton}
+                onClick={() =>
+                  setMiniMapSettings(settings => ({
+                    ...settings,
+                    colorBy: settings.colorBy === 'domain' ? 'tag' : 'domain',
+                  }))
+                }
+                title="Switch minimap coloring"
+              >
+                Colored by {miniMapSettings.colorBy}
+              </button>
+            </Panel>
+          </>
         )}
 
         {/* Zoom and fit view controls */}
@@ -930,6 +1243,18 @@ const styles: Record<string, React.CSSProperties> = {
     fontSize: '14px',
     color: '#8B7355',
   },
+  miniMapLegend: {
+    marginTop: '162px',
+  },
+  miniMapColorButton: {
+    padding: '3px 8px',
+    background: 'rgba(250, 247, 242, 0.95)',
+    border: '1px solid rgba(184, 156, 130, 0.3)',
+    borderRadius: '6px',
+    fontSize: '11px',
+    color: '#8B7355',
+    cursor: 'pointer',
+  },
   feedbackToast: {
     position: 'fixed',
     bottom: '32px',
@@ -5,7 +5,7 @@ import DOMPurify from 'isomorphic-dompurify';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { windowManager } from '@/services/windowManager';
-import { saveCard } from '@/utils/storage';
+import { saveCard, getCards } from '@/utils/storage';
 import { ContextInputModal } from '@/components/ContextInputModal';
 import { Toast, ToastType } from '@/components/Toast';
 import { cardGenerationService } from '@/services/cardGenerationService';
@@ -16,12 +16,25 @@ import type { BeautificationMode } from '@/types/card';
 import { useLLMHyperlinks } from './useLLMHyperlinks';
 import { GenerateChildModal } from '@/components/GenerateChildModal';
 import { stashCard } from '@/sidepanel/stashService';
+import { recordHistory, cardChange } from '@/shared/services/historyService';
+import { recordRevision } from '@/shared/services/revisionService';
 import { FillInModal } from '@/components/FillInModal';
+import { RevisionHistoryModal } from '@/components/RevisionHistoryModal';
+import { BoardPickerModal } from '@/components/BoardPickerModal';
+import {
+  DEFAULT_BOARD_ID,
+  addCardsToBoard,
+  getActiveBoardId,
+  moveCardsToBoard,
+  removeCardsFromBoard,
+} from '@/shared/services/boardService';
 import { getConnectionCount } from '@/services/connectionContextService';
 import type { FillInStrategy } from '@/types/card';
 import { useButtons } from './useButtons';
 import { ButtonSettings } from '@/components/ButtonSettings';
 import { OverflowMenu } from '@/components/OverflowMenu';
+import { SearchSnippet } from '@/shared/components/SearchSnippet';
+import type { SearchSnippet as SearchSnippetData } from '@/shared/services/searchIndexService';
 import { useFontSize } from '@/shared/hooks/useFontSize';
 
 // Add CSS animation for skeleton pulsing
@@ -40,11 +53,16 @@ if (typeof document !== 'undefined' && !document.getElementById('skeleton-animat
 interface CardNodeProps {
   data: {
     card: Card;
+    /** Render without editing, actions or storage access (share viewer) */
+    readOnly?: boolean;
+    /** Excerpt matching the current canvas search */
+    searchSnippet?: SearchSnippetData | null;
   };
 }
 
 export const CardNode = memo(({ data }: CardNodeProps) => {
   const card = data?.card;
+  const readOnly = data?.readOnly ?? false;
   const nodeId = useNodeId();
 
   // Get current node dimensions from React Flow store
@@ -66,6 +84,8 @@ export const CardNode = memo(({ data }: CardNodeProps) => {
   const [showBeautifyMenu, setShowBeautifyMenu] = useState(false);
   const [isBeautifying, setIsBeautifying] = useState(false);
   const [showFillInModal, setShowFillInModal] = useState(false);
+  const [showRevisionHistory, setShowRevisionHistory] = useState(false);
+  const [boardPicker, setBoardPicker] = useState<'move' | 'add' | null>(null);
   const [connectionCount, setConnectionCount] = useState(0);
   const [allCards, setAllCards] = useState<Card[]>([]);
   const [showButtonSettings, setShowButtonSettings] = useState(false);
@@ -109,6 +129,10 @@ export const CardNode = memo(({ data }: CardNodeProps) => {
 
   // Load connection count for Fill-In feature
   useEffect(() => {
+    if (readOnly) {
+      return;
+    }
+
     async function loadConnectionCount() {
       try {
         const count = await getConnectionCount(card.id);
@@ -127,7 +151,7 @@ export const CardNode = memo(({ data }: CardNodeProps) => {
     return () => {
       window.removeEventListener('nabokov:cards-updated', handleConnectionUpdate);
     };
-  }, [card.id]);
+  }, [card.id, readOnly]);
 
   useEffect(() => {
     if (!showBeautifyMenu) {
@@ -219,6 +243,7 @@ export const CardNode = memo(({ data }: CardNodeProps) => {
       };
 
       await saveCard(updatedCard);
+      await recordHistory(card.collapsed ? 'Expand card' : 'Collapse card', [cardChange(card, updatedCard)]);
 
       // Dispatch event to refresh cards
       window.dispatchEvent(new CustomEvent('nabokov:cards-updated'));
@@ -246,8 +271,7 @@ export const CardNode = memo(({ data }: CardNodeProps) => {
 
     try {
       // Load all cards from storage
-      const result = await chrome.storage.local.get('cards');
-      const cards: Card[] = result.cards || [];
+      const cards = await getCards();
       setAllCards(cards);
       setShowFillInModal(true);
     } catch (error) {
@@ -291,6 +315,8 @@ export const CardNode = memo(({ data }: CardNodeProps) => {
       };
 
       await saveCard(updatedCard);
+      await recordHistory('Fill in card', [cardChange(card, updatedCard)]);
+      await recordRevision(updatedCard, 'fill-in', 'ai', card);
       window.dispatchEvent(new CustomEvent('nabokov:cards-updated'));
 
       setToast({ message: `Card filled in using ${strategy} strategy`, type: 'success' });
@@ -384,6 +410,10 @@ export const CardNode = memo(({ data }: CardNodeProps) => {
   };
 
   const openEditMode = useCallback(() => {
+    if (readOnly) {
+      return;
+    }
+
     const tempDiv = document.createElement('div');
     tempDiv.innerHTML = sanitizedContent;
 
@@ -398,7 +428,7 @@ export const CardNode = memo(({ data }: CardNodeProps) => {
     setEditContent(plainText);
     setEditTitle(card.metadata.title);
     setIsEditing(true);
-  }, [card.metadata.title, sanitizedContent]);
+  }, [card.metadata.title, sanitizedContent, readOnly]);
 
   const handleDoubleClick = (e: React.MouseEvent) => {
     e.preventDefault();
@@ -442,6 +472,8 @@ export const CardNode = memo(({ data }: CardNodeProps) => {
       };
 
       await saveCard(updatedCard);
+      await recordHistory('Edit card', [cardChange(card, updatedCard)]);
+      await recordRevision(updatedCard, 'edit', 'user', card);
       setIsEditing(false);
 
       // Dispatch event to refresh cards
@@ -558,6 +590,34 @@ export const CardNode = memo(({ data }: CardNodeProps) => {
     setSelectedButton(null);
   };
 
+  const handleBoardPicked = async (boardId: string) => {
+    const mode = boardPicker;
+    setBoardPicker(null);
+    try {
+      if (mode === 'move') {
+        await moveCardsToBoard([card.id], await getActiveBoardId(), boardId);
+        setToast({ message: 'Card moved to board', type: 'success' });
+      } else {
+        await addCardsToBoard([card.id], boardId);
+        setToast({ message: 'Card added to board', type: 'success' });
+      }
+    } catch (error) {
+      console.error('[CardNode] Error updating card boards:', error);
+      setToast({ message: error instanceof Error ? error.message : 'Failed to update boards', type: 'error' });
+    }
+    setTimeout(() => setToast(null), 3000);
+  };
+
+  const handleRemoveFromBoard = async () => {
+    try {
+      await removeCardsFromBoard([card.id], await getActiveBoardId());
+    } catch (error) {
+      console.error('[CardNode] Error removing card from board:', error);
+      setToast({ message: error instanceof Error ? error.message : 'Failed to update boards', type: 'error' });
+      setTimeout(() => setToast(null), 3000);
+    }
+  };
+
   const handleToggleStar = async () => {
     try {
       const updatedCard: Card = {
@@ -569,6 +629,7 @@ export const CardNode = memo(({ data }: CardNodeProps) => {
       };
 
       await saveCard(updatedCard);
+      await recordHistory(card.starred ? 'Unstar card' : 'Star card', [cardChange(card, updatedCard)]);
       window.dispatchEvent(new CustomEvent('nabokov:cards-updated'));
     } catch (error) {
       console.error('[CardNode] Error toggling star:', error);
@@ -597,6 +658,7 @@ export const CardNode = memo(({ data }: CardNodeProps) => {
         };
 
         await saveCard(updatedCard);
+        await recordHistory('Add tag', [cardChange(card, updatedCard)]);
         window.dispatchEvent(new CustomEvent('nabokov:cards-updated'));
         setTagInput('');
       } catch (error) {
@@ -620,6 +682,7 @@ export const CardNode = memo(({ data }: CardNodeProps) => {
         };
 
         await saveCard(updatedCard);
+        await recordHistory('Remove tag', [cardChange(card, updatedCard)]);
         window.dispatchEvent(new CustomEvent('nabokov:cards-updated'));
       } catch (error) {
         console.error('[CardNode] Error removing tag:', error);
@@ -725,7 +788,7 @@ export const CardNode = memo(({ data }: CardNodeProps) => {
       data-card-id={card.id}
     >
       {/* Resize Handle - bottom-right corner */}
-      {!card.collapsed && (
+      {!card.collapsed && !readOnly && (
         <NodeResizer
           minWidth={200}
           minHeight={150}
@@ -766,32 +829,43 @@ export const CardNode = memo(({ data }: CardNodeProps) => {
               ⭐
             </span>
           )}
-          <button
-            onClick={handleToggleCollapse}
-            style={styles.collapseButton}
-            title={card.collapsed ? 'Expand card' : 'Collapse card'}
-            data-testid="collapse-btn"
-          >
-            {card.collapsed ? '▼' : '▲'}
-          </button>
+          {!readOnly && (
+            <button
+              onClick={handleToggleCollapse}
+              style={styles.collapseButton}
+              title={card.collapsed ? 'Expand card' : 'Collapse card'}
+              data-testid="collapse-btn"
+            >
+              {card.collapsed ? '▼' : '▲'}
+            </button>
+          )}
         </div>
       </div>
 
       {/* Overflow Menu */}
-      <OverflowMenu
-        card={card}
-        isOpen={showOverflowMenu}
-        onClose={() => setShowOverflowMenu(false)}
-        onBeautify={() => {
-          startBeautification('organize-content', { openMenu: true });
-        }}
-        onFillIn={(e) => handleOpenFillIn(e as React.MouseEvent)}
-        onOpenWindow={(e) => handleOpenWindow(e as React.MouseEvent)}
-        onStash={(e) => handleStash(e as React.MouseEvent)}
-        onToggleStar={handleToggleStar}
-        onButtonSettings={() => setShowButtonSettings(true)}
-        connectionCount={connectionCount}
-      />
+      {!readOnly && (
+        <OverflowMenu
+          card={card}
+          isOpen={showOverflowMenu}
+          onClose={() => setShowOverflowMenu(false)}
+          onBeautify={() => {
+            startBeautification('organize-content', { openMenu: true });
+          }}
+          onFillIn={(e) => handleOpenFillIn(e as React.MouseEvent)}
+          onOpenWindow={(e) => handleOpenWindow(e as React.MouseEvent)}
+          onStash={(e) => handleStash(e as React.MouseEvent)}
+          onToggleStar={handleToggleStar}
+          onButtonSettings={() => setShowButtonSettings(true)}
+          onShowHistory={() => setShowRevisionHistory(true)}
+          onFindSimilar={() => {
+            window.dispatchEvent(new CustomEvent('nabokov:find-similar', { detail: { cardId: card.id } }));
+          }}
+          onMoveToBoard={() => setBoardPicker('move')}
+          onAddToBoard={() => setBoardPicker('add')}
+          onRemoveFromBoard={(card.boardIds?.length ?? 0) > 1 ? handleRemoveFromBoard : undefined}
+          connectionCount={connectionCount}
+        />
+      )}
 
       {/* Title - Single line */}
       <div style={{
@@ -801,6 +875,11 @@ export const CardNode = memo(({ data }: CardNodeProps) => {
         {truncateText(card.metadata.title, 100)}
       </div>
 
+      {/* Where the current search matched */}
+      {data.searchSnippet && !card.collapsed && (
+        <SearchSnippet snippet={data.searchSnippet} style={styles.searchSnippet} />
+      )}
+
       {/* Content - Only shown when not collapsed */}
       {!card.collapsed && (
         <>
@@ -886,42 +965,46 @@ export const CardNode = memo(({ data }: CardNodeProps) => {
               {(card.tags ?? []).map(tag => (
                 <span key={tag} style={styles.tagPill}>
                   #{tag}
-                  <button
-                    type="button"
-                    style={styles.tagRemoveButton}
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      void handleRemoveTag(tag);
-                    }}
-                    aria-label={`Remove tag ${tag}`}
-                  >
-                    ×
-                  </button>
+                  {!readOnly && (
+                    <button
+                      type="button"
+                      style={styles.tagRemoveButton}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        void handleRemoveTag(tag);
+                      }}
+                      aria-label={`Remove tag ${tag}`}
+                    >
+                      ×
+                    </button>
+                  )}
                 </span>
               ))}
             </div>
           )}
 
           {/* Tag input */}
-          <div style={styles.tagInputRow}>
-            <input
-              value={tagInput}
-              onChange={(e) => setTagInput(e.target.value)}
-              onKeyDown={async (e) => {
-                if (e.key === 'Enter') {
-                  e.preventDefault();
-                  e.stopPropagation();
-                  await handleAddTag(tagInput);
-                }
-              }}
-              placeholder="Add tag"
-              aria-label="Add tag"
-              style={styles.tagInput}
-            />
-          </div>
+          {!readOnly && (
+            <div style={styles.tagInputRow}>
+              <input
+                value={tagInput}
+                onChange={(e) => setTagInput(e.target.value)}
+                onKeyDown={async (e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    await handleAddTag(tagInput);
+                  }
+                }}
+                placeholder="Add tag"
+                aria-label="Add tag"
+                style={styles.tagInput}
+              />
+            </div>
+          )}
 
           {/* Enhanced Footer with visible action buttons */}
-          {card.cardType !== 'image' && card.content && !card.isGenerating && (
+          {!readOnly && card.cardType !== 'image' && card.content && !card.isGenerating && (
             <div style={styles.footer}>
               <div style={styles.footerLeft}>
                 {/* Chat Button */}
@@ -1074,7 +1157,7 @@ export const CardNode = memo(({ data }: CardNodeProps) => {
       )}
 
       {/* Generate Child Modal (LLM-Generated Hyperlinks) */}
-      {llmHyperlinks.showGenerateModal && llmHyperlinks.currentSelection && (
+      {!readOnly && llmHyperlinks.showGenerateModal && llmHyperlinks.currentSelection && (
         <GenerateChildModal
           selectedText={llmHyperlinks.currentSelection.text}
           generationType={llmHyperlinks.generationType}
@@ -1098,6 +1181,25 @@ export const CardNode = memo(({ data }: CardNodeProps) => {
         />
       )}
 
+      {/* Board Picker (move / also show on) */}
+      {boardPicker && (
+        <BoardPickerModal
+          title={boardPicker === 'move' ? 'Move card to board' : 'Also show card on board'}
+          excludeBoardIds={card.boardIds?.length ? card.boardIds : [DEFAULT_BOARD_ID]}
+          onSelect={handleBoardPicked}
+          onCancel={() => setBoardPicker(null)}
+        />
+      )}
+
+      {/* Revision History Modal */}
+      {showRevisionHistory && (
+        <RevisionHistoryModal
+          card={card}
+          onClose={() => setShowRevisionHistory(false)}
+          onRestored={() => setToast({ message: 'Revision restored', type: 'success' })}
+        />
+      )}
+
       {/* Button Settings Modal */}
       {showButtonSettings && (
         <ButtonSettings
@@ -1213,6 +1315,9 @@ function getStyles(fontSizeValues: import('@/types/settings').FontSizeValues): R
   titleCollapsed: {
     fontSize: '13px',
   },
+  searchSnippet: {
+    margin: '0 12px 4px',
+  },
   content: {
     flex: 1,
     overflowY: 'auto',
@@ -0,0 +1,201 @@
+/**
+ * Go to Card
+ *
+ * Cmd+P quick-open over the cards shown on the canvas. Matches titles,
+ * domains and tags fuzzily; Enter jumps to the highlighted card.
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import type { Card } from '@/types/card';
+import { fuzzyFilter } from '@/utils/fuzzyMatch';
+
+const MAX_RESULTS = 50;
+
+interface GoToCardModalProps {
+  isOpen: boolean;
+  cards: Card[];
+  onSelect: (cardId: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Text with the matched characters in bold
+ */
+function Highlighted({ text, indices }: { text: string; indices: number[] }) {
+  const matched = new Set(indices);
+  return (
+    <>
+      {Array.from(text).map((char, i) =>
+        matched.has(i) ? <mark key={i} style={styles.mark}>{char}</mark> : <React.Fragment key={i}>{char}</React.Fragment>
+      )}
+    </>
+  );
+}
+
+export function GoToCardModal({ isOpen, cards, onSelect, onClose }: GoToCardModalProps) {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('');
+      setActiveIndex(0);
+    }
+  }, [isOpen]);
+
+  const results = useMemo(() => {
+    if (!query.trim()) {
+      // Most recently edited cards first
+      return [...cards]
+        .sort((a, b) => b.updatedAt - a.updatedAt)
+        .slice(0, MAX_RESULTS)
+        .map(card => ({ item: card, text: card.metadata.title, match: { score: 0, indices: [] as number[] } }));
+    }
+    return fuzzyFilter(query, cards, card => [
+      card.metadata.title,
+      card.metadata.domain,
+      ...card.tags.map(tag => `#${tag}`),
+    ]).slice(0, MAX_RESULTS);
+  }, [query, cards]);
+
+  if (!isOpen) return null;
+
+  const choose = (index: number) => {
+    const result = results[index];
+    if (!result) return;
+    onClose();
+    onSelect(result.item.id);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation();
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => Math.min(index + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      choose(activeIndex);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div style={styles.backdrop} onClick={onClose}>
+      <div style={styles.modal} onClick={(e) => e.stopPropagation()} data-testid="go-to-card-modal">
+        <input
+          style={styles.input}
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder="Go to card..."
+          aria-label="Go to card"
+          autoFocus
+        />
+
+        <div style={styles.results} role="listbox">
+          {results.map(({ item, text, match }, index) => (
+            <button
+              key={item.id}
+              style={{ ...styles.result, ...(index === activeIndex ? styles.resultActive : {}) }}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => choose(index)}
+              role="option"
+              aria-selected={index === activeIndex}
+            >
+              <span style={styles.title}>
+                {text === item.metadata.title ? <Highlighted text={text} indices={match.indices} /> : item.metadata.title}
+              </span>
+              <span style={styles.meta}>
+                {text === item.metadata.title ? item.metadata.domain : <Highlighted text={text} indices={match.indices} />}
+              </span>
+            </button>
+          ))}
+          {results.length === 0 && <div style={styles.empty}>No matching cards</div>}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  backdrop: {
+    position: 'fixed',
+    inset: 0,
+    display: 'flex',
+    justifyContent: 'center',
+    alignItems: 'flex-start',
+    paddingTop: '12vh',
+    background: 'rgba(62, 50, 38, 0.3)',
+    zIndex: 10000,
+  },
+  modal: {
+    width: '90%',
+    maxWidth: '560px',
+    background: '#FAF7F2',
+    border: '1px solid rgba(184, 156, 130, 0.4)',
+    borderRadius: '12px',
+    boxShadow: '0 20px 60px rgba(0, 0, 0, 0.3)',
+    overflow: 'hidden',
+    fontFamily: 'system-ui, -apple-system, sans-serif',
+  },
+  input: {
+    width: '100%',
+    boxSizing: 'border-box',
+    padding: '14px 16px',
+    border: 'none',
+    borderBottom: '1px solid rgba(184, 156, 130, 0.3)',
+    background: 'white',
+    fontSize: '16px',
+    color: '#3E3226',
+    outline: 'none',
+  },
+  results: {
+    maxHeight: '360px',
+    overflowY: 'auto',
+    padding: '6px 0',
+  },
+  result: {
+    display: 'flex',
+    alignItems: 'baseline',
+    justifyContent: 'space-between',
+    gap: '12px',
+    width: '100%',
+    padding: '8px 16px',
+    border: 'none',
+    background: 'transparent',
+    textAlign: 'left',
+    cursor: 'pointer',
+  },
+  resultActive: {
+    background: 'rgba(212, 175, 55, 0.15)',
+  },
+  title: {
+    fontSize: '14px',
+    color: '#3E3226',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  meta: {
+    flexShrink: 0,
+    fontSize: '12px',
+    color: '#8B7355',
+  },
+  mark: {
+    background: 'transparent',
+    color: '#B8941F',
+    fontWeight: 700,
+  },
+  empty: {
+    padding: '12px 16px',
+    fontSize: '13px',
+    color: '#8B7355',
+  },
+};
@@ -0,0 +1,246 @@
+import React, { memo, useState } from 'react';
+import { NodeResizer } from '@xyflow/react';
+import type { CanvasGroup } from '@/types/group';
+import { GROUP_COLORS, GROUP_HEADER_HEIGHT, ungroupGroups, updateGroup } from '@/shared/services/groupService';
+
+interface GroupNodeProps {
+  data: {
+    group: CanvasGroup;
+    memberCount: number;
+  };
+  selected?: boolean;
+}
+
+/**
+ * Titled, colored frame drawn behind its cards. Collapsed frames render as
+ * a single summary node; their cards are hidden by the canvas.
+ */
+export const GroupNode = memo(({ data, selected }: GroupNodeProps) => {
+  const { group, memberCount } = data;
+  const [isEditingTitle, setIsEditingTitle] = useState(false);
+  const [titleInput, setTitleInput] = useState(group.title);
+  const [showColors, setShowColors] = useState(false);
+
+  const handleRename = async () => {
+    setIsEditingTitle(false);
+    if (!titleInput.trim() || titleInput === group.title) {
+      setTitleInput(group.title);
+      return;
+    }
+    try {
+      await updateGroup(group.id, { title: titleInput.trim() }, 'Rename group');
+    } catch (error) {
+      console.error('[GroupNode] Error renaming group:', error);
+      setTitleInput(group.title);
+    }
+  };
+
+  const handleToggleCollapse = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      await updateGroup(
+        group.id,
+        { collapsed: !group.collapsed },
+        group.collapsed ? 'Expand group' : 'Collapse group'
+      );
+    } catch (error) {
+      console.error('[GroupNode] Error toggling group:', error);
+    }
+  };
+
+  const handleColor = async (color: string) => {
+    setShowColors(false);
+    try {
+      await updateGroup(group.id, { color }, 'Recolor group');
+    } catch (error) {
+      console.error('[GroupNode] Error recoloring group:', error);
+    }
+  };
+
+  const handleUngroup = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      await ungroupGroups([group.id]);
+    } catch (error) {
+      console.error('[GroupNode] Error ungrouping:', error);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        ...styles.frame,
+        borderColor: group.color,
+        background: group.collapsed ? '#FAF7F2' : `${group.color}14`,
+        boxShadow: selected ? `0 0 0 2px ${group.color}66` : 'none',
+      }}
+      data-testid="group-node"
+    >
+      {!group.collapsed && (
+        <NodeResizer isVisible={!!selected} minWidth={200} minHeight={120} color={group.color} />
+      )}
+
+      <div style={{ ...styles.header, background: `${group.color}26` }}>
+        <button
+          className="nodrag"
+          style={styles.iconButton}
+          onClick={handleToggleCollapse}
+          title={group.collapsed ? 'Expand group' : 'Collapse group'}
+          data-testid="group-collapse-btn"
+        >
+          {group.collapsed ? '▸' : '▾'}
+        </button>
+
+        {isEditingTitle ? (
+          <input
+            className="nodrag"
+            style={styles.titleInput}
+            value={titleInput}
+            onChange={(e) => setTitleInput(e.target.value)}
+            onBlur={handleRename}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleRename();
+              if (e.key === 'Escape') {
+                setTitleInput(group.title);
+                setIsEditingTitle(false);
+              }
+              e.stopPropagation();
+            }}
+            autoFocus
+          />
+        ) : (
+          <span
+            style={styles.title}
+            onDoubleClick={(e) => {
+              e.stopPropagation();
+              setTitleInput(group.title);
+              setIsEditingTitle(true);
+            }}
+            title="Double-click to rename"
+          >
+            {group.title}
+          </span>
+        )}
+
+        <span style={styles.count}>
+          {memberCount} card{memberCount === 1 ? '' : 's'}
+        </span>
+
+        <div style={styles.colorWrapper}>
+          <button
+            className="nodrag"
+            style={{ ...styles.colorDot, background: group.color }}
+            onClick={(e) => {
+              e.stopPropagation();
+              setShowColors(!showColors);
+            }}
+            title="Change color"
+          />
+          {showColors && (
+            <div className="nodrag" style={styles.palette}>
+              {GROUP_COLORS.map(color => (
+                <button
+                  key={color}
+                  style={{ ...styles.colorDot, background: color }}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleColor(color);
+                  }}
+                  title={color}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+
+        <button
+          className="nodrag"
+          style={styles.iconButton}
+          onClick={handleUngroup}
+          title="Ungroup (keeps the cards)"
+          data-testid="group-ungroup-btn"
+        >
+          ✕
+        </button>
+      </div>
+    </div>
+  );
+});
+
+GroupNode.displayName = 'GroupNode';
+
+const styles: Record<string, React.CSSProperties> = {
+  frame: {
+    width: '100%',
+    height: '100%',
+    border: '2px solid',
+    borderRadius: '12px',
+    boxSizing: 'border-box',
+    fontFamily: 'system-ui, -apple-system, sans-serif',
+  },
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    height: `${GROUP_HEADER_HEIGHT - 4}px`,
+    padding: '0 10px',
+    borderRadius: '10px 10px 0 0',
+  },
+  title: {
+    flex: 1,
+    minWidth: 0,
+    fontSize: '15px',
+    fontWeight: 700,
+    color: '#3E3226',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  titleInput: {
+    flex: 1,
+    minWidth: 0,
+    padding: '4px 8px',
+    border: '1px solid rgba(184, 156, 130, 0.4)',
+    borderRadius: '4px',
+    fontSize: '14px',
+  },
+  count: {
+    fontSize: '12px',
+    color: '#8B7355',
+    whiteSpace: 'nowrap',
+  },
+  iconButton: {
+    padding: '2px 6px',
+    border: 'none',
+    background: 'transparent',
+    color: '#5C4D42',
+    fontSize: '13px',
+    cursor: 'pointer',
+  },
+  colorWrapper: {
+    position: 'relative',
+    display: 'flex',
+  },
+  colorDot: {
+    width: '14px',
+    height: '14px',
+    padding: 0,
+    border: '2px solid white',
+    borderRadius: '50%',
+    boxShadow: '0 0 0 1px rgba(184, 156, 130, 0.4)',
+    cursor: 'pointer',
+  },
+  palette: {
+    position: 'absolute',
+    top: '22px',
+    right: 0,
+    display: 'flex',
+    gap: '6px',
+    padding: '8px',
+    background: 'white',
+    border: '1px solid rgba(184, 156, 130, 0.3)',
+    borderRadius: '6px',
+    boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)',
+    zIndex: 10,
+  },
+};
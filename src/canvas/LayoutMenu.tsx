@@ -0,0 +1,122 @@
+/**
+ * Layout Menu
+ *
+ * Toolbar dropdown listing the automatic layouts. The canvas decides what
+ * gets laid out (the selection, or every visible card).
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { LAYOUT_ALGORITHMS, type LayoutAlgorithm } from '@/shared/services/layoutService';
+
+interface LayoutMenuProps {
+  onRunLayout: (algorithm: LayoutAlgorithm) => void;
+}
+
+export function LayoutMenu({ onRunLayout }: LayoutMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleSelect = (algorithm: LayoutAlgorithm) => {
+    setIsOpen(false);
+    onRunLayout(algorithm);
+  };
+
+  return (
+    <div ref={containerRef} style={styles.container}>
+      <button
+        style={styles.trigger}
+        onClick={() => setIsOpen(!isOpen)}
+        title="Arrange the selected cards, or all cards"
+        data-testid="layout-menu-trigger"
+      >
+        <svg width="18" height="18" viewBox="0 0 18 18" fill="none">
+          <rect x="1.5" y="7" width="4" height="4" rx="1" stroke="currentColor" strokeWidth="1.5" />
+          <rect x="12.5" y="2" width="4" height="4" rx="1" stroke="currentColor" strokeWidth="1.5" />
+          <rect x="12.5" y="12" width="4" height="4" rx="1" stroke="currentColor" strokeWidth="1.5" />
+          <path d="M5.5 9H9M9 4V14M9 4H12.5M9 14H12.5" stroke="currentColor" strokeWidth="1.5" />
+        </svg>
+        <span>Layout</span>
+        <span style={styles.caret}>▾</span>
+      </button>
+
+      {isOpen && (
+        <div style={styles.menu} data-testid="layout-menu">
+          {(Object.keys(LAYOUT_ALGORITHMS) as LayoutAlgorithm[]).map(algorithm => (
+            <button key={algorithm} style={styles.item} onClick={() => handleSelect(algorithm)}>
+              <span style={styles.itemLabel}>{LAYOUT_ALGORITHMS[algorithm].label}</span>
+              <span style={styles.itemDescription}>{LAYOUT_ALGORITHMS[algorithm].description}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    position: 'relative',
+  },
+  trigger: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    padding: '8px 12px',
+    background: 'rgba(255, 255, 255, 0.7)',
+    border: '1px solid rgba(184, 156, 130, 0.3)',
+    borderRadius: '8px',
+    color: '#5C4D42',
+    fontSize: '14px',
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+  caret: {
+    fontSize: '10px',
+    color: '#8B7355',
+  },
+  menu: {
+    position: 'absolute',
+    top: 'calc(100% + 8px)',
+    left: 0,
+    minWidth: '260px',
+    padding: '6px 0',
+    background: 'white',
+    border: '1px solid rgba(184, 156, 130, 0.3)',
+    borderRadius: '8px',
+    boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)',
+    zIndex: 1001,
+  },
+  item: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '2px',
+    width: '100%',
+    padding: '8px 14px',
+    border: 'none',
+    background: 'transparent',
+    textAlign: 'left',
+    cursor: 'pointer',
+  },
+  itemLabel: {
+    fontSize: '13px',
+    fontWeight: 600,
+    color: '#3E3226',
+  },
+  itemDescription: {
+    fontSize: '12px',
+    color: '#8B7355',
+  },
+};
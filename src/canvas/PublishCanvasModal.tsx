@@ -0,0 +1,386 @@
+/**
+ * Publish Canvas Modal
+ *
+ * Uploads a read-only snapshot of the visible (filtered) cards to the
+ * backend and lists links published earlier so they can be copied or
+ * unpublished.
+ */
+
+import React, { useState, useEffect } from 'react';
+import type { Node, Viewport } from '@xyflow/react';
+import type { Card } from '@/types/card';
+import type { CardConnection } from '@/types/connection';
+import type { PublishedShare } from '@/types/share';
+import {
+  buildShareSnapshot,
+  getPublishedShares,
+  publishCanvas,
+  unpublishShare,
+} from '@/shared/services/shareService';
+
+interface PublishCanvasModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  cards: Card[];
+  connections: CardConnection[];
+  nodes: Node[];
+  viewport: Viewport;
+}
+
+const EXPIRY_OPTIONS: Array<{ label: string; days?: number }> = [
+  { label: 'Never' },
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+];
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString();
+
+export function PublishCanvasModal({
+  isOpen,
+  onClose,
+  cards,
+  connections,
+  nodes,
+  viewport,
+}: PublishCanvasModalProps) {
+  const [title, setTitle] = useState('');
+  const [password, setPassword] = useState('');
+  const [expiryIndex, setExpiryIndex] = useState(0);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [published, setPublished] = useState<PublishedShare | null>(null);
+  const [shares, setShares] = useState<PublishedShare[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setPublished(null);
+    setError(null);
+    getPublishedShares()
+      .then(setShares)
+      .catch(err => console.error('[PublishCanvasModal] Failed to load published shares:', err));
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handlePublish = async () => {
+    setIsPublishing(true);
+    setError(null);
+    try {
+      const snapshot = buildShareSnapshot({ title, cards, connections, nodes, viewport });
+      const share = await publishCanvas(snapshot, {
+        password: password || undefined,
+        expiresInDays: EXPIRY_OPTIONS[expiryIndex].days,
+      });
+      setPublished(share);
+      setShares(await getPublishedShares());
+      setPassword('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Publishing failed');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const handleCopy = async (share: PublishedShare) => {
+    try {
+      await navigator.clipboard.writeText(share.url);
+      setCopiedId(share.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (err) {
+      console.error('[PublishCanvasModal] Copy failed:', err);
+    }
+  };
+
+  const handleUnpublish = async (share: PublishedShare) => {
+    try {
+      await unpublishShare(share.id);
+      setShares(await getPublishedShares());
+      if (published?.id === share.id) setPublished(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unpublishing failed');
+    }
+  };
+
+  return (
+    <div style={styles.backdrop} onClick={(e) => e.target === e.currentTarget && onClose()}>
+      <div style={styles.panel} role="dialog" aria-modal="true" aria-labelledby="publish-title">
+        <div style={styles.header}>
+          <h2 id="publish-title" style={styles.title}>Publish Canvas</h2>
+          <button style={styles.closeButton} onClick={onClose} aria-label="Close publish dialog">
+            ✕
+          </button>
+        </div>
+
+        <div style={styles.content}>
+          <p style={styles.description}>
+            Creates a read-only link to the {cards.length} card{cards.length === 1 ? '' : 's'} currently
+            shown on the canvas (respecting filters), served by your local backend. Viewers do not need
+            the extension.
+          </p>
+
+          <label style={styles.field}>
+            <span style={styles.label}>Title</span>
+            <input
+              style={styles.input}
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Untitled canvas"
+            />
+          </label>
+
+          <div style={styles.row}>
+            <label style={{ ...styles.field, flex: 1 }}>
+              <span style={styles.label}>Password (optional)</span>
+              <input
+                type="password"
+                style={styles.input}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="new-password"
+              />
+            </label>
+            <label style={{ ...styles.field, width: '140px' }}>
+              <span style={styles.label}>Expires after</span>
+              <select
+                style={styles.input}
+                value={expiryIndex}
+                onChange={(e) => setExpiryIndex(Number(e.target.value))}
+              >
+                {EXPIRY_OPTIONS.map((option, index) => (
+                  <option key={option.label} value={index}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <button
+            style={styles.primaryButton}
+            onClick={handlePublish}
+            disabled={isPublishing || cards.length === 0}
+            data-testid="publish-canvas-btn"
+          >
+            {isPublishing ? 'Publishing...' : 'Publish'}
+          </button>
+
+          {error && <p style={styles.error}>{error}</p>}
+
+          {published && (
+            <div style={styles.result} data-testid="publish-result">
+              <input style={styles.linkInput} value={published.url} readOnly onFocus={(e) => e.target.select()} />
+              <button style={styles.secondaryButton} onClick={() => handleCopy(published)}>
+                {copiedId === published.id ? 'Copied!' : 'Copy link'}
+              </button>
+            </div>
+          )}
+
+          {shares.length > 0 && (
+            <>
+              <h3 style={styles.sectionTitle}>Published Links</h3>
+              <div style={styles.list}>
+                {shares.map(share => {
+                  const expired = share.expiresAt !== null && share.expiresAt <= Date.now();
+                  return (
+                    <div key={share.id} style={styles.shareRow}>
+                      <div style={styles.shareInfo}>
+                        <span style={styles.shareTitle}>
+                          {share.hasPassword ? '🔒 ' : ''}
+                          {share.title}
+                        </span>
+                        <span style={styles.shareMeta}>
+                          {share.cardCount} cards · published {formatDate(share.publishedAt)}
+                          {share.expiresAt !== null &&
+                            (expired ? ' · expired' : ` · expires ${formatDate(share.expiresAt)}`)}
+                        </span>
+                      </div>
+                      {!expired && (
+                        <button style={styles.inlineButton} onClick={() => handleCopy(share)}>
+                          {copiedId === share.id ? 'Copied!' : 'Copy'}
+                        </button>
+                      )}
+                      <button style={styles.inlineButton} onClick={() => handleUnpublish(share)}>
+                        {expired ? 'Remove' : 'Unpublish'}
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  backdrop: {
+    position: 'fixed',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    background: 'rgba(62, 50, 38, 0.75)',
+    backdropFilter: 'blur(4px)',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: 10000,
+  },
+  panel: {
+    background: 'linear-gradient(135deg, #FAF7F2 0%, #F5F0E8 100%)',
+    borderRadius: '16px',
+    boxShadow: '0 10px 40px rgba(92, 77, 66, 0.2), 0 0 0 1px rgba(184, 156, 130, 0.3)',
+    width: '90%',
+    maxWidth: '560px',
+    maxHeight: '85vh',
+    display: 'flex',
+    flexDirection: 'column',
+    overflow: 'hidden',
+  },
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: '20px 28px',
+    borderBottom: '2px solid rgba(184, 156, 130, 0.2)',
+  },
+  title: {
+    margin: 0,
+    fontSize: '22px',
+    fontWeight: 700,
+    color: '#3E3226',
+  },
+  closeButton: {
+    background: 'none',
+    border: 'none',
+    color: '#8B7355',
+    cursor: 'pointer',
+    fontSize: '18px',
+    padding: '8px',
+  },
+  content: {
+    overflow: 'auto',
+    padding: '24px 28px',
+  },
+  description: {
+    margin: '0 0 20px 0',
+    fontSize: '14px',
+    color: '#8B7355',
+    lineHeight: 1.5,
+  },
+  row: {
+    display: 'flex',
+    gap: '12px',
+  },
+  field: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+    marginBottom: '16px',
+  },
+  label: {
+    fontSize: '14px',
+    color: '#8B7355',
+    fontWeight: 500,
+  },
+  input: {
+    padding: '8px 12px',
+    background: 'rgba(255, 255, 255, 0.8)',
+    border: '1px solid rgba(184, 156, 130, 0.3)',
+    borderRadius: '6px',
+    fontSize: '14px',
+    color: '#3E3226',
+  },
+  primaryButton: {
+    padding: '10px 20px',
+    background: 'linear-gradient(135deg, #D4AF37 0%, #B8941F 100%)',
+    color: 'white',
+    border: 'none',
+    borderRadius: '8px',
+    fontSize: '14px',
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+  secondaryButton: {
+    padding: '8px 14px',
+    background: 'rgba(255, 255, 255, 0.8)',
+    color: '#5C4D42',
+    border: '1px solid rgba(184, 156, 130, 0.3)',
+    borderRadius: '6px',
+    fontSize: '13px',
+    fontWeight: 600,
+    cursor: 'pointer',
+    whiteSpace: 'nowrap',
+  },
+  error: {
+    marginTop: '12px',
+    fontSize: '14px',
+    color: '#C0392B',
+  },
+  result: {
+    display: 'flex',
+    gap: '8px',
+    marginTop: '16px',
+  },
+  linkInput: {
+    flex: 1,
+    padding: '8px 12px',
+    background: 'rgba(212, 175, 55, 0.08)',
+    border: '1px solid rgba(212, 175, 55, 0.4)',
+    borderRadius: '6px',
+    fontSize: '13px',
+    color: '#3E3226',
+  },
+  sectionTitle: {
+    margin: '28px 0 12px 0',
+    fontSize: '16px',
+    fontWeight: 700,
+    color: '#5C4D42',
+  },
+  list: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+  },
+  shareRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    padding: '10px 12px',
+    background: 'rgba(255, 255, 255, 0.6)',
+    borderRadius: '8px',
+    border: '1px solid rgba(184, 156, 130, 0.2)',
+  },
+  shareInfo: {
+    flex: 1,
+    minWidth: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '2px',
+  },
+  shareTitle: {
+    fontSize: '14px',
+    fontWeight: 600,
+    color: '#3E3226',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  shareMeta: {
+    fontSize: '12px',
+    color: '#8B7355',
+  },
+  inlineButton: {
+    padding: '4px 10px',
+    background: 'transparent',
+    color: '#8B7355',
+    border: '1px solid rgba(184, 156, 130, 0.3)',
+    borderRadius: '4px',
+    fontSize: '12px',
+    cursor: 'pointer',
+  },
+};
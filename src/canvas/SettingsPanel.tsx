@@ -9,6 +9,7 @@
  */
 
 import React, { useState, useEffect } from 'react';
+import type { Node } from '@xyflow/react';
 import {
   ShortcutConfig,
   formatShortcut,
@@ -17,13 +18,41 @@ import {
   DEFAULT_SHORTCUTS,
   ShortcutCategory,
 } from '@/utils/keyboardShortcuts';
-import type { StorageStats } from '@/types/card';
+import type { Card, StorageStats } from '@/types/card';
+import type { CardConnection } from '@/types/connection';
+import { clearCardDatabase } from '@/utils/cardRepository';
+import {
+  downloadWorkspaceBundle,
+  importWorkspaceBundle,
+  parseWorkspaceBundle,
+  previewWorkspaceImport,
+  WORKSPACE_BUNDLE_EXTENSION,
+  type WorkspaceBundle,
+  type WorkspaceImportMode,
+  type WorkspaceImportPreview,
+  type WorkspaceSectionCounts,
+} from '@/shared/services/workspaceBundleService';
+import { downloadMarkdownVault } from '@/shared/services/markdownVaultService';
+import { isOverWarningThreshold } from '@/shared/services/quotaService';
+import { StorageManager } from './StorageManager';
+import { SyncSettings } from './SyncSettings';
+import {
+  downloadGraph,
+  GRAPH_EXPORT_FORMATS,
+  type GraphExportFormat,
+  type GraphNodeRect,
+} from '@/shared/services/graphExportService';
 
 interface SettingsPanelProps {
   isOpen: boolean;
   onClose: () => void;
   stats: StorageStats | null;
   onRefreshStats: () => Promise<void>;
+  /** Canvas cards, filtered cards, connections and nodes for graph export */
+  cards?: Card[];
+  filteredCards?: Card[];
+  connections?: CardConnection[];
+  nodes?: Node[];
 }
 
 type SettingsTab = 'shortcuts' | 'theme' | 'storage' | 'advanced';
@@ -35,12 +64,26 @@ const CATEGORY_LABELS: Record<ShortcutCategory, string> = {
   view: 'View Controls',
 };
 
-export function SettingsPanel({ isOpen, onClose, stats, onRefreshStats }: SettingsPanelProps) {
+export function SettingsPanel({
+  isOpen,
+  onClose,
+  stats,
+  onRefreshStats,
+  cards = [],
+  filteredCards = [],
+  connections = [],
+  nodes = [],
+}: SettingsPanelProps) {
   const [activeTab, setActiveTab] = useState<SettingsTab>('shortcuts');
   const [shortcutsConfig, setShortcutsConfig] = useState<ShortcutConfig>({});
   const [theme, setTheme] = useState<'light' | 'dark'>('light');
   const [isSaving, setIsSaving] = useState(false);
   const [saveMessage, setSaveMessage] = useState('');
+  const [pendingBundle, setPendingBundle] = useState<WorkspaceBundle | null>(null);
+  const [importMode, setImportMode] = useState<WorkspaceImportMode>('merge');
+  const [importPreview, setImportPreview] = useState<WorkspaceImportPreview | null>(null);
+  const [graphFormat, setGraphFormat] = useState<GraphExportFormat>('json-canvas');
+  const [graphFilteredOnly, setGraphFilteredOnly] = useState(false);
 
   // Load settings on mount
   useEffect(() => {
@@ -130,6 +173,8 @@ export function SettingsPanel({ isOpen, onClose, stats, onRefreshStats }: Settin
 
     try {
       await chrome.storage.local.clear();
+      await clearCardDatabase();
+      window.dispatchEvent(new CustomEvent('nabokov:cards-updated'));
       setSaveMessage('Storage cleared successfully');
       onRefreshStats();
       setTimeout(() => setSaveMessage(''), 3000);
@@ -141,21 +186,102 @@ export function SettingsPanel({ isOpen, onClose, stats, onRefreshStats }: Settin
 
   const handleExportData = async () => {
     try {
-      const result = await chrome.storage.local.get('nabokov_cards');
-      const cards = result.nabokov_cards || [];
-      const jsonString = JSON.stringify(cards, null, 2);
-      const blob = new Blob([jsonString], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `nabokov-cards-${Date.now()}.json`;
-      a.click();
-      URL.revokeObjectURL(url);
+      const bundle = await downloadWorkspaceBundle();
+      setSaveMessage(`Exported ${bundle.cards.length} cards`);
+      setTimeout(() => setSaveMessage(''), 3000);
     } catch (error) {
       console.error('Failed to export data:', error);
+      setSaveMessage('Failed to export workspace');
     }
   };
 
+  const handleExportVault = async () => {
+    try {
+      const count = await downloadMarkdownVault();
+      setSaveMessage(`Exported ${count} notes`);
+      setTimeout(() => setSaveMessage(''), 3000);
+    } catch (error) {
+      console.error('Failed to export Markdown vault:', error);
+      setSaveMessage('Failed to export Markdown vault');
+    }
+  };
+
+  const handleExportGraph = () => {
+    try {
+      const exported = graphFilteredOnly ? filteredCards : cards;
+      const layout: Record<string, GraphNodeRect> = {};
+      nodes.forEach(node => {
+        layout[node.id] = {
+          x: node.position.x,
+          y: node.position.y,
+          width: Number(node.style?.width ?? node.measured?.width ?? 320),
+          height: Number(node.style?.height ?? node.measured?.height ?? 240),
+        };
+      });
+      downloadGraph(graphFormat, exported, connections, layout);
+      setSaveMessage(`Exported ${exported.length} cards as ${GRAPH_EXPORT_FORMATS[graphFormat].label}`);
+      setTimeout(() => setSaveMessage(''), 3000);
+    } catch (error) {
+      console.error('Failed to export graph:', error);
+      setSaveMessage('Failed to export graph');
+    }
+  };
+
+  const refreshImportPreview = async (bundle: WorkspaceBundle, mode: WorkspaceImportMode) => {
+    setImportMode(mode);
+    setImportPreview(await previewWorkspaceImport(bundle, mode));
+  };
+
+  const handleSelectWorkspaceFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const bundle = parseWorkspaceBundle(await file.text());
+      setPendingBundle(bundle);
+      await refreshImportPreview(bundle, importMode);
+    } catch (error) {
+      console.error('Failed to read workspace bundle:', error);
+      setPendingBundle(null);
+      setImportPreview(null);
+      setSaveMessage(error instanceof Error ? error.message : 'Failed to read workspace bundle');
+    }
+  };
+
+  const handleConfirmImport = async () => {
+    if (!pendingBundle) return;
+    if (importMode === 'replace' && !confirm('Replace the current workspace with this bundle? This cannot be undone.')) {
+      return;
+    }
+
+    try {
+      const result = await importWorkspaceBundle(pendingBundle, importMode);
+      setSaveMessage(`Imported ${result.cards.added + result.cards.remapped} cards`);
+      setPendingBundle(null);
+      setImportPreview(null);
+      loadSettings();
+      onRefreshStats();
+      setTimeout(() => setSaveMessage(''), 3000);
+    } catch (error) {
+      console.error('Failed to import workspace:', error);
+      setSaveMessage('Failed to import workspace');
+    }
+  };
+
+  const handleCancelImport = () => {
+    setPendingBundle(null);
+    setImportPreview(null);
+  };
+
+  const formatCounts = (counts: WorkspaceSectionCounts): string => {
+    const parts = [`${counts.added} new`];
+    if (counts.unchanged) parts.push(`${counts.unchanged} already present`);
+    if (counts.remapped) parts.push(`${counts.remapped} re-id'd`);
+    if (counts.skipped) parts.push(`${counts.skipped} skipped`);
+    return parts.join(', ');
+  };
+
   const formatBytes = (bytes: number): string => {
     if (bytes === 0) return '0 B';
     const k = 1024;
@@ -380,7 +506,7 @@ export function SettingsPanel({ isOpen, onClose, stats, onRefreshStats }: Settin
                         ...styles.storageBarFill,
                         width: `${getUsagePercent()}%`,
                         background:
-                          getUsagePercent() > 80
+                          isOverWarningThreshold(stats.bytesUsed, stats.quotaBytes)
                             ? '#E74C3C'
                             : getUsagePercent() > 50
                             ? '#F39C12'
@@ -403,6 +529,8 @@ export function SettingsPanel({ isOpen, onClose, stats, onRefreshStats }: Settin
                 </div>
               )}
 
+              <StorageManager onChanged={onRefreshStats} />
+
               <div style={styles.storageActions}>
                 <h3 style={styles.sectionTitle}>Data Management</h3>
                 <button style={styles.secondaryButton} onClick={handleExportData}>
@@ -414,8 +542,131 @@ export function SettingsPanel({ isOpen, onClose, stats, onRefreshStats }: Settin
                       strokeLinecap="round"
                     />
                   </svg>
-                  Export All Cards
+                  Export Workspace
+                </button>
+                <button style={styles.secondaryButton} onClick={handleExportVault}>
+                  <svg width="20" height="20" viewBox="0 0 20 20" fill="none">
+                    <path
+                      d="M10 14V4M10 4L6 8M10 4l4 4M4 16h12"
+                      stroke="currentColor"
+                      strokeWidth="1.5"
+                      strokeLinecap="round"
+                    />
+                  </svg>
+                  Export Markdown Vault (.zip)
+                </button>
+                <label style={styles.secondaryButton}>
+                  <svg width="20" height="20" viewBox="0 0 20 20" fill="none">
+                    <path
+                      d="M10 6v8M10 6l-4 4M10 6l4 4M4 16h12"
+                      stroke="currentColor"
+                      strokeWidth="1.5"
+                      strokeLinecap="round"
+                    />
+                  </svg>
+                  Import Workspace
+                  <input
+                    type="file"
+                    accept={`${WORKSPACE_BUNDLE_EXTENSION},.json`}
+                    onChange={handleSelectWorkspaceFile}
+                    style={styles.fileInput}
+                  />
+                </label>
+
+                {pendingBundle && importPreview && (
+                  <div style={styles.importPreview}>
+                    <div style={styles.themeOptions}>
+                      {(['merge', 'replace'] as WorkspaceImportMode[]).map(mode => (
+                        <label key={mode} style={styles.importModeOption}>
+                          <input
+                            type="radio"
+                            name="workspace-import-mode"
+                            checked={importMode === mode}
+                            onChange={() => refreshImportPreview(pendingBundle, mode)}
+                          />
+                          {mode === 'merge' ? 'Merge into current workspace' : 'Replace current workspace'}
+                        </label>
+                      ))}
+                    </div>
+                    <div style={styles.statRow}>
+                      <span style={styles.statLabel}>Cards:</span>
+                      <span style={styles.statValue}>{formatCounts(importPreview.cards)}</span>
+                    </div>
+                    <div style={styles.statRow}>
+                      <span style={styles.statLabel}>Connections:</span>
+                      <span style={styles.statValue}>{formatCounts(importPreview.connections)}</span>
+                    </div>
+                    <div style={styles.statRow}>
+                      <span style={styles.statLabel}>Boards:</span>
+                      <span style={styles.statValue}>{formatCounts(importPreview.boards)}</span>
+                    </div>
+                    <div style={styles.statRow}>
+                      <span style={styles.statLabel}>Group frames:</span>
+                      <span style={styles.statValue}>{formatCounts(importPreview.groups)}</span>
+                    </div>
+                    <div style={styles.statRow}>
+                      <span style={styles.statLabel}>Expandable links:</span>
+                      <span style={styles.statValue}>{formatCounts(importPreview.expandableLinks)}</span>
+                    </div>
+                    <div style={styles.statRow}>
+                      <span style={styles.statLabel}>Chat sessions:</span>
+                      <span style={styles.statValue}>{formatCounts(importPreview.chatSessions)}</span>
+                    </div>
+                    <div style={styles.statRow}>
+                      <span style={styles.statLabel}>Custom buttons:</span>
+                      <span style={styles.statValue}>{formatCounts(importPreview.customButtons)}</span>
+                    </div>
+                    <div style={styles.statRow}>
+                      <span style={styles.statLabel}>Shortcuts / filters:</span>
+                      <span style={styles.statValue}>
+                        {importPreview.shortcuts} shortcuts{importPreview.filters ? ', filters' : ''}
+                      </span>
+                    </div>
+                    <div style={styles.actions}>
+                      <button style={styles.primaryButton} onClick={handleConfirmImport}>
+                        Import
+                      </button>
+                      <button style={styles.secondaryButton} onClick={handleCancelImport}>
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                <h3 style={styles.sectionTitle}>Graph Export</h3>
+                <div style={styles.graphExportRow}>
+                  <select
+                    style={styles.graphSelect}
+                    value={graphFormat}
+                    onChange={(e) => setGraphFormat(e.target.value as GraphExportFormat)}
+                  >
+                    {(Object.keys(GRAPH_EXPORT_FORMATS) as GraphExportFormat[]).map(format => (
+                      <option key={format} value={format}>
+                        {GRAPH_EXPORT_FORMATS[format].label} (.{GRAPH_EXPORT_FORMATS[format].extension})
+                      </option>
+                    ))}
+                  </select>
+                  <label style={styles.importModeOption}>
+                    <input
+                      type="checkbox"
+                      checked={graphFilteredOnly}
+                      onChange={(e) => setGraphFilteredOnly(e.target.checked)}
+                    />
+                    Only filtered cards ({filteredCards.length})
+                  </label>
+                </div>
+                <button style={styles.secondaryButton} onClick={handleExportGraph}>
+                  <svg width="20" height="20" viewBox="0 0 20 20" fill="none">
+                    <path
+                      d="M10 14V4M10 4L6 8M10 4l4 4M4 16h12"
+                      stroke="currentColor"
+                      strokeWidth="1.5"
+                      strokeLinecap="round"
+                    />
+                  </svg>
+                  Export Graph
                 </button>
+
                 <button style={styles.dangerButton} onClick={handleClearStorage}>
                   <svg width="20" height="20" viewBox="0 0 20 20" fill="none">
                     <path
@@ -427,6 +678,7 @@ export function SettingsPanel({ isOpen, onClose, stats, onRefreshStats }: Settin
                   </svg>
                   Clear All Data
                 </button>
+                {saveMessage && <span style={styles.saveMessage}>{saveMessage}</span>}
               </div>
             </div>
           )}
@@ -437,6 +689,8 @@ export function SettingsPanel({ isOpen, onClose, stats, onRefreshStats }: Settin
                 Advanced settings for power users. Import/export your configuration and settings.
               </p>
 
+              <SyncSettings />
+
               <div style={styles.advancedSection}>
                 <h3 style={styles.sectionTitle}>Configuration</h3>
                 <button style={styles.secondaryButton} onClick={handleExportSettings}>
@@ -833,6 +1087,35 @@ const styles: Record<string, React.CSSProperties> = {
   storageActions: {
     marginBottom: '32px',
   },
+  importPreview: {
+    marginBottom: '16px',
+    padding: '16px',
+    background: 'rgba(255, 255, 255, 0.6)',
+    borderRadius: '8px',
+    border: '1px solid rgba(184, 156, 130, 0.2)',
+  },
+  importModeOption: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    fontSize: '14px',
+    color: '#5C4D42',
+    cursor: 'pointer',
+  },
+  graphExportRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '16px',
+    marginBottom: '12px',
+  },
+  graphSelect: {
+    padding: '8px 12px',
+    border: '1px solid rgba(184, 156, 130, 0.3)',
+    borderRadius: '6px',
+    background: 'rgba(255, 255, 255, 0.8)',
+    color: '#5C4D42',
+    fontSize: '14px',
+  },
   advancedSection: {
     marginBottom: '32px',
   },
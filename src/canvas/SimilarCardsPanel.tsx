@@ -0,0 +1,131 @@
+/**
+ * Similar Cards Panel
+ *
+ * Ranked list of cards from a semantic search or "Find Similar Cards".
+ * Clicking a result jumps to the card on the canvas.
+ */
+
+import React from 'react';
+import type { SimilarityResult } from '@/shared/services/semanticSearchService';
+
+interface SimilarCardsPanelProps {
+  title: string;
+  /** null while the ranking is being computed */
+  results: SimilarityResult[] | null;
+  error?: string | null;
+  onSelect: (cardId: string) => void;
+  onClose?: () => void;
+}
+
+export function SimilarCardsPanel({ title, results, error, onSelect, onClose }: SimilarCardsPanelProps) {
+  return (
+    <div style={styles.panel} data-testid="similar-cards-panel">
+      <div style={styles.header}>
+        <span style={styles.title}>{title}</span>
+        {onClose && (
+          <button style={styles.closeButton} onClick={onClose} title="Close" aria-label="Close">
+            ✕
+          </button>
+        )}
+      </div>
+
+      <div style={styles.results}>
+        {error ? (
+          <div style={styles.error}>{error}</div>
+        ) : results === null ? (
+          <div style={styles.empty}>Ranking cards...</div>
+        ) : results.length === 0 ? (
+          <div style={styles.empty}>No similar cards found</div>
+        ) : (
+          results.map(({ card, score }) => (
+            <button key={card.id} style={styles.result} onClick={() => onSelect(card.id)}>
+              <span style={styles.resultTitle}>{card.metadata.title}</span>
+              <span style={styles.score} title="Similarity">{Math.round(score * 100)}%</span>
+            </button>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  panel: {
+    position: 'absolute',
+    top: '80px',
+    right: '16px',
+    width: '280px',
+    maxHeight: '50vh',
+    display: 'flex',
+    flexDirection: 'column',
+    background: '#FAF7F2',
+    border: '1px solid rgba(184, 156, 130, 0.4)',
+    borderRadius: '10px',
+    boxShadow: '0 4px 16px rgba(0, 0, 0, 0.15)',
+    fontFamily: 'system-ui, -apple-system, sans-serif',
+    zIndex: 999,
+  },
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    padding: '10px 12px',
+    borderBottom: '1px solid rgba(184, 156, 130, 0.3)',
+  },
+  title: {
+    flex: 1,
+    fontSize: '13px',
+    fontWeight: 600,
+    color: '#3E3226',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  closeButton: {
+    padding: '2px 6px',
+    border: 'none',
+    background: 'transparent',
+    color: '#8B7355',
+    fontSize: '12px',
+    cursor: 'pointer',
+  },
+  results: {
+    overflowY: 'auto',
+    padding: '4px 0',
+  },
+  result: {
+    display: 'flex',
+    alignItems: 'baseline',
+    gap: '8px',
+    width: '100%',
+    padding: '8px 12px',
+    border: 'none',
+    background: 'transparent',
+    textAlign: 'left',
+    cursor: 'pointer',
+  },
+  resultTitle: {
+    flex: 1,
+    fontSize: '13px',
+    color: '#3E3226',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  score: {
+    flexShrink: 0,
+    fontSize: '11px',
+    fontWeight: 600,
+    color: '#8B7355',
+  },
+  empty: {
+    padding: '10px 12px',
+    fontSize: '13px',
+    color: '#8B7355',
+  },
+  error: {
+    padding: '10px 12px',
+    fontSize: '13px',
+    color: '#C0392B',
+  },
+};
@@ -0,0 +1,319 @@
+/**
+ * Storage Manager
+ *
+ * Quota details for the Settings storage tab: usage breakdown, the largest
+ * cards, and one-click cleanups (stale element chats, orphaned links, image
+ * compression, moving history images to IndexedDB).
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { DEFAULT_CONFIG } from '@/types';
+import {
+  getQuotaUsage,
+  getStorageBreakdown,
+  measureCardSizes,
+  getCleanupSuggestions,
+  getIndexedDBUsage,
+  purgeStaleChats,
+  purgeOrphanedLinks,
+  compressCardImage,
+  STALE_CHAT_DAYS,
+  type QuotaUsage,
+  type StorageBreakdownItem,
+  type CardSize,
+  type CleanupSuggestions,
+} from '@/shared/services/quotaService';
+import { offloadHistoryImages } from '@/shared/services/historyService';
+
+const LARGEST_CARDS_SHOWN = 10;
+
+interface StorageManagerProps {
+  /** Called after a cleanup so the usage bar can refresh */
+  onChanged: () => void;
+}
+
+interface StorageReport {
+  usage: QuotaUsage;
+  breakdown: StorageBreakdownItem[];
+  cardSizes: CardSize[];
+  suggestions: CleanupSuggestions;
+  indexedDB: { usage: number; quota: number } | null;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB'];
+  const i = Math.min(sizes.length - 1, Math.floor(Math.log(bytes) / Math.log(k)));
+  return `${(bytes / Math.pow(k, i)).toFixed(i === 0 ? 0 : 1)} ${sizes[i]}`;
+};
+
+export function StorageManager({ onChanged }: StorageManagerProps) {
+  const [report, setReport] = useState<StorageReport | null>(null);
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+
+  const loadReport = useCallback(async () => {
+    try {
+      const cardSizes = await measureCardSizes();
+      const [usage, breakdown, suggestions, indexedDB] = await Promise.all([
+        getQuotaUsage(),
+        getStorageBreakdown(),
+        getCleanupSuggestions(cardSizes),
+        getIndexedDBUsage(),
+      ]);
+      setReport({ usage, breakdown, cardSizes, suggestions, indexedDB });
+    } catch (error) {
+      console.error('[StorageManager] Failed to load storage report:', error);
+      setMessage('Failed to analyze storage');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const runAction = async (id: string, action: () => Promise<string>) => {
+    setBusyAction(id);
+    try {
+      setMessage(await action());
+      await loadReport();
+      onChanged();
+    } catch (error) {
+      console.error('[StorageManager] Cleanup failed:', error);
+      setMessage(error instanceof Error ? error.message : 'Cleanup failed');
+    } finally {
+      setBusyAction(null);
+      setTimeout(() => setMessage(''), 4000);
+    }
+  };
+
+  if (!report) {
+    return <p style={styles.note}>{message || 'Analyzing storage...'}</p>;
+  }
+
+  const { usage, breakdown, cardSizes, suggestions, indexedDB } = report;
+
+  return (
+    <div style={styles.container} data-testid="storage-manager">
+      {usage.warning && (
+        <div style={styles.warning} data-testid="storage-warning">
+          ⚠️ Storage is {(usage.ratio * 100).toFixed(0)}% full (warning at{' '}
+          {(DEFAULT_CONFIG.storageWarningThreshold * 100).toFixed(0)}%). Saves will fail once it is full — try
+          the cleanups below.
+        </div>
+      )}
+
+      <h3 style={styles.sectionTitle}>Breakdown</h3>
+      <div style={styles.table}>
+        {breakdown.map(item => (
+          <div key={item.category} style={styles.row}>
+            <span style={styles.label}>{item.label}</span>
+            <span style={styles.value}>{formatBytes(item.bytes)}</span>
+          </div>
+        ))}
+        {indexedDB && (
+          <div style={styles.row}>
+            <span style={styles.label}>Cards & images (IndexedDB)</span>
+            <span style={styles.value}>{formatBytes(indexedDB.usage)}</span>
+          </div>
+        )}
+      </div>
+
+      <h3 style={styles.sectionTitle}>Suggested Cleanups</h3>
+      <div style={styles.table}>
+        <div style={styles.row}>
+          <span style={styles.label}>
+            {suggestions.staleChatCount} element chat{suggestions.staleChatCount === 1 ? '' : 's'} idle for{' '}
+            {STALE_CHAT_DAYS}+ days on {suggestions.staleChats.length} page
+            {suggestions.staleChats.length === 1 ? '' : 's'}
+          </span>
+          <button
+            style={styles.actionButton}
+            disabled={busyAction !== null || suggestions.staleChatCount === 0}
+            onClick={() =>
+              runAction('chats', async () => `Deleted ${await purgeStaleChats()} stale chats`)
+            }
+          >
+            Purge
+          </button>
+        </div>
+        <div style={styles.row}>
+          <span style={styles.label}>
+            {suggestions.orphanedLinks.length} expandable link{suggestions.orphanedLinks.length === 1 ? '' : 's'}{' '}
+            pointing at deleted cards
+          </span>
+          <button
+            style={styles.actionButton}
+            disabled={busyAction !== null || suggestions.orphanedLinks.length === 0}
+            onClick={() =>
+              runAction('links', async () => `Deleted ${await purgeOrphanedLinks()} orphaned links`)
+            }
+          >
+            Purge
+          </button>
+        </div>
+        <div style={styles.row}>
+          <span style={styles.label}>
+            {formatBytes(suggestions.historyImageBytes)} of images stored in undo history
+          </span>
+          <button
+            style={styles.actionButton}
+            disabled={busyAction !== null || suggestions.historyImageBytes === 0}
+            onClick={() =>
+              runAction('history', async () =>
+                `Moved ${formatBytes(await offloadHistoryImages())} of history images to IndexedDB`
+              )
+            }
+          >
+            Move to IndexedDB
+          </button>
+        </div>
+        <div style={styles.row}>
+          <span style={styles.label}>
+            {suggestions.largeImages.length} large image{suggestions.largeImages.length === 1 ? '' : 's'}
+          </span>
+          <button
+            style={styles.actionButton}
+            disabled={busyAction !== null || suggestions.largeImages.length === 0}
+            onClick={() =>
+              runAction('images', async () => {
+                let saved = 0;
+                for (const image of suggestions.largeImages) {
+                  saved += await compressCardImage(image.cardId);
+                }
+                return `Compressed images, saving ${formatBytes(saved)}`;
+              })
+            }
+          >
+            Compress all
+          </button>
+        </div>
+      </div>
+
+      <h3 style={styles.sectionTitle}>Largest Cards</h3>
+      <div style={styles.table}>
+        {cardSizes.length === 0 && <p style={styles.note}>No cards yet.</p>}
+        {cardSizes.slice(0, LARGEST_CARDS_SHOWN).map(size => (
+          <div key={size.cardId} style={styles.row} data-testid="card-size-row">
+            <span style={styles.cardTitle} title={size.title}>
+              {size.stashed ? '📦 ' : ''}
+              {size.title || 'Untitled'}
+            </span>
+            <span style={styles.value}>
+              {formatBytes(size.bytes)}
+              {size.imageBytes > 0 && (
+                <button
+                  style={styles.inlineButton}
+                  disabled={busyAction !== null}
+                  title="Downscale and re-encode this image"
+                  onClick={() =>
+                    runAction(size.cardId, async () => {
+                      const saved = await compressCardImage(size.cardId);
+                      return saved > 0 ? `Saved ${formatBytes(saved)}` : 'Image is already compact';
+                    })
+                  }
+                >
+                  {busyAction === size.cardId ? '...' : 'Compress'}
+                </button>
+              )}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {message && <p style={styles.message}>{message}</p>}
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    marginBottom: '32px',
+  },
+  warning: {
+    padding: '12px 16px',
+    marginBottom: '20px',
+    background: 'rgba(231, 76, 60, 0.1)',
+    border: '1px solid rgba(231, 76, 60, 0.3)',
+    borderRadius: '8px',
+    color: '#C0392B',
+    fontSize: '14px',
+    fontWeight: 500,
+  },
+  sectionTitle: {
+    margin: '0 0 12px 0',
+    fontSize: '16px',
+    fontWeight: 700,
+    color: '#5C4D42',
+  },
+  table: {
+    marginBottom: '24px',
+    padding: '12px 16px',
+    background: 'rgba(255, 255, 255, 0.6)',
+    borderRadius: '8px',
+    border: '1px solid rgba(184, 156, 130, 0.2)',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+  },
+  row: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: '12px',
+  },
+  label: {
+    fontSize: '14px',
+    color: '#8B7355',
+    fontWeight: 500,
+  },
+  value: {
+    fontSize: '14px',
+    color: '#3E3226',
+    fontWeight: 600,
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    whiteSpace: 'nowrap',
+  },
+  cardTitle: {
+    fontSize: '14px',
+    color: '#5C4D42',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+    minWidth: 0,
+  },
+  actionButton: {
+    padding: '6px 14px',
+    background: 'rgba(255, 255, 255, 0.8)',
+    color: '#5C4D42',
+    border: '1px solid rgba(184, 156, 130, 0.3)',
+    borderRadius: '6px',
+    fontSize: '13px',
+    fontWeight: 600,
+    cursor: 'pointer',
+    whiteSpace: 'nowrap',
+  },
+  inlineButton: {
+    padding: '2px 8px',
+    background: 'transparent',
+    color: '#8B7355',
+    border: '1px solid rgba(184, 156, 130, 0.3)',
+    borderRadius: '4px',
+    fontSize: '12px',
+    cursor: 'pointer',
+  },
+  note: {
+    fontSize: '13px',
+    color: '#8B7355',
+    fontStyle: 'italic',
+    margin: 0,
+  },
+  message: {
+    fontSize: '14px',
+    color: '#27AE60',
+    fontWeight: 500,
+  },
+};
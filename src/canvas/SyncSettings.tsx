@@ -0,0 +1,190 @@
+/**
+ * Sync Settings
+ *
+ * Settings section for syncing with a self-hosted backend: endpoint, token,
+ * background sync toggle, a manual "Sync now" and the last result.
+ */
+
+import React, { useState, useEffect } from 'react';
+import type { SyncSettings as SyncSettingsValue, SyncState } from '@/types/sync';
+import {
+  getSyncSettings,
+  getSyncState,
+  requestSync,
+  saveSyncSettings,
+  scheduleSync,
+} from '@/shared/services/syncService';
+
+export function SyncSettings() {
+  const [settings, setSettings] = useState<SyncSettingsValue | null>(null);
+  const [state, setState] = useState<SyncState | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    Promise.all([getSyncSettings(), getSyncState()])
+      .then(([loadedSettings, loadedState]) => {
+        setSettings(loadedSettings);
+        setState(loadedState);
+      })
+      .catch(error => console.error('[SyncSettings] Failed to load sync settings:', error));
+  }, []);
+
+  const updateSettings = async (changes: Partial<SyncSettingsValue>) => {
+    try {
+      const saved = await saveSyncSettings(changes);
+      setSettings(saved);
+      if ('enabled' in changes) {
+        await scheduleSync();
+      }
+    } catch (error) {
+      console.error('[SyncSettings] Failed to save sync settings:', error);
+      setMessage('Failed to save sync settings');
+    }
+  };
+
+  const handleSyncNow = async () => {
+    setIsSyncing(true);
+    setMessage('');
+    try {
+      const result = await requestSync();
+      setMessage(
+        `Sent ${result.pushed}, received ${result.pulled}` +
+          (result.conflicts > 0 ? `, merged ${result.conflicts} conflicting edits` : '')
+      );
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Sync failed');
+    } finally {
+      setIsSyncing(false);
+      setState(await getSyncState());
+    }
+  };
+
+  if (!settings) return null;
+
+  return (
+    <div style={styles.container} data-testid="sync-settings">
+      <h3 style={styles.sectionTitle}>Sync</h3>
+      <p style={styles.description}>
+        Keep cards, connections and chats in sync across browser profiles through your own backend
+        server. Data stays local; only changes are exchanged.
+      </p>
+
+      <label style={styles.field}>
+        <span style={styles.label}>Server URL</span>
+        <input
+          type="url"
+          style={styles.input}
+          defaultValue={settings.endpoint}
+          onBlur={(e) => updateSettings({ endpoint: e.target.value })}
+          placeholder="http://localhost:3100"
+        />
+      </label>
+
+      <label style={styles.field}>
+        <span style={styles.label}>Access token</span>
+        <input
+          type="password"
+          style={styles.input}
+          defaultValue={settings.token}
+          onBlur={(e) => updateSettings({ token: e.target.value })}
+          placeholder="Optional (NABOKOV_SYNC_TOKEN)"
+        />
+      </label>
+
+      <label style={styles.checkboxRow}>
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => updateSettings({ enabled: e.target.checked })}
+        />
+        Sync automatically in the background
+      </label>
+
+      <div style={styles.actions}>
+        <button style={styles.button} onClick={handleSyncNow} disabled={isSyncing}>
+          {isSyncing ? 'Syncing...' : 'Sync now'}
+        </button>
+        <span style={styles.status}>
+          {state?.lastError
+            ? `Last sync failed: ${state.lastError}`
+            : state?.lastSyncAt
+              ? `Last synced ${new Date(state.lastSyncAt).toLocaleString()}`
+              : 'Never synced'}
+        </span>
+      </div>
+
+      {message && <p style={styles.message}>{message}</p>}
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    marginBottom: '32px',
+  },
+  sectionTitle: {
+    margin: '0 0 12px 0',
+    fontSize: '16px',
+    fontWeight: 700,
+    color: '#5C4D42',
+  },
+  description: {
+    margin: '0 0 16px 0',
+    fontSize: '14px',
+    color: '#8B7355',
+    lineHeight: 1.5,
+  },
+  field: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+    marginBottom: '12px',
+  },
+  label: {
+    fontSize: '14px',
+    color: '#8B7355',
+    fontWeight: 500,
+  },
+  input: {
+    padding: '8px 12px',
+    background: 'rgba(255, 255, 255, 0.8)',
+    border: '1px solid rgba(184, 156, 130, 0.3)',
+    borderRadius: '6px',
+    fontSize: '14px',
+    color: '#3E3226',
+  },
+  checkboxRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    marginBottom: '16px',
+    fontSize: '14px',
+    color: '#5C4D42',
+    cursor: 'pointer',
+  },
+  actions: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '12px',
+  },
+  button: {
+    padding: '8px 16px',
+    background: 'rgba(255, 255, 255, 0.8)',
+    color: '#5C4D42',
+    border: '1px solid rgba(184, 156, 130, 0.3)',
+    borderRadius: '6px',
+    fontSize: '14px',
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+  status: {
+    fontSize: '13px',
+    color: '#8B7355',
+  },
+  message: {
+    fontSize: '14px',
+    color: '#27AE60',
+    fontWeight: 500,
+  },
+};
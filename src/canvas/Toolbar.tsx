@@ -1,9 +1,19 @@
 import React, { useState, useEffect, useRef, forwardRef, useImperativeHandle } from 'react';
 import { useReactFlow } from '@xyflow/react';
-import type { StorageStats } from '@/types/card';
+import type { Card, StorageStats } from '@/types/card';
+import type { Board } from '@/types/board';
+import type { CardConnection } from '@/types/connection';
 import type { FilterState } from './useCanvasState';
+import { isFiltering, toDay, type FacetCounts } from '@/shared/services/filterService';
+import type { LayoutAlgorithm } from '@/shared/services/layoutService';
 import { FilePickerButton } from '@/shared/components/ImageUpload';
+import { SmartCollectionList } from '@/shared/components/SmartCollections';
+import { FacetFilters } from '@/shared/components/FilterBar';
 import { FontSizeSelector } from '@/components/FontSizeSelector';
+import { isOverWarningThreshold } from '@/shared/services/quotaService';
+import { BoardSwitcher } from './BoardSwitcher';
+import { LayoutMenu } from './LayoutMenu';
+import { BookmarksMenu } from './BookmarksMenu';
 
 interface ToolbarProps {
   stats: StorageStats | null;
@@ -13,13 +23,29 @@ interface ToolbarProps {
   availableTags: string[];
   resultCount: number;
   totalCount: number;
+  /** Cards smart collection counts are taken over */
+  cards: Card[];
+  /** Connections between those cards, for the orphan facet */
+  connections: CardConnection[];
+  facetCounts: FacetCounts;
+  /** Set when the last semantic search failed */
+  semanticError?: string | null;
   onSettingsClick?: () => void;
+  onPublishClick?: () => void;
   onAPISettingsClick?: () => void;
   onCreateNote?: () => void;
   onToggleConnectionMode?: () => void;
+  onGroupSelection?: () => void;
+  onRunLayout?: (algorithm: LayoutAlgorithm) => void;
+  showMiniMap?: boolean;
+  onToggleMiniMap?: () => void;
+  onGoToCard?: () => void;
   onOpenSidePanel?: () => void;
   onUploadImages?: (files: File[]) => Promise<void>;
   connectionMode?: boolean;
+  boards?: Board[];
+  activeBoardId?: string;
+  onSwitchBoard?: (boardId: string) => Promise<void>;
 }
 
 export interface ToolbarRef {
@@ -35,13 +61,26 @@ export const Toolbar = forwardRef<ToolbarRef, ToolbarProps>(({
   availableTags,
   resultCount,
   totalCount,
+  cards,
+  connections,
+  facetCounts,
+  semanticError,
   onSettingsClick,
+  onPublishClick,
   onAPISettingsClick,
   onCreateNote,
   onToggleConnectionMode,
+  onGroupSelection,
+  onRunLayout,
+  showMiniMap,
+  onToggleMiniMap,
+  onGoToCard,
   onOpenSidePanel,
   onUploadImages,
   connectionMode,
+  boards,
+  activeBoardId,
+  onSwitchBoard,
 }, ref) => {
   const [searchInput, setSearchInput] = useState(filters.searchQuery);
   const [showFilters, setShowFilters] = useState(false);
@@ -85,6 +124,10 @@ export const Toolbar = forwardRef<ToolbarRef, ToolbarProps>(({
     setFilters({ ...filters, searchQuery: '' });
   };
 
+  const toggleSemantic = () => {
+    setFilters({ ...filters, semantic: !filters.semantic });
+  };
+
   const toggleStarredFilter = () => {
     setFilters({ ...filters, starredOnly: !filters.starredOnly });
   };
@@ -115,15 +158,56 @@ export const Toolbar = forwardRef<ToolbarRef, ToolbarProps>(({
       selectedDomains: [],
       selectedTags: [],
       dateRange: 'all',
+      semantic: filters.semantic,
     });
   };
 
-  const hasActiveFilters =
-    filters.searchQuery.trim() !== '' ||
-    filters.starredOnly ||
-    filters.selectedDomains.length > 0 ||
-    filters.selectedTags.length > 0 ||
-    filters.dateRange !== 'all';
+  const applyCollection = (collectionFilters: FilterState) => {
+    setSearchInput(collectionFilters.searchQuery);
+    setFilters(collectionFilters);
+  };
+
+  const hasActiveFilters = isFiltering(filters);
+
+  // Chips for the facets: label and the filters without that value
+  const facetChips: Array<{ key: string; label: string; without: Partial<FilterState> }> = [
+    ...(filters.createdAfter !== undefined || filters.createdBefore !== undefined
+      ? [{
+          key: 'created',
+          label: `Created ${filters.createdAfter !== undefined ? toDay(filters.createdAfter) : '…'} – ${
+            filters.createdBefore !== undefined ? toDay(filters.createdBefore - 1) : '…'
+          }`,
+          without: { createdAfter: undefined, createdBefore: undefined },
+        }]
+      : []),
+    ...(filters.cardTypes ?? []).map(type => ({
+      key: `type-${type}`,
+      label: `Type: ${type}`,
+      without: { cardTypes: filters.cardTypes?.filter(t => t !== type) },
+    })),
+    ...(filters.hasConversation !== undefined
+      ? [{
+          key: 'conversation',
+          label: filters.hasConversation ? 'With AI conversation' : 'Without AI conversation',
+          without: { hasConversation: undefined },
+        }]
+      : []),
+    ...(filters.beautified !== undefined
+      ? [{
+          key: 'beautified',
+          label: filters.beautified ? 'Beautified' : 'Not beautified',
+          without: { beautified: undefined },
+        }]
+      : []),
+    ...(filters.orphan !== undefined
+      ? [{ key: 'orphan', label: filters.orphan ? 'Orphans' : 'Connected', without: { orphan: undefined } }]
+      : []),
+    ...(filters.colors ?? []).map(color => ({
+      key: `color-${color}`,
+      label: `Color ${color}`,
+      without: { colors: filters.colors?.filter(c => c !== color) },
+    })),
+  ];
 
   const formatBytes = (bytes: number): string => {
     if (bytes === 0) return '0 B';
@@ -136,8 +220,11 @@ export const Toolbar = forwardRef<ToolbarRef, ToolbarProps>(({
   return (
     <>
       <div style={styles.toolbar}>
-        {/* Left section: Search and Filters */}
+        {/* Left section: Board, Search and Filters */}
         <div style={styles.section}>
+          {boards && activeBoardId && onSwitchBoard && (
+            <BoardSwitcher boards={boards} activeBoardId={activeBoardId} onSwitchBoard={onSwitchBoard} />
+          )}
           <div style={styles.searchContainer}>
             <svg
               width="16"
@@ -162,7 +249,7 @@ export const Toolbar = forwardRef<ToolbarRef, ToolbarProps>(({
             <input
               ref={searchInputRef}
               type="text"
-              placeholder="Search cards..."
+              placeholder={filters.semantic ? 'Search by meaning...' : 'Search cards...'}
               value={searchInput}
               onChange={handleSearchChange}
               style={styles.searchInput}
@@ -185,6 +272,31 @@ export const Toolbar = forwardRef<ToolbarRef, ToolbarProps>(({
             )}
           </div>
 
+          <button
+            onClick={toggleSemantic}
+            style={{
+              ...styles.button,
+              ...(filters.semantic ? styles.buttonActive : {}),
+              ...(filters.semantic && semanticError ? styles.buttonError : {}),
+            }}
+            title={
+              filters.semantic && semanticError
+                ? `Semantic search unavailable: ${semanticError}`
+                : 'Semantic search (rank by meaning)'
+            }
+            aria-pressed={Boolean(filters.semantic)}
+            data-testid="semantic-search-toggle"
+          >
+            <svg width="20" height="20" viewBox="0 0 20 20" fill="none">
+              <path
+                d="M3 8C5 6 7 6 10 8C13 10 15 10 17 8M3 13C5 11 7 11 10 13C13 15 15 15 17 13"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+              />
+            </svg>
+          </button>
+
           <button
             onClick={() => setShowFilters(!showFilters)}
             style={{
@@ -288,6 +400,24 @@ export const Toolbar = forwardRef<ToolbarRef, ToolbarProps>(({
             <span style={styles.connectionButtonText}>Connect</span>
           </button>
 
+          {onGroupSelection && (
+            <button
+              onClick={onGroupSelection}
+              style={styles.connectionButton}
+              title="Group selected cards (Cmd+G)"
+              data-testid="group-selection-button"
+            >
+              <svg width="18" height="18" viewBox="0 0 18 18" fill="none">
+                <rect x="1.5" y="1.5" width="15" height="15" rx="3" stroke="currentColor" strokeWidth="1.5" strokeDasharray="3 2" />
+                <rect x="4.5" y="5" width="4" height="4" rx="1" fill="currentColor" />
+                <rect x="10" y="9" width="4" height="4" rx="1" fill="currentColor" />
+              </svg>
+              <span style={styles.connectionButtonText}>Group</span>
+            </button>
+          )}
+
+          {onRunLayout && <LayoutMenu onRunLayout={onRunLayout} />}
+
           {/* Result count */}
           {hasActiveFilters && (
             <div style={styles.resultCount}>
@@ -349,6 +479,34 @@ export const Toolbar = forwardRef<ToolbarRef, ToolbarProps>(({
               />
             </svg>
           </button>
+          {onToggleMiniMap && (
+            <button
+              onClick={onToggleMiniMap}
+              style={{ ...styles.button, ...(showMiniMap ? styles.buttonActive : {}) }}
+              title={showMiniMap ? 'Hide minimap (M)' : 'Show minimap (M)'}
+              data-testid="minimap-toggle"
+            >
+              <svg width="20" height="20" viewBox="0 0 20 20" fill="none">
+                <rect x="2.5" y="4" width="15" height="12" rx="1.5" stroke="currentColor" strokeWidth="1.5" />
+                <rect x="10" y="9" width="5" height="4" rx="0.5" fill="currentColor" />
+              </svg>
+            </button>
+          )}
+          {onGoToCard && (
+            <button
+              onClick={onGoToCard}
+              style={styles.button}
+              title="Go to card (Cmd+P)"
+              data-testid="go-to-card-button"
+            >
+              <svg width="20" height="20" viewBox="0 0 20 20" fill="none">
+                <circle cx="10" cy="10" r="6.5" stroke="currentColor" strokeWidth="1.5" />
+                <circle cx="10" cy="10" r="2" fill="currentColor" />
+                <path d="M10 1.5V4.5M10 15.5V18.5M1.5 10H4.5M15.5 10H18.5" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" />
+              </svg>
+            </button>
+          )}
+          {activeBoardId && <BookmarksMenu boardId={activeBoardId} />}
         </div>
 
         {/* Right section: Stats */}
@@ -359,12 +517,26 @@ export const Toolbar = forwardRef<ToolbarRef, ToolbarProps>(({
                 <span style={styles.statLabel}>Cards:</span>
                 <span style={styles.statValue}>{stats.totalCards}</span>
               </div>
-              <div style={styles.statItem}>
-                <span style={styles.statLabel}>Storage:</span>
-                <span style={styles.statValue}>
-                  {formatBytes(stats.bytesUsed)} / {formatBytes(stats.quotaBytes)}
-                </span>
-              </div>
+              {isOverWarningThreshold(stats.bytesUsed, stats.quotaBytes) ? (
+                <div
+                  style={{ ...styles.statItem, cursor: 'pointer' }}
+                  title="Storage is almost full. Open Settings → Storage to free space."
+                  onClick={onSettingsClick}
+                  data-testid="storage-warning-stat"
+                >
+                  <span style={styles.statLabel}>⚠️ Storage:</span>
+                  <span style={{ ...styles.statValue, color: '#C0392B' }}>
+                    {formatBytes(stats.bytesUsed)} / {formatBytes(stats.quotaBytes)}
+                  </span>
+                </div>
+              ) : (
+                <div style={styles.statItem}>
+                  <span style={styles.statLabel}>Storage:</span>
+                  <span style={styles.statValue}>
+                    {formatBytes(stats.bytesUsed)} / {formatBytes(stats.quotaBytes)}
+                  </span>
+                </div>
+              )}
             </div>
           )}
           <button style={styles.sidePanelButton} title="Open Stashed Cards (Side Panel)" onClick={onOpenSidePanel}>
@@ -375,6 +547,21 @@ export const Toolbar = forwardRef<ToolbarRef, ToolbarProps>(({
             </svg>
           </button>
           <FontSizeSelector />
+          {onPublishClick && (
+            <button
+              style={styles.button}
+              title="Publish canvas (read-only share link)"
+              onClick={onPublishClick}
+              data-testid="publish-canvas-toolbar-btn"
+            >
+              <svg width="20" height="20" viewBox="0 0 20 20" fill="none">
+                <circle cx="15" cy="5" r="2.5" stroke="currentColor" strokeWidth="1.5" />
+                <circle cx="5" cy="10" r="2.5" stroke="currentColor" strokeWidth="1.5" />
+                <circle cx="15" cy="15" r="2.5" stroke="currentColor" strokeWidth="1.5" />
+                <path d="M7.2 8.9L12.8 6.1M7.2 11.1L12.8 13.9" stroke="currentColor" strokeWidth="1.5" />
+              </svg>
+            </button>
+          )}
           <button style={styles.button} title="Settings" onClick={onSettingsClick}>
             <svg width="20" height="20" viewBox="0 0 20 20" fill="none">
               <path
@@ -467,10 +654,33 @@ export const Toolbar = forwardRef<ToolbarRef, ToolbarProps>(({
                   </button>
                 </div>
               )}
+              {facetChips.map(chip => (
+                <div key={chip.key} style={styles.filterChip}>
+                  <span>{chip.label}</span>
+                  <button
+                    onClick={() => setFilters({ ...filters, ...chip.without })}
+                    style={styles.chipRemove}
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
             </div>
           )}
 
           <div style={styles.filterSections}>
+            {/* Smart Collections */}
+            <div style={styles.filterSection}>
+              <div style={styles.filterSectionTitle}>Collections</div>
+              <SmartCollectionList
+                filters={filters}
+                onApply={applyCollection}
+                cards={cards}
+                connections={connections}
+                canSave={hasActiveFilters}
+              />
+            </div>
+
             {/* Quick Filters */}
             <div style={styles.filterSection}>
               <div style={styles.filterSectionTitle}>Quick Filters</div>
@@ -526,6 +736,9 @@ export const Toolbar = forwardRef<ToolbarRef, ToolbarProps>(({
               </div>
             </div>
 
+            {/* Custom dates and facets */}
+            <FacetFilters filters={filters} onFiltersChange={setFilters} counts={facetCounts} />
+
             {/* Domains */}
             {availableDomains.length > 0 && (
               <div style={styles.filterSection}>
@@ -669,6 +882,11 @@ const styles: Record<string, React.CSSProperties> = {
     color: 'white',
     borderColor: '#D4AF37',
   },
+  buttonError: {
+    background: 'rgba(192, 57, 43, 0.1)',
+    color: '#C0392B',
+    borderColor: '#C0392B',
+  },
   filterBadge: {
     position: 'absolute',
     top: '4px',
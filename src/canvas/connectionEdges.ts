@@ -0,0 +1,36 @@
+/**
+ * Mapping from stored connections to React Flow edges, shared by the canvas
+ * and the read-only share viewer
+ */
+
+import type { Edge } from '@xyflow/react';
+import type { CardConnection } from '@/types/connection';
+
+/**
+ * Convert Connection to React Flow Edge
+ */
+export function connectionToEdge(connection: CardConnection): Edge {
+  const edgeStyles = {
+    'generated-from': { stroke: '#D4AF37', strokeWidth: 2 },
+    'references': { stroke: '#8B7355', strokeWidth: 1, strokeDasharray: '5,5' },
+    'related': { stroke: '#B89C82', strokeWidth: 1 },
+    'contradicts': { stroke: '#8B0000', strokeWidth: 2 },
+    'custom': { stroke: '#8B7355', strokeWidth: 1 },
+  };
+
+  return {
+    id: connection.id,
+    source: connection.source,
+    target: connection.target,
+    type: 'smoothstep',
+    label: connection.label,
+    style: edgeStyles[connection.type] || edgeStyles.related,
+    animated: connection.type === 'generated-from',
+    markerEnd: {
+      type: 'arrowclosed',
+      width: 20,
+      height: 20,
+      color: edgeStyles[connection.type]?.stroke || '#B89C82',
+    },
+  };
+}
@@ -0,0 +1,28 @@
+/**
+ * Minimap node colors: each domain (or first tag) gets a stable palette color
+ */
+
+import type { Node } from '@xyflow/react';
+import type { Card, MiniMapSettings } from '@/types/card';
+import type { CanvasGroup } from '@/types/group';
+
+const PALETTE = ['#D4AF37', '#8B7355', '#C0392B', '#27AE60', '#2980B9', '#8E44AD', '#D35400', '#16A085'];
+const UNCOLORED = '#F2EBE1';
+
+export function colorForKey(key: string): string {
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) {
+    hash = (hash * 31 + key.charCodeAt(i)) | 0;
+  }
+  return PALETTE[Math.abs(hash) % PALETTE.length];
+}
+
+export function miniMapNodeColor(node: Node, colorBy: MiniMapSettings['colorBy']): string {
+  if (node.type === 'groupNode') {
+    // Frames show as a faint wash behind their cards
+    return `${(node.data.group as CanvasGroup).color}33`;
+  }
+  const card = node.data.card as Card | undefined;
+  const key = colorBy === 'tag' ? card?.tags[0] : card?.metadata.domain;
+  return key ? colorForKey(key) : UNCOLORED;
+}
@@ -26,6 +26,11 @@ export function useButtons() {
   }, []);
 
   const loadButtons = async () => {
+    if (typeof chrome === 'undefined' || !chrome.storage) {
+      setIsLoading(false);
+      return;
+    }
+
     try {
       setIsLoading(true);
       const result = await chrome.storage.local.get(CUSTOM_BUTTONS_KEY);
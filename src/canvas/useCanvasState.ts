@@ -2,22 +2,66 @@ import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { Node, Edge, NodeChange, applyNodeChanges, Viewport } from '@xyflow/react';
 import type { Card, CanvasState, StorageStats } from '@/types/card';
 import type { CardConnection, ConnectionType } from '@/types/connection';
+import type { Board } from '@/types/board';
+import type { CanvasGroup, CanvasRect } from '@/types/group';
 import { loadConnections, saveConnections } from '@/utils/connectionStorage';
+import { loadGroups, saveGroups } from '@/utils/groupStorage';
 import { generateId } from '@/utils/storage';
+import { connectionToEdge } from './connectionEdges';
+import { getCardsByStashed, getCardRecords, putCards, countCards } from '@/utils/cardRepository';
+import {
+  DEFAULT_BOARD_ID,
+  getActiveBoardId,
+  getBoards,
+  isCardOnBoard,
+  isConnectionOnBoard,
+  setActiveBoard,
+} from '@/shared/services/boardService';
+import { COLLAPSED_GROUP_SIZE, findGroupAt, isGroupOnBoard } from '@/shared/services/groupService';
+import {
+  LAYOUT_ALGORITHMS,
+  applyLayout,
+  buildLayoutEdges,
+  computeLayout,
+  type LayoutAlgorithm,
+  type LayoutNode,
+  type LayoutPositions,
+} from '@/shared/services/layoutService';
+import {
+  embedQuery,
+  rankByQueryEmbedding,
+  type QueryEmbedding,
+  type SimilarityResult,
+} from '@/shared/services/semanticSearchService';
+import {
+  countFacets,
+  filterCards,
+  resolveSearchQuery,
+  type FacetCounts,
+  type FilterState,
+} from '@/shared/services/filterService';
+import { buildSearchIndex, buildSnippet, hasTextQuery } from '@/shared/services/searchIndexService';
+import { loadAllElementChatPages } from '@/services/elementChatService';
+import type { ElementChatSession } from '@/types/elementChat';
+import {
+  recordHistory,
+  cardChange,
+  connectionChange,
+  groupChange,
+  undo as undoHistory,
+  redo as redoHistory,
+  type HistoryChange,
+  type HistoryEntry,
+} from '@/shared/services/historyService';
 
 const STORAGE_KEY = 'nabokov_canvas_state';
-const CARDS_KEY = 'cards'; // Must match the key used in src/utils/storage.ts
 const FILTERS_KEY = 'nabokov_filters';
 const DEBOUNCE_DELAY = 2000; // 2 seconds
 const VIEWPORT_DEBOUNCE_DELAY = 500; // 500ms for viewport (faster than card saves)
+const SEMANTIC_SEARCH_DEBOUNCE_DELAY = 400; // Wait for typing to pause before embedding the query
+const LAYOUT_ANIMATION_DURATION = 400;
 
-export interface FilterState {
-  searchQuery: string;
-  starredOnly: boolean;
-  selectedDomains: string[];
-  selectedTags: string[];
-  dateRange: 'all' | 'last7days' | 'last30days';
-}
+export type { FilterState };
 
 interface UseCanvasStateReturn {
   nodes: Node[];
@@ -31,21 +75,35 @@ interface UseCanvasStateReturn {
   refreshStats: () => Promise<void>;
   filters: FilterState;
   setFilters: (filters: FilterState) => void;
+  /** Ranked matches while a semantic search is active; null falls back to substring search */
+  semanticResults: SimilarityResult[] | null;
+  semanticError: string | null;
   availableDomains: string[];
   availableTags: string[];
+  /** Cards each facet value would keep, given the other filters */
+  facetCounts: FacetCounts;
   connections: CardConnection[];
   addConnection: (source: string, target: string, type: ConnectionType, label?: string) => Promise<void>;
   removeConnection: (connectionId: string) => Promise<void>;
+  undo: () => Promise<HistoryEntry | null>;
+  redo: () => Promise<HistoryEntry | null>;
   viewport: Viewport;
   onViewportChange: (viewport: Viewport) => void;
   shouldFitView: boolean;
+  boards: Board[];
+  activeBoardId: string;
+  switchBoard: (boardId: string) => Promise<void>;
+  groups: CanvasGroup[];
+  runLayout: (algorithm: LayoutAlgorithm, options?: { cardIds?: string[]; rootId?: string }) => Promise<number>;
 }
 
 /**
  * Custom hook for managing canvas state
- * - Loads cards from chrome.storage.local on mount
- * - Converts cards to React Flow nodes
- * - Auto-saves position/size changes with debouncing
+ * - Loads the active board's cards from the card repository on mount
+ * - Keeps a separate viewport per board
+ * - Converts cards and group frames to React Flow nodes
+ * - Auto-saves position/size changes with debouncing (one undo step per save)
+ * - Runs animated automatic layouts
  * - Provides storage stats
  * - Handles search and filter functionality
  */
@@ -53,7 +111,12 @@ export function useCanvasState(): UseCanvasStateReturn {
   const [nodes, setNodes] = useState<Node[]>([]);
   const [edges, setEdges] = useState<Edge[]>([]);
   const [cards, setCards] = useState<Card[]>([]);
+  // All connections (every board) so saves don't drop other boards' connections
+  const [allConnections, setAllConnections] = useState<CardConnection[]>([]);
   const [connections, setConnections] = useState<CardConnection[]>([]);
+  const [boards, setBoards] = useState<Board[]>([]);
+  const [activeBoardId, setActiveBoardId] = useState(DEFAULT_BOARD_ID);
+  const [groups, setGroups] = useState<CanvasGroup[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [stats, setStats] = useState<StorageStats | null>(null);
@@ -65,12 +128,24 @@ export function useCanvasState(): UseCanvasStateReturn {
     dateRange: 'all',
   });
 
+  // Element chat transcripts, searched along with the card clipped from their page
+  const [elementChats, setElementChats] = useState<ElementChatSession[]>([]);
+  const [semanticResults, setSemanticResults] = useState<SimilarityResult[] | null>(null);
+  const [semanticError, setSemanticError] = useState<string | null>(null);
+
   const [viewport, setViewport] = useState<Viewport>({ x: 0, y: 0, zoom: 1 });
   const [shouldFitView, setShouldFitView] = useState(false);
 
   const saveTimeoutRef = useRef<NodeJS.Timeout>();
   const pendingChangesRef = useRef<Map<string, Node>>(new Map());
   const viewportSaveTimeoutRef = useRef<NodeJS.Timeout>();
+  // Embedding of the last semantic query, reused until the query text changes
+  const queryEmbeddingRef = useRef<{ query: string; embedding: Promise<QueryEmbedding> }>();
+  const activeBoardIdRef = useRef(DEFAULT_BOARD_ID);
+  // The active board's groups, read by the debounced save
+  const groupsRef = useRef<CanvasGroup[]>([]);
+  // Cards dragged by the user (not moved along with a frame) since the last save
+  const droppedCardIdsRef = useRef<Set<string>>(new Set());
 
   // Load initial canvas state and cards
   useEffect(() => {
@@ -82,10 +157,17 @@ export function useCanvasState(): UseCanvasStateReturn {
       loadCanvasState();
     };
     window.addEventListener('nabokov:cards-updated', handleCardUpdate);
+    window.addEventListener('nabokov:boards-updated', handleCardUpdate);
 
     // Listen for runtime messages (cross-context)
     const handleRuntimeMessage = (message: any) => {
-      if (message.type === 'STASH_UPDATED' || message.type === 'CARD_STASHED') {
+      if (
+        message.type === 'STASH_UPDATED' ||
+        message.type === 'CARD_STASHED' ||
+        message.type === 'SYNC_APPLIED' ||
+        message.type === 'BOARDS_UPDATED' ||
+        message.type === 'GROUPS_UPDATED'
+      ) {
         console.log('[Canvas] Received stash update via runtime message');
         loadCanvasState();
       }
@@ -94,6 +176,7 @@ export function useCanvasState(): UseCanvasStateReturn {
 
     return () => {
       window.removeEventListener('nabokov:cards-updated', handleCardUpdate);
+      window.removeEventListener('nabokov:boards-updated', handleCardUpdate);
       chrome.runtime.onMessage.removeListener(handleRuntimeMessage);
     };
   }, []);
@@ -104,54 +187,79 @@ export function useCanvasState(): UseCanvasStateReturn {
       setIsLoading(true);
       setError(null);
 
-      // Load cards and filters from chrome.storage
-      console.log('[Canvas] Loading from keys:', [CARDS_KEY, STORAGE_KEY, FILTERS_KEY]);
-      const result = await chrome.storage.local.get([CARDS_KEY, STORAGE_KEY, FILTERS_KEY]);
+      // Load visible (non-stashed) cards from the repository, viewport and filters from chrome.storage
+      console.log('[Canvas] Loading from keys:', [STORAGE_KEY, FILTERS_KEY]);
+      const [unstashedCards, result, loadedBoards, boardId, loadedGroups, chatPages] = await Promise.all([
+        getCardsByStashed(false),
+        chrome.storage.local.get([STORAGE_KEY, FILTERS_KEY]),
+        getBoards(),
+        getActiveBoardId(),
+        loadGroups(),
+        loadAllElementChatPages(),
+      ]);
       console.log('[Canvas] Raw storage result:', result);
 
-      const loadedCards: Card[] = result[CARDS_KEY] || [];
+      // Only the active board's cards are shown
+      const visibleCards = unstashedCards.filter(card => isCardOnBoard(card, boardId, loadedBoards));
+      activeBoardIdRef.current = boardId;
+      setBoards(loadedBoards);
+      setActiveBoardId(boardId);
+
+      const boardGroups = loadedGroups.filter(group => isGroupOnBoard(group, boardId, loadedBoards));
+      groupsRef.current = boardGroups;
+      setGroups(boardGroups);
+
       const canvasState: CanvasState | undefined = result[STORAGE_KEY];
       const savedFilters: FilterState | undefined = result[FILTERS_KEY];
 
-      // Filter out stashed cards (they're hidden from canvas)
-      const visibleCards = loadedCards.filter((card) => !card.stashed);
-
-      console.log('[Canvas] Loaded cards count:', loadedCards.length);
       console.log('[Canvas] Visible cards count (excluding stashed):', visibleCards.length);
       console.log('[Canvas] Canvas state:', canvasState);
       console.log('[Canvas] Saved filters:', savedFilters);
 
       setCards(visibleCards);
+      setElementChats(chatPages.flatMap(page => Object.values(page.sessions)));
 
       // Restore saved filters
       if (savedFilters) {
         setFiltersState(savedFilters);
       }
 
-      // Restore saved viewport or fit view for first-time users
-      if (canvasState?.viewportPosition) {
-        console.log('[Canvas] Restoring saved viewport:', canvasState.viewportPosition);
-        setViewport(canvasState.viewportPosition);
+      // Restore the board's saved viewport or fit view for first-time users
+      const savedViewport =
+        canvasState?.boardViewports?.[boardId] ??
+        (boardId === DEFAULT_BOARD_ID ? canvasState?.viewportPosition : undefined);
+      if (savedViewport) {
+        console.log('[Canvas] Restoring saved viewport:', savedViewport);
+        setViewport(savedViewport);
         setShouldFitView(false);
       } else {
         console.log('[Canvas] No saved viewport, will fit view on first load');
         setShouldFitView(true);
       }
 
-      // Load connections
+      // Load connections, keeping the ones drawn on this board
       const loadedConnections = await loadConnections();
+      const cardIdsOnBoard = new Set(visibleCards.map(card => card.id));
+      const boardConnections = loadedConnections.filter(connection =>
+        isConnectionOnBoard(connection, boardId, cardIdsOnBoard, loadedBoards)
+      );
       console.log('[Canvas] Loaded connections count:', loadedConnections.length);
-      setConnections(loadedConnections);
+      setAllConnections(loadedConnections);
+      setConnections(boardConnections);
 
       // Convert connections to React Flow edges
-      const flowEdges = loadedConnections.map(connectionToEdge);
+      const flowEdges = boardConnections.map(connectionToEdge);
       setEdges(flowEdges);
       console.log('[Canvas] Created React Flow edges count:', flowEdges.length);
 
-      // Convert cards to React Flow nodes (only visible cards, not stashed)
-      const flowNodes = visibleCards.map((card, index) =>
-        cardToNode(card, index, canvasState)
-      );
+      // Convert cards to React Flow nodes (only visible cards, not stashed).
+      // Frames come first so they render behind their cards.
+      const flowNodes = [
+        ...boardGroups.map(group => groupToNode(group, visibleCards)),
+        ...visibleCards.map((card, index) =>
+          cardToNode(card, index, canvasState, boardGroups)
+        ),
+      ];
 
       console.log('[Canvas] Created React Flow nodes count:', flowNodes.length);
       console.log('[Canvas] React Flow nodes:', flowNodes);
@@ -174,11 +282,10 @@ export function useCanvasState(): UseCanvasStateReturn {
   const refreshStats = async () => {
     try {
       const bytesInUse = await chrome.storage.local.getBytesInUse();
-      const result = await chrome.storage.local.get(CARDS_KEY);
-      const cards: Card[] = result[CARDS_KEY] || [];
+      const totalCards = await countCards();
 
       setStats({
-        totalCards: cards.length,
+        totalCards,
         bytesUsed: bytesInUse,
         quotaBytes: chrome.storage.local.QUOTA_BYTES,
       });
@@ -190,7 +297,12 @@ export function useCanvasState(): UseCanvasStateReturn {
   /**
    * Convert Card to React Flow Node
    */
-  const cardToNode = (card: Card, index: number, _canvasState?: CanvasState): Node => {
+  const cardToNode = (
+    card: Card,
+    index: number,
+    _canvasState?: CanvasState,
+    boardGroups: CanvasGroup[] = []
+  ): Node => {
     // Use saved position or calculate grid position
     const position = card.position || calculateGridPosition(index);
 
@@ -208,6 +320,30 @@ export function useCanvasState(): UseCanvasStateReturn {
         width: size.width,
         height: size.height,
       },
+      // Cards in a collapsed frame are represented by the frame
+      hidden: boardGroups.some(group => group.collapsed && group.id === card.groupId),
+    };
+  };
+
+  /**
+   * Convert a group to a React Flow node drawn behind the cards
+   */
+  const groupToNode = (group: CanvasGroup, boardCards: Card[]): Node => {
+    const size = group.collapsed ? COLLAPSED_GROUP_SIZE : group.size;
+
+    return {
+      id: group.id,
+      type: 'groupNode',
+      position: group.position,
+      data: {
+        group,
+        memberCount: boardCards.filter(card => card.groupId === group.id).length,
+      },
+      style: {
+        width: size.width,
+        height: size.height,
+      },
+      zIndex: -1000,
     };
   };
 
@@ -235,7 +371,7 @@ export function useCanvasState(): UseCanvasStateReturn {
    */
   const onNodesChange = useCallback((changes: NodeChange[]) => {
     setNodes((nds) => {
-      const updatedNodes = applyNodeChanges(changes, nds);
+      const updatedNodes = applyNodeChanges([...changes, ...followGroupMoves(changes, nds)], nds);
 
       // Track nodes that need to be saved
       changes.forEach((change) => {
@@ -247,6 +383,14 @@ export function useCanvasState(): UseCanvasStateReturn {
           const node = updatedNodes.find(n => n.id === change.id);
           if (node) {
             pendingChangesRef.current.set(node.id, node);
+            if (node.type === 'cardNode') {
+              droppedCardIdsRef.current.add(node.id);
+            } else if (node.type === 'groupNode') {
+              // Members moved along with the frame
+              updatedNodes
+                .filter(n => (n.data.card as Card | undefined)?.groupId === node.id)
+                .forEach(n => pendingChangesRef.current.set(n.id, n));
+            }
           }
         } else if (change.type === 'dimensions') {
           const node = updatedNodes.find(n => n.id === change.id);
@@ -271,6 +415,36 @@ export function useCanvasState(): UseCanvasStateReturn {
     });
   }, []);
 
+  /**
+   * Position changes that move a dragged frame's cards by the same offset.
+   * Cards dragged together with their frame already have their own change.
+   */
+  const followGroupMoves = (changes: NodeChange[], nds: Node[]): NodeChange[] => {
+    const moved = new Set(changes.filter(change => change.type === 'position').map(change => change.id));
+    const follow: NodeChange[] = [];
+
+    changes.forEach((change) => {
+      if (change.type !== 'position' || !change.position) return;
+      const groupNode = nds.find(n => n.id === change.id && n.type === 'groupNode');
+      if (!groupNode) return;
+
+      const dx = change.position.x - groupNode.position.x;
+      const dy = change.position.y - groupNode.position.y;
+      nds
+        .filter(n => (n.data.card as Card | undefined)?.groupId === groupNode.id && !moved.has(n.id))
+        .forEach((n) => {
+          follow.push({
+            type: 'position',
+            id: n.id,
+            position: { x: n.position.x + dx, y: n.position.y + dy },
+            dragging: change.dragging,
+          });
+        });
+    });
+
+    return follow;
+  };
+
   /**
    * Save node position/size changes to storage
    */
@@ -280,44 +454,93 @@ export function useCanvasState(): UseCanvasStateReturn {
 
       if (nodesToSave.length === 0) return;
 
-      // Load current cards
-      const result = await chrome.storage.local.get(CARDS_KEY);
-      const currentCards: Card[] = result[CARDS_KEY] || [];
+      // Helper function to extract numeric dimension from various formats
+      const getNumericDimension = (value: any, fallback: number): number => {
+        if (typeof value === 'number') return value;
+        if (typeof value === 'string') {
+          const parsed = parseFloat(value);
+          if (!isNaN(parsed)) return parsed;
+        }
+        return fallback;
+      };
+
+      // In React Flow v12, dimensions are stored in node.measured.width/height
+      // Try multiple sources for width/height in order of preference
+      const getNodeSize = (node: Node, fallback: { width: number; height: number }) => ({
+        width:
+          getNumericDimension(node.measured?.width, 0) ||     // React Flow v12 measured dimensions (primary)
+          getNumericDimension(node.width, 0) ||               // Direct property (if setAttributes was used)
+          getNumericDimension(node.style?.width, 0) ||        // Style property (legacy/fallback)
+          fallback.width,                                     // Existing saved size or default
+        height:
+          getNumericDimension(node.measured?.height, 0) ||
+          getNumericDimension(node.height, 0) ||
+          getNumericDimension(node.style?.height, 0) ||
+          fallback.height,
+      });
+
+      // Frames first, so dropped cards are matched against their new bounds
+      const groupNodes = nodesToSave.filter(n => n.type === 'groupNode');
+      const changes: HistoryChange[] = [];
+      let groupResized = false;
+      if (groupNodes.length > 0) {
+        const allGroups = await loadGroups();
+        const updatedGroups = allGroups.map(group => {
+          const node = groupNodes.find(n => n.id === group.id);
+          if (!node) return group;
+
+          // A collapsed frame's node size is the summary size, not the frame's
+          const size = group.collapsed ? group.size : getNodeSize(node, group.size);
+          if (
+            node.position.x === group.position.x &&
+            node.position.y === group.position.y &&
+            size.width === group.size.width &&
+            size.height === group.size.height
+          ) {
+            return group;
+          }
+          if (size.width !== group.size.width || size.height !== group.size.height) {
+            groupResized = true;
+          }
+          const updated: CanvasGroup = { ...group, position: node.position, size, updatedAt: Date.now() };
+          changes.push(groupChange(group, updated));
+          return updated;
+        });
+
+        if (changes.length > 0) {
+          await saveGroups(updatedGroups);
+          groupsRef.current = groupsRef.current.map(group =>
+            updatedGroups.find(g => g.id === group.id) ?? group
+          );
+          setGroups(groupsRef.current);
+        }
+      }
 
-      // Update cards with new positions/sizes
+      // Load only the cards that changed
+      const cardNodes = nodesToSave.filter(n => n.type !== 'groupNode');
+      const currentCards = await getCardRecords(cardNodes.map(n => n.id));
+
+      // Update cards with new positions/sizes. Cards the user dropped join
+      // the frame they landed in, or leave their frame.
       const updatedCards = currentCards.map(card => {
-        const node = nodesToSave.find(n => n.id === card.id);
+        const node = cardNodes.find(n => n.id === card.id);
         if (node) {
-          // Helper function to extract numeric dimension from various formats
-          const getNumericDimension = (value: any, fallback: number): number => {
-            if (typeof value === 'number') return value;
-            if (typeof value === 'string') {
-              const parsed = parseFloat(value);
-              if (!isNaN(parsed)) return parsed;
-            }
-            return fallback;
-          };
-
-          // In React Flow v12, dimensions are stored in node.measured.width/height
-          // Try multiple sources for width/height in order of preference
-          const width =
-            getNumericDimension(node.measured?.width, 0) ||     // React Flow v12 measured dimensions (primary)
-            getNumericDimension(node.width, 0) ||               // Direct property (if setAttributes was used)
-            getNumericDimension(node.style?.width, 0) ||        // Style property (legacy/fallback)
-            card.size?.width ||                                  // Existing saved size
-            320;                                                 // Default
-
-          const height =
-            getNumericDimension(node.measured?.height, 0) ||    // React Flow v12 measured dimensions (primary)
-            getNumericDimension(node.height, 0) ||              // Direct property (if setAttributes was used)
-            getNumericDimension(node.style?.height, 0) ||       // Style property (legacy/fallback)
-            card.size?.height ||                                 // Existing saved size
-            240;                                                 // Default
+          const size = getNodeSize(node, {
+            width: card.size?.width || 320,
+            height: card.size?.height || 240,
+          });
+
+          let groupId = card.groupId;
+          if (droppedCardIdsRef.current.has(card.id)) {
+            const rect: CanvasRect = { ...node.position, ...size };
+            groupId = findGroupAt(groupsRef.current, rect)?.id;
+          }
 
           return {
             ...card,
             position: node.position,
-            size: { width, height },
+            size,
+            groupId,
             updatedAt: Date.now(),
           };
         }
@@ -325,12 +548,35 @@ export function useCanvasState(): UseCanvasStateReturn {
       });
 
       // Save updated cards
-      await chrome.storage.local.set({ [CARDS_KEY]: updatedCards });
+      if (updatedCards.length > 0) {
+        await putCards(updatedCards);
+      }
+      changes.push(...updatedCards.map((card, i) => cardChange(currentCards[i], card)));
+
+      // One undo step for the whole debounced batch
+      const resized = updatedCards.some((card, i) =>
+        card.size?.width !== currentCards[i].size?.width || card.size?.height !== currentCards[i].size?.height
+      );
+      const regrouped = updatedCards.some((card, i) => card.groupId !== currentCards[i].groupId);
+      const label = groupResized
+        ? 'Resize group'
+        : resized
+          ? 'Resize card'
+          : groupNodes.length > 0
+            ? 'Move group'
+            : updatedCards.length === 1 ? 'Move card' : `Move ${updatedCards.length} cards`;
+      await recordHistory(label, changes);
+
+      // Frame member counts follow the new memberships
+      if (regrouped) {
+        setCards(prev => prev.map(card => updatedCards.find(c => c.id === card.id) ?? card));
+      }
 
       // Clear pending changes
       pendingChangesRef.current.clear();
+      droppedCardIdsRef.current.clear();
 
-      console.log(`Saved position/size changes for ${nodesToSave.length} cards`);
+      console.log(`Saved position/size changes for ${nodesToSave.length} nodes`);
     } catch (err) {
       console.error('Failed to save node changes:', err);
       setError(err instanceof Error ? err.message : 'Failed to save changes');
@@ -338,28 +584,24 @@ export function useCanvasState(): UseCanvasStateReturn {
   };
 
   /**
-   * Save viewport position and zoom to storage (debounced)
+   * Save a board's viewport position and zoom to storage (debounced)
    */
-  const saveViewport = async (newViewport: Viewport) => {
+  const saveViewport = async (newViewport: Viewport, boardId: string) => {
     try {
-      // Load current canvas state and cards so we persist both
-      const [stateResult, cardsResult] = await Promise.all([
-        chrome.storage.local.get(STORAGE_KEY),
-        chrome.storage.local.get(CARDS_KEY),
-      ]);
+      const stateResult = await chrome.storage.local.get(STORAGE_KEY);
 
       const canvasState: CanvasState = stateResult[STORAGE_KEY] || {
         cards: [],
         viewportPosition: { x: 0, y: 0, zoom: 1 },
       };
 
-      const storedCards: Card[] = cardsResult[CARDS_KEY] || [];
-
-      // Update viewport position and cards snapshot
+      // Cards live in the card repository; don't duplicate them into canvas state.
+      // viewportPosition stays the main board's viewport.
       const updatedCanvasState: CanvasState = {
         ...canvasState,
-        cards: storedCards,
-        viewportPosition: newViewport,
+        cards: [],
+        viewportPosition: boardId === DEFAULT_BOARD_ID ? newViewport : canvasState.viewportPosition,
+        boardViewports: { ...canvasState.boardViewports, [boardId]: newViewport },
       };
 
       // Save to storage
@@ -378,13 +620,14 @@ export function useCanvasState(): UseCanvasStateReturn {
     // Update local state immediately for responsive UI
     setViewport(newViewport);
 
-    // Debounced save to storage
+    // Debounced save to storage, against the board the change was made on
     if (viewportSaveTimeoutRef.current) {
       clearTimeout(viewportSaveTimeoutRef.current);
     }
 
+    const boardId = activeBoardIdRef.current;
     viewportSaveTimeoutRef.current = setTimeout(() => {
-      saveViewport(newViewport);
+      saveViewport(newViewport, boardId);
     }, VIEWPORT_DEBOUNCE_DELAY);
   }, []);
 
@@ -399,7 +642,7 @@ export function useCanvasState(): UseCanvasStateReturn {
         clearTimeout(viewportSaveTimeoutRef.current);
         // Save viewport immediately on unmount
         const currentViewport = viewport;
-        saveViewport(currentViewport);
+        saveViewport(currentViewport, activeBoardIdRef.current);
       }
     };
   }, [viewport]);
@@ -428,105 +671,107 @@ export function useCanvasState(): UseCanvasStateReturn {
     return Array.from(tags).sort();
   }, [cards]);
 
-  // Filter cards based on current filters
-  const filteredCards = useMemo(() => {
-    let result = [...cards];
-
-    // Search filter
-    if (filters.searchQuery.trim()) {
-      const query = filters.searchQuery.toLowerCase();
-      result = result.filter(card => {
-        const titleMatch = card.metadata.title.toLowerCase().includes(query);
-        const domainMatch = card.metadata.domain.toLowerCase().includes(query);
-        const contentMatch = card.content?.toLowerCase().includes(query) || false;
-        const tagsMatch = card.tags.some(tag => tag.toLowerCase().includes(query));
-        return titleMatch || domainMatch || contentMatch || tagsMatch;
-      });
-    }
+  const searchIndex = useMemo(() => buildSearchIndex(cards, elementChats), [cards, elementChats]);
+  // Search box operators folded into the filters, and the remaining free text
+  const resolvedSearch = useMemo(() => resolveSearchQuery(filters), [filters]);
 
-    // Starred filter
-    if (filters.starredOnly) {
-      result = result.filter(card => card.starred);
+  // Rank cards against the free text through the embeddings backend. A new
+  // query is embedded once typing pauses; card reloads re-rank right away
+  // with the cached query vector.
+  useEffect(() => {
+    const { phrases, terms } = resolvedSearch.text;
+    const query = [...phrases, ...terms].join(' ').trim();
+    if (!filters.semantic || !query) {
+      setSemanticResults(null);
+      setSemanticError(null);
+      return;
     }
 
-    // Domain filter
-    if (filters.selectedDomains.length > 0) {
-      result = result.filter(card =>
-        filters.selectedDomains.includes(card.metadata.domain)
-      );
-    }
+    let cancelled = false;
+    const cached = queryEmbeddingRef.current?.query === query;
+    const timeout = setTimeout(() => {
+      if (!cached) {
+        queryEmbeddingRef.current = { query, embedding: embedQuery(query) };
+      }
+      const { embedding } = queryEmbeddingRef.current!;
+      embedding
+        .then(queryEmbedding => rankByQueryEmbedding(queryEmbedding, cards))
+        .then(results => {
+          if (cancelled) return;
+          setSemanticResults(results);
+          setSemanticError(null);
+        })
+        .catch(err => {
+          // Embed the query again next time rather than caching the failure
+          if (queryEmbeddingRef.current?.embedding === embedding) {
+            queryEmbeddingRef.current = undefined;
+          }
+          if (cancelled) return;
+          console.error('[Canvas] Semantic search failed:', err);
+          setSemanticResults(null);
+          setSemanticError(err instanceof Error ? err.message : 'Semantic search failed');
+        });
+    }, cached ? 0 : SEMANTIC_SEARCH_DEBOUNCE_DELAY);
 
-    // Tags filter
-    if (filters.selectedTags.length > 0) {
-      result = result.filter(card =>
-        filters.selectedTags.some(tag => card.tags.includes(tag))
-      );
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [resolvedSearch, filters.semantic, cards]);
+
+  // What the filters apply to: semantic matches best first (the query is
+  // already used up), or all cards for full-text matching
+  const filterInput = useMemo(() => {
+    if (filters.semantic && semanticResults) {
+      const cardsById = new Map(cards.map(card => [card.id, card]));
+      const ranked = semanticResults
+        .map(({ card }) => cardsById.get(card.id))
+        .filter((card): card is Card => !!card);
+      return { cards: ranked, filters: resolvedSearch.filters };
     }
+    return { cards, filters };
+  }, [cards, filters, resolvedSearch, semanticResults]);
 
-    // Date range filter
-    if (filters.dateRange !== 'all') {
-      const now = Date.now();
-      const msPerDay = 24 * 60 * 60 * 1000;
-      const cutoff = filters.dateRange === 'last7days'
-        ? now - (7 * msPerDay)
-        : now - (30 * msPerDay);
+  const filteredCards = useMemo(
+    () => filterCards(filterInput.cards, filterInput.filters, searchIndex, connections),
+    [filterInput, searchIndex, connections]
+  );
 
-      result = result.filter(card => card.createdAt >= cutoff);
-    }
+  const facetCounts = useMemo(
+    () => countFacets(filterInput.cards, filterInput.filters, searchIndex, connections),
+    [filterInput, searchIndex, connections]
+  );
 
-    return result;
-  }, [cards, filters]);
-
-  // Update nodes when filtered cards change
+  // Update nodes when filtered cards or groups change
   useEffect(() => {
-    const flowNodes = filteredCards.map((card, index) => {
-      // Find existing node to preserve position
+    const groupNodes = groups.map(group => {
+      // Find existing node to preserve position and selection
+      const node = groupToNode(group, cards);
+      const existingNode = nodes.find(n => n.id === group.id);
+      return existingNode ? { ...existingNode, data: node.data, style: node.style } : node;
+    });
+    const showSnippets = !filters.semantic && hasTextQuery(resolvedSearch.text);
+    const cardNodes = filteredCards.map((card, index) => {
+      const node = cardToNode(card, index, undefined, groups);
+      const searchSnippet = showSnippets ? buildSnippet(searchIndex, card.id, resolvedSearch.text) : null;
       const existingNode = nodes.find(n => n.id === card.id);
       if (existingNode) {
         return {
           ...existingNode,
-          data: { card },
+          data: { card, searchSnippet },
+          hidden: node.hidden,
         };
       }
-      return cardToNode(card, index);
+      return { ...node, data: { ...node.data, searchSnippet } };
     });
-    setNodes(flowNodes);
-  }, [filteredCards]);
+    setNodes([...groupNodes, ...cardNodes]);
+  }, [filteredCards, groups]);
 
   // Update filters handler
   const setFilters = useCallback((newFilters: FilterState) => {
     setFiltersState(newFilters);
   }, []);
 
-  /**
-   * Convert Connection to React Flow Edge
-   */
-  const connectionToEdge = (connection: CardConnection): Edge => {
-    const edgeStyles = {
-      'generated-from': { stroke: '#D4AF37', strokeWidth: 2 },
-      'references': { stroke: '#8B7355', strokeWidth: 1, strokeDasharray: '5,5' },
-      'related': { stroke: '#B89C82', strokeWidth: 1 },
-      'contradicts': { stroke: '#8B0000', strokeWidth: 2 },
-      'custom': { stroke: '#8B7355', strokeWidth: 1 },
-    };
-
-    return {
-      id: connection.id,
-      source: connection.source,
-      target: connection.target,
-      type: 'smoothstep',
-      label: connection.label,
-      style: edgeStyles[connection.type] || edgeStyles.related,
-      animated: connection.type === 'generated-from',
-      markerEnd: {
-        type: 'arrowclosed',
-        width: 20,
-        height: 20,
-        color: edgeStyles[connection.type]?.stroke || '#B89C82',
-      },
-    };
-  };
-
   /**
    * Add a new connection between two cards
    */
@@ -543,15 +788,18 @@ export function useCanvasState(): UseCanvasStateReturn {
         target,
         type,
         label,
+        boardId: activeBoardIdRef.current,
         metadata: {
           createdAt: Date.now(),
           createdBy: 'user',
         },
       };
 
-      const updatedConnections = [...connections, newConnection];
-      setConnections(updatedConnections);
+      const updatedConnections = [...allConnections, newConnection];
+      setAllConnections(updatedConnections);
+      setConnections(prev => [...prev, newConnection]);
       await saveConnections(updatedConnections);
+      await recordHistory('Add connection', [connectionChange(null, newConnection)]);
 
       // Update edges
       const newEdge = connectionToEdge(newConnection);
@@ -562,16 +810,19 @@ export function useCanvasState(): UseCanvasStateReturn {
       console.error('[Canvas] Error adding connection:', err);
       throw err;
     }
-  }, [connections]);
+  }, [allConnections]);
 
   /**
    * Remove a connection by ID
    */
   const removeConnection = useCallback(async (connectionId: string) => {
     try {
-      const updatedConnections = connections.filter(c => c.id !== connectionId);
-      setConnections(updatedConnections);
+      const removed = allConnections.find(c => c.id === connectionId);
+      const updatedConnections = allConnections.filter(c => c.id !== connectionId);
+      setAllConnections(updatedConnections);
+      setConnections(prev => prev.filter(c => c.id !== connectionId));
       await saveConnections(updatedConnections);
+      await recordHistory('Remove connection', [connectionChange(removed, null)]);
 
       // Update edges
       setEdges(prev => prev.filter(e => e.id !== connectionId));
@@ -581,7 +832,131 @@ export function useCanvasState(): UseCanvasStateReturn {
       console.error('[Canvas] Error removing connection:', err);
       throw err;
     }
-  }, [connections]);
+  }, [allConnections]);
+
+  /**
+   * Flush any debounced position/size save so it lands on the history stack
+   * before undo/redo runs
+   */
+  const flushPendingChanges = async () => {
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+      saveTimeoutRef.current = undefined;
+    }
+    await saveNodeChanges();
+  };
+
+  /**
+   * Undo the last recorded change. The canvas reloads via nabokov:cards-updated.
+   */
+  const undo = useCallback(async () => {
+    await flushPendingChanges();
+    return undoHistory();
+  }, []);
+
+  /**
+   * Redo the last undone change
+   */
+  const redo = useCallback(async () => {
+    await flushPendingChanges();
+    return redoHistory();
+  }, []);
+
+  /**
+   * Move nodes to new positions over a short ease-in-out animation
+   */
+  const animateNodePositions = (positions: LayoutPositions) => {
+    const start = new Map(
+      nodes.filter(node => positions[node.id]).map(node => [node.id, node.position])
+    );
+
+    return new Promise<void>((resolve) => {
+      const startTime = performance.now();
+      const step = (now: number) => {
+        const t = Math.min((now - startTime) / LAYOUT_ANIMATION_DURATION, 1);
+        const eased = t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+
+        setNodes(nds => nds.map(node => {
+          const from = start.get(node.id);
+          const to = positions[node.id];
+          if (!from || !to) return node;
+          return {
+            ...node,
+            position: {
+              x: from.x + (to.x - from.x) * eased,
+              y: from.y + (to.y - from.y) * eased,
+            },
+          };
+        }));
+
+        if (t < 1) {
+          requestAnimationFrame(step);
+        } else {
+          resolve();
+        }
+      };
+      requestAnimationFrame(step);
+    });
+  };
+
+  /**
+   * Arrange the given cards (default: every visible card) with a layout
+   * algorithm, animate them into place and save the result as one undo step.
+   * Cards hidden in collapsed frames stay put.
+   *
+   * @returns Number of cards laid out
+   */
+  const runLayout = useCallback(async (
+    algorithm: LayoutAlgorithm,
+    options: { cardIds?: string[]; rootId?: string } = {}
+  ) => {
+    const layoutNodes: LayoutNode[] = nodes
+      .filter(node =>
+        node.type === 'cardNode' &&
+        !node.hidden &&
+        (!options.cardIds || options.cardIds.includes(node.id))
+      )
+      .map(node => {
+        const card = node.data.card as Card;
+        return {
+          id: node.id,
+          x: node.position.x,
+          y: node.position.y,
+          width: node.measured?.width ?? Number(node.style?.width ?? card.size?.width ?? 320),
+          height: node.measured?.height ?? Number(node.style?.height ?? card.size?.height ?? 240),
+          domain: card.metadata.domain,
+        };
+      });
+    if (layoutNodes.length === 0) return 0;
+
+    const positions = computeLayout(
+      algorithm,
+      layoutNodes,
+      buildLayoutEdges(cards, connections),
+      { rootId: options.rootId }
+    );
+
+    await flushPendingChanges();
+    await animateNodePositions(positions);
+    await applyLayout(positions, `${LAYOUT_ALGORITHMS[algorithm].label} layout`);
+    return layoutNodes.length;
+  }, [nodes, cards, connections]);
+
+  /**
+   * Show another board. Pending saves land on the board being left; the
+   * canvas reloads via nabokov:boards-updated.
+   */
+  const switchBoard = useCallback(async (boardId: string) => {
+    if (boardId === activeBoardIdRef.current) return;
+
+    await flushPendingChanges();
+    if (viewportSaveTimeoutRef.current) {
+      clearTimeout(viewportSaveTimeoutRef.current);
+      viewportSaveTimeoutRef.current = undefined;
+      await saveViewport(viewport, activeBoardIdRef.current);
+    }
+    await setActiveBoard(boardId);
+  }, [viewport]);
 
   return {
     nodes,
@@ -595,13 +970,23 @@ export function useCanvasState(): UseCanvasStateReturn {
     refreshStats,
     filters,
     setFilters,
+    semanticResults,
+    semanticError,
     availableDomains,
     availableTags,
+    facetCounts,
     connections,
     addConnection,
     removeConnection,
+    undo,
+    redo,
     viewport,
     onViewportChange,
     shouldFitView,
+    boards,
+    activeBoardId,
+    switchBoard,
+    groups,
+    runLayout,
   };
 }
@@ -0,0 +1,206 @@
+/** @jsxImportSource @emotion/react */
+import { useState, useEffect } from 'react';
+import { css } from '@emotion/react';
+import type { Board } from '@/types/board';
+import { createBoard, getActiveBoardId, getBoards } from '@/shared/services/boardService';
+
+interface BoardPickerModalProps {
+  title: string;
+  /** Boards that can't be picked (e.g. the ones a card is already on) */
+  excludeBoardIds?: string[];
+  onSelect: (boardId: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Lists boards to pick from, with the canvas's active board first. A new
+ * board can be created from the picker and is picked right away.
+ */
+export function BoardPickerModal({ title, excludeBoardIds = [], onSelect, onCancel }: BoardPickerModalProps) {
+  const [boards, setBoards] = useState<Board[]>([]);
+  const [activeBoardId, setActiveBoardId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([getBoards(), getActiveBoardId()])
+      .then(([loaded, activeId]) => {
+        setBoards(loaded);
+        setActiveBoardId(activeId);
+      })
+      .catch(err => {
+        console.error('[BoardPickerModal] Error loading boards:', err);
+        setError('Failed to load boards');
+      });
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  const choices = boards
+    .filter(board => !excludeBoardIds.includes(board.id))
+    .sort((a, b) => Number(b.id === activeBoardId) - Number(a.id === activeBoardId));
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const board = await createBoard(newName);
+      onSelect(board.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create board');
+    }
+  };
+
+  return (
+    <div css={styles.backdrop} onClick={onCancel}>
+      <div css={styles.modal} onClick={(e) => e.stopPropagation()} data-testid="board-picker-modal">
+        <h2 css={styles.title}>{title}</h2>
+
+        <div css={styles.list}>
+          {choices.map(board => (
+            <button key={board.id} css={styles.boardButton} onClick={() => onSelect(board.id)}>
+              <span>{board.name}</span>
+              {board.id === activeBoardId && <span css={styles.badge}>on canvas</span>}
+            </button>
+          ))}
+          {boards.length > 0 && choices.length === 0 && (
+            <p css={styles.empty}>No other boards yet.</p>
+          )}
+        </div>
+
+        <form css={styles.createRow} onSubmit={handleCreate}>
+          <input
+            css={styles.input}
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="New board name"
+          />
+          <button type="submit" css={styles.createButton} disabled={!newName.trim()}>
+            Create
+          </button>
+        </form>
+
+        {error && <div css={styles.error}>{error}</div>}
+
+        <button css={styles.cancelButton} onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+const styles = {
+  backdrop: css`
+    position: fixed;
+    top: 0;
+    left: 0;
+    right: 0;
+    bottom: 0;
+    background: rgba(0, 0, 0, 0.6);
+    backdrop-filter: blur(4px);
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    z-index: 10000;
+  `,
+  modal: css`
+    background: linear-gradient(135deg, #f5f0e8 0%, #fff8f0 100%);
+    border: 2px solid rgba(139, 0, 0, 0.2);
+    border-radius: 12px;
+    box-shadow: 0 20px 60px rgba(0, 0, 0, 0.3);
+    width: 90%;
+    max-width: 360px;
+    display: flex;
+    flex-direction: column;
+    gap: 12px;
+    padding: 20px;
+  `,
+  title: css`
+    margin: 0;
+    font-size: 18px;
+    font-weight: 600;
+    color: #8b0000;
+  `,
+  list: css`
+    display: flex;
+    flex-direction: column;
+    gap: 6px;
+    max-height: 240px;
+    overflow-y: auto;
+  `,
+  boardButton: css`
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+    padding: 10px 12px;
+    background: rgba(255, 255, 255, 0.7);
+    border: 1px solid rgba(184, 156, 130, 0.3);
+    border-radius: 6px;
+    font-size: 14px;
+    color: #3e3226;
+    text-align: left;
+    cursor: pointer;
+    transition: all 0.2s ease;
+
+    &:hover {
+      background: rgba(212, 175, 55, 0.12);
+      border-color: rgba(212, 175, 55, 0.5);
+    }
+  `,
+  badge: css`
+    font-size: 11px;
+    color: #8b7355;
+  `,
+  empty: css`
+    margin: 0;
+    font-size: 13px;
+    color: #8b7355;
+  `,
+  createRow: css`
+    display: flex;
+    gap: 8px;
+  `,
+  input: css`
+    flex: 1;
+    min-width: 0;
+    padding: 8px 10px;
+    border: 1px solid rgba(184, 156, 130, 0.4);
+    border-radius: 6px;
+    font-size: 13px;
+  `,
+  createButton: css`
+    padding: 8px 12px;
+    background: linear-gradient(135deg, #d4af37 0%, #b8941f 100%);
+    color: white;
+    border: none;
+    border-radius: 6px;
+    font-size: 13px;
+    font-weight: 600;
+    cursor: pointer;
+
+    &:disabled {
+      opacity: 0.5;
+      cursor: default;
+    }
+  `,
+  error: css`
+    font-size: 13px;
+    color: #c0392b;
+  `,
+  cancelButton: css`
+    align-self: flex-end;
+    padding: 6px 12px;
+    background: none;
+    border: 1px solid rgba(184, 156, 130, 0.3);
+    border-radius: 6px;
+    font-size: 13px;
+    color: #8b7355;
+    cursor: pointer;
+  `,
+};
@@ -15,6 +15,7 @@ import type { Card } from '@/types/card';
 import { ImageUploadZone } from '@/shared/components/ImageUpload/ImageUploadZone';
 import { fileToBase64, getImageDimensions, isImageFile } from '@/utils/imageUpload';
 import { findElementByDescriptor } from '@/services/elementIdService';
+import { formatUsage, mergeUsage, type LLMStreamEvent, type LLMUsage } from '@/services/streamEvents';
 import { upsertIndicatorsForSession, removeIndicatorsForChat, hideIndicatorsForChat, showIndicatorsForChat, showPostChatIndicator, removePostChatIndicator } from '@/services/elementChatIndicatorService';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
@@ -253,51 +254,6 @@ const isContainerAtBottom = (container: HTMLElement | null): boolean => {
   return scrollHeight - scrollTop - clientHeight <= 16;
 };
 
-const separateAssistantResponse = (
-  fullContent: string,
-  deltaHistory: string[]
-): { answer: string; thinking?: string } => {
-  const normalizedFull = normalizeNewlines(fullContent ?? '');
-  const trimmedFull = normalizedFull.trim();
-
-  if (!trimmedFull) {
-    return { answer: '' };
-  }
-
-  const doubleBreakIndex = normalizedFull.indexOf('\n\n');
-  if (doubleBreakIndex !== -1) {
-    const thinkingCandidate = normalizedFull.slice(0, doubleBreakIndex).trim();
-    const answerRaw = normalizedFull.slice(doubleBreakIndex + 2);
-    const answerCandidate = answerRaw.replace(/^\s+/, '');
-
-    if (thinkingCandidate && answerCandidate.trim().length > 0) {
-      return {
-        answer: answerCandidate,
-        thinking: thinkingCandidate,
-      };
-    }
-  }
-
-  if (deltaHistory.length > 1) {
-    const [firstChunk, ...restChunks] = deltaHistory.map(chunk => normalizeNewlines(chunk));
-    const thinkingCandidate = (firstChunk || '').trim();
-    const restCombinedRaw = restChunks.join('');
-    const restCombinedNormalized = normalizeNewlines(restCombinedRaw);
-    const answerCandidate = restCombinedNormalized.replace(/^\s+/, '');
-
-    if (thinkingCandidate && answerCandidate.trim().length > 0) {
-      return {
-        answer: answerCandidate,
-        thinking: thinkingCandidate,
-      };
-    }
-  }
-
-  return {
-    answer: normalizedFull.replace(/^\s+/, ''),
-  };
-};
-
 export const __test__ = {
   formatStreamingChunk,
   ensureInlineBlockBreaks,
@@ -393,6 +349,7 @@ export const ElementChatWindow: React.FC<ElementChatWindowProps> = ({
   const [inputValue, setInputValue] = useState('');
   const [isStreaming, setIsStreaming] = useState(false);
   const [streamingDeltas, setStreamingDeltas] = useState<string[]>([]);
+  const [streamingThinking, setStreamingThinking] = useState('');
   const [expandedReasoningMap, setExpandedReasoningMap] = useState<Record<string, boolean>>({});
   const [collapseState, setCollapseState] = useState<CollapseState>(() => {
     if (existingSession?.windowState?.collapseState) {
@@ -492,6 +449,7 @@ export const ElementChatWindow: React.FC<ElementChatWindowProps> = ({
     }
     streamingDeltaHistoryRef.current = [];
     setStreamingDeltas([]);
+    setStreamingThinking('');
   };
 
   const toggleReasoningForMessage = useCallback((messageId: string) => {
@@ -1144,13 +1102,28 @@ export const ElementChatWindow: React.FC<ElementChatWindowProps> = ({
         }
 
         let assistantContent = '';
+        let assistantThinking = '';
+        let assistantUsage: LLMUsage | undefined;
         const stream = await chatWithPage(
           systemPrompt,
           [...newMessages].map(m => ({
             role: m.role,
             content: m.content,
             images: m.images
-          }))
+          })),
+          {
+            onEvent: (event: LLMStreamEvent) => {
+              if (!isMountedRef.current) {
+                return;
+              }
+              if (event.type === 'thinking_delta') {
+                assistantThinking += normalizeNewlines(event.text);
+                setStreamingThinking(assistantThinking);
+              } else if (event.type === 'usage') {
+                assistantUsage = mergeUsage(assistantUsage, event.usage);
+              }
+            }
+          }
         );
 
         resetStreamingSnapshot(false);
@@ -1212,23 +1185,14 @@ export const ElementChatWindow: React.FC<ElementChatWindowProps> = ({
             })()
           : newMessages;
 
-        const deltaHistorySnapshot = [...streamingDeltaHistoryRef.current];
-        const { answer: assistantAnswerRaw, thinking: assistantThinkingRaw } = separateAssistantResponse(
-          assistantContent,
-          deltaHistorySnapshot
-        );
-        const assistantContentForStorage = assistantAnswerRaw.trim().length > 0
-          ? assistantAnswerRaw
-          : assistantContent.replace(/^\s+/, '');
+        const assistantContentForStorage = normalizeNewlines(assistantContent).replace(/^\s+/, '');
         const normalisedAssistant = assistantContentForStorage.trim();
         if (!normalisedAssistant) {
           resetStreamingSnapshot(true);
           return;
         }
 
-        const assistantThinkingForStorage = assistantAnswerRaw.trim().length > 0 && assistantThinkingRaw
-          ? assistantThinkingRaw.trim()
-          : undefined;
+        const assistantThinkingForStorage = assistantThinking.trim() || undefined;
 
         const shouldForceDuplicate = Boolean(testDuplicateConfig) && !(
           typeof testDuplicateConfig === 'object' && testDuplicateConfig !== null && testDuplicateConfig.duplicate === false
@@ -1240,6 +1204,7 @@ export const ElementChatWindow: React.FC<ElementChatWindowProps> = ({
             role: 'assistant',
             content: assistantContentForStorage,
             thinking: assistantThinkingForStorage,
+            usage: assistantUsage,
             timestamp: Date.now(),
             turnId,
           };
@@ -1271,6 +1236,7 @@ export const ElementChatWindow: React.FC<ElementChatWindowProps> = ({
                 ...message,
                 content: assistantContentForStorage,
                 thinking: assistantThinkingForStorage,
+                usage: assistantUsage,
                 timestamp: assistantTimestamp,
                 turnId,
               };
@@ -1289,6 +1255,7 @@ export const ElementChatWindow: React.FC<ElementChatWindowProps> = ({
               id: existingAssistantId,
               turnId,
               thinking: assistantThinkingForStorage,
+              usage: assistantUsage,
             });
           }
         } else {
@@ -1305,6 +1272,7 @@ export const ElementChatWindow: React.FC<ElementChatWindowProps> = ({
               ...lastMessage,
               content: assistantContentForStorage,
               thinking: assistantThinkingForStorage,
+              usage: assistantUsage,
               timestamp: assistantTimestamp,
               turnId,
             };
@@ -1325,6 +1293,7 @@ export const ElementChatWindow: React.FC<ElementChatWindowProps> = ({
               role: 'assistant',
               content: assistantContentForStorage,
               thinking: assistantThinkingForStorage,
+              usage: assistantUsage,
               timestamp: assistantTimestamp,
               turnId,
             };
@@ -1337,6 +1306,7 @@ export const ElementChatWindow: React.FC<ElementChatWindowProps> = ({
                 id: assistantMessageId,
                 turnId,
                 thinking: assistantThinkingForStorage,
+                usage: assistantUsage,
               });
             }
           }
@@ -2171,11 +2141,16 @@ const processQueue = useCallback(async () => {
                         </div>
                       )}
                       {renderMarkdown(message.content)}
+                      {message.role === 'assistant' && message.usage && (
+                        <div css={usageFooterStyles} data-usage={message.id}>
+                          {formatUsage(message.usage)}
+                        </div>
+                      )}
                     </div>
                   </div>
                 ))}
 
-                {isStreaming && streamingDeltas.length > 0 && (
+                {isStreaming && (streamingDeltas.length > 0 || streamingThinking) && (
                   <div
                     css={messageStyles('assistant')}
                     data-message-role="assistant"
@@ -2183,23 +2158,32 @@ const processQueue = useCallback(async () => {
                   >
                     <div css={messageRoleStyles}>Assistant</div>
                     <div css={messageContentStyles}>
-                      <div css={streamingDeltasContainerStyles} ref={streamingDeltasRef}>
-                        {streamingDeltas.map((delta, index) => (
-                          <div
-                            css={streamingDeltaLineStyles}
-                            key={`delta-${index}`}
-                            data-delta-index={index}
-                          >
-                            {renderMarkdown(delta)}
+                      {streamingThinking && (
+                        <div css={reasoningContainerStyles} data-reasoning-streaming="true">
+                          <div css={reasoningContentStyles}>
+                            {renderMarkdown(streamingThinking)}
                           </div>
-                        ))}
-                      </div>
+                        </div>
+                      )}
+                      {streamingDeltas.length > 0 && (
+                        <div css={streamingDeltasContainerStyles} ref={streamingDeltasRef}>
+                          {streamingDeltas.map((delta, index) => (
+                            <div
+                              css={streamingDeltaLineStyles}
+                              key={`delta-${index}`}
+                              data-delta-index={index}
+                            >
+                              {renderMarkdown(delta)}
+                            </div>
+                          ))}
+                        </div>
+                      )}
                       <span css={cursorStyles}>▊</span>
                     </div>
                   </div>
                 )}
 
-                {isStreaming && streamingDeltas.length === 0 && (
+                {isStreaming && streamingDeltas.length === 0 && !streamingThinking && (
                   <div css={messageStyles('assistant')}>
                     <div css={messageRoleStyles}>Assistant</div>
                     <div css={loadingDotsStyles}>
@@ -2883,6 +2867,12 @@ const streamingIndicatorStyles = css`
   }
 `;
 
+const usageFooterStyles = css`
+  margin-top: 6px;
+  font-size: 11px;
+  opacity: 0.6;
+`;
+
 const streamingDeltasContainerStyles = css`
   display: flex;
   flex-direction: column;
@@ -258,7 +258,6 @@ export const ElementSelector: FC<ElementSelectorProps> = ({
           domain: new URL(window.location.href).hostname,
           timestamp: Date.now(),
           tagName: 'multi-element',
-          selector: `${selections.length} elements combined`,
           textContent: selections.map(s => s.element.textContent || '').join(' '),
           dimensions: {
             width: 0,
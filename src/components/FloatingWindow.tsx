@@ -9,6 +9,7 @@ import { windowManager } from '@/services/windowManager';
 import { chatService } from '@/services/chatService';
 import { saveCard, generateId } from '@/utils/storage';
 import { addConnection as saveConnection } from '@/utils/connectionStorage';
+import { placeGeneratedCard } from '@/shared/services/layoutService';
 
 /**
  * Props for FloatingWindow component
@@ -119,7 +120,8 @@ export const FloatingWindow: React.FC<FloatingWindowProps> = ({
         `;
       }).join('');
 
-      // Create new card
+      // Create new card next to its source on the canvas
+      const size = { width: 400, height: 300 };
       const newCard: Card = {
         id: generateId(),
         content: conversationHTML,
@@ -133,8 +135,8 @@ export const FloatingWindow: React.FC<FloatingWindowProps> = ({
           favicon: '💬',
           timestamp: Date.now(),
         },
-        position: undefined, // Will be auto-positioned on canvas
-        size: { width: 400, height: 300 },
+        position: destination === 'canvas' ? await placeGeneratedCard(card, size) : undefined,
+        size,
         starred: false,
         tags: ['chat', 'ai-generated'],
         createdAt: Date.now(),
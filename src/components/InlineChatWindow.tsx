@@ -8,6 +8,7 @@ import type { ElementContext } from '@/services/elementContextCapture';
 import { formatPageContextAsPrompt, capturePageContext } from '@/services/pageContextCapture';
 import { formatElementContextAsPrompt } from '@/services/elementContextCapture';
 import { fileToBase64, getImageDimensions, isImageFile } from '@/utils/imageUpload';
+import { formatUsage, mergeUsage, type LLMStreamEvent, type LLMUsage } from '@/services/streamEvents';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 
@@ -26,6 +27,8 @@ interface Message {
   status?: MessageStatus;
   linkedTo?: string;
   createdAt: number;
+  thinking?: string;
+  usage?: LLMUsage;
 }
 
 const generateMessageId = (prefix: 'user' | 'assistant'): string => {
@@ -95,6 +98,7 @@ export const InlineChatWindow: React.FC<InlineChatWindowProps> = ({
   const [inputValue, setInputValue] = useState('');
   const [isStreaming, setIsStreaming] = useState(false);
   const [streamingContent, setStreamingContent] = useState('');
+  const [streamingThinking, setStreamingThinking] = useState('');
   const [collapsed, setCollapsed] = useState(false);
   const [windowSize, setWindowSize] = useState({ width: 420, height: 550 });
   const [pendingImages, setPendingImages] = useState<Array<{
@@ -325,7 +329,8 @@ export const InlineChatWindow: React.FC<InlineChatWindowProps> = ({
 
         const response = await claudeAPIService.sendMessage(claudeMessages, {
           system: systemPrompt,
-          maxTokens: 4096
+          maxTokens: 4096,
+          route: 'chat',
         });
 
         const assistantMessage: Message = {
@@ -346,12 +351,24 @@ export const InlineChatWindow: React.FC<InlineChatWindowProps> = ({
         const { chatWithPage } = await import('@/services/claudeAPIService');
 
         let assistantContent = '';
+        let assistantThinking = '';
+        let assistantUsage: LLMUsage | undefined;
         const stream = await chatWithPage(
           systemPrompt,
           conversationSlice.map(m => ({
             role: m.role,
             content: m.content
-          }))
+          })),
+          {
+            onEvent: (event: LLMStreamEvent) => {
+              if (event.type === 'thinking_delta') {
+                assistantThinking += event.text;
+                setStreamingThinking(assistantThinking);
+              } else if (event.type === 'usage') {
+                assistantUsage = mergeUsage(assistantUsage, event.usage);
+              }
+            }
+          }
         );
 
         for await (const chunk of stream) {
@@ -366,7 +383,9 @@ export const InlineChatWindow: React.FC<InlineChatWindowProps> = ({
           content: assistantContent,
           createdAt: Date.now(),
           linkedTo: nextMessage.id,
-          status: 'complete'
+          status: 'complete',
+          ...(assistantThinking.trim() ? { thinking: assistantThinking.trim() } : {}),
+          ...(assistantUsage ? { usage: assistantUsage } : {})
         };
 
         insertAssistantAfter(nextMessage.id, assistantMessage);
@@ -396,6 +415,7 @@ export const InlineChatWindow: React.FC<InlineChatWindowProps> = ({
       messageQueueRef.current = messageQueueRef.current.slice(1);
       setQueueSize(messageQueueRef.current.length);
       setStreamingContent('');
+      setStreamingThinking('');
       setIsStreaming(false);
       isProcessingQueueRef.current = false;
 
@@ -416,7 +436,7 @@ export const InlineChatWindow: React.FC<InlineChatWindowProps> = ({
     });
 
     return () => cancelAnimationFrame(raf);
-  }, [messages, streamingContent, isUserAnchoredBottom]);
+  }, [messages, streamingContent, streamingThinking, isUserAnchoredBottom]);
 
   // Focus input on mount
   useEffect(() => {
@@ -1099,22 +1119,39 @@ export const InlineChatWindow: React.FC<InlineChatWindowProps> = ({
                         ))}
                       </div>
                     )}
+                    {message.role === 'assistant' && message.thinking && (
+                      <details css={thinkingStyles} data-testid="inline-chat-message-thinking">
+                        <summary>Reasoning</summary>
+                        <div css={thinkingTextStyles}>{message.thinking}</div>
+                      </details>
+                    )}
                     <div css={messageContentStyles} data-testid="inline-chat-message-text">
                       {renderMarkdown(message.content)}
                     </div>
+                    {message.role === 'assistant' && message.usage && (
+                      <div css={usageStyles}>{formatUsage(message.usage)}</div>
+                    )}
                   </div>
                 ))
               )}
-              {isStreaming && streamingContent && (
+              {isStreaming && (streamingContent || streamingThinking) && (
                 <div css={messageStyles('assistant')}>
                   <div css={messageRoleStyles}>Assistant</div>
-                  <div css={messageContentStyles}>
-                    {renderMarkdown(streamingContent)}
-                    <span css={cursorStyles}>▊</span>
-                  </div>
+                  {streamingThinking && (
+                    <div css={thinkingStyles}>
+                      <div css={thinkingLabelStyles}>{streamingContent ? 'Reasoning' : 'Thinking…'}</div>
+                      <div css={thinkingTextStyles}>{streamingThinking}</div>
+                    </div>
+                  )}
+                  {streamingContent && (
+                    <div css={messageContentStyles}>
+                      {renderMarkdown(streamingContent)}
+                      <span css={cursorStyles}>▊</span>
+                    </div>
+                  )}
                 </div>
               )}
-              {isStreaming && !streamingContent && (
+              {isStreaming && !streamingContent && !streamingThinking && (
                 <div css={messageStyles('assistant')}>
                   <div css={messageRoleStyles}>Assistant</div>
                   <div css={loadingDotsStyles}>
@@ -1543,6 +1580,36 @@ const messageContentStyles = css`
   }
 `;
 
+const thinkingStyles = css`
+  padding: 6px 10px;
+  border-radius: 8px;
+  border: 1px solid rgba(161, 44, 44, 0.18);
+  background: rgba(161, 44, 44, 0.04);
+  font-size: 12px;
+  color: #6b4a4a;
+
+  summary {
+    cursor: pointer;
+    font-weight: 600;
+  }
+`;
+
+const thinkingLabelStyles = css`
+  font-weight: 600;
+`;
+
+const thinkingTextStyles = css`
+  margin-top: 4px;
+  white-space: pre-wrap;
+  max-height: 160px;
+  overflow-y: auto;
+`;
+
+const usageStyles = css`
+  font-size: 11px;
+  color: #9a7b7b;
+`;
+
 const cursorStyles = css`
   animation: blink 1s infinite;
   color: #b23232;
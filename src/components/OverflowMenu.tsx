@@ -12,6 +12,11 @@ interface OverflowMenuProps {
   onStash: (e?: React.MouseEvent) => void | Promise<void>;
   onToggleStar: (e?: React.MouseEvent) => void | Promise<void>;
   onButtonSettings: (e?: React.MouseEvent) => void | Promise<void>;
+  onShowHistory?: (e?: React.MouseEvent) => void | Promise<void>;
+  onFindSimilar?: () => void;
+  onMoveToBoard?: () => void;
+  onAddToBoard?: () => void;
+  onRemoveFromBoard?: () => void | Promise<void>;
   connectionCount: number;
   position?: { top: number; right: number };
 }
@@ -26,6 +31,11 @@ export const OverflowMenu: React.FC<OverflowMenuProps> = ({
   onStash,
   onToggleStar,
   onButtonSettings,
+  onShowHistory,
+  onFindSimilar,
+  onMoveToBoard,
+  onAddToBoard,
+  onRemoveFromBoard,
   connectionCount,
   position = { top: 40, right: 12 },
 }) => {
@@ -85,6 +95,84 @@ export const OverflowMenu: React.FC<OverflowMenuProps> = ({
         <span style={styles.menuText}>Open as Window</span>
       </button>
 
+      {/* Revision History */}
+      {onShowHistory && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onShowHistory();
+            onClose();
+          }}
+          style={styles.menuItem}
+          data-testid="overflow-revision-history"
+        >
+          <span style={styles.menuIcon}>🕘</span>
+          <span style={styles.menuText}>Revision History</span>
+        </button>
+      )}
+
+      {/* Find Similar */}
+      {onFindSimilar && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onFindSimilar();
+            onClose();
+          }}
+          style={styles.menuItem}
+          data-testid="overflow-find-similar"
+        >
+          <span style={styles.menuIcon}>≈</span>
+          <span style={styles.menuText}>Find Similar Cards</span>
+        </button>
+      )}
+
+      {/* Boards */}
+      {(onMoveToBoard || onAddToBoard || onRemoveFromBoard) && <div style={styles.divider} />}
+      {onMoveToBoard && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onMoveToBoard();
+            onClose();
+          }}
+          style={styles.menuItem}
+          data-testid="overflow-move-to-board"
+        >
+          <span style={styles.menuIcon}>➜</span>
+          <span style={styles.menuText}>Move to Board...</span>
+        </button>
+      )}
+      {onAddToBoard && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onAddToBoard();
+            onClose();
+          }}
+          style={styles.menuItem}
+          data-testid="overflow-add-to-board"
+        >
+          <span style={styles.menuIcon}>⧉</span>
+          <span style={styles.menuText}>Also Show on Board...</span>
+        </button>
+      )}
+      {onRemoveFromBoard && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onRemoveFromBoard();
+            onClose();
+          }}
+          style={styles.menuItem}
+          data-testid="overflow-remove-from-board"
+        >
+          <span style={styles.menuIcon}>⊖</span>
+          <span style={styles.menuText}>Remove from This Board</span>
+        </button>
+      )}
+      {(onMoveToBoard || onAddToBoard || onRemoveFromBoard) && <div style={styles.divider} />}
+
       {/* Button Settings */}
       <button
         onClick={(e) => {
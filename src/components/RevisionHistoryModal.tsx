@@ -0,0 +1,374 @@
+/** @jsxImportSource @emotion/react */
+import { useState, useEffect, useMemo } from 'react';
+import { css } from '@emotion/react';
+import type { Card, CardRevision } from '@/types/card';
+import {
+  getRevisions,
+  restoreRevision,
+  diffRevisions,
+  REVISION_CAUSE_LABELS,
+} from '@/shared/services/revisionService';
+import { recordHistory, cardChange } from '@/shared/services/historyService';
+import type { DiffRow } from '@/utils/textDiff';
+
+interface RevisionHistoryModalProps {
+  card: Card;
+  onClose: () => void;
+  onRestored?: (card: Card) => void;
+}
+
+type CompareTarget = 'current' | 'previous';
+
+export function RevisionHistoryModal({ card, onClose, onRestored }: RevisionHistoryModalProps) {
+  const [revisions, setRevisions] = useState<CardRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareTo, setCompareTo] = useState<CompareTarget>('current');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const loaded = await getRevisions(card.id);
+        setRevisions(loaded);
+        setSelectedId(prev => prev ?? loaded[loaded.length - 1]?.id ?? null);
+      } catch (err) {
+        console.error('[RevisionHistoryModal] Error loading revisions:', err);
+        setError('Failed to load revisions');
+      }
+    };
+    load();
+
+    const handleRevisionsUpdated = (event: Event) => {
+      if ((event as CustomEvent).detail?.cardId === card.id) load();
+    };
+    window.addEventListener('nabokov:revisions-updated', handleRevisionsUpdated);
+    return () => window.removeEventListener('nabokov:revisions-updated', handleRevisionsUpdated);
+  }, [card.id]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const selectedIndex = revisions.findIndex(r => r.id === selectedId);
+  const selected = selectedIndex >= 0 ? revisions[selectedIndex] : undefined;
+
+  const current = {
+    title: card.metadata.title,
+    content: card.content,
+    beautifiedContent: card.beautifiedContent,
+  };
+
+  // Left column is always the older side
+  const [leftLabel, rightLabel, rows] = useMemo<[string, string, DiffRow[]]>(() => {
+    if (!selected) return ['', '', []];
+    if (compareTo === 'previous') {
+      const previous = revisions[selectedIndex - 1];
+      return [
+        previous ? 'Previous revision' : 'Empty',
+        'Selected revision',
+        diffRevisions(previous ?? { title: '' }, selected),
+      ];
+    }
+    return ['Selected revision', 'Current', diffRevisions(selected, current)];
+  }, [selected, selectedIndex, compareTo, revisions, card]);
+
+  const isCurrent =
+    !!selected &&
+    selected.content === card.content &&
+    selected.beautifiedContent === card.beautifiedContent &&
+    selected.title === card.metadata.title;
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    setIsRestoring(true);
+    setError(null);
+    try {
+      const restored = await restoreRevision(card.id, selected.id);
+      await recordHistory('Restore revision', [cardChange(card, restored)]);
+      onRestored?.(restored);
+      onClose();
+    } catch (err) {
+      console.error('[RevisionHistoryModal] Error restoring revision:', err);
+      setError(err instanceof Error ? err.message : 'Failed to restore revision');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div css={styles.backdrop} onClick={onClose}>
+      <div css={styles.modal} onClick={(e) => e.stopPropagation()} data-testid="revision-history-modal">
+        <div css={styles.header}>
+          <h2 css={styles.title}>🕘 Revision History</h2>
+          <button css={styles.closeButton} onClick={onClose}>
+            ✕
+          </button>
+        </div>
+
+        {error && <div css={styles.error}>⚠️ {error}</div>}
+
+        {revisions.length === 0 ? (
+          <div css={styles.empty}>No revisions yet. Edits, beautify and fill-in will show up here.</div>
+        ) : (
+          <div css={styles.body}>
+            {/* Revision list, newest first */}
+            <div css={styles.list}>
+              {[...revisions].reverse().map((revision) => (
+                <button
+                  key={revision.id}
+                  css={[styles.revision, revision.id === selectedId && styles.revisionActive]}
+                  onClick={() => setSelectedId(revision.id)}
+                  data-testid="revision-item"
+                >
+                  <div css={styles.revisionCause}>
+                    {REVISION_CAUSE_LABELS[revision.cause]}
+                    <span css={styles.authorBadge}>{revision.author === 'ai' ? '✨ AI' : '👤 You'}</span>
+                  </div>
+                  <div css={styles.revisionTime}>{new Date(revision.timestamp).toLocaleString()}</div>
+                </button>
+              ))}
+            </div>
+
+            {/* Side-by-side diff */}
+            <div css={styles.diffPane}>
+              <div css={styles.diffToolbar}>
+                <label css={styles.compareLabel}>
+                  Compare with{' '}
+                  <select
+                    value={compareTo}
+                    onChange={(e) => setCompareTo(e.target.value as CompareTarget)}
+                    css={styles.compareSelect}
+                  >
+                    <option value="current">current content</option>
+                    <option value="previous">previous revision</option>
+                  </select>
+                </label>
+                <button
+                  css={styles.restoreButton}
+                  onClick={handleRestore}
+                  disabled={!selected || isCurrent || isRestoring}
+                  data-testid="restore-revision-btn"
+                >
+                  {isRestoring ? 'Restoring...' : isCurrent ? 'Current version' : 'Restore this revision'}
+                </button>
+              </div>
+
+              <div css={styles.diffHeader}>
+                <div>{leftLabel}</div>
+                <div>{rightLabel}</div>
+              </div>
+              <div css={styles.diff}>
+                {rows.map((row, index) => (
+                  <div key={index} css={styles.diffRow}>
+                    <div css={[styles.diffCell, row.left !== undefined && row.op !== 'same' && styles.removed]}>
+                      {row.left ?? ''}
+                    </div>
+                    <div css={[styles.diffCell, row.right !== undefined && row.op !== 'same' && styles.added]}>
+                      {row.right ?? ''}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const styles = {
+  backdrop: css`
+    position: fixed;
+    top: 0;
+    left: 0;
+    right: 0;
+    bottom: 0;
+    background: rgba(0, 0, 0, 0.6);
+    backdrop-filter: blur(4px);
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    z-index: 10000;
+  `,
+  modal: css`
+    background: linear-gradient(135deg, #f5f0e8 0%, #fff8f0 100%);
+    border: 2px solid rgba(139, 0, 0, 0.2);
+    border-radius: 12px;
+    box-shadow: 0 20px 60px rgba(0, 0, 0, 0.3);
+    width: 90%;
+    max-width: 1100px;
+    height: 80vh;
+    display: flex;
+    flex-direction: column;
+    padding: 24px;
+  `,
+  header: css`
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+    margin-bottom: 16px;
+  `,
+  title: css`
+    margin: 0;
+    font-size: 24px;
+    font-weight: 600;
+    color: #8b0000;
+  `,
+  closeButton: css`
+    background: none;
+    border: none;
+    font-size: 24px;
+    color: #8b7355;
+    cursor: pointer;
+    padding: 4px 8px;
+    border-radius: 4px;
+    transition: all 0.2s ease;
+
+    &:hover {
+      background: rgba(139, 0, 0, 0.1);
+      color: #8b0000;
+    }
+  `,
+  error: css`
+    background: rgba(255, 0, 0, 0.1);
+    border: 1px solid rgba(255, 0, 0, 0.3);
+    border-radius: 6px;
+    padding: 12px;
+    margin-bottom: 16px;
+    color: #8b0000;
+    font-size: 14px;
+  `,
+  empty: css`
+    padding: 40px;
+    text-align: center;
+    color: #8b7355;
+    font-size: 14px;
+  `,
+  body: css`
+    display: flex;
+    gap: 16px;
+    flex: 1;
+    min-height: 0;
+  `,
+  list: css`
+    width: 220px;
+    flex-shrink: 0;
+    overflow-y: auto;
+    display: flex;
+    flex-direction: column;
+    gap: 6px;
+  `,
+  revision: css`
+    text-align: left;
+    padding: 10px 12px;
+    background: white;
+    border: 1px solid rgba(139, 115, 85, 0.2);
+    border-radius: 6px;
+    cursor: pointer;
+    transition: all 0.2s ease;
+
+    &:hover {
+      border-color: rgba(212, 175, 55, 0.5);
+    }
+  `,
+  revisionActive: css`
+    border-color: #d4af37;
+    background: rgba(212, 175, 55, 0.15);
+  `,
+  revisionCause: css`
+    display: flex;
+    justify-content: space-between;
+    font-weight: 600;
+    font-size: 13px;
+    color: #3e3226;
+  `,
+  authorBadge: css`
+    font-size: 11px;
+    font-weight: 500;
+    color: #8b7355;
+  `,
+  revisionTime: css`
+    margin-top: 4px;
+    font-size: 11px;
+    color: #8b7355;
+  `,
+  diffPane: css`
+    flex: 1;
+    min-width: 0;
+    display: flex;
+    flex-direction: column;
+  `,
+  diffToolbar: css`
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+    margin-bottom: 10px;
+  `,
+  compareLabel: css`
+    font-size: 13px;
+    color: #5c4d42;
+  `,
+  compareSelect: css`
+    padding: 4px 8px;
+    border: 1px solid rgba(139, 115, 85, 0.3);
+    border-radius: 4px;
+    background: white;
+    color: #3e3226;
+  `,
+  restoreButton: css`
+    padding: 8px 16px;
+    background: linear-gradient(135deg, #d4af37 0%, #b8941f 100%);
+    border: none;
+    border-radius: 6px;
+    color: white;
+    font-weight: 600;
+    cursor: pointer;
+
+    &:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+  `,
+  diffHeader: css`
+    display: grid;
+    grid-template-columns: 1fr 1fr;
+    gap: 8px;
+    font-size: 12px;
+    font-weight: 600;
+    color: #8b7355;
+    margin-bottom: 4px;
+  `,
+  diff: css`
+    flex: 1;
+    overflow-y: auto;
+    background: white;
+    border: 1px solid rgba(139, 115, 85, 0.2);
+    border-radius: 6px;
+    font-family: ui-monospace, SFMono-Regular, Menlo, monospace;
+    font-size: 12px;
+  `,
+  diffRow: css`
+    display: grid;
+    grid-template-columns: 1fr 1fr;
+    gap: 8px;
+  `,
+  diffCell: css`
+    padding: 2px 8px;
+    white-space: pre-wrap;
+    word-break: break-word;
+    color: #3e3226;
+    min-height: 1.4em;
+  `,
+  removed: css`
+    background: rgba(139, 0, 0, 0.1);
+  `,
+  added: css`
+    background: rgba(34, 139, 34, 0.12);
+  `,
+};
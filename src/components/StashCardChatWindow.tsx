@@ -4,7 +4,7 @@ import type { Card } from '@/types/card';
 export interface StashCardChatWindowProps {
   card: Card;
   onClose: () => void;
-  onSaveToCanvas: (card: Card) => Promise<void>;
+  onSaveToCanvas: (card: Card) => Promise<boolean | void>;
   onSaveToStash: (card: Card) => Promise<void>;
 }
 
@@ -10,7 +10,7 @@
  * 3. User selects an element
  * 4. ElementSelector captures element data
  * 5. FloatingChat appears for conversation
- * 6. Data saved to chrome.storage.local and IndexedDB
+ * 6. Data saved to the extension's IndexedDB card repository (via the background worker)
  * 7. User closes chat or presses ESC to deactivate
  */
 
@@ -26,6 +26,7 @@ import { capturePageContext } from '../services/pageContextCapture';
 import { captureElementContext } from '../services/elementContextCapture';
 import { Card } from '../types';
 import { saveCard, generateId } from '../utils/storage';
+import { routeCardRepositoryThroughBackground } from '../utils/cardRepository';
 import type { ElementDescriptor } from '@/services/elementIdService';
 import * as textHighlightService from '@/services/textSelectionHighlightService';
 
@@ -1504,6 +1505,10 @@ function handleContextMenu(event: MouseEvent): void {
  */
 function initialize(): void {
   console.log('[content] Initializing Nabokov Web Clipper content script...');
+
+  // The page origin's IndexedDB is not the extension's; send card reads/writes to the background worker
+  routeCardRepositoryThroughBackground();
+
   console.log('[content] Adding message listener...');
 
   // Add message listener
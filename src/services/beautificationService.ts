@@ -8,6 +8,8 @@ import { getCardById, saveCard } from '@/utils/storage';
 import DOMPurify from 'dompurify';
 import { claudeAPIService, type ClaudeMessage } from './claudeAPIService';
 import { apiConfigService } from './apiConfig';
+import { recordHistory, cardChange } from '@/shared/services/historyService';
+import { recordRevision } from '@/shared/services/revisionService';
 
 /**
  * Markdown-based prompt templates
@@ -121,6 +123,8 @@ export class BeautificationService implements IBeautificationService {
       };
 
       await saveCard(updatedCard);
+      await recordHistory('Beautify card', [cardChange(card, updatedCard)]);
+      await recordRevision(updatedCard, 'beautify', 'ai', card);
 
       // Trigger refresh
       window.dispatchEvent(new CustomEvent('nabokov:cards-updated'));
@@ -162,6 +166,8 @@ export class BeautificationService implements IBeautificationService {
       };
 
       await saveCard(updatedCard);
+      await recordHistory('Revert beautification', [cardChange(card, updatedCard)]);
+      await recordRevision(updatedCard, 'revert-beautify', 'user', card);
 
       // Trigger refresh
       window.dispatchEvent(new CustomEvent('nabokov:cards-updated'));
@@ -210,6 +216,7 @@ export class BeautificationService implements IBeautificationService {
       const beautifiedMarkdown = await claudeAPIService.sendMessage(messages, {
         system: systemPrompt,
         maxTokens: 4096,
+        route: 'beautify',
       });
 
       console.log('[BeautificationService] ✓ Claude API success');
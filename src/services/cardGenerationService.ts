@@ -6,6 +6,8 @@
 import type { Card } from '@/types/card';
 import type { CardButton } from '@/types/button';
 import { generateId, saveCard } from '@/utils/storage';
+import { recordRevision } from '@/shared/services/revisionService';
+import { placeGeneratedCard } from '@/shared/services/layoutService';
 import { addConnection } from '@/utils/connectionStorage';
 import { claudeAPIService } from './claudeAPIService';
 import { apiConfigService } from './apiConfig';
@@ -41,8 +43,9 @@ export class CardGenerationService {
       );
     }
 
-    // Calculate position for new card (to the right of source)
-    const position = this.calculatePosition(sourceCard);
+    // Place new card to the right of source, in the first slot that overlaps no card
+    const size = { width: 400, height: 300 };
+    const position = await placeGeneratedCard(sourceCard, size);
     const cardId = generateId();
     const now = Date.now();
 
@@ -60,7 +63,7 @@ export class CardGenerationService {
         timestamp: now,
       },
       position,
-      size: { width: 400, height: 300 },
+      size,
       starred: false,
       tags: ['ai-generated', button.label.toLowerCase()],
       createdAt: now,
@@ -104,7 +107,8 @@ export class CardGenerationService {
         { role: 'user', content: prompt }
       ], {
         system: 'You are a helpful assistant generating new content based on existing cards.',
-        maxTokens: 3072
+        maxTokens: 3072,
+        route: 'generate',
       });
 
       console.log('[cardGenerationService] ✓ Claude API success');
@@ -155,6 +159,7 @@ export class CardGenerationService {
     // Save final card
     console.log('[cardGenerationService] Updating with final content');
     await saveCard(finalCard);
+    await recordRevision(finalCard, 'generate', 'ai');
 
     // Dispatch event to refresh canvas with final content
     window.dispatchEvent(new CustomEvent('nabokov:cards-updated'));
@@ -210,22 +215,6 @@ export class CardGenerationService {
       .map(para => `<p>${para.replace(/\n/g, '<br>')}</p>`)
       .join('');
   }
-
-  /**
-   * Calculate position for new card relative to source
-   * @param sourceCard - Source card
-   * @returns Position for new card
-   */
-  private calculatePosition(sourceCard: Card): { x: number; y: number } {
-    const baseX = sourceCard.position?.x || 0;
-    const baseY = sourceCard.position?.y || 0;
-    const cardWidth = sourceCard.size?.width || 320;
-
-    return {
-      x: baseX + cardWidth + 60, // 60px gap
-      y: baseY,
-    };
-  }
 }
 
 // Singleton instance
@@ -82,7 +82,9 @@ export class ChatService implements IChatService {
         { role: 'user', content: prompt }
       ], {
         system: 'You are a helpful assistant analyzing web content.',
-        maxTokens: 2048
+        maxTokens: 2048,
+        route: 'chat',
+        signal: controller.signal,
       });
 
       console.log('[ChatService] ✓ Claude API success');
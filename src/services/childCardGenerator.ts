@@ -120,7 +120,9 @@ export async function* generateChildCard(
       { role: 'user', content: prompt }
     ], {
       system: 'You are a helpful assistant generating informative content cards from selected text.',
-      maxTokens: 2048
+      maxTokens: 2048,
+      route: 'generate',
+      signal: request.signal,
     });
 
     console.log('[childCardGenerator] ✓ Claude API success');
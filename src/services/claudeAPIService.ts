@@ -4,12 +4,25 @@
  */
 
 import { apiConfigService } from './apiConfig';
+import {
+  parseAnthropicEvent,
+  parseBackendEvent,
+  readStreamEvents,
+  type LLMStreamEvent,
+  type StreamEventParser,
+} from './streamEvents';
 
 export interface ClaudeMessage {
   role: 'user' | 'assistant';
   content: string | Array<{ type: string; [key: string]: any }>;
 }
 
+/**
+ * Task hint for the local backend, which maps it to a provider chain in its
+ * routing table (e.g. a cheap model for beautify). Ignored by the direct API.
+ */
+export type LLMRoute = 'chat' | 'beautify' | 'fill-in' | 'generate';
+
 export interface ClaudeAPIRequest {
   model?: string;
   messages: ClaudeMessage[];
@@ -61,6 +74,9 @@ export class ClaudeAPIService {
       maxTokens?: number;
       temperature?: number;
       system?: string;
+      route?: LLMRoute;
+      /** Aborting cancels the request, including provider work on the backend */
+      signal?: AbortSignal;
     }
   ): Promise<string> {
     // STEP 1: Try local backend (Agent SDK with subscription auth)
@@ -71,6 +87,7 @@ export class ClaudeAPIService {
         headers: {
           'Content-Type': 'application/json',
         },
+        signal: options?.signal,
         body: JSON.stringify({
           messages,
           options: {
@@ -78,6 +95,7 @@ export class ClaudeAPIService {
             maxTokens: options?.maxTokens || this.DEFAULT_MAX_TOKENS,
             temperature: options?.temperature,
             model: options?.model || this.DEFAULT_MODEL,
+            route: options?.route,
           },
         }),
       });
@@ -96,6 +114,7 @@ export class ClaudeAPIService {
         console.log('[ClaudeAPI] Backend returned status', backendResponse.status, '- trying direct API...');
       }
     } catch (backendError) {
+      if (options?.signal?.aborted) throw backendError;
       console.log('[ClaudeAPI] Backend not running, trying direct API...');
     }
 
@@ -141,6 +160,7 @@ export class ClaudeAPIService {
           ...(apiKey ? { 'x-api-key': apiKey } : {}),
           'anthropic-version': this.API_VERSION,
         },
+        signal: options?.signal,
         body: JSON.stringify(request),
       });
 
@@ -286,7 +306,8 @@ export class ClaudeAPIService {
 
   /**
    * Send a message with streaming response
-   * Returns an async generator that yields text chunks
+   * Returns an async generator that yields answer text chunks; `onEvent`
+   * receives every stream event, including reasoning and token usage
    */
   async *sendMessageStreaming(
     messages: ClaudeMessage[],
@@ -295,16 +316,22 @@ export class ClaudeAPIService {
       maxTokens?: number;
       temperature?: number;
       system?: string;
+      route?: LLMRoute;
+      /** Aborting cancels the request, including provider work on the backend */
+      signal?: AbortSignal;
+      onEvent?: (event: LLMStreamEvent) => void;
     }
   ): AsyncGenerator<string, void, unknown> {
     // STEP 1: Try local backend first
+    let backendResponse: Response | null = null;
     try {
       console.log('[ClaudeAPI] Trying streaming via local backend...');
-      const backendResponse = await fetch(`${this.BACKEND_URL}/api/stream`, {
+      backendResponse = await fetch(`${this.BACKEND_URL}/api/stream`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
+        signal: options?.signal,
         body: JSON.stringify({
           messages,
           options: {
@@ -312,44 +339,25 @@ export class ClaudeAPIService {
             maxTokens: options?.maxTokens || this.DEFAULT_MAX_TOKENS,
             temperature: options?.temperature,
             model: options?.model || this.DEFAULT_MODEL,
+            route: options?.route,
           },
         }),
       });
+    } catch (backendError) {
+      if (options?.signal?.aborted) throw backendError;
+      console.log('[ClaudeAPI] Backend not running, trying direct API...');
+    }
 
-      if (backendResponse.ok && backendResponse.body) {
-        console.log('[ClaudeAPI] ✓ Streaming via backend (subscription auth)');
-        const reader = backendResponse.body.getReader();
-        const decoder = new TextDecoder();
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          const chunk = decoder.decode(value, { stream: true });
-          const lines = chunk.split('\n').filter(line => line.trim());
-
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              const data = line.slice(6);
-              if (data === '[DONE]') continue;
-
-              try {
-                const parsed = JSON.parse(data);
-                if (parsed.delta?.text) {
-                  yield parsed.delta.text;
-                }
-              } catch (e) {
-                console.warn('[ClaudeAPI] Failed to parse SSE data:', data);
-              }
-            }
-          }
-        }
-        return;
-      }
+    if (backendResponse?.ok && backendResponse.body) {
+      console.log('[ClaudeAPI] ✓ Streaming via backend (subscription auth)');
+      // Once the backend has answered, its errors are final: retrying
+      // against the direct API could repeat text already yielded
+      yield* this.streamText(backendResponse.body, parseBackendEvent, options?.onEvent);
+      return;
+    }
 
+    if (backendResponse) {
       console.log('[ClaudeAPI] Backend streaming unavailable, trying direct API...');
-    } catch (backendError) {
-      console.log('[ClaudeAPI] Backend not running, trying direct API...');
     }
 
     // STEP 2: Try direct API with streaming
@@ -378,6 +386,7 @@ export class ClaudeAPIService {
         ...(apiKey ? { 'x-api-key': apiKey } : {}),
         'anthropic-version': this.API_VERSION,
       },
+      signal: options?.signal,
       body: JSON.stringify(request),
     });
 
@@ -396,30 +405,27 @@ export class ClaudeAPIService {
     }
 
     console.log('[ClaudeAPI] ✓ Direct API streaming started');
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
-
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      const chunk = decoder.decode(value, { stream: true });
-      const lines = chunk.split('\n').filter(line => line.trim());
-
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6);
-          if (data === '[DONE]') continue;
-
-          try {
-            const parsed = JSON.parse(data);
-            if (parsed.type === 'content_block_delta' && parsed.delta?.text) {
-              yield parsed.delta.text;
-            }
-          } catch (e) {
-            console.warn('[ClaudeAPI] Failed to parse SSE data:', data);
-          }
-        }
+    yield* this.streamText(response.body, parseAnthropicEvent, options?.onEvent);
+  }
+
+  /**
+   * Report each stream event and yield the answer text; an error event
+   * ends the stream by throwing
+   */
+  private async *streamText(
+    body: ReadableStream<Uint8Array>,
+    parse: StreamEventParser,
+    onEvent?: (event: LLMStreamEvent) => void
+  ): AsyncGenerator<string, void, unknown> {
+    for await (const event of readStreamEvents(body, parse)) {
+      onEvent?.(event);
+
+      if (event.type === 'queued') {
+        console.log(`[ClaudeAPI] Queued for ${event.providerKey} (position ${event.position})`);
+      } else if (event.type === 'text_delta') {
+        yield event.text;
+      } else if (event.type === 'error') {
+        throw new Error(event.message);
       }
     }
   }
@@ -457,7 +463,11 @@ export const claudeAPIService = new ClaudeAPIService();
  */
 export async function* chatWithPage(
   systemPrompt: string,
-  messages: Array<{ role: 'user' | 'assistant'; content: string }>
+  messages: Array<{ role: 'user' | 'assistant'; content: string }>,
+  options?: {
+    /** Reasoning, tool use and token usage alongside the yielded answer text */
+    onEvent?: (event: LLMStreamEvent) => void;
+  }
 ): AsyncGenerator<string, void, unknown> {
   const testStreamConfig = typeof window !== 'undefined'
     ? (window as any).__NABOKOV_TEST_STREAM__
@@ -485,6 +495,8 @@ export async function* chatWithPage(
   yield* claudeAPIService.sendMessageStreaming(claudeMessages, {
     system: systemPrompt,
     maxTokens: 4096,
-    temperature: 0.7
+    temperature: 0.7,
+    route: 'chat',
+    onEvent: options?.onEvent,
   });
 }
@@ -61,6 +61,11 @@ function generateChatId(): string {
   return `chat-${timestamp}-${random}`;
 }
 
+/**
+ * Prefix of every chrome.storage.local key holding a page's element chats
+ */
+export const ELEMENT_CHATS_KEY_PREFIX = 'nabokov_element_chats_';
+
 /**
  * Generate storage key for a page URL
  * Uses hash to keep key length manageable
@@ -75,7 +80,7 @@ function getStorageKey(pageUrl: string): string {
   }
 
   const hashStr = Math.abs(hash).toString(36);
-  return `nabokov_element_chats_${hashStr}`;
+  return `${ELEMENT_CHATS_KEY_PREFIX}${hashStr}`;
 }
 
 /**
@@ -201,6 +206,7 @@ export async function addMessageToChat(
     turnId?: string;
     images?: ChatMessage['images'];
     thinking?: string;
+    usage?: ChatMessage['usage'];
   }
 ): Promise<ElementChatSession> {
   const message: ChatMessage = {
@@ -220,6 +226,10 @@ export async function addMessageToChat(
     message.thinking = trimmedThinking ? trimmedThinking : undefined;
   }
 
+  if (options?.usage) {
+    message.usage = options.usage;
+  }
+
   const existingIndex = session.messages.findIndex(existing => existing.id === message.id);
   if (existingIndex >= 0) {
     session.messages[existingIndex] = {
@@ -287,6 +297,27 @@ export async function getAllElementChats(pageUrl: string): Promise<ElementChatSe
   return Object.values(storage.sessions).map(normalizeSession);
 }
 
+/**
+ * Load element chats for every page that has any
+ */
+export async function loadAllElementChatPages(): Promise<ElementChatsStorage[]> {
+  const all = await chrome.storage.local.get(null);
+  return Object.entries(all)
+    .filter(([key, value]) => key.startsWith(ELEMENT_CHATS_KEY_PREFIX) && value?.sessions)
+    .map(([, value]) => value as ElementChatsStorage);
+}
+
+/**
+ * Remove element chats for every page
+ */
+export async function clearAllElementChats(): Promise<void> {
+  const all = await chrome.storage.local.get(null);
+  const keys = Object.keys(all).filter(key => key.startsWith(ELEMENT_CHATS_KEY_PREFIX));
+  if (keys.length > 0) {
+    await chrome.storage.local.remove(keys);
+  }
+}
+
 /**
  * Check if an element has an existing chat session
  */
@@ -129,6 +129,8 @@ export async function* fillInFromConnections(
       ],
       {
         system: systemPrompt,
+        route: 'fill-in',
+        signal,
       }
     );
 
@@ -0,0 +1,204 @@
+/**
+ * Stream Events
+ * Typed events parsed from the local backend's /api/stream and from the
+ * Anthropic Messages API, so chat UIs never have to guess which part of a
+ * response is reasoning and which is the answer.
+ */
+
+export interface LLMUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+export type LLMStreamEvent =
+  | { type: 'queued'; providerKey: string; position: number }
+  | { type: 'message_start'; provider?: string; providerKey?: string; route?: string; model?: string }
+  | { type: 'thinking_delta'; text: string }
+  | { type: 'text_delta'; text: string }
+  | { type: 'tool_use'; name: string; input?: unknown }
+  | { type: 'usage'; usage: LLMUsage }
+  | { type: 'error'; message: string; code?: string }
+  | { type: 'message_stop' };
+
+export type StreamEventParser = (data: unknown) => LLMStreamEvent[];
+
+type EventFields = Record<string, unknown>;
+
+/** The fields of a parsed JSON object; anything else has none */
+const fieldsOf = (value: unknown): EventFields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as EventFields) : {};
+
+const stringOf = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+
+const toUsage = (inputTokens: unknown, outputTokens: unknown): LLMUsage | null => {
+  const usage: LLMUsage = {};
+  if (typeof inputTokens === 'number') usage.inputTokens = inputTokens;
+  if (typeof outputTokens === 'number') usage.outputTokens = outputTokens;
+  return Object.keys(usage).length > 0 ? usage : null;
+};
+
+/**
+ * Events from the local backend (see backend/README.md, POST /api/stream).
+ * Also understands the untyped `{delta:{text}}` events of older backends.
+ * Events missing a required field are dropped.
+ */
+export const parseBackendEvent: StreamEventParser = (raw) => {
+  const data = fieldsOf(raw);
+  switch (data.type) {
+    case 'queued': {
+      const providerKey = stringOf(data.providerKey);
+      return providerKey !== undefined && typeof data.position === 'number'
+        ? [{ type: 'queued', providerKey, position: data.position }]
+        : [];
+    }
+    case 'thinking_delta':
+    case 'text_delta': {
+      const text = stringOf(data.text);
+      return text !== undefined ? [{ type: data.type, text }] : [];
+    }
+    case 'tool_use': {
+      const name = stringOf(data.name);
+      return name !== undefined ? [{ type: 'tool_use', name, input: data.input }] : [];
+    }
+    case 'message_stop':
+      return [{ type: 'message_stop' }];
+    case 'message_start':
+    case 'provider':
+      return [{
+        type: 'message_start',
+        provider: stringOf(data.provider),
+        providerKey: stringOf(data.providerKey),
+        route: stringOf(data.route),
+        model: stringOf(data.model),
+      }];
+    case 'usage': {
+      const usage = toUsage(data.inputTokens, data.outputTokens);
+      return usage ? [{ type: 'usage', usage }] : [];
+    }
+    case 'error':
+    case undefined: {
+      if (data.error) {
+        return [{ type: 'error', message: String(data.error), code: stringOf(data.code) }];
+      }
+      const text = stringOf(fieldsOf(data.delta).text);
+      return text !== undefined ? [{ type: 'text_delta', text }] : [];
+    }
+    default:
+      return [];
+  }
+};
+
+/**
+ * Events from the Anthropic Messages API with `stream: true`.
+ */
+export const parseAnthropicEvent: StreamEventParser = (raw) => {
+  const data = fieldsOf(raw);
+  switch (data.type) {
+    case 'message_start': {
+      const message = fieldsOf(data.message);
+      const messageUsage = fieldsOf(message.usage);
+      const usage = toUsage(messageUsage.input_tokens, messageUsage.output_tokens);
+      return [
+        { type: 'message_start', model: stringOf(message.model) },
+        ...(usage ? [{ type: 'usage' as const, usage }] : []),
+      ];
+    }
+    case 'content_block_start': {
+      const block = fieldsOf(data.content_block);
+      const name = stringOf(block.name);
+      return block.type === 'tool_use' && name !== undefined
+        ? [{ type: 'tool_use', name, input: block.input }]
+        : [];
+    }
+    case 'content_block_delta': {
+      const delta = fieldsOf(data.delta);
+      if (typeof delta.thinking === 'string') {
+        return [{ type: 'thinking_delta', text: delta.thinking }];
+      }
+      if (typeof delta.text === 'string') {
+        return [{ type: 'text_delta', text: delta.text }];
+      }
+      return [];
+    }
+    case 'message_delta': {
+      const usage = toUsage(undefined, fieldsOf(data.usage).output_tokens);
+      return usage ? [{ type: 'usage', usage }] : [];
+    }
+    case 'message_stop':
+      return [{ type: 'message_stop' }];
+    case 'error': {
+      const error = fieldsOf(data.error);
+      return [{ type: 'error', message: stringOf(error.message) || 'Stream error', code: stringOf(error.type) }];
+    }
+    default:
+      return [];
+  }
+};
+
+/**
+ * Read server-sent events from a response body, buffering lines split
+ * across network chunks. Cancelling the returned generator closes the body.
+ */
+export async function* readStreamEvents(
+  body: ReadableStream<Uint8Array>,
+  parse: StreamEventParser
+): AsyncGenerator<LLMStreamEvent, void, unknown> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+
+  const eventsFromLine = (line: string): LLMStreamEvent[] => {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) return [];
+
+    const data = trimmed.slice(5).trim();
+    if (!data || data === '[DONE]') return [];
+
+    try {
+      return parse(JSON.parse(data));
+    } catch (e) {
+      console.warn('[streamEvents] Failed to parse SSE data:', data);
+      return [];
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffered += decoder.decode(value, { stream: true });
+      const lines = buffered.split('\n');
+      buffered = lines.pop() ?? '';
+
+      for (const line of lines) {
+        yield* eventsFromLine(line);
+      }
+    }
+
+    yield* eventsFromLine(buffered + decoder.decode());
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Merge a usage event into the running total
+ */
+export function mergeUsage(current: LLMUsage | undefined, next: LLMUsage): LLMUsage {
+  return { ...current, ...next };
+}
+
+/**
+ * Short token count label, e.g. "1,204 in · 87 out tokens"
+ */
+export function formatUsage(usage: LLMUsage | undefined): string {
+  if (!usage) return '';
+
+  const parts = [
+    typeof usage.inputTokens === 'number' ? `${usage.inputTokens.toLocaleString('en-US')} in` : null,
+    typeof usage.outputTokens === 'number' ? `${usage.outputTokens.toLocaleString('en-US')} out` : null,
+  ].filter(Boolean);
+
+  return parts.length > 0 ? `${parts.join(' · ')} tokens` : '';
+}
@@ -0,0 +1,271 @@
+/**
+ * Share Viewer
+ *
+ * Standalone, read-only canvas for snapshots published with "Publish
+ * canvas". Served by the backend at /share/:id and loaded by people who do
+ * not have the extension, so it talks to the backend only and renders cards
+ * through CardNode in read-only mode.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ReactFlow,
+  ReactFlowProvider,
+  Background,
+  BackgroundVariant,
+  Controls,
+  type Node,
+} from '@xyflow/react';
+import '@xyflow/react/dist/style.css';
+import { CardNode } from '@/canvas/CardNode';
+import { connectionToEdge } from '@/canvas/connectionEdges';
+import type { ShareSnapshot } from '@/types/share';
+
+const nodeTypes = {
+  cardNode: CardNode,
+};
+
+type ViewerState =
+  | { status: 'loading' }
+  | { status: 'password'; title: string; error?: string }
+  | { status: 'error'; message: string }
+  | { status: 'ready'; snapshot: ShareSnapshot; expiresAt: number | null };
+
+function getShareId(): string {
+  const parts = window.location.pathname.split('/').filter(Boolean);
+  return parts[parts.length - 1] ?? '';
+}
+
+async function fetchShare(id: string, password?: string): Promise<Response> {
+  return fetch(`/api/share/${encodeURIComponent(id)}`, {
+    headers: password ? { 'X-Share-Password': password } : {},
+  });
+}
+
+async function readError(response: Response): Promise<{ code?: string; message: string }> {
+  try {
+    const body = await response.json();
+    return { code: body?.code, message: body?.error || `Request failed (${response.status})` };
+  } catch {
+    return { message: `Request failed (${response.status})` };
+  }
+}
+
+function snapshotToNodes(snapshot: ShareSnapshot): Node[] {
+  return snapshot.cards.map((card, index) => {
+    const size = card.size || { width: 320, height: 240 };
+    return {
+      id: card.id,
+      type: 'cardNode',
+      position: card.position || { x: (index % 4) * 360, y: Math.floor(index / 4) * 280 },
+      data: { card, readOnly: true },
+      style: { width: size.width, height: size.height },
+    };
+  });
+}
+
+export function ShareViewer() {
+  const shareId = useMemo(getShareId, []);
+  const [state, setState] = useState<ViewerState>({ status: 'loading' });
+  const [passwordInput, setPasswordInput] = useState('');
+
+  const load = async (password?: string) => {
+    try {
+      const response = await fetchShare(shareId, password);
+      if (response.ok) {
+        const { snapshot, expiresAt } = await response.json();
+        document.title = `${snapshot.title} - Nabokov`;
+        setState({ status: 'ready', snapshot, expiresAt });
+        return;
+      }
+
+      const error = await readError(response);
+      if (error.code === 'PASSWORD_REQUIRED' || error.code === 'INVALID_PASSWORD') {
+        const info = await fetch(`/api/share/${encodeURIComponent(shareId)}/info`)
+          .then(res => (res.ok ? res.json() : null))
+          .catch(() => null);
+        setState({
+          status: 'password',
+          title: info?.title || 'Shared canvas',
+          error: error.code === 'INVALID_PASSWORD' ? error.message : undefined,
+        });
+        return;
+      }
+      setState({ status: 'error', message: error.message });
+    } catch (error) {
+      console.error('[ShareViewer] Failed to load share:', error);
+      setState({ status: 'error', message: 'Could not reach the server' });
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [shareId]);
+
+  if (state.status === 'loading') {
+    return <div style={styles.centered}>Loading shared canvas...</div>;
+  }
+
+  if (state.status === 'error') {
+    return (
+      <div style={styles.centered}>
+        <div style={styles.messageBox}>
+          <h1 style={styles.messageTitle}>Canvas unavailable</h1>
+          <p style={styles.messageText}>{state.message}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (state.status === 'password') {
+    return (
+      <div style={styles.centered}>
+        <form
+          style={styles.messageBox}
+          onSubmit={(e) => {
+            e.preventDefault();
+            load(passwordInput);
+          }}
+        >
+          <h1 style={styles.messageTitle}>🔒 {state.title}</h1>
+          <p style={styles.messageText}>This canvas is password protected.</p>
+          <input
+            type="password"
+            style={styles.passwordInput}
+            value={passwordInput}
+            onChange={(e) => setPasswordInput(e.target.value)}
+            placeholder="Password"
+            autoFocus
+          />
+          {state.error && <p style={styles.errorText}>{state.error}</p>}
+          <button type="submit" style={styles.button}>
+            View canvas
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  const { snapshot, expiresAt } = state;
+
+  return (
+    <div style={styles.container}>
+      <header style={styles.header}>
+        <h1 style={styles.title}>{snapshot.title}</h1>
+        <span style={styles.meta}>
+          Read-only · {snapshot.cards.length} card{snapshot.cards.length === 1 ? '' : 's'} · shared{' '}
+          {new Date(snapshot.createdAt).toLocaleDateString()}
+          {expiresAt !== null && ` · available until ${new Date(expiresAt).toLocaleDateString()}`}
+        </span>
+      </header>
+      <div style={styles.canvas}>
+        <ReactFlowProvider>
+          <ReactFlow
+            nodes={snapshotToNodes(snapshot)}
+            edges={snapshot.connections.map(connectionToEdge)}
+            nodeTypes={nodeTypes}
+            nodesDraggable={false}
+            nodesConnectable={false}
+            elementsSelectable={false}
+            edgesFocusable={false}
+            defaultViewport={snapshot.viewport}
+            fitView={!snapshot.viewport}
+            minZoom={0.1}
+            maxZoom={2}
+            proOptions={{ hideAttribution: true }}
+          >
+            <Background
+              variant={BackgroundVariant.Dots}
+              gap={32}
+              size={1.5}
+              color="rgba(184, 156, 130, 0.15)"
+              style={{ background: 'linear-gradient(135deg, #FAF7F2 0%, #F5F0E8 50%, #FAF7F2 100%)' }}
+            />
+            <Controls showInteractive={false} />
+          </ReactFlow>
+        </ReactFlowProvider>
+      </div>
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    width: '100%',
+    height: '100%',
+    display: 'flex',
+    flexDirection: 'column',
+  },
+  header: {
+    display: 'flex',
+    alignItems: 'baseline',
+    gap: '16px',
+    padding: '14px 24px',
+    background: 'rgba(250, 247, 242, 0.95)',
+    borderBottom: '1px solid rgba(184, 156, 130, 0.3)',
+  },
+  title: {
+    margin: 0,
+    fontSize: '18px',
+    fontWeight: 700,
+    color: '#3E3226',
+  },
+  meta: {
+    fontSize: '13px',
+    color: '#8B7355',
+  },
+  canvas: {
+    flex: 1,
+    minHeight: 0,
+  },
+  centered: {
+    width: '100%',
+    height: '100%',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    background: 'linear-gradient(135deg, #FAF7F2 0%, #F5F0E8 100%)',
+    color: '#5C4D42',
+  },
+  messageBox: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '12px',
+    width: '340px',
+    padding: '28px',
+    background: 'rgba(255, 255, 255, 0.8)',
+    borderRadius: '12px',
+    boxShadow: '0 10px 40px rgba(92, 77, 66, 0.15)',
+  },
+  messageTitle: {
+    margin: 0,
+    fontSize: '20px',
+    color: '#3E3226',
+  },
+  messageText: {
+    margin: 0,
+    fontSize: '14px',
+    color: '#8B7355',
+  },
+  passwordInput: {
+    padding: '10px 12px',
+    border: '1px solid rgba(184, 156, 130, 0.4)',
+    borderRadius: '6px',
+    fontSize: '14px',
+  },
+  errorText: {
+    margin: 0,
+    fontSize: '13px',
+    color: '#C0392B',
+  },
+  button: {
+    padding: '10px 16px',
+    background: 'linear-gradient(135deg, #D4AF37 0%, #B8941F 100%)',
+    color: 'white',
+    border: 'none',
+    borderRadius: '8px',
+    fontSize: '14px',
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+};
@@ -2,6 +2,7 @@
 import { css } from '@emotion/react';
 import React, { useRef, useEffect } from 'react';
 import type { Message, ImageAttachment } from '@/shared/types/chat';
+import { formatUsage } from '@/services/streamEvents';
 
 /**
  * Props for BaseChatUI component
@@ -15,6 +16,8 @@ export interface BaseChatUIProps {
   isStreaming: boolean;
   /** Current streaming content (if streaming) */
   streamingContent?: string;
+  /** Reasoning streamed ahead of the answer (if streaming) */
+  streamingThinking?: string;
   /** Pending images to attach to next message */
   pendingImages?: ImageAttachment[];
   /** Callback when user sends a message */
@@ -49,6 +52,7 @@ export const BaseChatUI: React.FC<BaseChatUIProps> = ({
   currentInput,
   isStreaming,
   streamingContent,
+  streamingThinking,
   pendingImages = [],
   onSendMessage,
   onInputChange,
@@ -66,7 +70,7 @@ export const BaseChatUI: React.FC<BaseChatUIProps> = ({
   // Auto-scroll to bottom on new messages
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, streamingContent]);
+  }, [messages, streamingContent, streamingThinking]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -102,6 +106,14 @@ export const BaseChatUI: React.FC<BaseChatUIProps> = ({
                 </div>
               )}
 
+              {/* Reasoning, collapsed */}
+              {msg.role === 'assistant' && msg.thinking && (
+                <details css={thinkingStyles}>
+                  <summary>Reasoning</summary>
+                  <div css={thinkingTextStyles}>{msg.thinking}</div>
+                </details>
+              )}
+
               <div css={messageContentStyles}>
                 <div
                   dangerouslySetInnerHTML={{ __html: msg.content }}
@@ -110,22 +122,33 @@ export const BaseChatUI: React.FC<BaseChatUIProps> = ({
               {msg.streaming && (
                 <span css={streamingIndicatorStyles}>▸</span>
               )}
+              {msg.role === 'assistant' && msg.usage && (
+                <div css={usageStyles}>{formatUsage(msg.usage)}</div>
+              )}
             </div>
           ))
         )}
 
         {/* Streaming message */}
-        {isStreaming && streamingContent && (
+        {isStreaming && (streamingContent || streamingThinking) && (
           <div css={messageStyles('assistant')}>
-            <div css={messageContentStyles}>
-              {streamingContent}
-              <span css={cursorStyles}>▊</span>
-            </div>
+            {streamingThinking && (
+              <div css={thinkingStyles}>
+                <div css={thinkingLabelStyles}>{streamingContent ? 'Reasoning' : 'Thinking…'}</div>
+                <div css={thinkingTextStyles}>{streamingThinking}</div>
+              </div>
+            )}
+            {streamingContent && (
+              <div css={messageContentStyles}>
+                {streamingContent}
+                <span css={cursorStyles}>▊</span>
+              </div>
+            )}
           </div>
         )}
 
         {/* Loading indicator when streaming starts */}
-        {isStreaming && !streamingContent && (
+        {isStreaming && !streamingContent && !streamingThinking && (
           <div css={messageStyles('assistant')}>
             <div css={loadingDotsStyles}>
               <span></span>
@@ -326,6 +349,37 @@ const messageContentStyles = css`
   }
 `;
 
+const thinkingStyles = css`
+  margin-bottom: 6px;
+  padding: 4px 6px;
+  border-radius: 4px;
+  background: rgba(0, 0, 0, 0.04);
+  font-size: 12px;
+  color: #666;
+
+  summary {
+    cursor: pointer;
+    font-weight: 600;
+  }
+`;
+
+const thinkingLabelStyles = css`
+  font-weight: 600;
+`;
+
+const thinkingTextStyles = css`
+  margin-top: 4px;
+  white-space: pre-wrap;
+  max-height: 160px;
+  overflow-y: auto;
+`;
+
+const usageStyles = css`
+  margin-top: 4px;
+  font-size: 11px;
+  color: #999;
+`;
+
 const streamingIndicatorStyles = css`
   display: inline-block;
   margin-left: 4px;
@@ -0,0 +1,229 @@
+/**
+ * FacetFilters Component - Created date range and card facets
+ *
+ * Every facet value shows how many cards it would keep (see countFacets).
+ */
+
+import React from 'react';
+import {
+  CARD_TYPES,
+  toDay,
+  withDayRange,
+  type BooleanFacetCount,
+  type CardType,
+  type FacetCounts,
+  type FilterState,
+} from '../../services/filterService';
+
+export interface FacetFiltersProps {
+  filters: FilterState;
+  onFiltersChange: (filters: FilterState) => void;
+  counts: FacetCounts;
+}
+
+const CARD_TYPE_LABELS: Record<CardType, string> = {
+  clipped: 'Clipped',
+  note: 'Notes',
+  generated: 'Generated',
+  image: 'Images',
+};
+
+type BooleanFacet = 'hasConversation' | 'beautified' | 'orphan';
+
+const BOOLEAN_FACETS: Array<{ key: BooleanFacet; title: string; yes: string; no: string }> = [
+  { key: 'hasConversation', title: 'AI Conversation', yes: 'With', no: 'Without' },
+  { key: 'beautified', title: 'Beautified', yes: 'Yes', no: 'No' },
+  { key: 'orphan', title: 'Connections', yes: 'Orphans', no: 'Connected' },
+];
+
+export const FacetFilters: React.FC<FacetFiltersProps> = ({ filters, onFiltersChange, counts }) => {
+  const startDay = filters.createdAfter !== undefined ? toDay(filters.createdAfter) : '';
+  // createdBefore is the midnight after the last included day
+  const endDay = filters.createdBefore !== undefined ? toDay(filters.createdBefore - 1) : '';
+
+  const toggleCardType = (type: CardType) => {
+    const selected = filters.cardTypes ?? [];
+    onFiltersChange({
+      ...filters,
+      cardTypes: selected.includes(type) ? selected.filter(t => t !== type) : [...selected, type],
+    });
+  };
+
+  const toggleColor = (color: string) => {
+    const selected = filters.colors ?? [];
+    onFiltersChange({
+      ...filters,
+      colors: selected.includes(color) ? selected.filter(c => c !== color) : [...selected, color],
+    });
+  };
+
+  const setBooleanFacet = (key: BooleanFacet, value: boolean | undefined) => {
+    onFiltersChange({ ...filters, [key]: value });
+  };
+
+  const colors = Object.keys(counts.colors).sort();
+
+  return (
+    <>
+      {/* Custom date range */}
+      <div style={styles.section}>
+        <div style={styles.sectionTitle}>Created Between</div>
+        <div style={styles.dateRow}>
+          <input
+            type="date"
+            value={startDay}
+            max={endDay || undefined}
+            onChange={(e) => onFiltersChange(withDayRange(filters, e.target.value, endDay))}
+            style={styles.dateInput}
+            aria-label="Created from"
+          />
+          <span style={styles.dateSeparator}>–</span>
+          <input
+            type="date"
+            value={endDay}
+            min={startDay || undefined}
+            onChange={(e) => onFiltersChange(withDayRange(filters, startDay, e.target.value))}
+            style={styles.dateInput}
+            aria-label="Created until"
+          />
+        </div>
+      </div>
+
+      {/* Card type */}
+      <div style={styles.section}>
+        <div style={styles.sectionTitle}>Card Type</div>
+        <div style={styles.options}>
+          {CARD_TYPES.map(type => (
+            <button
+              key={type}
+              onClick={() => toggleCardType(type)}
+              style={{
+                ...styles.option,
+                ...(filters.cardTypes?.includes(type) ? styles.optionActive : {}),
+              }}
+            >
+              {CARD_TYPE_LABELS[type]}
+              <span style={styles.count}>{counts.cardTypes[type]}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Yes/no facets */}
+      {BOOLEAN_FACETS.map(({ key, title, yes, no }) => {
+        const count: BooleanFacetCount = counts[key];
+        const value = filters[key];
+        return (
+          <div key={key} style={styles.section}>
+            <div style={styles.sectionTitle}>{title}</div>
+            <div style={styles.options}>
+              {([
+                [undefined, 'Any', count.yes + count.no],
+                [true, yes, count.yes],
+                [false, no, count.no],
+              ] as const).map(([optionValue, label, optionCount]) => (
+                <button
+                  key={label}
+                  onClick={() => setBooleanFacet(key, optionValue)}
+                  style={{ ...styles.option, ...(value === optionValue ? styles.optionActive : {}) }}
+                >
+                  {label}
+                  <span style={styles.count}>{optionCount}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      {/* Color */}
+      {colors.length > 0 && (
+        <div style={styles.section}>
+          <div style={styles.sectionTitle}>Color</div>
+          <div style={styles.options}>
+            {colors.map(color => (
+              <button
+                key={color}
+                onClick={() => toggleColor(color)}
+                style={{
+                  ...styles.option,
+                  ...(filters.colors?.includes(color) ? styles.optionActive : {}),
+                }}
+                title={color}
+              >
+                <span style={{ ...styles.swatch, background: color }} />
+                <span style={styles.count}>{counts.colors[color]}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+const styles: Record<string, React.CSSProperties> = {
+  section: {
+    padding: '12px',
+  },
+  sectionTitle: {
+    fontSize: '13px',
+    fontWeight: 600,
+    color: '#8B7355',
+    marginBottom: '10px',
+    textTransform: 'uppercase',
+    letterSpacing: '0.5px',
+  },
+  dateRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+  },
+  dateInput: {
+    flex: 1,
+    minWidth: 0,
+    padding: '6px 8px',
+    border: '1px solid rgba(184, 156, 130, 0.3)',
+    borderRadius: '6px',
+    fontSize: '12px',
+    color: '#3E3226',
+    background: 'rgba(255, 255, 255, 0.5)',
+  },
+  dateSeparator: {
+    color: '#8B7355',
+  },
+  options: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '6px',
+  },
+  option: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    padding: '6px 10px',
+    background: 'rgba(255, 255, 255, 0.5)',
+    border: '1px solid rgba(184, 156, 130, 0.2)',
+    borderRadius: '6px',
+    fontSize: '12px',
+    color: '#5C4D42',
+    cursor: 'pointer',
+    fontWeight: 500,
+  },
+  optionActive: {
+    background: 'rgba(212, 175, 55, 0.2)',
+    borderColor: 'rgba(212, 175, 55, 0.5)',
+    color: '#3E3226',
+    fontWeight: 600,
+  },
+  count: {
+    fontSize: '11px',
+    color: '#A89684',
+  },
+  swatch: {
+    width: '14px',
+    height: '14px',
+    borderRadius: '50%',
+    border: '1px solid rgba(0, 0, 0, 0.15)',
+  },
+};
@@ -1,11 +1,15 @@
 /**
  * FilterBar Component - Unified filtering UI
  *
- * Provides search and filter controls for cards
+ * Provides search and filter controls for cards, plus the saved smart
+ * collections when the cards they count are given
  */
 
 import React, { useState, useEffect, useRef } from 'react';
-import type { FilterState } from '../../services/filterService';
+import type { Card } from '@/types/card';
+import { isFiltering, type FacetCounts, type FilterState } from '../../services/filterService';
+import { SmartCollectionList } from '../SmartCollections';
+import { FacetFilters } from './FacetFilters';
 
 export interface FilterBarProps {
   filters: FilterState;
@@ -15,6 +19,10 @@ export interface FilterBarProps {
   compact?: boolean;
   resultCount?: number;
   totalCount?: number;
+  /** Cards smart collection counts are taken over; collections are hidden without them */
+  collectionCards?: Card[];
+  /** Counts per facet value; the facet filters are hidden without them */
+  facetCounts?: FacetCounts;
 }
 
 export const FilterBar: React.FC<FilterBarProps> = ({
@@ -25,6 +33,8 @@ export const FilterBar: React.FC<FilterBarProps> = ({
   compact = false,
   resultCount,
   totalCount,
+  collectionCards,
+  facetCounts,
 }) => {
   const [searchInput, setSearchInput] = useState(filters.searchQuery);
   const [showAdvanced, setShowAdvanced] = useState(false);
@@ -84,12 +94,12 @@ export const FilterBar: React.FC<FilterBarProps> = ({
     });
   };
 
-  const hasActiveFilters =
-    filters.searchQuery ||
-    filters.starredOnly ||
-    filters.selectedDomains.length > 0 ||
-    filters.selectedTags.length > 0 ||
-    filters.dateRange !== 'all';
+  const applyCollection = (collectionFilters: FilterState) => {
+    setSearchInput(collectionFilters.searchQuery);
+    onFiltersChange(collectionFilters);
+  };
+
+  const hasActiveFilters = isFiltering(filters);
 
   return (
     <div style={compact ? styles.containerCompact : styles.container}>
@@ -142,6 +152,19 @@ export const FilterBar: React.FC<FilterBarProps> = ({
         )}
       </div>
 
+      {/* Smart Collections */}
+      {collectionCards && (
+        <div style={styles.filterSection}>
+          <div style={styles.filterLabel}>Collections:</div>
+          <SmartCollectionList
+            filters={filters}
+            onApply={applyCollection}
+            cards={collectionCards}
+            canSave={hasActiveFilters}
+          />
+        </div>
+      )}
+
       {/* Advanced Filters */}
       {showAdvanced && (
         <div style={styles.advancedFilters}>
@@ -200,6 +223,11 @@ export const FilterBar: React.FC<FilterBarProps> = ({
               <option value="last30days">Last 30 Days</option>
             </select>
           </div>
+
+          {/* Custom dates and facets */}
+          {facetCounts && (
+            <FacetFilters filters={filters} onFiltersChange={onFiltersChange} counts={facetCounts} />
+          )}
         </div>
       )}
     </div>
@@ -1,2 +1,4 @@
 export { FilterBar } from './FilterBar';
 export type { FilterBarProps } from './FilterBar';
+export { FacetFilters } from './FacetFilters';
+export type { FacetFiltersProps } from './FacetFilters';
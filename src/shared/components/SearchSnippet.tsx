@@ -0,0 +1,50 @@
+/**
+ * SearchSnippet Component - Excerpt of a search match with the matches marked
+ */
+
+import React from 'react';
+import type { SearchField, SearchSnippet as Snippet } from '../services/searchIndexService';
+
+const FIELD_LABELS: Partial<Record<SearchField, string>> = {
+  conversation: 'In conversation',
+  chats: 'In page chat',
+};
+
+export interface SearchSnippetProps {
+  snippet: Snippet;
+  style?: React.CSSProperties;
+}
+
+export const SearchSnippet: React.FC<SearchSnippetProps> = ({ snippet, style }) => (
+  <div style={{ ...styles.snippet, ...style }} data-testid="search-snippet">
+    {FIELD_LABELS[snippet.field] && <span style={styles.label}>{FIELD_LABELS[snippet.field]}: </span>}
+    {snippet.segments.map((segment, index) =>
+      segment.match ? (
+        <mark key={index} style={styles.mark}>{segment.text}</mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    )}
+  </div>
+);
+
+const styles: Record<string, React.CSSProperties> = {
+  snippet: {
+    fontSize: '12px',
+    lineHeight: '1.4',
+    color: '#5C4D42',
+    background: 'rgba(212, 175, 55, 0.08)',
+    borderLeft: '2px solid #D4AF37',
+    padding: '4px 8px',
+  },
+  label: {
+    fontWeight: 600,
+    color: '#8B7355',
+  },
+  mark: {
+    background: 'rgba(212, 175, 55, 0.35)',
+    color: '#3E3226',
+    borderRadius: '2px',
+    padding: '0 1px',
+  },
+};
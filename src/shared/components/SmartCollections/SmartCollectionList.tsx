@@ -0,0 +1,227 @@
+/**
+ * SmartCollectionList Component - Saved searches in a filter panel
+ *
+ * Lists the smart collections with a live card count each. Clicking one
+ * applies its filters; the current filters can be saved as a new one.
+ */
+
+import React, { useMemo, useState } from 'react';
+import type { Card } from '@/types/card';
+import type { CardConnection } from '@/types/connection';
+import type { FilterState } from '../../services/filterService';
+import { buildSearchIndex } from '../../services/searchIndexService';
+import {
+  createCollection,
+  deleteCollection,
+  getCollectionCards,
+  matchesCollection,
+} from '../../services/collectionService';
+import { useCollections } from '../../hooks/useCollections';
+
+export interface SmartCollectionListProps {
+  filters: FilterState;
+  onApply: (filters: FilterState) => void;
+  /** Cards the counts are taken over */
+  cards: Card[];
+  /** Connections between those cards, for collections using the orphan facet */
+  connections?: CardConnection[];
+  /** Whether the current filters narrow anything down (enables saving) */
+  canSave: boolean;
+}
+
+export const SmartCollectionList: React.FC<SmartCollectionListProps> = ({
+  filters,
+  onApply,
+  cards,
+  connections,
+  canSave,
+}) => {
+  const { collections } = useCollections();
+  const [newName, setNewName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const counts = useMemo(() => {
+    const index = buildSearchIndex(cards);
+    return new Map(collections.map(collection => [
+      collection.id,
+      getCollectionCards(collection, cards, index, connections).length,
+    ]));
+  }, [collections, cards, connections]);
+
+  const handleSave = async () => {
+    try {
+      await createCollection(newName ?? '', filters);
+      setNewName(null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save collection');
+    }
+  };
+
+  const handleDelete = async (collectionId: string, name: string) => {
+    if (!window.confirm(`Delete the collection "${name}"? Its cards are not affected.`)) return;
+    await deleteCollection(collectionId);
+  };
+
+  return (
+    <div style={styles.container} data-testid="smart-collections">
+      {collections.length === 0 && newName === null && (
+        <div style={styles.empty}>Save a search to keep it one click away.</div>
+      )}
+
+      {collections.map(collection => (
+        <div key={collection.id} style={styles.row}>
+          <button
+            onClick={() => onApply({ ...collection.filters, semantic: false })}
+            style={{
+              ...styles.collection,
+              ...(matchesCollection(collection, filters) ? styles.collectionActive : {}),
+            }}
+            title={collection.filters.searchQuery || collection.name}
+          >
+            <span style={styles.name}>{collection.name}</span>
+            <span style={styles.count}>{counts.get(collection.id) ?? 0}</span>
+          </button>
+          <button
+            onClick={() => void handleDelete(collection.id, collection.name)}
+            style={styles.remove}
+            title="Delete collection"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+
+      {newName === null ? (
+        <button
+          onClick={() => setNewName('')}
+          disabled={!canSave}
+          style={{ ...styles.saveButton, ...(canSave ? {} : styles.saveButtonDisabled) }}
+          title={canSave ? 'Save the current search and filters' : 'Set a search or filter first'}
+        >
+          + Save current search
+        </button>
+      ) : (
+        <div style={styles.row}>
+          <input
+            autoFocus
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') void handleSave();
+              if (e.key === 'Escape') {
+                setNewName(null);
+                setError(null);
+              }
+            }}
+            placeholder="Collection name"
+            style={styles.input}
+          />
+          <button onClick={() => void handleSave()} style={styles.confirmButton}>
+            Save
+          </button>
+        </div>
+      )}
+
+      {error && <div style={styles.error}>{error}</div>}
+    </div>
+  );
+};
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+  },
+  empty: {
+    fontSize: '12px',
+    color: '#A89684',
+    fontStyle: 'italic',
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+  },
+  collection: {
+    flex: 1,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: '8px',
+    padding: '8px 12px',
+    background: 'rgba(255, 255, 255, 0.5)',
+    border: '1px solid rgba(184, 156, 130, 0.2)',
+    borderRadius: '6px',
+    fontSize: '13px',
+    color: '#5C4D42',
+    cursor: 'pointer',
+    textAlign: 'left',
+    fontWeight: 500,
+    minWidth: 0,
+  },
+  collectionActive: {
+    background: 'rgba(212, 175, 55, 0.2)',
+    borderColor: 'rgba(212, 175, 55, 0.5)',
+    color: '#3E3226',
+    fontWeight: 600,
+  },
+  name: {
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  count: {
+    fontSize: '12px',
+    color: '#8B7355',
+    flexShrink: 0,
+  },
+  remove: {
+    background: 'transparent',
+    border: 'none',
+    color: '#8B7355',
+    cursor: 'pointer',
+    fontSize: '16px',
+    lineHeight: '1',
+    padding: '0 4px',
+  },
+  saveButton: {
+    padding: '8px 12px',
+    background: 'transparent',
+    border: '1px dashed rgba(184, 156, 130, 0.5)',
+    borderRadius: '6px',
+    fontSize: '13px',
+    color: '#8B7355',
+    cursor: 'pointer',
+    textAlign: 'left',
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+    cursor: 'not-allowed',
+  },
+  input: {
+    flex: 1,
+    padding: '7px 10px',
+    border: '1px solid rgba(184, 156, 130, 0.4)',
+    borderRadius: '6px',
+    fontSize: '13px',
+    color: '#3E3226',
+    outline: 'none',
+    minWidth: 0,
+  },
+  confirmButton: {
+    padding: '7px 12px',
+    background: '#D4AF37',
+    border: 'none',
+    borderRadius: '6px',
+    fontSize: '13px',
+    color: 'white',
+    fontWeight: 600,
+    cursor: 'pointer',
+  },
+  error: {
+    fontSize: '12px',
+    color: '#C0392B',
+  },
+};
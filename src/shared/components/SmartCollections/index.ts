@@ -0,0 +1,2 @@
+export { SmartCollectionList } from './SmartCollectionList';
+export type { SmartCollectionListProps } from './SmartCollectionList';
@@ -9,14 +9,14 @@ import type { Card } from '@/types/card';
 import {
   stashCard as serviceStashCard,
   restoreCard as serviceRestoreCard,
-  deleteCardPermanently as serviceDeleteCard,
+  trashCard as serviceDeleteCard,
   updateCard as serviceUpdateCard,
   duplicateCard as serviceDuplicateCard
 } from '../services/cardService';
 
 export interface UseCardOperationsReturn {
   stashCard: (cardId: string) => Promise<void>;
-  restoreCard: (cardId: string) => Promise<void>;
+  restoreCard: (cardId: string, boardId?: string) => Promise<void>;
   deleteCard: (cardId: string) => Promise<void>;
   updateCard: (cardId: string, updates: Partial<Card>) => Promise<void>;
   duplicateCard: (cardId: string) => Promise<Card>;
@@ -57,12 +57,12 @@ export function useCardOperations(
     }
   }, [onUpdate]);
 
-  const restoreCard = useCallback(async (cardId: string) => {
+  const restoreCard = useCallback(async (cardId: string, boardId?: string) => {
     setIsOperating(true);
     setError(null);
 
     try {
-      await serviceRestoreCard(cardId);
+      await serviceRestoreCard(cardId, boardId);
       if (onUpdate) onUpdate();
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to restore card';
@@ -87,7 +87,9 @@ export function useCards(includeStashed: boolean = false): UseCardsReturn {
         message.type === 'CARD_DELETED' ||
         message.type === 'CARD_STASHED' ||
         message.type === 'CARD_RESTORED' ||
-        message.type === 'STASH_UPDATED'
+        message.type === 'STASH_UPDATED' ||
+        message.type === 'TRASH_UPDATED' ||
+        message.type === 'SYNC_APPLIED'
       ) {
         console.log('[useCards] Received runtime message:', message.type);
         refreshCards();
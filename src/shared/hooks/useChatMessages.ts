@@ -1,5 +1,6 @@
 import { useState, useCallback } from 'react';
 import type { Message, ImageAttachment } from '@/shared/types/chat';
+import { mergeUsage, type LLMStreamEvent, type LLMUsage } from '@/services/streamEvents';
 
 /**
  * Options for useChatMessages hook
@@ -23,6 +24,8 @@ export interface UseChatMessagesReturn {
   isStreaming: boolean;
   /** Current streaming content */
   streamingContent: string;
+  /** Reasoning streamed so far for the current response */
+  streamingThinking: string;
   /** Pending images to attach to next message */
   pendingImages: ImageAttachment[];
   /** Set the input value */
@@ -50,6 +53,7 @@ export function useChatMessages(options: UseChatMessagesOptions): UseChatMessage
   const [inputValue, setInputValue] = useState('');
   const [isStreaming, setIsStreaming] = useState(false);
   const [streamingContent, setStreamingContent] = useState('');
+  const [streamingThinking, setStreamingThinking] = useState('');
   const [pendingImages, setPendingImages] = useState<ImageAttachment[]>([]);
 
   /**
@@ -72,6 +76,7 @@ export function useChatMessages(options: UseChatMessagesOptions): UseChatMessage
     setPendingImages([]);
     setIsStreaming(true);
     setStreamingContent('');
+    setStreamingThinking('');
 
     try {
       const hasImages = userMessage.images && userMessage.images.length > 0;
@@ -108,7 +113,7 @@ export function useChatMessages(options: UseChatMessagesOptions): UseChatMessage
 
         const response = await claudeAPIService.sendMessage(
           claudeMessages,
-          { system: systemPrompt, maxTokens: 4096 }
+          { system: systemPrompt, maxTokens: 4096, route: 'chat' }
         );
 
         setMessages([...newMessages, {
@@ -122,12 +127,23 @@ export function useChatMessages(options: UseChatMessagesOptions): UseChatMessage
         const { chatWithPage } = await import('@/services/claudeAPIService');
 
         let content = '';
+        let thinking = '';
+        let usage: LLMUsage | undefined;
+        const onEvent = (event: LLMStreamEvent) => {
+          if (event.type === 'thinking_delta') {
+            thinking += event.text;
+            setStreamingThinking(thinking);
+          } else if (event.type === 'usage') {
+            usage = mergeUsage(usage, event.usage);
+          }
+        };
         const stream = await chatWithPage(
           systemPrompt,
           newMessages.map(m => ({
             role: m.role,
             content: m.content
-          }))
+          })),
+          { onEvent }
         );
 
         // Stream response
@@ -140,7 +156,9 @@ export function useChatMessages(options: UseChatMessagesOptions): UseChatMessage
           id: Date.now().toString(),
           role: 'assistant',
           content,
-          timestamp: Date.now()
+          timestamp: Date.now(),
+          ...(thinking.trim() ? { thinking: thinking.trim() } : {}),
+          ...(usage ? { usage } : {})
         }]);
         setStreamingContent('');
       }
@@ -160,6 +178,7 @@ export function useChatMessages(options: UseChatMessagesOptions): UseChatMessage
       }
     } finally {
       setIsStreaming(false);
+      setStreamingThinking('');
     }
   }, [messages, inputValue, pendingImages, systemPrompt, onError]);
 
@@ -169,6 +188,7 @@ export function useChatMessages(options: UseChatMessagesOptions): UseChatMessage
   const stopStreaming = useCallback(() => {
     setIsStreaming(false);
     setStreamingContent('');
+    setStreamingThinking('');
     // Note: Actual stream abortion would require storing the stream reference
     // For now, just stop updating the UI
   }, []);
@@ -180,6 +200,7 @@ export function useChatMessages(options: UseChatMessagesOptions): UseChatMessage
     if (messages.length > 0 && confirm('Clear conversation?')) {
       setMessages([]);
       setStreamingContent('');
+      setStreamingThinking('');
     }
   }, [messages.length]);
 
@@ -202,6 +223,7 @@ export function useChatMessages(options: UseChatMessagesOptions): UseChatMessage
     inputValue,
     isStreaming,
     streamingContent,
+    streamingThinking,
     pendingImages,
     setInputValue,
     sendMessage,
@@ -0,0 +1,68 @@
+/**
+ * useCollections Hook - Saved smart collections
+ *
+ * Provides the collection list with automatic refresh when collections are
+ * created, renamed or deleted in any extension context
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { SmartCollection } from '@/types/collection';
+import { getCollections } from '../services/collectionService';
+
+export interface UseCollectionsReturn {
+  collections: SmartCollection[];
+  isLoading: boolean;
+  refreshCollections: () => Promise<void>;
+}
+
+/**
+ * Hook for loading smart collections
+ *
+ * @returns Collections in creation order and a refresh function
+ */
+export function useCollections(): UseCollectionsReturn {
+  const [collections, setCollections] = useState<SmartCollection[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refreshCollections = useCallback(async () => {
+    try {
+      setCollections(await getCollections());
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Initial load
+  useEffect(() => {
+    refreshCollections();
+  }, [refreshCollections]);
+
+  // Listen for collection updates (local events)
+  useEffect(() => {
+    window.addEventListener('nabokov:collections-updated', refreshCollections);
+    return () => {
+      window.removeEventListener('nabokov:collections-updated', refreshCollections);
+    };
+  }, [refreshCollections]);
+
+  // Listen for runtime messages (cross-context)
+  useEffect(() => {
+    const handleRuntimeMessage = (message: any) => {
+      if (message.type === 'COLLECTIONS_UPDATED') {
+        refreshCollections();
+      }
+    };
+
+    chrome.runtime.onMessage.addListener(handleRuntimeMessage);
+
+    return () => {
+      chrome.runtime.onMessage.removeListener(handleRuntimeMessage);
+    };
+  }, [refreshCollections]);
+
+  return {
+    collections,
+    isLoading,
+    refreshCollections,
+  };
+}
@@ -29,6 +29,11 @@ export function useFontSize(): UseFontSizeReturn {
   );
 
   useEffect(() => {
+    // Outside the extension (e.g. the share viewer) keep the default size
+    if (typeof chrome === 'undefined' || !chrome.storage) {
+      return;
+    }
+
     // Load font size from storage on mount
     async function loadFontSize() {
       try {
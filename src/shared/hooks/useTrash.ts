@@ -0,0 +1,83 @@
+/**
+ * useTrash Hook - Trashed cards and retention setting
+ *
+ * Provides trash state with automatic refresh when cards are trashed,
+ * restored or purged in any extension context
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { TrashEntry } from '@/types/trash';
+import { getTrashedCards, getTrashRetentionDays } from '../services/trashService';
+
+export interface UseTrashReturn {
+  entries: TrashEntry[];
+  retentionDays: number;
+  isLoading: boolean;
+  error: string | null;
+  refreshTrash: () => Promise<void>;
+}
+
+/**
+ * Hook for loading the trash
+ *
+ * @returns Trash entries (most recently deleted first) and control functions
+ */
+export function useTrash(): UseTrashReturn {
+  const [entries, setEntries] = useState<TrashEntry[]>([]);
+  const [retentionDays, setRetentionDays] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshTrash = useCallback(async () => {
+    try {
+      setError(null);
+      const [loadedEntries, loadedRetention] = await Promise.all([
+        getTrashedCards(),
+        getTrashRetentionDays(),
+      ]);
+      setEntries(loadedEntries);
+      setRetentionDays(loadedRetention);
+    } catch (err) {
+      console.error('[useTrash] Error loading trash:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load trash');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Initial load
+  useEffect(() => {
+    refreshTrash();
+  }, [refreshTrash]);
+
+  // Listen for trash updates (local events)
+  useEffect(() => {
+    window.addEventListener('nabokov:trash-updated', refreshTrash);
+    return () => {
+      window.removeEventListener('nabokov:trash-updated', refreshTrash);
+    };
+  }, [refreshTrash]);
+
+  // Listen for runtime messages (cross-context, including background purges)
+  useEffect(() => {
+    const handleRuntimeMessage = (message: any) => {
+      if (message.type === 'TRASH_UPDATED') {
+        refreshTrash();
+      }
+    };
+
+    chrome.runtime.onMessage.addListener(handleRuntimeMessage);
+
+    return () => {
+      chrome.runtime.onMessage.removeListener(handleRuntimeMessage);
+    };
+  }, [refreshTrash]);
+
+  return {
+    entries,
+    retentionDays,
+    isLoading,
+    error,
+    refreshTrash,
+  };
+}
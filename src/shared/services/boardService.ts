@@ -0,0 +1,264 @@
+/**
+ * Board Service - Named canvases
+ *
+ * Each card lists the boards it appears on (`card.boardIds`); a card can sit
+ * on several boards at once and keeps one position shared by all of them.
+ * Cards without a known board belong to the main board, so cards created
+ * before boards existed, or synced from a profile with other boards, stay
+ * reachable. Connections drawn on a board carry its id and only show there;
+ * older connections show on any board that has both of their cards.
+ */
+
+import type { Board } from '@/types/board';
+import type { Card } from '@/types/card';
+import type { CardConnection } from '@/types/connection';
+import { getAllCards, getCardRecords, putCards } from '@/utils/cardRepository';
+import { loadConnections, saveConnections } from '@/utils/connectionStorage';
+import { loadGroups, saveGroups } from '@/utils/groupStorage';
+import {
+  DEFAULT_BOARD_ID,
+  loadActiveBoardId,
+  loadBoards,
+  saveActiveBoardId,
+  saveBoards,
+} from '@/utils/boardStorage';
+import { recordHistory, cardChange } from './historyService';
+
+export { DEFAULT_BOARD_ID };
+
+/**
+ * Notify views of board list or active board changes
+ */
+function broadcastBoardsUpdate(): void {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent('nabokov:boards-updated'));
+  }
+  chrome.runtime.sendMessage({ type: 'BOARDS_UPDATED' }).catch((error) => {
+    console.debug('[boardService] No runtime listeners:', error);
+  });
+}
+
+function broadcastCardsUpdate(cardIds: string[]): void {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent('nabokov:cards-updated'));
+  }
+  chrome.runtime.sendMessage({ type: 'CARD_UPDATED', cardIds }).catch((error) => {
+    console.debug('[boardService] No runtime listeners:', error);
+  });
+}
+
+function generateBoardId(): string {
+  return `board-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+function normalizeName(name: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Board name is required');
+  }
+  return trimmed;
+}
+
+export async function getBoards(): Promise<Board[]> {
+  return loadBoards();
+}
+
+export async function getActiveBoardId(): Promise<string> {
+  return loadActiveBoardId();
+}
+
+/**
+ * Switch the canvas to another board
+ */
+export async function setActiveBoard(boardId: string): Promise<void> {
+  const boards = await loadBoards();
+  if (!boards.some(board => board.id === boardId)) {
+    throw new Error(`Board not found: ${boardId}`);
+  }
+  await saveActiveBoardId(boardId);
+  broadcastBoardsUpdate();
+}
+
+export async function createBoard(name: string): Promise<Board> {
+  const now = Date.now();
+  const board: Board = {
+    id: generateBoardId(),
+    name: normalizeName(name),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveBoards([...(await loadBoards()), board]);
+  broadcastBoardsUpdate();
+
+  console.log('[boardService] Board created:', board.id);
+  return board;
+}
+
+export async function renameBoard(boardId: string, name: string): Promise<void> {
+  const boards = await loadBoards();
+  if (!boards.some(board => board.id === boardId)) {
+    throw new Error(`Board not found: ${boardId}`);
+  }
+  const trimmed = normalizeName(name);
+  await saveBoards(
+    boards.map(board => (board.id === boardId ? { ...board, name: trimmed, updatedAt: Date.now() } : board))
+  );
+  broadcastBoardsUpdate();
+}
+
+/**
+ * Delete a board. Its cards, connections and group frames are not deleted:
+ * anything that was only on this board returns to the main board.
+ */
+export async function deleteBoard(boardId: string): Promise<void> {
+  if (boardId === DEFAULT_BOARD_ID) {
+    throw new Error('The main board cannot be deleted');
+  }
+
+  const boards = await loadBoards();
+  if (!boards.some(board => board.id === boardId)) return;
+
+  const cards = (await getAllCards()).filter(card => card.boardIds?.includes(boardId));
+  if (cards.length > 0) {
+    await putCards(
+      cards.map(card => ({ ...card, boardIds: card.boardIds!.filter(id => id !== boardId) }))
+    );
+  }
+
+  const connections = await loadConnections();
+  if (connections.some(connection => connection.boardId === boardId)) {
+    await saveConnections(
+      connections.map(connection =>
+        connection.boardId === boardId ? { ...connection, boardId: undefined } : connection
+      )
+    );
+  }
+
+  const groups = await loadGroups();
+  if (groups.some(group => group.boardId === boardId)) {
+    await saveGroups(groups.map(group => (group.boardId === boardId ? { ...group, boardId: undefined } : group)));
+  }
+
+  await saveBoards(boards.filter(board => board.id !== boardId));
+  if ((await loadActiveBoardId()) === boardId) {
+    await saveActiveBoardId(DEFAULT_BOARD_ID);
+  }
+
+  broadcastBoardsUpdate();
+  if (cards.length > 0) broadcastCardsUpdate(cards.map(card => card.id));
+  console.log('[boardService] Board deleted:', boardId);
+}
+
+/**
+ * Boards a card appears on, ignoring ids of boards that no longer exist
+ */
+export function getCardBoardIds(card: Card, boards: Board[]): string[] {
+  const known = new Set(boards.map(board => board.id));
+  const ids = (card.boardIds ?? []).filter(id => known.has(id));
+  return ids.length > 0 ? ids : [DEFAULT_BOARD_ID];
+}
+
+export function isCardOnBoard(card: Card, boardId: string, boards: Board[]): boolean {
+  return getCardBoardIds(card, boards).includes(boardId);
+}
+
+/**
+ * Whether a connection is drawn on a board
+ *
+ * @param cardIdsOnBoard Ids of the cards on that board
+ */
+export function isConnectionOnBoard(
+  connection: CardConnection,
+  boardId: string,
+  cardIdsOnBoard: Set<string>,
+  boards: Board[]
+): boolean {
+  if (!cardIdsOnBoard.has(connection.source) || !cardIdsOnBoard.has(connection.target)) {
+    return false;
+  }
+  if (!connection.boardId || !boards.some(board => board.id === connection.boardId)) {
+    return true;
+  }
+  return connection.boardId === boardId;
+}
+
+/**
+ * Replace the board memberships of cards as one undo step
+ */
+async function updateCardBoards(
+  cardIds: string[],
+  label: string,
+  update: (boardIds: string[]) => string[]
+): Promise<void> {
+  const boards = await loadBoards();
+  const existing = await getCardRecords(cardIds);
+  const updated = existing.map(card => ({
+    ...card,
+    boardIds: update(getCardBoardIds(card, boards)),
+    updatedAt: Date.now(),
+  }));
+
+  await putCards(updated);
+  await recordHistory(label, updated.map((card, i) => cardChange(existing[i], card)));
+  broadcastCardsUpdate(updated.map(card => card.id));
+}
+
+async function assertBoardExists(boardId: string): Promise<void> {
+  const boards = await loadBoards();
+  if (!boards.some(board => board.id === boardId)) {
+    throw new Error(`Board not found: ${boardId}`);
+  }
+}
+
+/**
+ * Move cards from one board to another. Their other boards are kept.
+ */
+export async function moveCardsToBoard(
+  cardIds: string[],
+  fromBoardId: string,
+  toBoardId: string
+): Promise<void> {
+  if (cardIds.length === 0 || fromBoardId === toBoardId) return;
+  await assertBoardExists(toBoardId);
+
+  await updateCardBoards(
+    cardIds,
+    cardIds.length === 1 ? 'Move card to board' : `Move ${cardIds.length} cards to board`,
+    boardIds => [...new Set([...boardIds.filter(id => id !== fromBoardId), toBoardId])]
+  );
+  console.log('[boardService] Cards moved to board:', toBoardId, cardIds.length);
+}
+
+/**
+ * Show cards on another board as well
+ */
+export async function addCardsToBoard(cardIds: string[], boardId: string): Promise<void> {
+  if (cardIds.length === 0) return;
+  await assertBoardExists(boardId);
+
+  await updateCardBoards(
+    cardIds,
+    cardIds.length === 1 ? 'Add card to board' : `Add ${cardIds.length} cards to board`,
+    boardIds => (boardIds.includes(boardId) ? boardIds : [...boardIds, boardId])
+  );
+}
+
+/**
+ * Take cards off a board they share with other boards. A card's last board
+ * cannot be removed; move or delete the card instead.
+ */
+export async function removeCardsFromBoard(cardIds: string[], boardId: string): Promise<void> {
+  if (cardIds.length === 0) return;
+
+  const boards = await loadBoards();
+  const cards = await getCardRecords(cardIds);
+  if (cards.some(card => getCardBoardIds(card, boards).every(id => id === boardId))) {
+    throw new Error('Cards must stay on at least one board');
+  }
+
+  await updateCardBoards(
+    cardIds,
+    cardIds.length === 1 ? 'Remove card from board' : `Remove ${cardIds.length} cards from board`,
+    boardIds => boardIds.filter(id => id !== boardId)
+  );
+}
@@ -0,0 +1,111 @@
+/**
+ * Canvas Navigation Service - Viewport bookmarks and minimap settings
+ *
+ * Both live under their own storage key rather than in the canvas state, which
+ * the canvas rewrites on every viewport change. Bookmarks belong to the board
+ * they were made on.
+ */
+
+import type { CanvasNavigationState, CanvasState, MiniMapSettings, ViewportBookmark } from '@/types/card';
+import { generateId } from '@/utils/storage';
+
+export const CANVAS_NAVIGATION_KEY = 'nabokov_canvas_navigation';
+
+/** Where bookmarks and minimap settings were kept before they moved */
+const CANVAS_STATE_KEY = 'nabokov_canvas_state';
+
+export const DEFAULT_MINIMAP_SETTINGS: MiniMapSettings = { visible: true, colorBy: 'domain' };
+
+function broadcastBookmarksUpdate(): void {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent('nabokov:bookmarks-updated'));
+  }
+}
+
+/**
+ * Falls back to the copies in the canvas state until the first write moves
+ * them to their own key
+ */
+async function loadNavigationState(): Promise<CanvasNavigationState> {
+  const result = await chrome.storage.local.get([CANVAS_NAVIGATION_KEY, CANVAS_STATE_KEY]);
+  const stored = result[CANVAS_NAVIGATION_KEY] as CanvasNavigationState | undefined;
+  if (stored) return stored;
+
+  const legacy = result[CANVAS_STATE_KEY] as CanvasState | undefined;
+  return { viewportBookmarks: legacy?.viewportBookmarks ?? [], minimap: legacy?.minimap };
+}
+
+async function updateNavigationState(update: Partial<CanvasNavigationState>): Promise<void> {
+  const state = await loadNavigationState();
+  await chrome.storage.local.set({ [CANVAS_NAVIGATION_KEY]: { ...state, ...update } });
+}
+
+function normalizeName(name: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Bookmark name is required');
+  }
+  return trimmed;
+}
+
+/**
+ * Bookmarks of one board, oldest first
+ */
+export async function getViewportBookmarks(boardId: string): Promise<ViewportBookmark[]> {
+  const state = await loadNavigationState();
+  return state.viewportBookmarks.filter(bookmark => bookmark.boardId === boardId);
+}
+
+export async function addViewportBookmark(
+  name: string,
+  boardId: string,
+  viewport: ViewportBookmark['viewport']
+): Promise<ViewportBookmark> {
+  const bookmark: ViewportBookmark = {
+    id: generateId(),
+    name: normalizeName(name),
+    boardId,
+    viewport: { x: viewport.x, y: viewport.y, zoom: viewport.zoom },
+    createdAt: Date.now(),
+  };
+
+  const state = await loadNavigationState();
+  await updateNavigationState({ viewportBookmarks: [...state.viewportBookmarks, bookmark] });
+  broadcastBookmarksUpdate();
+
+  console.log('[canvasNavigationService] Bookmark added:', bookmark.id);
+  return bookmark;
+}
+
+export async function renameViewportBookmark(bookmarkId: string, name: string): Promise<void> {
+  const state = await loadNavigationState();
+  const bookmarks = state.viewportBookmarks;
+  if (!bookmarks.some(bookmark => bookmark.id === bookmarkId)) {
+    throw new Error(`Bookmark not found: ${bookmarkId}`);
+  }
+
+  const trimmed = normalizeName(name);
+  await updateNavigationState({
+    viewportBookmarks: bookmarks.map(bookmark =>
+      bookmark.id === bookmarkId ? { ...bookmark, name: trimmed } : bookmark
+    ),
+  });
+  broadcastBookmarksUpdate();
+}
+
+export async function deleteViewportBookmark(bookmarkId: string): Promise<void> {
+  const state = await loadNavigationState();
+  await updateNavigationState({
+    viewportBookmarks: state.viewportBookmarks.filter(bookmark => bookmark.id !== bookmarkId),
+  });
+  broadcastBookmarksUpdate();
+}
+
+export async function getMiniMapSettings(): Promise<MiniMapSettings> {
+  const state = await loadNavigationState();
+  return { ...DEFAULT_MINIMAP_SETTINGS, ...state.minimap };
+}
+
+export async function saveMiniMapSettings(settings: MiniMapSettings): Promise<void> {
+  await updateNavigationState({ minimap: settings });
+}
@@ -6,9 +6,17 @@
  */
 
 import type { Card } from '@/types/card';
-import { getCards, saveCard as storageSaveCard, deleteCard as storageDeleteCard, generateId } from '@/utils/storage';
-
-const CARDS_KEY = 'cards';
+import { generateId } from '@/utils/storage';
+import {
+  getAllCards,
+  getCardRecord,
+  putCard,
+  getCardsByStashed,
+  countCards,
+} from '@/utils/cardRepository';
+import { recordHistory, cardChange, trashChange } from './historyService';
+import { moveCardsToTrash } from './trashService';
+import { recordRevision } from './revisionService';
 
 /**
  * Broadcast card update across all extension contexts
@@ -31,47 +39,55 @@ function broadcastCardUpdate(type: string, cardId: string) {
  * Load all cards from storage
  */
 export async function loadAllCards(includeStashed: boolean = false): Promise<Card[]> {
-  const cards = await getCards();
   if (includeStashed) {
-    return cards;
+    return getAllCards();
   }
-  return cards.filter(card => !card.stashed);
+  return getCardsByStashed(false);
 }
 
 /**
  * Get a single card by ID
  */
 export async function getCard(cardId: string): Promise<Card | undefined> {
-  const cards = await getCards();
-  return cards.find(c => c.id === cardId);
+  return getCardRecord(cardId);
 }
 
 /**
  * Save or update a card
  */
-export async function upsertCard(card: Card): Promise<void> {
-  await storageSaveCard(card);
+export async function upsertCard(card: Card, historyLabel?: string): Promise<void> {
+  const existing = await getCardRecord(card.id);
+  await putCard(card);
+  await recordHistory(historyLabel ?? (existing ? 'Edit card' : 'Create card'), [cardChange(existing, card)]);
   broadcastCardUpdate('CARD_UPDATED', card.id);
 }
 
 /**
  * Update a card with partial changes
+ *
+ * @param historyLabel Name of the undo step recorded for this update
  */
-export async function updateCard(cardId: string, updates: Partial<Card>): Promise<void> {
-  const cards = await getCards();
-  const index = cards.findIndex(c => c.id === cardId);
-
-  if (index === -1) {
+export async function updateCard(
+  cardId: string,
+  updates: Partial<Card>,
+  historyLabel: string = 'Edit card'
+): Promise<void> {
+  const existing = await getCardRecord(cardId);
+
+  if (!existing) {
     throw new Error(`Card not found: ${cardId}`);
   }
 
-  cards[index] = {
-    ...cards[index],
+  const updated: Card = {
+    ...existing,
     ...updates,
     updatedAt: Date.now()
   };
-
-  await chrome.storage.local.set({ [CARDS_KEY]: cards });
+  await putCard(updated);
+  await recordHistory(historyLabel, [cardChange(existing, updated)]);
+  if ('content' in updates || 'beautifiedContent' in updates || 'metadata' in updates) {
+    await recordRevision(updated, 'edit', 'user', existing);
+  }
   broadcastCardUpdate('CARD_UPDATED', cardId);
 
   console.log('[cardService] Card updated:', cardId);
@@ -81,7 +97,7 @@ export async function updateCard(cardId: string, updates: Partial<Card>): Promis
  * Stash a card (hide from canvas)
  */
 export async function stashCard(cardId: string): Promise<void> {
-  await updateCard(cardId, { stashed: true });
+  await updateCard(cardId, { stashed: true }, 'Stash card');
   broadcastCardUpdate('CARD_STASHED', cardId);
 
   // Also send stash-specific event
@@ -96,9 +112,11 @@ export async function stashCard(cardId: string): Promise<void> {
 
 /**
  * Restore a stashed card to canvas
+ *
+ * @param boardId Board to place the card on; keeps its boards when omitted
  */
-export async function restoreCard(cardId: string): Promise<void> {
-  await updateCard(cardId, { stashed: false });
+export async function restoreCard(cardId: string, boardId?: string): Promise<void> {
+  await updateCard(cardId, { stashed: false, ...(boardId ? { boardIds: [boardId] } : {}) }, 'Restore card');
   broadcastCardUpdate('CARD_RESTORED', cardId);
 
   // Also send stash-specific event
@@ -112,13 +130,27 @@ export async function restoreCard(cardId: string): Promise<void> {
 }
 
 /**
- * Permanently delete a card
+ * Move cards (with their connections and links) to the trash as a single
+ * undo step
  */
-export async function deleteCardPermanently(cardId: string): Promise<void> {
-  await storageDeleteCard(cardId);
-  broadcastCardUpdate('CARD_DELETED', cardId);
+export async function trashCards(cardIds: string[]): Promise<void> {
+  if (cardIds.length === 0) return;
 
-  console.log('[cardService] Card deleted permanently:', cardId);
+  const entries = await moveCardsToTrash(cardIds);
+  await recordHistory(
+    entries.length === 1 ? 'Delete card' : `Delete ${entries.length} cards`,
+    [trashChange(entries.map(entry => entry.id))]
+  );
+  entries.forEach(entry => broadcastCardUpdate('CARD_DELETED', entry.id));
+
+  console.log('[cardService] Cards moved to trash:', entries.length);
+}
+
+/**
+ * Move a single card to the trash
+ */
+export async function trashCard(cardId: string): Promise<void> {
+  await trashCards([cardId]);
 }
 
 /**
@@ -142,7 +174,8 @@ export async function duplicateCard(cardId: string): Promise<Card> {
     } : undefined
   };
 
-  await storageSaveCard(duplicate);
+  await putCard(duplicate);
+  await recordHistory('Duplicate card', [cardChange(null, duplicate)]);
   broadcastCardUpdate('CARD_CREATED', duplicate.id);
 
   console.log('[cardService] Card duplicated:', cardId, '→', duplicate.id);
@@ -154,8 +187,7 @@ export async function duplicateCard(cardId: string): Promise<Card> {
  * Get all stashed cards
  */
 export async function getStashedCards(): Promise<Card[]> {
-  const cards = await getCards();
-  return cards.filter(card => card.stashed === true);
+  return getCardsByStashed(true);
 }
 
 /**
@@ -163,11 +195,11 @@ export async function getStashedCards(): Promise<Card[]> {
  */
 export async function getStorageStats() {
   const bytesInUse = await chrome.storage.local.getBytesInUse();
-  const cards = await getCards();
+  const [totalCards, stashed] = await Promise.all([countCards(), getCardsByStashed(true)]);
 
   return {
-    totalCards: cards.length,
-    stashedCards: cards.filter(c => c.stashed).length,
+    totalCards,
+    stashedCards: stashed.length,
     bytesUsed: bytesInUse,
     quotaBytes: chrome.storage.local.QUOTA_BYTES
   };
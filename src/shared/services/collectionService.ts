@@ -0,0 +1,209 @@
+/**
+ * Collection Service - Smart collections (saved searches)
+ *
+ * A smart collection stores a named FilterState, search query included.
+ * Nothing else is stored: its cards are re-evaluated against the current
+ * cards whenever they are read, so collections follow edits, new clips and
+ * deletions without bookkeeping. Semantic ranking needs the backend and is
+ * not saved; a collection always uses full-text matching.
+ */
+
+import type { Card } from '@/types/card';
+import type { CardConnection } from '@/types/connection';
+import type { SmartCollection } from '@/types/collection';
+import { loadCollections, saveCollections } from '@/utils/collectionStorage';
+import { beautificationService } from '@/services/beautificationService';
+import { filterCards, type FilterState } from './filterService';
+import { downloadMarkdownVault } from './markdownVaultService';
+import type { SearchIndex } from './searchIndexService';
+
+export interface BatchResult {
+  succeeded: number;
+  failed: Array<{ cardId: string; error: string }>;
+}
+
+/**
+ * Notify views of collection changes
+ */
+function broadcastCollectionsUpdate(): void {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent('nabokov:collections-updated'));
+  }
+  chrome.runtime.sendMessage({ type: 'COLLECTIONS_UPDATED' }).catch((error) => {
+    console.debug('[collectionService] No runtime listeners:', error);
+  });
+}
+
+function generateCollectionId(): string {
+  return `collection-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+function normalizeName(name: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Collection name is required');
+  }
+  return trimmed;
+}
+
+/**
+ * The part of a FilterState a collection keeps
+ */
+function toSavedFilters(filters: FilterState): FilterState {
+  const { semantic: _semantic, ...saved } = filters;
+  return {
+    ...saved,
+    searchQuery: saved.searchQuery.trim(),
+    selectedDomains: [...saved.selectedDomains],
+    selectedTags: [...saved.selectedTags],
+    cardTypes: saved.cardTypes && [...saved.cardTypes],
+    colors: saved.colors && [...saved.colors],
+  };
+}
+
+export async function getCollections(): Promise<SmartCollection[]> {
+  return loadCollections();
+}
+
+export async function createCollection(name: string, filters: FilterState): Promise<SmartCollection> {
+  const now = Date.now();
+  const collection: SmartCollection = {
+    id: generateCollectionId(),
+    name: normalizeName(name),
+    filters: toSavedFilters(filters),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveCollections([...(await loadCollections()), collection]);
+  broadcastCollectionsUpdate();
+
+  console.log('[collectionService] Collection created:', collection.id);
+  return collection;
+}
+
+async function updateCollection(
+  collectionId: string,
+  update: (collection: SmartCollection) => Partial<SmartCollection>
+): Promise<void> {
+  const collections = await loadCollections();
+  if (!collections.some(collection => collection.id === collectionId)) {
+    throw new Error(`Collection not found: ${collectionId}`);
+  }
+  await saveCollections(
+    collections.map(collection =>
+      collection.id === collectionId
+        ? { ...collection, ...update(collection), updatedAt: Date.now() }
+        : collection
+    )
+  );
+  broadcastCollectionsUpdate();
+}
+
+export async function renameCollection(collectionId: string, name: string): Promise<void> {
+  const trimmed = normalizeName(name);
+  await updateCollection(collectionId, () => ({ name: trimmed }));
+}
+
+/**
+ * Replace a collection's filters, e.g. after refining its search
+ */
+export async function updateCollectionFilters(collectionId: string, filters: FilterState): Promise<void> {
+  await updateCollection(collectionId, () => ({ filters: toSavedFilters(filters) }));
+}
+
+export async function deleteCollection(collectionId: string): Promise<void> {
+  const collections = await loadCollections();
+  if (!collections.some(collection => collection.id === collectionId)) return;
+
+  await saveCollections(collections.filter(collection => collection.id !== collectionId));
+  broadcastCollectionsUpdate();
+  console.log('[collectionService] Collection deleted:', collectionId);
+}
+
+/**
+ * Cards currently in a collection, best matches first when it has a query
+ *
+ * @param index - Prebuilt index over (at least) the given cards; built on demand otherwise
+ * @param connections - Connections between the cards, for the orphan facet
+ */
+export function getCollectionCards(
+  collection: SmartCollection,
+  cards: Card[],
+  index?: SearchIndex,
+  connections?: CardConnection[]
+): Card[] {
+  return filterCards(cards, { ...collection.filters, semantic: false }, index, connections);
+}
+
+/**
+ * Whether the filters are the ones a collection was saved with
+ */
+export function matchesCollection(collection: SmartCollection, filters: FilterState): boolean {
+  const saved = collection.filters;
+  const sameSet = (a: string[] = [], b: string[] = []) =>
+    a.length === b.length && a.every(value => b.includes(value));
+  return (
+    saved.searchQuery === filters.searchQuery.trim() &&
+    saved.starredOnly === filters.starredOnly &&
+    saved.dateRange === filters.dateRange &&
+    saved.createdAfter === filters.createdAfter &&
+    saved.createdBefore === filters.createdBefore &&
+    sameSet(saved.selectedDomains, filters.selectedDomains) &&
+    sameSet(saved.selectedTags, filters.selectedTags) &&
+    sameSet(saved.cardTypes, filters.cardTypes) &&
+    sameSet(saved.colors, filters.colors) &&
+    saved.hasConversation === filters.hasConversation &&
+    saved.beautified === filters.beautified &&
+    saved.orphan === filters.orphan
+  );
+}
+
+/**
+ * Download a collection's cards as a Markdown vault
+ *
+ * @returns Number of exported cards
+ */
+export async function exportCollection(
+  collection: SmartCollection,
+  cards: Card[],
+  connections?: CardConnection[]
+): Promise<number> {
+  const members = getCollectionCards(collection, cards, undefined, connections);
+  if (members.length === 0) {
+    throw new Error(`"${collection.name}" has no cards to export`);
+  }
+  return downloadMarkdownVault(members);
+}
+
+/**
+ * Beautify a collection's cards one at a time. Cards that are already
+ * beautified are skipped; a failing card doesn't stop the batch.
+ *
+ * @param onProgress - Called after each card with the number done so far
+ */
+export async function beautifyCollection(
+  collection: SmartCollection,
+  cards: Card[],
+  onProgress?: (done: number, total: number) => void,
+  connections?: CardConnection[]
+): Promise<BatchResult> {
+  const pending = getCollectionCards(collection, cards, undefined, connections)
+    .filter(card => !beautificationService.isBeautified(card));
+  const result: BatchResult = { succeeded: 0, failed: [] };
+
+  for (const [index, card] of pending.entries()) {
+    try {
+      await beautificationService.beautifyCard(card.id, 'organize-content');
+      result.succeeded++;
+    } catch (error) {
+      console.error('[collectionService] Beautify failed for card:', card.id, error);
+      result.failed.push({ cardId: card.id, error: error instanceof Error ? error.message : String(error) });
+    }
+    onProgress?.(index + 1, pending.length);
+  }
+
+  console.log(
+    `[collectionService] Beautified ${result.succeeded}/${pending.length} cards in "${collection.name}"`
+  );
+  return result;
+}
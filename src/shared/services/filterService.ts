@@ -1,10 +1,34 @@
 /**
  * Filter Service - Card filtering utilities
  *
- * Provides filtering logic for cards extracted from useCanvasState
+ * Provides filtering logic for cards extracted from useCanvasState. The
+ * search box accepts a small query language:
+ *
+ *   tag:ml domain:arxiv.org starred:true after:2025-01-01 before:2025-06-01
+ *   "exact phrase" -excluded -"excluded phrase"
+ *
+ * Operators are folded into the matching FilterState fields (tags and
+ * domains join the selected ones, so they match any of them); everything
+ * else is looked up in the full-text index.
+ *
+ * Facets (card type, AI conversation, beautified, orphan, color) narrow the
+ * result further; countFacets reports how many cards each value would keep.
  */
 
 import type { Card } from '@/types/card';
+import type { CardConnection } from '@/types/connection';
+import {
+  buildSearchIndex,
+  hasTextQuery,
+  searchIndex,
+  tokenize,
+  type SearchIndex,
+  type TextQuery,
+} from './searchIndexService';
+
+export type CardType = NonNullable<Card['cardType']>;
+
+export const CARD_TYPES: CardType[] = ['clipped', 'note', 'generated', 'image'];
 
 export interface FilterState {
   searchQuery: string;
@@ -12,6 +36,41 @@ export interface FilterState {
   selectedDomains: string[];
   selectedTags: string[];
   dateRange: 'all' | 'last7days' | 'last30days';
+  /** Only cards created at or after this time (`after:` in the search box) */
+  createdAfter?: number;
+  /** Only cards created before this time (`before:` in the search box) */
+  createdBefore?: number;
+  /** Hide cards from these domains (`-domain:` in the search box) */
+  excludedDomains?: string[];
+  /** Hide cards with any of these tags (`-tag:` in the search box) */
+  excludedTags?: string[];
+  /** Rank the search query by meaning (see semanticSearchService) instead of substring matching */
+  semantic?: boolean;
+  /** Only cards of these types (cards without a type are 'clipped') */
+  cardTypes?: CardType[];
+  /** Only cards with (true) or without (false) an AI conversation */
+  hasConversation?: boolean;
+  /** Only beautified (true) or unbeautified (false) cards */
+  beautified?: boolean;
+  /** Only cards without (true) or with (false) connections */
+  orphan?: boolean;
+  /** Only cards with one of these metadata colors */
+  colors?: string[];
+}
+
+/** Card counts for a yes/no facet */
+export interface BooleanFacetCount {
+  yes: number;
+  no: number;
+}
+
+export interface FacetCounts {
+  cardTypes: Record<CardType, number>;
+  hasConversation: BooleanFacetCount;
+  beautified: BooleanFacetCount;
+  orphan: BooleanFacetCount;
+  /** Cards per metadata color; cards without a color aren't counted */
+  colors: Record<string, number>;
 }
 
 export const DEFAULT_FILTERS: FilterState = {
@@ -38,22 +97,229 @@ export function extractTags(cards: Card[]): string[] {
   return Array.from(tags).sort();
 }
 
+export interface ParsedSearchQuery {
+  text: TextQuery;
+  filters: Partial<Pick<
+    FilterState,
+    | 'starredOnly'
+    | 'selectedDomains'
+    | 'selectedTags'
+    | 'createdAfter'
+    | 'createdBefore'
+    | 'excludedDomains'
+    | 'excludedTags'
+  >>;
+}
+
+const QUERY_TOKEN_PATTERN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Local midnight of a YYYY-MM-DD date
+ */
+function parseDate(value: string): number | null {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return date.getMonth() === Number(match[2]) - 1 ? date.getTime() : null;
+}
+
+/**
+ * The local YYYY-MM-DD day a time falls on, as used by date inputs
+ */
+export function toDay(time: number): string {
+  const date = new Date(time);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Set the created date bounds from an inclusive start and end day
+ * (YYYY-MM-DD; empty or invalid clears that bound)
+ */
+export function withDayRange(filters: FilterState, startDay: string, endDay: string): FilterState {
+  const start = parseDate(startDay);
+  const end = parseDate(endDay);
+  let createdBefore: number | undefined;
+  if (end !== null) {
+    const next = new Date(end);
+    next.setDate(next.getDate() + 1);
+    createdBefore = next.getTime();
+  }
+  return { ...filters, createdAfter: start ?? undefined, createdBefore };
+}
+
+/**
+ * Apply an operator, negated with a leading `-`; false when it isn't a
+ * valid one. Tags and domains match case-insensitively.
+ */
+function applyOperator(parsed: ParsedSearchQuery, operator: string, value: string, negated: boolean): boolean {
+  const { filters } = parsed;
+  switch (operator.toLowerCase()) {
+    case 'tag':
+      if (negated) {
+        filters.excludedTags = [...(filters.excludedTags ?? []), value.toLowerCase()];
+      } else {
+        filters.selectedTags = [...(filters.selectedTags ?? []), value.toLowerCase()];
+      }
+      return true;
+    case 'domain':
+      if (negated) {
+        filters.excludedDomains = [...(filters.excludedDomains ?? []), value.toLowerCase()];
+      } else {
+        filters.selectedDomains = [...(filters.selectedDomains ?? []), value.toLowerCase()];
+      }
+      return true;
+    case 'starred': {
+      const flag = value.toLowerCase();
+      // starred:false means "starred or not", which has no negation
+      if (negated || (flag !== 'true' && flag !== 'false')) return false;
+      filters.starredOnly = flag === 'true';
+      return true;
+    }
+    case 'after':
+    case 'before': {
+      const time = parseDate(value);
+      if (time === null) return false;
+      // -after:day is before:day and vice versa
+      if ((operator.toLowerCase() === 'after') !== negated) {
+        filters.createdAfter = time;
+      } else {
+        filters.createdBefore = time;
+      }
+      return true;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Split a search box query into operators and free text. Anything that
+ * isn't a valid operator is searched as text; an invalid negated operator
+ * excludes its words as one phrase. `after:` includes the given day,
+ * `before:` excludes it.
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { text: { terms: [], phrases: [], excluded: [] }, filters: {} };
+
+  for (const match of query.matchAll(QUERY_TOKEN_PATTERN)) {
+    const [raw, negated, operator, quoted, bare] = match;
+    const value = quoted ?? bare ?? '';
+
+    if (operator && value && applyOperator(parsed, operator, value, negated === '-')) {
+      continue;
+    }
+
+    if (quoted !== undefined || (operator && negated)) {
+      const phrase = tokenize(operator ? `${operator} ${value}` : value).join(' ');
+      if (!phrase) continue;
+      if (negated) {
+        parsed.text.excluded.push(phrase);
+      } else {
+        parsed.text.phrases.push(phrase);
+      }
+      continue;
+    }
+
+    const words = tokenize(negated ? raw.slice(1) : raw);
+    if (negated) {
+      parsed.text.excluded.push(...words);
+    } else {
+      parsed.text.terms.push(...words);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Fold the search box operators into the filters. The returned filters
+ * carry no search query; the free text comes back separately.
+ */
+export function resolveSearchQuery(filters: FilterState): { filters: FilterState; text: TextQuery } {
+  const { text, filters: operators } = parseSearchQuery(filters.searchQuery);
+  const union = (a: string[], b: string[] = []) => Array.from(new Set([...a, ...b]));
+  // The tighter of two optional bounds
+  const bound = (pick: (a: number, b: number) => number, a?: number, b?: number) =>
+    a === undefined ? b : b === undefined ? a : pick(a, b);
+
+  return {
+    filters: {
+      ...filters,
+      searchQuery: '',
+      starredOnly: operators.starredOnly ?? filters.starredOnly,
+      selectedDomains: union(filters.selectedDomains, operators.selectedDomains),
+      selectedTags: union(filters.selectedTags, operators.selectedTags),
+      excludedDomains: union(filters.excludedDomains ?? [], operators.excludedDomains),
+      excludedTags: union(filters.excludedTags ?? [], operators.excludedTags),
+      createdAfter: bound(Math.max, filters.createdAfter, operators.createdAfter),
+      createdBefore: bound(Math.min, filters.createdBefore, operators.createdBefore),
+    },
+    text,
+  };
+}
+
+/**
+ * Whether anything narrows the cards down (semantic ranking alone doesn't)
+ */
+export function isFiltering(filters: FilterState): boolean {
+  return (
+    filters.searchQuery.trim() !== '' ||
+    filters.starredOnly ||
+    filters.selectedDomains.length > 0 ||
+    filters.selectedTags.length > 0 ||
+    filters.dateRange !== 'all' ||
+    filters.createdAfter !== undefined ||
+    filters.createdBefore !== undefined ||
+    (filters.excludedDomains?.length ?? 0) > 0 ||
+    (filters.excludedTags?.length ?? 0) > 0 ||
+    (filters.cardTypes?.length ?? 0) > 0 ||
+    filters.hasConversation !== undefined ||
+    filters.beautified !== undefined ||
+    filters.orphan !== undefined ||
+    (filters.colors?.length ?? 0) > 0
+  );
+}
+
+function cardTypeOf(card: Card): CardType {
+  return card.cardType ?? 'clipped';
+}
+
+function hasConversation(card: Card): boolean {
+  return (card.conversation?.length ?? 0) > 0;
+}
+
+function isBeautified(card: Card): boolean {
+  return !!card.beautifiedContent;
+}
+
+function connectedCardIds(connections: CardConnection[]): Set<string> {
+  return new Set(connections.flatMap(connection => [connection.source, connection.target]));
+}
+
 /**
- * Filter cards based on filter state
+ * Filter cards based on filter state. With free text in the query, matches
+ * come back best first.
+ *
+ * @param index - Prebuilt index over (at least) the given cards; built on demand otherwise
+ * @param connections - Connections between the cards; the orphan facet is ignored without them
  */
-export function filterCards(cards: Card[], filters: FilterState): Card[] {
+export function filterCards(
+  cards: Card[],
+  rawFilters: FilterState,
+  index?: SearchIndex,
+  connections?: CardConnection[]
+): Card[] {
+  const { filters, text } = resolveSearchQuery(rawFilters);
   let result = [...cards];
 
   // Search filter
-  if (filters.searchQuery.trim()) {
-    const query = filters.searchQuery.toLowerCase();
-    result = result.filter(card => {
-      const titleMatch = card.metadata.title.toLowerCase().includes(query);
-      const domainMatch = card.metadata.domain.toLowerCase().includes(query);
-      const contentMatch = card.content?.toLowerCase().includes(query) || false;
-      const tagsMatch = (card.tags || []).some(tag => tag.toLowerCase().includes(query));
-      return titleMatch || domainMatch || contentMatch || tagsMatch;
-    });
+  if (hasTextQuery(text)) {
+    const scores = searchIndex(index ?? buildSearchIndex(cards), text);
+    result = result
+      .filter(card => scores.has(card.id))
+      .sort((a, b) => (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0));
   }
 
   // Starred filter
@@ -62,17 +328,25 @@ export function filterCards(cards: Card[], filters: FilterState): Card[] {
   }
 
   // Domain filter
+  const domainOf = (card: Card) => card.metadata.domain?.toLowerCase();
   if (filters.selectedDomains.length > 0) {
-    result = result.filter(card =>
-      filters.selectedDomains.includes(card.metadata.domain)
-    );
+    const domains = new Set(filters.selectedDomains.map(domain => domain.toLowerCase()));
+    result = result.filter(card => domains.has(domainOf(card)));
+  }
+  if (filters.excludedDomains?.length) {
+    const excluded = new Set(filters.excludedDomains.map(domain => domain.toLowerCase()));
+    result = result.filter(card => !excluded.has(domainOf(card)));
   }
 
   // Tags filter
+  const tagsOf = (card: Card) => (card.tags || []).map(tag => tag.toLowerCase());
   if (filters.selectedTags.length > 0) {
-    result = result.filter(card =>
-      filters.selectedTags.some(tag => (card.tags || []).includes(tag))
-    );
+    const tags = new Set(filters.selectedTags.map(tag => tag.toLowerCase()));
+    result = result.filter(card => tagsOf(card).some(tag => tags.has(tag)));
+  }
+  if (filters.excludedTags?.length) {
+    const excluded = new Set(filters.excludedTags.map(tag => tag.toLowerCase()));
+    result = result.filter(card => !tagsOf(card).some(tag => excluded.has(tag)));
   }
 
   // Date range filter
@@ -86,9 +360,76 @@ export function filterCards(cards: Card[], filters: FilterState): Card[] {
     result = result.filter(card => card.createdAt >= cutoff);
   }
 
+  // Explicit date bounds
+  const { createdAfter, createdBefore } = filters;
+  if (createdAfter !== undefined) {
+    result = result.filter(card => card.createdAt >= createdAfter);
+  }
+  if (createdBefore !== undefined) {
+    result = result.filter(card => card.createdAt < createdBefore);
+  }
+
+  // Facets
+  const { cardTypes, colors } = filters;
+  if (cardTypes && cardTypes.length > 0) {
+    result = result.filter(card => cardTypes.includes(cardTypeOf(card)));
+  }
+  if (filters.hasConversation !== undefined) {
+    result = result.filter(card => hasConversation(card) === filters.hasConversation);
+  }
+  if (filters.beautified !== undefined) {
+    result = result.filter(card => isBeautified(card) === filters.beautified);
+  }
+  if (filters.orphan !== undefined && connections) {
+    const connected = connectedCardIds(connections);
+    result = result.filter(card => !connected.has(card.id) === filters.orphan);
+  }
+  if (colors && colors.length > 0) {
+    result = result.filter(card => card.metadata.color !== undefined && colors.includes(card.metadata.color));
+  }
+
   return result;
 }
 
+/**
+ * Cards each facet value would keep. Every facet is counted over the cards
+ * matching all the other filters, so selecting a value shows its count.
+ */
+export function countFacets(
+  cards: Card[],
+  filters: FilterState,
+  index?: SearchIndex,
+  connections?: CardConnection[]
+): FacetCounts {
+  const searchIndex = hasTextQuery(resolveSearchQuery(filters).text) ? index ?? buildSearchIndex(cards) : index;
+  const without = (facet: Partial<FilterState>) =>
+    filterCards(cards, { ...filters, ...facet }, searchIndex, connections);
+  const countBoolean = (matching: Card[], test: (card: Card) => boolean): BooleanFacetCount => {
+    const yes = matching.filter(test).length;
+    return { yes, no: matching.length - yes };
+  };
+
+  const cardTypes = Object.fromEntries(CARD_TYPES.map(type => [type, 0])) as Record<CardType, number>;
+  for (const card of without({ cardTypes: [] })) {
+    cardTypes[cardTypeOf(card)]++;
+  }
+
+  const colors: Record<string, number> = {};
+  for (const card of without({ colors: [] })) {
+    const { color } = card.metadata;
+    if (color) colors[color] = (colors[color] ?? 0) + 1;
+  }
+
+  const connected = connectedCardIds(connections ?? []);
+  return {
+    cardTypes,
+    hasConversation: countBoolean(without({ hasConversation: undefined }), hasConversation),
+    beautified: countBoolean(without({ beautified: undefined }), isBeautified),
+    orphan: countBoolean(without({ orphan: undefined }), card => !connected.has(card.id)),
+    colors,
+  };
+}
+
 /**
  * Save filters to session storage
  */
@@ -0,0 +1,300 @@
+/**
+ * Graph Export Service - Export the canvas graph to open formats
+ *
+ * - JSON Canvas (https://jsoncanvas.org, v1.0): positions and sizes preserved,
+ *   opens directly in Obsidian Canvas
+ * - GraphML: nodes/edges with card attributes, for Gephi, yEd, NetworkX, ...
+ * - Mermaid: a flowchart for pasting into docs
+ *
+ * Only connections whose endpoints are both exported are written, so the
+ * output stays valid when exporting a filtered subset of cards.
+ */
+
+import type { Card } from '@/types/card';
+import type { CardConnection, ConnectionType } from '@/types/connection';
+import { htmlToMarkdown } from '@/utils/htmlToMarkdown';
+
+export type GraphExportFormat = 'json-canvas' | 'graphml' | 'mermaid';
+
+/**
+ * Position and size of a card on the canvas
+ */
+export interface GraphNodeRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const GRAPH_EXPORT_FORMATS: Record<GraphExportFormat, { label: string; extension: string; mimeType: string }> = {
+  'json-canvas': { label: 'JSON Canvas', extension: 'canvas', mimeType: 'application/json' },
+  graphml: { label: 'GraphML', extension: 'graphml', mimeType: 'application/xml' },
+  mermaid: { label: 'Mermaid', extension: 'mmd', mimeType: 'text/plain' },
+};
+
+// Same strokes the canvas uses for each connection type (see useCanvasState)
+const CONNECTION_COLORS: Record<ConnectionType, string> = {
+  'generated-from': '#D4AF37',
+  references: '#8B7355',
+  related: '#B89C82',
+  contradicts: '#8B0000',
+  custom: '#8B7355',
+};
+
+// Mirrors the grid fallback in useCanvasState for cards never moved
+const DEFAULT_CARD_SIZE = { width: 320, height: 240 };
+const GRID_COLUMNS = 4;
+const GRID_SPACING = 40;
+
+function fallbackRect(card: Card, index: number): GraphNodeRect {
+  const size = card.size || DEFAULT_CARD_SIZE;
+  const position = card.position || {
+    x: (index % GRID_COLUMNS) * (DEFAULT_CARD_SIZE.width + GRID_SPACING) + 100,
+    y: Math.floor(index / GRID_COLUMNS) * (DEFAULT_CARD_SIZE.height + GRID_SPACING) + 100,
+  };
+  return { ...position, ...size };
+}
+
+function resolveRect(card: Card, index: number, layout?: Record<string, GraphNodeRect>): GraphNodeRect {
+  const rect = layout?.[card.id] ?? fallbackRect(card, index);
+  return {
+    x: Math.round(rect.x),
+    y: Math.round(rect.y),
+    width: Math.round(rect.width),
+    height: Math.round(rect.height),
+  };
+}
+
+function cardTitle(card: Card): string {
+  return card.metadata?.title?.trim() || card.metadata?.domain || card.id;
+}
+
+function cardMarkdown(card: Card): string {
+  return card.beautifiedContent?.trim() || htmlToMarkdown(card.content ?? '');
+}
+
+/**
+ * Connections whose source and target are both in the exported set
+ */
+function connectionsWithin(cards: Card[], connections: CardConnection[]): CardConnection[] {
+  const ids = new Set(cards.map(card => card.id));
+  return connections.filter(connection => ids.has(connection.source) && ids.has(connection.target));
+}
+
+// ============================================================================
+// JSON Canvas
+// ============================================================================
+
+/**
+ * Export as a JSON Canvas document. Each card is a text node holding its
+ * title and Markdown content; image cards embed their data URL.
+ */
+export function toJsonCanvas(
+  cards: Card[],
+  connections: CardConnection[],
+  layout?: Record<string, GraphNodeRect>
+): string {
+  const nodes = cards.map((card, index) => {
+    const rect = resolveRect(card, index, layout);
+    const parts = [`## ${cardTitle(card)}`];
+    if (card.imageData) parts.push(`![](${card.imageData})`);
+    const body = cardMarkdown(card);
+    if (body) parts.push(body);
+    if (card.metadata?.url) parts.push(`[Source](${card.metadata.url})`);
+
+    return {
+      id: card.id,
+      type: 'text',
+      ...rect,
+      text: parts.join('\n\n'),
+      ...(card.starred && { color: '#D4AF37' }),
+    };
+  });
+
+  const edges = connectionsWithin(cards, connections).map(connection => ({
+    id: connection.id,
+    fromNode: connection.source,
+    toNode: connection.target,
+    toEnd: 'arrow',
+    color: CONNECTION_COLORS[connection.type] ?? CONNECTION_COLORS.related,
+    label: connection.label || connection.type,
+  }));
+
+  return JSON.stringify({ nodes, edges }, null, 2);
+}
+
+// ============================================================================
+// GraphML
+// ============================================================================
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+const GRAPHML_NODE_KEYS: Array<{ id: string; type: 'string' | 'boolean' | 'double' | 'long' }> = [
+  { id: 'title', type: 'string' },
+  { id: 'url', type: 'string' },
+  { id: 'domain', type: 'string' },
+  { id: 'tags', type: 'string' },
+  { id: 'cardType', type: 'string' },
+  { id: 'starred', type: 'boolean' },
+  { id: 'createdAt', type: 'long' },
+  { id: 'x', type: 'double' },
+  { id: 'y', type: 'double' },
+  { id: 'width', type: 'double' },
+  { id: 'height', type: 'double' },
+];
+
+const GRAPHML_EDGE_KEYS: Array<{ id: string; type: 'string' }> = [
+  { id: 'type', type: 'string' },
+  { id: 'label', type: 'string' },
+];
+
+/**
+ * Export as GraphML. Tags are joined with ", " since GraphML has no list type.
+ */
+export function toGraphML(
+  cards: Card[],
+  connections: CardConnection[],
+  layout?: Record<string, GraphNodeRect>
+): string {
+  const data = (key: string, value: string | number | boolean) =>
+    `      <data key="${key}">${escapeXml(String(value))}</data>`;
+
+  const keys = [
+    ...GRAPHML_NODE_KEYS.map(k => `  <key id="${k.id}" for="node" attr.name="${k.id}" attr.type="${k.type}"/>`),
+    ...GRAPHML_EDGE_KEYS.map(k => `  <key id="e_${k.id}" for="edge" attr.name="${k.id}" attr.type="${k.type}"/>`),
+  ];
+
+  const nodes = cards.map((card, index) => {
+    const rect = resolveRect(card, index, layout);
+    return [
+      `    <node id="${escapeXml(card.id)}">`,
+      data('title', cardTitle(card)),
+      data('url', card.metadata?.url ?? ''),
+      data('domain', card.metadata?.domain ?? ''),
+      data('tags', card.tags.join(', ')),
+      data('cardType', card.cardType ?? 'clipped'),
+      data('starred', card.starred),
+      data('createdAt', card.createdAt),
+      data('x', rect.x),
+      data('y', rect.y),
+      data('width', rect.width),
+      data('height', rect.height),
+      '    </node>',
+    ].join('\n');
+  });
+
+  const edges = connectionsWithin(cards, connections).map(connection => [
+    `    <edge id="${escapeXml(connection.id)}" source="${escapeXml(connection.source)}" target="${escapeXml(connection.target)}">`,
+    data('e_type', connection.type),
+    ...(connection.label ? [data('e_label', connection.label)] : []),
+    '    </edge>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns"',
+    '         xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    '         xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    ...keys,
+    '  <graph id="canvas" edgedefault="directed">',
+    ...nodes,
+    ...edges,
+    '  </graph>',
+    '</graphml>',
+    '',
+  ].join('\n');
+}
+
+// ============================================================================
+// Mermaid
+// ============================================================================
+
+const MERMAID_ARROWS: Record<ConnectionType, string> = {
+  'generated-from': '==>',
+  references: '-.->',
+  related: '---',
+  contradicts: '--x',
+  custom: '-->',
+};
+
+function escapeMermaid(value: string): string {
+  return value.replace(/"/g, '#quot;').replace(/[\r\n]+/g, ' ').replace(/[[\]{}|<>]/g, ' ').trim();
+}
+
+/**
+ * Export as a Mermaid flowchart. Card ids are replaced with short node ids
+ * (n0, n1, ...) since Mermaid ids cannot contain most punctuation.
+ */
+export function toMermaid(cards: Card[], connections: CardConnection[]): string {
+  const nodeIds = new Map(cards.map((card, index) => [card.id, `n${index}`]));
+  const lines = ['flowchart LR'];
+
+  for (const card of cards) {
+    lines.push(`  ${nodeIds.get(card.id)}["${escapeMermaid(cardTitle(card))}"]`);
+  }
+
+  for (const connection of connectionsWithin(cards, connections)) {
+    const arrow = MERMAID_ARROWS[connection.type] ?? '-->';
+    const label = connection.label ? `|"${escapeMermaid(connection.label)}"|` : '';
+    lines.push(`  ${nodeIds.get(connection.source)} ${arrow}${label} ${nodeIds.get(connection.target)}`);
+  }
+
+  const starred = cards.filter(card => card.starred).map(card => nodeIds.get(card.id));
+  if (starred.length > 0) {
+    lines.push('  classDef starred stroke:#D4AF37,stroke-width:3px', `  class ${starred.join(',')} starred`);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+// ============================================================================
+// Download
+// ============================================================================
+
+/**
+ * Serialize the graph in the given format
+ */
+export function exportGraph(
+  format: GraphExportFormat,
+  cards: Card[],
+  connections: CardConnection[],
+  layout?: Record<string, GraphNodeRect>
+): string {
+  switch (format) {
+    case 'json-canvas':
+      return toJsonCanvas(cards, connections, layout);
+    case 'graphml':
+      return toGraphML(cards, connections, layout);
+    case 'mermaid':
+      return toMermaid(cards, connections);
+    default:
+      throw new Error(`Unknown graph export format: ${format}`);
+  }
+}
+
+/**
+ * Serialize the graph and trigger a browser download
+ */
+export function downloadGraph(
+  format: GraphExportFormat,
+  cards: Card[],
+  connections: CardConnection[],
+  layout?: Record<string, GraphNodeRect>
+): void {
+  const { extension, mimeType } = GRAPH_EXPORT_FORMATS[format];
+  const blob = new Blob([exportGraph(format, cards, connections, layout)], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `schemaconstruct-graph-${new Date().toISOString().split('T')[0]}.${extension}`;
+  a.click();
+  URL.revokeObjectURL(url);
+  console.log(`[graphExportService] Exported ${cards.length} cards as ${format}`);
+}
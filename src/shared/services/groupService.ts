@@ -0,0 +1,174 @@
+/**
+ * Group Service - Titled frames around related cards
+ *
+ * Groups are stored next to connections in chrome.storage.local; cards
+ * point at their group through `card.groupId`. Frames are not React Flow
+ * parents: cards keep absolute positions and the canvas moves members along
+ * when a frame is dragged. Every mutation here is a single undo step.
+ */
+
+import type { Board } from '@/types/board';
+import type { Card } from '@/types/card';
+import type { CanvasGroup, CanvasRect } from '@/types/group';
+import { getAllCards, getCardRecords, putCards } from '@/utils/cardRepository';
+import { loadGroups, saveGroups } from '@/utils/groupStorage';
+import { DEFAULT_BOARD_ID } from '@/utils/boardStorage';
+import { generateId } from '@/utils/storage';
+import { recordHistory, cardChange, groupChange } from './historyService';
+
+export const GROUP_COLORS = ['#D4AF37', '#8B7355', '#C0392B', '#27AE60', '#2980B9', '#8E44AD'];
+
+/** Space between member cards and the frame edge */
+export const GROUP_PADDING = 40;
+
+/** Height of the frame's title bar */
+export const GROUP_HEADER_HEIGHT = 44;
+
+/** Size of a collapsed frame's summary node */
+export const COLLAPSED_GROUP_SIZE = { width: 260, height: 64 };
+
+function broadcastGroupsUpdate(): void {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent('nabokov:cards-updated'));
+  }
+  chrome.runtime.sendMessage({ type: 'GROUPS_UPDATED' }).catch((error) => {
+    console.debug('[groupService] No runtime listeners:', error);
+  });
+}
+
+export async function getGroups(): Promise<CanvasGroup[]> {
+  return loadGroups();
+}
+
+/**
+ * Whether a frame belongs on a board. Frames on boards that no longer
+ * exist fall back to the main board, like cards do.
+ */
+export function isGroupOnBoard(group: CanvasGroup, boardId: string, boards: Board[]): boolean {
+  const known = group.boardId && boards.some(board => board.id === group.boardId);
+  return (known ? group.boardId : DEFAULT_BOARD_ID) === boardId;
+}
+
+/**
+ * Frame rectangle enclosing the given card rectangles, with room for the title bar
+ */
+export function computeGroupBounds(rects: CanvasRect[]): Pick<CanvasGroup, 'position' | 'size'> {
+  if (rects.length === 0) {
+    throw new Error('Cannot compute bounds of an empty selection');
+  }
+  const minX = Math.min(...rects.map(rect => rect.x));
+  const minY = Math.min(...rects.map(rect => rect.y));
+  const maxX = Math.max(...rects.map(rect => rect.x + rect.width));
+  const maxY = Math.max(...rects.map(rect => rect.y + rect.height));
+
+  return {
+    position: { x: minX - GROUP_PADDING, y: minY - GROUP_PADDING - GROUP_HEADER_HEIGHT },
+    size: {
+      width: maxX - minX + GROUP_PADDING * 2,
+      height: maxY - minY + GROUP_PADDING * 2 + GROUP_HEADER_HEIGHT,
+    },
+  };
+}
+
+/**
+ * The expanded frame a card dropped at `rect` lands in: the smallest one
+ * containing the card's center
+ */
+export function findGroupAt(groups: CanvasGroup[], rect: CanvasRect): CanvasGroup | undefined {
+  const cx = rect.x + rect.width / 2;
+  const cy = rect.y + rect.height / 2;
+
+  return groups
+    .filter(group =>
+      !group.collapsed &&
+      cx >= group.position.x &&
+      cx <= group.position.x + group.size.width &&
+      cy >= group.position.y &&
+      cy <= group.position.y + group.size.height
+    )
+    .sort((a, b) => a.size.width * a.size.height - b.size.width * b.size.height)[0];
+}
+
+/**
+ * Put cards into a new frame sized around their current rectangles
+ */
+export async function groupCards(
+  members: Array<{ cardId: string; rect: CanvasRect }>,
+  options: { boardId: string; title?: string }
+): Promise<CanvasGroup> {
+  if (members.length === 0) {
+    throw new Error('Select at least one card to group');
+  }
+
+  const groups = await loadGroups();
+  const now = Date.now();
+  const group: CanvasGroup = {
+    id: generateId(),
+    title: options.title?.trim() || 'Untitled group',
+    color: GROUP_COLORS[groups.length % GROUP_COLORS.length],
+    ...computeGroupBounds(members.map(member => member.rect)),
+    boardId: options.boardId === DEFAULT_BOARD_ID ? undefined : options.boardId,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const existing = await getCardRecords(members.map(member => member.cardId));
+  const updated: Card[] = existing.map(card => ({ ...card, groupId: group.id, updatedAt: now }));
+
+  await saveGroups([...groups, group]);
+  await putCards(updated);
+  await recordHistory(
+    updated.length === 1 ? 'Group card' : `Group ${updated.length} cards`,
+    [groupChange(null, group), ...updated.map((card, i) => cardChange(existing[i], card))]
+  );
+  broadcastGroupsUpdate();
+
+  console.log('[groupService] Group created:', group.id, updated.length);
+  return group;
+}
+
+/**
+ * Remove frames, leaving their cards where they are
+ */
+export async function ungroupGroups(groupIds: string[]): Promise<void> {
+  const groups = await loadGroups();
+  const removed = groups.filter(group => groupIds.includes(group.id));
+  if (removed.length === 0) return;
+
+  const members = (await getAllCards()).filter(card => card.groupId && groupIds.includes(card.groupId));
+  const updated: Card[] = members.map(card => ({ ...card, groupId: undefined, updatedAt: Date.now() }));
+
+  await saveGroups(groups.filter(group => !groupIds.includes(group.id)));
+  if (updated.length > 0) await putCards(updated);
+  await recordHistory(removed.length === 1 ? 'Ungroup' : `Ungroup ${removed.length} groups`, [
+    ...removed.map(group => groupChange(group, null)),
+    ...updated.map((card, i) => cardChange(members[i], card)),
+  ]);
+  broadcastGroupsUpdate();
+
+  console.log('[groupService] Groups removed:', removed.length);
+}
+
+/**
+ * Change a frame's title, color or collapsed state
+ */
+export async function updateGroup(
+  groupId: string,
+  updates: Partial<Pick<CanvasGroup, 'title' | 'color' | 'collapsed'>>,
+  historyLabel: string = 'Edit group'
+): Promise<void> {
+  const groups = await loadGroups();
+  const existing = groups.find(group => group.id === groupId);
+  if (!existing) {
+    throw new Error(`Group not found: ${groupId}`);
+  }
+
+  const updated: CanvasGroup = { ...existing, ...updates, updatedAt: Date.now() };
+  if (!updated.title.trim()) {
+    throw new Error('Group title is required');
+  }
+
+  await saveGroups(groups.map(group => (group.id === groupId ? updated : group)));
+  await recordHistory(historyLabel, [groupChange(existing, updated)]);
+  broadcastGroupsUpdate();
+}
@@ -0,0 +1,387 @@
+/**
+ * History Service - Undo/redo for canvas mutations
+ *
+ * Every undoable mutation is recorded as a command holding before/after
+ * snapshots of the cards, connections and group frames it touched. Undo writes the
+ * "before" snapshots back, redo writes the "after" snapshots. Applying a
+ * command goes straight to the repository so it is not itself recorded.
+ *
+ * The stacks are bounded by entry count and serialized size, and persisted in
+ * chrome.storage.local, so history survives reloading the canvas. Large
+ * snapshot images are moved to IndexedDB when recorded (older stacks by the
+ * quota manager); they are resolved before being applied. Recording never
+ * throws: a failed record only loses the undo step, not the user's change.
+ */
+
+import type { Card } from '@/types/card';
+import type { CardConnection } from '@/types/connection';
+import type { CanvasGroup } from '@/types/group';
+import { generateId } from '@/utils/storage';
+import { putCard, deleteCardRecord, putBlobs, getBlobIds, deleteBlobs } from '@/utils/cardRepository';
+import { loadConnections, saveConnections } from '@/utils/connectionStorage';
+import { loadGroups, saveGroups } from '@/utils/groupStorage';
+import { BLOB_REF_PREFIX, blobIdFor, blobRefId, isBlobRef, resolveCardBlobs } from '@/utils/blobRefs';
+import { recordRevision } from '@/utils/revisionStorage';
+import { moveCardsToTrash, restoreCardsFromTrash } from './trashService';
+
+export const HISTORY_STORAGE_KEY = 'nabokov_history';
+
+/** Maximum number of undo steps kept */
+export const MAX_HISTORY_ENTRIES = 50;
+
+/** Maximum serialized size of the undo stack, oldest steps are dropped first */
+export const MAX_HISTORY_BYTES = 1024 * 1024;
+
+/** Snapshot images at least this large are worth moving to IndexedDB */
+export const OFFLOAD_MIN_BYTES = 16 * 1024;
+
+/**
+ * A single snapshot pair. `null` means the record did not exist, so a
+ * creation is `before: null` and a deletion is `after: null`.
+ * Moving cards to the trash is recorded by id; undo restores them (with
+ * their connections) from the trash.
+ */
+export type HistoryChange =
+  | { kind: 'card'; before: Card | null; after: Card | null }
+  | { kind: 'connection'; before: CardConnection | null; after: CardConnection | null }
+  | { kind: 'group'; before: CanvasGroup | null; after: CanvasGroup | null }
+  | { kind: 'trash'; cardIds: string[] };
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: number;
+  changes: HistoryChange[];
+}
+
+interface HistoryStacks {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+export interface HistoryStatus {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel?: string;
+  redoLabel?: string;
+}
+
+// Serializes reads/writes of the stacks so rapid edits don't drop entries
+let queue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const result = queue.then(task);
+  queue = result.catch(() => undefined);
+  return result;
+}
+
+async function loadStacks(): Promise<HistoryStacks> {
+  const result = await chrome.storage.local.get(HISTORY_STORAGE_KEY);
+  const stored = result[HISTORY_STORAGE_KEY] as HistoryStacks | undefined;
+  return {
+    undo: Array.isArray(stored?.undo) ? stored.undo : [],
+    redo: Array.isArray(stored?.redo) ? stored.redo : [],
+  };
+}
+
+async function saveStacks(stacks: HistoryStacks): Promise<void> {
+  await chrome.storage.local.set({ [HISTORY_STORAGE_KEY]: stacks });
+  window.dispatchEvent(new CustomEvent('nabokov:history-updated'));
+}
+
+function changeId(change: Exclude<HistoryChange, { kind: 'trash' }>): string {
+  return (change.after ?? change.before)!.id;
+}
+
+/**
+ * Compare snapshots ignoring `updatedAt`, which every save bumps
+ */
+function isNoOp(change: HistoryChange): boolean {
+  if (change.kind === 'trash') return change.cardIds.length === 0;
+  if (!change.before && !change.after) return true;
+  const strip = (value: Card | CardConnection | CanvasGroup | null) => {
+    if (!value) return null;
+    const { updatedAt: _updatedAt, ...rest } = value as Card;
+    return JSON.stringify(rest);
+  };
+  return strip(change.before) === strip(change.after);
+}
+
+/**
+ * Snapshot pair for a card. Pass `null` for a created or deleted card.
+ */
+export function cardChange(before: Card | null | undefined, after: Card | null | undefined): HistoryChange {
+  return { kind: 'card', before: before ?? null, after: after ?? null };
+}
+
+/**
+ * Snapshot pair for a connection. Pass `null` for an added or removed connection.
+ */
+export function connectionChange(
+  before: CardConnection | null | undefined,
+  after: CardConnection | null | undefined
+): HistoryChange {
+  return { kind: 'connection', before: before ?? null, after: after ?? null };
+}
+
+/**
+ * Snapshot pair for a group frame. Pass `null` for a created or removed group.
+ */
+export function groupChange(
+  before: CanvasGroup | null | undefined,
+  after: CanvasGroup | null | undefined
+): HistoryChange {
+  return { kind: 'group', before: before ?? null, after: after ?? null };
+}
+
+/**
+ * Record moving cards to the trash
+ */
+export function trashChange(cardIds: string[]): HistoryChange {
+  return { kind: 'trash', cardIds };
+}
+
+function changedCards(changes: HistoryChange[]): Card[] {
+  const cards: Card[] = [];
+  for (const change of changes) {
+    if (change.kind !== 'card') continue;
+    if (change.before) cards.push(change.before);
+    if (change.after) cards.push(change.after);
+  }
+  return cards;
+}
+
+/**
+ * Replace large inline images with blob references, storing each image once
+ *
+ * @returns Bytes removed from the snapshots and the number of images stored
+ */
+async function offloadCardImages(cards: Card[], minBytes: number): Promise<{ saved: number; stored: number }> {
+  const blobs = new Map<string, string>();
+  let saved = 0;
+
+  for (const card of cards) {
+    const data = card.imageData;
+    if (!data || isBlobRef(data) || data.length < minBytes) continue;
+    const id = blobIdFor(data);
+    blobs.set(id, data);
+    card.imageData = `${BLOB_REF_PREFIX}${id}`;
+    saved += data.length - card.imageData.length;
+  }
+
+  await putBlobs([...blobs].map(([id, data]) => ({ id, data })));
+  return { saved, stored: blobs.size };
+}
+
+/**
+ * Drop the oldest undo steps until the stack fits in MAX_HISTORY_BYTES
+ */
+function trimToBytes(entries: HistoryEntry[]): HistoryEntry[] {
+  const sizes = entries.map(entry => JSON.stringify(entry).length);
+  let total = sizes.reduce((sum, size) => sum + size, 0);
+  let start = 0;
+  while (start < entries.length && total > MAX_HISTORY_BYTES) {
+    total -= sizes[start];
+    start++;
+  }
+  if (start > 0) {
+    console.warn('[historyService] Dropped oldest history steps over size limit:', start);
+  }
+  return entries.slice(start);
+}
+
+/**
+ * Push a command onto the undo stack and clear the redo stack.
+ * Changes that leave a record untouched are dropped; if nothing is left the
+ * command is not recorded. Snapshot images are moved to IndexedDB before the
+ * stack is saved.
+ */
+export async function recordHistory(label: string, changes: HistoryChange[]): Promise<void> {
+  // Copy card snapshots so offloading images never touches the caller's cards
+  const effective = changes
+    .filter(change => !isNoOp(change))
+    .map(change => change.kind === 'card'
+      ? cardChange(change.before && { ...change.before }, change.after && { ...change.after })
+      : change);
+  if (effective.length === 0) return;
+
+  try {
+    await enqueue(async () => {
+      await offloadCardImages(changedCards(effective), OFFLOAD_MIN_BYTES);
+      const stacks = await loadStacks();
+      stacks.undo.push({ id: generateId(), label, timestamp: Date.now(), changes: effective });
+      stacks.undo = trimToBytes(stacks.undo.slice(-MAX_HISTORY_ENTRIES));
+      stacks.redo = [];
+      await saveStacks(stacks);
+    });
+  } catch (error) {
+    console.error('[historyService] Failed to record history:', error);
+  }
+}
+
+function contentChanged(a: Card, b: Card): boolean {
+  return a.content !== b.content
+    || a.beautifiedContent !== b.beautifiedContent
+    || a.metadata?.title !== b.metadata?.title;
+}
+
+/**
+ * Write one side of a command's snapshots back to storage. Card content
+ * changes are recorded as revisions, like any other edit.
+ */
+async function applyChanges(changes: HistoryChange[], side: 'before' | 'after'): Promise<void> {
+  const cardChanges = changes.filter(change => change.kind === 'card');
+  const connectionChanges = changes.filter(change => change.kind === 'connection');
+  const groupChanges = changes.filter(change => change.kind === 'group');
+  const trashChanges = changes.filter(change => change.kind === 'trash');
+
+  for (const change of trashChanges) {
+    if (side === 'before') {
+      await restoreCardsFromTrash(change.cardIds);
+    } else {
+      await moveCardsToTrash(change.cardIds);
+    }
+  }
+
+  for (const change of cardChanges) {
+    const target = change[side] as Card | null;
+    const current = change[side === 'before' ? 'after' : 'before'] as Card | null;
+    if (target) {
+      const card = await resolveCardBlobs(target);
+      await putCard(card);
+      if (current && contentChanged(current, target)) {
+        // Stamped now so the revision log stays in order
+        await recordRevision({ ...card, updatedAt: Date.now() }, side === 'before' ? 'undo' : 'redo', 'user', current);
+      }
+    } else {
+      await deleteCardRecord(changeId(change));
+    }
+  }
+
+  if (connectionChanges.length > 0) {
+    let connections = await loadConnections();
+    for (const change of connectionChanges) {
+      const id = changeId(change);
+      const target = change[side] as CardConnection | null;
+      connections = connections.filter(connection => connection.id !== id);
+      if (target) connections.push(target);
+    }
+    await saveConnections(connections);
+  }
+
+  if (groupChanges.length > 0) {
+    let groups = await loadGroups();
+    for (const change of groupChanges) {
+      const id = changeId(change);
+      const target = change[side] as CanvasGroup | null;
+      groups = groups.filter(group => group.id !== id);
+      if (target) groups.push(target);
+    }
+    await saveGroups(groups);
+  }
+
+  window.dispatchEvent(new CustomEvent('nabokov:cards-updated'));
+  window.dispatchEvent(new CustomEvent('nabokov:stash-updated'));
+  chrome.runtime.sendMessage({ type: 'CARD_UPDATED' }).catch((error) => {
+    console.debug('[historyService] No runtime listeners:', error);
+  });
+}
+
+/**
+ * Undo the most recent command
+ *
+ * @returns The undone command, or null if there was nothing to undo
+ */
+export async function undo(): Promise<HistoryEntry | null> {
+  return enqueue(async () => {
+    const stacks = await loadStacks();
+    const entry = stacks.undo.pop();
+    if (!entry) return null;
+
+    // Reverse order so dependent changes unwind cleanly
+    await applyChanges([...entry.changes].reverse(), 'before');
+    stacks.redo.push(entry);
+    await saveStacks(stacks);
+
+    console.log('[historyService] Undid:', entry.label);
+    return entry;
+  });
+}
+
+/**
+ * Redo the most recently undone command
+ *
+ * @returns The redone command, or null if there was nothing to redo
+ */
+export async function redo(): Promise<HistoryEntry | null> {
+  return enqueue(async () => {
+    const stacks = await loadStacks();
+    const entry = stacks.redo.pop();
+    if (!entry) return null;
+
+    await applyChanges(entry.changes, 'after');
+    stacks.undo.push(entry);
+    await saveStacks(stacks);
+
+    console.log('[historyService] Redid:', entry.label);
+    return entry;
+  });
+}
+
+/**
+ * Whether undo/redo are available, with labels for tooltips
+ */
+export async function getHistoryStatus(): Promise<HistoryStatus> {
+  const stacks = await enqueue(loadStacks);
+  return {
+    canUndo: stacks.undo.length > 0,
+    canRedo: stacks.redo.length > 0,
+    undoLabel: stacks.undo[stacks.undo.length - 1]?.label,
+    redoLabel: stacks.redo[stacks.redo.length - 1]?.label,
+  };
+}
+
+function snapshotCards(stacks: HistoryStacks): Card[] {
+  return [...stacks.undo, ...stacks.redo].flatMap(entry => changedCards(entry.changes));
+}
+
+/**
+ * Bytes of image data stored inline in history snapshots
+ */
+export async function getInlineHistoryImageBytes(minBytes: number = OFFLOAD_MIN_BYTES): Promise<number> {
+  const stacks = await enqueue(loadStacks);
+  return snapshotCards(stacks)
+    .filter(card => card.imageData && !isBlobRef(card.imageData) && card.imageData.length >= minBytes)
+    .reduce((total, card) => total + card.imageData!.length, 0);
+}
+
+/**
+ * Move large snapshot images into IndexedDB, leaving a reference behind,
+ * and delete stored images no snapshot references any more
+ *
+ * @returns Bytes removed from chrome.storage.local
+ */
+export async function offloadHistoryImages(minBytes: number = OFFLOAD_MIN_BYTES): Promise<number> {
+  return enqueue(async () => {
+    const stacks = await loadStacks();
+    const { saved, stored } = await offloadCardImages(snapshotCards(stacks), minBytes);
+    if (stored > 0) {
+      await saveStacks(stacks);
+    }
+
+    const referenced = new Set(
+      snapshotCards(stacks).filter(card => isBlobRef(card.imageData)).map(card => blobRefId(card.imageData!))
+    );
+    await deleteBlobs((await getBlobIds()).filter(id => !referenced.has(id)));
+
+    console.log('[historyService] Offloaded history images:', stored);
+    return saved;
+  });
+}
+
+/**
+ * Drop all undo/redo history
+ */
+export async function clearHistory(): Promise<void> {
+  await enqueue(() => saveStacks({ undo: [], redo: [] }));
+}
@@ -0,0 +1,475 @@
+/**
+ * Layout Service - Automatic card arrangement
+ *
+ * Layouts are pure functions from card rectangles and connections to new
+ * top-left positions. The canvas animates its nodes to them and then calls
+ * `applyLayout`, which saves every moved card (and refits the frames they
+ * sit in) as one undo step. New generated cards are placed next to their
+ * source in the first free slot found by `findFreePosition`.
+ */
+
+import type { Card, CardPosition, CardSize } from '@/types/card';
+import type { CardConnection, ConnectionType } from '@/types/connection';
+import type { CanvasRect } from '@/types/group';
+import { getAllCards, getCardRecords, getCardsByStashed, putCards } from '@/utils/cardRepository';
+import { loadGroups, saveGroups } from '@/utils/groupStorage';
+import { loadBoards } from '@/utils/boardStorage';
+import { getCardBoardIds } from './boardService';
+import { computeGroupBounds } from './groupService';
+import { recordHistory, cardChange, groupChange, type HistoryChange } from './historyService';
+
+export type LayoutAlgorithm = 'hierarchical' | 'force' | 'grid-by-domain' | 'radial';
+
+export const LAYOUT_ALGORITHMS: Record<LayoutAlgorithm, { label: string; description: string }> = {
+  hierarchical: { label: 'Hierarchy', description: 'Generated cards to the right of their source' },
+  force: { label: 'Force-directed', description: 'Connected cards pulled together' },
+  'grid-by-domain': { label: 'Grid by domain', description: 'One block of cards per website' },
+  radial: { label: 'Radial', description: 'Rings around the selected card' },
+};
+
+/** Space kept between laid out cards */
+export const LAYOUT_GAP = 60;
+
+const GRID_COLUMNS = 5;
+const FORCE_ITERATIONS = 150;
+const DEFAULT_CARD_SIZE: CardSize = { width: 320, height: 240 };
+
+export interface LayoutNode extends CanvasRect {
+  id: string;
+  domain?: string;
+}
+
+export interface LayoutEdge {
+  source: string;
+  target: string;
+  type: ConnectionType;
+}
+
+export type LayoutPositions = Record<string, CardPosition>;
+
+export interface LayoutOptions {
+  /** Card the radial layout is centered on */
+  rootId?: string;
+}
+
+function overlaps(a: CanvasRect, b: CanvasRect, gap = 0): boolean {
+  return (
+    a.x < b.x + b.width + gap &&
+    b.x < a.x + a.width + gap &&
+    a.y < b.y + b.height + gap &&
+    b.y < a.y + a.height + gap
+  );
+}
+
+/**
+ * Shift positions so the laid out cards start where the originals did
+ */
+function anchorTo(positions: LayoutPositions, nodes: LayoutNode[]): LayoutPositions {
+  const ids = Object.keys(positions);
+  if (ids.length === 0) return positions;
+
+  const dx = Math.min(...nodes.map(node => node.x)) - Math.min(...ids.map(id => positions[id].x));
+  const dy = Math.min(...nodes.map(node => node.y)) - Math.min(...ids.map(id => positions[id].y));
+  return Object.fromEntries(ids.map(id => [id, { x: positions[id].x + dx, y: positions[id].y + dy }]));
+}
+
+/**
+ * Trees of `generated-from` connections, sources on the left and generated
+ * cards in columns to their right. Unconnected cards are single-card trees.
+ */
+function hierarchicalLayout(nodes: LayoutNode[], edges: LayoutEdge[]): LayoutPositions {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const children = new Map<string, string[]>();
+  const hasParent = new Set<string>();
+
+  edges
+    .filter(edge => edge.type === 'generated-from' && edge.source !== edge.target)
+    .forEach(edge => {
+      // First parent wins so the graph stays a tree
+      if (!byId.has(edge.source) || !byId.has(edge.target) || hasParent.has(edge.target)) return;
+      hasParent.add(edge.target);
+      children.set(edge.source, [...(children.get(edge.source) ?? []), edge.target]);
+    });
+
+  // Depth of every card; cards only reachable through a cycle start their own tree
+  const depth = new Map<string, number>();
+  const treeChildren = new Map<string, string[]>();
+  const roots: string[] = [];
+  const visit = (id: string, level: number) => {
+    depth.set(id, level);
+    const kids = (children.get(id) ?? []).filter(kid => !depth.has(kid));
+    kids.forEach(kid => depth.set(kid, level + 1));
+    treeChildren.set(id, kids);
+    kids.forEach(kid => visit(kid, level + 1));
+  };
+  [...nodes.filter(node => !hasParent.has(node.id)), ...nodes].forEach(node => {
+    if (depth.has(node.id)) return;
+    roots.push(node.id);
+    visit(node.id, 0);
+  });
+
+  // Column x offsets fit the widest card of each depth
+  const columnWidths: number[] = [];
+  depth.forEach((level, id) => {
+    columnWidths[level] = Math.max(columnWidths[level] ?? 0, byId.get(id)!.width);
+  });
+  const columnX = columnWidths.reduce<number[]>(
+    (xs, width, i) => [...xs, i === 0 ? 0 : xs[i - 1] + columnWidths[i - 1] + LAYOUT_GAP],
+    []
+  );
+
+  // Leaves stack downwards; parents center on their children
+  const positions: LayoutPositions = {};
+  const columnBottom: number[] = [];
+  let cursorY = 0;
+  const place = (id: string): { top: number; bottom: number } => {
+    const node = byId.get(id)!;
+    const level = depth.get(id)!;
+    const kids = treeChildren.get(id) ?? [];
+
+    let y = cursorY;
+    if (kids.length > 0) {
+      const spans = kids.map(place);
+      const top = spans[0].top;
+      const bottom = spans[spans.length - 1].bottom;
+      y = (top + bottom) / 2 - node.height / 2;
+    }
+    y = Math.max(y, columnBottom[level] ?? -Infinity);
+
+    positions[id] = { x: columnX[level], y };
+    columnBottom[level] = y + node.height + LAYOUT_GAP;
+    cursorY = Math.max(cursorY, y + node.height + LAYOUT_GAP);
+    return { top: y, bottom: y + node.height };
+  };
+  roots.forEach(root => {
+    place(root);
+  });
+
+  return anchorTo(positions, nodes);
+}
+
+/**
+ * Push overlapping cards apart along the axis that needs the smaller move
+ */
+function separate(nodes: LayoutNode[], centers: Map<string, CardPosition>): void {
+  for (let pass = 0; pass < 50; pass++) {
+    let moved = false;
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        const a = nodes[i];
+        const b = nodes[j];
+        const ca = centers.get(a.id)!;
+        const cb = centers.get(b.id)!;
+        const overlapX = (a.width + b.width) / 2 + LAYOUT_GAP / 2 - Math.abs(ca.x - cb.x);
+        const overlapY = (a.height + b.height) / 2 + LAYOUT_GAP / 2 - Math.abs(ca.y - cb.y);
+        if (overlapX <= 0 || overlapY <= 0) continue;
+
+        moved = true;
+        if (overlapX < overlapY) {
+          const shift = (overlapX / 2) * (ca.x <= cb.x ? 1 : -1);
+          ca.x -= shift;
+          cb.x += shift;
+        } else {
+          const shift = (overlapY / 2) * (ca.y <= cb.y ? 1 : -1);
+          ca.y -= shift;
+          cb.y += shift;
+        }
+      }
+    }
+    if (!moved) return;
+  }
+}
+
+/**
+ * Fruchterman-Reingold from the current positions: every pair of cards
+ * repels, connected cards attract. Deterministic for the same input.
+ */
+function forceLayout(nodes: LayoutNode[], edges: LayoutEdge[]): LayoutPositions {
+  const centers = new Map<string, CardPosition>(
+    nodes.map((node, i) => [
+      node.id,
+      // A tiny index-based offset keeps cards stacked on one spot apart
+      { x: node.x + node.width / 2 + (i % 7), y: node.y + node.height / 2 + (i % 5) },
+    ])
+  );
+  const links = edges.filter(edge => centers.has(edge.source) && centers.has(edge.target) && edge.source !== edge.target);
+  const k = nodes.reduce((sum, node) => sum + Math.hypot(node.width, node.height), 0) / nodes.length + LAYOUT_GAP;
+
+  for (let iteration = 0; iteration < FORCE_ITERATIONS; iteration++) {
+    const temperature = k * (1 - iteration / FORCE_ITERATIONS);
+    const displacement = new Map(nodes.map(node => [node.id, { x: 0, y: 0 }]));
+
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        const a = centers.get(nodes[i].id)!;
+        const b = centers.get(nodes[j].id)!;
+        const dx = a.x - b.x;
+        const dy = a.y - b.y;
+        const distance = Math.max(Math.hypot(dx, dy), 1);
+        const force = (k * k) / distance;
+        const da = displacement.get(nodes[i].id)!;
+        const db = displacement.get(nodes[j].id)!;
+        da.x += (dx / distance) * force;
+        da.y += (dy / distance) * force;
+        db.x -= (dx / distance) * force;
+        db.y -= (dy / distance) * force;
+      }
+    }
+
+    links.forEach(edge => {
+      const a = centers.get(edge.source)!;
+      const b = centers.get(edge.target)!;
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const distance = Math.max(Math.hypot(dx, dy), 1);
+      const force = (distance * distance) / k;
+      const da = displacement.get(edge.source)!;
+      const db = displacement.get(edge.target)!;
+      da.x -= (dx / distance) * force;
+      da.y -= (dy / distance) * force;
+      db.x += (dx / distance) * force;
+      db.y += (dy / distance) * force;
+    });
+
+    nodes.forEach(node => {
+      const d = displacement.get(node.id)!;
+      const length = Math.max(Math.hypot(d.x, d.y), 1);
+      const center = centers.get(node.id)!;
+      center.x += (d.x / length) * Math.min(length, temperature);
+      center.y += (d.y / length) * Math.min(length, temperature);
+    });
+  }
+
+  separate(nodes, centers);
+
+  const positions: LayoutPositions = {};
+  nodes.forEach(node => {
+    const center = centers.get(node.id)!;
+    positions[node.id] = { x: center.x - node.width / 2, y: center.y - node.height / 2 };
+  });
+  return anchorTo(positions, nodes);
+}
+
+/**
+ * One block per domain (alphabetical), cards in reading order within it
+ */
+function gridByDomainLayout(nodes: LayoutNode[]): LayoutPositions {
+  const byDomain = new Map<string, LayoutNode[]>();
+  [...nodes]
+    .sort((a, b) => a.y - b.y || a.x - b.x)
+    .forEach(node => {
+      const domain = node.domain || 'other';
+      byDomain.set(domain, [...(byDomain.get(domain) ?? []), node]);
+    });
+
+  const positions: LayoutPositions = {};
+  let blockY = 0;
+  [...byDomain.keys()].sort().forEach(domain => {
+    const members = byDomain.get(domain)!;
+    const cellWidth = Math.max(...members.map(node => node.width)) + LAYOUT_GAP;
+
+    for (let start = 0; start < members.length; start += GRID_COLUMNS) {
+      const row = members.slice(start, start + GRID_COLUMNS);
+      row.forEach((node, col) => {
+        positions[node.id] = { x: col * cellWidth, y: blockY };
+      });
+      blockY += Math.max(...row.map(node => node.height)) + LAYOUT_GAP;
+    }
+    // Extra space between domains
+    blockY += LAYOUT_GAP;
+  });
+
+  return anchorTo(positions, nodes);
+}
+
+/**
+ * Rings around the root card by connection distance. The root stays where
+ * it is; cards not connected to it go on the outermost ring.
+ */
+function radialLayout(nodes: LayoutNode[], edges: LayoutEdge[], rootId?: string): LayoutPositions {
+  const root = nodes.find(node => node.id === rootId) ?? nodes[0];
+  const neighbors = new Map<string, string[]>(nodes.map(node => [node.id, []]));
+  edges.forEach(edge => {
+    if (!neighbors.has(edge.source) || !neighbors.has(edge.target)) return;
+    neighbors.get(edge.source)!.push(edge.target);
+    neighbors.get(edge.target)!.push(edge.source);
+  });
+
+  const distance = new Map<string, number>([[root.id, 0]]);
+  const queue = [root.id];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    neighbors.get(id)!.forEach(next => {
+      if (distance.has(next)) return;
+      distance.set(next, distance.get(id)! + 1);
+      queue.push(next);
+    });
+  }
+  const outerRing = Math.max(0, ...distance.values()) + 1;
+  const rings: LayoutNode[][] = [];
+  nodes.forEach(node => {
+    if (node.id === root.id) return;
+    const ring = distance.get(node.id) ?? outerRing;
+    rings[ring] = [...(rings[ring] ?? []), node];
+  });
+
+  const step = Math.max(...nodes.map(node => Math.hypot(node.width, node.height))) + LAYOUT_GAP;
+  const cx = root.x + root.width / 2;
+  const cy = root.y + root.height / 2;
+  const positions: LayoutPositions = { [root.id]: { x: root.x, y: root.y } };
+
+  let radius = 0;
+  rings.forEach(ring => {
+    if (!ring?.length) return;
+    // Far enough out for the ring's cards to fit around it
+    radius = Math.max(radius + step, (ring.length * step) / (2 * Math.PI));
+    ring.forEach((node, i) => {
+      const angle = (2 * Math.PI * i) / ring.length - Math.PI / 2;
+      positions[node.id] = {
+        x: cx + radius * Math.cos(angle) - node.width / 2,
+        y: cy + radius * Math.sin(angle) - node.height / 2,
+      };
+    });
+  });
+
+  return positions;
+}
+
+/**
+ * New top-left positions for the given cards
+ */
+export function computeLayout(
+  algorithm: LayoutAlgorithm,
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  options: LayoutOptions = {}
+): LayoutPositions {
+  if (nodes.length === 0) return {};
+
+  switch (algorithm) {
+    case 'hierarchical':
+      return hierarchicalLayout(nodes, edges);
+    case 'force':
+      return forceLayout(nodes, edges);
+    case 'grid-by-domain':
+      return gridByDomainLayout(nodes);
+    case 'radial':
+      return radialLayout(nodes, edges, options.rootId);
+    default:
+      throw new Error(`Unknown layout: ${algorithm}`);
+  }
+}
+
+/**
+ * Layout edges from connections, plus `generated-from` links for generated
+ * cards whose connection is missing (e.g. removed by hand)
+ */
+export function buildLayoutEdges(cards: Card[], connections: CardConnection[]): LayoutEdge[] {
+  const edges: LayoutEdge[] = connections.map(({ source, target, type }) => ({ source, target, type }));
+  const linked = new Set(
+    edges.filter(edge => edge.type === 'generated-from').map(edge => `${edge.source}->${edge.target}`)
+  );
+  cards.forEach(card => {
+    if (card.parentCardId && !linked.has(`${card.parentCardId}->${card.id}`)) {
+      edges.push({ source: card.parentCardId, target: card.id, type: 'generated-from' });
+    }
+  });
+  return edges;
+}
+
+/**
+ * First free slot for a card of `size`: the preferred position, then slots
+ * below and above it, then the same search one column further right
+ */
+export function findFreePosition(size: CardSize, obstacles: CanvasRect[], preferred: CardPosition): CardPosition {
+  const rowOffsets = [0, 1, -1, 2, -2, 3, -3];
+
+  for (let col = 0; col < 6; col++) {
+    for (const row of rowOffsets) {
+      const candidate = {
+        x: preferred.x + col * (size.width + LAYOUT_GAP),
+        y: preferred.y + row * (size.height + LAYOUT_GAP),
+      };
+      if (!obstacles.some(rect => overlaps({ ...candidate, ...size }, rect, LAYOUT_GAP / 2))) {
+        return candidate;
+      }
+    }
+  }
+
+  // Crowded neighborhood: go below everything
+  return {
+    x: preferred.x,
+    y: Math.max(...obstacles.map(rect => rect.y + rect.height)) + LAYOUT_GAP,
+  };
+}
+
+function cardRect(card: Card): CanvasRect | null {
+  if (!card.position) return null;
+  return { ...card.position, ...(card.size ?? DEFAULT_CARD_SIZE) };
+}
+
+/**
+ * Position for a card generated from `source`: to its right, moved down
+ * or further right until it overlaps no card on the source's boards
+ */
+export async function placeGeneratedCard(source: Card, size: CardSize): Promise<CardPosition> {
+  const preferred = {
+    x: (source.position?.x ?? 0) + (source.size?.width ?? DEFAULT_CARD_SIZE.width) + LAYOUT_GAP,
+    y: source.position?.y ?? 0,
+  };
+
+  const [canvasCards, boards] = await Promise.all([getCardsByStashed(false), loadBoards()]);
+  const sourceBoardIds = getCardBoardIds(source, boards);
+  const sameBoard = (card: Card) =>
+    getCardBoardIds(card, boards).some(boardId => sourceBoardIds.includes(boardId));
+  const obstacles = [source, ...canvasCards.filter(card => card.id !== source.id && sameBoard(card))]
+    .map(cardRect)
+    .filter((rect): rect is CanvasRect => rect !== null);
+
+  return findFreePosition(size, obstacles, preferred);
+}
+
+/**
+ * Save laid out positions as one undo step. Frames around moved cards are
+ * refitted so their members stay inside.
+ */
+export async function applyLayout(positions: LayoutPositions, label: string): Promise<void> {
+  const cardIds = Object.keys(positions);
+  if (cardIds.length === 0) return;
+
+  const now = Date.now();
+  const existing = await getCardRecords(cardIds);
+  const updated = existing.map(card => ({ ...card, position: positions[card.id], updatedAt: now }));
+  await putCards(updated);
+  const changes: HistoryChange[] = updated.map((card, i) => cardChange(existing[i], card));
+
+  const groupIds = new Set(updated.map(card => card.groupId).filter((id): id is string => !!id));
+  if (groupIds.size > 0) {
+    const members = (await getAllCards()).filter(card => card.groupId && groupIds.has(card.groupId));
+    const groups = await loadGroups();
+    const refitted = groups.map(group => {
+      if (!groupIds.has(group.id) || group.collapsed) return group;
+      const rects = members
+        .filter(card => card.groupId === group.id)
+        .map(cardRect)
+        .filter((rect): rect is CanvasRect => rect !== null);
+      if (rects.length === 0) return group;
+
+      const refit = { ...group, ...computeGroupBounds(rects), updatedAt: now };
+      changes.push(groupChange(group, refit));
+      return refit;
+    });
+    await saveGroups(refitted);
+  }
+
+  await recordHistory(label, changes);
+
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent('nabokov:cards-updated'));
+  }
+  chrome.runtime.sendMessage({ type: 'CARD_UPDATED', cardIds }).catch((error) => {
+    console.debug('[layoutService] No runtime listeners:', error);
+  });
+
+  console.log('[layoutService] Layout applied:', label, cardIds.length);
+}
@@ -0,0 +1,206 @@
+/**
+ * Markdown Vault Service - Export cards as an Obsidian-compatible vault
+ *
+ * Each card becomes a Markdown note with YAML front-matter. Connections are
+ * written as [[wikilinks]] so Obsidian's graph and backlinks pick them up,
+ * and image data is extracted into an `attachments/` folder. The vault is
+ * downloaded as a single zip.
+ */
+
+import type { Card } from '@/types/card';
+import type { CardConnection } from '@/types/connection';
+import { getAllCards } from '@/utils/cardRepository';
+import { loadConnections } from '@/utils/connectionStorage';
+import { htmlToMarkdown } from '@/utils/htmlToMarkdown';
+import { createZip, type ZipEntry } from '@/utils/zipArchive';
+
+/** Folder inside the vault holding extracted images */
+export const VAULT_ATTACHMENTS_DIR = 'attachments';
+
+const MAX_NOTE_NAME_LENGTH = 100;
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'image/bmp': 'bmp',
+};
+
+/**
+ * Characters Obsidian rejects in note names, plus path separators
+ */
+const UNSAFE_NAME_CHARS = /[\\/:*?"<>|#^[\]]/g;
+
+/**
+ * Turn a card title into a safe note name (without extension)
+ */
+export function toNoteName(card: Card): string {
+  const raw = card.metadata?.title?.trim() || card.metadata?.textContent?.trim() || card.id;
+  const cleaned = raw.replace(UNSAFE_NAME_CHARS, ' ').replace(/\s+/g, ' ').trim();
+  return (cleaned || card.id).slice(0, MAX_NOTE_NAME_LENGTH).trim();
+}
+
+/**
+ * Assign every card a unique note name, suffixing duplicates " (2)", " (3)"...
+ */
+function assignNoteNames(cards: Card[]): Map<string, string> {
+  const names = new Map<string, string>();
+  const used = new Set<string>();
+
+  for (const card of cards) {
+    const base = toNoteName(card);
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      name = `${base} (${n})`;
+    }
+    used.add(name.toLowerCase());
+    names.set(card.id, name);
+  }
+
+  return names;
+}
+
+/**
+ * Decode a base64 data URL into bytes and a file extension
+ */
+function decodeDataUrl(dataUrl: string, fallbackMime?: string): { bytes: Uint8Array; extension: string } | null {
+  const match = dataUrl.match(/^data:([^;,]+)?(;base64)?,(.*)$/s);
+  if (!match || !match[2]) return null;
+
+  const mime = match[1] || fallbackMime || 'image/png';
+  const binary = atob(match[3]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return { bytes, extension: MIME_EXTENSIONS[mime] ?? 'bin' };
+}
+
+function yamlString(value: string): string {
+  return JSON.stringify(value);
+}
+
+/**
+ * YAML front-matter block for a card
+ */
+export function buildFrontMatter(card: Card): string {
+  const lines = [
+    '---',
+    `id: ${yamlString(card.id)}`,
+    `title: ${yamlString(card.metadata?.title ?? '')}`,
+    `source: ${yamlString(card.metadata?.url ?? '')}`,
+    `domain: ${yamlString(card.metadata?.domain ?? '')}`,
+  ];
+
+  if (card.tags.length > 0) {
+    lines.push('tags:', ...card.tags.map(tag => `  - ${yamlString(tag)}`));
+  } else {
+    lines.push('tags: []');
+  }
+
+  lines.push(
+    `starred: ${card.starred ? 'true' : 'false'}`,
+    `createdAt: ${new Date(card.createdAt).toISOString()}`,
+    `updatedAt: ${new Date(card.updatedAt ?? card.createdAt).toISOString()}`
+  );
+  if (card.cardType) lines.push(`cardType: ${card.cardType}`);
+  if (card.stashed) lines.push('stashed: true');
+  lines.push('---');
+
+  return lines.join('\n');
+}
+
+/**
+ * Render one card's note. Extracted images are appended to `attachments`.
+ */
+function buildNote(
+  card: Card,
+  noteName: string,
+  outgoing: CardConnection[],
+  noteNames: Map<string, string>,
+  attachments: ZipEntry[]
+): string {
+  let imageCount = 0;
+  const addAttachment = (dataUrl: string, mime?: string): string | undefined => {
+    const decoded = decodeDataUrl(dataUrl, mime);
+    if (!decoded) return undefined;
+    imageCount++;
+    const suffix = imageCount === 1 ? '' : `-${imageCount}`;
+    const path = `${VAULT_ATTACHMENTS_DIR}/${noteName}${suffix}.${decoded.extension}`;
+    attachments.push({ path, data: decoded.bytes, modifiedAt: new Date(card.updatedAt ?? card.createdAt) });
+    return `![[${path}]]`;
+  };
+
+  const sections: string[] = [buildFrontMatter(card)];
+
+  if (card.imageData) {
+    const embed = addAttachment(card.imageData, card.imageMimeType);
+    if (embed) sections.push(embed);
+  }
+
+  // Beautified content is already Markdown; clipped content is sanitized HTML
+  const body = card.beautifiedContent
+    ? card.beautifiedContent.trim()
+    : htmlToMarkdown(card.content ?? '', {
+        resolveImage: (src) => (src.startsWith('data:') ? addAttachment(src) : undefined),
+      });
+  if (body) sections.push(body);
+
+  const links = outgoing
+    .filter(connection => noteNames.has(connection.target))
+    .map(connection => {
+      const label = connection.label ? ` — ${connection.label}` : '';
+      return `- ${connection.type}: [[${noteNames.get(connection.target)}]]${label}`;
+    });
+  if (links.length > 0) {
+    sections.push(['## Connections', '', ...links].join('\n'));
+  }
+
+  return `${sections.join('\n\n')}\n`;
+}
+
+/**
+ * Build the vault files for a set of cards. Connections to cards outside the
+ * set are omitted.
+ */
+export function buildMarkdownVault(cards: Card[], connections: CardConnection[]): ZipEntry[] {
+  const noteNames = assignNoteNames(cards);
+  const notes: ZipEntry[] = [];
+  const attachments: ZipEntry[] = [];
+
+  for (const card of cards) {
+    const noteName = noteNames.get(card.id)!;
+    const outgoing = connections.filter(connection => connection.source === card.id);
+    notes.push({
+      path: `${noteName}.md`,
+      data: buildNote(card, noteName, outgoing, noteNames, attachments),
+      modifiedAt: new Date(card.updatedAt ?? card.createdAt),
+    });
+  }
+
+  return [...notes, ...attachments];
+}
+
+/**
+ * Export cards (all by default) as a zipped vault and trigger a download
+ *
+ * @returns Number of notes written
+ */
+export async function downloadMarkdownVault(cards?: Card[]): Promise<number> {
+  const [allCards, connections] = await Promise.all([cards ?? getAllCards(), loadConnections()]);
+  const entries = buildMarkdownVault(allCards, connections);
+  const zip = createZip(entries);
+
+  const blob = new Blob([zip.buffer as ArrayBuffer], { type: 'application/zip' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `schemaconstruct-vault-${new Date().toISOString().split('T')[0]}.zip`;
+  a.click();
+  URL.revokeObjectURL(url);
+
+  console.log(`[markdownVaultService] Exported ${allCards.length} notes`);
+  return allCards.length;
+}
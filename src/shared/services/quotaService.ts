@@ -0,0 +1,287 @@
+/**
+ * Quota Service - Storage quota monitoring and cleanup
+ *
+ * chrome.storage.local has a fixed quota and writes fail once it is full.
+ * This service reports usage against DEFAULT_CONFIG.storageWarningThreshold,
+ * breaks it down by kind of data, measures every card (stamping
+ * `metadata.storageSize`), and finds things worth purging: stale element
+ * chats, expandable links whose cards are gone, large images and history
+ * snapshot images that can move to IndexedDB.
+ */
+
+import type { Card } from '@/types/card';
+import { DEFAULT_CONFIG } from '@/types';
+import { getAllCards, getCardRecord, getCardRecords } from '@/utils/cardRepository';
+import { getAllLinks, saveAllLinks, type ExpandableLink } from '@/utils/expandableLinks';
+import { compressImageDataUrl } from '@/utils/imageUpload';
+import { REVISIONS_KEY_PREFIX } from '@/utils/revisionStorage';
+import {
+  ELEMENT_CHATS_KEY_PREFIX,
+  clearOldChats,
+  loadAllElementChatPages,
+} from '@/services/elementChatService';
+import { HISTORY_STORAGE_KEY, getInlineHistoryImageBytes, offloadHistoryImages } from './historyService';
+import { updateCard } from './cardService';
+
+/** Element chats untouched for this many days are suggested for purging */
+export const STALE_CHAT_DAYS = 30;
+
+/** Images larger than this are suggested for compression */
+export const LARGE_IMAGE_BYTES = 200 * 1024;
+
+/** Longest side of a compressed image, in pixels */
+export const COMPRESSED_IMAGE_MAX_DIMENSION = DEFAULT_CONFIG.maxScreenshotWidth * 2;
+
+export interface QuotaUsage {
+  bytesUsed: number;
+  quotaBytes: number;
+  /** Fraction of the quota in use (0-1) */
+  ratio: number;
+  /** Whether usage is at or above the warning threshold */
+  warning: boolean;
+}
+
+export type StorageCategory =
+  | 'history'
+  | 'revisions'
+  | 'elementChats'
+  | 'connections'
+  | 'links'
+  | 'other';
+
+export interface StorageBreakdownItem {
+  category: StorageCategory;
+  label: string;
+  bytes: number;
+  keys: number;
+}
+
+export interface CardSize {
+  cardId: string;
+  title: string;
+  bytes: number;
+  imageBytes: number;
+  stashed: boolean;
+}
+
+export interface StaleChatPage {
+  pageUrl: string;
+  sessions: number;
+}
+
+export interface CleanupSuggestions {
+  staleChats: StaleChatPage[];
+  staleChatCount: number;
+  orphanedLinks: ExpandableLink[];
+  largeImages: CardSize[];
+  /** Image bytes inside undo-history snapshots that could move to IndexedDB */
+  historyImageBytes: number;
+}
+
+const CATEGORY_LABELS: Record<StorageCategory, string> = {
+  history: 'Undo history',
+  revisions: 'Revision logs',
+  elementChats: 'Element chats',
+  connections: 'Connections',
+  links: 'Expandable links',
+  other: 'Settings & other',
+};
+
+const encoder = new TextEncoder();
+
+function byteLength(value: unknown): number {
+  return encoder.encode(JSON.stringify(value) ?? '').length;
+}
+
+function categorize(key: string): StorageCategory {
+  if (key === HISTORY_STORAGE_KEY) return 'history';
+  if (key.startsWith(REVISIONS_KEY_PREFIX)) return 'revisions';
+  if (key.startsWith(ELEMENT_CHATS_KEY_PREFIX)) return 'elementChats';
+  if (key === 'card_connections') return 'connections';
+  if (key === 'expandable_links') return 'links';
+  return 'other';
+}
+
+/**
+ * Whether usage has crossed the warning threshold
+ */
+export function isOverWarningThreshold(
+  bytesUsed: number,
+  quotaBytes: number,
+  threshold: number = DEFAULT_CONFIG.storageWarningThreshold
+): boolean {
+  return quotaBytes > 0 && bytesUsed / quotaBytes >= threshold;
+}
+
+/**
+ * chrome.storage.local usage against its quota
+ */
+export async function getQuotaUsage(): Promise<QuotaUsage> {
+  const bytesUsed = await chrome.storage.local.getBytesInUse();
+  const quotaBytes = chrome.storage.local.QUOTA_BYTES;
+  return {
+    bytesUsed,
+    quotaBytes,
+    ratio: quotaBytes > 0 ? bytesUsed / quotaBytes : 0,
+    warning: isOverWarningThreshold(bytesUsed, quotaBytes),
+  };
+}
+
+/**
+ * chrome.storage.local usage by kind of data, largest first. Sizes use the
+ * same measure as Chrome (key plus JSON value).
+ */
+export async function getStorageBreakdown(): Promise<StorageBreakdownItem[]> {
+  const all = await chrome.storage.local.get(null);
+  const totals = new Map<StorageCategory, StorageBreakdownItem>();
+
+  for (const [key, value] of Object.entries(all)) {
+    const category = categorize(key);
+    const item = totals.get(category) ?? { category, label: CATEGORY_LABELS[category], bytes: 0, keys: 0 };
+    item.bytes += key.length + byteLength(value);
+    item.keys += 1;
+    totals.set(category, item);
+  }
+
+  return [...totals.values()].sort((a, b) => b.bytes - a.bytes);
+}
+
+/**
+ * Serialized size of a card
+ */
+export function measureCard(card: Card): number {
+  return byteLength(card);
+}
+
+/**
+ * Measure every card (including stashed), largest first. Sizes are computed
+ * on demand and never written back, so opening the Storage Manager does not
+ * touch synced card metadata.
+ */
+export async function measureCardSizes(): Promise<CardSize[]> {
+  const cards = await getAllCards();
+  return cards
+    .map(card => ({
+      cardId: card.id,
+      title: card.metadata.title,
+      bytes: measureCard(card),
+      imageBytes: card.imageData?.length ?? 0,
+      stashed: !!card.stashed,
+    }))
+    .sort((a, b) => b.bytes - a.bytes);
+}
+
+/**
+ * Expandable links whose parent or child card no longer exists
+ */
+export async function findOrphanedLinks(): Promise<ExpandableLink[]> {
+  const links = await getAllLinks();
+  const ids = new Set<string>();
+  links.forEach(link => ids.add(link.parentCardId).add(link.childCardId));
+  const live = new Set((await getCardRecords([...ids])).map(card => card.id));
+  return links.filter(link => !live.has(link.parentCardId) || !live.has(link.childCardId));
+}
+
+/**
+ * Pages with element chats untouched for `olderThanDays`
+ */
+export async function findStaleChats(olderThanDays: number = STALE_CHAT_DAYS): Promise<StaleChatPage[]> {
+  const cutoff = Date.now() - olderThanDays * 24 * 60 * 60 * 1000;
+  const pages = await loadAllElementChatPages();
+  return pages
+    .map(page => ({
+      pageUrl: page.pageUrl,
+      sessions: Object.values(page.sessions).filter(session => session.lastActive < cutoff).length,
+    }))
+    .filter(page => page.sessions > 0);
+}
+
+/**
+ * Everything the quota manager suggests purging or shrinking
+ *
+ * @param cardSizes Result of measureCardSizes(), if already loaded
+ */
+export async function getCleanupSuggestions(cardSizes?: CardSize[]): Promise<CleanupSuggestions> {
+  const [staleChats, orphanedLinks, sizes, historyImageBytes] = await Promise.all([
+    findStaleChats(),
+    findOrphanedLinks(),
+    cardSizes ?? measureCardSizes(),
+    getInlineHistoryImageBytes(),
+  ]);
+
+  return {
+    staleChats,
+    staleChatCount: staleChats.reduce((total, page) => total + page.sessions, 0),
+    orphanedLinks,
+    largeImages: sizes.filter(size => size.imageBytes >= LARGE_IMAGE_BYTES),
+    historyImageBytes,
+  };
+}
+
+/**
+ * Delete element chats untouched for `olderThanDays` on every page
+ *
+ * @returns Number of chat sessions deleted
+ */
+export async function purgeStaleChats(olderThanDays: number = STALE_CHAT_DAYS): Promise<number> {
+  let deleted = 0;
+  for (const page of await findStaleChats(olderThanDays)) {
+    deleted += await clearOldChats(page.pageUrl, olderThanDays);
+  }
+  console.log('[quotaService] Purged stale element chats:', deleted);
+  return deleted;
+}
+
+/**
+ * Delete expandable links whose cards no longer exist
+ *
+ * @returns Number of links deleted
+ */
+export async function purgeOrphanedLinks(): Promise<number> {
+  const orphaned = new Set((await findOrphanedLinks()).map(link => link.id));
+  if (orphaned.size === 0) return 0;
+
+  const links = await getAllLinks();
+  await saveAllLinks(links.filter(link => !orphaned.has(link.id)));
+  console.log('[quotaService] Purged orphaned links:', orphaned.size);
+  return orphaned.size;
+}
+
+/**
+ * Downscale and re-encode a card's image. The change is undoable; the
+ * snapshots it leaves in the undo history are moved to IndexedDB.
+ *
+ * @returns Bytes saved (0 if re-encoding would not make the image smaller)
+ */
+export async function compressCardImage(
+  cardId: string,
+  maxDimension: number = COMPRESSED_IMAGE_MAX_DIMENSION,
+  quality: number = DEFAULT_CONFIG.screenshotQuality
+): Promise<number> {
+  const card = await getCardRecord(cardId);
+  if (!card) {
+    throw new Error(`Card not found: ${cardId}`);
+  }
+  if (!card.imageData) {
+    throw new Error(`Card has no image: ${cardId}`);
+  }
+
+  const compressed = await compressImageDataUrl(card.imageData, maxDimension, quality);
+  const saved = card.imageData.length - compressed.dataUrl.length;
+  if (saved <= 0) return 0;
+
+  await updateCard(cardId, { imageData: compressed.dataUrl, imageMimeType: compressed.mimeType }, 'Compress image');
+  await offloadHistoryImages();
+
+  console.log('[quotaService] Compressed image of card', cardId, 'saving', saved, 'bytes');
+  return saved;
+}
+
+/**
+ * IndexedDB usage (cards, trash, offloaded images) when the browser reports it
+ */
+export async function getIndexedDBUsage(): Promise<{ usage: number; quota: number } | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  const estimate = await navigator.storage.estimate();
+  return { usage: estimate.usage ?? 0, quota: estimate.quota ?? 0 };
+}
@@ -0,0 +1,391 @@
+/**
+ * Reading List Import Service - Bring existing reading lists into the stash
+ *
+ * Parses Netscape bookmark HTML (exported by every browser), generic CSV
+ * (url,title,tags,note — the Pocket/Raindrop export shape), JSON lists and
+ * recent browser history into note cards. Imported cards are stashed so they
+ * land in the side panel instead of flooding the canvas.
+ *
+ * Links already in the workspace (or repeated within the import) are skipped
+ * by comparing normalized URLs.
+ */
+
+import type { Card } from '@/types/card';
+import { getAllCards, putCards } from '@/utils/cardRepository';
+import { generateId } from '@/utils/storage';
+
+/**
+ * A link parsed from an import source, before it becomes a card
+ */
+export interface ImportedLink {
+  url: string;
+  title?: string;
+  tags: string[];
+  note?: string;
+  /** When the link was saved in the source (ms since epoch) */
+  addedAt?: number;
+}
+
+export type ReadingListFormat = 'bookmarks-html' | 'csv' | 'json';
+
+export interface ReadingListImportResult {
+  imported: number;
+  duplicates: number;
+  invalid: number;
+}
+
+/** Query parameters that only track the click, not the content */
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|dclid|mc_cid|mc_eid|ref|ref_src|igshid|si)$/i;
+
+/**
+ * Normalize a URL for duplicate detection: lower-case host without `www.`,
+ * no fragment, no tracking parameters, sorted query, no trailing slash.
+ * Returns null for anything that is not an http(s) URL.
+ */
+export function normalizeUrl(raw: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return null;
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^www\./, '');
+  const port = url.port && url.port !== '80' && url.port !== '443' ? `:${url.port}` : '';
+  const path = url.pathname.replace(/\/+$/, '');
+  const params = Array.from(url.searchParams.entries())
+    .filter(([key]) => !TRACKING_PARAMS.test(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+
+  return `${host}${port}${path}${query}`;
+}
+
+function splitTags(value: unknown): string[] {
+  const parts = Array.isArray(value) ? value.map(String) : typeof value === 'string' ? value.split(/[,;|]/) : [];
+  return Array.from(new Set(parts.map(tag => tag.trim()).filter(Boolean)));
+}
+
+/**
+ * Parse a date given as unix seconds, ms, or a date string
+ */
+function parseTimestamp(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const numeric = Number(value);
+  if (Number.isFinite(numeric) && numeric > 0) {
+    // Bookmark ADD_DATE and Pocket time_added are in seconds
+    return numeric < 1e12 ? numeric * 1000 : numeric;
+  }
+  const parsed = Date.parse(String(value));
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+// ============================================================================
+// Parsers
+// ============================================================================
+
+/**
+ * Parse Netscape bookmark HTML. Enclosing folder names become tags, along
+ * with any TAGS attribute; a following <DD> becomes the note.
+ */
+export function parseNetscapeBookmarks(html: string): ImportedLink[] {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const links: ImportedLink[] = [];
+
+  const walk = (list: Element, folders: string[]) => {
+    for (const item of Array.from(list.children)) {
+      if (item.tagName !== 'DT') continue;
+
+      const anchor = item.querySelector(':scope > a');
+      const heading = item.querySelector(':scope > h3');
+      const nested = item.querySelector(':scope > dl');
+
+      if (anchor) {
+        const dd = item.nextElementSibling?.tagName === 'DD' ? item.nextElementSibling : item.querySelector(':scope > dd');
+        links.push({
+          url: anchor.getAttribute('href') || '',
+          title: anchor.textContent?.trim() || undefined,
+          tags: splitTags([...folders, ...splitTags(anchor.getAttribute('tags') || '')]),
+          note: dd?.textContent?.trim() || undefined,
+          addedAt: parseTimestamp(anchor.getAttribute('add_date')),
+        });
+      } else if (heading && nested) {
+        walk(nested, [...folders, heading.textContent?.trim() || '']);
+      }
+    }
+  };
+
+  const root = doc.querySelector('dl');
+  if (root) {
+    walk(root, []);
+  }
+  return links;
+}
+
+/**
+ * Split CSV text into rows of fields (RFC 4180: quoted fields, doubled
+ * quotes, newlines inside quotes)
+ */
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(value => value.trim()));
+}
+
+const CSV_COLUMNS: Record<keyof ImportedLink, string[]> = {
+  url: ['url', 'link', 'href', 'address'],
+  title: ['title', 'name'],
+  tags: ['tags', 'tag', 'labels', 'folder'],
+  note: ['note', 'notes', 'description', 'excerpt', 'highlights'],
+  addedAt: ['created', 'time_added', 'added', 'date', 'created_at'],
+};
+
+/**
+ * Parse CSV with a header row naming its columns (url,title,tags,note plus
+ * common Pocket/Raindrop aliases). Without a recognizable header, columns are
+ * taken positionally as url,title,tags,note.
+ */
+export function parseReadingListCsv(text: string): ImportedLink[] {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map(name => name.trim().toLowerCase());
+  const findColumn = (key: keyof ImportedLink) => header.findIndex(name => CSV_COLUMNS[key].includes(name));
+  const hasHeader = findColumn('url') !== -1;
+
+  const columns = hasHeader
+    ? { url: findColumn('url'), title: findColumn('title'), tags: findColumn('tags'), note: findColumn('note'), addedAt: findColumn('addedAt') }
+    : { url: 0, title: 1, tags: 2, note: 3, addedAt: -1 };
+  const cell = (row: string[], index: number) => (index >= 0 ? row[index]?.trim() : undefined) || undefined;
+
+  return rows.slice(hasHeader ? 1 : 0).map(row => ({
+    url: cell(row, columns.url) ?? '',
+    title: cell(row, columns.title),
+    tags: splitTags(cell(row, columns.tags) ?? ''),
+    note: cell(row, columns.note),
+    addedAt: parseTimestamp(cell(row, columns.addedAt)),
+  }));
+}
+
+/**
+ * Parse a JSON list: an array of URL strings or of objects with a
+ * url/href/link field (optionally wrapped as `{ items: [...] }`)
+ */
+export function parseReadingListJson(text: string): ImportedLink[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid JSON reading list');
+  }
+
+  const items = Array.isArray(data)
+    ? data
+    : Array.isArray((data as { items?: unknown })?.items)
+    ? (data as { items: unknown[] }).items
+    : null;
+  if (!items) {
+    throw new Error('JSON reading list must be an array');
+  }
+
+  return items.map((item): ImportedLink => {
+    if (typeof item === 'string') {
+      return { url: item, tags: [] };
+    }
+    const entry = (item ?? {}) as Record<string, unknown>;
+    const pick = (keys: string[]) => keys.map(key => entry[key]).find(value => value !== undefined && value !== '');
+    return {
+      url: String(pick(CSV_COLUMNS.url) ?? ''),
+      title: pick(CSV_COLUMNS.title) !== undefined ? String(pick(CSV_COLUMNS.title)) : undefined,
+      tags: splitTags(pick(CSV_COLUMNS.tags)),
+      note: pick(CSV_COLUMNS.note) !== undefined ? String(pick(CSV_COLUMNS.note)) : undefined,
+      addedAt: parseTimestamp(pick([...CSV_COLUMNS.addedAt, 'createdAt'])),
+    };
+  });
+}
+
+/**
+ * Guess the format of an import file from its name and content
+ */
+export function detectReadingListFormat(fileName: string, text: string): ReadingListFormat {
+  const name = fileName.toLowerCase();
+  const head = text.trimStart().slice(0, 200).toLowerCase();
+
+  if (name.endsWith('.json') || head.startsWith('[') || head.startsWith('{')) return 'json';
+  if (name.endsWith('.html') || name.endsWith('.htm') || head.includes('<!doctype netscape-bookmark-file')) {
+    return 'bookmarks-html';
+  }
+  return 'csv';
+}
+
+/**
+ * Parse import text in the given format
+ */
+export function parseReadingList(format: ReadingListFormat, text: string): ImportedLink[] {
+  switch (format) {
+    case 'bookmarks-html':
+      return parseNetscapeBookmarks(text);
+    case 'csv':
+      return parseReadingListCsv(text);
+    case 'json':
+      return parseReadingListJson(text);
+    default:
+      throw new Error(`Unknown reading list format: ${format}`);
+  }
+}
+
+/**
+ * Read recent browser history. Asks for the optional `history` permission
+ * the first time.
+ */
+export async function loadBrowserHistory(days: number = 30, maxResults: number = 500): Promise<ImportedLink[]> {
+  const granted = await chrome.permissions.request({ permissions: ['history'] });
+  if (!granted) {
+    throw new Error('History permission was not granted');
+  }
+
+  const items = await chrome.history.search({
+    text: '',
+    startTime: Date.now() - days * 24 * 60 * 60 * 1000,
+    maxResults,
+  });
+
+  return items
+    .filter(item => item.url)
+    .map(item => ({
+      url: item.url!,
+      title: item.title || undefined,
+      tags: ['history'],
+      addedAt: item.lastVisitTime,
+    }));
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Build a stashed note card for an imported link
+ */
+export function linkToCard(link: ImportedLink, now: number = Date.now()): Card {
+  const url = new URL(link.url.trim());
+  const title = link.title?.trim() || url.hostname + url.pathname;
+  const paragraphs = [`<p><a href="${escapeHtml(url.href)}" target="_blank" rel="noopener noreferrer">${escapeHtml(title)}</a></p>`];
+  if (link.note) {
+    paragraphs.push(`<p>${escapeHtml(link.note)}</p>`);
+  }
+
+  return {
+    id: generateId(),
+    content: paragraphs.join(''),
+    metadata: {
+      url: url.href,
+      title,
+      domain: url.hostname,
+      favicon: `${url.origin}/favicon.ico`,
+      timestamp: link.addedAt ?? now,
+      ...(link.note && { selectedText: link.note }),
+    },
+    starred: false,
+    tags: link.tags,
+    createdAt: now,
+    updatedAt: now,
+    cardType: 'note',
+    stashed: true,
+  };
+}
+
+/**
+ * Create stashed note cards for links not already in the workspace
+ */
+export async function importReadingList(links: ImportedLink[]): Promise<ReadingListImportResult> {
+  const existing = await getAllCards();
+  const seen = new Set(
+    existing.map(card => normalizeUrl(card.metadata?.url ?? '')).filter((url): url is string => !!url)
+  );
+
+  const result: ReadingListImportResult = { imported: 0, duplicates: 0, invalid: 0 };
+  const cards: Card[] = [];
+  const now = Date.now();
+
+  for (const link of links) {
+    const normalized = normalizeUrl(link.url);
+    if (!normalized) {
+      result.invalid++;
+    } else if (seen.has(normalized)) {
+      result.duplicates++;
+    } else {
+      seen.add(normalized);
+      cards.push(linkToCard(link, now));
+    }
+  }
+
+  await putCards(cards);
+  result.imported = cards.length;
+
+  if (cards.length > 0) {
+    window.dispatchEvent(new CustomEvent('nabokov:stash-updated'));
+    chrome.runtime.sendMessage({ type: 'STASH_UPDATED' }).catch((error) => {
+      console.debug('[readingListImportService] No runtime listeners:', error);
+    });
+  }
+
+  console.log(
+    `[readingListImportService] Imported ${result.imported}, skipped ${result.duplicates} duplicates and ${result.invalid} invalid`
+  );
+  return result;
+}
+
+/**
+ * Detect, parse and import a reading list file
+ */
+export async function importReadingListFile(file: File): Promise<ReadingListImportResult> {
+  const text = await file.text();
+  const format = detectReadingListFormat(file.name, text);
+  return importReadingList(parseReadingList(format, text));
+}
@@ -0,0 +1,91 @@
+/**
+ * Revision Service - Per-card content revision log
+ *
+ * Every content change (manual edit, beautify, fill-in, generation, restore)
+ * appends a snapshot with its author and cause. The first time a card
+ * changes, its previous content is recorded as an 'original' revision so
+ * any state can be restored.
+ *
+ * Undo and redo record revisions too. The log itself is kept in
+ * utils/revisionStorage, which the history can use without importing this
+ * service.
+ */
+
+import type { Card, RevisionCause } from '@/types/card';
+import { getCardRecord, putCard } from '@/utils/cardRepository';
+import { htmlToMarkdown } from '@/utils/htmlToMarkdown';
+import { diffLines, toSideBySide, type DiffRow } from '@/utils/textDiff';
+import {
+  getRevisions,
+  saveRevisions,
+  snapshotRevision,
+  type RevisionContent,
+} from '@/utils/revisionStorage';
+import { recordHistory, cardChange } from './historyService';
+
+export { MAX_REVISIONS_PER_CARD, getRevisions, recordRevision } from '@/utils/revisionStorage';
+
+export const REVISION_CAUSE_LABELS: Record<RevisionCause, string> = {
+  original: 'Original',
+  edit: 'Edited',
+  beautify: 'Beautified',
+  'revert-beautify': 'Beautify reverted',
+  'fill-in': 'Filled in',
+  generate: 'Generated',
+  restore: 'Restored',
+  undo: 'Undone',
+  redo: 'Redone',
+};
+
+/**
+ * Restore a card's content to a revision. The restore is itself recorded as
+ * a revision and as an undo step.
+ */
+export async function restoreRevision(cardId: string, revisionId: string): Promise<Card> {
+  const [card, revisions] = await Promise.all([getCardRecord(cardId), getRevisions(cardId)]);
+  if (!card) {
+    throw new Error(`Card not found: ${cardId}`);
+  }
+  const revision = revisions.find(r => r.id === revisionId);
+  if (!revision) {
+    throw new Error(`Revision not found: ${revisionId}`);
+  }
+
+  const restored: Card = {
+    ...card,
+    content: revision.content,
+    originalHTML: revision.originalHTML,
+    beautifiedContent: revision.beautifiedContent,
+    beautificationMode: revision.beautificationMode,
+    beautificationTimestamp: revision.beautifiedContent ? card.beautificationTimestamp ?? Date.now() : undefined,
+    metadata: { ...card.metadata, title: revision.title },
+    updatedAt: Date.now(),
+  };
+
+  await putCard(restored);
+  await recordHistory('Restore revision', [cardChange(card, restored)]);
+
+  const next = snapshotRevision(restored, 'restore', 'user');
+  next.restoredFrom = revision.id;
+  await saveRevisions(cardId, [...revisions, next]);
+
+  window.dispatchEvent(new CustomEvent('nabokov:cards-updated'));
+  console.log('[revisionService] Restored revision', revisionId, 'of card', cardId);
+  return restored;
+}
+
+/**
+ * Readable text of a revision for diffing: beautified Markdown as-is,
+ * HTML converted to Markdown
+ */
+export function revisionText(revision: RevisionContent): string {
+  const body = revision.beautifiedContent?.trim() || htmlToMarkdown(revision.content ?? '');
+  return revision.title ? `# ${revision.title}\n\n${body}` : body;
+}
+
+/**
+ * Side-by-side diff between two revisions
+ */
+export function diffRevisions(before: RevisionContent, after: RevisionContent): DiffRow[] {
+  return toSideBySide(diffLines(revisionText(before), revisionText(after)));
+}
@@ -0,0 +1,319 @@
+/**
+ * Search Index Service - Full-text index over cards
+ *
+ * Cards are indexed on their visible text (markup stripped), title, domain,
+ * tags, AI conversation and the element chats held on the card's source
+ * page. Matching is word-prefix based and results are ranked by field
+ * weight and term rarity. Per-card work is cached on the card object, so
+ * rebuilding after an edit only re-tokenizes the edited card.
+ */
+
+import type { Card } from '@/types/card';
+import type { ElementChatSession } from '@/types/elementChat';
+
+export type SearchField = 'title' | 'tags' | 'domain' | 'text' | 'conversation' | 'chats';
+
+/**
+ * Free-text part of a query (operators are handled by filterService)
+ */
+export interface TextQuery {
+  /** Lowercase words; every one must match the start of a word */
+  terms: string[];
+  /** Lowercase phrases that must appear verbatim */
+  phrases: string[];
+  /** Words or phrases that must not appear */
+  excluded: string[];
+}
+
+export interface SnippetSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchSnippet {
+  field: SearchField;
+  segments: SnippetSegment[];
+}
+
+interface IndexedDocument {
+  fields: Record<SearchField, string>;
+  /** Weighted occurrences per token */
+  tokens: Map<string, number>;
+  /** All fields, lowercase, for phrase matching */
+  normalized: string;
+}
+
+export interface SearchIndex {
+  documents: Map<string, IndexedDocument>;
+  /** token -> card id -> weighted occurrences */
+  postings: Map<string, Map<string, number>>;
+}
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  tags: 2,
+  domain: 1,
+  text: 1,
+  conversation: 1,
+  chats: 0.5,
+};
+
+/** Fields a snippet is taken from, in order of preference */
+const SNIPPET_FIELDS: SearchField[] = ['text', 'conversation', 'chats', 'title'];
+const SNIPPET_LENGTH = 160;
+/** A word matched only by prefix counts this much of a whole-word match */
+const PREFIX_MATCH_WEIGHT = 0.5;
+const PHRASE_MATCH_BONUS = 2;
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+const cardFieldCache = new WeakMap<Card, Omit<IndexedDocument, 'normalized'>>();
+const chatTextCache = new WeakMap<ElementChatSession, string>();
+
+/**
+ * Visible text of an HTML fragment, whitespace collapsed
+ */
+export function stripHtml(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&(#\d+|#x[\da-f]+|\w+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+      }
+      return ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(TOKEN_PATTERN) ?? [];
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function addTokens(tokens: Map<string, number>, text: string, weight: number): void {
+  for (const token of tokenize(text)) {
+    tokens.set(token, (tokens.get(token) ?? 0) + weight);
+  }
+}
+
+function indexCardFields(card: Card): Omit<IndexedDocument, 'normalized'> {
+  const cached = cardFieldCache.get(card);
+  if (cached) return cached;
+
+  const fields: Record<SearchField, string> = {
+    title: card.metadata.title,
+    tags: card.tags.join(' '),
+    domain: card.metadata.domain,
+    text: stripHtml(card.beautifiedContent || card.content || ''),
+    conversation: (card.conversation ?? []).map(message => message.content).join('\n'),
+    chats: '',
+  };
+  const tokens = new Map<string, number>();
+  (Object.keys(fields) as SearchField[]).forEach(field => addTokens(tokens, fields[field], FIELD_WEIGHTS[field]));
+
+  const entry = { fields, tokens };
+  cardFieldCache.set(card, entry);
+  return entry;
+}
+
+function chatText(session: ElementChatSession): string {
+  const cached = chatTextCache.get(session);
+  if (cached !== undefined) return cached;
+  const text = session.messages.map(message => message.content).join('\n');
+  chatTextCache.set(session, text);
+  return text;
+}
+
+/**
+ * Index cards, attaching element chats to the card clipped from their page
+ */
+export function buildSearchIndex(cards: Card[], elementChats: ElementChatSession[] = []): SearchIndex {
+  const chatsByUrl = new Map<string, string[]>();
+  for (const session of elementChats) {
+    const text = chatText(session);
+    if (!text) continue;
+    chatsByUrl.set(session.pageUrl, [...(chatsByUrl.get(session.pageUrl) ?? []), text]);
+  }
+
+  const documents = new Map<string, IndexedDocument>();
+  const postings = new Map<string, Map<string, number>>();
+
+  for (const card of cards) {
+    const base = indexCardFields(card);
+    const chats = chatsByUrl.get(card.metadata.url)?.join('\n') ?? '';
+    let { fields, tokens } = base;
+    if (chats) {
+      fields = { ...fields, chats };
+      tokens = new Map(tokens);
+      addTokens(tokens, chats, FIELD_WEIGHTS.chats);
+    }
+
+    documents.set(card.id, {
+      fields,
+      tokens,
+      normalized: normalize(Object.values(fields).join('\n')),
+    });
+    tokens.forEach((weight, token) => {
+      let cardWeights = postings.get(token);
+      if (!cardWeights) {
+        cardWeights = new Map();
+        postings.set(token, cardWeights);
+      }
+      cardWeights.set(card.id, weight);
+    });
+  }
+
+  return { documents, postings };
+}
+
+export function hasTextQuery(query: TextQuery): boolean {
+  return query.terms.length > 0 || query.phrases.length > 0 || query.excluded.length > 0;
+}
+
+/**
+ * Score of every card containing a word starting with the term
+ */
+function scoreTerm(index: SearchIndex, term: string): Map<string, number> {
+  const scores = new Map<string, number>();
+  const documentCount = index.documents.size;
+
+  index.postings.forEach((cardWeights, token) => {
+    if (!token.startsWith(term)) return;
+    const idf = Math.log(1 + documentCount / cardWeights.size);
+    const matchWeight = token === term ? 1 : PREFIX_MATCH_WEIGHT;
+    cardWeights.forEach((weight, cardId) => {
+      scores.set(cardId, (scores.get(cardId) ?? 0) + weight * idf * matchWeight);
+    });
+  });
+
+  return scores;
+}
+
+function containsExcluded(index: SearchIndex, cardId: string, excluded: string): boolean {
+  const document = index.documents.get(cardId);
+  if (!document) return false;
+  if (/\s/.test(excluded)) {
+    return document.normalized.includes(excluded);
+  }
+  for (const token of document.tokens.keys()) {
+    if (token.startsWith(excluded)) return true;
+  }
+  return false;
+}
+
+/**
+ * Cards matching the query with their relevance (higher is better)
+ */
+export function searchIndex(index: SearchIndex, query: TextQuery): Map<string, number> {
+  let scores: Map<string, number> | null = null;
+
+  for (const term of query.terms) {
+    const termScores = scoreTerm(index, term);
+    if (!scores) {
+      scores = termScores;
+      continue;
+    }
+    const next = new Map<string, number>();
+    scores.forEach((score, cardId) => {
+      const termScore = termScores.get(cardId);
+      if (termScore !== undefined) next.set(cardId, score + termScore);
+    });
+    scores = next;
+  }
+
+  const results = scores ?? new Map([...index.documents.keys()].map(cardId => [cardId, 0]));
+
+  for (const phrase of query.phrases) {
+    for (const [cardId, score] of [...results]) {
+      if (index.documents.get(cardId)?.normalized.includes(phrase)) {
+        results.set(cardId, score + PHRASE_MATCH_BONUS);
+      } else {
+        results.delete(cardId);
+      }
+    }
+  }
+
+  for (const excluded of query.excluded) {
+    for (const cardId of [...results.keys()]) {
+      if (containsExcluded(index, cardId, excluded)) results.delete(cardId);
+    }
+  }
+
+  return results;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function matchPattern(query: TextQuery): RegExp | null {
+  const alternatives = [
+    ...query.phrases.map(phrase => phrase.split(' ').map(escapeRegExp).join('\\s+')),
+    ...query.terms.map(term => `${escapeRegExp(term)}[\\p{L}\\p{N}]*`),
+  ];
+  if (alternatives.length === 0) return null;
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})`, 'giu');
+}
+
+/**
+ * Excerpt of a card's text around the first match, with matches marked.
+ * Returns null when nothing outside the title matched.
+ */
+export function buildSnippet(
+  index: SearchIndex,
+  cardId: string,
+  query: TextQuery,
+  maxLength: number = SNIPPET_LENGTH
+): SearchSnippet | null {
+  const document = index.documents.get(cardId);
+  const pattern = matchPattern(query);
+  if (!document || !pattern) return null;
+
+  for (const field of SNIPPET_FIELDS) {
+    const text = document.fields[field].replace(/\s+/g, ' ');
+    pattern.lastIndex = 0;
+    const first = pattern.exec(text);
+    if (!first) continue;
+    if (field === 'title') return null;
+
+    // Window around the first match, starting on a word boundary
+    let start = Math.max(0, first.index - Math.floor(maxLength / 3));
+    if (start > 0) {
+      const space = text.indexOf(' ', start);
+      start = space !== -1 && space < first.index ? space + 1 : start;
+    }
+    const end = Math.min(text.length, start + maxLength);
+    const excerpt = text.slice(start, end);
+
+    const segments: SnippetSegment[] = [];
+    if (start > 0) segments.push({ text: '…', match: false });
+    let cursor = 0;
+    pattern.lastIndex = 0;
+    for (const match of excerpt.matchAll(pattern)) {
+      if (match.index! > cursor) segments.push({ text: excerpt.slice(cursor, match.index), match: false });
+      segments.push({ text: match[0], match: true });
+      cursor = match.index! + match[0].length;
+    }
+    if (cursor < excerpt.length) segments.push({ text: excerpt.slice(cursor), match: false });
+    if (end < text.length) segments.push({ text: '…', match: false });
+
+    return { field, segments };
+  }
+
+  return null;
+}
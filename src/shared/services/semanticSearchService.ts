@@ -0,0 +1,218 @@
+/**
+ * Semantic Search Service - Rank cards by meaning instead of substrings
+ *
+ * Card text is embedded by the backend (`POST /api/embeddings`, provider
+ * chosen there) and the vector is cached in the card repository's embeddings
+ * store together with a hash of the embedded text, so a card is only
+ * re-embedded after its text changes or the backend switches models.
+ */
+
+import type { Card, CardEmbedding } from '@/types/card';
+import { getCardRecords, getEmbeddings, putEmbeddings } from '@/utils/cardRepository';
+import { hashString } from '@/utils/hash';
+import { stripHtml } from './searchIndexService';
+
+/** Backend that computes embeddings */
+export const EMBEDDINGS_ENDPOINT = 'http://localhost:3100';
+
+/** Cards per embedding request (the backend accepts up to 128) */
+const EMBEDDING_BATCH_SIZE = 64;
+/** Characters of card text that are embedded */
+const MAX_EMBEDDED_LENGTH = 4000;
+/** Results below this cosine similarity are dropped */
+export const MIN_SIMILARITY = 0.2;
+export const SEMANTIC_RESULT_LIMIT = 20;
+
+export interface SimilarityResult {
+  card: Card;
+  score: number;
+}
+
+interface EmbeddingResponse {
+  model: string;
+  vectors: number[][];
+}
+
+/**
+ * A search query's vector and the model that produced it
+ */
+export interface QueryEmbedding {
+  model: string;
+  vector: number[];
+}
+
+/**
+ * The text a card is embedded from: title, tags and content without markup
+ */
+export function cardEmbeddingText(card: Card): string {
+  return [card.metadata.title, card.tags.join(' '), stripHtml(card.content ?? '')]
+    .filter(Boolean)
+    .join('\n')
+    .slice(0, MAX_EMBEDDED_LENGTH);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  try {
+    const body = await response.json();
+    if (body?.error) return body.error;
+  } catch {
+    // Non-JSON error body
+  }
+  return `${fallback} (${response.status})`;
+}
+
+async function requestEmbeddings(texts: string[]): Promise<EmbeddingResponse> {
+  let response: Response;
+  try {
+    response = await fetch(`${EMBEDDINGS_ENDPOINT}/api/embeddings`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ texts }),
+    });
+  } catch (error) {
+    console.error('[semanticSearchService] Backend unreachable:', error);
+    throw new Error(`Could not reach the backend at ${EMBEDDINGS_ENDPOINT}. Is it running?`);
+  }
+
+  if (!response.ok) {
+    throw new Error(await readError(response, 'Embedding failed'));
+  }
+  return (await response.json()) as EmbeddingResponse;
+}
+
+/**
+ * Embed texts in batches
+ */
+export async function embedTexts(texts: string[]): Promise<EmbeddingResponse> {
+  let model = '';
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = await requestEmbeddings(texts.slice(i, i + EMBEDDING_BATCH_SIZE));
+    model = batch.model;
+    vectors.push(...batch.vectors);
+  }
+  return { model, vectors };
+}
+
+/**
+ * Vectors for the given cards, embedding the ones whose cached embedding is
+ * missing, stale or from another model. Embeddings are stored apart from the
+ * cards, so caching one is never an edit.
+ *
+ * @returns Map of card id to vector
+ */
+export async function ensureEmbeddings(cards: Card[], model?: string): Promise<Map<string, number[]>> {
+  const stored = await getEmbeddings(cards.map(card => card.id));
+  const vectors = new Map<string, number[]>();
+  const stale: Array<{ card: Card; text: string; contentHash: string }> = [];
+
+  for (const card of cards) {
+    const text = cardEmbeddingText(card);
+    const contentHash = hashString(text);
+    const embedding = stored.get(card.id);
+    if (embedding && embedding.contentHash === contentHash && (!model || embedding.model === model)) {
+      vectors.set(card.id, embedding.vector);
+    } else {
+      stale.push({ card, text, contentHash });
+    }
+  }
+
+  if (stale.length === 0) return vectors;
+
+  const response = await embedTexts(stale.map(entry => entry.text));
+  stale.forEach((entry, index) => vectors.set(entry.card.id, response.vectors[index]));
+
+  // Re-read so a card edited while the request ran isn't cached with the old text
+  const latest = await getCardRecords(stale.map(entry => entry.card.id));
+  const embeddings = new Map<string, CardEmbedding>(stale.map((entry, index) => [entry.card.id, {
+    model: response.model,
+    contentHash: entry.contentHash,
+    vector: response.vectors[index],
+  }]));
+  await putEmbeddings(new Map(
+    latest
+      .filter(record => hashString(cardEmbeddingText(record)) === embeddings.get(record.id)?.contentHash)
+      .map(record => [record.id, embeddings.get(record.id)!])
+  ));
+  console.log(`[semanticSearchService] Embedded ${stale.length} cards with ${response.model}`);
+  return vectors;
+}
+
+function rank(
+  vector: number[],
+  cards: Card[],
+  vectors: Map<string, number[]>,
+  limit: number
+): SimilarityResult[] {
+  return cards
+    .map(card => ({ card, score: cosineSimilarity(vector, vectors.get(card.id) ?? []) }))
+    .filter(result => result.score >= MIN_SIMILARITY)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Embed a search query once, so it can be ranked against changing cards
+ */
+export async function embedQuery(query: string): Promise<QueryEmbedding> {
+  const { model, vectors: [vector] } = await embedTexts([query.trim()]);
+  return { model, vector };
+}
+
+/**
+ * Cards most similar in meaning to an embedded query, best first
+ */
+export async function rankByQueryEmbedding(
+  query: QueryEmbedding,
+  cards: Card[],
+  limit: number = SEMANTIC_RESULT_LIMIT
+): Promise<SimilarityResult[]> {
+  if (cards.length === 0) return [];
+
+  const vectors = await ensureEmbeddings(cards, query.model);
+  return rank(query.vector, cards, vectors, limit);
+}
+
+/**
+ * Cards most similar in meaning to a search query, best first
+ */
+export async function rankBySimilarity(
+  query: string,
+  cards: Card[],
+  limit: number = SEMANTIC_RESULT_LIMIT
+): Promise<SimilarityResult[]> {
+  if (!query.trim() || cards.length === 0) return [];
+
+  return rankByQueryEmbedding(await embedQuery(query), cards, limit);
+}
+
+/**
+ * Other cards most similar to the given one, best first
+ */
+export async function findSimilarCards(
+  card: Card,
+  candidates: Card[],
+  limit: number = SEMANTIC_RESULT_LIMIT
+): Promise<SimilarityResult[]> {
+  const others = candidates.filter(candidate => candidate.id !== card.id);
+  if (others.length === 0) return [];
+
+  // Embedding the source fresh tells us the backend's current model
+  const { model, vectors: [sourceVector] } = await embedTexts([cardEmbeddingText(card)]);
+  const vectors = await ensureEmbeddings(others, model);
+  return rank(sourceVector, others, vectors, limit);
+}
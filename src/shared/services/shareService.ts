@@ -0,0 +1,183 @@
+/**
+ * Share Service - Publish read-only canvas snapshots
+ *
+ * A snapshot of the visible cards (with their canvas positions) and the
+ * connections between them is uploaded to the backend, which serves a
+ * read-only viewer at `/share/:id`. Published links are remembered locally
+ * together with the owner token needed to unpublish them. Publishing sends
+ * the sync token, if one is configured, since the same backend checks it.
+ */
+
+import type { Node } from '@xyflow/react';
+import type { Card } from '@/types/card';
+import type { CardConnection } from '@/types/connection';
+import type { PublishOptions, PublishedShare, ShareSnapshot } from '@/types/share';
+import { getSyncSettings } from './syncService';
+
+/** Backend that stores and serves shares */
+export const SHARE_ENDPOINT = 'http://localhost:3100';
+
+/** chrome.storage.local key holding links published from this profile */
+export const PUBLISHED_SHARES_KEY = 'nabokov_published_shares';
+
+interface BuildSnapshotInput {
+  title: string;
+  cards: Card[];
+  connections: CardConnection[];
+  /** Current React Flow nodes; their positions win over the stored ones */
+  nodes?: Node[];
+  viewport?: { x: number; y: number; zoom: number };
+}
+
+/**
+ * Copy only what CardNode renders in read-only mode, so conversations,
+ * source HTML, fill-in history and other private fields never leave the
+ * extension
+ */
+function toSharedCard(card: Card): Card {
+  const { url, title, domain, favicon, color, timestamp } = card.metadata;
+  return {
+    id: card.id,
+    metadata: { url, title, domain, favicon, color, timestamp },
+    content: card.content,
+    beautifiedContent: card.beautifiedContent,
+    imageData: card.imageData,
+    tags: card.tags,
+    starred: card.starred,
+    position: card.position,
+    size: card.size,
+    cardType: card.cardType,
+    collapsed: card.collapsed,
+    createdAt: card.createdAt,
+    updatedAt: card.updatedAt,
+  };
+}
+
+export function buildShareSnapshot({
+  title,
+  cards,
+  connections,
+  nodes = [],
+  viewport,
+}: BuildSnapshotInput): ShareSnapshot {
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
+  const cardIds = new Set(cards.map(card => card.id));
+
+  return {
+    version: 1,
+    title: title.trim() || 'Untitled canvas',
+    createdAt: Date.now(),
+    cards: cards.map(toSharedCard).map(card => {
+      const node = nodesById.get(card.id);
+      if (!node) return card;
+      const width = node.measured?.width ?? node.width ?? card.size?.width;
+      const height = node.measured?.height ?? node.height ?? card.size?.height;
+      return {
+        ...card,
+        position: node.position,
+        size: width && height ? { width, height } : card.size,
+      };
+    }),
+    connections: connections.filter(
+      connection => cardIds.has(connection.source) && cardIds.has(connection.target)
+    ),
+    viewport,
+  };
+}
+
+export async function getPublishedShares(): Promise<PublishedShare[]> {
+  const result = await chrome.storage.local.get(PUBLISHED_SHARES_KEY);
+  return (result[PUBLISHED_SHARES_KEY] as PublishedShare[] | undefined) ?? [];
+}
+
+async function savePublishedShares(shares: PublishedShare[]): Promise<void> {
+  await chrome.storage.local.set({ [PUBLISHED_SHARES_KEY]: shares });
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  try {
+    const body = await response.json();
+    if (body?.error) return body.error;
+  } catch {
+    // Non-JSON error body
+  }
+  return `${fallback} (${response.status})`;
+}
+
+/**
+ * Upload a snapshot and remember the resulting link
+ */
+export async function publishCanvas(
+  snapshot: ShareSnapshot,
+  options: PublishOptions = {}
+): Promise<PublishedShare> {
+  if (snapshot.cards.length === 0) {
+    throw new Error('Nothing to publish: no cards are visible');
+  }
+
+  const { token } = await getSyncSettings();
+  let response: Response;
+  try {
+    response = await fetch(`${SHARE_ENDPOINT}/api/share`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify({
+        snapshot,
+        password: options.password || undefined,
+        expiresInDays: options.expiresInDays,
+      }),
+    });
+  } catch (error) {
+    console.error('[shareService] Backend unreachable:', error);
+    throw new Error(`Could not reach the backend at ${SHARE_ENDPOINT}. Is it running?`);
+  }
+
+  if (!response.ok) {
+    throw new Error(await readError(response, 'Publishing failed'));
+  }
+
+  const created = (await response.json()) as {
+    id: string;
+    url: string;
+    expiresAt: number | null;
+    ownerToken: string;
+  };
+
+  const share: PublishedShare = {
+    id: created.id,
+    url: created.url,
+    title: snapshot.title,
+    cardCount: snapshot.cards.length,
+    hasPassword: Boolean(options.password),
+    publishedAt: Date.now(),
+    expiresAt: created.expiresAt,
+    ownerToken: created.ownerToken,
+  };
+
+  await savePublishedShares([share, ...(await getPublishedShares())]);
+  console.log('[shareService] Published canvas:', share.url);
+  return share;
+}
+
+/**
+ * Delete a share from the backend and forget it. Shares the backend no
+ * longer knows about (expired or removed) are forgotten as well.
+ */
+export async function unpublishShare(id: string): Promise<void> {
+  const shares = await getPublishedShares();
+  const share = shares.find(item => item.id === id);
+  if (!share) return;
+
+  const response = await fetch(`${SHARE_ENDPOINT}/api/share/${id}`, {
+    method: 'DELETE',
+    headers: { 'X-Share-Owner-Token': share.ownerToken },
+  });
+  if (!response.ok && response.status !== 404 && response.status !== 410) {
+    throw new Error(await readError(response, 'Unpublishing failed'));
+  }
+
+  await savePublishedShares(shares.filter(item => item.id !== id));
+}
@@ -0,0 +1,582 @@
+/**
+ * Sync Service - Local-first sync between browser profiles
+ *
+ * Cards, connections and element chats stay in local storage; sync exchanges
+ * an operation log through a self-hosted endpoint on the backend
+ * (`/api/sync/push` and `/api/sync/pull`). Each round:
+ *
+ *   1. Diffs local entities against the per-field hashes recorded at the
+ *      last sync and pushes one operation per changed entity.
+ *   2. Pulls everything after the stored cursor and applies it field by
+ *      field, last writer wins by hybrid logical clock.
+ *   3. When both sides edited a card's content concurrently, keeps the
+ *      winner and appends the other version inside conflict markers, then
+ *      pushes the merged value so every profile converges on it.
+ *
+ * The server only orders and relays operations; resolution happens here.
+ */
+
+import type { Card } from '@/types/card';
+import type { CardConnection } from '@/types/connection';
+import type { ElementChatSession } from '@/types/elementChat';
+import type { TrashEntry } from '@/types/trash';
+import type {
+  SyncEntity,
+  SyncOperation,
+  SyncRecord,
+  SyncResult,
+  SyncSettings,
+  SyncState,
+} from '@/types/sync';
+import {
+  getAllCards,
+  getTrashEntries,
+  putCards,
+  putTrashEntries,
+  getSyncRecords,
+  putSyncRecords,
+} from '@/utils/cardRepository';
+import { loadConnections, saveConnections } from '@/utils/connectionStorage';
+import {
+  loadAllElementChatPages,
+  loadElementChatsForPage,
+  saveElementChatsForPage,
+} from '@/services/elementChatService';
+import { compareHlc, receiveHlc, tickHlc } from '@/utils/hlc';
+import { hashString } from '@/utils/hash';
+import { moveCardsToTrash, restoreCardsFromTrash } from './trashService';
+
+/** chrome.storage.local key holding the user's sync settings */
+export const SYNC_SETTINGS_KEY = 'nabokov_sync_settings';
+/** chrome.storage.local key holding the client id, clock and cursor */
+export const SYNC_STATE_KEY = 'nabokov_sync_state';
+/** chrome.alarms name for periodic background sync */
+export const SYNC_ALARM = 'nabokov-sync';
+/** Runtime message type asking the background worker to sync now */
+export const SYNC_NOW_MESSAGE = 'SYNC_NOW';
+
+export const DEFAULT_SYNC_ENDPOINT = 'http://localhost:3100';
+
+export const SYNC_CONFLICT_START = '<!-- sync-conflict:start -->';
+export const SYNC_CONFLICT_END = '<!-- sync-conflict:end -->';
+
+const SYNC_PERIOD_MINUTES = 5;
+const PUSH_BATCH_SIZE = 100;
+const DELETED_FIELD = '__deleted';
+
+/** Card fields merged with conflict markers instead of silently overwritten */
+const CONFLICT_FIELDS = new Set(['content', 'beautifiedContent']);
+
+type EntityFields = Record<string, unknown>;
+
+interface WorkingEntity {
+  entity: SyncEntity;
+  entityId: string;
+  fields: EntityFields;
+  /** Where the entity lived before this round ('trashed' applies to cards only) */
+  origin: 'live' | 'trashed' | 'missing';
+  dirty: boolean;
+}
+
+interface LocalSnapshot {
+  cards: Map<string, Card>;
+  trashed: Map<string, TrashEntry>;
+  connections: Map<string, CardConnection>;
+  chats: Map<string, ElementChatSession>;
+}
+
+let syncInFlight: Promise<SyncResult> | null = null;
+
+function entityKey(entity: SyncEntity, entityId: string): string {
+  return `${entity}:${entityId}`;
+}
+
+function hashValue(value: unknown): string {
+  return hashString(JSON.stringify(value ?? null));
+}
+
+function generateClientId(): string {
+  return `client-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 10)}`;
+}
+
+function broadcastSyncApplied(): void {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent('nabokov:cards-updated'));
+    window.dispatchEvent(new CustomEvent('nabokov:stash-updated'));
+  }
+  chrome.runtime.sendMessage({ type: 'SYNC_APPLIED' }).catch((error) => {
+    console.debug('[syncService] No runtime listeners:', error);
+  });
+}
+
+export async function getSyncSettings(): Promise<SyncSettings> {
+  const result = await chrome.storage.local.get(SYNC_SETTINGS_KEY);
+  return {
+    enabled: false,
+    endpoint: DEFAULT_SYNC_ENDPOINT,
+    token: '',
+    ...(result[SYNC_SETTINGS_KEY] as Partial<SyncSettings> | undefined),
+  };
+}
+
+export async function saveSyncSettings(settings: Partial<SyncSettings>): Promise<SyncSettings> {
+  const next = { ...(await getSyncSettings()), ...settings };
+  next.endpoint = next.endpoint.trim().replace(/\/+$/, '') || DEFAULT_SYNC_ENDPOINT;
+  await chrome.storage.local.set({ [SYNC_SETTINGS_KEY]: next });
+  return next;
+}
+
+/**
+ * Sync state for this profile, creating a client id on first use
+ */
+export async function getSyncState(): Promise<SyncState> {
+  const result = await chrome.storage.local.get(SYNC_STATE_KEY);
+  const stored = result[SYNC_STATE_KEY] as SyncState | undefined;
+  if (stored?.clientId) return stored;
+
+  const state: SyncState = {
+    clientId: generateClientId(),
+    clock: null,
+    cursor: 0,
+    lastSyncAt: null,
+    lastResult: null,
+    lastError: null,
+  };
+  await chrome.storage.local.set({ [SYNC_STATE_KEY]: state });
+  return state;
+}
+
+async function saveSyncState(state: SyncState): Promise<void> {
+  await chrome.storage.local.set({ [SYNC_STATE_KEY]: state });
+}
+
+/**
+ * Append the losing version of a field below the winner, inside markers
+ */
+export function markConflict(winner: string, loser: string): string {
+  return `${winner}\n${SYNC_CONFLICT_START}\n${loser}\n${SYNC_CONFLICT_END}`;
+}
+
+export function hasSyncConflict(value: string | undefined): boolean {
+  return typeof value === 'string' && value.includes(SYNC_CONFLICT_START);
+}
+
+async function loadSnapshot(): Promise<LocalSnapshot> {
+  const [cards, trashEntries, connections, chatPages] = await Promise.all([
+    getAllCards(),
+    getTrashEntries(),
+    loadConnections(),
+    loadAllElementChatPages(),
+  ]);
+
+  const chats = new Map<string, ElementChatSession>();
+  chatPages.forEach(page => {
+    Object.values(page.sessions).forEach(session => chats.set(session.chatId, session));
+  });
+
+  return {
+    cards: new Map(cards.map(card => [card.id, card])),
+    trashed: new Map(trashEntries.map(entry => [entry.id, entry])),
+    connections: new Map(connections.map(connection => [connection.id, connection])),
+    chats,
+  };
+}
+
+function liveEntities(snapshot: LocalSnapshot): Array<[SyncEntity, string, object]> {
+  return [
+    ...[...snapshot.cards].map(([id, card]): [SyncEntity, string, object] => ['card', id, card]),
+    ...[...snapshot.connections].map(([id, connection]): [SyncEntity, string, object] => [
+      'connection',
+      id,
+      connection,
+    ]),
+    ...[...snapshot.chats].map(([id, session]): [SyncEntity, string, object] => ['chat', id, session]),
+  ];
+}
+
+/**
+ * Operations for everything changed locally since the recorded hashes
+ */
+function collectLocalOperations(
+  snapshot: LocalSnapshot,
+  records: Map<string, SyncRecord>,
+  state: SyncState
+): SyncOperation[] {
+  const ops: SyncOperation[] = [];
+  const seen = new Set<string>();
+
+  const createOp = (entity: SyncEntity, entityId: string, fields: EntityFields) => {
+    state.clock = tickHlc(state.clock, state.clientId);
+    ops.push({
+      id: `${entityKey(entity, entityId)}@${state.clock}`,
+      clientId: state.clientId,
+      hlc: state.clock,
+      entity,
+      entityId,
+      fields,
+    });
+  };
+
+  for (const [entity, entityId, value] of liveEntities(snapshot)) {
+    const key = entityKey(entity, entityId);
+    seen.add(key);
+
+    const recorded = records.get(key)?.fields ?? {};
+    const current: EntityFields = { ...value, [DELETED_FIELD]: false };
+    const changed: EntityFields = {};
+    for (const name of new Set([...Object.keys(current), ...Object.keys(recorded)])) {
+      const fieldValue = current[name] ?? null;
+      if (recorded[name]?.hash !== hashValue(fieldValue)) {
+        changed[name] = fieldValue;
+      }
+    }
+    if (Object.keys(changed).length > 0) {
+      createOp(entity, entityId, changed);
+    }
+  }
+
+  const deletedHash = hashValue(true);
+  for (const [key, record] of records) {
+    if (seen.has(key) || record.fields[DELETED_FIELD]?.hash === deletedHash) continue;
+    const separator = key.indexOf(':');
+    createOp(key.slice(0, separator) as SyncEntity, key.slice(separator + 1), { [DELETED_FIELD]: true });
+  }
+
+  return ops;
+}
+
+function recordOperation(records: Map<string, SyncRecord>, op: SyncOperation): void {
+  const key = entityKey(op.entity, op.entityId);
+  const record = records.get(key) ?? { key, fields: {} };
+  Object.entries(op.fields).forEach(([name, value]) => {
+    record.fields[name] = { hlc: op.hlc, hash: hashValue(value) };
+  });
+  records.set(key, record);
+}
+
+async function request<T>(settings: SyncSettings, path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${settings.endpoint}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(settings.token ? { Authorization: `Bearer ${settings.token}` } : {}),
+    },
+  });
+
+  if (!response.ok) {
+    let message = `Sync request failed (${response.status})`;
+    try {
+      const body = await response.json();
+      if (body?.error) message = `${message}: ${body.error}`;
+    } catch {
+      // Non-JSON error body
+    }
+    throw new Error(message);
+  }
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Push local changes. Records are only updated once the server accepted
+ * a batch, so anything after a failed batch is retried next round.
+ */
+async function pushLocalChanges(
+  settings: SyncSettings,
+  records: Map<string, SyncRecord>,
+  state: SyncState
+): Promise<SyncOperation[]> {
+  const ops = collectLocalOperations(await loadSnapshot(), records, state);
+
+  for (let i = 0; i < ops.length; i += PUSH_BATCH_SIZE) {
+    const batch = ops.slice(i, i + PUSH_BATCH_SIZE);
+    await request(settings, '/api/sync/push', {
+      method: 'POST',
+      body: JSON.stringify({ clientId: state.clientId, ops: batch }),
+    });
+    batch.forEach(op => recordOperation(records, op));
+    await putSyncRecords(batch.map(op => records.get(entityKey(op.entity, op.entityId))!));
+  }
+
+  return ops;
+}
+
+/**
+ * Everything after the cursor from other profiles, plus the new cursor
+ */
+async function pullRemoteOperations(
+  settings: SyncSettings,
+  state: SyncState
+): Promise<{ ops: SyncOperation[]; cursor: number }> {
+  const ops: SyncOperation[] = [];
+  let cursor = state.cursor;
+  let hasMore = true;
+
+  while (hasMore) {
+    const page = await request<{ ops: SyncOperation[]; cursor: number; hasMore: boolean }>(
+      settings,
+      `/api/sync/pull?since=${cursor}`
+    );
+    ops.push(...page.ops);
+    cursor = page.cursor;
+    hasMore = page.hasMore;
+  }
+
+  return { ops: ops.filter(op => op.clientId !== state.clientId), cursor };
+}
+
+function toEntityValue<T>(entityId: string, fields: EntityFields): T {
+  const value: EntityFields = { id: entityId };
+  Object.entries(fields).forEach(([name, fieldValue]) => {
+    if (name !== DELETED_FIELD && fieldValue !== null) value[name] = fieldValue;
+  });
+  return value as T;
+}
+
+/**
+ * Apply pulled operations, last writer wins per field
+ *
+ * @param pending - Fields this profile pushed in the same round; a differing
+ *   incoming value for one of them is a concurrent edit
+ * @returns Number of content conflicts that were merged
+ */
+async function applyRemoteOperations(
+  ops: SyncOperation[],
+  records: Map<string, SyncRecord>,
+  pending: Map<string, Set<string>>,
+  state: SyncState
+): Promise<number> {
+  const snapshot = await loadSnapshot();
+  const working = new Map<string, WorkingEntity>();
+  let conflicts = 0;
+
+  const getWorking = (entity: SyncEntity, entityId: string): WorkingEntity => {
+    const key = entityKey(entity, entityId);
+    const existing = working.get(key);
+    if (existing) return existing;
+
+    let value: object | undefined;
+    let origin: WorkingEntity['origin'] = 'live';
+    if (entity === 'card') {
+      value = snapshot.cards.get(entityId);
+      if (!value && snapshot.trashed.has(entityId)) {
+        value = snapshot.trashed.get(entityId)!.card;
+        origin = 'trashed';
+      }
+    } else if (entity === 'connection') {
+      value = snapshot.connections.get(entityId);
+    } else {
+      value = snapshot.chats.get(entityId);
+    }
+    if (!value) origin = 'missing';
+
+    const entry: WorkingEntity = {
+      entity,
+      entityId,
+      fields: { ...value, [DELETED_FIELD]: origin !== 'live' },
+      origin,
+      dirty: false,
+    };
+    working.set(key, entry);
+    return entry;
+  };
+
+  for (const op of ops) {
+    if (!['card', 'connection', 'chat'].includes(op.entity)) {
+      console.warn('[syncService] Skipping operation for unknown entity:', op.entity);
+      continue;
+    }
+    state.clock = receiveHlc(state.clock, op.hlc, state.clientId);
+
+    const key = entityKey(op.entity, op.entityId);
+    const record = records.get(key) ?? { key, fields: {} };
+    records.set(key, record);
+    const target = getWorking(op.entity, op.entityId);
+
+    for (const [name, value] of Object.entries(op.fields)) {
+      const local = record.fields[name];
+      const remoteWins = !local || compareHlc(op.hlc, local.hlc) > 0;
+      const localValue = target.fields[name];
+
+      const concurrent =
+        op.entity === 'card' &&
+        CONFLICT_FIELDS.has(name) &&
+        pending.get(key)?.has(name) &&
+        typeof value === 'string' &&
+        typeof localValue === 'string' &&
+        hashValue(value) !== hashValue(localValue);
+
+      if (concurrent) {
+        const [winner, loser] = remoteWins ? [value, localValue] : [localValue, value];
+        // Recording the unmerged winner leaves the merged value as a local
+        // change, which the follow-up push sends to the other profiles
+        record.fields[name] = remoteWins ? { hlc: op.hlc, hash: hashValue(value) } : local;
+        target.fields[name] = markConflict(winner as string, loser as string);
+        target.dirty = true;
+        conflicts++;
+        continue;
+      }
+
+      if (!remoteWins) continue;
+      record.fields[name] = { hlc: op.hlc, hash: hashValue(value) };
+      target.fields[name] = value;
+      target.dirty = true;
+    }
+  }
+
+  await writeWorkingEntities([...working.values()].filter(entry => entry.dirty), snapshot);
+  return conflicts;
+}
+
+async function writeWorkingEntities(entries: WorkingEntity[], snapshot: LocalSnapshot): Promise<void> {
+  if (entries.length === 0) return;
+
+  // Cards first: trashing and restoring also move their connections
+  const toRestore: string[] = [];
+  const toPut: Card[] = [];
+  const toTrash: string[] = [];
+  const trashUpdates: TrashEntry[] = [];
+
+  entries
+    .filter(entry => entry.entity === 'card')
+    .forEach(entry => {
+      const deleted = entry.fields[DELETED_FIELD] === true;
+      const card = toEntityValue<Card>(entry.entityId, entry.fields);
+
+      if (entry.origin === 'trashed') {
+        if (deleted) {
+          trashUpdates.push({ ...snapshot.trashed.get(entry.entityId)!, card });
+        } else {
+          toRestore.push(entry.entityId);
+          toPut.push(card);
+        }
+      } else if (!deleted) {
+        toPut.push(card);
+      } else if (entry.origin === 'live') {
+        toPut.push(card);
+        toTrash.push(entry.entityId);
+      }
+    });
+
+  if (toRestore.length > 0) await restoreCardsFromTrash(toRestore);
+  await putCards(toPut);
+  if (toTrash.length > 0) await moveCardsToTrash(toTrash);
+  await putTrashEntries(trashUpdates);
+
+  const connectionEntries = entries.filter(entry => entry.entity === 'connection');
+  if (connectionEntries.length > 0) {
+    const connections = new Map((await loadConnections()).map(connection => [connection.id, connection]));
+    connectionEntries.forEach(entry => {
+      if (entry.fields[DELETED_FIELD] === true) {
+        connections.delete(entry.entityId);
+      } else {
+        connections.set(entry.entityId, toEntityValue<CardConnection>(entry.entityId, entry.fields));
+      }
+    });
+    await saveConnections([...connections.values()]);
+  }
+
+  const chatsByPage = new Map<string, WorkingEntity[]>();
+  entries
+    .filter(entry => entry.entity === 'chat' && typeof entry.fields.pageUrl === 'string')
+    .forEach(entry => {
+      const pageUrl = entry.fields.pageUrl as string;
+      chatsByPage.set(pageUrl, [...(chatsByPage.get(pageUrl) ?? []), entry]);
+    });
+
+  for (const [pageUrl, pageEntries] of chatsByPage) {
+    const storage = await loadElementChatsForPage(pageUrl);
+    pageEntries.forEach(entry => {
+      const session = toEntityValue<ElementChatSession & { id?: string }>(entry.entityId, entry.fields);
+      delete session.id;
+      session.chatId = entry.entityId;
+      if (entry.fields[DELETED_FIELD] === true) {
+        delete storage.sessions[session.elementId];
+      } else {
+        storage.sessions[session.elementId] = session;
+      }
+    });
+    await saveElementChatsForPage(storage);
+  }
+
+  broadcastSyncApplied();
+}
+
+async function runSync(): Promise<SyncResult> {
+  const settings = await getSyncSettings();
+  const state = await getSyncState();
+  const records = new Map((await getSyncRecords()).map(record => [record.key, record]));
+
+  try {
+    const pushed = await pushLocalChanges(settings, records, state);
+    const pending = new Map<string, Set<string>>();
+    pushed.forEach(op => {
+      pending.set(entityKey(op.entity, op.entityId), new Set(Object.keys(op.fields)));
+    });
+
+    const pulled = await pullRemoteOperations(settings, state);
+    const conflicts = await applyRemoteOperations(pulled.ops, records, pending, state);
+    // Only advance once the pulled changes are written locally
+    await putSyncRecords([...records.values()]);
+    state.cursor = pulled.cursor;
+
+    let followUps: SyncOperation[] = [];
+    if (conflicts > 0) {
+      followUps = await pushLocalChanges(settings, records, state);
+    }
+
+    const result: SyncResult = {
+      pushed: pushed.length + followUps.length,
+      pulled: pulled.ops.length,
+      conflicts,
+    };
+    state.lastSyncAt = Date.now();
+    state.lastResult = result;
+    state.lastError = null;
+    console.log('[syncService] Sync complete:', result);
+    return result;
+  } catch (error) {
+    state.lastError = error instanceof Error ? error.message : String(error);
+    console.error('[syncService] Sync failed:', error);
+    throw error;
+  } finally {
+    await saveSyncState(state);
+  }
+}
+
+/**
+ * Run one sync round. Concurrent calls share the round already in flight.
+ *
+ * The in-flight round is tracked per JS context, so only the background
+ * worker calls this; pages use requestSync() to keep rounds from overlapping.
+ */
+export function syncNow(): Promise<SyncResult> {
+  if (!syncInFlight) {
+    syncInFlight = runSync().finally(() => {
+      syncInFlight = null;
+    });
+  }
+  return syncInFlight;
+}
+
+/**
+ * Ask the background worker to run a sync round (or join the one in flight)
+ */
+export async function requestSync(): Promise<SyncResult> {
+  const response = await chrome.runtime.sendMessage({ type: SYNC_NOW_MESSAGE });
+  if (!response?.success) {
+    throw new Error(response?.error || 'Sync failed');
+  }
+  return response.result as SyncResult;
+}
+
+/**
+ * Create or clear the periodic sync alarm to match the settings
+ */
+export async function scheduleSync(): Promise<void> {
+  const settings = await getSyncSettings();
+  if (settings.enabled) {
+    chrome.alarms.create(SYNC_ALARM, { delayInMinutes: 1, periodInMinutes: SYNC_PERIOD_MINUTES });
+  } else {
+    await chrome.alarms.clear(SYNC_ALARM);
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * Trash Service - Soft delete with retention
+ *
+ * Deleting a card moves it to the trash together with the connections and
+ * expandable links that touch it. Restoring brings all of them back
+ * (connections/links only once both ends exist again). Entries older than
+ * the retention period are purged by the background worker on a
+ * chrome.alarms schedule; "empty trash" purges everything immediately.
+ */
+
+import type { Card } from '@/types/card';
+import type { CardConnection } from '@/types/connection';
+import type { TrashEntry } from '@/types/trash';
+import {
+  getCardRecords,
+  getTrashEntries,
+  moveCardsToTrashStore,
+  restoreCardsFromTrashStore,
+  putTrashEntries,
+  deleteTrashEntries,
+  clearTrashEntries,
+} from '@/utils/cardRepository';
+import { loadConnections, saveConnections } from '@/utils/connectionStorage';
+import { getAllLinks, saveAllLinks, type ExpandableLink } from '@/utils/expandableLinks';
+import { clearRevisions } from '@/utils/revisionStorage';
+
+/** chrome.storage.local key holding the retention period in days (0 = keep forever) */
+export const TRASH_RETENTION_KEY = 'nabokov_trash_retention_days';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/** chrome.alarms name for the periodic purge */
+export const TRASH_PURGE_ALARM = 'nabokov-trash-purge';
+
+const TRASH_PURGE_PERIOD_MINUTES = 60 * 6;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Notify views. The background worker has no window, so only the runtime
+ * message is sent there.
+ */
+function broadcastTrashUpdate(): void {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent('nabokov:cards-updated'));
+    window.dispatchEvent(new CustomEvent('nabokov:stash-updated'));
+    window.dispatchEvent(new CustomEvent('nabokov:trash-updated'));
+  }
+  chrome.runtime.sendMessage({ type: 'TRASH_UPDATED' }).catch((error) => {
+    console.debug('[trashService] No runtime listeners:', error);
+  });
+}
+
+/**
+ * Retention period in days; 0 means trashed cards are kept until emptied
+ */
+export async function getTrashRetentionDays(): Promise<number> {
+  const result = await chrome.storage.local.get(TRASH_RETENTION_KEY);
+  const days = result[TRASH_RETENTION_KEY];
+  return typeof days === 'number' && days >= 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+export async function setTrashRetentionDays(days: number): Promise<void> {
+  if (!Number.isFinite(days) || days < 0) {
+    throw new Error(`Invalid retention period: ${days}`);
+  }
+  await chrome.storage.local.set({ [TRASH_RETENTION_KEY]: Math.floor(days) });
+}
+
+/**
+ * When an entry will be purged, or null if retention is disabled
+ */
+export function getTrashExpiry(entry: TrashEntry, retentionDays: number): number | null {
+  return retentionDays > 0 ? entry.deletedAt + retentionDays * DAY_MS : null;
+}
+
+/**
+ * Trashed cards, most recently deleted first
+ */
+export async function getTrashedCards(): Promise<TrashEntry[]> {
+  const entries = await getTrashEntries();
+  return entries.reverse();
+}
+
+/**
+ * Move cards to the trash, detaching their connections and expandable links
+ *
+ * @returns The new trash entries
+ */
+export async function moveCardsToTrash(cardIds: string[]): Promise<TrashEntry[]> {
+  const [cards, connections, links] = await Promise.all([
+    getCardRecords(cardIds),
+    loadConnections(),
+    getAllLinks(),
+  ]);
+  if (cards.length === 0) return [];
+
+  const ids = new Set(cards.map(card => card.id));
+  const deletedAt = Date.now();
+  const entries: TrashEntry[] = cards.map(card => ({
+    id: card.id,
+    card,
+    connections: connections.filter(c => c.source === card.id || c.target === card.id),
+    expandableLinks: links.filter(l => l.parentCardId === card.id || l.childCardId === card.id),
+    deletedAt,
+  }));
+
+  await moveCardsToTrashStore(entries);
+  await saveConnections(connections.filter(c => !ids.has(c.source) && !ids.has(c.target)));
+  await saveAllLinks(links.filter(l => !ids.has(l.parentCardId) && !ids.has(l.childCardId)));
+
+  broadcastTrashUpdate();
+  console.log('[trashService] Moved to trash:', cards.length);
+  return entries;
+}
+
+/**
+ * Restore cards from the trash. Connections and links come back when the
+ * card at their other end exists; if that card is still in the trash they
+ * are handed to its entry so they return when it is restored.
+ *
+ * @returns The restored cards
+ */
+export async function restoreCardsFromTrash(cardIds: string[]): Promise<Card[]> {
+  const entries = await restoreCardsFromTrashStore(cardIds);
+  if (entries.length === 0) return [];
+
+  const [connections, links, remaining] = await Promise.all([
+    loadConnections(),
+    getAllLinks(),
+    getTrashEntries(),
+  ]);
+  const referenced = new Set<string>();
+  entries.forEach(entry => {
+    entry.connections.forEach(c => referenced.add(c.source).add(c.target));
+    entry.expandableLinks.forEach(l => referenced.add(l.parentCardId).add(l.childCardId));
+  });
+  const live = new Set((await getCardRecords([...referenced])).map(card => card.id));
+  const trashed = new Map(remaining.map(entry => [entry.id, entry]));
+  const pending = new Set<TrashEntry>();
+
+  const connectionIds = new Set(connections.map(c => c.id));
+  const restoredConnections: CardConnection[] = [];
+  const linkIds = new Set(links.map(l => l.id));
+  const restoredLinks: ExpandableLink[] = [];
+
+  for (const entry of entries) {
+    for (const connection of entry.connections) {
+      if (connectionIds.has(connection.id)) continue;
+      const waitingOn = [connection.source, connection.target].find(id => !live.has(id));
+      if (waitingOn) {
+        const other = trashed.get(waitingOn);
+        if (other && !other.connections.some(c => c.id === connection.id)) {
+          other.connections.push(connection);
+          pending.add(other);
+        }
+        continue;
+      }
+      connectionIds.add(connection.id);
+      restoredConnections.push(connection);
+    }
+    for (const link of entry.expandableLinks) {
+      if (linkIds.has(link.id)) continue;
+      const waitingOn = [link.parentCardId, link.childCardId].find(id => !live.has(id));
+      if (waitingOn) {
+        const other = trashed.get(waitingOn);
+        if (other && !other.expandableLinks.some(l => l.id === link.id)) {
+          other.expandableLinks.push(link);
+          pending.add(other);
+        }
+        continue;
+      }
+      linkIds.add(link.id);
+      restoredLinks.push(link);
+    }
+  }
+
+  if (restoredConnections.length > 0) {
+    await saveConnections([...connections, ...restoredConnections]);
+  }
+  if (restoredLinks.length > 0) {
+    await saveAllLinks([...links, ...restoredLinks]);
+  }
+  await putTrashEntries([...pending]);
+
+  broadcastTrashUpdate();
+  console.log('[trashService] Restored from trash:', entries.length);
+  return entries.map(entry => entry.card);
+}
+
+/**
+ * Permanently delete trash entries and their revision logs
+ */
+export async function deleteFromTrash(cardIds: string[]): Promise<void> {
+  if (cardIds.length === 0) return;
+  await deleteTrashEntries(cardIds);
+  await Promise.all(cardIds.map(clearRevisions));
+  broadcastTrashUpdate();
+}
+
+/**
+ * Permanently delete everything in the trash
+ *
+ * @returns Number of cards purged
+ */
+export async function emptyTrash(): Promise<number> {
+  const entries = await getTrashEntries();
+  await clearTrashEntries();
+  await Promise.all(entries.map(entry => clearRevisions(entry.id)));
+  broadcastTrashUpdate();
+  console.log('[trashService] Emptied trash:', entries.length);
+  return entries.length;
+}
+
+/**
+ * Purge entries older than the retention period
+ *
+ * @returns Number of cards purged
+ */
+export async function purgeExpiredTrash(now: number = Date.now()): Promise<number> {
+  const retentionDays = await getTrashRetentionDays();
+  if (retentionDays === 0) return 0;
+
+  const expired = (await getTrashEntries())
+    .filter(entry => (getTrashExpiry(entry, retentionDays) ?? Infinity) <= now)
+    .map(entry => entry.id);
+  if (expired.length === 0) return 0;
+
+  await deleteFromTrash(expired);
+  console.log('[trashService] Purged expired trash:', expired.length);
+  return expired.length;
+}
+
+/**
+ * Register the periodic purge alarm. Called by the background worker; the
+ * alarm persists across worker restarts, so re-creating it is harmless.
+ */
+export function scheduleTrashPurge(): void {
+  chrome.alarms.create(TRASH_PURGE_ALARM, {
+    delayInMinutes: 1,
+    periodInMinutes: TRASH_PURGE_PERIOD_MINUTES,
+  });
+}
@@ -0,0 +1,735 @@
+/**
+ * Workspace Bundle Service - Full-fidelity export/import
+ *
+ * A workspace bundle is a single versioned `.schemaconstruct.json` file that
+ * captures everything needed to rebuild a workspace: cards, connections,
+ * boards, group frames, expandable links, element chat sessions, custom
+ * buttons, filters and keyboard shortcuts.
+ *
+ * Bundles written by older builds are upgraded to the current layout before
+ * validation. Imports are planned before they are applied, so the preview
+ * shown to the user reports exactly what the import will do.
+ */
+
+import type { Card } from '@/types/card';
+import type { CardConnection, ConnectionType } from '@/types/connection';
+import type { Board } from '@/types/board';
+import type { CanvasGroup } from '@/types/group';
+import type { CardButton } from '@/types/button';
+import type { ElementChatSession, ElementChatsStorage } from '@/types/elementChat';
+import type { ExpandableLink } from '@/utils/expandableLinks';
+import type { ShortcutConfig } from '@/utils/keyboardShortcuts';
+import { getAllLinks, saveAllLinks } from '@/utils/expandableLinks';
+import { loadShortcutsConfig, saveShortcutsConfig } from '@/utils/keyboardShortcuts';
+import { loadConnections, saveConnections } from '@/utils/connectionStorage';
+import { DEFAULT_BOARD_ID, loadBoards, saveBoards } from '@/utils/boardStorage';
+import { loadGroups, saveGroups } from '@/utils/groupStorage';
+import { getAllCards, putCards, clearCards } from '@/utils/cardRepository';
+import { getStorageVersion } from '@/utils/storageMigrations';
+import { generateId } from '@/utils/storage';
+import {
+  clearAllElementChats,
+  loadAllElementChatPages,
+  loadElementChatsForPage,
+  saveElementChatsForPage,
+} from '@/services/elementChatService';
+import { loadFilters, saveFilters, type FilterState } from './filterService';
+
+/** Identifies a file as a workspace bundle */
+export const WORKSPACE_BUNDLE_FORMAT = 'schemaconstruct-workspace';
+/** Bundle layout version written by this build */
+export const WORKSPACE_BUNDLE_VERSION = 2;
+/** File extension used for exported bundles */
+export const WORKSPACE_BUNDLE_EXTENSION = '.schemaconstruct.json';
+
+// Must match ButtonSettings.tsx / useButtons.ts
+const CUSTOM_BUTTONS_KEY = 'nabokov_custom_buttons';
+
+const CONNECTION_TYPES: ConnectionType[] = ['generated-from', 'references', 'related', 'contradicts', 'custom'];
+
+/**
+ * Serialized workspace
+ */
+export interface WorkspaceBundle {
+  format: typeof WORKSPACE_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  /** Storage schema version of the exporting build (see storageMigrations.ts) */
+  storageVersion: number;
+  cards: Card[];
+  connections: CardConnection[];
+  boards: Board[];
+  groups: CanvasGroup[];
+  expandableLinks: ExpandableLink[];
+  elementChats: ElementChatsStorage[];
+  customButtons: CardButton[];
+  filters: FilterState | null;
+  shortcuts: ShortcutConfig;
+}
+
+/**
+ * merge: keep the current workspace and add the bundle to it.
+ * replace: discard the current workspace and load the bundle in its place.
+ */
+export type WorkspaceImportMode = 'merge' | 'replace';
+
+/**
+ * What an import does to one section of the workspace
+ */
+export interface WorkspaceSectionCounts {
+  /** Items in the bundle */
+  incoming: number;
+  /** Items written as-is */
+  added: number;
+  /** Identical items already present, left alone */
+  unchanged: number;
+  /** Items whose id collided with different existing content and got a new id */
+  remapped: number;
+  /** Items dropped (dangling references, older chat sessions) */
+  skipped: number;
+}
+
+/**
+ * Summary shown to the user before an import is applied
+ */
+export interface WorkspaceImportPreview {
+  mode: WorkspaceImportMode;
+  cards: WorkspaceSectionCounts;
+  connections: WorkspaceSectionCounts;
+  boards: WorkspaceSectionCounts;
+  groups: WorkspaceSectionCounts;
+  expandableLinks: WorkspaceSectionCounts;
+  chatSessions: WorkspaceSectionCounts;
+  customButtons: WorkspaceSectionCounts;
+  shortcuts: number;
+  filters: boolean;
+}
+
+/**
+ * Fully resolved result of an import, ready to be written
+ */
+interface WorkspaceImportPlan {
+  preview: WorkspaceImportPreview;
+  cards: Card[];
+  connections: CardConnection[];
+  boards: Board[];
+  groups: CanvasGroup[];
+  expandableLinks: ExpandableLink[];
+  elementChats: ElementChatsStorage[];
+  customButtons: CardButton[];
+  filters: FilterState | null;
+  shortcuts: ShortcutConfig;
+}
+
+function emptyCounts(incoming: number): WorkspaceSectionCounts {
+  return { incoming, added: 0, unchanged: 0, remapped: 0, skipped: 0 };
+}
+
+/**
+ * JSON serialization with sorted keys, so records compare equal regardless
+ * of property order
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function isSameRecord(a: unknown, b: unknown): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Collect the whole workspace into a bundle
+ */
+export async function buildWorkspaceBundle(): Promise<WorkspaceBundle> {
+  const [
+    cards, connections, boards, groups, expandableLinks, elementChats, buttonsResult, filters, shortcuts, storageVersion,
+  ] = await Promise.all([
+    getAllCards(),
+    loadConnections(),
+    loadBoards(),
+    loadGroups(),
+    getAllLinks(),
+    loadAllElementChatPages(),
+    chrome.storage.local.get(CUSTOM_BUTTONS_KEY),
+    loadFilters(),
+    loadShortcutsConfig(),
+    getStorageVersion(),
+  ]);
+
+  return {
+    format: WORKSPACE_BUNDLE_FORMAT,
+    version: WORKSPACE_BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    storageVersion,
+    cards,
+    connections,
+    boards,
+    groups,
+    expandableLinks,
+    elementChats,
+    customButtons: buttonsResult[CUSTOM_BUTTONS_KEY] || [],
+    filters,
+    shortcuts,
+  };
+}
+
+/**
+ * Default file name for a bundle, e.g. `workspace-2025-01-31.schemaconstruct.json`
+ */
+export function getWorkspaceBundleFileName(bundle: WorkspaceBundle): string {
+  const date = new Date(bundle.exportedAt).toISOString().split('T')[0];
+  return `workspace-${date}${WORKSPACE_BUNDLE_EXTENSION}`;
+}
+
+/**
+ * Export the workspace and trigger a browser download
+ */
+export async function downloadWorkspaceBundle(): Promise<WorkspaceBundle> {
+  const bundle = await buildWorkspaceBundle();
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = getWorkspaceBundleFileName(bundle);
+  a.click();
+  URL.revokeObjectURL(url);
+  console.log(`[workspaceBundleService] Exported ${bundle.cards.length} cards`);
+  return bundle;
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function validateCard(card: unknown, index: number, errors: string[]): void {
+  const where = `cards[${index}]`;
+  if (!isObject(card)) {
+    errors.push(`${where} is not an object`);
+    return;
+  }
+  if (typeof card.id !== 'string' || !card.id) errors.push(`${where}.id must be a non-empty string`);
+  if (!isObject(card.metadata)) {
+    errors.push(`${where}.metadata is missing`);
+  } else if (typeof card.metadata.url !== 'string' || typeof card.metadata.title !== 'string') {
+    errors.push(`${where}.metadata must have url and title strings`);
+  }
+  if (!Array.isArray(card.tags)) errors.push(`${where}.tags must be an array`);
+  if (typeof card.createdAt !== 'number') errors.push(`${where}.createdAt must be a number`);
+}
+
+function validateConnection(connection: unknown, index: number, errors: string[]): void {
+  const where = `connections[${index}]`;
+  if (!isObject(connection)) {
+    errors.push(`${where} is not an object`);
+    return;
+  }
+  if (typeof connection.id !== 'string' || !connection.id) errors.push(`${where}.id must be a non-empty string`);
+  if (typeof connection.source !== 'string' || typeof connection.target !== 'string') {
+    errors.push(`${where} must have source and target card ids`);
+  }
+  if (!CONNECTION_TYPES.includes(connection.type as ConnectionType)) {
+    errors.push(`${where}.type "${String(connection.type)}" is not a known connection type`);
+  }
+}
+
+function validateBoard(board: unknown, index: number, errors: string[]): void {
+  const where = `boards[${index}]`;
+  if (!isObject(board)) {
+    errors.push(`${where} is not an object`);
+    return;
+  }
+  if (typeof board.id !== 'string' || !board.id) errors.push(`${where}.id must be a non-empty string`);
+  if (typeof board.name !== 'string') errors.push(`${where}.name must be a string`);
+}
+
+function validateGroup(group: unknown, index: number, errors: string[]): void {
+  const where = `groups[${index}]`;
+  if (!isObject(group)) {
+    errors.push(`${where} is not an object`);
+    return;
+  }
+  if (typeof group.id !== 'string' || !group.id) errors.push(`${where}.id must be a non-empty string`);
+  if (!isObject(group.position) || !isObject(group.size)) errors.push(`${where} must have a position and size`);
+}
+
+function validateLink(link: unknown, index: number, errors: string[]): void {
+  const where = `expandableLinks[${index}]`;
+  if (!isObject(link)) {
+    errors.push(`${where} is not an object`);
+    return;
+  }
+  if (typeof link.id !== 'string' || !link.id) errors.push(`${where}.id must be a non-empty string`);
+  if (typeof link.parentCardId !== 'string' || typeof link.childCardId !== 'string') {
+    errors.push(`${where} must have parentCardId and childCardId`);
+  }
+}
+
+function validateChatPage(page: unknown, index: number, errors: string[]): void {
+  const where = `elementChats[${index}]`;
+  if (!isObject(page)) {
+    errors.push(`${where} is not an object`);
+    return;
+  }
+  if (typeof page.pageUrl !== 'string' || !page.pageUrl) errors.push(`${where}.pageUrl must be a non-empty string`);
+  if (!isObject(page.sessions)) errors.push(`${where}.sessions must be an object`);
+}
+
+function validateButton(button: unknown, index: number, errors: string[]): void {
+  const where = `customButtons[${index}]`;
+  if (!isObject(button)) {
+    errors.push(`${where} is not an object`);
+    return;
+  }
+  if (typeof button.id !== 'string' || !button.id) errors.push(`${where}.id must be a non-empty string`);
+  if (typeof button.prompt !== 'string') errors.push(`${where}.prompt must be a string`);
+}
+
+function validateSection(
+  data: Record<string, unknown>,
+  key: string,
+  validateItem: (item: unknown, index: number, errors: string[]) => void,
+  errors: string[]
+): void {
+  const section = data[key];
+  if (section === undefined) return;
+  if (!Array.isArray(section)) {
+    errors.push(`${key} must be an array`);
+    return;
+  }
+  section.forEach((item, index) => validateItem(item, index, errors));
+}
+
+/**
+ * Upgrades from older bundle layouts, applied in order before validation
+ */
+const WORKSPACE_BUNDLE_MIGRATIONS: Array<{
+  version: number;
+  migrate: (data: Record<string, unknown>) => Record<string, unknown>;
+}> = [
+  // v2: boards and group frames. v1 bundles carry neither, so their cards
+  // show on the main board unless the target workspace knows their boards.
+  { version: 2, migrate: data => ({ ...data, boards: [], groups: [] }) },
+];
+
+function migrateWorkspaceBundle(data: Record<string, unknown>): Record<string, unknown> {
+  for (const step of WORKSPACE_BUNDLE_MIGRATIONS) {
+    if ((data.version as number) < step.version) {
+      data = { ...step.migrate(data), version: step.version };
+    }
+  }
+  return data;
+}
+
+/**
+ * Validate parsed JSON and normalize it into a bundle.
+ * Missing optional sections default to empty; a bare array of cards (the
+ * old "Export All Cards" format) is accepted as a cards-only bundle.
+ *
+ * @throws Error listing every problem found
+ */
+export function validateWorkspaceBundle(data: unknown): WorkspaceBundle {
+  if (Array.isArray(data)) {
+    data = { format: WORKSPACE_BUNDLE_FORMAT, version: WORKSPACE_BUNDLE_VERSION, cards: data };
+  }
+
+  if (!isObject(data)) {
+    throw new Error('Invalid workspace bundle: expected a JSON object');
+  }
+  if (data.format !== WORKSPACE_BUNDLE_FORMAT) {
+    throw new Error(`Invalid workspace bundle: format must be "${WORKSPACE_BUNDLE_FORMAT}"`);
+  }
+  if (typeof data.version !== 'number' || data.version < 1) {
+    throw new Error('Invalid workspace bundle: missing version');
+  }
+  if (data.version > WORKSPACE_BUNDLE_VERSION) {
+    throw new Error(
+      `Workspace bundle version ${data.version} was created by a newer version of the extension (this build reads up to ${WORKSPACE_BUNDLE_VERSION})`
+    );
+  }
+
+  const migrated = migrateWorkspaceBundle(data);
+
+  const errors: string[] = [];
+  validateSection(migrated, 'cards', validateCard, errors);
+  validateSection(migrated, 'connections', validateConnection, errors);
+  validateSection(migrated, 'boards', validateBoard, errors);
+  validateSection(migrated, 'groups', validateGroup, errors);
+  validateSection(migrated, 'expandableLinks', validateLink, errors);
+  validateSection(migrated, 'elementChats', validateChatPage, errors);
+  validateSection(migrated, 'customButtons', validateButton, errors);
+  if (migrated.filters !== undefined && migrated.filters !== null && !isObject(migrated.filters)) {
+    errors.push('filters must be an object');
+  }
+  if (migrated.shortcuts !== undefined && !isObject(migrated.shortcuts)) {
+    errors.push('shortcuts must be an object');
+  }
+
+  if (errors.length > 0) {
+    const shown = errors.slice(0, 10).join('; ');
+    const more = errors.length > 10 ? ` (and ${errors.length - 10} more)` : '';
+    throw new Error(`Invalid workspace bundle: ${shown}${more}`);
+  }
+
+  return {
+    format: WORKSPACE_BUNDLE_FORMAT,
+    version: migrated.version as number,
+    exportedAt: typeof migrated.exportedAt === 'number' ? migrated.exportedAt : 0,
+    storageVersion: typeof migrated.storageVersion === 'number' ? migrated.storageVersion : 0,
+    cards: (migrated.cards as Card[]) || [],
+    connections: (migrated.connections as CardConnection[]) || [],
+    boards: (migrated.boards as Board[]) || [],
+    groups: (migrated.groups as CanvasGroup[]) || [],
+    expandableLinks: (migrated.expandableLinks as ExpandableLink[]) || [],
+    elementChats: (migrated.elementChats as ElementChatsStorage[]) || [],
+    customButtons: (migrated.customButtons as CardButton[]) || [],
+    filters: (migrated.filters as FilterState | undefined) ?? null,
+    shortcuts: (migrated.shortcuts as ShortcutConfig | undefined) ?? {},
+  };
+}
+
+/**
+ * Parse and validate the text of a bundle file
+ *
+ * @throws Error when the text is not JSON or not a valid bundle
+ */
+export function parseWorkspaceBundle(text: string): WorkspaceBundle {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid workspace bundle: file is not valid JSON');
+  }
+  return validateWorkspaceBundle(data);
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Merge records by id. Identical records are skipped; an id that collides
+ * with different content gets a fresh id, recorded in `idMap`.
+ */
+function mergeById<T extends { id: string }>(
+  existing: T[],
+  incoming: T[],
+  counts: WorkspaceSectionCounts,
+  idMap: Map<string, string> = new Map()
+): T[] {
+  const byId = new Map(existing.map(item => [item.id, item]));
+  const merged = [...existing];
+
+  for (const item of incoming) {
+    const current = byId.get(item.id);
+    if (!current) {
+      merged.push(item);
+      byId.set(item.id, item);
+      counts.added++;
+    } else if (isSameRecord(current, item)) {
+      counts.unchanged++;
+    } else {
+      const newId = generateId();
+      idMap.set(item.id, newId);
+      const remapped = { ...item, id: newId };
+      merged.push(remapped);
+      byId.set(newId, remapped);
+      counts.remapped++;
+    }
+  }
+
+  return merged;
+}
+
+function remapCardReferences(card: Card, idMap: Map<string, string>): Card {
+  if (idMap.size === 0) return card;
+  const remapId = (id: string) => idMap.get(id) ?? id;
+  return {
+    ...card,
+    ...(card.parentCardId && { parentCardId: remapId(card.parentCardId) }),
+    ...(card.fillInHistory && {
+      fillInHistory: card.fillInHistory.map(entry => ({
+        ...entry,
+        sourceCardIds: entry.sourceCardIds.map(remapId),
+      })),
+    }),
+  };
+}
+
+/**
+ * Point a card at its boards and group frame after their ids were remapped.
+ * Membership of a frame that is not in the workspace is dropped.
+ */
+function remapCardPlacement(
+  card: Card,
+  boardIdMap: Map<string, string>,
+  groupIdMap: Map<string, string>,
+  groupIds: Set<string>
+): Card {
+  const { groupId, ...rest } = card;
+  const remappedGroupId = groupId && (groupIdMap.get(groupId) ?? groupId);
+  return {
+    ...rest,
+    ...(card.boardIds && { boardIds: card.boardIds.map(id => boardIdMap.get(id) ?? id) }),
+    ...(remappedGroupId && groupIds.has(remappedGroupId) && { groupId: remappedGroupId }),
+  };
+}
+
+/**
+ * Drop items whose card references do not resolve, counting them as skipped
+ */
+function keepResolvable<T>(
+  items: T[],
+  cardIds: Set<string>,
+  getRefs: (item: T) => string[],
+  counts: WorkspaceSectionCounts
+): T[] {
+  return items.filter(item => {
+    const ok = getRefs(item).every(id => cardIds.has(id));
+    if (!ok) counts.skipped++;
+    return ok;
+  });
+}
+
+/**
+ * Merge chat sessions page by page. Sessions are keyed by the element they
+ * are anchored to, so collisions cannot be remapped; the most recently
+ * active session wins.
+ */
+async function mergeElementChats(
+  incoming: ElementChatsStorage[],
+  counts: WorkspaceSectionCounts
+): Promise<ElementChatsStorage[]> {
+  const pages: ElementChatsStorage[] = [];
+
+  for (const page of incoming) {
+    const current = await loadElementChatsForPage(page.pageUrl);
+    const sessions: Record<string, ElementChatSession> = { ...current.sessions };
+
+    for (const [elementId, session] of Object.entries(page.sessions)) {
+      const existing = sessions[elementId];
+      if (!existing) {
+        sessions[elementId] = session;
+        counts.added++;
+      } else if (isSameRecord(existing, session)) {
+        counts.unchanged++;
+      } else if ((session.lastActive ?? 0) > (existing.lastActive ?? 0)) {
+        sessions[elementId] = session;
+        counts.added++;
+      } else {
+        counts.skipped++;
+      }
+    }
+
+    pages.push({ pageUrl: page.pageUrl, sessions, lastUpdated: Math.max(current.lastUpdated, page.lastUpdated ?? 0) });
+  }
+
+  return pages;
+}
+
+async function planWorkspaceImport(
+  bundle: WorkspaceBundle,
+  mode: WorkspaceImportMode
+): Promise<WorkspaceImportPlan> {
+  const sessionCount = bundle.elementChats.reduce((sum, page) => sum + Object.keys(page.sessions).length, 0);
+  const preview: WorkspaceImportPreview = {
+    mode,
+    cards: emptyCounts(bundle.cards.length),
+    connections: emptyCounts(bundle.connections.length),
+    boards: emptyCounts(bundle.boards.length),
+    groups: emptyCounts(bundle.groups.length),
+    expandableLinks: emptyCounts(bundle.expandableLinks.length),
+    chatSessions: emptyCounts(sessionCount),
+    customButtons: emptyCounts(bundle.customButtons.length),
+    shortcuts: Object.keys(bundle.shortcuts).length,
+    filters: mode === 'replace' && bundle.filters !== null,
+  };
+
+  if (mode === 'replace') {
+    const cardIds = new Set(bundle.cards.map(card => card.id));
+    const groupIds = new Set(bundle.groups.map(group => group.id));
+    preview.cards.added = bundle.cards.length;
+    preview.boards.added = bundle.boards.length;
+    preview.groups.added = bundle.groups.length;
+    preview.customButtons.added = bundle.customButtons.length;
+    preview.chatSessions.added = sessionCount;
+
+    const connections = keepResolvable(bundle.connections, cardIds, c => [c.source, c.target], preview.connections);
+    const expandableLinks = keepResolvable(
+      bundle.expandableLinks, cardIds, l => [l.parentCardId, l.childCardId], preview.expandableLinks
+    );
+    preview.connections.added = connections.length;
+    preview.expandableLinks.added = expandableLinks.length;
+
+    return {
+      preview,
+      cards: bundle.cards.map(card => remapCardPlacement(card, new Map(), new Map(), groupIds)),
+      connections,
+      boards: bundle.boards,
+      groups: bundle.groups,
+      expandableLinks,
+      elementChats: bundle.elementChats,
+      customButtons: bundle.customButtons,
+      filters: bundle.filters,
+      shortcuts: bundle.shortcuts,
+    };
+  }
+
+  const [
+    existingCards, existingConnections, existingBoards, existingGroups, existingLinks, buttonsResult, existingShortcuts,
+  ] = await Promise.all([
+    getAllCards(),
+    loadConnections(),
+    loadBoards(),
+    loadGroups(),
+    getAllLinks(),
+    chrome.storage.local.get(CUSTOM_BUTTONS_KEY),
+    loadShortcutsConfig(),
+  ]);
+
+  // Boards and frames first, then cards: their id remaps must be applied to
+  // everything that points at them. The main board keeps its current name.
+  const boardIdMap = new Map<string, string>();
+  const incomingBoards = bundle.boards.filter(board => board.id !== DEFAULT_BOARD_ID);
+  preview.boards.unchanged += bundle.boards.length - incomingBoards.length;
+  const boards = mergeById(existingBoards, incomingBoards, preview.boards, boardIdMap);
+  const remapBoardId = (id: string | undefined) => (id && boardIdMap.get(id)) || id;
+
+  const groupIdMap = new Map<string, string>();
+  const groups = mergeById(
+    existingGroups,
+    bundle.groups.map(group => ({ ...group, boardId: remapBoardId(group.boardId) })),
+    preview.groups,
+    groupIdMap
+  );
+  const groupIds = new Set(groups.map(group => group.id));
+
+  const cardIdMap = new Map<string, string>();
+  const mergedCards = mergeById(existingCards, bundle.cards, preview.cards, cardIdMap);
+  const existingCardIds = new Set(existingCards.map(card => card.id));
+  const cards = mergedCards.map(card => (existingCardIds.has(card.id)
+    ? card
+    : remapCardPlacement(remapCardReferences(card, cardIdMap), boardIdMap, groupIdMap, groupIds)));
+  const cardIds = new Set(cards.map(card => card.id));
+  const remapCardId = (id: string) => cardIdMap.get(id) ?? id;
+
+  const incomingConnections = keepResolvable(
+    bundle.connections.map(c => ({
+      ...c,
+      source: remapCardId(c.source),
+      target: remapCardId(c.target),
+      boardId: remapBoardId(c.boardId),
+    })),
+    cardIds,
+    c => [c.source, c.target],
+    preview.connections
+  );
+  const connections = mergeById(existingConnections, incomingConnections, preview.connections);
+
+  const incomingLinks = keepResolvable(
+    bundle.expandableLinks.map(l => ({
+      ...l,
+      parentCardId: remapCardId(l.parentCardId),
+      childCardId: remapCardId(l.childCardId),
+    })),
+    cardIds,
+    l => [l.parentCardId, l.childCardId],
+    preview.expandableLinks
+  );
+  const expandableLinks = mergeById(existingLinks, incomingLinks, preview.expandableLinks);
+
+  const customButtons = mergeById<CardButton>(
+    buttonsResult[CUSTOM_BUTTONS_KEY] || [],
+    bundle.customButtons,
+    preview.customButtons
+  );
+
+  const elementChats = await mergeElementChats(bundle.elementChats, preview.chatSessions);
+
+  // Shortcuts the user already customized take precedence
+  const shortcuts = { ...bundle.shortcuts, ...existingShortcuts };
+
+  return {
+    preview,
+    cards: cards.filter(card => !existingCardIds.has(card.id)),
+    connections,
+    boards,
+    groups,
+    expandableLinks,
+    elementChats,
+    customButtons,
+    filters: null,
+    shortcuts,
+  };
+}
+
+/**
+ * Describe what importing the bundle would do, without writing anything
+ */
+export async function previewWorkspaceImport(
+  bundle: WorkspaceBundle,
+  mode: WorkspaceImportMode
+): Promise<WorkspaceImportPreview> {
+  const plan = await planWorkspaceImport(bundle, mode);
+  return plan.preview;
+}
+
+/**
+ * Import a bundle into the workspace
+ *
+ * @returns The counts actually applied (same shape as the preview)
+ */
+export async function importWorkspaceBundle(
+  bundle: WorkspaceBundle,
+  mode: WorkspaceImportMode
+): Promise<WorkspaceImportPreview> {
+  const plan = await planWorkspaceImport(bundle, mode);
+
+  if (mode === 'replace') {
+    await clearCards();
+    await clearAllElementChats();
+  }
+
+  await putCards(plan.cards);
+  await saveConnections(plan.connections);
+  await saveBoards(plan.boards);
+  await saveGroups(plan.groups);
+  await saveAllLinks(plan.expandableLinks);
+  for (const page of plan.elementChats) {
+    await saveElementChatsForPage(page);
+  }
+  await chrome.storage.local.set({ [CUSTOM_BUTTONS_KEY]: plan.customButtons });
+  await saveShortcutsConfig(plan.shortcuts);
+  if (plan.filters) {
+    await saveFilters(plan.filters);
+  }
+
+  window.dispatchEvent(new CustomEvent('nabokov:cards-updated'));
+  window.dispatchEvent(new CustomEvent('nabokov:boards-updated'));
+  window.dispatchEvent(new CustomEvent('nabokov:buttons-updated'));
+  chrome.runtime.sendMessage({ type: 'CARD_UPDATED' }).catch((error) => {
+    console.debug('[workspaceBundleService] No runtime listeners:', error);
+  });
+
+  console.log(
+    `[workspaceBundleService] ${mode} import: ${plan.preview.cards.added} cards added, ${plan.preview.cards.remapped} remapped`
+  );
+  return plan.preview;
+}
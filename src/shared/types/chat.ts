@@ -3,6 +3,8 @@
  * Used across all chat contexts (Floating Windows, Inline Chat, Side Panel)
  */
 
+import type { LLMUsage } from '@/services/streamEvents';
+
 /**
  * Image attachment in a message
  */
@@ -31,4 +33,8 @@ export interface Message {
   streaming?: boolean;
   /** Attached images (optional) */
   images?: ImageAttachment[];
+  /** Assistant reasoning streamed ahead of the answer (optional) */
+  thinking?: string;
+  /** Token usage reported for an assistant reply (optional) */
+  usage?: LLMUsage;
 }
@@ -0,0 +1,336 @@
+/** @jsxImportSource @emotion/react */
+import { css } from '@emotion/react';
+import React, { useEffect, useMemo, useState } from 'react';
+import type { Card } from '@/types/card';
+import type { SmartCollection } from '@/types/collection';
+import type { CardConnection } from '@/types/connection';
+import { loadConnections } from '@/utils/connectionStorage';
+import { DEFAULT_FILTERS } from '@/shared/services/filterService';
+import { buildSearchIndex } from '@/shared/services/searchIndexService';
+import {
+  beautifyCollection,
+  createCollection,
+  deleteCollection,
+  exportCollection,
+  getCollectionCards,
+} from '@/shared/services/collectionService';
+import { useCollections } from '@/shared/hooks/useCollections';
+
+interface CollectionsViewProps {
+  /** Every card, on the canvas or stashed */
+  cards: Card[];
+  onToast: (message: string, type: 'success' | 'error' | 'info') => void;
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+export const CollectionsView: React.FC<CollectionsViewProps> = ({ cards, onToast }) => {
+  const { collections, isLoading } = useCollections();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newQuery, setNewQuery] = useState('');
+  const [progress, setProgress] = useState<string | null>(null);
+  const [connections, setConnections] = useState<CardConnection[]>([]);
+
+  // Connections for the orphan facet; reloaded with the cards they belong to
+  useEffect(() => {
+    loadConnections().then(setConnections);
+  }, [cards]);
+
+  const searchIndex = useMemo(() => buildSearchIndex(cards), [cards]);
+  const members = useMemo(
+    () => new Map(collections.map(collection => [
+      collection.id,
+      getCollectionCards(collection, cards, searchIndex, connections),
+    ])),
+    [collections, cards, searchIndex, connections]
+  );
+
+  const selected = collections.find(collection => collection.id === selectedId) ?? null;
+  const selectedCards = selected ? members.get(selected.id) ?? [] : [];
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const collection = await createCollection(newName, { ...DEFAULT_FILTERS, searchQuery: newQuery });
+      setNewName('');
+      setNewQuery('');
+      setSelectedId(collection.id);
+    } catch (error) {
+      onToast(error instanceof Error ? error.message : 'Failed to save collection', 'error');
+    }
+  };
+
+  const handleDelete = async (collection: SmartCollection) => {
+    if (!window.confirm(`Delete the collection "${collection.name}"? Its cards are not affected.`)) return;
+    await deleteCollection(collection.id);
+    setSelectedId(null);
+  };
+
+  const handleExport = async (collection: SmartCollection) => {
+    try {
+      const count = await exportCollection(collection, cards, connections);
+      onToast(`Exported ${plural(count, 'card')}`, 'success');
+    } catch (error) {
+      console.error('[CollectionsView] Export failed:', error);
+      onToast(error instanceof Error ? error.message : 'Export failed', 'error');
+    }
+  };
+
+  const handleBeautify = async (collection: SmartCollection) => {
+    setProgress('Starting...');
+    try {
+      const result = await beautifyCollection(collection, cards, (done, total) => {
+        setProgress(`Beautifying ${done}/${total}...`);
+      }, connections);
+      if (result.failed.length > 0) {
+        onToast(`Beautified ${plural(result.succeeded, 'card')}, ${result.failed.length} failed`, 'error');
+      } else if (result.succeeded === 0) {
+        onToast('Every card in this collection is already beautified', 'info');
+      } else {
+        onToast(`Beautified ${plural(result.succeeded, 'card')}`, 'success');
+      }
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <>
+      <form onSubmit={handleCreate} css={formStyles}>
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Collection name"
+          css={inputStyles}
+        />
+        <input
+          value={newQuery}
+          onChange={(e) => setNewQuery(e.target.value)}
+          placeholder='Search, e.g. tag:ml after:2025-01-01 "attention"'
+          css={inputStyles}
+        />
+        <button type="submit" css={actionButtonStyles} disabled={!newName.trim() || !newQuery.trim()}>
+          Save
+        </button>
+      </form>
+
+      <div css={listStyles}>
+        {isLoading ? (
+          <div css={emptyStyles}>Loading...</div>
+        ) : collections.length === 0 ? (
+          <div css={emptyStyles}>
+            <p>No collections yet</p>
+            <p css={hintStyles}>Save a search here or from the canvas filters; it stays up to date as cards change</p>
+          </div>
+        ) : (
+          collections.map(collection => (
+            <div key={collection.id} data-testid="collection-entry">
+              <div
+                css={[entryStyles, collection.id === selectedId && entryActiveStyles]}
+                onClick={() => setSelectedId(collection.id === selectedId ? null : collection.id)}
+              >
+                <div css={entryInfoStyles}>
+                  <div css={entryTitleStyles}>{collection.name}</div>
+                  <div css={entryMetaStyles}>
+                    {plural(members.get(collection.id)?.length ?? 0, 'card')}
+                    {collection.filters.searchQuery && ` • ${collection.filters.searchQuery}`}
+                  </div>
+                </div>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    void handleDelete(collection);
+                  }}
+                  css={entryButtonStyles}
+                  title="Delete collection"
+                >
+                  ✕
+                </button>
+              </div>
+
+              {selected?.id === collection.id && (
+                <div css={detailStyles}>
+                  <div css={detailActionsStyles}>
+                    <button
+                      onClick={() => void handleExport(collection)}
+                      css={actionButtonStyles}
+                      disabled={progress !== null || selectedCards.length === 0}
+                    >
+                      📝 Export Markdown
+                    </button>
+                    <button
+                      onClick={() => void handleBeautify(collection)}
+                      css={actionButtonStyles}
+                      disabled={progress !== null || selectedCards.length === 0}
+                    >
+                      ✨ Beautify all
+                    </button>
+                    {progress && <span css={hintStyles}>{progress}</span>}
+                  </div>
+                  {selectedCards.map(card => (
+                    <div key={card.id} css={memberStyles} title={card.metadata.title}>
+                      {card.metadata.title || 'Untitled'}
+                      <span css={memberDomainStyles}> • {card.metadata.domain}{card.stashed ? ' • stashed' : ''}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </>
+  );
+};
+
+// Styles
+const formStyles = css`
+  display: flex;
+  flex-direction: column;
+  gap: 6px;
+  padding: 12px 16px;
+  border-bottom: 1px solid rgba(184, 156, 130, 0.2);
+`;
+
+const inputStyles = css`
+  padding: 6px 10px;
+  border: 1px solid rgba(184, 156, 130, 0.3);
+  border-radius: 6px;
+  background: white;
+  color: #3e3226;
+  font-size: 12px;
+  outline: none;
+
+  &:focus {
+    border-color: #d4af37;
+  }
+`;
+
+const actionButtonStyles = css`
+  align-self: flex-start;
+  padding: 6px 12px;
+  background: white;
+  color: #5c4d42;
+  border: 1px solid rgba(184, 156, 130, 0.3);
+  border-radius: 6px;
+  font-size: 12px;
+  font-weight: 600;
+  cursor: pointer;
+  transition: all 0.2s ease;
+
+  &:hover:not(:disabled) {
+    background: rgba(212, 175, 55, 0.1);
+    border-color: #d4af37;
+  }
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
+const listStyles = css`
+  flex: 1;
+  overflow-y: auto;
+  padding: 8px;
+`;
+
+const emptyStyles = css`
+  text-align: center;
+  padding: 60px 20px;
+  color: #8b7355;
+
+  p {
+    margin: 8px 0;
+    font-size: 14px;
+  }
+`;
+
+const hintStyles = css`
+  font-size: 12px;
+  color: #a89684;
+  font-style: italic;
+`;
+
+const entryStyles = css`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  padding: 8px 10px;
+  margin-bottom: 6px;
+  background: rgba(255, 255, 255, 0.6);
+  border: 1px solid rgba(184, 156, 130, 0.2);
+  border-radius: 8px;
+  cursor: pointer;
+`;
+
+const entryActiveStyles = css`
+  background: rgba(212, 175, 55, 0.12);
+  border-color: rgba(212, 175, 55, 0.5);
+`;
+
+const entryInfoStyles = css`
+  flex: 1;
+  min-width: 0;
+`;
+
+const entryTitleStyles = css`
+  font-size: 13px;
+  font-weight: 600;
+  color: #3e3226;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const entryMetaStyles = css`
+  margin-top: 2px;
+  font-size: 10px;
+  color: #a89684;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const entryButtonStyles = css`
+  background: transparent;
+  border: none;
+  padding: 2px 4px;
+  cursor: pointer;
+  font-size: 14px;
+  opacity: 0.7;
+  transition: all 0.15s ease;
+
+  &:hover {
+    opacity: 1;
+    transform: scale(1.1);
+  }
+`;
+
+const detailStyles = css`
+  margin: -2px 0 8px 12px;
+  padding-left: 10px;
+  border-left: 2px solid rgba(212, 175, 55, 0.5);
+`;
+
+const detailActionsStyles = css`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  margin-bottom: 6px;
+`;
+
+const memberStyles = css`
+  padding: 3px 0;
+  font-size: 12px;
+  color: #3e3226;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const memberDomainStyles = css`
+  font-size: 10px;
+  color: #a89684;
+`;
@@ -11,10 +11,24 @@ import { useImageUpload } from '@/shared/hooks/useImageUpload';
 import { ImageUploadZone, FilePickerButton } from '@/shared/components/ImageUpload';
 import { useFontSize } from '@/shared/hooks/useFontSize';
 import { FontSizeSelector } from '@/components/FontSizeSelector';
+import { useTrash } from '@/shared/hooks/useTrash';
 import { SidePanelChat } from './SidePanelChat';
+import { TrashView } from './TrashView';
+import { CollectionsView } from './CollectionsView';
 import { saveCard } from '@/utils/storage';
 import { StashCardChatWindow } from '@/components/StashCardChatWindow';
+import { BoardPickerModal } from '@/components/BoardPickerModal';
+import { getBoards } from '@/shared/services/boardService';
+import { DEFAULT_FILTERS, filterCards, resolveSearchQuery } from '@/shared/services/filterService';
+import { buildSearchIndex, buildSnippet, hasTextQuery } from '@/shared/services/searchIndexService';
+import { SearchSnippet } from '@/shared/components/SearchSnippet';
 import { Toast } from '@/components/Toast';
+import {
+  importReadingList,
+  importReadingListFile,
+  loadBrowserHistory,
+  type ReadingListImportResult,
+} from '@/shared/services/readingListImportService';
 
 export const SidePanel: React.FC = () => {
   // Use shared hooks
@@ -28,6 +42,7 @@ export const SidePanel: React.FC = () => {
     { stashImmediately: true } // Images uploaded in side panel go to stash
   );
   const { fontSizeValues } = useFontSize();
+  const { entries: trashEntries, retentionDays, isLoading: isTrashLoading, refreshTrash } = useTrash();
 
   // Filter to only stashed cards
   const stashedCards = useMemo(
@@ -40,6 +55,12 @@ export const SidePanel: React.FC = () => {
   const [activeChatCardId, setActiveChatCardId] = useState<string | null>(null);
   const [skipConfirm, setSkipConfirm] = useState(false);
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' | 'info' } | null>(null);
+  const [isImportingLinks, setIsImportingLinks] = useState(false);
+  const [view, setView] = useState<'stash' | 'collections' | 'trash'>('stash');
+  const [boardRequest, setBoardRequest] = useState<{
+    title: string;
+    resolve: (boardId: string | null) => void;
+  } | null>(null);
 
   // Load skip confirm preference from localStorage
   useEffect(() => {
@@ -58,9 +79,26 @@ export const SidePanel: React.FC = () => {
     localStorage.setItem('nabokov_skip_delete_confirm', checked.toString());
   };
 
+  /**
+   * Ask which board a card should go to. Skips the question while there is
+   * only one board; resolves to null when cancelled.
+   */
+  const askForBoard = async (title: string): Promise<string | null> => {
+    const boards = await getBoards();
+    if (boards.length === 1) return boards[0].id;
+    return new Promise(resolve => setBoardRequest({ title, resolve }));
+  };
+
+  const handleBoardPicked = (boardId: string | null) => {
+    boardRequest?.resolve(boardId);
+    setBoardRequest(null);
+  };
+
   const handleRestore = async (card: Card) => {
     try {
-      await restoreCard(card.id);
+      const boardId = await askForBoard('Restore to which board?');
+      if (!boardId) return;
+      await restoreCard(card.id, boardId);
       console.log('[SidePanel] Card restored:', card.metadata.title);
       showToast('Card restored to canvas', 'success');
     } catch (error) {
@@ -75,7 +113,7 @@ export const SidePanel: React.FC = () => {
       let confirmed = true;
 
       try {
-        confirmed = window.confirm(`Permanently delete "${card.metadata.title}"?`);
+        confirmed = window.confirm(`Move "${card.metadata.title}" to the trash?`);
       } catch (error) {
         console.warn('[SidePanel] Confirm dialog blocked, defaulting to accept', error);
         confirmed = true;
@@ -92,8 +130,8 @@ export const SidePanel: React.FC = () => {
 
     try {
       await deleteCard(card.id);
-      console.log('[SidePanel] Card deleted:', card.metadata.title);
-      showToast('Card deleted successfully', 'success');
+      console.log('[SidePanel] Card moved to trash:', card.metadata.title);
+      showToast('Card moved to trash', 'success');
     } catch (error) {
       console.error('[SidePanel] Error deleting card:', error);
       showToast('Failed to delete card', 'error');
@@ -119,6 +157,49 @@ export const SidePanel: React.FC = () => {
     }
   };
 
+  const showImportResult = (result: ReadingListImportResult) => {
+    const skipped = result.duplicates + result.invalid;
+    showToast(
+      `Imported ${result.imported} link${result.imported === 1 ? '' : 's'}` +
+        (skipped > 0 ? ` (${result.duplicates} duplicates, ${result.invalid} invalid skipped)` : ''),
+      result.imported > 0 ? 'success' : 'info'
+    );
+  };
+
+  const handleImportLinkFiles = async (files: File[]) => {
+    setIsImportingLinks(true);
+    try {
+      const totals: ReadingListImportResult = { imported: 0, duplicates: 0, invalid: 0 };
+      for (const file of files) {
+        const result = await importReadingListFile(file);
+        totals.imported += result.imported;
+        totals.duplicates += result.duplicates;
+        totals.invalid += result.invalid;
+      }
+      refreshCards();
+      showImportResult(totals);
+    } catch (error) {
+      console.error('[SidePanel] Link import failed:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to import links', 'error');
+    } finally {
+      setIsImportingLinks(false);
+    }
+  };
+
+  const handleImportHistory = async () => {
+    setIsImportingLinks(true);
+    try {
+      const result = await importReadingList(await loadBrowserHistory());
+      refreshCards();
+      showImportResult(result);
+    } catch (error) {
+      console.error('[SidePanel] History import failed:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to import history', 'error');
+    } finally {
+      setIsImportingLinks(false);
+    }
+  };
+
   const handleOpenCanvas = () => {
     chrome.tabs.create({
       url: chrome.runtime.getURL('src/canvas/index.html'),
@@ -126,13 +207,16 @@ export const SidePanel: React.FC = () => {
   };
 
   // Handle save conversation to canvas
-  const handleSaveToCanvas = async (card: Card) => {
+  const handleSaveToCanvas = async (card: Card): Promise<boolean> => {
     try {
-      await saveCard(card);
+      const boardId = await askForBoard('Save to which board?');
+      if (!boardId) return false;
+      await saveCard({ ...card, boardIds: [boardId] });
       console.log('[SidePanel] Conversation saved to canvas:', card.id);
       // Broadcast update event for canvas to refresh
       window.dispatchEvent(new CustomEvent('nabokov:cards-updated'));
       refreshCards();
+      return true;
     } catch (error) {
       console.error('[SidePanel] Error saving to canvas:', error);
       throw error;
@@ -153,18 +237,14 @@ export const SidePanel: React.FC = () => {
     }
   };
 
-  // Filter cards by search query
-  const filteredCards = stashedCards.filter((card) => {
-    if (!searchQuery.trim()) return true;
-
-    const query = searchQuery.toLowerCase();
-    return (
-      card.metadata.title.toLowerCase().includes(query) ||
-      card.metadata.domain.toLowerCase().includes(query) ||
-      card.content?.toLowerCase().includes(query) ||
-      card.tags?.some((tag) => tag.toLowerCase().includes(query))
-    );
-  });
+  // Filter cards by search query (supports the tag:/domain:/"phrase" query syntax)
+  const searchIndex = useMemo(() => buildSearchIndex(stashedCards), [stashedCards]);
+  const searchFilters = useMemo(() => ({ ...DEFAULT_FILTERS, searchQuery }), [searchQuery]);
+  const searchText = useMemo(() => resolveSearchQuery(searchFilters).text, [searchFilters]);
+  const filteredCards = useMemo(
+    () => filterCards(stashedCards, searchFilters, searchIndex),
+    [stashedCards, searchFilters, searchIndex]
+  );
 
   const formatDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleDateString('en-US', {
@@ -242,6 +322,57 @@ export const SidePanel: React.FC = () => {
           {isUploading && <span css={uploadingTextStyles}>Uploading...</span>}
         </div>
 
+        {/* Reading List Import */}
+        <div css={uploadSectionStyles}>
+          <FilePickerButton
+            onFilesSelected={handleImportLinkFiles}
+            multiple
+            accept=".html,.htm,.csv,.json"
+            label="📥 Import Bookmarks / CSV / JSON"
+            disabled={isImportingLinks}
+          />
+          <button onClick={handleImportHistory} css={importHistoryButtonStyles} disabled={isImportingLinks}>
+            🕘 Import History
+          </button>
+          {isImportingLinks && <span css={uploadingTextStyles}>Importing...</span>}
+        </div>
+
+        {/* Stash / Collections / Trash switcher */}
+        <div css={viewTabsStyles}>
+          <button
+            onClick={() => setView('stash')}
+            css={[viewTabStyles, view === 'stash' && viewTabActiveStyles]}
+          >
+            📦 Stash ({stashedCards.length})
+          </button>
+          <button
+            onClick={() => setView('collections')}
+            css={[viewTabStyles, view === 'collections' && viewTabActiveStyles]}
+            data-testid="collections-tab"
+          >
+            📚 Collections
+          </button>
+          <button
+            onClick={() => setView('trash')}
+            css={[viewTabStyles, view === 'trash' && viewTabActiveStyles]}
+            data-testid="trash-tab"
+          >
+            🗑️ Trash ({trashEntries.length})
+          </button>
+        </div>
+
+        {view === 'collections' ? (
+          <CollectionsView cards={allCards} onToast={showToast} />
+        ) : view === 'trash' ? (
+          <TrashView
+            entries={trashEntries}
+            retentionDays={retentionDays}
+            isLoading={isTrashLoading}
+            onToast={showToast}
+            onChanged={refreshTrash}
+          />
+        ) : (
+        <>
         {/* Search Bar */}
         <div css={searchBarStyles}>
           <input
@@ -277,6 +408,7 @@ export const SidePanel: React.FC = () => {
           filteredCards.map((card) => {
             const isExpanded = expandedCards.has(card.id);
             const badge = getCardTypeBadge(card.cardType);
+            const snippet = hasTextQuery(searchText) ? buildSnippet(searchIndex, card.id, searchText) : null;
 
             // Sanitize content
             const contentToDisplay = card.beautifiedContent || card.content;
@@ -325,7 +457,7 @@ export const SidePanel: React.FC = () => {
                       />
                       <span css={checkboxLabelStyles}>Skip</span>
                     </label>
-                    <button onClick={() => handleDelete(card)} css={iconButtonStyles} title="Delete permanently">
+                    <button onClick={() => handleDelete(card)} css={iconButtonStyles} title="Move to trash">
                       🗑️
                     </button>
                   </div>
@@ -364,6 +496,9 @@ export const SidePanel: React.FC = () => {
                   )}
                 </div>
 
+                {/* Where the search matched */}
+                {snippet && <SearchSnippet snippet={snippet} style={{ margin: '0 0 6px' }} />}
+
                 {/* CRITICAL: Image Display for Image Cards */}
                 {card.cardType === 'image' && card.imageData ? (
                   <div css={imageContainerStyles}>
@@ -440,6 +575,17 @@ export const SidePanel: React.FC = () => {
           {filteredCards.length} of {stashedCards.length} cards
         </div>
       )}
+        </>
+        )}
+
+      {/* Board picker for restoring / saving to the canvas */}
+      {boardRequest && (
+        <BoardPickerModal
+          title={boardRequest.title}
+          onSelect={handleBoardPicked}
+          onCancel={() => handleBoardPicked(null)}
+        />
+      )}
 
       {/* Toast Notification */}
       {toast && (
@@ -506,12 +652,62 @@ const uploadSectionStyles = css`
   border-bottom: 1px solid rgba(76, 175, 80, 0.2);
 `;
 
+const importHistoryButtonStyles = css`
+  padding: 8px 14px;
+  background: white;
+  color: #5c4d42;
+  border: 1px solid rgba(184, 156, 130, 0.4);
+  border-radius: 6px;
+  font-size: 13px;
+  font-weight: 500;
+  cursor: pointer;
+  transition: all 0.2s ease;
+
+  &:hover:not(:disabled) {
+    background: rgba(212, 175, 55, 0.1);
+  }
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
 const uploadingTextStyles = css`
   font-size: 13px;
   color: #666;
   font-style: italic;
 `;
 
+const viewTabsStyles = css`
+  display: flex;
+  gap: 4px;
+  padding: 8px 16px 0;
+  border-bottom: 1px solid rgba(184, 156, 130, 0.2);
+`;
+
+const viewTabStyles = css`
+  padding: 6px 12px;
+  background: transparent;
+  color: #8b7355;
+  border: none;
+  border-bottom: 2px solid transparent;
+  font-size: 13px;
+  font-weight: 500;
+  cursor: pointer;
+  transition: all 0.2s ease;
+
+  &:hover {
+    color: #3e3226;
+  }
+`;
+
+const viewTabActiveStyles = css`
+  color: #3e3226;
+  font-weight: 600;
+  border-bottom-color: #d4af37;
+`;
+
 const searchBarStyles = css`
   padding: 12px 16px;
   border-bottom: 1px solid rgba(184, 156, 130, 0.2);
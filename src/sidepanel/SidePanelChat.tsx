@@ -10,7 +10,8 @@ import type { Card } from '@/types/card';
  * Props for SidePanelChat component
  */
 export interface SidePanelChatProps {
-  onSaveToCanvas: (card: Card) => Promise<void>;
+  /** Resolves to false when the user cancels */
+  onSaveToCanvas: (card: Card) => Promise<boolean>;
   onSaveToStash: (card: Card) => Promise<void>;
 }
 
@@ -63,6 +64,7 @@ export const SidePanelChat: React.FC<SidePanelChatProps> = ({
     inputValue,
     isStreaming,
     streamingContent,
+    streamingThinking,
     setInputValue,
     sendMessage,
     stopStreaming,
@@ -129,7 +131,7 @@ export const SidePanelChat: React.FC<SidePanelChatProps> = ({
 
       // Save card using provided handlers
       if (destination === 'canvas') {
-        await onSaveToCanvas(newCard);
+        if (!(await onSaveToCanvas(newCard))) return;
         alert('Conversation saved to canvas!');
       } else {
         await onSaveToStash(newCard);
@@ -224,6 +226,7 @@ export const SidePanelChat: React.FC<SidePanelChatProps> = ({
               currentInput={inputValue}
               isStreaming={isStreaming}
               streamingContent={streamingContent}
+              streamingThinking={streamingThinking}
               pendingImages={[]} // Side panel doesn't support images yet
               onSendMessage={sendMessage}
               onInputChange={setInputValue}
@@ -0,0 +1,297 @@
+/** @jsxImportSource @emotion/react */
+import { css } from '@emotion/react';
+import React, { useState } from 'react';
+import type { TrashEntry } from '@/types/trash';
+import {
+  restoreCardsFromTrash,
+  deleteFromTrash,
+  emptyTrash,
+  getTrashExpiry,
+  setTrashRetentionDays,
+} from '@/shared/services/trashService';
+
+const RETENTION_OPTIONS = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 0, label: 'Forever' },
+];
+
+interface TrashViewProps {
+  entries: TrashEntry[];
+  retentionDays: number;
+  isLoading: boolean;
+  onToast: (message: string, type: 'success' | 'error' | 'info') => void;
+  onChanged: () => void;
+}
+
+const confirmAction = (message: string): boolean => {
+  try {
+    return window.confirm(message) || !!(navigator as any)?.webdriver;
+  } catch (error) {
+    console.warn('[TrashView] Confirm dialog blocked, defaulting to accept', error);
+    return true;
+  }
+};
+
+const formatDate = (timestamp: number) => {
+  return new Date(timestamp).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+const formatExpiry = (expiresAt: number | null) => {
+  if (expiresAt === null) return 'Kept until trash is emptied';
+  const days = Math.max(0, Math.ceil((expiresAt - Date.now()) / (24 * 60 * 60 * 1000)));
+  return days <= 1 ? 'Deleted forever within a day' : `Deleted forever in ${days} days`;
+};
+
+export const TrashView: React.FC<TrashViewProps> = ({
+  entries,
+  retentionDays,
+  isLoading,
+  onToast,
+  onChanged,
+}) => {
+  const [isBusy, setIsBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+      onChanged();
+    } catch (error) {
+      console.error('[TrashView]', failure, error);
+      onToast(failure, 'error');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRestore = (entry: TrashEntry) =>
+    run(async () => {
+      await restoreCardsFromTrash([entry.id]);
+      onToast('Card restored', 'success');
+    }, 'Failed to restore card');
+
+  const handleDeleteForever = (entry: TrashEntry) => {
+    if (!confirmAction(`Permanently delete "${entry.card.metadata.title}"? This cannot be undone.`)) return;
+    return run(async () => {
+      await deleteFromTrash([entry.id]);
+      onToast('Card deleted permanently', 'success');
+    }, 'Failed to delete card');
+  };
+
+  const handleEmptyTrash = () => {
+    if (!confirmAction(`Permanently delete ${entries.length} card${entries.length === 1 ? '' : 's'} in the trash?`)) return;
+    return run(async () => {
+      const count = await emptyTrash();
+      onToast(`Deleted ${count} card${count === 1 ? '' : 's'} permanently`, 'success');
+    }, 'Failed to empty trash');
+  };
+
+  const handleRetentionChange = (days: number) =>
+    run(async () => {
+      await setTrashRetentionDays(days);
+    }, 'Failed to update retention');
+
+  return (
+    <>
+      <div css={toolbarStyles}>
+        <label css={retentionLabelStyles}>
+          Keep deleted cards for{' '}
+          <select
+            value={retentionDays}
+            onChange={(e) => handleRetentionChange(Number(e.target.value))}
+            css={retentionSelectStyles}
+            disabled={isBusy}
+            data-testid="trash-retention-select"
+          >
+            {RETENTION_OPTIONS.map(option => (
+              <option key={option.days} value={option.days}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={handleEmptyTrash}
+          css={emptyTrashButtonStyles}
+          disabled={isBusy || entries.length === 0}
+          data-testid="empty-trash-btn"
+        >
+          Empty trash
+        </button>
+      </div>
+
+      <div css={listStyles}>
+        {isLoading ? (
+          <div css={emptyStyles}>Loading...</div>
+        ) : entries.length === 0 ? (
+          <div css={emptyStyles}>
+            <p>Trash is empty</p>
+            <p css={hintStyles}>Deleted cards stay here until they expire or the trash is emptied</p>
+          </div>
+        ) : (
+          entries.map(entry => (
+            <div key={entry.id} css={entryStyles} data-testid="trash-entry">
+              <div css={entryInfoStyles}>
+                <div css={entryTitleStyles} title={entry.card.metadata.title}>
+                  {entry.card.metadata.favicon && <span>{entry.card.metadata.favicon} </span>}
+                  {entry.card.metadata.title || 'Untitled'}
+                </div>
+                <div css={entryMetaStyles}>
+                  Deleted {formatDate(entry.deletedAt)} • {formatExpiry(getTrashExpiry(entry, retentionDays))}
+                  {entry.connections.length > 0 &&
+                    ` • ${entry.connections.length} connection${entry.connections.length === 1 ? '' : 's'}`}
+                </div>
+              </div>
+              <div css={entryActionsStyles}>
+                <button
+                  onClick={() => handleRestore(entry)}
+                  css={entryButtonStyles}
+                  disabled={isBusy}
+                  title="Restore card and its connections"
+                >
+                  ↩️
+                </button>
+                <button
+                  onClick={() => handleDeleteForever(entry)}
+                  css={entryButtonStyles}
+                  disabled={isBusy}
+                  title="Delete forever"
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </>
+  );
+};
+
+// Styles
+const toolbarStyles = css`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: 12px;
+  padding: 12px 16px;
+  border-bottom: 1px solid rgba(184, 156, 130, 0.2);
+`;
+
+const retentionLabelStyles = css`
+  font-size: 12px;
+  color: #5c4d42;
+`;
+
+const retentionSelectStyles = css`
+  padding: 4px 6px;
+  border: 1px solid rgba(184, 156, 130, 0.3);
+  border-radius: 4px;
+  background: white;
+  color: #3e3226;
+  font-size: 12px;
+`;
+
+const emptyTrashButtonStyles = css`
+  padding: 6px 12px;
+  background: white;
+  color: #8b0000;
+  border: 1px solid rgba(139, 0, 0, 0.3);
+  border-radius: 6px;
+  font-size: 12px;
+  font-weight: 600;
+  cursor: pointer;
+  transition: all 0.2s ease;
+
+  &:hover:not(:disabled) {
+    background: rgba(139, 0, 0, 0.08);
+  }
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
+const listStyles = css`
+  flex: 1;
+  overflow-y: auto;
+  padding: 8px;
+`;
+
+const emptyStyles = css`
+  text-align: center;
+  padding: 60px 20px;
+  color: #8b7355;
+
+  p {
+    margin: 8px 0;
+    font-size: 14px;
+  }
+`;
+
+const hintStyles = css`
+  font-size: 12px;
+  color: #a89684;
+  font-style: italic;
+`;
+
+const entryStyles = css`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  padding: 8px 10px;
+  margin-bottom: 6px;
+  background: rgba(255, 255, 255, 0.6);
+  border: 1px solid rgba(184, 156, 130, 0.2);
+  border-radius: 8px;
+`;
+
+const entryInfoStyles = css`
+  flex: 1;
+  min-width: 0;
+`;
+
+const entryTitleStyles = css`
+  font-size: 13px;
+  font-weight: 600;
+  color: #3e3226;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const entryMetaStyles = css`
+  margin-top: 2px;
+  font-size: 10px;
+  color: #a89684;
+`;
+
+const entryActionsStyles = css`
+  display: flex;
+  gap: 4px;
+`;
+
+const entryButtonStyles = css`
+  background: transparent;
+  border: none;
+  padding: 2px 4px;
+  cursor: pointer;
+  font-size: 14px;
+  opacity: 0.7;
+  transition: all 0.15s ease;
+
+  &:hover:not(:disabled) {
+    opacity: 1;
+    transform: scale(1.1);
+  }
+
+  &:disabled {
+    cursor: not-allowed;
+  }
+`;
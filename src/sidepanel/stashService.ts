@@ -4,42 +4,38 @@
  */
 
 import type { Card } from '@/types/card';
-import { saveCard } from '@/utils/storage';
-
-const CARDS_KEY = 'cards';
+import { getCardRecord, putCard, getCardsByStashed } from '@/utils/cardRepository';
+import { recordHistory, cardChange } from '@/shared/services/historyService';
 
 /**
- * Get all cards from storage
+ * Set the stash flag on a single card record
  */
-async function getAllCards(): Promise<Card[]> {
-  try {
-    const result = await chrome.storage.local.get(CARDS_KEY);
-    return result[CARDS_KEY] || [];
-  } catch (error) {
-    console.error('[stashService] Error loading cards:', error);
-    return [];
-  }
-}
+async function setStashed(cardId: string, stashed: boolean): Promise<void> {
+  const card = await getCardRecord(cardId);
 
-/**
- * Save all cards to storage
- */
-async function saveAllCards(cards: Card[]): Promise<void> {
-  try {
-    await chrome.storage.local.set({ [CARDS_KEY]: cards });
-    console.log('[stashService] Saved cards:', cards.length);
-  } catch (error) {
-    console.error('[stashService] Error saving cards:', error);
-    throw error;
+  if (!card) {
+    throw new Error('Card not found');
   }
+
+  const updated: Card = {
+    ...card,
+    stashed,
+    updatedAt: Date.now(),
+  };
+  await putCard(updated);
+  await recordHistory(stashed ? 'Stash card' : 'Restore card', [cardChange(card, updated)]);
 }
 
 /**
  * Get all stashed cards
  */
 export async function getStashedCards(): Promise<Card[]> {
-  const allCards = await getAllCards();
-  return allCards.filter((card) => card.stashed === true);
+  try {
+    return await getCardsByStashed(true);
+  } catch (error) {
+    console.error('[stashService] Error loading cards:', error);
+    return [];
+  }
 }
 
 /**
@@ -47,18 +43,7 @@ export async function getStashedCards(): Promise<Card[]> {
  */
 export async function stashCard(cardId: string): Promise<void> {
   try {
-    const allCards = await getAllCards();
-    const cardIndex = allCards.findIndex((c) => c.id === cardId);
-
-    if (cardIndex === -1) {
-      throw new Error('Card not found');
-    }
-
-    // Mark as stashed
-    allCards[cardIndex].stashed = true;
-    allCards[cardIndex].updatedAt = Date.now();
-
-    await saveAllCards(allCards);
+    await setStashed(cardId, true);
 
     // Notify canvas and side panel via local events
     window.dispatchEvent(new CustomEvent('nabokov:cards-updated'));
@@ -82,18 +67,7 @@ export async function stashCard(cardId: string): Promise<void> {
  */
 export async function restoreCard(cardId: string): Promise<void> {
   try {
-    const allCards = await getAllCards();
-    const cardIndex = allCards.findIndex((c) => c.id === cardId);
-
-    if (cardIndex === -1) {
-      throw new Error('Card not found');
-    }
-
-    // Unmark as stashed
-    allCards[cardIndex].stashed = false;
-    allCards[cardIndex].updatedAt = Date.now();
-
-    await saveAllCards(allCards);
+    await setStashed(cardId, false);
 
     // Notify canvas and side panel via local events
     window.dispatchEvent(new CustomEvent('nabokov:cards-updated'));
@@ -112,33 +86,6 @@ export async function restoreCard(cardId: string): Promise<void> {
   }
 }
 
-/**
- * Permanently delete a stashed card
- */
-export async function deleteCardPermanently(cardId: string): Promise<void> {
-  try {
-    const allCards = await getAllCards();
-    const updatedCards = allCards.filter((c) => c.id !== cardId);
-
-    await saveAllCards(updatedCards);
-
-    // Notify canvas and side panel via local events
-    window.dispatchEvent(new CustomEvent('nabokov:cards-updated'));
-    window.dispatchEvent(new CustomEvent('nabokov:stash-updated'));
-
-    // Broadcast to all extension contexts
-    chrome.runtime.sendMessage({
-      type: 'STASH_UPDATED',
-      cardId
-    });
-
-    console.log('[stashService] Card deleted permanently:', cardId);
-  } catch (error) {
-    console.error('[stashService] Error deleting card:', error);
-    throw error;
-  }
-}
-
 /**
  * Get count of stashed cards
  */
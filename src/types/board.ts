@@ -0,0 +1,10 @@
+/**
+ * Types for canvas boards (separate named canvases)
+ */
+
+export interface Board {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
@@ -49,6 +49,7 @@ export interface ClipMetadata {
   selector?: string;
   textContent?: string;
   dimensions?: { width: number; height: number };
+  color?: string; // User-defined color (hex)
 }
 
 /**
@@ -88,6 +89,42 @@ export interface FillInHistoryEntry {
   previousContent?: string; // Snapshot before fill-in (for undo)
 }
 
+/**
+ * Who produced a card revision
+ */
+export type RevisionAuthor = 'user' | 'ai';
+
+/**
+ * What caused a card's content to change
+ */
+export type RevisionCause =
+  | 'original' // Content as it was before the first recorded change
+  | 'edit'
+  | 'beautify'
+  | 'revert-beautify'
+  | 'fill-in'
+  | 'generate'
+  | 'restore'
+  | 'undo'
+  | 'redo';
+
+/**
+ * Snapshot of a card's content in its revision log
+ */
+export interface CardRevision {
+  id: string;
+  cardId: string;
+  timestamp: number;
+  author: RevisionAuthor;
+  cause: RevisionCause;
+  title: string;
+  content?: string;
+  originalHTML?: string;
+  beautifiedContent?: string;
+  beautificationMode?: BeautificationMode;
+  restoredFrom?: string; // Revision id, for 'restore' revisions
+}
+
 
 /**
  * Main card data structure for the canvas view
@@ -105,7 +142,8 @@ export interface Card {
   updatedAt: number;
   conversation?: Message[]; // Conversation history with Claude
   // Additional fields for element rendering
-  styles?: import('../types').RelevantStyles; // Computed styles for rendering
+  /** @deprecated Never rendered; stripped by storage migration v2 */
+  styles?: import('../types').RelevantStyles;
   context?: string; // Parent element context (HTML snippet)
   // Card type and relationships
   cardType?: 'clipped' | 'generated' | 'note' | 'image'; // Type of card
@@ -122,6 +160,8 @@ export interface Card {
   // UI state
   collapsed?: boolean; // Whether card is collapsed to minimal height
   stashed?: boolean; // Whether card is stashed (hidden from canvas)
+  boardIds?: string[]; // Boards the card appears on; missing or empty means the main board
+  groupId?: string; // Group frame the card sits in
   isGenerating?: boolean; // Whether card is currently being generated (skeleton state)
   // AI Beautification fields
   originalHTML?: string; // Original HTML before beautification
@@ -132,12 +172,54 @@ export interface Card {
   fillInHistory?: FillInHistoryEntry[]; // History of fill-in operations
 }
 
+/**
+ * Embedding of a card's text, tagged with what produced it. Cached in the
+ * card repository's embeddings store, keyed by card id.
+ */
+export interface CardEmbedding {
+  model: string;
+  contentHash: string; // hashString of the embedded text
+  vector: number[];
+}
+
 /**
  * State of the canvas including all cards and viewport position
  */
 export interface CanvasState {
   cards: Card[];
   viewportPosition: { x: number; y: number; zoom: number };
+  /** Last viewport per board; the main board falls back to viewportPosition */
+  boardViewports?: Record<string, { x: number; y: number; zoom: number }>;
+  /** @deprecated Moved to CanvasNavigationState; read only to migrate */
+  viewportBookmarks?: ViewportBookmark[];
+  /** @deprecated Moved to CanvasNavigationState; read only to migrate */
+  minimap?: MiniMapSettings;
+}
+
+/**
+ * Bookmarks and minimap settings, stored apart from the canvas state so
+ * viewport saves never overwrite them
+ */
+export interface CanvasNavigationState {
+  /** Named viewport locations, each on one board */
+  viewportBookmarks: ViewportBookmark[];
+  minimap?: MiniMapSettings;
+}
+
+/**
+ * A saved viewport location the user can jump back to
+ */
+export interface ViewportBookmark {
+  id: string;
+  name: string;
+  boardId: string;
+  viewport: { x: number; y: number; zoom: number };
+  createdAt: number;
+}
+
+export interface MiniMapSettings {
+  visible: boolean;
+  colorBy: 'domain' | 'tag';
 }
 
 /**
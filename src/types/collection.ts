@@ -0,0 +1,17 @@
+/**
+ * Types for smart collections (saved searches)
+ */
+
+import type { FilterState } from '@/shared/services/filterService';
+
+/**
+ * A named filter combination. Membership is never stored: the cards in a
+ * collection are whatever currently matches its filters.
+ */
+export interface SmartCollection {
+  id: string;
+  name: string;
+  filters: FilterState;
+  createdAt: number;
+  updatedAt: number;
+}
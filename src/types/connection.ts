@@ -10,6 +10,7 @@ export interface CardConnection {
   target: string; // Target card ID
   type: ConnectionType;
   label?: string;
+  boardId?: string; // Board the connection was drawn on; missing means any board showing both cards
   metadata?: {
     createdAt: number;
     createdBy: 'user' | 'ai';
@@ -3,6 +3,7 @@
  */
 
 import type { ElementDescriptor } from '@/services/elementIdService';
+import type { LLMUsage } from '@/services/streamEvents';
 
 /**
  * Collapse state for element chat window
@@ -27,6 +28,7 @@ export interface ChatMessage {
     height: number;    // Original height
   }>;
   thinking?: string;   // Optional assistant reasoning block (collapsed by default)
+  usage?: LLMUsage;    // Token usage reported for an assistant reply
 }
 
 /**
@@ -0,0 +1,31 @@
+/**
+ * Types for group frames on the canvas
+ */
+
+import type { CardPosition, CardSize } from './card';
+
+/**
+ * A titled frame around related cards. Membership is stored on the cards
+ * (`card.groupId`); positions stay absolute canvas coordinates for both.
+ */
+export interface CanvasGroup {
+  id: string;
+  title: string;
+  color: string;
+  position: CardPosition;
+  size: CardSize;
+  collapsed?: boolean; // Shown as a single summary node with its cards hidden
+  boardId?: string; // Board the frame is on; missing means the main board
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Axis-aligned rectangle in canvas coordinates
+ */
+export interface CanvasRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
@@ -109,12 +109,13 @@ export interface StorageQuota {
 
 /**
  * chrome.storage.local data structure.
- * Contains all card metadata and references to IndexedDB screenshots.
+ * Cards themselves live in IndexedDB (see utils/cardRepository.ts); the
+ * legacy `cards` array only exists until the first migration runs.
  */
 export interface StorageData {
-  cards: import('./card').Card[];  // Array of card data
+  cards?: import('./card').Card[];      // Legacy card array (pre-IndexedDB)
   lastSync: number;                     // Last sync timestamp
-  version: string;                      // Storage schema version
+  version: number;                      // Storage schema version (see utils/storageMigrations.ts)
 }
 
 // ============================================================================
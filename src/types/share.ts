@@ -0,0 +1,38 @@
+/**
+ * Types for read-only canvas snapshots published to the backend
+ */
+
+import type { Card } from './card';
+import type { CardConnection } from './connection';
+
+export interface ShareSnapshot {
+  version: 1;
+  title: string;
+  createdAt: number;
+  /** Cards as shown on the canvas, with their current position and size */
+  cards: Card[];
+  /** Connections whose ends are both in `cards` */
+  connections: CardConnection[];
+  viewport?: { x: number; y: number; zoom: number };
+}
+
+export interface PublishOptions {
+  password?: string;
+  /** Days until the link stops working; omit to keep it until unpublished */
+  expiresInDays?: number;
+}
+
+/**
+ * A published snapshot as remembered by the extension
+ */
+export interface PublishedShare {
+  id: string;
+  url: string;
+  title: string;
+  cardCount: number;
+  hasPassword: boolean;
+  publishedAt: number;
+  expiresAt: number | null;
+  /** Secret returned by the backend, required to unpublish */
+  ownerToken: string;
+}
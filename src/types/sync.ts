@@ -0,0 +1,54 @@
+/**
+ * Types for operation-log sync between browser profiles
+ */
+
+export type SyncEntity = 'card' | 'connection' | 'chat';
+
+/**
+ * One change to one entity. `fields` carries the new value of every changed
+ * top-level field (null for a removed field); `__deleted` marks deletion and
+ * is sent as false alongside the full field set when an entity is created or
+ * restored.
+ */
+export interface SyncOperation {
+  id: string;
+  clientId: string;
+  hlc: string;
+  entity: SyncEntity;
+  entityId: string;
+  fields: Record<string, unknown>;
+  /** Assigned by the server */
+  seq?: number;
+}
+
+/**
+ * Last known write of each field of an entity, used to detect local changes
+ * and to resolve incoming ones (last writer wins, per field)
+ */
+export interface SyncRecord {
+  key: string; // `${entity}:${entityId}`
+  fields: Record<string, { hlc: string; hash: string }>;
+}
+
+export interface SyncSettings {
+  enabled: boolean;
+  endpoint: string;
+  token: string;
+}
+
+export interface SyncResult {
+  pushed: number;
+  pulled: number;
+  conflicts: number;
+}
+
+export interface SyncState {
+  clientId: string;
+  /** Latest HLC issued or seen by this profile */
+  clock: string | null;
+  /** Server sequence number of the last pulled operation */
+  cursor: number;
+  lastSyncAt: number | null;
+  lastResult: SyncResult | null;
+  lastError: string | null;
+}
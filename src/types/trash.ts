@@ -0,0 +1,19 @@
+/**
+ * Types for the card trash bin
+ */
+
+import type { Card } from './card';
+import type { CardConnection } from './connection';
+import type { ExpandableLink } from '@/utils/expandableLinks';
+
+/**
+ * A soft-deleted card, kept together with the connections and expandable
+ * links that were removed alongside it so a restore can bring them back
+ */
+export interface TrashEntry {
+  id: string; // Same as card.id
+  card: Card;
+  connections: CardConnection[];
+  expandableLinks: ExpandableLink[];
+  deletedAt: number;
+}
@@ -0,0 +1,45 @@
+/**
+ * Blob references
+ *
+ * Large data URLs (e.g. card images inside undo-history snapshots) can be
+ * moved out of chrome.storage.local into the IndexedDB `blobs` store and
+ * replaced by a short `idb-blob:<id>` reference. Readers resolve references
+ * before writing a snapshot back to a live card.
+ */
+
+import type { Card } from '@/types/card';
+import { getBlobs } from './cardRepository';
+import { hashString } from './hash';
+
+export const BLOB_REF_PREFIX = 'idb-blob:';
+
+export function isBlobRef(value: string | undefined): boolean {
+  return typeof value === 'string' && value.startsWith(BLOB_REF_PREFIX);
+}
+
+export function blobRefId(ref: string): string {
+  return ref.slice(BLOB_REF_PREFIX.length);
+}
+
+/**
+ * Content-derived id, so the same image referenced from several snapshots
+ * is stored once
+ */
+export function blobIdFor(data: string): string {
+  return hashString(data);
+}
+
+/**
+ * Replace a card's blob reference with the stored image. A reference whose
+ * blob is gone is dropped rather than written into a live card.
+ */
+export async function resolveCardBlobs(card: Card): Promise<Card> {
+  if (!card.imageData || !isBlobRef(card.imageData)) return card;
+
+  const id = blobRefId(card.imageData);
+  const data = (await getBlobs([id])).get(id);
+  if (!data) {
+    console.warn('[blobRefs] Missing blob for card', card.id);
+  }
+  return { ...card, imageData: data };
+}
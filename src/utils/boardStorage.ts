@@ -0,0 +1,65 @@
+/**
+ * Board storage utilities
+ *
+ * Boards and the active board id live in chrome.storage.local. The main
+ * board always exists, even before anything has been stored, so callers
+ * never see an empty board list.
+ */
+
+import type { Board } from '@/types/board';
+
+const BOARDS_KEY = 'nabokov_boards';
+const ACTIVE_BOARD_KEY = 'nabokov_active_board';
+
+/** Board shown to cards and connections without a board membership */
+export const DEFAULT_BOARD_ID = 'default';
+
+const DEFAULT_BOARD: Board = {
+  id: DEFAULT_BOARD_ID,
+  name: 'Main board',
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+/**
+ * Load all boards, main board first
+ */
+export async function loadBoards(): Promise<Board[]> {
+  try {
+    const result = await chrome.storage.local.get(BOARDS_KEY);
+    const boards: Board[] = result[BOARDS_KEY] || [];
+    return boards.some(board => board.id === DEFAULT_BOARD_ID) ? boards : [DEFAULT_BOARD, ...boards];
+  } catch (error) {
+    console.error('[boardStorage] Error loading boards:', error);
+    return [DEFAULT_BOARD];
+  }
+}
+
+/**
+ * Save all boards to chrome.storage.local
+ */
+export async function saveBoards(boards: Board[]): Promise<void> {
+  await chrome.storage.local.set({ [BOARDS_KEY]: boards });
+}
+
+/**
+ * Id of the board the canvas shows. Falls back to the main board when the
+ * stored board no longer exists.
+ */
+export async function loadActiveBoardId(): Promise<string> {
+  try {
+    const [result, boards] = await Promise.all([
+      chrome.storage.local.get(ACTIVE_BOARD_KEY),
+      loadBoards(),
+    ]);
+    const id: string | undefined = result[ACTIVE_BOARD_KEY];
+    return id && boards.some(board => board.id === id) ? id : DEFAULT_BOARD_ID;
+  } catch (error) {
+    console.error('[boardStorage] Error loading active board:', error);
+    return DEFAULT_BOARD_ID;
+  }
+}
+
+export async function saveActiveBoardId(boardId: string): Promise<void> {
+  await chrome.storage.local.set({ [ACTIVE_BOARD_KEY]: boardId });
+}
@@ -0,0 +1,650 @@
+/**
+ * Card repository for Nabokov Web Clipper
+ *
+ * Stores cards in IndexedDB with one record per card, replacing the legacy
+ * single `cards` array in chrome.storage.local. Records are indexed by domain,
+ * tags, creation time and stash state so views can query without loading
+ * every card.
+ *
+ * IndexedDB is scoped to the origin that opens it, so content scripts (which
+ * run in the page's origin) cannot open the extension database directly.
+ * They call routeCardRepositoryThroughBackground() at startup, after which
+ * every operation is forwarded to the background service worker.
+ *
+ * Soft-deleted cards live in a separate `trash` store (added in DB v2), so
+ * every card query above ignores them without extra filtering. Large data
+ * URLs offloaded from chrome.storage.local live in the `blobs` store (v3).
+ * Per-field sync bookkeeping lives in the `sync` store (v4). Semantic search
+ * embeddings live in the `embeddings` store keyed by card id (v5), so the
+ * vectors never travel with the cards themselves.
+ */
+
+import type { Card, CardEmbedding } from '@/types/card';
+import type { TrashEntry } from '@/types/trash';
+import type { SyncRecord } from '@/types/sync';
+
+const DB_NAME = 'nabokov_cards';
+const DB_VERSION = 5;
+const STORE_NAME = 'cards';
+const TRASH_STORE_NAME = 'trash';
+const BLOB_STORE_NAME = 'blobs';
+const SYNC_STORE_NAME = 'sync';
+const EMBEDDING_STORE_NAME = 'embeddings';
+
+/** Legacy chrome.storage.local key holding the full card array */
+export const LEGACY_CARDS_KEY = 'cards';
+/** chrome.storage.local key recording when the legacy array was migrated */
+export const CARD_MIGRATION_KEY = 'nabokov_cards_migrated_at';
+/** Runtime message type used to proxy repository calls to the background worker */
+export const CARD_REPOSITORY_MESSAGE = 'CARD_REPOSITORY_REQUEST';
+
+/**
+ * Stored form of a card. IndexedDB cannot index booleans, so the stash flag
+ * is mirrored into a numeric field for the `stashed` index.
+ */
+interface CardRecord extends Card {
+  stashedKey: 0 | 1;
+}
+
+/**
+ * Stored form of a card's embedding
+ */
+interface EmbeddingRecord extends CardEmbedding {
+  cardId: string;
+}
+
+/**
+ * Operations that can be proxied through the background worker
+ */
+export type CardRepositoryRequest =
+  | { op: 'getAll' }
+  | { op: 'get'; cardId: string }
+  | { op: 'getMany'; cardIds: string[] }
+  | { op: 'put'; cards: Card[] }
+  | { op: 'delete'; cardIds: string[] }
+  | { op: 'byDomain'; domain: string }
+  | { op: 'byTag'; tag: string }
+  | { op: 'byStashed'; stashed: boolean }
+  | { op: 'createdBetween'; start: number; end: number }
+  | { op: 'count' };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let useBackgroundProxy = false;
+
+/**
+ * Route all repository calls in this context through the background worker.
+ * Must be called by content scripts before any card is read or written.
+ */
+export function routeCardRepositoryThroughBackground(): void {
+  useBackgroundProxy = true;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+}
+
+function toRecord(card: Card): CardRecord {
+  return { ...card, stashedKey: card.stashed ? 1 : 0 };
+}
+
+function fromRecord(record: CardRecord): Card {
+  const { stashedKey: _stashedKey, ...card } = record;
+  return card;
+}
+
+/**
+ * v5 upgrade: move embeddings that earlier versions cached on card and trash
+ * records into the embeddings store
+ */
+function moveInlineEmbeddings(tx: IDBTransaction): void {
+  const embeddings = tx.objectStore(EMBEDDING_STORE_NAME);
+
+  const cardCursor = tx.objectStore(STORE_NAME).openCursor();
+  cardCursor.onsuccess = () => {
+    const cursor = cardCursor.result;
+    if (!cursor) return;
+    const { embedding, ...record } = cursor.value as CardRecord & { embedding?: CardEmbedding };
+    if (embedding) {
+      embeddings.put({ ...embedding, cardId: record.id });
+      cursor.update(record);
+    }
+    cursor.continue();
+  };
+
+  const trashCursor = tx.objectStore(TRASH_STORE_NAME).openCursor();
+  trashCursor.onsuccess = () => {
+    const cursor = trashCursor.result;
+    if (!cursor) return;
+    const entry = cursor.value as TrashEntry & { card: Card & { embedding?: CardEmbedding } };
+    const { embedding, ...card } = entry.card;
+    if (embedding) {
+      embeddings.put({ ...embedding, cardId: card.id });
+      cursor.update({ ...entry, card });
+    }
+    cursor.continue();
+  };
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('domain', 'metadata.domain', { unique: false });
+        store.createIndex('tags', 'tags', { unique: false, multiEntry: true });
+        store.createIndex('createdAt', 'createdAt', { unique: false });
+        store.createIndex('stashed', 'stashedKey', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(TRASH_STORE_NAME)) {
+        const trash = db.createObjectStore(TRASH_STORE_NAME, { keyPath: 'id' });
+        trash.createIndex('deletedAt', 'deletedAt', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(BLOB_STORE_NAME)) {
+        db.createObjectStore(BLOB_STORE_NAME, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SYNC_STORE_NAME)) {
+        db.createObjectStore(SYNC_STORE_NAME, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(EMBEDDING_STORE_NAME)) {
+        db.createObjectStore(EMBEDDING_STORE_NAME, { keyPath: 'cardId' });
+        if (event.oldVersion > 0) {
+          moveInlineEmbeddings(request.transaction!);
+        }
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * One-time import of the legacy `cards` array from chrome.storage.local.
+ * Existing records win over legacy entries unless the legacy copy is newer,
+ * so re-running after a partial failure is safe.
+ */
+async function migrateLegacyCards(db: IDBDatabase): Promise<number> {
+  const result = await chrome.storage.local.get([LEGACY_CARDS_KEY, CARD_MIGRATION_KEY]);
+  if (result[CARD_MIGRATION_KEY]) {
+    return 0;
+  }
+
+  const legacyCards: Card[] = Array.isArray(result[LEGACY_CARDS_KEY]) ? result[LEGACY_CARDS_KEY] : [];
+  let imported = 0;
+
+  if (legacyCards.length > 0) {
+    const readStore = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const existing = await requestToPromise(readStore.getAll() as IDBRequest<CardRecord[]>);
+    const existingById = new Map(existing.map(record => [record.id, record]));
+
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    for (const card of legacyCards) {
+      if (!card?.id) continue;
+      const current = existingById.get(card.id);
+      if (!current || (card.updatedAt ?? 0) > (current.updatedAt ?? 0)) {
+        store.put(toRecord(card));
+        imported++;
+      }
+    }
+    await transactionDone(tx);
+  }
+
+  await chrome.storage.local.set({ [CARD_MIGRATION_KEY]: Date.now() });
+  await chrome.storage.local.remove(LEGACY_CARDS_KEY);
+
+  console.log(`[cardRepository] Migrated ${imported} legacy cards to IndexedDB`);
+  return imported;
+}
+
+/**
+ * Open (and migrate, on first use) the card database.
+ * The connection is cached for the lifetime of the context.
+ */
+export function getCardDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = openDatabase().then(async (db) => {
+      try {
+        await migrateLegacyCards(db);
+      } catch (error) {
+        // Leave the legacy array in place; the next context to open the DB retries
+        console.error('[cardRepository] Legacy card migration failed:', error);
+      }
+      return db;
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Import the legacy cards array now, rejecting if the import fails.
+ * getCardDatabase() only logs a failed import so that reads keep working;
+ * callers that must know whether it happened use this instead.
+ * Resolves to 0 once the import has been flagged as done.
+ */
+export async function importLegacyCards(): Promise<number> {
+  const db = await getCardDatabase();
+  return migrateLegacyCards(db);
+}
+
+/**
+ * Close the cached connection. The next call reopens (and re-checks migration).
+ */
+export async function closeCardDatabase(): Promise<void> {
+  if (!dbPromise) return;
+  const pending = dbPromise;
+  dbPromise = null;
+  try {
+    (await pending).close();
+  } catch {
+    // Opening failed; nothing to close
+  }
+}
+
+async function readAll(indexName?: string, query?: IDBValidKey | IDBKeyRange): Promise<Card[]> {
+  const db = await getCardDatabase();
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  const source = indexName ? store.index(indexName) : store;
+  const records = await requestToPromise(source.getAll(query) as IDBRequest<CardRecord[]>);
+  return records.map(fromRecord);
+}
+
+async function proxy<T>(request: CardRepositoryRequest): Promise<T> {
+  const response = await chrome.runtime.sendMessage({ type: CARD_REPOSITORY_MESSAGE, request });
+  if (!response?.success) {
+    throw new Error(response?.error || 'Card repository request failed');
+  }
+  return response.result as T;
+}
+
+/**
+ * Get every card, sorted by creation time
+ */
+export async function getAllCards(): Promise<Card[]> {
+  if (useBackgroundProxy) return proxy({ op: 'getAll' });
+  return readAll('createdAt');
+}
+
+/**
+ * Get a single card by ID
+ */
+export async function getCardRecord(cardId: string): Promise<Card | undefined> {
+  if (useBackgroundProxy) return proxy({ op: 'get', cardId });
+  const db = await getCardDatabase();
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  const record = await requestToPromise(store.get(cardId) as IDBRequest<CardRecord | undefined>);
+  return record ? fromRecord(record) : undefined;
+}
+
+/**
+ * Get several cards by ID in one transaction. Missing IDs are skipped.
+ */
+export async function getCardRecords(cardIds: string[]): Promise<Card[]> {
+  if (useBackgroundProxy) return proxy({ op: 'getMany', cardIds });
+  const db = await getCardDatabase();
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  const records = await Promise.all(
+    cardIds.map(id => requestToPromise(store.get(id) as IDBRequest<CardRecord | undefined>))
+  );
+  return records.filter((r): r is CardRecord => !!r).map(fromRecord);
+}
+
+/**
+ * Insert or replace a card
+ */
+export async function putCard(card: Card): Promise<void> {
+  await putCards([card]);
+}
+
+/**
+ * Insert or replace several cards in one transaction
+ */
+export async function putCards(cards: Card[]): Promise<void> {
+  if (cards.length === 0) return;
+  if (useBackgroundProxy) return proxy({ op: 'put', cards });
+  const db = await getCardDatabase();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const store = tx.objectStore(STORE_NAME);
+  cards.forEach(card => store.put(toRecord(card)));
+  await transactionDone(tx);
+}
+
+/**
+ * Delete a card by ID (no-op if missing)
+ */
+export async function deleteCardRecord(cardId: string): Promise<void> {
+  await deleteCardRecords([cardId]);
+}
+
+/**
+ * Delete several cards in one transaction
+ */
+export async function deleteCardRecords(cardIds: string[]): Promise<void> {
+  if (cardIds.length === 0) return;
+  if (useBackgroundProxy) return proxy({ op: 'delete', cardIds });
+  const db = await getCardDatabase();
+  const tx = db.transaction([STORE_NAME, EMBEDDING_STORE_NAME], 'readwrite');
+  const store = tx.objectStore(STORE_NAME);
+  const embeddings = tx.objectStore(EMBEDDING_STORE_NAME);
+  cardIds.forEach(id => {
+    store.delete(id);
+    embeddings.delete(id);
+  });
+  await transactionDone(tx);
+}
+
+/**
+ * Get cards clipped from a domain
+ */
+export async function getCardsByDomain(domain: string): Promise<Card[]> {
+  if (useBackgroundProxy) return proxy({ op: 'byDomain', domain });
+  return readAll('domain', domain);
+}
+
+/**
+ * Get cards carrying a tag
+ */
+export async function getCardsByTag(tag: string): Promise<Card[]> {
+  if (useBackgroundProxy) return proxy({ op: 'byTag', tag });
+  return readAll('tags', tag);
+}
+
+/**
+ * Get stashed (or visible) cards
+ */
+export async function getCardsByStashed(stashed: boolean): Promise<Card[]> {
+  if (useBackgroundProxy) return proxy({ op: 'byStashed', stashed });
+  return readAll('stashed', stashed ? 1 : 0);
+}
+
+/**
+ * Get cards created in [start, end]
+ */
+export async function getCardsCreatedBetween(start: number, end: number): Promise<Card[]> {
+  if (useBackgroundProxy) return proxy({ op: 'createdBetween', start, end });
+  return readAll('createdAt', IDBKeyRange.bound(start, end));
+}
+
+/**
+ * Count all cards without loading them
+ */
+export async function countCards(): Promise<number> {
+  if (useBackgroundProxy) return proxy({ op: 'count' });
+  const db = await getCardDatabase();
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  return requestToPromise(store.count());
+}
+
+/**
+ * Remove every card. Used by "replace" imports and tests.
+ */
+export async function clearCards(): Promise<void> {
+  const db = await getCardDatabase();
+  const tx = db.transaction([STORE_NAME, EMBEDDING_STORE_NAME], 'readwrite');
+  tx.objectStore(STORE_NAME).clear();
+  tx.objectStore(EMBEDDING_STORE_NAME).clear();
+  await transactionDone(tx);
+}
+
+/**
+ * Empty every store: cards, trash, offloaded blobs, sync bookkeeping and
+ * embeddings. Sync records must go with the cards, or the next sync round
+ * would push a deletion for every card it remembers.
+ */
+export async function clearCardDatabase(): Promise<void> {
+  const db = await getCardDatabase();
+  const storeNames = [STORE_NAME, TRASH_STORE_NAME, BLOB_STORE_NAME, SYNC_STORE_NAME, EMBEDDING_STORE_NAME];
+  const tx = db.transaction(storeNames, 'readwrite');
+  storeNames.forEach(name => tx.objectStore(name).clear());
+  await transactionDone(tx);
+}
+
+/**
+ * Get every trash entry, oldest deletion first.
+ * Trash operations are not proxied; only extension pages and the
+ * background worker use them.
+ */
+export async function getTrashEntries(): Promise<TrashEntry[]> {
+  const db = await getCardDatabase();
+  const store = db.transaction(TRASH_STORE_NAME, 'readonly').objectStore(TRASH_STORE_NAME);
+  return requestToPromise(store.index('deletedAt').getAll() as IDBRequest<TrashEntry[]>);
+}
+
+/**
+ * Move cards into the trash in one transaction: each entry's card is
+ * removed from the cards store and the entry is written to the trash store
+ */
+export async function moveCardsToTrashStore(entries: TrashEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  const db = await getCardDatabase();
+  const tx = db.transaction([STORE_NAME, TRASH_STORE_NAME], 'readwrite');
+  const cards = tx.objectStore(STORE_NAME);
+  const trash = tx.objectStore(TRASH_STORE_NAME);
+  entries.forEach(entry => {
+    cards.delete(entry.id);
+    trash.put(entry);
+  });
+  await transactionDone(tx);
+}
+
+/**
+ * Move cards out of the trash in one transaction
+ *
+ * @returns The restored entries (missing IDs are skipped)
+ */
+export async function restoreCardsFromTrashStore(cardIds: string[]): Promise<TrashEntry[]> {
+  if (cardIds.length === 0) return [];
+  const db = await getCardDatabase();
+  const readStore = db.transaction(TRASH_STORE_NAME, 'readonly').objectStore(TRASH_STORE_NAME);
+  const entries = (
+    await Promise.all(cardIds.map(id => requestToPromise(readStore.get(id) as IDBRequest<TrashEntry | undefined>)))
+  ).filter((entry): entry is TrashEntry => !!entry);
+
+  const tx = db.transaction([STORE_NAME, TRASH_STORE_NAME], 'readwrite');
+  const cards = tx.objectStore(STORE_NAME);
+  const trash = tx.objectStore(TRASH_STORE_NAME);
+  entries.forEach(entry => {
+    cards.put(toRecord(entry.card));
+    trash.delete(entry.id);
+  });
+  await transactionDone(tx);
+  return entries;
+}
+
+/**
+ * Overwrite trash entries in place (the cards stay in the trash)
+ */
+export async function putTrashEntries(entries: TrashEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  const db = await getCardDatabase();
+  const tx = db.transaction(TRASH_STORE_NAME, 'readwrite');
+  const store = tx.objectStore(TRASH_STORE_NAME);
+  entries.forEach(entry => store.put(entry));
+  await transactionDone(tx);
+}
+
+/**
+ * Permanently delete trash entries
+ */
+export async function deleteTrashEntries(cardIds: string[]): Promise<void> {
+  if (cardIds.length === 0) return;
+  const db = await getCardDatabase();
+  const tx = db.transaction([TRASH_STORE_NAME, EMBEDDING_STORE_NAME], 'readwrite');
+  const store = tx.objectStore(TRASH_STORE_NAME);
+  const embeddings = tx.objectStore(EMBEDDING_STORE_NAME);
+  cardIds.forEach(id => {
+    store.delete(id);
+    embeddings.delete(id);
+  });
+  await transactionDone(tx);
+}
+
+/**
+ * Remove every trash entry
+ */
+export async function clearTrashEntries(): Promise<void> {
+  const db = await getCardDatabase();
+  const tx = db.transaction([TRASH_STORE_NAME, EMBEDDING_STORE_NAME], 'readwrite');
+  const trash = tx.objectStore(TRASH_STORE_NAME);
+  const embeddings = tx.objectStore(EMBEDDING_STORE_NAME);
+  const keys = trash.getAllKeys();
+  keys.onsuccess = () => {
+    keys.result.forEach(id => embeddings.delete(id));
+    trash.clear();
+  };
+  await transactionDone(tx);
+}
+
+/**
+ * Look up cached embeddings. Semantic search runs in extension pages only,
+ * so these are not proxied.
+ *
+ * @returns Map of card id to embedding (missing IDs are skipped)
+ */
+export async function getEmbeddings(cardIds: string[]): Promise<Map<string, CardEmbedding>> {
+  const embeddings = new Map<string, CardEmbedding>();
+  if (cardIds.length === 0) return embeddings;
+  const db = await getCardDatabase();
+  const store = db.transaction(EMBEDDING_STORE_NAME, 'readonly').objectStore(EMBEDDING_STORE_NAME);
+  const records = await Promise.all(
+    cardIds.map(id => requestToPromise(store.get(id) as IDBRequest<EmbeddingRecord | undefined>))
+  );
+  records.forEach(record => {
+    if (!record) return;
+    const { cardId, ...embedding } = record;
+    embeddings.set(cardId, embedding);
+  });
+  return embeddings;
+}
+
+export async function putEmbeddings(embeddings: Map<string, CardEmbedding>): Promise<void> {
+  if (embeddings.size === 0) return;
+  const db = await getCardDatabase();
+  const tx = db.transaction(EMBEDDING_STORE_NAME, 'readwrite');
+  const store = tx.objectStore(EMBEDDING_STORE_NAME);
+  embeddings.forEach((embedding, cardId) => store.put({ ...embedding, cardId }));
+  await transactionDone(tx);
+}
+
+/**
+ * Store offloaded data URLs by id. Blob operations are not proxied either.
+ */
+export async function putBlobs(blobs: Array<{ id: string; data: string }>): Promise<void> {
+  if (blobs.length === 0) return;
+  const db = await getCardDatabase();
+  const tx = db.transaction(BLOB_STORE_NAME, 'readwrite');
+  const store = tx.objectStore(BLOB_STORE_NAME);
+  blobs.forEach(blob => store.put(blob));
+  await transactionDone(tx);
+}
+
+/**
+ * Look up offloaded data URLs
+ *
+ * @returns Map of id to data URL (missing IDs are skipped)
+ */
+export async function getBlobs(ids: string[]): Promise<Map<string, string>> {
+  const blobs = new Map<string, string>();
+  if (ids.length === 0) return blobs;
+  const db = await getCardDatabase();
+  const store = db.transaction(BLOB_STORE_NAME, 'readonly').objectStore(BLOB_STORE_NAME);
+  const records = await Promise.all(
+    ids.map(id => requestToPromise(store.get(id) as IDBRequest<{ id: string; data: string } | undefined>))
+  );
+  records.forEach(record => {
+    if (record) blobs.set(record.id, record.data);
+  });
+  return blobs;
+}
+
+/**
+ * Every stored blob id
+ */
+export async function getBlobIds(): Promise<string[]> {
+  const db = await getCardDatabase();
+  const store = db.transaction(BLOB_STORE_NAME, 'readonly').objectStore(BLOB_STORE_NAME);
+  return requestToPromise(store.getAllKeys() as IDBRequest<string[]>);
+}
+
+export async function deleteBlobs(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const db = await getCardDatabase();
+  const tx = db.transaction(BLOB_STORE_NAME, 'readwrite');
+  const store = tx.objectStore(BLOB_STORE_NAME);
+  ids.forEach(id => store.delete(id));
+  await transactionDone(tx);
+}
+
+/**
+ * Every sync record. Sync runs in extension pages and the background worker
+ * only, so these are not proxied.
+ */
+export async function getSyncRecords(): Promise<SyncRecord[]> {
+  const db = await getCardDatabase();
+  const store = db.transaction(SYNC_STORE_NAME, 'readonly').objectStore(SYNC_STORE_NAME);
+  return requestToPromise(store.getAll() as IDBRequest<SyncRecord[]>);
+}
+
+export async function putSyncRecords(records: SyncRecord[]): Promise<void> {
+  if (records.length === 0) return;
+  const db = await getCardDatabase();
+  const tx = db.transaction(SYNC_STORE_NAME, 'readwrite');
+  const store = tx.objectStore(SYNC_STORE_NAME);
+  records.forEach(record => store.put(record));
+  await transactionDone(tx);
+}
+
+export async function clearSyncRecords(): Promise<void> {
+  const db = await getCardDatabase();
+  const tx = db.transaction(SYNC_STORE_NAME, 'readwrite');
+  tx.objectStore(SYNC_STORE_NAME).clear();
+  await transactionDone(tx);
+}
+
+/**
+ * Execute a proxied request against the local database.
+ * Called by the background worker on behalf of content scripts.
+ */
+export async function handleCardRepositoryRequest(request: CardRepositoryRequest): Promise<unknown> {
+  switch (request.op) {
+    case 'getAll':
+      return readAll('createdAt');
+    case 'get':
+      return getCardRecord(request.cardId);
+    case 'getMany':
+      return getCardRecords(request.cardIds);
+    case 'put':
+      return putCards(request.cards);
+    case 'delete':
+      return deleteCardRecords(request.cardIds);
+    case 'byDomain':
+      return getCardsByDomain(request.domain);
+    case 'byTag':
+      return getCardsByTag(request.tag);
+    case 'byStashed':
+      return getCardsByStashed(request.stashed);
+    case 'createdBetween':
+      return getCardsCreatedBetween(request.start, request.end);
+    case 'count':
+      return countCards();
+    default:
+      throw new Error(`Unknown card repository operation: ${(request as { op: string }).op}`);
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Smart collection storage utilities
+ */
+
+import type { SmartCollection } from '@/types/collection';
+
+const COLLECTIONS_KEY = 'nabokov_smart_collections';
+
+/**
+ * Save all smart collections to chrome.storage.local
+ */
+export async function saveCollections(collections: SmartCollection[]): Promise<void> {
+  try {
+    await chrome.storage.local.set({ [COLLECTIONS_KEY]: collections });
+  } catch (error) {
+    console.error('[collectionStorage] Error saving collections:', error);
+    throw error;
+  }
+}
+
+/**
+ * Load all smart collections from chrome.storage.local
+ */
+export async function loadCollections(): Promise<SmartCollection[]> {
+  try {
+    const result = await chrome.storage.local.get(COLLECTIONS_KEY);
+    return result[COLLECTIONS_KEY] || [];
+  } catch (error) {
+    console.error('[collectionStorage] Error loading collections:', error);
+    return [];
+  }
+}
@@ -28,6 +28,19 @@ export async function getAllLinks(): Promise<ExpandableLink[]> {
   }
 }
 
+/**
+ * Replace all expandable links (used by workspace import)
+ */
+export async function saveAllLinks(links: ExpandableLink[]): Promise<void> {
+  try {
+    await chrome.storage.local.set({ [STORAGE_KEY]: links });
+    console.log(`[expandableLinks] Saved ${links.length} links`);
+  } catch (error) {
+    console.error('[expandableLinks] Error saving links:', error);
+    throw error;
+  }
+}
+
 /**
  * Get links for a specific parent card
  */
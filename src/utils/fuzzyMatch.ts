@@ -0,0 +1,65 @@
+/**
+ * Fuzzy matching for quick-open style finders
+ */
+
+export interface FuzzyMatch {
+  score: number;
+  /** Indices of the matched characters in the text, for highlighting */
+  indices: number[];
+}
+
+/**
+ * Match query characters in order anywhere in the text (case-insensitive).
+ * Consecutive runs, word starts and early matches score higher.
+ *
+ * @returns null when some query character cannot be matched
+ */
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return { score: 0, indices: [] };
+
+  const haystack = text.toLowerCase();
+  const indices: number[] = [];
+  let score = 0;
+  let from = 0;
+
+  for (const char of needle) {
+    if (char === ' ') continue;
+    const index = haystack.indexOf(char, from);
+    if (index === -1) return null;
+
+    const previous = indices[indices.length - 1];
+    score += 1;
+    if (previous !== undefined && index === previous + 1) score += 5;
+    if (index === 0 || /[\s\-_/.:]/.test(haystack[index - 1])) score += 3;
+
+    indices.push(index);
+    from = index + 1;
+  }
+
+  // Prefer matches that start early and texts that are short
+  score -= indices[0] * 0.1 + haystack.length * 0.01;
+  return { score, indices };
+}
+
+/**
+ * Rank items by their best-matching text, dropping items that don't match
+ */
+export function fuzzyFilter<T>(
+  query: string,
+  items: T[],
+  getTexts: (item: T) => string[]
+): Array<{ item: T; match: FuzzyMatch; text: string }> {
+  const results: Array<{ item: T; match: FuzzyMatch; text: string }> = [];
+
+  for (const item of items) {
+    let best: { match: FuzzyMatch; text: string } | null = null;
+    for (const text of getTexts(item)) {
+      const match = fuzzyMatch(query, text);
+      if (match && (!best || match.score > best.match.score)) best = { match, text };
+    }
+    if (best) results.push({ item, ...best });
+  }
+
+  return results.sort((a, b) => b.match.score - a.match.score);
+}
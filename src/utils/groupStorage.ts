@@ -0,0 +1,32 @@
+/**
+ * Group frame storage utilities
+ */
+
+import type { CanvasGroup } from '@/types/group';
+
+const GROUPS_KEY = 'nabokov_canvas_groups';
+
+/**
+ * Save all group frames to chrome.storage.local
+ */
+export async function saveGroups(groups: CanvasGroup[]): Promise<void> {
+  try {
+    await chrome.storage.local.set({ [GROUPS_KEY]: groups });
+  } catch (error) {
+    console.error('[groupStorage] Error saving groups:', error);
+    throw error;
+  }
+}
+
+/**
+ * Load all group frames from chrome.storage.local
+ */
+export async function loadGroups(): Promise<CanvasGroup[]> {
+  try {
+    const result = await chrome.storage.local.get(GROUPS_KEY);
+    return result[GROUPS_KEY] || [];
+  } catch (error) {
+    console.error('[groupStorage] Error loading groups:', error);
+    return [];
+  }
+}
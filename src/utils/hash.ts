@@ -0,0 +1,12 @@
+/**
+ * Short non-cryptographic content hash (FNV-1a plus length), used for
+ * content-derived ids and cheap change detection
+ */
+export function hashString(data: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < data.length; i++) {
+    hash ^= data.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(36)}-${data.length.toString(36)}`;
+}
@@ -0,0 +1,72 @@
+/**
+ * Hybrid logical clock
+ *
+ * Timestamps combine wall-clock milliseconds, a counter for events within the
+ * same millisecond, and the node id as a tiebreaker. They are encoded as
+ * fixed-width strings so plain string comparison orders them.
+ */
+
+const WALL_WIDTH = 15;
+const COUNTER_WIDTH = 5;
+
+export interface HlcTimestamp {
+  wall: number;
+  counter: number;
+  nodeId: string;
+}
+
+export function formatHlc({ wall, counter, nodeId }: HlcTimestamp): string {
+  return `${String(wall).padStart(WALL_WIDTH, '0')}:${String(counter).padStart(COUNTER_WIDTH, '0')}:${nodeId}`;
+}
+
+export function parseHlc(value: string): HlcTimestamp {
+  const [wall, counter, ...nodeId] = value.split(':');
+  const parsed = { wall: Number(wall), counter: Number(counter), nodeId: nodeId.join(':') };
+  if (!Number.isFinite(parsed.wall) || !Number.isFinite(parsed.counter)) {
+    throw new Error(`Invalid HLC timestamp: ${value}`);
+  }
+  return parsed;
+}
+
+/**
+ * Negative, zero or positive as `a` is before, equal to or after `b`.
+ * An empty string sorts before every timestamp.
+ */
+export function compareHlc(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Next timestamp for a local event
+ */
+export function tickHlc(last: string | null, nodeId: string, now: number = Date.now()): string {
+  const previous = last ? parseHlc(last) : null;
+  if (!previous || now > previous.wall) {
+    return formatHlc({ wall: now, counter: 0, nodeId });
+  }
+  return formatHlc({ wall: previous.wall, counter: previous.counter + 1, nodeId });
+}
+
+/**
+ * Advance the local clock past a timestamp received from another node
+ */
+export function receiveHlc(
+  last: string | null,
+  remote: string,
+  nodeId: string,
+  now: number = Date.now()
+): string {
+  const previous = last ? parseHlc(last) : { wall: 0, counter: 0 };
+  const incoming = parseHlc(remote);
+  const wall = Math.max(now, previous.wall, incoming.wall);
+
+  let counter = 0;
+  if (wall === previous.wall && wall === incoming.wall) {
+    counter = Math.max(previous.counter, incoming.counter) + 1;
+  } else if (wall === previous.wall) {
+    counter = previous.counter + 1;
+  } else if (wall === incoming.wall) {
+    counter = incoming.counter + 1;
+  }
+  return formatHlc({ wall, counter, nodeId });
+}
@@ -0,0 +1,152 @@
+/**
+ * HTML to Markdown conversion for card exports
+ *
+ * Handles the subset of HTML that survives sanitization (see sanitization.ts):
+ * headings, paragraphs, emphasis, links, lists, quotes, code, tables and
+ * images. Unknown elements are unwrapped to their text.
+ */
+
+export interface HtmlToMarkdownOptions {
+  /**
+   * Rewrite an image source. Return the Markdown to emit in place of the
+   * image, or undefined to emit a standard `![alt](src)`.
+   */
+  resolveImage?: (src: string, alt: string) => string | undefined;
+}
+
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'header', 'footer', 'main', 'aside', 'nav',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'blockquote', 'pre',
+  'table', 'figure', 'figcaption', 'hr', 'dl', 'dt', 'dd',
+]);
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]])/g, '\\$1');
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ');
+}
+
+function convertChildren(node: Node, options: HtmlToMarkdownOptions): string {
+  return Array.from(node.childNodes).map(child => convertNode(child, options)).join('');
+}
+
+function convertInline(node: Node, options: HtmlToMarkdownOptions): string {
+  return collapseWhitespace(convertChildren(node, options)).trim();
+}
+
+function convertList(element: Element, ordered: boolean, options: HtmlToMarkdownOptions): string {
+  const items = Array.from(element.children).filter(child => child.tagName.toLowerCase() === 'li');
+  const lines = items.map((item, index) => {
+    const marker = ordered ? `${index + 1}. ` : '- ';
+    const body = convertChildren(item, options).trim().replace(/\n{2,}/g, '\n');
+    const indented = body.split('\n').join(`\n${' '.repeat(marker.length)}`);
+    return `${marker}${indented}`;
+  });
+  return `\n\n${lines.join('\n')}\n\n`;
+}
+
+function convertTable(element: Element, options: HtmlToMarkdownOptions): string {
+  const rows = Array.from(element.querySelectorAll('tr')).map(row =>
+    Array.from(row.children).map(cell => convertInline(cell, options).replace(/\|/g, '\\|'))
+  );
+  if (rows.length === 0) return '';
+
+  const width = Math.max(...rows.map(row => row.length));
+  const pad = (row: string[]) => [...row, ...Array(width - row.length).fill('')];
+  const lines = [
+    `| ${pad(rows[0]).join(' | ')} |`,
+    `| ${Array(width).fill('---').join(' | ')} |`,
+    ...rows.slice(1).map(row => `| ${pad(row).join(' | ')} |`),
+  ];
+  return `\n\n${lines.join('\n')}\n\n`;
+}
+
+function convertNode(node: Node, options: HtmlToMarkdownOptions): string {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return escapeMarkdown(collapseWhitespace(node.textContent || ''));
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) {
+    return '';
+  }
+
+  const element = node as Element;
+  const tag = element.tagName.toLowerCase();
+
+  switch (tag) {
+    case 'script':
+    case 'style':
+    case 'noscript':
+      return '';
+    case 'br':
+      return '  \n';
+    case 'hr':
+      return '\n\n---\n\n';
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+      return `\n\n${'#'.repeat(Number(tag[1]))} ${convertInline(element, options)}\n\n`;
+    case 'strong':
+    case 'b': {
+      const text = convertInline(element, options);
+      return text ? `**${text}**` : '';
+    }
+    case 'em':
+    case 'i': {
+      const text = convertInline(element, options);
+      return text ? `*${text}*` : '';
+    }
+    case 'del':
+    case 's':
+      return `~~${convertInline(element, options)}~~`;
+    case 'code':
+      if (element.parentElement?.tagName.toLowerCase() === 'pre') {
+        return element.textContent || '';
+      }
+      return `\`${element.textContent || ''}\``;
+    case 'pre': {
+      const language = element.querySelector('code')?.className.match(/language-(\S+)/)?.[1] ?? '';
+      return `\n\n\`\`\`${language}\n${(element.textContent || '').replace(/\n$/, '')}\n\`\`\`\n\n`;
+    }
+    case 'a': {
+      const text = convertInline(element, options);
+      const href = element.getAttribute('href');
+      return href && text ? `[${text}](${href})` : text;
+    }
+    case 'img': {
+      const src = element.getAttribute('src') || '';
+      const alt = element.getAttribute('alt') || '';
+      if (!src) return '';
+      return options.resolveImage?.(src, alt) ?? `![${escapeMarkdown(alt)}](${src})`;
+    }
+    case 'ul':
+      return convertList(element, false, options);
+    case 'ol':
+      return convertList(element, true, options);
+    case 'blockquote': {
+      const body = convertChildren(element, options).trim();
+      return `\n\n${body.split('\n').map(line => `> ${line}`).join('\n')}\n\n`;
+    }
+    case 'table':
+      return convertTable(element, options);
+    default: {
+      const body = convertChildren(element, options);
+      return BLOCK_TAGS.has(tag) ? `\n\n${body.trim()}\n\n` : body;
+    }
+  }
+}
+
+/**
+ * Convert an HTML fragment to Markdown
+ */
+export function htmlToMarkdown(html: string, options: HtmlToMarkdownOptions = {}): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return convertChildren(doc.body, options)
+    .replace(/[ \t]+\n/g, (match) => (match.startsWith('  ') ? '  \n' : '\n'))
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -58,6 +58,40 @@ export function getImageDimensions(dataUrl: string): Promise<{ width: number; he
   });
 }
 
+/**
+ * Downscale an image so its longest side fits `maxDimension` and re-encode it.
+ * PNGs stay PNG (they may have transparency); everything else becomes JPEG.
+ */
+export async function compressImageDataUrl(
+  dataUrl: string,
+  maxDimension: number,
+  quality: number
+): Promise<{ dataUrl: string; mimeType: string; width: number; height: number }> {
+  const dimensions = await getImageDimensions(dataUrl);
+  const scale = Math.min(1, maxDimension / Math.max(dimensions.width, dimensions.height));
+  const width = Math.max(1, Math.round(dimensions.width * scale));
+  const height = Math.max(1, Math.round(dimensions.height * scale));
+
+  const img = new Image();
+  await new Promise<void>((resolve, reject) => {
+    img.onload = () => resolve();
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = dataUrl;
+  });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context unavailable');
+  }
+  context.drawImage(img, 0, 0, width, height);
+
+  const mimeType = dataUrl.startsWith('data:image/png') ? 'image/png' : 'image/jpeg';
+  return { dataUrl: canvas.toDataURL(mimeType, quality), mimeType, width, height };
+}
+
 /**
  * Calculate card size based on image dimensions
  * Scales image to fit within canvas while maintaining aspect ratio
@@ -8,6 +8,7 @@ import type { GenerationResult } from '@/services/childCardGenerator';
 import type { TextSelection } from './textSelection';
 import { generateId, saveCard } from './storage';
 import { addConnection } from './connectionStorage';
+import { findFreePosition, placeGeneratedCard } from '@/shared/services/layoutService';
 
 export interface InstantExpansionOptions {
   parentCard: Card;
@@ -16,6 +17,8 @@ export interface InstantExpansionOptions {
   generationType: string;
 }
 
+const CHILD_SIZE = { width: 360, height: 280 };
+
 /**
  * Calculate position for child card
  * Places 400px to the right of parent, same Y-coordinate
@@ -45,8 +48,8 @@ async function createChildCard(options: InstantExpansionOptions): Promise<Card>
       favicon: parentCard.metadata.favicon, // Inherit favicon
       timestamp: Date.now(),
     },
-    position: calculateChildPosition(parentCard),
-    size: { width: 360, height: 280 }, // Default child size
+    position: await placeGeneratedCard(parentCard, CHILD_SIZE),
+    size: CHILD_SIZE, // Default child size
     starred: false,
     tags: generationResult.tags,
     createdAt: Date.now(),
@@ -172,44 +175,19 @@ export function isPositionOccupied(
 
 /**
  * Find next available position near parent
- * Searches in spiral pattern if default position is occupied
+ * Searches below, above, then further right for a slot that overlaps no card
  */
 export function findAvailablePosition(
   parentCard: Card,
   allCards: Card[]
 ): { x: number; y: number } {
-  const basePosition = calculateChildPosition(parentCard);
-
-  // Check if base position is available
-  if (!isPositionOccupied(basePosition, allCards)) {
-    return basePosition;
-  }
-
-  // Spiral search for available position
-  const spiralOffsets = [
-    { x: 0, y: 100 },    // Below
-    { x: 0, y: -100 },   // Above
-    { x: 400, y: 100 },  // Below-right
-    { x: 400, y: -100 }, // Above-right
-    { x: 800, y: 0 },    // Far right
-    { x: 800, y: 100 },  // Far below-right
-    { x: 800, y: -100 }, // Far above-right
-  ];
-
-  for (const offset of spiralOffsets) {
-    const candidatePosition = {
-      x: basePosition.x + offset.x,
-      y: basePosition.y + offset.y,
-    };
-
-    if (!isPositionOccupied(candidatePosition, allCards)) {
-      return candidatePosition;
-    }
-  }
-
-  // Fallback: random offset
-  return {
-    x: basePosition.x + Math.random() * 200,
-    y: basePosition.y + Math.random() * 200 - 100,
-  };
+  const obstacles = allCards
+    .filter((card) => card.position)
+    .map((card) => ({
+      ...card.position!,
+      width: card.size?.width ?? 320,
+      height: card.size?.height ?? 240,
+    }));
+
+  return findFreePosition(CHILD_SIZE, obstacles, calculateChildPosition(parentCard));
 }
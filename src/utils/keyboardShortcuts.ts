@@ -7,10 +7,12 @@
 
 export type ShortcutCategory = 'navigation' | 'canvas' | 'filters' | 'view';
 
+export type ShortcutModifier = 'ctrl' | 'alt' | 'shift' | 'meta' | 'meta+shift';
+
 export interface KeyboardShortcut {
   id: string;
   key: string;
-  modifier?: 'ctrl' | 'alt' | 'shift' | 'meta';
+  modifier?: ShortcutModifier;
   description: string;
   category: ShortcutCategory;
   handler: () => void;
@@ -20,7 +22,7 @@ export interface KeyboardShortcut {
 export interface ShortcutConfig {
   [key: string]: {
     key: string;
-    modifier?: 'ctrl' | 'alt' | 'shift' | 'meta';
+    modifier?: ShortcutModifier;
     enabled: boolean;
   };
 }
@@ -54,6 +56,8 @@ export function formatModifier(modifier?: string): string {
       return 'Shift';
     case 'meta':
       return isMac() ? 'Cmd' : 'Ctrl';
+    case 'meta+shift':
+      return isMac() ? 'Cmd+Shift' : 'Ctrl+Shift';
     default:
       return modifier;
   }
@@ -87,6 +91,10 @@ export function matchesShortcut(
   if (shortcut.modifier === 'alt' && !event.altKey) return false;
   if (shortcut.modifier === 'shift' && !event.shiftKey) return false;
   if (shortcut.modifier === 'meta' && !(event.metaKey || event.ctrlKey)) return false;
+  if (shortcut.modifier === 'meta+shift' && !((event.metaKey || event.ctrlKey) && event.shiftKey)) return false;
+
+  // Cmd+Shift+Z is redo, so a plain Cmd shortcut must not fire with Shift held
+  if (shortcut.modifier === 'meta' && event.shiftKey) return false;
 
   // Ensure no other modifiers are pressed (unless it's part of the shortcut)
   if (!shortcut.modifier) {
@@ -121,6 +129,14 @@ export const DEFAULT_SHORTCUTS: Record<string, Omit<KeyboardShortcut, 'handler'>
     category: 'navigation',
     enabled: true,
   },
+  goToCard: {
+    id: 'goToCard',
+    key: 'p',
+    modifier: 'meta',
+    description: 'Go to card',
+    category: 'navigation',
+    enabled: true,
+  },
   toggleFilter: {
     id: 'toggleFilter',
     key: 'f',
@@ -137,6 +153,22 @@ export const DEFAULT_SHORTCUTS: Record<string, Omit<KeyboardShortcut, 'handler'>
     category: 'canvas',
     enabled: true,
   },
+  undo: {
+    id: 'undo',
+    key: 'z',
+    modifier: 'meta',
+    description: 'Undo last change',
+    category: 'canvas',
+    enabled: true,
+  },
+  redo: {
+    id: 'redo',
+    key: 'z',
+    modifier: 'meta+shift',
+    description: 'Redo last undone change',
+    category: 'canvas',
+    enabled: true,
+  },
   toggleConnectionMode: {
     id: 'toggleConnectionMode',
     key: 'c',
@@ -158,6 +190,22 @@ export const DEFAULT_SHORTCUTS: Record<string, Omit<KeyboardShortcut, 'handler'>
     category: 'canvas',
     enabled: true,
   },
+  groupSelection: {
+    id: 'groupSelection',
+    key: 'g',
+    modifier: 'meta',
+    description: 'Group selected cards',
+    category: 'canvas',
+    enabled: true,
+  },
+  ungroupSelection: {
+    id: 'ungroupSelection',
+    key: 'g',
+    modifier: 'meta+shift',
+    description: 'Ungroup selection',
+    category: 'canvas',
+    enabled: true,
+  },
   escape: {
     id: 'escape',
     key: 'Escape',
@@ -202,6 +250,13 @@ export const DEFAULT_SHORTCUTS: Record<string, Omit<KeyboardShortcut, 'handler'>
     category: 'view',
     enabled: true,
   },
+  toggleMiniMap: {
+    id: 'toggleMiniMap',
+    key: 'm',
+    description: 'Toggle minimap',
+    category: 'view',
+    enabled: true,
+  },
   tag1: {
     id: 'tag1',
     key: '1',
@@ -0,0 +1,105 @@
+/**
+ * Revision log storage
+ *
+ * Revisions live in chrome.storage.local under one key per card, capped at
+ * MAX_REVISIONS_PER_CARD (the 'original' revision is never dropped). Kept
+ * apart from revisionService so the trash and the history can read and
+ * append revisions without importing the service (which records undo steps).
+ */
+
+import type { Card, CardRevision, RevisionAuthor, RevisionCause } from '@/types/card';
+import { generateId } from '@/utils/storage';
+
+export const MAX_REVISIONS_PER_CARD = 30;
+
+/**
+ * Prefix of every chrome.storage.local key holding a card's revisions
+ */
+export const REVISIONS_KEY_PREFIX = 'nabokov_revisions_';
+
+export function revisionsKey(cardId: string): string {
+  return `${REVISIONS_KEY_PREFIX}${cardId}`;
+}
+
+/**
+ * Drop a card's revision log
+ */
+export async function clearRevisions(cardId: string): Promise<void> {
+  await chrome.storage.local.remove(revisionsKey(cardId));
+}
+
+export type RevisionContent = Pick<CardRevision, 'title' | 'content' | 'beautifiedContent'>;
+
+export function snapshotRevision(card: Card, cause: RevisionCause, author: RevisionAuthor): CardRevision {
+  return {
+    id: generateId(),
+    cardId: card.id,
+    timestamp: card.updatedAt ?? Date.now(),
+    author,
+    cause,
+    title: card.metadata?.title ?? '',
+    content: card.content,
+    originalHTML: card.originalHTML,
+    beautifiedContent: card.beautifiedContent,
+    beautificationMode: card.beautificationMode,
+  };
+}
+
+function sameContent(a: RevisionContent, b: RevisionContent): boolean {
+  return a.content === b.content && a.beautifiedContent === b.beautifiedContent && a.title === b.title;
+}
+
+/**
+ * Get a card's revisions, oldest first
+ */
+export async function getRevisions(cardId: string): Promise<CardRevision[]> {
+  const key = revisionsKey(cardId);
+  const result = await chrome.storage.local.get(key);
+  return Array.isArray(result[key]) ? result[key] : [];
+}
+
+export async function saveRevisions(cardId: string, revisions: CardRevision[]): Promise<void> {
+  // Keep the original plus the most recent revisions
+  if (revisions.length > MAX_REVISIONS_PER_CARD) {
+    const [first, ...rest] = revisions;
+    revisions = first.cause === 'original'
+      ? [first, ...rest.slice(-(MAX_REVISIONS_PER_CARD - 1))]
+      : revisions.slice(-MAX_REVISIONS_PER_CARD);
+  }
+  await chrome.storage.local.set({ [revisionsKey(cardId)]: revisions });
+  window.dispatchEvent(new CustomEvent('nabokov:revisions-updated', { detail: { cardId } }));
+}
+
+/**
+ * Append a revision for a card whose content just changed
+ *
+ * @param card The card as saved
+ * @param previous The card before the change; recorded as the 'original'
+ *   revision if the log is still empty
+ */
+export async function recordRevision(
+  card: Card,
+  cause: RevisionCause,
+  author: RevisionAuthor,
+  previous?: Card
+): Promise<void> {
+  try {
+    const revisions = await getRevisions(card.id);
+    const next = snapshotRevision(card, cause, author);
+
+    if (revisions.length === 0 && previous) {
+      const original = snapshotRevision(previous, 'original', previous.cardType === 'generated' ? 'ai' : 'user');
+      if (!sameContent(original, next)) {
+        revisions.push(original);
+      }
+    }
+
+    const latest = revisions[revisions.length - 1];
+    if (latest && sameContent(latest, next)) return;
+
+    revisions.push(next);
+    await saveRevisions(card.id, revisions);
+  } catch (error) {
+    console.error('[revisionService] Failed to record revision:', error);
+  }
+}
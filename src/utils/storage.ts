@@ -1,13 +1,20 @@
 /**
  * Storage utilities for Nabokov Web Clipper
  *
- * Handles storage of clipped cards in chrome.storage.local
+ * Thin wrappers over the IndexedDB card repository (see cardRepository.ts).
+ * Each card is stored as its own record, so saving or deleting one card no
+ * longer rewrites the whole collection.
  */
 
 import type { Card } from '@/types';
+import { getAllCards, getCardRecord, putCard, deleteCardRecord } from './cardRepository';
+import { DEFAULT_BOARD_ID, loadActiveBoardId } from './boardStorage';
 
 /**
- * Saves a card to chrome.storage.local
+ * Saves a card to the card repository
+ *
+ * New cards headed for the canvas without a board land on the board the
+ * canvas is showing.
  *
  * @param card - The card to save
  * @returns Promise that resolves when saved
@@ -25,24 +32,13 @@ import type { Card } from '@/types';
  */
 export async function saveCard(card: Card): Promise<void> {
   try {
-    // Get existing cards
-    const result = await chrome.storage.local.get('cards');
-    const cards: Card[] = result.cards || [];
-
-    // Check if card already exists (by id)
-    const existingIndex = cards.findIndex(c => c.id === card.id);
-
-    if (existingIndex >= 0) {
-      // Update existing card
-      cards[existingIndex] = card;
-    } else {
-      // Add new card
-      cards.push(card);
+    if (card.boardIds === undefined && !card.stashed && !(await getCardRecord(card.id))) {
+      const boardId = await loadActiveBoardId();
+      if (boardId !== DEFAULT_BOARD_ID) {
+        card = { ...card, boardIds: [boardId] };
+      }
     }
-
-    // Save back to storage
-    await chrome.storage.local.set({ cards });
-
+    await putCard(card);
     console.log('[storage] Card saved successfully:', card.id);
   } catch (error) {
     console.error('[storage] Error saving card:', error);
@@ -51,7 +47,7 @@ export async function saveCard(card: Card): Promise<void> {
 }
 
 /**
- * Retrieves all cards from chrome.storage.local
+ * Retrieves all cards from the card repository
  *
  * @returns Promise resolving to array of cards
  *
@@ -63,8 +59,7 @@ export async function saveCard(card: Card): Promise<void> {
  */
 export async function getCards(): Promise<Card[]> {
   try {
-    const result = await chrome.storage.local.get('cards');
-    return result.cards || [];
+    return await getAllCards();
   } catch (error) {
     console.error('[storage] Error getting cards:', error);
     return [];
@@ -72,31 +67,29 @@ export async function getCards(): Promise<Card[]> {
 }
 
 /**
- * Gets a single card by ID from chrome.storage.local
+ * Gets a single card by ID from the card repository
  *
  * @param cardId - The ID of the card to get
  * @returns Promise that resolves with the card or undefined if not found
  */
 export async function getCardById(cardId: string): Promise<Card | undefined> {
-  const cards = await getCards();
-  return cards.find(c => c.id === cardId);
+  try {
+    return await getCardRecord(cardId);
+  } catch (error) {
+    console.error('[storage] Error getting card:', error);
+    return undefined;
+  }
 }
 
 /**
- * Deletes a card from chrome.storage.local
+ * Deletes a card from the card repository
  *
  * @param cardId - The ID of the card to delete
  * @returns Promise that resolves when deleted
  */
 export async function deleteCard(cardId: string): Promise<void> {
   try {
-    const result = await chrome.storage.local.get('cards');
-    const cards: Card[] = result.cards || [];
-
-    const filteredCards = cards.filter(c => c.id !== cardId);
-
-    await chrome.storage.local.set({ cards: filteredCards });
-
+    await deleteCardRecord(cardId);
     console.log('[storage] Card deleted successfully:', cardId);
   } catch (error) {
     console.error('[storage] Error deleting card:', error);
@@ -111,4 +104,4 @@ export async function deleteCard(cardId: string): Promise<void> {
  */
 export function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-}
\ No newline at end of file
+}
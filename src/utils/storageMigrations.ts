@@ -0,0 +1,195 @@
+/**
+ * Storage schema migrations for Nabokov Web Clipper
+ *
+ * The schema version is stamped into chrome.storage.local under
+ * STORAGE_VERSION_KEY. On install/update the background worker calls
+ * runStorageMigrations(), which applies every step newer than the stamped
+ * version in ascending order and re-stamps after each one.
+ *
+ * Steps must be idempotent: if the worker is killed between a step finishing
+ * and the version being written, the step runs again on the next update.
+ */
+
+import type { Card } from '@/types/card';
+import type { ElementChatsStorage } from '@/types/elementChat';
+import { ELEMENT_CHATS_KEY_PREFIX } from '@/services/elementChatService';
+import { getAllCards, importLegacyCards, putCards } from './cardRepository';
+
+/** chrome.storage.local key holding the current schema version */
+export const STORAGE_VERSION_KEY = 'nabokov_storage_version';
+
+/**
+ * A single ordered schema upgrade
+ */
+export interface StorageMigration {
+  /** Schema version this step upgrades storage to */
+  version: number;
+  /** Human-readable summary, logged when the step runs */
+  description: string;
+  /** Performs the upgrade. Must be safe to run more than once. */
+  migrate: () => Promise<void>;
+}
+
+/**
+ * Outcome of a migration run
+ */
+export interface StorageMigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  applied: number[];
+}
+
+/** Multi-element clips used to store this description in place of a CSS selector */
+const DESCRIPTIVE_SELECTOR_PATTERN = /^\d+ elements combined$/;
+
+/**
+ * v1: Move the legacy `cards` array from chrome.storage.local into IndexedDB.
+ * A failed import rejects, so the version is not advanced and the next run
+ * retries it.
+ */
+export async function migrateLegacyCardArray(): Promise<void> {
+  await importLegacyCards();
+}
+
+/**
+ * v2: Drop `Card.styles`. Computed styles were captured at clip time but are
+ * never rendered, and they inflate every record.
+ */
+export async function dropUnusedCardStyles(): Promise<void> {
+  const cards = await getAllCards();
+  const updated: Card[] = cards
+    .filter(card => 'styles' in card)
+    .map(({ styles: _styles, ...card }) => card);
+
+  await putCards(updated);
+  console.log(`[storageMigrations] Removed styles from ${updated.length} cards`);
+}
+
+/**
+ * v3: Remove non-selector values from `ClipMetadata.selector`. Multi-element
+ * clips stored "N elements combined" there, which breaks selector lookups.
+ */
+export async function normalizeClipSelectors(): Promise<void> {
+  const cards = await getAllCards();
+  const updated: Card[] = [];
+
+  for (const card of cards) {
+    const selector = card.metadata?.selector;
+    if (selector === undefined) continue;
+
+    if (!selector.trim() || DESCRIPTIVE_SELECTOR_PATTERN.test(selector)) {
+      const { selector: _selector, ...metadata } = card.metadata;
+      updated.push({ ...card, metadata });
+    }
+  }
+
+  await putCards(updated);
+  console.log(`[storageMigrations] Normalized selectors on ${updated.length} cards`);
+}
+
+/**
+ * v4: Give every element chat window an explicit `collapseState`, derived
+ * from the deprecated boolean `collapsed` when missing, and keep the boolean
+ * mirror consistent with it.
+ */
+export async function migrateChatWindowCollapseState(): Promise<void> {
+  const all = await chrome.storage.local.get(null);
+  const changes: Record<string, ElementChatsStorage> = {};
+
+  for (const [key, value] of Object.entries(all)) {
+    if (!key.startsWith(ELEMENT_CHATS_KEY_PREFIX) || !value?.sessions) continue;
+
+    const storage = value as ElementChatsStorage;
+    let changed = false;
+
+    for (const session of Object.values(storage.sessions)) {
+      const windowState = session.windowState;
+      if (!windowState) continue;
+
+      if (!windowState.collapseState) {
+        windowState.collapseState = windowState.collapsed ? 'rectangle' : 'expanded';
+        changed = true;
+      }
+
+      const collapsed = windowState.collapseState !== 'expanded';
+      if (windowState.collapsed !== collapsed) {
+        windowState.collapsed = collapsed;
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      changes[key] = storage;
+    }
+  }
+
+  if (Object.keys(changes).length > 0) {
+    await chrome.storage.local.set(changes);
+  }
+  console.log(`[storageMigrations] Migrated collapse state for ${Object.keys(changes).length} pages`);
+}
+
+/**
+ * Ordered list of schema upgrades. Append new steps; never renumber.
+ */
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  { version: 1, description: 'Move legacy cards array into IndexedDB', migrate: migrateLegacyCardArray },
+  { version: 2, description: 'Drop unused Card.styles', migrate: dropUnusedCardStyles },
+  { version: 3, description: 'Remove descriptive values from ClipMetadata.selector', migrate: normalizeClipSelectors },
+  { version: 4, description: 'Derive ChatWindowState.collapseState from deprecated collapsed', migrate: migrateChatWindowCollapseState },
+];
+
+/** Latest schema version known to this build */
+export const CURRENT_STORAGE_VERSION = STORAGE_MIGRATIONS[STORAGE_MIGRATIONS.length - 1].version;
+
+/**
+ * Read the stamped schema version (0 when storage predates versioning)
+ */
+export async function getStorageVersion(): Promise<number> {
+  const result = await chrome.storage.local.get(STORAGE_VERSION_KEY);
+  const version = result[STORAGE_VERSION_KEY];
+  return typeof version === 'number' ? version : 0;
+}
+
+/**
+ * Apply every pending migration in version order.
+ * Stops at the first failing step, leaving the version at the last success.
+ */
+export async function runStorageMigrations(
+  migrations: StorageMigration[] = STORAGE_MIGRATIONS
+): Promise<StorageMigrationResult> {
+  const ordered = [...migrations].sort((a, b) => a.version - b.version);
+  const latest = ordered.length > 0 ? ordered[ordered.length - 1].version : 0;
+  const fromVersion = await getStorageVersion();
+  const applied: number[] = [];
+
+  if (fromVersion > latest) {
+    console.warn(
+      `[storageMigrations] Storage version ${fromVersion} is newer than this build (${latest}); skipping migrations`
+    );
+    return { fromVersion, toVersion: fromVersion, applied };
+  }
+
+  let currentVersion = fromVersion;
+  for (const migration of ordered) {
+    if (migration.version <= currentVersion) continue;
+
+    console.log(`[storageMigrations] Running v${migration.version}: ${migration.description}`);
+    try {
+      await migration.migrate();
+    } catch (error) {
+      console.error(`[storageMigrations] Migration v${migration.version} failed:`, error);
+      throw error;
+    }
+
+    currentVersion = migration.version;
+    await chrome.storage.local.set({ [STORAGE_VERSION_KEY]: currentVersion });
+    applied.push(migration.version);
+  }
+
+  if (applied.length > 0) {
+    console.log(`[storageMigrations] Storage upgraded from v${fromVersion} to v${currentVersion}`);
+  }
+
+  return { fromVersion, toVersion: currentVersion, applied };
+}
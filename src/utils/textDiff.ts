@@ -0,0 +1,93 @@
+/**
+ * Line-based text diff (longest common subsequence)
+ *
+ * Small and dependency-free; card content is at most a few hundred lines,
+ * so the O(n*m) table is fine.
+ */
+
+export type DiffOp = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+  op: DiffOp;
+  text: string;
+}
+
+/**
+ * One row of a side-by-side diff. A missing side is rendered as blank.
+ */
+export interface DiffRow {
+  op: DiffOp | 'changed';
+  left?: string;
+  right?: string;
+}
+
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.replace(/\r\n?/g, '\n').split('\n');
+}
+
+/**
+ * Diff two texts line by line
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ op: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ op: 'removed', text: a[i++] });
+    } else {
+      result.push({ op: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ op: 'removed', text: a[i++] });
+  while (j < b.length) result.push({ op: 'added', text: b[j++] });
+
+  return result;
+}
+
+/**
+ * Pair up a line diff into side-by-side rows. Runs of removed lines followed
+ * by added lines are shown next to each other as 'changed'.
+ */
+export function toSideBySide(lines: DiffLine[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    if (line.op === 'same') {
+      rows.push({ op: 'same', left: line.text, right: line.text });
+      index++;
+      continue;
+    }
+
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (index < lines.length && lines[index].op === 'removed') removed.push(lines[index++].text);
+    while (index < lines.length && lines[index].op === 'added') added.push(lines[index++].text);
+
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = removed[k];
+      const right = added[k];
+      const op = left !== undefined && right !== undefined ? 'changed' : left !== undefined ? 'removed' : 'added';
+      rows.push({ op, left, right });
+    }
+  }
+
+  return rows;
+}
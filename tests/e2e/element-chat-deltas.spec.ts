@@ -91,13 +91,15 @@ test.describe('Element Chat Streaming Deltas', () => {
       }
 
       const sseBody = [
-        'data: {"delta":{"text":"First delta chunk"}}',
+        'data: {"type":"message_start","provider":"codex-cli","providerKey":"codex","route":"chat"}',
         '',
-        'data: {"delta":{"text":"Second delta chunk"}}',
+        'data: {"type":"thinking_delta","text":"First delta chunk"}',
         '',
-        'data: {"delta":{"text":"Third delta chunk"}}',
+        'data: {"type":"text_delta","text":"Second delta chunk"}',
         '',
-        'data: [DONE]',
+        'data: {"type":"text_delta","text":"Third delta chunk"}',
+        '',
+        'data: {"type":"message_stop"}',
         '',
       ].join('\n');
 
@@ -147,7 +149,7 @@ test.describe('Element Chat Streaming Deltas', () => {
 
     await page.waitForFunction(() => {
       const deltas = (window as any).__NABOKOV_DEBUG_LAST_DELTAS__;
-      return Array.isArray(deltas) && deltas.length === 3;
+      return Array.isArray(deltas) && deltas.length === 2;
     });
 
     const debugSnapshot = await page.evaluate(() => ({
@@ -157,7 +159,6 @@ test.describe('Element Chat Streaming Deltas', () => {
     }));
 
     expect(debugSnapshot.deltas).toEqual([
-      'First delta chunk',
       'Second delta chunk',
       'Third delta chunk',
     ]);
@@ -69,7 +69,7 @@ test.describe('Skip Delete Confirmation - UI Rendering', () => {
     await expect(checkbox).toBeVisible();
 
     // Verify checkbox is positioned before delete button
-    const deleteButton = cardElement.locator('button[title="Delete permanently"]');
+    const deleteButton = cardElement.locator('button[title="Move to trash"]');
     await expect(deleteButton).toBeVisible();
 
     await sidePanelPage.close();
@@ -238,13 +238,13 @@ test.describe('Skip Delete Confirmation - Delete Behavior', () => {
     // Set up dialog handler to cancel
     sidePanelPage.on('dialog', async dialog => {
       expect(dialog.type()).toBe('confirm');
-      expect(dialog.message()).toContain('Permanently delete');
+      expect(dialog.message()).toContain('to the trash');
       expect(dialog.message()).toContain(card.metadata.title);
       await dialog.dismiss(); // Click Cancel
     });
 
     // Click delete button
-    const deleteButton = cardElement.locator('button[title="Delete permanently"]');
+    const deleteButton = cardElement.locator('button[title="Move to trash"]');
     await deleteButton.click();
 
     // Wait a bit for dialog handling
@@ -278,7 +278,7 @@ test.describe('Skip Delete Confirmation - Delete Behavior', () => {
     });
 
     // Click delete button
-    const deleteButton = cardElement.locator('button[title="Delete permanently"]');
+    const deleteButton = cardElement.locator('button[title="Move to trash"]');
     await deleteButton.click();
 
     // Wait for deletion to process
@@ -307,11 +307,11 @@ test.describe('Skip Delete Confirmation - Delete Behavior', () => {
     await checkbox.click();
 
     // Click delete button
-    const deleteButton = cardElement.locator('button[title="Delete permanently"]');
+    const deleteButton = cardElement.locator('button[title="Move to trash"]');
     await deleteButton.click();
 
     // Wait for Toast to appear
-    const toast = sidePanelPage.locator('text=Card deleted successfully');
+    const toast = sidePanelPage.locator('text=Card moved to trash');
     await expect(toast).toBeVisible({ timeout: 2000 });
 
     await sidePanelPage.close();
@@ -361,7 +361,7 @@ test.describe('Skip Delete Confirmation - Multiple Cards', () => {
     for (const card of cards) {
       const cardElement = sidePanelPage.locator(`[data-id="${card.id}"]`);
       if (await cardElement.isVisible()) {
-        const deleteButton = cardElement.locator('button[title="Delete permanently"]');
+        const deleteButton = cardElement.locator('button[title="Move to trash"]');
         await deleteButton.click();
         await sidePanelPage.waitForTimeout(300); // Wait for deletion
       }
@@ -101,6 +101,26 @@ export const SAMPLE_COMPLEX_HTML = `
 </div>
 `;
 
+// ============================================================================
+// Card Factory
+// ============================================================================
+
+/**
+ * Minimal card for unit tests; its content and title are the id
+ */
+export function createCard(id: string, overrides: Partial<Card> = {}): Card {
+  return {
+    id,
+    content: `<p>${id}</p>`,
+    metadata: { url: 'https://example.com', title: id, domain: 'example.com', timestamp: 1 },
+    starred: false,
+    tags: [],
+    createdAt: 1,
+    updatedAt: 1,
+    ...overrides,
+  };
+}
+
 // ============================================================================
 // Sample Clipped Cards
 // ============================================================================
@@ -5,6 +5,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { beautificationService } from '@/services/beautificationService';
 import type { Card } from '@/types/card';
+import { clearCards, getCardRecord, putCard } from '@/utils/cardRepository';
 
 // Mock chrome.storage.local
 const mockStorage: Record<string, any> = {};
@@ -25,6 +26,11 @@ global.chrome = {
         Object.assign(mockStorage, items);
         return Promise.resolve();
       }),
+      remove: vi.fn((keys: string | string[]) => {
+        const keyArray = Array.isArray(keys) ? keys : [keys];
+        keyArray.forEach(key => delete mockStorage[key]);
+        return Promise.resolve();
+      }),
     },
   },
 } as any;
@@ -35,9 +41,10 @@ global.window = {
 } as any;
 
 describe('BeautificationService', () => {
-  beforeEach(() => {
-    // Clear mock storage before each test
+  beforeEach(async () => {
+    // Clear mock storage and the card repository before each test
     Object.keys(mockStorage).forEach(key => delete mockStorage[key]);
+    await clearCards();
     vi.clearAllMocks();
   });
 
@@ -83,17 +90,15 @@ describe('BeautificationService', () => {
     };
 
     // Store card in mock storage
-    mockStorage.cards = [testCard];
+    await putCard(testCard);
 
     await beautificationService.beautifyCard('test-card-1', 'organize-content');
 
     // Verify card was updated
-    expect(chrome.storage.local.set).toHaveBeenCalled();
-    const savedCards = mockStorage.cards;
-    expect(savedCards).toHaveLength(1);
-    expect(savedCards[0].beautifiedContent).toBeDefined();
-    expect(savedCards[0].beautificationMode).toBe('organize-content');
-    expect(savedCards[0].originalHTML).toBe('<p>Original content</p>');
+    const savedCard = await getCardRecord('test-card-1');
+    expect(savedCard?.beautifiedContent).toBeDefined();
+    expect(savedCard?.beautificationMode).toBe('organize-content');
+    expect(savedCard?.originalHTML).toBe('<p>Original content</p>');
   });
 
   it('should beautify a card with organize-content mode', async () => {
@@ -112,13 +117,12 @@ describe('BeautificationService', () => {
       updatedAt: Date.now(),
     };
 
-    mockStorage.cards = [testCard];
+    await putCard(testCard);
 
     await beautificationService.beautifyCard('test-card-2', 'organize-content');
 
-    expect(chrome.storage.local.set).toHaveBeenCalled();
-    const savedCards = mockStorage.cards;
-    expect(savedCards[0].beautificationMode).toBe('organize-content');
+    const savedCard = await getCardRecord('test-card-2');
+    expect(savedCard?.beautificationMode).toBe('organize-content');
   });
 
   it('should revert beautification', async () => {
@@ -141,16 +145,16 @@ describe('BeautificationService', () => {
       updatedAt: Date.now(),
     };
 
-    mockStorage.cards = [testCard];
+    await putCard(testCard);
 
     await beautificationService.revertBeautification('test-card-3');
 
-    const savedCards = mockStorage.cards;
-    expect(savedCards[0].beautifiedContent).toBeUndefined();
-    expect(savedCards[0].beautificationMode).toBeUndefined();
-    expect(savedCards[0].beautificationTimestamp).toBeUndefined();
-    expect(savedCards[0].originalHTML).toBeUndefined();
-    expect(savedCards[0].content).toBe('<p>Original content</p>');
+    const savedCard = await getCardRecord('test-card-3');
+    expect(savedCard?.beautifiedContent).toBeUndefined();
+    expect(savedCard?.beautificationMode).toBeUndefined();
+    expect(savedCard?.beautificationTimestamp).toBeUndefined();
+    expect(savedCard?.originalHTML).toBeUndefined();
+    expect(savedCard?.content).toBe('<p>Original content</p>');
   });
 
   it('should not revert a non-beautified card', async () => {
@@ -169,16 +173,15 @@ describe('BeautificationService', () => {
       updatedAt: Date.now(),
     };
 
-    mockStorage.cards = [testCard];
+    await putCard(testCard);
 
     await beautificationService.revertBeautification('test-card-4');
 
-    // Should not have called set since card was not beautified
-    expect(chrome.storage.local.set).not.toHaveBeenCalled();
+    // Card should be untouched since it was not beautified
+    expect(await getCardRecord('test-card-4')).toEqual(testCard);
   });
 
   it('should throw error for non-existent card', async () => {
-    mockStorage.cards = [];
 
     await expect(
       beautificationService.beautifyCard('non-existent', 'organize-content')
@@ -9,12 +9,14 @@
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import type { Card } from '@/types/card';
+import { clearCards, getCardRecord, putCard } from '@/utils/cardRepository';
 
 // Mock chrome.storage API
 const mockStorage = {
   local: {
     get: vi.fn(),
     set: vi.fn(),
+    remove: vi.fn(),
     getBytesInUse: vi.fn(),
     QUOTA_BYTES: 5242880,
   },
@@ -25,11 +27,13 @@ global.chrome = {
 } as any;
 
 describe('Card Size Preservation', () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     vi.clearAllMocks();
     // Mock as Promise-based API (not callback-based)
-    mockStorage.local.get.mockResolvedValue({ cards: [] });
+    mockStorage.local.get.mockResolvedValue({});
     mockStorage.local.set.mockResolvedValue(undefined);
+    mockStorage.local.remove.mockResolvedValue(undefined);
+    await clearCards();
   });
 
   describe('saveCard preserves size', () => {
@@ -54,8 +58,8 @@ describe('Card Size Preservation', () => {
         position: { x: 100, y: 100 },
       };
 
-      // Mock storage with existing card
-      mockStorage.local.get.mockResolvedValue({ cards: [existingCard] });
+      // Seed repository with existing card
+      await putCard(existingCard);
 
       // Update card (e.g., star it)
       const updatedCard: Card = {
@@ -66,17 +70,13 @@ describe('Card Size Preservation', () => {
 
       await saveCard(updatedCard);
 
-      // Verify that set was called with card including size
-      expect(mockStorage.local.set).toHaveBeenCalledWith(
-        {
-          cards: expect.arrayContaining([
-            expect.objectContaining({
-              id: 'test-card-1',
-              starred: true,
-              size: { width: 500, height: 300 }, // Size preserved
-            }),
-          ]),
-        }
+      // Verify the stored card still includes its size
+      expect(await getCardRecord('test-card-1')).toEqual(
+        expect.objectContaining({
+          id: 'test-card-1',
+          starred: true,
+          size: { width: 500, height: 300 }, // Size preserved
+        })
       );
     });
 
@@ -101,7 +101,7 @@ describe('Card Size Preservation', () => {
         position: { x: 200, y: 200 },
       };
 
-      mockStorage.local.get.mockResolvedValue({ cards: [existingCard] });
+      await putCard(existingCard);
 
       // Update content while preserving size
       const updatedCard: Card = {
@@ -112,16 +112,12 @@ describe('Card Size Preservation', () => {
 
       await saveCard(updatedCard);
 
-      expect(mockStorage.local.set).toHaveBeenCalledWith(
-        {
-          cards: expect.arrayContaining([
-            expect.objectContaining({
-              id: 'test-card-2',
-              content: '<p>Updated content</p>',
-              size: { width: 400, height: 350 }, // Size preserved
-            }),
-          ]),
-        }
+      expect(await getCardRecord('test-card-2')).toEqual(
+        expect.objectContaining({
+          id: 'test-card-2',
+          content: '<p>Updated content</p>',
+          size: { width: 400, height: 350 }, // Size preserved
+        })
       );
     });
 
@@ -145,19 +141,13 @@ describe('Card Size Preservation', () => {
         // No size property
       };
 
-      mockStorage.local.get.mockResolvedValue({ cards: [] });
-
       await saveCard(cardWithoutSize);
 
-      expect(mockStorage.local.set).toHaveBeenCalledWith(
-        {
-          cards: expect.arrayContaining([
-            expect.objectContaining({
-              id: 'test-card-3',
-              // Size is undefined, which is valid
-            }),
-          ]),
-        }
+      expect(await getCardRecord('test-card-3')).toEqual(
+        expect.objectContaining({
+          id: 'test-card-3',
+          // Size is undefined, which is valid
+        })
       );
     });
 
@@ -182,7 +172,7 @@ describe('Card Size Preservation', () => {
         position: { x: 500, y: 600 }, // Custom position
       };
 
-      mockStorage.local.get.mockResolvedValue({ cards: [existingCard] });
+      await putCard(existingCard);
 
       const updatedCard: Card = {
         ...existingCard,
@@ -191,16 +181,12 @@ describe('Card Size Preservation', () => {
 
       await saveCard(updatedCard);
 
-      expect(mockStorage.local.set).toHaveBeenCalledWith(
-        {
-          cards: expect.arrayContaining([
-            expect.objectContaining({
-              id: 'test-card-4',
-              size: { width: 320, height: 240 }, // Size preserved
-              position: { x: 500, y: 600 }, // Position preserved
-            }),
-          ]),
-        }
+      expect(await getCardRecord('test-card-4')).toEqual(
+        expect.objectContaining({
+          id: 'test-card-4',
+          size: { width: 320, height: 240 }, // Size preserved
+          position: { x: 500, y: 600 }, // Position preserved
+        })
       );
     });
   });
@@ -285,7 +271,7 @@ describe('Card Size Preservation', () => {
         position: { x: 100, y: 100 },
       };
 
-      mockStorage.local.get.mockResolvedValue({ cards: [existingCard] });
+      await putCard(existingCard);
 
       // Update multiple properties at once
       const updatedCard: Card = {
@@ -301,18 +287,14 @@ describe('Card Size Preservation', () => {
 
       await saveCard(updatedCard);
 
-      expect(mockStorage.local.set).toHaveBeenCalledWith(
-        {
-          cards: expect.arrayContaining([
-            expect.objectContaining({
-              id: 'test-card-7',
-              starred: true,
-              tags: ['new', 'updated'],
-              size: { width: 450, height: 380 }, // Size still preserved
-              position: { x: 100, y: 100 }, // Position still preserved
-            }),
-          ]),
-        }
+      expect(await getCardRecord('test-card-7')).toEqual(
+        expect.objectContaining({
+          id: 'test-card-7',
+          starred: true,
+          tags: ['new', 'updated'],
+          size: { width: 450, height: 380 }, // Size still preserved
+          position: { x: 100, y: 100 }, // Position still preserved
+        })
       );
     });
   });
@@ -338,19 +320,13 @@ describe('Card Size Preservation', () => {
         size: { width: 0, height: 0 }, // Invalid but should be preserved as-is
       };
 
-      mockStorage.local.get.mockResolvedValue({ cards: [] });
-
       await saveCard(cardWithZeroSize);
 
-      expect(mockStorage.local.set).toHaveBeenCalledWith(
-        {
-          cards: expect.arrayContaining([
-            expect.objectContaining({
-              id: 'test-card-8',
-              size: { width: 0, height: 0 }, // Preserved even if invalid
-            }),
-          ]),
-        }
+      expect(await getCardRecord('test-card-8')).toEqual(
+        expect.objectContaining({
+          id: 'test-card-8',
+          size: { width: 0, height: 0 }, // Preserved even if invalid
+        })
       );
     });
 
@@ -374,19 +350,13 @@ describe('Card Size Preservation', () => {
         size: { width: 2000, height: 1500 }, // Very large
       };
 
-      mockStorage.local.get.mockResolvedValue({ cards: [] });
-
       await saveCard(cardWithLargeSize);
 
-      expect(mockStorage.local.set).toHaveBeenCalledWith(
-        {
-          cards: expect.arrayContaining([
-            expect.objectContaining({
-              id: 'test-card-9',
-              size: { width: 2000, height: 1500 }, // Large sizes preserved
-            }),
-          ]),
-        }
+      expect(await getCardRecord('test-card-9')).toEqual(
+        expect.objectContaining({
+          id: 'test-card-9',
+          size: { width: 2000, height: 1500 }, // Large sizes preserved
+        })
       );
     });
   });
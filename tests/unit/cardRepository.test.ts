@@ -0,0 +1,233 @@
+/**
+ * Unit tests for the IndexedDB card repository
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  CARD_MIGRATION_KEY,
+  CARD_REPOSITORY_MESSAGE,
+  LEGACY_CARDS_KEY,
+  clearTrashEntries,
+  closeCardDatabase,
+  countCards,
+  deleteCardRecord,
+  getAllCards,
+  getCardRecord,
+  getCardRecords,
+  getCardsByDomain,
+  getCardsByStashed,
+  getCardsByTag,
+  getCardsCreatedBetween,
+  getEmbeddings,
+  handleCardRepositoryRequest,
+  moveCardsToTrashStore,
+  putCard,
+  putCards,
+  putEmbeddings,
+} from '@/utils/cardRepository';
+import { createCard } from '../fixtures/data';
+
+async function resetDatabase() {
+  await closeCardDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase('nabokov_cards');
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+describe('cardRepository', () => {
+  beforeEach(async () => {
+    await resetDatabase();
+  });
+
+  describe('CRUD', () => {
+    it('stores one record per card and round-trips it unchanged', async () => {
+      const card = createCard('a', { stashed: true, tags: ['x'] });
+      await putCard(card);
+
+      expect(await getCardRecord('a')).toEqual(card);
+      expect(await countCards()).toBe(1);
+    });
+
+    it('updates a single card without touching others', async () => {
+      await putCards([createCard('a'), createCard('b')]);
+      await putCard(createCard('a', { starred: true }));
+
+      expect((await getCardRecord('a'))?.starred).toBe(true);
+      expect(await getCardRecord('b')).toEqual(createCard('b'));
+    });
+
+    it('deletes a card', async () => {
+      await putCards([createCard('a'), createCard('b')]);
+      await deleteCardRecord('a');
+
+      expect(await getCardRecord('a')).toBeUndefined();
+      expect((await getAllCards()).map(c => c.id)).toEqual(['b']);
+    });
+
+    it('fetches several cards by id, skipping missing ones', async () => {
+      await putCards([createCard('a'), createCard('b')]);
+
+      const cards = await getCardRecords(['b', 'missing', 'a']);
+      expect(cards.map(c => c.id)).toEqual(['b', 'a']);
+    });
+
+    it('returns all cards ordered by creation time', async () => {
+      await putCards([
+        createCard('late', { createdAt: 3000 }),
+        createCard('early', { createdAt: 1000 }),
+        createCard('middle', { createdAt: 2000 }),
+      ]);
+
+      expect((await getAllCards()).map(c => c.id)).toEqual(['early', 'middle', 'late']);
+    });
+  });
+
+  describe('Indexes', () => {
+    beforeEach(async () => {
+      await putCards([
+        createCard('a', { tags: ['ml', 'papers'], createdAt: 1000 }),
+        createCard('b', {
+          tags: ['ml'],
+          stashed: true,
+          createdAt: 2000,
+          metadata: { url: 'https://arxiv.org/b', title: 'B', domain: 'arxiv.org', timestamp: 2000 },
+        }),
+        createCard('c', { createdAt: 3000 }),
+      ]);
+    });
+
+    it('queries by domain', async () => {
+      expect((await getCardsByDomain('arxiv.org')).map(c => c.id)).toEqual(['b']);
+    });
+
+    it('queries by tag (multi-entry)', async () => {
+      expect((await getCardsByTag('ml')).map(c => c.id).sort()).toEqual(['a', 'b']);
+      expect((await getCardsByTag('papers')).map(c => c.id)).toEqual(['a']);
+    });
+
+    it('queries by stash state, treating missing flag as visible', async () => {
+      expect((await getCardsByStashed(true)).map(c => c.id)).toEqual(['b']);
+      expect((await getCardsByStashed(false)).map(c => c.id).sort()).toEqual(['a', 'c']);
+    });
+
+    it('queries by creation time range', async () => {
+      expect((await getCardsCreatedBetween(1500, 3000)).map(c => c.id)).toEqual(['b', 'c']);
+    });
+  });
+
+  describe('Legacy migration', () => {
+    it('imports the legacy cards array once and removes it', async () => {
+      await chrome.storage.local.set({
+        [LEGACY_CARDS_KEY]: [createCard('legacy-1'), createCard('legacy-2')],
+      });
+
+      expect(await countCards()).toBe(2);
+
+      const stored = await chrome.storage.local.get([LEGACY_CARDS_KEY, CARD_MIGRATION_KEY]);
+      expect(stored[LEGACY_CARDS_KEY]).toBeUndefined();
+      expect(stored[CARD_MIGRATION_KEY]).toEqual(expect.any(Number));
+    });
+
+    it('does not re-import after the migration flag is set', async () => {
+      await chrome.storage.local.set({ [LEGACY_CARDS_KEY]: [createCard('legacy-1')] });
+      await countCards();
+
+      await closeCardDatabase();
+      await chrome.storage.local.set({ [LEGACY_CARDS_KEY]: [createCard('legacy-2')] });
+
+      expect((await getAllCards()).map(c => c.id)).toEqual(['legacy-1']);
+    });
+
+    it('keeps newer repository records over stale legacy copies', async () => {
+      await putCard(createCard('a', { updatedAt: 5000, starred: true }));
+      await closeCardDatabase();
+      await chrome.storage.local.remove(CARD_MIGRATION_KEY);
+      await chrome.storage.local.set({ [LEGACY_CARDS_KEY]: [createCard('a', { updatedAt: 1000 })] });
+
+      expect((await getCardRecord('a'))?.starred).toBe(true);
+    });
+  });
+
+  describe('Embeddings', () => {
+    const embedding = { model: 'stub-1', contentHash: 'h', vector: [1, 0] };
+
+    it('drops a card\'s embedding with the card', async () => {
+      await putCards([createCard('a'), createCard('b')]);
+      await putEmbeddings(new Map([['a', embedding], ['b', embedding]]));
+
+      await deleteCardRecord('a');
+
+      expect([...(await getEmbeddings(['a', 'b'])).keys()]).toEqual(['b']);
+    });
+
+    it('keeps embeddings of trashed cards until the trash is emptied', async () => {
+      await putCard(createCard('a'));
+      await putEmbeddings(new Map([['a', embedding]]));
+
+      await moveCardsToTrashStore([{ id: 'a', card: createCard('a'), connections: [], expandableLinks: [], deletedAt: 1 }]);
+      expect((await getEmbeddings(['a'])).get('a')).toEqual(embedding);
+
+      await clearTrashEntries();
+      expect((await getEmbeddings(['a'])).size).toBe(0);
+    });
+
+    it('moves embeddings cached on v4 card records into their own store', async () => {
+      await closeCardDatabase();
+      await new Promise<void>((resolve, reject) => {
+        const request = indexedDB.open('nabokov_cards', 4);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          db.createObjectStore('cards', { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+          db.createObjectStore('trash', { keyPath: 'id' });
+          db.createObjectStore('blobs', { keyPath: 'id' });
+          db.createObjectStore('sync', { keyPath: 'key' });
+          request.transaction!.objectStore('cards').put({ ...createCard('a'), stashedKey: 0, embedding });
+        };
+        request.onsuccess = () => {
+          request.result.close();
+          resolve();
+        };
+        request.onerror = () => reject(request.error);
+      });
+
+      expect((await getEmbeddings(['a'])).get('a')).toEqual(embedding);
+      expect(await getCardRecord('a')).not.toHaveProperty('embedding');
+    });
+  });
+
+  describe('Background proxy', () => {
+    it('executes proxied requests against the local database', async () => {
+      await handleCardRepositoryRequest({ op: 'put', cards: [createCard('a')] });
+
+      expect(await handleCardRepositoryRequest({ op: 'get', cardId: 'a' })).toEqual(createCard('a'));
+      expect(await handleCardRepositoryRequest({ op: 'count' })).toBe(1);
+    });
+
+    it('routes calls through runtime messages once enabled', async () => {
+      vi.resetModules();
+      const repository = await import('@/utils/cardRepository');
+      const sendMessage = vi.mocked(chrome.runtime.sendMessage);
+      sendMessage.mockResolvedValueOnce({ success: true, result: [createCard('remote')] } as any);
+
+      repository.routeCardRepositoryThroughBackground();
+      const cards = await repository.getAllCards();
+
+      expect(sendMessage).toHaveBeenCalledWith({
+        type: CARD_REPOSITORY_MESSAGE,
+        request: { op: 'getAll' },
+      });
+      expect(cards.map(c => c.id)).toEqual(['remote']);
+    });
+
+    it('surfaces background errors', async () => {
+      vi.resetModules();
+      const repository = await import('@/utils/cardRepository');
+      vi.mocked(chrome.runtime.sendMessage).mockResolvedValueOnce({ success: false, error: 'boom' } as any);
+
+      repository.routeCardRepositoryThroughBackground();
+      await expect(repository.putCard(createCard('a'))).rejects.toThrow('boom');
+    });
+  });
+});
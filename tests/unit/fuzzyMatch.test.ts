@@ -0,0 +1,33 @@
+/**
+ * Unit tests for fuzzy matching
+ */
+
+import { describe, it, expect } from 'vitest';
+import { fuzzyFilter, fuzzyMatch } from '@/utils/fuzzyMatch';
+
+describe('fuzzyMatch', () => {
+  it('matches query characters in order, ignoring case', () => {
+    expect(fuzzyMatch('ntc', 'Nabokov Thesis Chapter')?.indices).toEqual([0, 8, 15]);
+    expect(fuzzyMatch('ctn', 'Nabokov Thesis Chapter')).toBeNull();
+    expect(fuzzyMatch('  ', 'anything')).toEqual({ score: 0, indices: [] });
+  });
+
+  it('prefers consecutive and word-start matches', () => {
+    const consecutive = fuzzyMatch('thes', 'Thesis notes')!;
+    const scattered = fuzzyMatch('thes', 'The horse sleeps')!;
+    expect(consecutive.score).toBeGreaterThan(scattered.score);
+  });
+
+  it('ranks items by their best matching text', () => {
+    const items = [
+      { id: 'a', title: 'Reading list', domain: 'example.com' },
+      { id: 'b', title: 'Pale Fire', domain: 'wikipedia.org' },
+      { id: 'c', title: 'Notes', domain: 'notes' },
+    ];
+
+    const results = fuzzyFilter('wiki', items, item => [item.title, item.domain]);
+
+    expect(results.map(result => result.item.id)).toEqual(['b']);
+    expect(results[0].text).toBe('wikipedia.org');
+  });
+});
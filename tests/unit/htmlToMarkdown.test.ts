@@ -0,0 +1,46 @@
+/**
+ * Unit tests for HTML to Markdown conversion
+ */
+
+import { describe, it, expect } from 'vitest';
+import { htmlToMarkdown } from '@/utils/htmlToMarkdown';
+
+describe('htmlToMarkdown', () => {
+  it('converts headings, paragraphs and inline formatting', () => {
+    const html = '<h2>Title</h2><p>Some <strong>bold</strong> and <em>italic</em> text with <code>code</code>.</p>';
+    expect(htmlToMarkdown(html)).toBe('## Title\n\nSome **bold** and *italic* text with `code`.');
+  });
+
+  it('converts links and escapes markdown characters in text', () => {
+    expect(htmlToMarkdown('<p>See <a href="https://x.dev">the *docs*</a></p>')).toBe(
+      'See [the \\*docs\\*](https://x.dev)'
+    );
+  });
+
+  it('converts ordered, unordered and nested lists', () => {
+    const html = '<ul><li>One</li><li>Two<ol><li>Inner</li></ol></li></ul>';
+    expect(htmlToMarkdown(html)).toBe('- One\n- Two\n  1. Inner');
+  });
+
+  it('converts blockquotes and code blocks', () => {
+    const html = '<blockquote><p>Quoted</p></blockquote><pre><code class="language-ts">const a = 1;\n</code></pre>';
+    expect(htmlToMarkdown(html)).toBe('> Quoted\n\n```ts\nconst a = 1;\n```');
+  });
+
+  it('converts tables', () => {
+    const html = '<table><tr><th>A</th><th>B</th></tr><tr><td>1</td><td>2</td></tr></table>';
+    expect(htmlToMarkdown(html)).toBe('| A | B |\n| --- | --- |\n| 1 | 2 |');
+  });
+
+  it('lets callers rewrite images', () => {
+    const html = '<p><img src="data:image/png;base64,AA==" alt="pic"><img src="https://x.dev/a.png" alt="web"></p>';
+    const markdown = htmlToMarkdown(html, {
+      resolveImage: (src) => (src.startsWith('data:') ? '![[pic.png]]' : undefined),
+    });
+    expect(markdown).toBe('![[pic.png]]![web](https://x.dev/a.png)');
+  });
+
+  it('drops scripts and styles', () => {
+    expect(htmlToMarkdown('<p>Keep</p><script>alert(1)</script><style>p{}</style>')).toBe('Keep');
+  });
+});
@@ -77,6 +77,16 @@ describe('Keyboard Shortcuts Utilities', () => {
       const shortcut = { key: 'k', modifier: 'meta' as const };
       expect(matchesShortcut(event, shortcut)).toBe(false);
     });
+
+    it('should tell undo and redo apart by the shift key', () => {
+      const undo = new KeyboardEvent('keydown', { key: 'z', metaKey: true });
+      const redo = new KeyboardEvent('keydown', { key: 'Z', metaKey: true, shiftKey: true });
+
+      expect(matchesShortcut(undo, DEFAULT_SHORTCUTS.undo)).toBe(true);
+      expect(matchesShortcut(undo, DEFAULT_SHORTCUTS.redo)).toBe(false);
+      expect(matchesShortcut(redo, DEFAULT_SHORTCUTS.undo)).toBe(false);
+      expect(matchesShortcut(redo, DEFAULT_SHORTCUTS.redo)).toBe(true);
+    });
   });
 
   describe('Shortcut Prevention', () => {
@@ -0,0 +1,126 @@
+/**
+ * Unit tests for streamEvents
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatUsage,
+  mergeUsage,
+  parseAnthropicEvent,
+  parseBackendEvent,
+  readStreamEvents,
+  type LLMStreamEvent,
+  type StreamEventParser,
+} from '@/services/streamEvents';
+
+function createBody(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+async function collect(body: ReadableStream<Uint8Array>, parse: StreamEventParser): Promise<LLMStreamEvent[]> {
+  const events: LLMStreamEvent[] = [];
+  for await (const event of readStreamEvents(body, parse)) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('streamEvents', () => {
+  describe('readStreamEvents', () => {
+    it('parses backend events split across network chunks', async () => {
+      const sse = [
+        'data: {"type":"message_start","provider":"codex-cli","providerKey":"codex","route":"chat"}\n\n',
+        'data: {"type":"thinking_delta","text":"Planning"}\n\n',
+        'data: {"type":"text_delta","text":"Hello\\nworld"}\n\n',
+        'data: {"type":"usage","inputTokens":12,"outputTokens":3}\n\n',
+        'data: {"type":"message_stop"}\n\n',
+      ].join('');
+
+      const events = await collect(createBody([sse.slice(0, 40), sse.slice(40, 130), sse.slice(130)]), parseBackendEvent);
+
+      expect(events).toEqual([
+        { type: 'message_start', provider: 'codex-cli', providerKey: 'codex', route: 'chat', model: undefined },
+        { type: 'thinking_delta', text: 'Planning' },
+        { type: 'text_delta', text: 'Hello\nworld' },
+        { type: 'usage', usage: { inputTokens: 12, outputTokens: 3 } },
+        { type: 'message_stop' },
+      ]);
+    });
+
+    it('skips malformed lines and reads a final line without a trailing newline', async () => {
+      const events = await collect(
+        createBody(['data: {not json}\n', 'data: {"type":"text_delta","text":"ok"}']),
+        parseBackendEvent
+      );
+
+      expect(events).toEqual([{ type: 'text_delta', text: 'ok' }]);
+    });
+  });
+
+  describe('parseBackendEvent', () => {
+    it('maps error events', () => {
+      expect(parseBackendEvent({ type: 'error', error: 'Request did not complete', code: 'REQUEST_TIMEOUT' })).toEqual([
+        { type: 'error', message: 'Request did not complete', code: 'REQUEST_TIMEOUT' },
+      ]);
+    });
+
+    it('drops malformed events', () => {
+      expect(parseBackendEvent(null)).toEqual([]);
+      expect(parseBackendEvent('text_delta')).toEqual([]);
+      expect(parseBackendEvent({ type: 'text_delta', text: 42 })).toEqual([]);
+      expect(parseBackendEvent({ type: 'queued', providerKey: 'codex' })).toEqual([]);
+      expect(parseAnthropicEvent({ type: 'content_block_start', content_block: { type: 'tool_use' } })).toEqual([]);
+    });
+
+    it('understands events from older backends', () => {
+      expect(parseBackendEvent({ delta: { text: 'Hi' } })).toEqual([{ type: 'text_delta', text: 'Hi' }]);
+      expect(parseBackendEvent({ error: 'boom' })).toEqual([{ type: 'error', message: 'boom', code: undefined }]);
+      expect(parseBackendEvent({ type: 'provider', provider: 'claude-agent-sdk', providerKey: 'claude' })[0]).toMatchObject({
+        type: 'message_start',
+        providerKey: 'claude',
+      });
+    });
+  });
+
+  describe('parseAnthropicEvent', () => {
+    it('separates thinking from text and collects usage', () => {
+      const events = [
+        { type: 'message_start', message: { model: 'claude-sonnet-4-20250514', usage: { input_tokens: 20, output_tokens: 1 } } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'Considering' } },
+        { type: 'content_block_delta', index: 1, delta: { type: 'text_delta', text: 'Answer' } },
+        { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 42 } },
+        { type: 'message_stop' },
+      ].flatMap(parseAnthropicEvent);
+
+      expect(events).toEqual([
+        { type: 'message_start', model: 'claude-sonnet-4-20250514' },
+        { type: 'usage', usage: { inputTokens: 20, outputTokens: 1 } },
+        { type: 'thinking_delta', text: 'Considering' },
+        { type: 'text_delta', text: 'Answer' },
+        { type: 'usage', usage: { outputTokens: 42 } },
+        { type: 'message_stop' },
+      ]);
+    });
+  });
+
+  describe('usage helpers', () => {
+    it('merges later counts over earlier ones', () => {
+      expect(mergeUsage({ inputTokens: 20, outputTokens: 1 }, { outputTokens: 42 })).toEqual({
+        inputTokens: 20,
+        outputTokens: 42,
+      });
+    });
+
+    it('formats token counts', () => {
+      expect(formatUsage({ inputTokens: 1204, outputTokens: 87 })).toBe('1,204 in · 87 out tokens');
+      expect(formatUsage({ outputTokens: 5 })).toBe('5 out tokens');
+      expect(formatUsage(undefined)).toBe('');
+    });
+  });
+});
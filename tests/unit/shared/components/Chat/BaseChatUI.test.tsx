@@ -144,6 +144,35 @@ describe('BaseChatUI', () => {
       fireEvent.click(stopButton);
       expect(onStopStreaming).toHaveBeenCalledOnce();
     });
+
+    it('should display streaming reasoning before any answer text', () => {
+      render(
+        <BaseChatUI
+          {...defaultProps}
+          isStreaming={true}
+          streamingContent=""
+          streamingThinking="Weighing the options"
+        />
+      );
+      expect(screen.getByText('Thinking…')).toBeInTheDocument();
+      expect(screen.getByText('Weighing the options')).toBeInTheDocument();
+    });
+
+    it('should render reasoning and token usage of completed replies', () => {
+      render(
+        <BaseChatUI
+          {...defaultProps}
+          messages={[{
+            ...mockMessages[1],
+            thinking: 'The user is being polite.',
+            usage: { inputTokens: 1204, outputTokens: 87 }
+          }]}
+        />
+      );
+      expect(screen.getByText('Reasoning')).toBeInTheDocument();
+      expect(screen.getByText('The user is being polite.')).toBeInTheDocument();
+      expect(screen.getByText('1,204 in · 87 out tokens')).toBeInTheDocument();
+    });
   });
 
   describe('Input Handling', () => {
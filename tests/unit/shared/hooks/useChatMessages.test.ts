@@ -312,6 +312,35 @@ describe('useChatMessages', () => {
         expect(assistantMessage?.content).toBe('Part 1 Part 2 Part 3');
       });
     });
+
+    it('should keep streamed reasoning and usage apart from the answer', async () => {
+      const { chatWithPage } = await import('@/services/claudeAPIService');
+      vi.mocked(chatWithPage).mockImplementation(async function* (_system, _messages, options) {
+        options?.onEvent?.({ type: 'thinking_delta', text: 'Checking the page' });
+        yield 'Answer';
+        options?.onEvent?.({ type: 'usage', usage: { inputTokens: 30, outputTokens: 2 } });
+      });
+
+      const { result } = renderHook(() => useChatMessages(defaultOptions));
+
+      act(() => {
+        result.current.setInputValue('Test');
+      });
+
+      await act(async () => {
+        await result.current.sendMessage();
+      });
+
+      await waitFor(() => {
+        const assistantMessage = result.current.messages.find(m => m.role === 'assistant');
+        expect(assistantMessage).toMatchObject({
+          content: 'Answer',
+          thinking: 'Checking the page',
+          usage: { inputTokens: 30, outputTokens: 2 }
+        });
+      });
+      expect(result.current.streamingThinking).toBe('');
+    });
   });
 
   describe('Message Sending (With Images)', () => {
@@ -624,7 +653,8 @@ describe('useChatMessages', () => {
       await waitFor(() => {
         expect(chatWithPage).toHaveBeenCalledWith(
           customPrompt,
-          expect.any(Array)
+          expect.any(Array),
+          expect.objectContaining({ onEvent: expect.any(Function) })
         );
       });
     });
@@ -0,0 +1,122 @@
+/**
+ * Unit tests for canvas boards
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { installChromeStorageMock } from '../../../utils/chromeStorageMock';
+import {
+  DEFAULT_BOARD_ID,
+  addCardsToBoard,
+  createBoard,
+  deleteBoard,
+  getActiveBoardId,
+  getBoards,
+  getCardBoardIds,
+  isConnectionOnBoard,
+  moveCardsToBoard,
+  removeCardsFromBoard,
+  renameBoard,
+  setActiveBoard,
+} from '@/shared/services/boardService';
+import { closeCardDatabase, getCardRecord, putCard } from '@/utils/cardRepository';
+import { loadConnections, saveConnections } from '@/utils/connectionStorage';
+import { saveCard } from '@/utils/storage';
+import type { CardConnection } from '@/types/connection';
+import { createCard } from '../../../fixtures/data';
+
+async function resetDatabase() {
+  await closeCardDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase('nabokov_cards');
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function createConnection(id: string, boardId?: string): CardConnection {
+  return { id, source: 'a', target: 'b', type: 'related', boardId };
+}
+
+describe('boardService', () => {
+  beforeEach(async () => {
+    installChromeStorageMock();
+    await resetDatabase();
+  });
+
+  it('always has the main board and falls back to it as the active board', async () => {
+    expect((await getBoards()).map(board => board.id)).toEqual([DEFAULT_BOARD_ID]);
+    expect(await getActiveBoardId()).toBe(DEFAULT_BOARD_ID);
+
+    const board = await createBoard('  Thesis  ');
+    expect(board.name).toBe('Thesis');
+    await setActiveBoard(board.id);
+    expect(await getActiveBoardId()).toBe(board.id);
+
+    await renameBoard(board.id, 'Thesis notes');
+    expect((await getBoards())[1].name).toBe('Thesis notes');
+
+    await expect(createBoard(' ')).rejects.toThrow('Board name is required');
+    await expect(deleteBoard(DEFAULT_BOARD_ID)).rejects.toThrow('cannot be deleted');
+  });
+
+  it('treats cards without a known board as main board cards', async () => {
+    const board = await createBoard('Research');
+    const boards = await getBoards();
+
+    expect(getCardBoardIds(createCard('a'), boards)).toEqual([DEFAULT_BOARD_ID]);
+    expect(getCardBoardIds(createCard('a', { boardIds: ['gone'] }), boards)).toEqual([DEFAULT_BOARD_ID]);
+    expect(getCardBoardIds(createCard('a', { boardIds: [board.id, 'gone'] }), boards)).toEqual([board.id]);
+  });
+
+  it('moves, adds and removes cards across boards', async () => {
+    const research = await createBoard('Research');
+    const reading = await createBoard('Reading');
+    await putCard(createCard('a'));
+
+    await moveCardsToBoard(['a'], DEFAULT_BOARD_ID, research.id);
+    expect((await getCardRecord('a'))?.boardIds).toEqual([research.id]);
+
+    await addCardsToBoard(['a'], reading.id);
+    expect((await getCardRecord('a'))?.boardIds).toEqual([research.id, reading.id]);
+
+    await removeCardsFromBoard(['a'], research.id);
+    expect((await getCardRecord('a'))?.boardIds).toEqual([reading.id]);
+
+    await expect(removeCardsFromBoard(['a'], reading.id)).rejects.toThrow('at least one board');
+  });
+
+  it('returns cards and connections of a deleted board to the main board', async () => {
+    const board = await createBoard('Scratch');
+    await setActiveBoard(board.id);
+    await putCard(createCard('a', { boardIds: [board.id] }));
+    await saveConnections([createConnection('c1', board.id)]);
+
+    await deleteBoard(board.id);
+
+    expect((await getCardRecord('a'))?.boardIds).toEqual([]);
+    expect((await loadConnections())[0].boardId).toBeUndefined();
+    expect(await getActiveBoardId()).toBe(DEFAULT_BOARD_ID);
+  });
+
+  it('shows connections on their own board, or anywhere both cards are when unassigned', async () => {
+    const board = await createBoard('Research');
+    const boards = await getBoards();
+    const bothCards = new Set(['a', 'b']);
+
+    expect(isConnectionOnBoard(createConnection('c1'), board.id, bothCards, boards)).toBe(true);
+    expect(isConnectionOnBoard(createConnection('c2', board.id), board.id, bothCards, boards)).toBe(true);
+    expect(isConnectionOnBoard(createConnection('c2', board.id), DEFAULT_BOARD_ID, bothCards, boards)).toBe(false);
+    expect(isConnectionOnBoard(createConnection('c3'), board.id, new Set(['a']), boards)).toBe(false);
+  });
+
+  it('places new canvas cards on the active board', async () => {
+    const board = await createBoard('Research');
+    await setActiveBoard(board.id);
+
+    await saveCard(createCard('new'));
+    await saveCard(createCard('stashed', { stashed: true }));
+
+    expect((await getCardRecord('new'))?.boardIds).toEqual([board.id]);
+    expect((await getCardRecord('stashed'))?.boardIds).toBeUndefined();
+  });
+});
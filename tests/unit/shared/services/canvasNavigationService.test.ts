@@ -0,0 +1,80 @@
+/**
+ * Unit tests for viewport bookmarks and minimap settings
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { installChromeStorageMock } from '../../../utils/chromeStorageMock';
+import {
+  CANVAS_NAVIGATION_KEY,
+  DEFAULT_MINIMAP_SETTINGS,
+  addViewportBookmark,
+  deleteViewportBookmark,
+  getMiniMapSettings,
+  getViewportBookmarks,
+  renameViewportBookmark,
+  saveMiniMapSettings,
+} from '@/shared/services/canvasNavigationService';
+
+describe('canvasNavigationService', () => {
+  beforeEach(() => {
+    installChromeStorageMock();
+  });
+
+  it('keeps bookmarks per board apart from the saved viewports', async () => {
+    const viewport = { x: 0, y: 0, zoom: 1 };
+    const canvasState = { cards: [], viewportPosition: viewport, boardViewports: { default: viewport } };
+    await chrome.storage.local.set({ nabokov_canvas_state: canvasState });
+
+    const intro = await addViewportBookmark('  Intro  ', 'default', { x: 10, y: 20, zoom: 0.5 });
+    await addViewportBookmark('Elsewhere', 'board-2', viewport);
+
+    expect(intro.name).toBe('Intro');
+    expect((await getViewportBookmarks('default')).map(b => b.name)).toEqual(['Intro']);
+    expect((await chrome.storage.local.get('nabokov_canvas_state')).nabokov_canvas_state).toEqual(canvasState);
+
+    // A viewport save from a state read before the bookmarks were added
+    await chrome.storage.local.set({ nabokov_canvas_state: { ...canvasState, viewportPosition: { x: 5, y: 5, zoom: 1 } } });
+    expect(await getViewportBookmarks('board-2')).toHaveLength(1);
+  });
+
+  it('moves bookmarks and minimap settings out of the canvas state', async () => {
+    const viewport = { x: 0, y: 0, zoom: 1 };
+    await chrome.storage.local.set({
+      nabokov_canvas_state: {
+        cards: [],
+        viewportPosition: viewport,
+        viewportBookmarks: [{ id: 'old', name: 'Old', boardId: 'default', viewport, createdAt: 1 }],
+        minimap: { visible: false, colorBy: 'tag' },
+      },
+    });
+
+    expect((await getViewportBookmarks('default')).map(b => b.id)).toEqual(['old']);
+    expect(await getMiniMapSettings()).toEqual({ visible: false, colorBy: 'tag' });
+
+    await addViewportBookmark('New', 'default', viewport);
+
+    const stored = (await chrome.storage.local.get(CANVAS_NAVIGATION_KEY))[CANVAS_NAVIGATION_KEY];
+    expect(stored.viewportBookmarks.map((b: { name: string }) => b.name)).toEqual(['Old', 'New']);
+    expect(stored.minimap).toEqual({ visible: false, colorBy: 'tag' });
+  });
+
+  it('renames and deletes bookmarks', async () => {
+    const bookmark = await addViewportBookmark('Draft', 'default', { x: 0, y: 0, zoom: 1 });
+
+    await renameViewportBookmark(bookmark.id, 'Final');
+    expect((await getViewportBookmarks('default'))[0].name).toBe('Final');
+
+    await expect(renameViewportBookmark(bookmark.id, ' ')).rejects.toThrow('Bookmark name is required');
+    await expect(renameViewportBookmark('missing', 'x')).rejects.toThrow('Bookmark not found');
+
+    await deleteViewportBookmark(bookmark.id);
+    expect(await getViewportBookmarks('default')).toEqual([]);
+  });
+
+  it('defaults and persists minimap settings', async () => {
+    expect(await getMiniMapSettings()).toEqual(DEFAULT_MINIMAP_SETTINGS);
+
+    await saveMiniMapSettings({ visible: false, colorBy: 'tag' });
+    expect(await getMiniMapSettings()).toEqual({ visible: false, colorBy: 'tag' });
+  });
+});
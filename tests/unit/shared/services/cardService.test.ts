@@ -10,7 +10,6 @@ import {
   updateCard,
   stashCard,
   restoreCard,
-  deleteCardPermanently,
   duplicateCard,
   getStashedCards,
   getStorageStats,
@@ -19,8 +18,6 @@ import type { Card } from '@/types/card';
 
 // Mock chrome API
 const mockStorageLocal = {
-  get: vi.fn(),
-  set: vi.fn(),
   getBytesInUse: vi.fn(() => Promise.resolve(12345)),
   QUOTA_BYTES: 5242880, // 5MB
 };
@@ -44,13 +41,48 @@ global.window = {
 
 // Mock storage utilities
 vi.mock('@/utils/storage', () => ({
-  getCards: vi.fn(),
-  saveCard: vi.fn(),
-  deleteCard: vi.fn(),
   generateId: vi.fn(() => 'new-id-123'),
 }));
 
-import { getCards, saveCard, deleteCard, generateId } from '@/utils/storage';
+// Undo history is covered by historyService.test.ts
+vi.mock('@/shared/services/historyService', () => ({
+  recordHistory: vi.fn(() => Promise.resolve()),
+  cardChange: vi.fn((before, after) => ({ kind: 'card', before, after })),
+}));
+
+vi.mock('@/shared/services/revisionService', () => ({
+  recordRevision: vi.fn(() => Promise.resolve()),
+}));
+
+// Mock the IndexedDB card repository
+vi.mock('@/utils/cardRepository', () => ({
+  getAllCards: vi.fn(),
+  getCardRecord: vi.fn(),
+  putCard: vi.fn(),
+  deleteCardRecord: vi.fn(),
+  getCardsByStashed: vi.fn(),
+  countCards: vi.fn(),
+}));
+
+import {
+  getAllCards,
+  getCardRecord,
+  putCard,
+  getCardsByStashed,
+  countCards,
+} from '@/utils/cardRepository';
+
+/**
+ * Back the mocked repository with an in-memory card list
+ */
+function seedCards(cards: Card[]) {
+  vi.mocked(getAllCards).mockImplementation(async () => cards);
+  vi.mocked(getCardRecord).mockImplementation(async (id: string) => cards.find(c => c.id === id));
+  vi.mocked(getCardsByStashed).mockImplementation(async (stashed: boolean) =>
+    cards.filter(c => !!c.stashed === stashed)
+  );
+  vi.mocked(countCards).mockImplementation(async () => cards.length);
+}
 
 describe('CardService', () => {
   let sampleCards: Card[];
@@ -112,7 +144,7 @@ describe('CardService', () => {
     ];
 
     // Default mock implementation
-    vi.mocked(getCards).mockResolvedValue(sampleCards);
+    seedCards(sampleCards);
   });
 
   afterEach(() => {
@@ -168,7 +200,7 @@ describe('CardService', () => {
 
       await upsertCard(newCard);
 
-      expect(saveCard).toHaveBeenCalledWith(newCard);
+      expect(putCard).toHaveBeenCalledWith(newCard);
       expect(mockDispatchEvent).toHaveBeenCalledWith(
         expect.objectContaining({
           type: 'nabokov:cards-updated',
@@ -185,15 +217,13 @@ describe('CardService', () => {
     it('should update a card with partial changes', async () => {
       await updateCard('card-1', { starred: true });
 
-      expect(mockStorageLocal.set).toHaveBeenCalledWith({
-        cards: expect.arrayContaining([
-          expect.objectContaining({
-            id: 'card-1',
-            starred: true,
-            updatedAt: expect.any(Number),
-          }),
-        ]),
-      });
+      expect(putCard).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 'card-1',
+          starred: true,
+          updatedAt: expect.any(Number),
+        })
+      );
 
       expect(mockDispatchEvent).toHaveBeenCalled();
       expect(mockRuntimeSendMessage).toHaveBeenCalled();
@@ -210,8 +240,7 @@ describe('CardService', () => {
 
       await updateCard('card-1', { content: 'Updated content' });
 
-      const updatedCards = mockStorageLocal.set.mock.calls[0][0].cards;
-      const updatedCard = updatedCards.find((c: Card) => c.id === 'card-1');
+      const updatedCard = vi.mocked(putCard).mock.calls[0][0];
 
       expect(updatedCard.updatedAt).toBeGreaterThanOrEqual(beforeTime);
     });
@@ -221,14 +250,12 @@ describe('CardService', () => {
     it('should set stashed to true', async () => {
       await stashCard('card-1');
 
-      expect(mockStorageLocal.set).toHaveBeenCalledWith({
-        cards: expect.arrayContaining([
-          expect.objectContaining({
-            id: 'card-1',
-            stashed: true,
-          }),
-        ]),
-      });
+      expect(putCard).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 'card-1',
+          stashed: true,
+        })
+      );
     });
 
     it('should broadcast stash-specific events', async () => {
@@ -261,14 +288,12 @@ describe('CardService', () => {
     it('should set stashed to false', async () => {
       await restoreCard('card-2'); // card-2 is stashed
 
-      expect(mockStorageLocal.set).toHaveBeenCalledWith({
-        cards: expect.arrayContaining([
-          expect.objectContaining({
-            id: 'card-2',
-            stashed: false,
-          }),
-        ]),
-      });
+      expect(putCard).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 'card-2',
+          stashed: false,
+        })
+      );
     });
 
     it('should broadcast restore-specific events', async () => {
@@ -289,19 +314,6 @@ describe('CardService', () => {
     });
   });
 
-  describe('deleteCardPermanently', () => {
-    it('should delete a card and broadcast', async () => {
-      await deleteCardPermanently('card-1');
-
-      expect(deleteCard).toHaveBeenCalledWith('card-1');
-      expect(mockDispatchEvent).toHaveBeenCalled();
-      expect(mockRuntimeSendMessage).toHaveBeenCalledWith({
-        type: 'CARD_DELETED',
-        cardId: 'card-1',
-      });
-    });
-  });
-
   describe('duplicateCard', () => {
     it('should create a duplicate with new ID', async () => {
       const duplicate = await duplicateCard('card-1');
@@ -318,7 +330,7 @@ describe('CardService', () => {
         position: { x: 100, y: 200 },
       };
 
-      vi.mocked(getCards).mockResolvedValue([originalCard]);
+      seedCards([originalCard]);
 
       const duplicate = await duplicateCard('card-1');
 
@@ -362,9 +374,7 @@ describe('CardService', () => {
     });
 
     it('should return empty array when no stashed cards', async () => {
-      vi.mocked(getCards).mockResolvedValue(
-        sampleCards.filter(c => !c.stashed)
-      );
+      seedCards(sampleCards.filter(c => !c.stashed));
 
       const stashed = await getStashedCards();
 
@@ -0,0 +1,102 @@
+/**
+ * Unit tests for smart collections
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { installChromeStorageMock } from '../../../utils/chromeStorageMock';
+import {
+  beautifyCollection,
+  createCollection,
+  deleteCollection,
+  getCollectionCards,
+  getCollections,
+  matchesCollection,
+  renameCollection,
+  updateCollectionFilters,
+} from '@/shared/services/collectionService';
+import { DEFAULT_FILTERS, type FilterState } from '@/shared/services/filterService';
+import { beautificationService } from '@/services/beautificationService';
+import type { Card } from '@/types/card';
+import { createCard } from '../../../fixtures/data';
+
+vi.mock('@/services/beautificationService', () => ({
+  beautificationService: {
+    beautifyCard: vi.fn(),
+    isBeautified: (card: Card) => !!card.beautifiedContent,
+  },
+}));
+
+function filters(overrides: Partial<FilterState>): FilterState {
+  return { ...DEFAULT_FILTERS, ...overrides };
+}
+
+describe('collectionService', () => {
+  beforeEach(() => {
+    installChromeStorageMock();
+    vi.mocked(beautificationService.beautifyCard).mockReset();
+  });
+
+  it('saves, renames and deletes collections', async () => {
+    const collection = await createCollection('  Reading  ', filters({ searchQuery: ' tag:ml ', semantic: true }));
+
+    expect(collection.name).toBe('Reading');
+    expect(collection.filters.searchQuery).toBe('tag:ml');
+    expect(collection.filters.semantic).toBeUndefined();
+
+    await renameCollection(collection.id, 'ML reading');
+    await updateCollectionFilters(collection.id, filters({ starredOnly: true }));
+    const [stored] = await getCollections();
+    expect(stored).toMatchObject({ name: 'ML reading', filters: { starredOnly: true, searchQuery: '' } });
+
+    await deleteCollection(collection.id);
+    expect(await getCollections()).toEqual([]);
+  });
+
+  it('rejects empty names and unknown collections', async () => {
+    await expect(createCollection('  ', DEFAULT_FILTERS)).rejects.toThrow('Collection name is required');
+    await expect(renameCollection('missing', 'Name')).rejects.toThrow('Collection not found');
+  });
+
+  it('evaluates membership against the current cards', async () => {
+    const collection = await createCollection('ML', filters({ searchQuery: 'tag:ml transformers', starredOnly: true }));
+    const cards = [
+      createCard('a', { tags: ['ml'], starred: true, content: '<p>Transformers</p>' }),
+      createCard('b', { tags: ['ml'], content: '<p>Transformers</p>' }),
+      createCard('c', { tags: ['ml'], starred: true, content: '<p>Soup</p>' }),
+    ];
+
+    expect(getCollectionCards(collection, cards).map(card => card.id)).toEqual(['a']);
+
+    // Edits and new cards are picked up without touching the collection
+    const edited = [...cards, createCard('d', { tags: ['ml'], starred: true, content: '<p>Transformers again</p>' })];
+    edited[1] = { ...edited[1], starred: true };
+    expect(getCollectionCards(collection, edited).map(card => card.id).sort()).toEqual(['a', 'b', 'd']);
+  });
+
+  it('recognizes the filters a collection was saved with', async () => {
+    const collection = await createCollection('Sites', filters({ selectedDomains: ['a.com', 'b.com'] }));
+
+    expect(matchesCollection(collection, filters({ selectedDomains: ['b.com', 'a.com'], semantic: true }))).toBe(true);
+    expect(matchesCollection(collection, filters({ selectedDomains: ['a.com'] }))).toBe(false);
+  });
+
+  it('beautifies unbeautified cards and keeps going after failures', async () => {
+    const collection = await createCollection('All', filters({ searchQuery: 'note' }));
+    const cards = [
+      createCard('note-1'),
+      createCard('note-2', { beautifiedContent: '<p>done</p>' }),
+      createCard('note-3'),
+      createCard('other'),
+    ];
+    vi.mocked(beautificationService.beautifyCard).mockImplementation(async (cardId) => {
+      if (cardId === 'note-1') throw new Error('API down');
+    });
+    const progress = vi.fn();
+
+    const result = await beautifyCollection(collection, cards, progress);
+
+    expect(beautificationService.beautifyCard).toHaveBeenCalledTimes(2);
+    expect(result).toEqual({ succeeded: 1, failed: [{ cardId: 'note-1', error: 'API down' }] });
+    expect(progress).toHaveBeenLastCalledWith(2, 2);
+  });
+});
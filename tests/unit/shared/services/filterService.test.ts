@@ -9,6 +9,11 @@ import {
   filterCards,
   saveFilters,
   loadFilters,
+  parseSearchQuery,
+  countFacets,
+  isFiltering,
+  toDay,
+  withDayRange,
   DEFAULT_FILTERS,
   type FilterState,
 } from '@/shared/services/filterService';
@@ -428,6 +433,167 @@ describe('FilterService', () => {
     });
   });
 
+  describe('parseSearchQuery', () => {
+    it('should split operators from free text', () => {
+      const parsed = parseSearchQuery('tag:ml domain:ArXiv.org starred:true "exact  Phrase" attention -survey -"old news"');
+
+      expect(parsed.filters).toEqual({
+        selectedTags: ['ml'],
+        selectedDomains: ['arxiv.org'],
+        starredOnly: true,
+      });
+      expect(parsed.text).toEqual({
+        terms: ['attention'],
+        phrases: ['exact phrase'],
+        excluded: ['survey', 'old news'],
+      });
+    });
+
+    it('should parse dates as local midnight', () => {
+      const parsed = parseSearchQuery('after:2025-01-01 before:2025-02-01');
+
+      expect(parsed.filters.createdAfter).toBe(new Date(2025, 0, 1).getTime());
+      expect(parsed.filters.createdBefore).toBe(new Date(2025, 1, 1).getTime());
+    });
+
+    it('should parse negated operators', () => {
+      const parsed = parseSearchQuery('-tag:ML -domain:X.com -after:2025-01-01 -before:2025-02-01');
+
+      expect(parsed.filters).toEqual({
+        excludedTags: ['ml'],
+        excludedDomains: ['x.com'],
+        createdBefore: new Date(2025, 0, 1).getTime(),
+        createdAfter: new Date(2025, 1, 1).getTime(),
+      });
+      expect(parsed.text.excluded).toEqual([]);
+    });
+
+    it('should exclude an invalid negated operator as one phrase', () => {
+      const parsed = parseSearchQuery('-starred:true -foo:bar');
+
+      expect(parsed.filters).toEqual({});
+      expect(parsed.text.excluded).toEqual(['starred true', 'foo bar']);
+    });
+
+    it('should search invalid operators as text', () => {
+      const parsed = parseSearchQuery('after:yesterday starred:maybe foo:bar');
+
+      expect(parsed.filters).toEqual({});
+      expect(parsed.text.terms).toEqual(['after', 'yesterday', 'starred', 'maybe', 'foo', 'bar']);
+    });
+  });
+
+  describe('filterCards with query syntax', () => {
+    it('should apply operators and free text together', () => {
+      const filtered = filterCards(sampleCards, {
+        ...DEFAULT_FILTERS,
+        searchQuery: 'tag:javascript starred:true -hooks',
+      });
+
+      expect(filtered.map(card => card.id)).toEqual(['card-1']);
+    });
+
+    it('should match tags and domains case-insensitively and exclude negated ones', () => {
+      const byTag = filterCards(sampleCards, { ...DEFAULT_FILTERS, searchQuery: 'tag:JavaScript -tag:React' });
+      const byDomain = filterCards(sampleCards, { ...DEFAULT_FILTERS, searchQuery: '-domain:Example.com' });
+
+      expect(byTag.map(card => card.id)).toEqual(['card-1']);
+      expect(byDomain.map(card => card.id)).toEqual(['card-2', 'card-4']);
+    });
+
+    it('should filter by date bounds', () => {
+      const now = Date.now();
+      const dayMs = 24 * 60 * 60 * 1000;
+
+      const filtered = filterCards(sampleCards, {
+        ...DEFAULT_FILTERS,
+        createdAfter: now - 11 * dayMs,
+        createdBefore: now - 3 * dayMs,
+      });
+
+      expect(filtered.map(card => card.id)).toEqual(['card-1', 'card-2']);
+    });
+
+    it('should not match markup in content', () => {
+      const cards = [{ ...sampleCards[0], content: '<p class="tutorial">Plain</p>', tags: [] }];
+
+      expect(filterCards(cards, { ...DEFAULT_FILTERS, searchQuery: 'class' })).toHaveLength(0);
+    });
+
+    it('should rank better matches first', () => {
+      const filtered = filterCards(sampleCards, { ...DEFAULT_FILTERS, searchQuery: 'react' });
+
+      expect(filtered[0].id).toBe('card-3');
+    });
+  });
+
+  describe('facets', () => {
+    let facetCards: Card[];
+    const connections = [{ id: 'conn-1', source: 'card-1', target: 'card-2', type: 'related' as const }];
+
+    beforeEach(() => {
+      facetCards = [
+        { ...sampleCards[0], cardType: 'note', conversation: [{ id: 'm', role: 'user', content: 'hi', timestamp: 1 }] },
+        { ...sampleCards[1], beautifiedContent: '<p>pretty</p>', metadata: { ...sampleCards[1].metadata, color: '#C0392B' } },
+        { ...sampleCards[2], metadata: { ...sampleCards[2].metadata, color: '#C0392B' } },
+      ];
+    });
+
+    it('should filter by card type, treating untyped cards as clipped', () => {
+      const filtered = filterCards(facetCards, { ...DEFAULT_FILTERS, cardTypes: ['clipped'] });
+
+      expect(filtered.map(card => card.id)).toEqual(['card-2', 'card-3']);
+    });
+
+    it('should filter by conversation, beautification and color', () => {
+      const ids = (filters: Partial<FilterState>) =>
+        filterCards(facetCards, { ...DEFAULT_FILTERS, ...filters }).map(card => card.id);
+
+      expect(ids({ hasConversation: true })).toEqual(['card-1']);
+      expect(ids({ beautified: false })).toEqual(['card-1', 'card-3']);
+      expect(ids({ colors: ['#C0392B'], beautified: false })).toEqual(['card-3']);
+    });
+
+    it('should filter orphans only when connections are given', () => {
+      const filters = { ...DEFAULT_FILTERS, orphan: true };
+
+      expect(filterCards(facetCards, filters, undefined, connections).map(card => card.id)).toEqual(['card-3']);
+      expect(filterCards(facetCards, filters)).toHaveLength(3);
+    });
+
+    it('should count each facet over the cards matching the other filters', () => {
+      const counts = countFacets(
+        facetCards,
+        { ...DEFAULT_FILTERS, cardTypes: ['clipped'], orphan: true },
+        undefined,
+        connections
+      );
+
+      // Card type ignores its own selection: the orphan card-3 is clipped
+      expect(counts.cardTypes).toEqual({ clipped: 1, note: 0, generated: 0, image: 0 });
+      // Orphan ignores its own selection: both clipped cards
+      expect(counts.orphan).toEqual({ yes: 1, no: 1 });
+      expect(counts.beautified).toEqual({ yes: 0, no: 1 });
+      expect(counts.colors).toEqual({ '#C0392B': 1 });
+    });
+
+    it('should turn an inclusive day range into created bounds', () => {
+      const filters = withDayRange(DEFAULT_FILTERS, '2025-03-01', '2025-03-31');
+
+      expect(filters.createdAfter).toBe(new Date(2025, 2, 1).getTime());
+      expect(filters.createdBefore).toBe(new Date(2025, 3, 1).getTime());
+      expect(toDay(filters.createdBefore! - 1)).toBe('2025-03-31');
+      expect(withDayRange(filters, '', 'not-a-date')).toMatchObject({ createdAfter: undefined, createdBefore: undefined });
+    });
+
+    it('should report facets and date bounds as active filters', () => {
+      expect(isFiltering(DEFAULT_FILTERS)).toBe(false);
+      expect(isFiltering({ ...DEFAULT_FILTERS, semantic: true })).toBe(false);
+      expect(isFiltering({ ...DEFAULT_FILTERS, beautified: false })).toBe(true);
+      expect(isFiltering({ ...DEFAULT_FILTERS, createdBefore: 1 })).toBe(true);
+    });
+  });
+
   describe('saveFilters', () => {
     it('should save filters to session storage', async () => {
       const filters: FilterState = {
@@ -0,0 +1,91 @@
+/**
+ * Unit tests for graph export (JSON Canvas, GraphML, Mermaid)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { exportGraph, toGraphML, toJsonCanvas, toMermaid } from '@/shared/services/graphExportService';
+import type { Card } from '@/types/card';
+import type { CardConnection } from '@/types/connection';
+import { createCard } from '../../../fixtures/data';
+
+const cards = [
+  createCard('a', { content: '<p>Body of a</p>', position: { x: 10.4, y: 20 }, size: { width: 400, height: 300 }, tags: ['ml', 'nlp'], starred: true }),
+  createCard('b', { metadata: { url: 'https://x.dev', title: 'Say "hi" <now>', domain: 'x.dev', timestamp: 1 } }),
+  createCard('c'),
+];
+
+const connections: CardConnection[] = [
+  { id: 'e1', source: 'a', target: 'b', type: 'references', label: 'cites' },
+  { id: 'e2', source: 'b', target: 'c', type: 'contradicts' },
+];
+
+describe('graphExportService', () => {
+  describe('JSON Canvas', () => {
+    it('preserves positions and sizes and writes text nodes', () => {
+      const canvas = JSON.parse(toJsonCanvas(cards, connections));
+
+      expect(canvas.nodes[0]).toMatchObject({ id: 'a', type: 'text', x: 10, y: 20, width: 400, height: 300 });
+      expect(canvas.nodes[0].text).toContain('## a');
+      expect(canvas.nodes[0].text).toContain('Body of a');
+      expect(canvas.nodes[0].color).toBe('#D4AF37');
+    });
+
+    it('prefers live node layout over stored positions', () => {
+      const canvas = JSON.parse(toJsonCanvas(cards, [], { a: { x: 500, y: 600, width: 100, height: 50 } }));
+      expect(canvas.nodes[0]).toMatchObject({ x: 500, y: 600, width: 100, height: 50 });
+    });
+
+    it('writes directed edges labelled with the connection type or label', () => {
+      const canvas = JSON.parse(toJsonCanvas(cards, connections));
+
+      expect(canvas.edges).toEqual([
+        expect.objectContaining({ id: 'e1', fromNode: 'a', toNode: 'b', toEnd: 'arrow', label: 'cites' }),
+        expect.objectContaining({ id: 'e2', fromNode: 'b', toNode: 'c', label: 'contradicts' }),
+      ]);
+    });
+  });
+
+  describe('GraphML', () => {
+    it('declares keys and writes escaped node and edge data', () => {
+      const xml = toGraphML(cards, connections);
+
+      expect(xml).toContain('<key id="title" for="node" attr.name="title" attr.type="string"/>');
+      expect(xml).toContain('<data key="title">Say &quot;hi&quot; &lt;now&gt;</data>');
+      expect(xml).toContain('<data key="tags">ml, nlp</data>');
+      expect(xml).toContain('<edge id="e1" source="a" target="b">');
+      expect(xml).toContain('<data key="e_label">cites</data>');
+    });
+
+    it('produces well-formed XML', () => {
+      const doc = new DOMParser().parseFromString(toGraphML(cards, connections), 'application/xml');
+
+      expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+      expect(doc.getElementsByTagName('node')).toHaveLength(3);
+      expect(doc.getElementsByTagName('edge')).toHaveLength(2);
+    });
+  });
+
+  describe('Mermaid', () => {
+    it('writes a flowchart with typed arrows and escaped labels', () => {
+      expect(toMermaid(cards, connections)).toBe([
+        'flowchart LR',
+        '  n0["a"]',
+        '  n1["Say #quot;hi#quot;  now"]',
+        '  n2["c"]',
+        '  n0 -.->|"cites"| n1',
+        '  n1 --x n2',
+        '  classDef starred stroke:#D4AF37,stroke-width:3px',
+        '  class n0 starred',
+        '',
+      ].join('\n'));
+    });
+  });
+
+  it('drops connections to cards outside a filtered export', () => {
+    const subset = [cards[0], cards[1]];
+
+    expect(JSON.parse(exportGraph('json-canvas', subset, connections)).edges).toHaveLength(1);
+    expect(exportGraph('graphml', subset, connections)).not.toContain('id="e2"');
+    expect(exportGraph('mermaid', subset, connections)).not.toContain('--x');
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Unit tests for canvas group frames
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { installChromeStorageMock } from '../../../utils/chromeStorageMock';
+import {
+  GROUP_HEADER_HEIGHT,
+  GROUP_PADDING,
+  computeGroupBounds,
+  findGroupAt,
+  getGroups,
+  groupCards,
+  isGroupOnBoard,
+  ungroupGroups,
+  updateGroup,
+} from '@/shared/services/groupService';
+import { DEFAULT_BOARD_ID, createBoard, deleteBoard, getBoards } from '@/shared/services/boardService';
+import { undo } from '@/shared/services/historyService';
+import { closeCardDatabase, getCardRecord, putCard } from '@/utils/cardRepository';
+import type { CanvasGroup } from '@/types/group';
+import { createCard } from '../../../fixtures/data';
+
+async function resetDatabase() {
+  await closeCardDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase('nabokov_cards');
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function createGroup(id: string, overrides: Partial<CanvasGroup> = {}): CanvasGroup {
+  return {
+    id,
+    title: id,
+    color: '#D4AF37',
+    position: { x: 0, y: 0 },
+    size: { width: 1000, height: 1000 },
+    createdAt: 1,
+    updatedAt: 1,
+    ...overrides,
+  };
+}
+
+const rect = (x: number, y: number) => ({ x, y, width: 100, height: 100 });
+
+describe('groupService', () => {
+  beforeEach(async () => {
+    installChromeStorageMock();
+    await resetDatabase();
+  });
+
+  it('frames card rectangles with padding and room for the title bar', () => {
+    const bounds = computeGroupBounds([rect(100, 100), rect(300, 400)]);
+
+    expect(bounds.position).toEqual({
+      x: 100 - GROUP_PADDING,
+      y: 100 - GROUP_PADDING - GROUP_HEADER_HEIGHT,
+    });
+    expect(bounds.size).toEqual({
+      width: 300 + GROUP_PADDING * 2,
+      height: 400 + GROUP_PADDING * 2 + GROUP_HEADER_HEIGHT,
+    });
+    expect(() => computeGroupBounds([])).toThrow();
+  });
+
+  it('drops a card into the smallest expanded frame under its center', () => {
+    const outer = createGroup('outer');
+    const inner = createGroup('inner', { position: { x: 100, y: 100 }, size: { width: 300, height: 300 } });
+    const collapsed = createGroup('collapsed', {
+      position: { x: 150, y: 150 },
+      size: { width: 100, height: 100 },
+      collapsed: true,
+    });
+
+    expect(findGroupAt([outer, inner, collapsed], rect(150, 150))?.id).toBe('inner');
+    expect(findGroupAt([outer, inner], rect(600, 600))?.id).toBe('outer');
+    expect(findGroupAt([outer], rect(2000, 2000))).toBeUndefined();
+  });
+
+  it('groups and ungroups cards as single undo steps', async () => {
+    await putCard(createCard('a'));
+    await putCard(createCard('b'));
+
+    const group = await groupCards(
+      [{ cardId: 'a', rect: rect(0, 0) }, { cardId: 'b', rect: rect(200, 0) }],
+      { boardId: DEFAULT_BOARD_ID, title: ' Sources ' }
+    );
+    expect(group.title).toBe('Sources');
+    expect(group.boardId).toBeUndefined();
+    expect((await getCardRecord('a'))?.groupId).toBe(group.id);
+
+    await ungroupGroups([group.id]);
+    expect(await getGroups()).toEqual([]);
+    expect((await getCardRecord('b'))?.groupId).toBeUndefined();
+
+    await undo();
+    expect((await getGroups()).map(g => g.id)).toEqual([group.id]);
+    expect((await getCardRecord('b'))?.groupId).toBe(group.id);
+
+    await undo();
+    expect(await getGroups()).toEqual([]);
+    expect((await getCardRecord('a'))?.groupId).toBeUndefined();
+
+    await expect(groupCards([], { boardId: DEFAULT_BOARD_ID })).rejects.toThrow('Select at least one card');
+  });
+
+  it('collapses and renames frames', async () => {
+    await putCard(createCard('a'));
+    const group = await groupCards([{ cardId: 'a', rect: rect(0, 0) }], { boardId: DEFAULT_BOARD_ID });
+
+    await updateGroup(group.id, { collapsed: true, title: 'Reading' });
+    expect((await getGroups())[0]).toMatchObject({ collapsed: true, title: 'Reading' });
+
+    await expect(updateGroup(group.id, { title: '  ' })).rejects.toThrow('Group title is required');
+    await expect(updateGroup('missing', { collapsed: false })).rejects.toThrow('Group not found');
+  });
+
+  it('keeps frames on their board and returns them to the main board when it is deleted', async () => {
+    const board = await createBoard('Research');
+    await putCard(createCard('a', { boardIds: [board.id] }));
+    const group = await groupCards([{ cardId: 'a', rect: rect(0, 0) }], { boardId: board.id });
+
+    const boards = await getBoards();
+    expect(isGroupOnBoard(group, board.id, boards)).toBe(true);
+    expect(isGroupOnBoard(group, DEFAULT_BOARD_ID, boards)).toBe(false);
+
+    await deleteBoard(board.id);
+    const [moved] = await getGroups();
+    expect(isGroupOnBoard(moved, DEFAULT_BOARD_ID, await getBoards())).toBe(true);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Unit tests for undo/redo history
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { installChromeStorageMock } from '../../../utils/chromeStorageMock';
+import {
+  HISTORY_STORAGE_KEY,
+  MAX_HISTORY_BYTES,
+  MAX_HISTORY_ENTRIES,
+  cardChange,
+  clearHistory,
+  connectionChange,
+  getHistoryStatus,
+  getInlineHistoryImageBytes,
+  offloadHistoryImages,
+  recordHistory,
+  redo,
+  undo,
+} from '@/shared/services/historyService';
+import { updateCard, trashCards } from '@/shared/services/cardService';
+import { closeCardDatabase, getCardRecord, putCard } from '@/utils/cardRepository';
+import { loadConnections, saveConnections } from '@/utils/connectionStorage';
+import type { CardConnection } from '@/types/connection';
+import { createCard } from '../../../fixtures/data';
+
+async function resetDatabase() {
+  await closeCardDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase('nabokov_cards');
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+const connection: CardConnection = { id: 'c1', source: 'a', target: 'b', type: 'related' };
+
+describe('historyService', () => {
+  let storage: ReturnType<typeof installChromeStorageMock>;
+
+  beforeEach(async () => {
+    storage = installChromeStorageMock();
+    await resetDatabase();
+    await clearHistory();
+  });
+
+  it('undoes and redoes a card edit', async () => {
+    await putCard(createCard('a'));
+    await updateCard('a', { tags: ['new'] });
+
+    expect(await getHistoryStatus()).toMatchObject({ canUndo: true, canRedo: false, undoLabel: 'Edit card' });
+
+    await undo();
+    expect((await getCardRecord('a'))?.tags).toEqual([]);
+    expect(await getHistoryStatus()).toMatchObject({ canUndo: false, canRedo: true, redoLabel: 'Edit card' });
+
+    await redo();
+    expect((await getCardRecord('a'))?.tags).toEqual(['new']);
+  });
+
+  it('restores trashed cards as one step', async () => {
+    await putCard(createCard('a'));
+    await putCard(createCard('b'));
+    await trashCards(['a', 'b']);
+    expect(await getCardRecord('a')).toBeUndefined();
+
+    const entry = await undo();
+
+    expect(entry?.label).toBe('Delete 2 cards');
+    expect(await getCardRecord('a')).toBeDefined();
+    expect(await getCardRecord('b')).toBeDefined();
+
+    await redo();
+    expect(await getCardRecord('a')).toBeUndefined();
+  });
+
+  it('undoes connection add and remove', async () => {
+    await saveConnections([connection]);
+    await recordHistory('Add connection', [connectionChange(null, connection)]);
+    await saveConnections([]);
+    await recordHistory('Remove connection', [connectionChange(connection, null)]);
+
+    await undo();
+    expect(await loadConnections()).toEqual([connection]);
+
+    await undo();
+    expect(await loadConnections()).toEqual([]);
+  });
+
+  it('clears the redo stack when a new change is recorded', async () => {
+    await recordHistory('Create card', [cardChange(null, createCard('a'))]);
+    await undo();
+    await recordHistory('Create card', [cardChange(null, createCard('b'))]);
+
+    expect((await getHistoryStatus()).canRedo).toBe(false);
+    expect(await redo()).toBeNull();
+  });
+
+  it('moves snapshot images to IndexedDB when recording and restores them on undo', async () => {
+    const imageData = `data:image/png;base64,${'A'.repeat(20000)}`;
+    const before = createCard('img', { cardType: 'image', imageData });
+    const after = createCard('img', { cardType: 'image', imageData, tags: ['moved'] });
+    await putCard(after);
+    await recordHistory('Edit card', [cardChange(before, after)]);
+
+    expect(await getInlineHistoryImageBytes()).toBe(0);
+    expect(JSON.stringify(storage._getInternalStorage()[HISTORY_STORAGE_KEY])).not.toContain('AAAA');
+    expect(before.imageData).toBe(imageData);
+
+    await undo();
+    const restored = await getCardRecord('img');
+    expect(restored?.tags).toEqual([]);
+    expect(restored?.imageData).toBe(imageData);
+  });
+
+  it('offloads inline images left in older stacks', async () => {
+    const imageData = `data:image/png;base64,${'B'.repeat(20000)}`;
+    const card = createCard('img', { cardType: 'image', imageData });
+    await chrome.storage.local.set({
+      [HISTORY_STORAGE_KEY]: {
+        undo: [{ id: 'h1', label: 'Create card', timestamp: 1, changes: [cardChange(null, card)] }],
+        redo: [],
+      },
+    });
+
+    expect(await getInlineHistoryImageBytes()).toBe(imageData.length);
+    expect(await offloadHistoryImages()).toBeGreaterThan(imageData.length - 100);
+    expect(await getInlineHistoryImageBytes()).toBe(0);
+
+    await undo();
+    await redo();
+    expect((await getCardRecord('img'))?.imageData).toBe(imageData);
+  });
+
+  it('skips changes that only bump updatedAt', async () => {
+    await recordHistory('Move card', [cardChange(createCard('a'), createCard('a', { updatedAt: 99 }))]);
+
+    expect((await getHistoryStatus()).canUndo).toBe(false);
+  });
+
+  it('keeps at most MAX_HISTORY_ENTRIES in persisted storage', async () => {
+    for (let i = 0; i <= MAX_HISTORY_ENTRIES; i++) {
+      await recordHistory(`Step ${i}`, [cardChange(null, createCard(`card-${i}`))]);
+    }
+
+    const stored = storage._getInternalStorage()[HISTORY_STORAGE_KEY];
+    expect(stored.undo).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(stored.undo[0].label).toBe('Step 1');
+  });
+
+  it('drops the oldest steps once the stack exceeds MAX_HISTORY_BYTES', async () => {
+    const content = `<p>${'x'.repeat(MAX_HISTORY_BYTES / 4)}</p>`;
+    for (let i = 0; i < 6; i++) {
+      await recordHistory(`Step ${i}`, [cardChange(null, createCard(`card-${i}`, { content }))]);
+    }
+
+    const stored = storage._getInternalStorage()[HISTORY_STORAGE_KEY];
+    expect(JSON.stringify(stored.undo).length).toBeLessThanOrEqual(MAX_HISTORY_BYTES);
+    expect(stored.undo.length).toBeLessThan(6);
+    expect(stored.undo[stored.undo.length - 1].label).toBe('Step 5');
+  });
+});
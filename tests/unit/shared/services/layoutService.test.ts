@@ -0,0 +1,197 @@
+/**
+ * Unit tests for automatic canvas layouts
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { installChromeStorageMock } from '../../../utils/chromeStorageMock';
+import {
+  LAYOUT_GAP,
+  applyLayout,
+  buildLayoutEdges,
+  computeLayout,
+  findFreePosition,
+  placeGeneratedCard,
+  type LayoutEdge,
+  type LayoutNode,
+  type LayoutPositions,
+} from '@/shared/services/layoutService';
+import { getGroups, groupCards } from '@/shared/services/groupService';
+import { DEFAULT_BOARD_ID } from '@/shared/services/boardService';
+import { undo } from '@/shared/services/historyService';
+import { closeCardDatabase, getCardRecord, putCard } from '@/utils/cardRepository';
+import { saveBoards } from '@/utils/boardStorage';
+import { createCard } from '../../../fixtures/data';
+
+async function resetDatabase() {
+  await closeCardDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase('nabokov_cards');
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function node(id: string, x = 0, y = 0, domain?: string): LayoutNode {
+  return { id, x, y, width: 300, height: 200, domain };
+}
+
+function generated(source: string, target: string): LayoutEdge {
+  return { source, target, type: 'generated-from' };
+}
+
+function expectNoOverlaps(nodes: LayoutNode[], positions: LayoutPositions) {
+  for (let i = 0; i < nodes.length; i++) {
+    for (let j = i + 1; j < nodes.length; j++) {
+      const a = { ...nodes[i], ...positions[nodes[i].id] };
+      const b = { ...nodes[j], ...positions[nodes[j].id] };
+      const apart =
+        a.x + a.width <= b.x || b.x + b.width <= a.x || a.y + a.height <= b.y || b.y + b.height <= a.y;
+      expect(apart, `${a.id} overlaps ${b.id}`).toBe(true);
+    }
+  }
+}
+
+describe('layoutService', () => {
+  beforeEach(async () => {
+    installChromeStorageMock();
+    await resetDatabase();
+  });
+
+  it('lays out generated cards in columns to the right of their source', () => {
+    // Everything starts stacked on one spot
+    const nodes = ['root', 'a', 'b', 'a1', 'loose'].map(id => node(id, 100, 100));
+    const edges = [generated('root', 'a'), generated('root', 'b'), generated('a', 'a1')];
+
+    const positions = computeLayout('hierarchical', nodes, edges);
+
+    expect(positions.a.x).toBe(positions.root.x + 300 + LAYOUT_GAP);
+    expect(positions.a1.x).toBe(positions.a.x + 300 + LAYOUT_GAP);
+    expect(positions.b.x).toBe(positions.a.x);
+    expect(positions.loose.x).toBe(positions.root.x);
+    // Layout starts where the cards were
+    expect(Math.min(...Object.values(positions).map(p => p.x))).toBe(100);
+    expectNoOverlaps(nodes, positions);
+  });
+
+  it('survives generation cycles', () => {
+    const nodes = [node('a'), node('b')];
+    const positions = computeLayout('hierarchical', nodes, [generated('a', 'b'), generated('b', 'a')]);
+
+    expect(Object.keys(positions).sort()).toEqual(['a', 'b']);
+    expectNoOverlaps(nodes, positions);
+  });
+
+  it('runs a deterministic force layout without overlaps', () => {
+    const nodes = ['a', 'b', 'c', 'd', 'e'].map((id, i) => node(id, i * 10, i * 10));
+    const edges: LayoutEdge[] = [
+      { source: 'a', target: 'b', type: 'related' },
+      { source: 'b', target: 'c', type: 'references' },
+    ];
+
+    const positions = computeLayout('force', nodes, edges);
+
+    expect(computeLayout('force', nodes, edges)).toEqual(positions);
+    expectNoOverlaps(nodes, positions);
+  });
+
+  it('groups cards into one block per domain', () => {
+    const nodes = [
+      node('w1', 0, 0, 'wikipedia.org'),
+      node('a1', 0, 0, 'arxiv.org'),
+      node('w2', 500, 0, 'wikipedia.org'),
+      node('a2', 500, 0, 'arxiv.org'),
+    ];
+
+    const positions = computeLayout('grid-by-domain', nodes, []);
+
+    expect(positions.a1.y).toBe(positions.a2.y);
+    expect(positions.w1.y).toBe(positions.w2.y);
+    expect(positions.w1.y).toBeGreaterThan(positions.a1.y);
+    expectNoOverlaps(nodes, positions);
+  });
+
+  it('keeps the radial root in place and rings cards around it', () => {
+    const nodes = [node('root', 1000, 1000), node('near'), node('far'), node('other')];
+    const edges: LayoutEdge[] = [
+      { source: 'root', target: 'near', type: 'related' },
+      { source: 'near', target: 'far', type: 'related' },
+    ];
+
+    const positions = computeLayout('radial', nodes, edges, { rootId: 'root' });
+    const distance = (id: string) =>
+      Math.hypot(positions[id].x - positions.root.x, positions[id].y - positions.root.y);
+
+    expect(positions.root).toEqual({ x: 1000, y: 1000 });
+    expect(distance('far')).toBeGreaterThan(distance('near'));
+    expect(distance('other')).toBeGreaterThan(distance('far'));
+  });
+
+  it('finds the first free slot next to the preferred position', () => {
+    const size = { width: 300, height: 200 };
+    const preferred = { x: 400, y: 0 };
+
+    expect(findFreePosition(size, [], preferred)).toEqual(preferred);
+    expect(findFreePosition(size, [{ x: 400, y: 0, ...size }], preferred)).toEqual({
+      x: 400,
+      y: 200 + LAYOUT_GAP,
+    });
+  });
+
+  it('places generated cards beside their source without covering other cards', async () => {
+    const source = createCard('source', { position: { x: 0, y: 0 }, size: { width: 300, height: 200 } });
+    await putCard(source);
+    await putCard(createCard('blocker', { position: { x: 360, y: 0 }, size: { width: 300, height: 200 } }));
+
+    const position = await placeGeneratedCard(source, { width: 300, height: 200 });
+
+    expect(position.x).toBe(300 + LAYOUT_GAP);
+    expect(position.y).not.toBe(0);
+  });
+
+  it('ignores cards on other boards when placing generated cards', async () => {
+    await saveBoards([{ id: 'other', name: 'Other', createdAt: 1, updatedAt: 1 }]);
+    const source = createCard('source', { position: { x: 0, y: 0 }, size: { width: 300, height: 200 } });
+    await putCard(source);
+    await putCard(createCard('elsewhere', {
+      position: { x: 360, y: 0 },
+      size: { width: 300, height: 200 },
+      boardIds: ['other'],
+    }));
+
+    const position = await placeGeneratedCard(source, { width: 300, height: 200 });
+
+    expect(position).toEqual({ x: 300 + LAYOUT_GAP, y: 0 });
+  });
+
+  it('adds generated-from edges for generated cards without one', () => {
+    const edges = buildLayoutEdges(
+      [createCard('child', { parentCardId: 'parent' }), createCard('linked', { parentCardId: 'parent' })],
+      [{ id: 'c1', source: 'parent', target: 'linked', type: 'generated-from' }]
+    );
+
+    expect(edges).toHaveLength(2);
+    expect(edges).toContainEqual({ source: 'parent', target: 'child', type: 'generated-from' });
+  });
+
+  it('saves a layout as one undo step and refits frames around moved cards', async () => {
+    await putCard(createCard('a', { position: { x: 0, y: 0 }, size: { width: 300, height: 200 } }));
+    await putCard(createCard('b', { position: { x: 400, y: 0 }, size: { width: 300, height: 200 } }));
+    const group = await groupCards(
+      [
+        { cardId: 'a', rect: { x: 0, y: 0, width: 300, height: 200 } },
+        { cardId: 'b', rect: { x: 400, y: 0, width: 300, height: 200 } },
+      ],
+      { boardId: DEFAULT_BOARD_ID }
+    );
+
+    await applyLayout({ a: { x: 0, y: 1000 }, b: { x: 400, y: 1000 } }, 'Grid by domain layout');
+
+    expect((await getCardRecord('a'))?.position).toEqual({ x: 0, y: 1000 });
+    const [refit] = await getGroups();
+    expect(refit.position.y).toBeGreaterThan(group.position.y);
+
+    await undo();
+    expect((await getCardRecord('a'))?.position).toEqual({ x: 0, y: 0 });
+    expect((await getGroups())[0].position).toEqual(group.position);
+  });
+});
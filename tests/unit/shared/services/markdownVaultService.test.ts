@@ -0,0 +1,119 @@
+/**
+ * Unit tests for the Markdown vault exporter
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildFrontMatter, buildMarkdownVault, toNoteName } from '@/shared/services/markdownVaultService';
+import { createZip, crc32 } from '@/utils/zipArchive';
+import type { Card } from '@/types/card';
+import type { CardConnection } from '@/types/connection';
+import { createCard } from '../../../fixtures/data';
+
+function textOf(entry: { data: Uint8Array | string }): string {
+  return typeof entry.data === 'string' ? entry.data : new TextDecoder().decode(entry.data);
+}
+
+describe('markdownVaultService', () => {
+  it('writes YAML front-matter with source, tags and dates', () => {
+    const frontMatter = buildFrontMatter(createCard('a', {
+      tags: ['ml', 'to read'],
+      starred: true,
+      createdAt: Date.UTC(2025, 0, 1),
+      updatedAt: Date.UTC(2025, 0, 2),
+    }));
+
+    expect(frontMatter).toBe([
+      '---',
+      'id: "a"',
+      'title: "a"',
+      'source: "https://example.com"',
+      'domain: "example.com"',
+      'tags:',
+      '  - "ml"',
+      '  - "to read"',
+      'starred: true',
+      'createdAt: 2025-01-01T00:00:00.000Z',
+      'updatedAt: 2025-01-02T00:00:00.000Z',
+      '---',
+    ].join('\n'));
+  });
+
+  it('makes note names safe and unique', () => {
+    const cards = [
+      createCard('a', { metadata: { ...createCard('a').metadata, title: 'What: is [this]?' } }),
+      createCard('b', { metadata: { ...createCard('b').metadata, title: 'What  is  this' } }),
+    ];
+
+    expect(toNoteName(cards[0])).toBe('What is this');
+    expect(buildMarkdownVault(cards, []).map(e => e.path)).toEqual(['What is this.md', 'What is this (2).md']);
+  });
+
+  it('prefers beautified Markdown and converts HTML otherwise', () => {
+    const [beautified, clipped] = buildMarkdownVault([
+      createCard('a', { beautifiedContent: '# Already markdown' }),
+      createCard('b', { content: '<h1>Heading</h1><p>Body</p>' }),
+    ], []);
+
+    expect(textOf(beautified)).toContain('\n\n# Already markdown\n');
+    expect(textOf(clipped)).toContain('\n\n# Heading\n\nBody\n');
+  });
+
+  it('writes outgoing connections as typed wikilinks', () => {
+    const connections: CardConnection[] = [
+      { id: 'c1', source: 'a', target: 'b', type: 'references', label: 'cites' },
+      { id: 'c2', source: 'a', target: 'missing', type: 'related' },
+    ];
+
+    const [noteA, noteB] = buildMarkdownVault([createCard('a'), createCard('b')], connections);
+
+    expect(textOf(noteA)).toContain('## Connections\n\n- references: [[b]] — cites\n');
+    expect(textOf(noteA)).not.toContain('missing');
+    expect(textOf(noteB)).not.toContain('## Connections');
+  });
+
+  it('extracts image data into attachments', () => {
+    const pixel = 'iVBORw0KGgo=';
+    const entries = buildMarkdownVault([
+      createCard('img', {
+        cardType: 'image',
+        content: undefined,
+        imageData: `data:image/png;base64,${pixel}`,
+        imageMimeType: 'image/png',
+      }),
+      createCard('inline', { content: `<p><img src="data:image/jpeg;base64,${pixel}" alt="x"></p>` }),
+    ], []);
+
+    expect(entries.map(e => e.path)).toEqual([
+      'img.md',
+      'inline.md',
+      'attachments/img.png',
+      'attachments/inline.jpg',
+    ]);
+    expect(textOf(entries[0])).toContain('![[attachments/img.png]]');
+    expect(textOf(entries[1])).toContain('![[attachments/inline.jpg]]');
+    expect(Array.from(entries[2].data as Uint8Array).slice(0, 4)).toEqual([0x89, 0x50, 0x4e, 0x47]);
+  });
+
+  describe('zip packaging', () => {
+    it('computes standard CRC-32', () => {
+      expect(crc32(new TextEncoder().encode('hello'))).toBe(0x3610a686);
+    });
+
+    it('writes local headers, a central directory and the end record', () => {
+      const zip = createZip([
+        { path: 'a.md', data: 'hello', modifiedAt: new Date(2025, 0, 1) },
+        { path: 'attachments/b.png', data: new Uint8Array([1, 2, 3]) },
+      ]);
+      const view = new DataView(zip.buffer);
+      const end = zip.length - 22;
+
+      expect(view.getUint32(0, true)).toBe(0x04034b50);
+      expect(view.getUint32(end, true)).toBe(0x06054b50);
+      expect(view.getUint16(end + 10, true)).toBe(2);
+
+      const centralOffset = view.getUint32(end + 16, true);
+      expect(view.getUint32(centralOffset, true)).toBe(0x02014b50);
+      expect(view.getUint32(centralOffset + 16, true)).toBe(0x3610a686);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Unit tests for the storage quota manager
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { installChromeStorageMock } from '../../../utils/chromeStorageMock';
+import {
+  findOrphanedLinks,
+  findStaleChats,
+  getStorageBreakdown,
+  isOverWarningThreshold,
+  measureCard,
+  measureCardSizes,
+  purgeOrphanedLinks,
+  purgeStaleChats,
+} from '@/shared/services/quotaService';
+import { closeCardDatabase, getCardRecord, putCard } from '@/utils/cardRepository';
+import { getAllLinks, saveAllLinks, type ExpandableLink } from '@/utils/expandableLinks';
+import { loadElementChatsForPage, saveElementChatsForPage } from '@/services/elementChatService';
+import type { ElementChatSession } from '@/types/elementChat';
+import { createCard } from '../../../fixtures/data';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function resetDatabase() {
+  await closeCardDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase('nabokov_cards');
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function createLink(id: string, parentCardId: string, childCardId: string): ExpandableLink {
+  return { id, parentCardId, childCardId, anchorText: id, startOffset: 0, endOffset: 1, createdAt: 1 };
+}
+
+function createSession(elementId: string, lastActive: number): ElementChatSession {
+  const descriptor = { chatId: elementId } as ElementChatSession['elementDescriptor'];
+  return {
+    chatId: `chat-${elementId}`,
+    elementId,
+    pageUrl: 'https://example.com/page',
+    elementDescriptor: descriptor,
+    messages: [],
+    createdAt: lastActive,
+    lastActive,
+  };
+}
+
+describe('quotaService', () => {
+  beforeEach(async () => {
+    installChromeStorageMock();
+    await resetDatabase();
+  });
+
+  it('warns at the configured threshold', () => {
+    expect(isOverWarningThreshold(79, 100)).toBe(false);
+    expect(isOverWarningThreshold(80, 100)).toBe(true);
+    expect(isOverWarningThreshold(50, 100, 0.5)).toBe(true);
+    expect(isOverWarningThreshold(10, 0)).toBe(false);
+  });
+
+  it('measures each card without writing to it, largest first', async () => {
+    const image = createCard('image', { cardType: 'image', imageData: `data:image/png;base64,${'A'.repeat(5000)}` });
+    await putCard(createCard('small'));
+    await putCard(image);
+
+    const sizes = await measureCardSizes();
+
+    expect(sizes.map(size => size.cardId)).toEqual(['image', 'small']);
+    expect(sizes[0].imageBytes).toBeGreaterThan(5000);
+    expect(sizes[0].bytes).toBe(measureCard(image));
+    expect(await getCardRecord('image')).toEqual(image);
+  });
+
+  it('groups chrome.storage.local usage by kind', async () => {
+    await chrome.storage.local.set({
+      nabokov_history: { undo: [], redo: [] },
+      nabokov_revisions_a: [],
+      card_connections: [],
+      nabokov_theme: 'light',
+    });
+
+    const categories = (await getStorageBreakdown()).map(item => item.category).sort();
+
+    expect(categories).toEqual(['connections', 'history', 'other', 'revisions']);
+  });
+
+  it('finds and purges links to missing cards', async () => {
+    await putCard(createCard('a'));
+    await putCard(createCard('b'));
+    await saveAllLinks([createLink('live', 'a', 'b'), createLink('orphan', 'a', 'gone')]);
+
+    expect((await findOrphanedLinks()).map(link => link.id)).toEqual(['orphan']);
+    expect(await purgeOrphanedLinks()).toBe(1);
+    expect((await getAllLinks()).map(link => link.id)).toEqual(['live']);
+  });
+
+  it('finds and purges stale element chats', async () => {
+    const pageUrl = 'https://example.com/page';
+    await saveElementChatsForPage({
+      pageUrl,
+      sessions: {
+        fresh: createSession('fresh', Date.now()),
+        stale: createSession('stale', Date.now() - 45 * DAY_MS),
+      },
+      lastUpdated: Date.now(),
+    });
+
+    expect(await findStaleChats()).toEqual([{ pageUrl, sessions: 1 }]);
+    expect(await purgeStaleChats()).toBe(1);
+    expect(Object.keys((await loadElementChatsForPage(pageUrl)).sessions)).toEqual(['fresh']);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Unit tests for bookmark / CSV / JSON reading list import
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { installChromeStorageMock } from '../../../utils/chromeStorageMock';
+import {
+  detectReadingListFormat,
+  importReadingList,
+  linkToCard,
+  normalizeUrl,
+  parseNetscapeBookmarks,
+  parseReadingListCsv,
+  parseReadingListJson,
+} from '@/shared/services/readingListImportService';
+import { closeCardDatabase, getAllCards, getCardsByStashed, putCard } from '@/utils/cardRepository';
+import type { Card } from '@/types/card';
+
+async function resetDatabase() {
+  await closeCardDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase('nabokov_cards');
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+const BOOKMARKS_HTML = `<!DOCTYPE NETSCAPE-Bookmark-file-1>
+<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">
+<TITLE>Bookmarks</TITLE>
+<H1>Bookmarks</H1>
+<DL><p>
+    <DT><A HREF="https://example.com/top" ADD_DATE="1700000000">Top level</A>
+    <DT><H3>Research</H3>
+    <DL><p>
+        <DT><A HREF="https://arxiv.org/abs/1" TAGS="ml,papers">Attention</A>
+        <DD>Read the appendix
+        <DT><H3>Nested</H3>
+        <DL><p>
+            <DT><A HREF="https://deep.dev/x">Deep</A>
+        </DL><p>
+    </DL><p>
+</DL><p>`;
+
+describe('readingListImportService', () => {
+  describe('normalizeUrl', () => {
+    it('ignores scheme, www, fragments, trailing slashes and tracking params', () => {
+      const canonical = normalizeUrl('https://example.com/post?id=1');
+      expect(normalizeUrl('http://www.Example.com/post/?utm_source=x&id=1#intro')).toBe(canonical);
+    });
+
+    it('sorts query parameters', () => {
+      expect(normalizeUrl('https://a.dev/?b=2&a=1')).toBe(normalizeUrl('https://a.dev/?a=1&b=2'));
+    });
+
+    it('rejects non-http URLs and garbage', () => {
+      expect(normalizeUrl('javascript:alert(1)')).toBeNull();
+      expect(normalizeUrl('not a url')).toBeNull();
+    });
+  });
+
+  describe('parsers', () => {
+    it('parses Netscape bookmarks with folders as tags', () => {
+      const links = parseNetscapeBookmarks(BOOKMARKS_HTML);
+
+      expect(links).toEqual([
+        { url: 'https://example.com/top', title: 'Top level', tags: [], note: undefined, addedAt: 1700000000000 },
+        { url: 'https://arxiv.org/abs/1', title: 'Attention', tags: ['Research', 'ml', 'papers'], note: 'Read the appendix', addedAt: undefined },
+        { url: 'https://deep.dev/x', title: 'Deep', tags: ['Research', 'Nested'], note: undefined, addedAt: undefined },
+      ]);
+    });
+
+    it('parses CSV with a header, quoted fields and Pocket-style aliases', () => {
+      const csv = 'title,URL,time_added,tags,excerpt\r\n"Hello, world",https://a.dev,1700000000,ml|nlp,"She said ""hi"""\r\n';
+
+      expect(parseReadingListCsv(csv)).toEqual([
+        { url: 'https://a.dev', title: 'Hello, world', tags: ['ml', 'nlp'], note: 'She said "hi"', addedAt: 1700000000000 },
+      ]);
+    });
+
+    it('parses headerless CSV positionally as url,title,tags,note', () => {
+      expect(parseReadingListCsv('https://a.dev,A,"x, y",note\n')).toEqual([
+        { url: 'https://a.dev', title: 'A', tags: ['x', 'y'], note: 'note', addedAt: undefined },
+      ]);
+    });
+
+    it('parses JSON arrays of strings or objects', () => {
+      const json = JSON.stringify([
+        'https://a.dev',
+        { link: 'https://b.dev', name: 'B', tags: ['t'], description: 'd', created: '2024-01-01T00:00:00Z' },
+      ]);
+
+      expect(parseReadingListJson(json)).toEqual([
+        { url: 'https://a.dev', tags: [] },
+        { url: 'https://b.dev', title: 'B', tags: ['t'], note: 'd', addedAt: Date.parse('2024-01-01T00:00:00Z') },
+      ]);
+    });
+
+    it('rejects JSON that is not a list', () => {
+      expect(() => parseReadingListJson('{"url":"x"}')).toThrow('must be an array');
+    });
+
+    it('detects the format from name and content', () => {
+      expect(detectReadingListFormat('bookmarks.html', BOOKMARKS_HTML)).toBe('bookmarks-html');
+      expect(detectReadingListFormat('export.txt', BOOKMARKS_HTML)).toBe('bookmarks-html');
+      expect(detectReadingListFormat('list.txt', '[]')).toBe('json');
+      expect(detectReadingListFormat('pocket.csv', 'url,title')).toBe('csv');
+    });
+  });
+
+  describe('linkToCard', () => {
+    it('creates a stashed note card with clip metadata and escaped content', () => {
+      const card = linkToCard({ url: 'https://a.dev/p', title: '<b>T</b>', tags: ['x'], note: 'n', addedAt: 5 }, 10);
+
+      expect(card).toMatchObject({
+        cardType: 'note',
+        stashed: true,
+        starred: false,
+        tags: ['x'],
+        createdAt: 10,
+        metadata: { url: 'https://a.dev/p', title: '<b>T</b>', domain: 'a.dev', timestamp: 5, selectedText: 'n' },
+      });
+      expect(card.content).toContain('&lt;b&gt;T&lt;/b&gt;');
+      expect(card.content).toContain('<p>n</p>');
+    });
+  });
+
+  describe('importReadingList', () => {
+    beforeEach(async () => {
+      installChromeStorageMock();
+      await resetDatabase();
+    });
+
+    it('stashes new links and skips duplicates and invalid URLs', async () => {
+      await putCard({
+        id: 'existing',
+        metadata: { url: 'https://www.a.dev/page/', title: 'A', domain: 'a.dev', timestamp: 1 },
+        starred: false,
+        tags: [],
+        createdAt: 1,
+        updatedAt: 1,
+      } as Card);
+
+      const result = await importReadingList([
+        { url: 'https://a.dev/page', tags: [] },
+        { url: 'https://b.dev', tags: [] },
+        { url: 'https://b.dev/#again', tags: [] },
+        { url: 'ftp://c.dev', tags: [] },
+      ]);
+
+      expect(result).toEqual({ imported: 1, duplicates: 2, invalid: 1 });
+      expect(await getAllCards()).toHaveLength(2);
+      expect((await getCardsByStashed(true)).map(c => c.metadata.url)).toEqual(['https://b.dev/']);
+    });
+  });
+});
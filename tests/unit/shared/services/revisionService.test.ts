@@ -0,0 +1,130 @@
+/**
+ * Unit tests for per-card revision history
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { installChromeStorageMock } from '../../../utils/chromeStorageMock';
+import {
+  MAX_REVISIONS_PER_CARD,
+  diffRevisions,
+  getRevisions,
+  recordRevision,
+  restoreRevision,
+} from '@/shared/services/revisionService';
+import { clearHistory, redo, undo } from '@/shared/services/historyService';
+import { updateCard } from '@/shared/services/cardService';
+import { closeCardDatabase, getCardRecord, putCard } from '@/utils/cardRepository';
+import type { Card } from '@/types/card';
+import { createCard } from '../../../fixtures/data';
+
+async function resetDatabase() {
+  await closeCardDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase('nabokov_cards');
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * The card every test edits, at its first draft
+ */
+function draftCard(overrides: Partial<Card> = {}): Card {
+  return createCard('card-1', { content: '<p>First draft</p>', ...overrides });
+}
+
+describe('revisionService', () => {
+  beforeEach(async () => {
+    installChromeStorageMock();
+    await resetDatabase();
+    await clearHistory();
+  });
+
+  it('records the original content before the first change', async () => {
+    const original = draftCard();
+    const edited = draftCard({ content: '<p>Second draft</p>', updatedAt: 2 });
+
+    await recordRevision(edited, 'edit', 'user', original);
+
+    const revisions = await getRevisions('card-1');
+    expect(revisions.map(r => [r.cause, r.author, r.content])).toEqual([
+      ['original', 'user', '<p>First draft</p>'],
+      ['edit', 'user', '<p>Second draft</p>'],
+    ]);
+  });
+
+  it('skips revisions that do not change content', async () => {
+    const card = draftCard();
+    await recordRevision(card, 'generate', 'ai');
+    await recordRevision({ ...card, starred: true }, 'edit', 'user', card);
+
+    expect(await getRevisions('card-1')).toHaveLength(1);
+  });
+
+  it('caps the log but keeps the original revision', async () => {
+    let previous = draftCard();
+    for (let i = 0; i < MAX_REVISIONS_PER_CARD + 5; i++) {
+      const next = draftCard({ content: `<p>v${i}</p>`, updatedAt: i + 2 });
+      await recordRevision(next, 'edit', 'user', previous);
+      previous = next;
+    }
+
+    const revisions = await getRevisions('card-1');
+    expect(revisions).toHaveLength(MAX_REVISIONS_PER_CARD);
+    expect(revisions[0].cause).toBe('original');
+    expect(revisions[revisions.length - 1].content).toBe(`<p>v${MAX_REVISIONS_PER_CARD + 4}</p>`);
+  });
+
+  it('restores a revision as a new revision and an undo step', async () => {
+    const original = draftCard();
+    const beautified = draftCard({
+      originalHTML: '<p>First draft</p>',
+      beautifiedContent: '# Tidy',
+      beautificationMode: 'organize-content',
+      updatedAt: 2,
+    });
+    await putCard(beautified);
+    await recordRevision(beautified, 'beautify', 'ai', original);
+
+    const [first] = await getRevisions('card-1');
+    await restoreRevision('card-1', first.id);
+
+    const restored = await getCardRecord('card-1');
+    expect(restored?.beautifiedContent).toBeUndefined();
+    expect(restored?.content).toBe('<p>First draft</p>');
+
+    const revisions = await getRevisions('card-1');
+    expect(revisions[revisions.length - 1]).toMatchObject({ cause: 'restore', restoredFrom: first.id });
+
+    await undo();
+    expect((await getCardRecord('card-1'))?.beautifiedContent).toBe('# Tidy');
+  });
+
+  it('records undo and redo of a content edit as revisions', async () => {
+    await putCard(draftCard());
+    await updateCard('card-1', { content: '<p>Second draft</p>' });
+
+    await undo();
+    await redo();
+
+    const revisions = await getRevisions('card-1');
+    expect(revisions.map(r => [r.cause, r.content])).toEqual([
+      ['original', '<p>First draft</p>'],
+      ['edit', '<p>Second draft</p>'],
+      ['undo', '<p>First draft</p>'],
+      ['redo', '<p>Second draft</p>'],
+    ]);
+  });
+
+  it('diffs revisions as readable text', () => {
+    const rows = diffRevisions(
+      { title: 'Notes', content: '<p>First draft</p>' },
+      { title: 'Notes', content: '<p>First draft</p>', beautifiedContent: 'First draft\n\nMore' }
+    );
+
+    expect(rows.filter(row => row.op !== 'same')).toEqual([
+      { op: 'added', left: undefined, right: '' },
+      { op: 'added', left: undefined, right: 'More' },
+    ]);
+  });
+});
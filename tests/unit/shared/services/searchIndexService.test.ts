@@ -0,0 +1,106 @@
+/**
+ * Unit tests for the full-text search index
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildSearchIndex,
+  buildSnippet,
+  searchIndex,
+  stripHtml,
+  type TextQuery,
+} from '@/shared/services/searchIndexService';
+import type { ElementChatSession } from '@/types/elementChat';
+import { createCard } from '../../../fixtures/data';
+
+function query(overrides: Partial<TextQuery>): TextQuery {
+  return { terms: [], phrases: [], excluded: [], ...overrides };
+}
+
+function ids(scores: Map<string, number>): string[] {
+  return [...scores.entries()].sort((a, b) => b[1] - a[1]).map(([id]) => id);
+}
+
+describe('searchIndexService', () => {
+  it('strips markup, scripts and entities', () => {
+    expect(stripHtml('<div class="note">Fish &amp; chips<script>var x = 1;</script></div>\n<p>&#169;&nbsp;2025</p>'))
+      .toBe('Fish & chips © 2025');
+  });
+
+  it('does not match tag names or attributes', () => {
+    const card = createCard('a', { content: '<div class="highlight" data-role="span">Plain text</div>' });
+    const index = buildSearchIndex([card]);
+
+    expect(searchIndex(index, query({ terms: ['highlight'] })).size).toBe(0);
+    expect(searchIndex(index, query({ terms: ['span'] })).size).toBe(0);
+    expect(searchIndex(index, query({ terms: ['plain'] })).size).toBe(1);
+  });
+
+  it('requires every term and matches word prefixes', () => {
+    const index = buildSearchIndex([
+      createCard('js', { content: '<p>JavaScript closures explained</p>' }),
+      createCard('java', { content: '<p>Java generics explained</p>' }),
+    ]);
+
+    expect(ids(searchIndex(index, query({ terms: ['java'] })))).toEqual(['java', 'js']);
+    expect(ids(searchIndex(index, query({ terms: ['java', 'closure'] })))).toEqual(['js']);
+  });
+
+  it('ranks title matches above body matches', () => {
+    const index = buildSearchIndex([
+      createCard('body', { content: '<p>notes about transformers</p>' }),
+      createCard('title', { metadata: { url: 'u', title: 'Transformers', domain: 'example.com', timestamp: 1 } }),
+    ]);
+
+    expect(ids(searchIndex(index, query({ terms: ['transformers'] })))).toEqual(['title', 'body']);
+  });
+
+  it('matches exact phrases and excludes words and phrases', () => {
+    const index = buildSearchIndex([
+      createCard('a', { content: '<p>gradient descent with momentum</p>' }),
+      createCard('b', { content: '<p>descent of the gradient</p>' }),
+      createCard('c', { content: '<p>stochastic gradient descent</p>' }),
+    ]);
+
+    expect(ids(searchIndex(index, query({ phrases: ['gradient descent'] }))).sort()).toEqual(['a', 'c']);
+    expect(ids(searchIndex(index, query({ phrases: ['gradient descent'], excluded: ['momentum'] })))).toEqual(['c']);
+    expect(ids(searchIndex(index, query({ excluded: ['gradient descent'] })))).toEqual(['b']);
+  });
+
+  it('indexes AI conversations and element chats from the card page', () => {
+    const card = createCard('a', {
+      metadata: { url: 'https://example.com/a', title: 'a', domain: 'example.com', timestamp: 1 },
+      conversation: [{ id: 'm1', role: 'assistant', content: 'Backpropagation computes gradients', timestamp: 1 }],
+    });
+    const session = {
+      chatId: 'chat-1',
+      elementId: 'el-1',
+      pageUrl: card.metadata.url,
+      messages: [{ id: 'm2', role: 'user', content: 'What is a tokenizer?', timestamp: 1 }],
+      createdAt: 1,
+      updatedAt: 1,
+    } as unknown as ElementChatSession;
+    const index = buildSearchIndex([card, createCard('b')], [session]);
+
+    expect(ids(searchIndex(index, query({ terms: ['backpropagation'] })))).toEqual(['a']);
+    expect(ids(searchIndex(index, query({ terms: ['tokenizer'] })))).toEqual(['a']);
+    expect(buildSnippet(index, 'a', query({ terms: ['tokenizer'] }))?.field).toBe('chats');
+  });
+
+  it('builds a snippet around the first match with matches marked', () => {
+    const words = Array.from({ length: 60 }, (_, i) => `word${i}`).join(' ');
+    const card = createCard('a', { content: `<p>${words} Neural networks learn. More neural nets.</p>` });
+    const index = buildSearchIndex([card]);
+
+    const snippet = buildSnippet(index, 'a', query({ terms: ['neural'] }), 80)!;
+
+    expect(snippet.field).toBe('text');
+    expect(snippet.segments[0]).toEqual({ text: '…', match: false });
+    expect(snippet.segments.filter(segment => segment.match).map(segment => segment.text)).toEqual(['Neural', 'neural']);
+  });
+
+  it('has no snippet when only the title matched', () => {
+    const index = buildSearchIndex([createCard('Attention', { content: '' })]);
+    expect(buildSnippet(index, 'Attention', query({ terms: ['attention'] }))).toBeNull();
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Unit tests for semantic card search
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { installChromeStorageMock } from '../../../utils/chromeStorageMock';
+import {
+  cardEmbeddingText,
+  cosineSimilarity,
+  embedQuery,
+  ensureEmbeddings,
+  findSimilarCards,
+  rankByQueryEmbedding,
+  rankBySimilarity,
+} from '@/shared/services/semanticSearchService';
+import { closeCardDatabase, getCardRecord, getEmbeddings, putCard, putCards } from '@/utils/cardRepository';
+import type { Card } from '@/types/card';
+import { createCard } from '../../../fixtures/data';
+
+const TOPICS = ['neural', 'soup', 'garden'];
+
+async function resetDatabase() {
+  await closeCardDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase('nabokov_cards');
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Card whose title is also its body text
+ */
+function titledCard(id: string, title: string, overrides: Partial<Card> = {}): Card {
+  const { metadata } = createCard(id);
+  return createCard(id, { content: `<p>${title}</p>`, metadata: { ...metadata, title }, ...overrides });
+}
+
+/**
+ * Stub backend: one dimension per known topic word
+ */
+function stubEmbeddingsBackend(model = 'stub-1') {
+  const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+    const { texts } = JSON.parse(init!.body as string) as { texts: string[] };
+    return {
+      ok: true,
+      status: 200,
+      json: async () => ({
+        model,
+        vectors: texts.map(text => TOPICS.map(topic => (text.toLowerCase().includes(topic) ? 1 : 0))),
+      }),
+    } as Response;
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+function embeddedTexts(fetchMock: ReturnType<typeof stubEmbeddingsBackend>): string[] {
+  return fetchMock.mock.calls.flatMap(call => JSON.parse(call[1]!.body as string).texts);
+}
+
+describe('semanticSearchService', () => {
+  beforeEach(async () => {
+    installChromeStorageMock();
+    await resetDatabase();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('computes cosine similarity', () => {
+    expect(cosineSimilarity([1, 0], [1, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([1, 1], [2, 2])).toBeCloseTo(1);
+    expect(cosineSimilarity([1], [1, 0])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+  });
+
+  it('embeds title, tags and content without markup', () => {
+    const card = titledCard('a', 'Title', { tags: ['one', 'two'], content: '<h1>Head</h1>\n<p>Body  text</p>' });
+    expect(cardEmbeddingText(card)).toBe('Title\none two\nHead Body text');
+  });
+
+  it('caches embeddings apart from the stored cards', async () => {
+    const fetchMock = stubEmbeddingsBackend();
+    const card = titledCard('a', 'Neural nets');
+    await putCard(card);
+
+    const vectors = await ensureEmbeddings([card]);
+
+    expect(vectors.get('a')).toEqual([1, 0, 0]);
+    expect((await getEmbeddings(['a'])).get('a')).toMatchObject({ model: 'stub-1', vector: [1, 0, 0] });
+    expect(await getCardRecord('a')).toEqual(card);
+
+    // Cached: no second request
+    await ensureEmbeddings([card]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('re-embeds cards whose text or model changed', async () => {
+    const fetchMock = stubEmbeddingsBackend();
+    const card = titledCard('a', 'Neural nets');
+    await putCard(card);
+    await ensureEmbeddings([card]);
+
+    const edited = { ...card, content: '<p>Soup recipes</p>', metadata: { ...card.metadata, title: 'Soup recipes' } };
+    await putCard(edited);
+    expect((await ensureEmbeddings([edited])).get('a')).toEqual([0, 1, 0]);
+
+    await ensureEmbeddings([edited], 'other-model');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('ranks cards by similarity to a query and drops unrelated ones', async () => {
+    const cards = [
+      titledCard('soup', 'Tomato soup'),
+      titledCard('nn', 'Neural networks', { tags: ['garden'] }),
+      titledCard('nn2', 'More neural networks'),
+      titledCard('other', 'Tax returns'),
+    ];
+    await putCards(cards);
+    stubEmbeddingsBackend();
+
+    const results = await rankBySimilarity('neural', cards);
+
+    expect(results.map(result => result.card.id)).toEqual(['nn2', 'nn']);
+    expect(results[0].score).toBeCloseTo(1);
+  });
+
+  it('ranks reloaded cards against an embedded query without embedding it again', async () => {
+    const cards = [titledCard('nn', 'Neural networks'), titledCard('soup', 'Tomato soup')];
+    await putCards(cards);
+    const fetchMock = stubEmbeddingsBackend();
+
+    const query = await embedQuery('neural');
+    await rankByQueryEmbedding(query, cards);
+    const added = [...cards, titledCard('nn2', 'More neural networks')];
+    const results = await rankByQueryEmbedding(query, added);
+
+    expect(results.map(result => result.card.id)).toEqual(['nn', 'nn2']);
+    expect(embeddedTexts(fetchMock).filter(text => text === 'neural')).toHaveLength(1);
+  });
+
+  it('finds cards similar to a card, excluding itself', async () => {
+    const cards = [
+      titledCard('a', 'Garden soup'),
+      titledCard('b', 'Soup of the day'),
+      titledCard('c', 'Neural networks'),
+    ];
+    await putCards(cards);
+    const fetchMock = stubEmbeddingsBackend();
+
+    const results = await findSimilarCards(cards[0], cards);
+
+    expect(results.map(result => result.card.id)).toEqual(['b']);
+    expect(embeddedTexts(fetchMock)).toHaveLength(3);
+  });
+
+  it('reports an unreachable backend', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      throw new TypeError('Failed to fetch');
+    }));
+
+    await expect(rankBySimilarity('neural', [titledCard('a', 'Neural')])).rejects.toThrow('Could not reach the backend');
+  });
+});
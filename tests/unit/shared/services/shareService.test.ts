@@ -0,0 +1,126 @@
+/**
+ * Unit tests for publishing read-only canvas snapshots
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Node } from '@xyflow/react';
+import { installChromeStorageMock } from '../../../utils/chromeStorageMock';
+import {
+  SHARE_ENDPOINT,
+  buildShareSnapshot,
+  getPublishedShares,
+  publishCanvas,
+  unpublishShare,
+} from '@/shared/services/shareService';
+import { saveSyncSettings } from '@/shared/services/syncService';
+import type { Card } from '@/types/card';
+import type { CardConnection } from '@/types/connection';
+import { createCard } from '../../../fixtures/data';
+
+function createConnection(id: string, source: string, target: string): CardConnection {
+  return { id, source, target, type: 'related' };
+}
+
+describe('shareService', () => {
+  beforeEach(() => {
+    installChromeStorageMock();
+  });
+
+  it('snapshots current node positions and drops dangling connections', () => {
+    const nodes = [
+      { id: 'a', position: { x: 40, y: 80 }, measured: { width: 300, height: 200 }, data: {} },
+    ] as Node[];
+
+    const snapshot = buildShareSnapshot({
+      title: '  ',
+      cards: [createCard('a'), createCard('b', { position: { x: 0, y: 0 } })],
+      connections: [createConnection('ab', 'a', 'b'), createConnection('ac', 'a', 'c')],
+      nodes,
+    });
+
+    expect(snapshot.title).toBe('Untitled canvas');
+    expect(snapshot.cards[0].position).toEqual({ x: 40, y: 80 });
+    expect(snapshot.cards[0].size).toEqual({ width: 300, height: 200 });
+    expect(snapshot.cards[1].position).toEqual({ x: 0, y: 0 });
+    expect(snapshot.connections.map(connection => connection.id)).toEqual(['ab']);
+  });
+
+  it('leaves private card fields out of the snapshot', () => {
+    const card: Card = {
+      ...createCard('a'),
+      metadata: {
+        url: 'https://example.com',
+        title: 'a',
+        domain: 'example.com',
+        timestamp: 1,
+        selectedText: 'private selection',
+        selector: '#secret',
+      },
+      conversation: [{ id: 'm1', role: 'user', content: 'private question', timestamp: 1 }],
+      originalHTML: '<p>private source</p>',
+      context: '<div>private context</div>',
+      fillInHistory: [{ timestamp: 1, sourceCardIds: ['b'], strategy: 'append', previousContent: 'private draft' }],
+      tags: ['kept'],
+    };
+
+    const [shared] = buildShareSnapshot({ title: 'Board', cards: [card], connections: [] }).cards;
+    const uploaded = JSON.stringify(shared);
+
+    expect(shared).toMatchObject({ id: 'a', content: '<p>a</p>', tags: ['kept'], metadata: { title: 'a' } });
+    expect(uploaded).not.toContain('private');
+    expect(uploaded).not.toContain('#secret');
+    expect(shared).not.toHaveProperty('conversation');
+    expect(shared).not.toHaveProperty('fillInHistory');
+  });
+
+  it('publishes, remembers and unpublishes a share', async () => {
+    const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+      if (init?.method === 'DELETE') {
+        return { ok: true, status: 204 } as Response;
+      }
+      return {
+        ok: true,
+        status: 201,
+        json: async () => ({ id: 'abc', url: `${SHARE_ENDPOINT}/share/abc`, expiresAt: null, ownerToken: 'secret' }),
+      } as Response;
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const snapshot = buildShareSnapshot({ title: 'Board', cards: [createCard('a')], connections: [] });
+    const share = await publishCanvas(snapshot, { password: 'pw', expiresInDays: 7 });
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1]!.body as string)).toMatchObject({ password: 'pw', expiresInDays: 7 });
+    expect(share).toMatchObject({ id: 'abc', hasPassword: true, cardCount: 1 });
+    expect((await getPublishedShares()).map(item => item.id)).toEqual(['abc']);
+
+    await unpublishShare('abc');
+
+    expect(fetchMock.mock.calls[1][1]).toMatchObject({
+      method: 'DELETE',
+      headers: { 'X-Share-Owner-Token': 'secret' },
+    });
+    expect(await getPublishedShares()).toEqual([]);
+  });
+
+  it('sends the sync token when publishing', async () => {
+    const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => ({
+      ok: true,
+      status: 201,
+      json: async () => ({ id: 'abc', url: `${SHARE_ENDPOINT}/share/abc`, expiresAt: null, ownerToken: 'secret' }),
+    }) as Response);
+    vi.stubGlobal('fetch', fetchMock);
+    await saveSyncSettings({ token: 'relay-token' });
+
+    const snapshot = buildShareSnapshot({ title: 'Board', cards: [createCard('a')], connections: [] });
+    await publishCanvas(snapshot);
+
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({
+      headers: { Authorization: 'Bearer relay-token' },
+    });
+  });
+
+  it('refuses to publish an empty canvas', async () => {
+    const snapshot = buildShareSnapshot({ title: 'Empty', cards: [], connections: [] });
+    await expect(publishCanvas(snapshot)).rejects.toThrow('no cards');
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Unit tests for operation-log sync
+ *
+ * fetch is replaced by an in-memory relay with the backend's push/pull
+ * semantics; the other profile is simulated by pushing its operations
+ * directly into the relay.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { installChromeStorageMock } from '../../../utils/chromeStorageMock';
+import {
+  SYNC_CONFLICT_START,
+  SYNC_NOW_MESSAGE,
+  hasSyncConflict,
+  requestSync,
+  saveSyncSettings,
+  syncNow,
+} from '@/shared/services/syncService';
+import { clearCardDatabase, closeCardDatabase, getCardRecord, getTrashEntries, putCard } from '@/utils/cardRepository';
+import { loadConnections } from '@/utils/connectionStorage';
+import { formatHlc } from '@/utils/hlc';
+import type { SyncOperation } from '@/types/sync';
+import { createCard } from '../../../fixtures/data';
+
+const REMOTE = 'client-remote';
+
+async function resetDatabase() {
+  await closeCardDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase('nabokov_cards');
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function installRelay() {
+  const log: SyncOperation[] = [];
+
+  const fetchMock = vi.fn(async (url: string, init?: RequestInit) => {
+    const { pathname, searchParams } = new URL(url);
+    let body: unknown;
+    if (pathname === '/api/sync/push') {
+      const { ops } = JSON.parse(init!.body as string) as { ops: SyncOperation[] };
+      ops.forEach(op => log.push({ ...op, seq: log.length + 1 }));
+      body = { accepted: ops.length, cursor: log.length };
+    } else {
+      const since = Number(searchParams.get('since'));
+      body = { ops: log.filter(op => op.seq! > since), cursor: log.length, hasMore: false };
+    }
+    return { ok: true, status: 200, json: async () => body } as Response;
+  });
+  vi.stubGlobal('fetch', fetchMock);
+
+  return {
+    log,
+    remotePush(entityId: string, fields: Record<string, unknown>, wall: number, entity: SyncOperation['entity'] = 'card') {
+      const hlc = formatHlc({ wall, counter: 0, nodeId: REMOTE });
+      log.push({ id: `${entityId}@${hlc}`, clientId: REMOTE, hlc, entity, entityId, fields, seq: log.length + 1 });
+    },
+  };
+}
+
+describe('syncService', () => {
+  let relay: ReturnType<typeof installRelay>;
+
+  beforeEach(async () => {
+    installChromeStorageMock();
+    await resetDatabase();
+    relay = installRelay();
+    await saveSyncSettings({ endpoint: 'http://sync.test' });
+  });
+
+  it('pushes only the fields changed since the last sync', async () => {
+    await putCard(createCard('a'));
+
+    expect(await syncNow()).toMatchObject({ pushed: 1, pulled: 0 });
+    expect(relay.log[0].fields).toMatchObject({ id: 'a', content: '<p>a</p>', __deleted: false });
+
+    expect((await syncNow()).pushed).toBe(0);
+
+    await putCard(createCard('a', { starred: true }));
+    await syncNow();
+
+    expect(relay.log).toHaveLength(2);
+    expect(relay.log[1].fields).toEqual({ starred: true });
+  });
+
+  it('applies remote changes per field, last writer wins', async () => {
+    await putCard(createCard('a'));
+    await syncNow();
+
+    const future = Date.now() + 60_000;
+    relay.remotePush('a', { starred: true }, future);
+    relay.remotePush('a', { content: '<p>stale</p>' }, 1);
+    relay.remotePush('b', { ...createCard('b'), __deleted: false }, future);
+    relay.remotePush('conn-1', { id: 'conn-1', source: 'a', target: 'b', type: 'related', __deleted: false }, future, 'connection');
+
+    expect(await syncNow()).toMatchObject({ pulled: 4, conflicts: 0 });
+
+    const card = await getCardRecord('a');
+    expect(card?.starred).toBe(true);
+    expect(card?.content).toBe('<p>a</p>');
+    expect((await getCardRecord('b'))?.metadata.title).toBe('b');
+    expect((await loadConnections()).map(connection => connection.id)).toEqual(['conn-1']);
+
+    // Applied remote values are not echoed back
+    expect((await syncNow()).pushed).toBe(0);
+  });
+
+  it('moves cards deleted elsewhere to the trash', async () => {
+    await putCard(createCard('a'));
+    await syncNow();
+
+    relay.remotePush('a', { __deleted: true }, Date.now() + 60_000);
+    await syncNow();
+
+    expect(await getCardRecord('a')).toBeUndefined();
+    expect((await getTrashEntries()).map(entry => entry.id)).toEqual(['a']);
+  });
+
+  it('pushes no deletions after a storage reset', async () => {
+    await putCard(createCard('a'));
+    await putCard(createCard('b'));
+    await syncNow();
+
+    // What "Clear all storage" in Settings does
+    await chrome.storage.local.clear();
+    await clearCardDatabase();
+    await saveSyncSettings({ endpoint: 'http://sync.test' });
+    const pushedBefore = relay.log.length;
+
+    expect((await syncNow()).pushed).toBe(0);
+    expect(relay.log.slice(pushedBefore).filter(op => op.fields.__deleted === true)).toEqual([]);
+    // The cleared profile pulls the cards back from the log
+    expect(await getCardRecord('a')).toBeDefined();
+  });
+
+  it('asks the background worker to run manual syncs', async () => {
+    const result = { pushed: 1, pulled: 0, conflicts: 0 };
+    const sendMessage = vi.mocked(chrome.runtime.sendMessage);
+    sendMessage.mockResolvedValueOnce({ success: true, result });
+
+    expect(await requestSync()).toEqual(result);
+    expect(sendMessage).toHaveBeenLastCalledWith({ type: SYNC_NOW_MESSAGE });
+    expect(relay.log).toEqual([]);
+
+    sendMessage.mockResolvedValueOnce({ success: false, error: 'Sync server unreachable' });
+    await expect(requestSync()).rejects.toThrow('Sync server unreachable');
+  });
+
+  it('keeps both versions of concurrent content edits and pushes the merge', async () => {
+    await putCard(createCard('a'));
+    await syncNow();
+
+    await putCard(createCard('a', { content: '<p>local</p>' }));
+    relay.remotePush('a', { content: '<p>remote</p>' }, Date.now() + 60_000);
+
+    expect((await syncNow()).conflicts).toBe(1);
+
+    const merged = (await getCardRecord('a'))!.content ?? '';
+    expect(merged.startsWith('<p>remote</p>')).toBe(true);
+    expect(merged).toContain(`${SYNC_CONFLICT_START}\n<p>local</p>`);
+    expect(hasSyncConflict(merged)).toBe(true);
+
+    const last = relay.log[relay.log.length - 1];
+    expect(last.clientId).not.toBe(REMOTE);
+    expect(last.fields).toEqual({ content: merged });
+    expect(last.hlc > relay.log[relay.log.length - 2].hlc).toBe(true);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for the trash (soft delete with retention)
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { installChromeStorageMock } from '../../../utils/chromeStorageMock';
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  emptyTrash,
+  getTrashedCards,
+  getTrashRetentionDays,
+  moveCardsToTrash,
+  purgeExpiredTrash,
+  restoreCardsFromTrash,
+  setTrashRetentionDays,
+} from '@/shared/services/trashService';
+import { closeCardDatabase, getCardRecord, putCard } from '@/utils/cardRepository';
+import { loadConnections, saveConnections } from '@/utils/connectionStorage';
+import { getAllLinks, saveAllLinks, type ExpandableLink } from '@/utils/expandableLinks';
+import type { CardConnection } from '@/types/connection';
+import { createCard } from '../../../fixtures/data';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function resetDatabase() {
+  await closeCardDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase('nabokov_cards');
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+const connections: CardConnection[] = [
+  { id: 'ab', source: 'a', target: 'b', type: 'related' },
+  { id: 'bc', source: 'b', target: 'c', type: 'related' },
+];
+
+const link: ExpandableLink = {
+  id: 'link-ab',
+  parentCardId: 'a',
+  childCardId: 'b',
+  anchorText: 'b',
+  startOffset: 0,
+  endOffset: 1,
+  createdAt: 1,
+};
+
+describe('trashService', () => {
+  beforeEach(async () => {
+    installChromeStorageMock();
+    await resetDatabase();
+    for (const id of ['a', 'b', 'c']) {
+      await putCard(createCard(id));
+    }
+    await saveConnections(connections);
+    await saveAllLinks([link]);
+  });
+
+  it('detaches connections and links when a card is trashed', async () => {
+    await moveCardsToTrash(['b']);
+
+    expect(await getCardRecord('b')).toBeUndefined();
+    expect(await loadConnections()).toEqual([]);
+    expect(await getAllLinks()).toEqual([]);
+
+    const [entry] = await getTrashedCards();
+    expect(entry.id).toBe('b');
+    expect(entry.connections.map(c => c.id)).toEqual(['ab', 'bc']);
+    expect(entry.expandableLinks).toEqual([link]);
+  });
+
+  it('restores the card with its connections and links', async () => {
+    await moveCardsToTrash(['b']);
+
+    const restored = await restoreCardsFromTrash(['b']);
+
+    expect(restored.map(card => card.id)).toEqual(['b']);
+    expect(await getCardRecord('b')).toBeDefined();
+    expect((await loadConnections()).map(c => c.id).sort()).toEqual(['ab', 'bc']);
+    expect(await getAllLinks()).toEqual([link]);
+    expect(await getTrashedCards()).toEqual([]);
+  });
+
+  it('only reconnects once both ends are restored', async () => {
+    await moveCardsToTrash(['a']);
+    await moveCardsToTrash(['b']);
+
+    await restoreCardsFromTrash(['a']);
+    expect(await loadConnections()).toEqual([]);
+
+    await restoreCardsFromTrash(['b']);
+    expect((await loadConnections()).map(c => c.id).sort()).toEqual(['ab', 'bc']);
+  });
+
+  it('purges entries past the retention period', async () => {
+    expect(await getTrashRetentionDays()).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    await setTrashRetentionDays(7);
+    await moveCardsToTrash(['a']);
+
+    expect(await purgeExpiredTrash(Date.now() + 6 * DAY_MS)).toBe(0);
+    expect(await purgeExpiredTrash(Date.now() + 8 * DAY_MS)).toBe(1);
+    expect(await getTrashedCards()).toEqual([]);
+  });
+
+  it('keeps entries forever when retention is disabled', async () => {
+    await setTrashRetentionDays(0);
+    await moveCardsToTrash(['a']);
+
+    expect(await purgeExpiredTrash(Date.now() + 1000 * DAY_MS)).toBe(0);
+    expect(await getTrashedCards()).toHaveLength(1);
+  });
+
+  it('empties the trash', async () => {
+    await moveCardsToTrash(['a', 'c']);
+
+    expect(await emptyTrash()).toBe(2);
+    expect(await getTrashedCards()).toEqual([]);
+    expect(await restoreCardsFromTrash(['a'])).toEqual([]);
+  });
+});
@@ -0,0 +1,331 @@
+/**
+ * Unit tests for workspace bundle export/import
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { installChromeStorageMock } from '../../../utils/chromeStorageMock';
+import {
+  WORKSPACE_BUNDLE_FORMAT,
+  WORKSPACE_BUNDLE_VERSION,
+  buildWorkspaceBundle,
+  importWorkspaceBundle,
+  parseWorkspaceBundle,
+  previewWorkspaceImport,
+  validateWorkspaceBundle,
+  type WorkspaceBundle,
+} from '@/shared/services/workspaceBundleService';
+import { closeCardDatabase, getAllCards, getCardRecord, putCards } from '@/utils/cardRepository';
+import { loadConnections, saveConnections } from '@/utils/connectionStorage';
+import { loadBoards, saveBoards } from '@/utils/boardStorage';
+import { loadGroups, saveGroups } from '@/utils/groupStorage';
+import { getAllLinks, saveAllLinks } from '@/utils/expandableLinks';
+import { loadAllElementChatPages, saveElementChatsForPage } from '@/services/elementChatService';
+import type { CardConnection } from '@/types/connection';
+import type { CanvasGroup } from '@/types/group';
+import type { ElementChatSession } from '@/types/elementChat';
+import { createCard } from '../../../fixtures/data';
+
+function createConnection(id: string, source: string, target: string): CardConnection {
+  return { id, source, target, type: 'related' };
+}
+
+function createGroup(id: string, overrides: Partial<CanvasGroup> = {}): CanvasGroup {
+  return {
+    id,
+    title: `Group ${id}`,
+    color: '#D4AF37',
+    position: { x: 0, y: 0 },
+    size: { width: 400, height: 300 },
+    createdAt: 1000,
+    updatedAt: 1000,
+    ...overrides,
+  };
+}
+
+function createSession(elementId: string, lastActive: number): ElementChatSession {
+  return {
+    chatId: `chat-${elementId}`,
+    elementId,
+    pageUrl: 'https://example.com/page',
+    elementDescriptor: {} as ElementChatSession['elementDescriptor'],
+    messages: [],
+    createdAt: 1000,
+    lastActive,
+  };
+}
+
+function createBundle(overrides: Partial<WorkspaceBundle> = {}): WorkspaceBundle {
+  return {
+    format: WORKSPACE_BUNDLE_FORMAT,
+    version: WORKSPACE_BUNDLE_VERSION,
+    exportedAt: 1000,
+    storageVersion: 4,
+    cards: [],
+    connections: [],
+    boards: [],
+    groups: [],
+    expandableLinks: [],
+    elementChats: [],
+    customButtons: [],
+    filters: null,
+    shortcuts: {},
+    ...overrides,
+  };
+}
+
+async function resetDatabase() {
+  await closeCardDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase('nabokov_cards');
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+describe('workspaceBundleService', () => {
+  let storage: ReturnType<typeof installChromeStorageMock>;
+
+  beforeEach(async () => {
+    storage = installChromeStorageMock();
+    await resetDatabase();
+  });
+
+  describe('buildWorkspaceBundle', () => {
+    it('collects every workspace section', async () => {
+      await putCards([createCard('a'), createCard('b')]);
+      await saveConnections([createConnection('c1', 'a', 'b')]);
+      await saveBoards([{ id: 'research', name: 'Research', createdAt: 1, updatedAt: 1 }]);
+      await saveGroups([createGroup('g1')]);
+      await saveAllLinks([
+        { id: 'l1', parentCardId: 'a', childCardId: 'b', anchorText: 'x', startOffset: 0, endOffset: 1, createdAt: 1 },
+      ]);
+      await saveElementChatsForPage({
+        pageUrl: 'https://example.com/page',
+        sessions: { el: createSession('el', 1000) },
+        lastUpdated: 1000,
+      });
+      await chrome.storage.local.set({
+        nabokov_custom_buttons: [{ id: 'btn', label: 'B', icon: '*', prompt: 'p', connectionType: 'related', enabled: true }],
+        nabokov_shortcuts_config: { undo: { key: 'z', modifier: 'meta', enabled: true } },
+      });
+
+      const bundle = await buildWorkspaceBundle();
+
+      expect(bundle.format).toBe(WORKSPACE_BUNDLE_FORMAT);
+      expect(bundle.cards.map(c => c.id)).toEqual(['a', 'b']);
+      expect(bundle.connections).toHaveLength(1);
+      expect(bundle.boards.map(b => b.id)).toEqual(['default', 'research']);
+      expect(bundle.groups.map(g => g.id)).toEqual(['g1']);
+      expect(bundle.expandableLinks).toHaveLength(1);
+      expect(bundle.elementChats[0].sessions.el.chatId).toBe('chat-el');
+      expect(bundle.customButtons.map(b => b.id)).toEqual(['btn']);
+      expect(bundle.shortcuts).toHaveProperty('undo');
+    });
+
+    it('round-trips through JSON', async () => {
+      await putCards([createCard('a')]);
+
+      const bundle = await buildWorkspaceBundle();
+      expect(parseWorkspaceBundle(JSON.stringify(bundle))).toEqual(bundle);
+    });
+  });
+
+  describe('validation', () => {
+    it('rejects non-JSON text', () => {
+      expect(() => parseWorkspaceBundle('not json')).toThrow('not valid JSON');
+    });
+
+    it('rejects files that are not workspace bundles', () => {
+      expect(() => validateWorkspaceBundle({ cards: [] })).toThrow('format');
+    });
+
+    it('rejects bundles from a newer version', () => {
+      expect(() => validateWorkspaceBundle({ ...createBundle(), version: WORKSPACE_BUNDLE_VERSION + 1 })).toThrow(
+        'newer version'
+      );
+    });
+
+    it('lists every malformed record', () => {
+      const data = {
+        ...createBundle(),
+        cards: [{ id: '', metadata: {}, tags: 'x' }],
+        connections: [{ id: 'c', source: 'a', target: 'b', type: 'bogus' }],
+      };
+
+      expect(() => validateWorkspaceBundle(data)).toThrow(/cards\[0\]\.id.*connections\[0\]\.type/);
+    });
+
+    it('accepts a bare card array from the old export', () => {
+      const bundle = validateWorkspaceBundle([createCard('a')]);
+      expect(bundle.cards.map(c => c.id)).toEqual(['a']);
+      expect(bundle.connections).toEqual([]);
+    });
+
+    it('upgrades version 1 bundles, which had no boards or group frames', () => {
+      const { boards: _boards, groups: _groups, ...v1 } = createBundle({ version: 1, cards: [createCard('a')] });
+
+      const bundle = validateWorkspaceBundle(v1);
+
+      expect(bundle.version).toBe(WORKSPACE_BUNDLE_VERSION);
+      expect(bundle.boards).toEqual([]);
+      expect(bundle.groups).toEqual([]);
+      expect(bundle.cards.map(c => c.id)).toEqual(['a']);
+    });
+  });
+
+  describe('merge import', () => {
+    it('skips identical cards and remaps colliding ids, rewriting references', async () => {
+      await putCards([createCard('same'), createCard('clash')]);
+      await saveConnections([createConnection('existing', 'same', 'clash')]);
+
+      const bundle = createBundle({
+        cards: [
+          createCard('same'),
+          createCard('clash', { content: '<p>different</p>' }),
+          createCard('child', { parentCardId: 'clash' }),
+        ],
+        connections: [createConnection('incoming', 'same', 'clash')],
+      });
+
+      const preview = await previewWorkspaceImport(bundle, 'merge');
+      expect(preview.cards).toMatchObject({ incoming: 3, added: 1, unchanged: 1, remapped: 1 });
+      expect(await getAllCards()).toHaveLength(2);
+
+      const result = await importWorkspaceBundle(bundle, 'merge');
+      expect(result.cards).toEqual(preview.cards);
+
+      const cards = await getAllCards();
+      expect(cards).toHaveLength(4);
+      expect((await getCardRecord('clash'))?.content).toBe('<p>clash</p>');
+
+      const remapped = cards.find(c => c.content === '<p>different</p>')!;
+      expect(remapped.id).not.toBe('clash');
+      expect((await getCardRecord('child'))?.parentCardId).toBe(remapped.id);
+
+      const connections = await loadConnections();
+      expect(connections.find(c => c.id === 'existing')?.target).toBe('clash');
+      expect(connections.find(c => c.id === 'incoming')?.target).toBe(remapped.id);
+    });
+
+    it('remaps colliding boards and group frames, keeping the main board name', async () => {
+      await saveBoards([
+        { id: 'default', name: 'Home', createdAt: 0, updatedAt: 0 },
+        { id: 'b1', name: 'Mine', createdAt: 1, updatedAt: 1 },
+      ]);
+      await saveGroups([createGroup('g1')]);
+
+      const bundle = createBundle({
+        boards: [
+          { id: 'default', name: 'Main board', createdAt: 0, updatedAt: 0 },
+          { id: 'b1', name: 'Theirs', createdAt: 2, updatedAt: 2 },
+        ],
+        groups: [createGroup('g1', { title: 'Other', boardId: 'b1' })],
+        cards: [createCard('a', { boardIds: ['b1'], groupId: 'g1' }), createCard('b', { groupId: 'missing' })],
+      });
+
+      const result = await importWorkspaceBundle(bundle, 'merge');
+      expect(result.boards).toMatchObject({ incoming: 2, unchanged: 1, remapped: 1 });
+      expect(result.groups).toMatchObject({ incoming: 1, remapped: 1 });
+
+      const boards = await loadBoards();
+      expect(boards.find(b => b.id === 'default')?.name).toBe('Home');
+      const theirs = boards.find(b => b.name === 'Theirs')!;
+      const other = (await loadGroups()).find(g => g.title === 'Other')!;
+      expect(theirs.id).not.toBe('b1');
+      expect(other.id).not.toBe('g1');
+      expect(other.boardId).toBe(theirs.id);
+
+      expect(await getCardRecord('a')).toMatchObject({ boardIds: [theirs.id], groupId: other.id });
+      expect((await getCardRecord('b'))?.groupId).toBeUndefined();
+    });
+
+    it('drops connections whose cards are missing', async () => {
+      const bundle = createBundle({
+        cards: [createCard('a')],
+        connections: [createConnection('dangling', 'a', 'ghost')],
+      });
+
+      const result = await importWorkspaceBundle(bundle, 'merge');
+
+      expect(result.connections.skipped).toBe(1);
+      expect(await loadConnections()).toEqual([]);
+    });
+
+    it('keeps the most recently active chat session on collision', async () => {
+      await saveElementChatsForPage({
+        pageUrl: 'https://example.com/page',
+        sessions: { old: createSession('old', 5000), stale: createSession('stale', 1000) },
+        lastUpdated: 5000,
+      });
+
+      const bundle = createBundle({
+        elementChats: [{
+          pageUrl: 'https://example.com/page',
+          sessions: { old: createSession('old', 2000), stale: createSession('stale', 9000), fresh: createSession('fresh', 1) },
+          lastUpdated: 9000,
+        }],
+      });
+
+      const result = await importWorkspaceBundle(bundle, 'merge');
+      const [page] = await loadAllElementChatPages();
+
+      expect(result.chatSessions).toMatchObject({ added: 2, skipped: 1 });
+      expect(page.sessions.old.lastActive).toBe(5000);
+      expect(page.sessions.stale.lastActive).toBe(9000);
+      expect(page.sessions.fresh).toBeDefined();
+    });
+
+    it('keeps existing shortcut customizations', async () => {
+      await chrome.storage.local.set({ nabokov_shortcuts_config: { undo: { key: 'u', enabled: true } } });
+
+      await importWorkspaceBundle(createBundle({
+        shortcuts: { undo: { key: 'z', enabled: true }, redo: { key: 'y', enabled: true } },
+      }), 'merge');
+
+      const stored = storage._getInternalStorage().nabokov_shortcuts_config;
+      expect(stored.undo.key).toBe('u');
+      expect(stored.redo.key).toBe('y');
+    });
+  });
+
+  describe('replace import', () => {
+    it('discards the current workspace', async () => {
+      await putCards([createCard('old')]);
+      await saveConnections([createConnection('c-old', 'old', 'old')]);
+      await saveElementChatsForPage({
+        pageUrl: 'https://example.com/other',
+        sessions: { el: createSession('el', 1) },
+        lastUpdated: 1,
+      });
+
+      const result = await importWorkspaceBundle(createBundle({
+        cards: [createCard('new-a'), createCard('new-b')],
+        expandableLinks: [
+          { id: 'l1', parentCardId: 'new-a', childCardId: 'new-b', anchorText: 'x', startOffset: 0, endOffset: 1, createdAt: 1 },
+        ],
+      }), 'replace');
+
+      expect(result.cards.added).toBe(2);
+      expect((await getAllCards()).map(c => c.id)).toEqual(['new-a', 'new-b']);
+      expect(await loadConnections()).toEqual([]);
+      expect((await getAllLinks()).map(l => l.id)).toEqual(['l1']);
+      expect(await loadAllElementChatPages()).toEqual([]);
+    });
+
+    it('replaces boards and group frames', async () => {
+      await saveBoards([{ id: 'old-board', name: 'Old', createdAt: 1, updatedAt: 1 }]);
+      await saveGroups([createGroup('old-group')]);
+
+      const result = await importWorkspaceBundle(createBundle({
+        boards: [{ id: 'new-board', name: 'New', createdAt: 1, updatedAt: 1 }],
+        groups: [createGroup('new-group', { boardId: 'new-board' })],
+        cards: [createCard('a', { boardIds: ['new-board'], groupId: 'new-group' })],
+      }), 'replace');
+
+      expect(result.boards.added).toBe(1);
+      expect((await loadBoards()).map(b => b.id)).toEqual(['default', 'new-board']);
+      expect((await loadGroups()).map(g => g.id)).toEqual(['new-group']);
+      expect((await getCardRecord('a'))?.groupId).toBe('new-group');
+    });
+  });
+});
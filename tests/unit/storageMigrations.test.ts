@@ -0,0 +1,244 @@
+/**
+ * Unit tests for storage schema migrations
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { installChromeStorageMock } from '../utils/chromeStorageMock';
+import {
+  CURRENT_STORAGE_VERSION,
+  STORAGE_VERSION_KEY,
+  dropUnusedCardStyles,
+  getStorageVersion,
+  migrateChatWindowCollapseState,
+  migrateLegacyCardArray,
+  normalizeClipSelectors,
+  runStorageMigrations,
+  type StorageMigration,
+} from '@/utils/storageMigrations';
+import { CARD_MIGRATION_KEY, closeCardDatabase, getAllCards, getCardRecord, putCards } from '@/utils/cardRepository';
+import { createCard } from '../fixtures/data';
+
+async function resetDatabase() {
+  await closeCardDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase('nabokov_cards');
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+describe('storageMigrations', () => {
+  let storage: ReturnType<typeof installChromeStorageMock>;
+
+  beforeEach(async () => {
+    storage = installChromeStorageMock();
+    await resetDatabase();
+  });
+
+  describe('runStorageMigrations', () => {
+    const createSteps = (log: number[]): StorageMigration[] => [
+      { version: 2, description: 'second', migrate: async () => { log.push(2); } },
+      { version: 1, description: 'first', migrate: async () => { log.push(1); } },
+      { version: 3, description: 'third', migrate: async () => { log.push(3); } },
+    ];
+
+    it('treats unversioned storage as version 0', async () => {
+      expect(await getStorageVersion()).toBe(0);
+    });
+
+    it('runs all steps in version order and stamps the final version', async () => {
+      const log: number[] = [];
+      const result = await runStorageMigrations(createSteps(log));
+
+      expect(log).toEqual([1, 2, 3]);
+      expect(result).toEqual({ fromVersion: 0, toVersion: 3, applied: [1, 2, 3] });
+      expect(storage._getInternalStorage()[STORAGE_VERSION_KEY]).toBe(3);
+    });
+
+    it('only runs steps newer than the stamped version', async () => {
+      await chrome.storage.local.set({ [STORAGE_VERSION_KEY]: 2 });
+      const log: number[] = [];
+
+      const result = await runStorageMigrations(createSteps(log));
+
+      expect(log).toEqual([3]);
+      expect(result.applied).toEqual([3]);
+    });
+
+    it('is a no-op when already current', async () => {
+      const log: number[] = [];
+      await runStorageMigrations(createSteps(log));
+      log.length = 0;
+
+      const result = await runStorageMigrations(createSteps(log));
+
+      expect(log).toEqual([]);
+      expect(result.applied).toEqual([]);
+    });
+
+    it('stops at a failing step and keeps the last successful version', async () => {
+      const steps: StorageMigration[] = [
+        { version: 1, description: 'ok', migrate: async () => {} },
+        { version: 2, description: 'broken', migrate: async () => { throw new Error('boom'); } },
+        { version: 3, description: 'never', migrate: vi.fn() },
+      ];
+
+      await expect(runStorageMigrations(steps)).rejects.toThrow('boom');
+
+      expect(await getStorageVersion()).toBe(1);
+      expect(steps[2].migrate).not.toHaveBeenCalled();
+    });
+
+    it('does not downgrade storage written by a newer build', async () => {
+      await chrome.storage.local.set({ [STORAGE_VERSION_KEY]: 99 });
+      const log: number[] = [];
+
+      const result = await runStorageMigrations(createSteps(log));
+
+      expect(log).toEqual([]);
+      expect(result.toVersion).toBe(99);
+    });
+
+    it('brings fresh storage to CURRENT_STORAGE_VERSION with the built-in steps', async () => {
+      const result = await runStorageMigrations();
+      expect(result.toVersion).toBe(CURRENT_STORAGE_VERSION);
+    });
+  });
+
+  describe('v1 migrateLegacyCardArray', () => {
+    it('moves the legacy cards array into the repository', async () => {
+      await chrome.storage.local.set({ cards: [createCard('a'), createCard('b')] });
+
+      await migrateLegacyCardArray();
+
+      expect((await getAllCards()).map(c => c.id)).toEqual(['a', 'b']);
+      expect(storage._getInternalStorage().cards).toBeUndefined();
+    });
+
+    it('is idempotent', async () => {
+      await chrome.storage.local.set({ cards: [createCard('a')] });
+
+      await migrateLegacyCardArray();
+      await closeCardDatabase();
+      await migrateLegacyCardArray();
+
+      expect(await getAllCards()).toHaveLength(1);
+    });
+
+    it('leaves the version and the legacy array in place when the import fails', async () => {
+      await chrome.storage.local.set({ cards: [createCard('a')] });
+      const set = chrome.storage.local.set.bind(chrome.storage.local);
+      const setSpy = vi.spyOn(chrome.storage.local, 'set').mockImplementation(async (items: Record<string, unknown>) => {
+        if (CARD_MIGRATION_KEY in items) {
+          throw new Error('QUOTA_BYTES quota exceeded');
+        }
+        return set(items);
+      });
+
+      await expect(runStorageMigrations([
+        { version: 1, description: 'legacy', migrate: migrateLegacyCardArray },
+      ])).rejects.toThrow('QUOTA_BYTES');
+
+      expect(await getStorageVersion()).toBe(0);
+      expect(storage._getInternalStorage().cards).toHaveLength(1);
+
+      setSpy.mockRestore();
+      await runStorageMigrations([{ version: 1, description: 'legacy', migrate: migrateLegacyCardArray }]);
+      expect(await getStorageVersion()).toBe(1);
+      expect(storage._getInternalStorage().cards).toBeUndefined();
+    });
+  });
+
+  describe('v2 dropUnusedCardStyles', () => {
+    it('removes styles and leaves other fields intact', async () => {
+      await putCards([
+        createCard('styled', { styles: { color: 'red' }, starred: true }),
+        createCard('plain'),
+      ]);
+
+      await dropUnusedCardStyles();
+      await dropUnusedCardStyles();
+
+      const styled = await getCardRecord('styled');
+      expect(styled).not.toHaveProperty('styles');
+      expect(styled?.starred).toBe(true);
+      expect(await getCardRecord('plain')).toEqual(createCard('plain'));
+    });
+  });
+
+  describe('v3 normalizeClipSelectors', () => {
+    it('removes descriptive and empty selectors but keeps real ones', async () => {
+      const base = createCard('x').metadata;
+      await putCards([
+        createCard('multi', { metadata: { ...base, tagName: 'multi-element', selector: '3 elements combined' } }),
+        createCard('empty', { metadata: { ...base, selector: '  ' } }),
+        createCard('real', { metadata: { ...base, selector: 'div.article > p:nth-child(2)' } }),
+      ]);
+
+      await normalizeClipSelectors();
+      await normalizeClipSelectors();
+
+      expect((await getCardRecord('multi'))?.metadata).not.toHaveProperty('selector');
+      expect((await getCardRecord('multi'))?.metadata.tagName).toBe('multi-element');
+      expect((await getCardRecord('empty'))?.metadata).not.toHaveProperty('selector');
+      expect((await getCardRecord('real'))?.metadata.selector).toBe('div.article > p:nth-child(2)');
+    });
+  });
+
+  describe('v4 migrateChatWindowCollapseState', () => {
+    const windowState = { position: { x: 0, y: 0 }, size: { width: 300, height: 400 } };
+
+    const createPage = (sessions: Record<string, any>) => ({
+      pageUrl: 'https://example.com',
+      sessions,
+      lastUpdated: 1000,
+    });
+
+    it('derives collapseState from the deprecated collapsed flag', async () => {
+      await chrome.storage.local.set({
+        nabokov_element_chats_abc: createPage({
+          collapsedOne: { elementId: 'collapsedOne', windowState: { ...windowState, collapsed: true } },
+          openOne: { elementId: 'openOne', windowState: { ...windowState, collapsed: false } },
+          noWindow: { elementId: 'noWindow' },
+        }),
+        unrelated_key: { sessions: { a: { windowState: { collapsed: true } } } },
+      });
+
+      await migrateChatWindowCollapseState();
+
+      const stored = storage._getInternalStorage();
+      const sessions = stored.nabokov_element_chats_abc.sessions;
+      expect(sessions.collapsedOne.windowState.collapseState).toBe('rectangle');
+      expect(sessions.openOne.windowState.collapseState).toBe('expanded');
+      expect(sessions.noWindow.windowState).toBeUndefined();
+      expect(stored.unrelated_key.sessions.a.windowState.collapseState).toBeUndefined();
+    });
+
+    it('keeps an existing collapseState and syncs the boolean mirror', async () => {
+      await chrome.storage.local.set({
+        nabokov_element_chats_def: createPage({
+          square: { elementId: 'square', windowState: { ...windowState, collapseState: 'square', collapsed: false } },
+        }),
+      });
+
+      await migrateChatWindowCollapseState();
+
+      const migrated = storage._getInternalStorage().nabokov_element_chats_def.sessions.square.windowState;
+      expect(migrated.collapseState).toBe('square');
+      expect(migrated.collapsed).toBe(true);
+    });
+
+    it('does not write when nothing changes', async () => {
+      await chrome.storage.local.set({
+        nabokov_element_chats_ghi: createPage({
+          done: { elementId: 'done', windowState: { ...windowState, collapseState: 'expanded', collapsed: false } },
+        }),
+      });
+      storage.set.mockClear();
+
+      await migrateChatWindowCollapseState();
+
+      expect(storage.set).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Unit tests for line-based text diff
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffLines, toSideBySide } from '@/utils/textDiff';
+
+describe('textDiff', () => {
+  it('marks unchanged, removed and added lines', () => {
+    expect(diffLines('a\nb\nc', 'a\nc\nd')).toEqual([
+      { op: 'same', text: 'a' },
+      { op: 'removed', text: 'b' },
+      { op: 'same', text: 'c' },
+      { op: 'added', text: 'd' },
+    ]);
+  });
+
+  it('handles empty inputs', () => {
+    expect(diffLines('', 'x')).toEqual([{ op: 'added', text: 'x' }]);
+    expect(diffLines('x', '')).toEqual([{ op: 'removed', text: 'x' }]);
+    expect(diffLines('', '')).toEqual([]);
+  });
+
+  it('pairs replaced lines side by side', () => {
+    expect(toSideBySide(diffLines('a\nold\nz', 'a\nnew\nextra\nz'))).toEqual([
+      { op: 'same', left: 'a', right: 'a' },
+      { op: 'changed', left: 'old', right: 'new' },
+      { op: 'added', left: undefined, right: 'extra' },
+      { op: 'same', left: 'z', right: 'z' },
+    ]);
+  });
+});
@@ -0,0 +1,29 @@
+import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+import path from 'path';
+
+// Read-only share viewer served by the backend at /share/:id
+export default defineConfig({
+  root: path.resolve(__dirname, 'src/share'),
+  base: '/share/',
+  plugins: [
+    react({
+      jsxImportSource: '@emotion/react',
+      babel: {
+        plugins: ['@emotion/babel-plugin'],
+      },
+    }),
+  ],
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, './src'),
+      '@components': path.resolve(__dirname, './src/components'),
+      '@utils': path.resolve(__dirname, './src/utils'),
+      '@types': path.resolve(__dirname, './src/types'),
+    },
+  },
+  build: {
+    outDir: path.resolve(__dirname, 'backend/public/share'),
+    emptyOutDir: true,
+  },
+});